@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowLeft, Save, Plus, DollarSign } from 'lucide-react';
+import Link from 'next/link';
+
+const SERVICE_CAPABILITIES = [
+  'tire_repair',
+  'tire_replacement',
+  'engine_repair',
+  'towing',
+  'jumpstart',
+  'fuel_delivery',
+];
+
+interface IncidentTypeDefinition {
+  key: string;
+  label: string;
+  description?: string;
+  requiredCapabilities: string[];
+  basePriceCents: number;
+  defaultSlaTier: string;
+  ivrDigit?: string;
+  active: boolean;
+}
+
+export default function IncidentTypesConfigPage() {
+  const [types, setTypes] = useState<IncidentTypeDefinition[]>([]);
+  const [slaTiers, setSlaTiers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [version, setVersion] = useState(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchConfig();
+  }, []);
+
+  const fetchConfig = async () => {
+    try {
+      const [typesResponse, slaResponse] = await Promise.all([
+        fetch('/api/config/incident-types'),
+        fetch('/api/config/sla-tiers'),
+      ]);
+      const typesData = await typesResponse.json();
+      const slaData = await slaResponse.json();
+
+      if (typesData.config) {
+        setTypes(typesData.config.types);
+        setVersion(typesData.version);
+      }
+      if (slaData.config) {
+        setSlaTiers(slaData.config.tiers.map((tier: { name: string }) => tier.name));
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    // Validation
+    if (types.some((type) => !type.key || !type.label || type.requiredCapabilities.length === 0)) {
+      toast({
+        title: 'Validation Error',
+        description: 'Every incident type needs a key, a label and at least one capability',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/config/incident-types', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          config: { types },
+          reason: 'Updated via admin UI',
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save configuration');
+      }
+
+      const data = await response.json();
+      setVersion(data.version);
+
+      toast({
+        title: 'Success',
+        description: 'Incident types saved successfully',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateType = (index: number, updates: Partial<IncidentTypeDefinition>) => {
+    setTypes(types.map((type, i) => (i === index ? { ...type, ...updates } : type)));
+  };
+
+  const toggleCapability = (index: number, capability: string) => {
+    const { requiredCapabilities } = types[index];
+    updateType(index, {
+      requiredCapabilities: requiredCapabilities.includes(capability)
+        ? requiredCapabilities.filter((c) => c !== capability)
+        : [...requiredCapabilities, capability],
+    });
+  };
+
+  const handleAdd = () => {
+    setTypes([
+      ...types,
+      {
+        key: '',
+        label: '',
+        requiredCapabilities: [],
+        basePriceCents: 10000,
+        defaultSlaTier: slaTiers[0] || 'Standard',
+        active: false,
+      },
+    ]);
+  };
+
+  if (loading) {
+    return <div className="container mx-auto p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/admin/config">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">Incident Types</h1>
+            <p className="text-muted-foreground mt-1">
+              Version {version} • Types drivers can report in the apps and by phone
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Type
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {types.map((type, index) => (
+          <Card key={index}>
+            <CardHeader>
+              <CardTitle>{type.label || 'New incident type'}</CardTitle>
+              <CardDescription>
+                Keys cannot be changed once incidents have been created with them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`key-${index}`}>Key</Label>
+                  <Input
+                    id={`key-${index}`}
+                    value={type.key}
+                    onChange={(e) => updateType(index, { key: e.target.value })}
+                    placeholder="e.g. lockout"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`label-${index}`}>Label</Label>
+                  <Input
+                    id={`label-${index}`}
+                    value={type.label}
+                    onChange={(e) => updateType(index, { label: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`description-${index}`}>Description</Label>
+                <Input
+                  id={`description-${index}`}
+                  value={type.description || ''}
+                  onChange={(e) => updateType(index, { description: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Required Capabilities</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {SERVICE_CAPABILITIES.map((capability) => (
+                    <label key={capability} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={type.requiredCapabilities.includes(capability)}
+                        onChange={() => toggleCapability(index, capability)}
+                      />
+                      {capability.replace(/_/g, ' ')}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Vendors need at least one of these to be matched
+                </p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`price-${index}`}>Base Price</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id={`price-${index}`}
+                      type="number"
+                      value={type.basePriceCents / 100}
+                      onChange={(e) =>
+                        updateType(index, { basePriceCents: Math.round(Number(e.target.value) * 100) })
+                      }
+                      className="pl-9"
+                      min={0}
+                      step={5}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`sla-${index}`}>Default SLA Tier</Label>
+                  <select
+                    id={`sla-${index}`}
+                    value={type.defaultSlaTier}
+                    onChange={(e) => updateType(index, { defaultSlaTier: e.target.value })}
+                    className="w-full h-10 rounded-md border px-3 text-sm"
+                  >
+                    {slaTiers.map((tier) => (
+                      <option key={tier} value={tier}>
+                        {tier}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`ivr-${index}`}>IVR Digit</Label>
+                  <Input
+                    id={`ivr-${index}`}
+                    value={type.ivrDigit || ''}
+                    onChange={(e) => updateType(index, { ivrDigit: e.target.value || undefined })}
+                    maxLength={1}
+                    placeholder="None"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={type.active}
+                  onChange={(e) => updateType(index, { active: e.target.checked })}
+                />
+                Active (offered to drivers)
+              </label>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ interface MatchingConfig {
   maxExpansionAttempts: number;
   offerTimeoutSeconds: number;
   maxOffersPerIncident: number;
+  scheduledMatchLeadMinutes?: number;
 }
 
 const DEFAULT_CONFIG: MatchingConfig = {
@@ -40,6 +41,7 @@ const DEFAULT_CONFIG: MatchingConfig = {
   maxExpansionAttempts: 3,
   offerTimeoutSeconds: 120,
   maxOffersPerIncident: 3,
+  scheduledMatchLeadMinutes: 120,
 };
 
 export default function MatchingConfigPage() {
@@ -354,6 +356,21 @@ export default function MatchingConfigPage() {
                 Maximum number of vendors to send offers to simultaneously
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scheduledMatchLeadMinutes">Scheduled Job Lead Time (minutes)</Label>
+              <Input
+                id="scheduledMatchLeadMinutes"
+                type="number"
+                value={config.scheduledMatchLeadMinutes ?? 120}
+                onChange={(e) => setConfig({ ...config, scheduledMatchLeadMinutes: Number(e.target.value) })}
+                min={15}
+                max={1440}
+              />
+              <p className="text-xs text-muted-foreground">
+                How long before a booked service window vendors start receiving offers
+              </p>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -4,7 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Settings, Map, Clock, DollarSign } from 'lucide-react';
+import { Settings, Map, Clock, DollarSign, ListChecks, Radar } from 'lucide-react';
 
 export default function ConfigPage() {
   return (
@@ -104,6 +104,50 @@ export default function ConfigPage() {
             </CardContent>
           </Card>
         </Link>
+
+        {/* Incident Types */}
+        <Link href="/admin/config/incident-types">
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <ListChecks className="h-8 w-8 text-primary" />
+                <div>
+                  <CardTitle>Incident Types</CardTitle>
+                  <CardDescription>
+                    Manage the types drivers can report
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Set required capabilities, base prices, default SLA tiers and IVR menu digits
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        {/* Tracking Watchdog */}
+        <Link href="/admin/config/tracking">
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <Radar className="h-8 w-8 text-primary" />
+                <div>
+                  <CardTitle>Tracking Watchdog</CardTitle>
+                  <CardDescription>
+                    Flag vendors who stop reporting, stall or drive away
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Set stale GPS, stalled and moving-away thresholds for active tracking sessions
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
       </div>
     </div>
   );
@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowLeft, Save, RotateCcw } from 'lucide-react';
+import Link from 'next/link';
+
+interface TrackingWatchdogConfig {
+  staleGpsMinutes: number;
+  stalledMinutes: number;
+  stalledRadiusMeters: number;
+  stalledMinDistanceMiles: number;
+  movingAwayMinutes: number;
+  movingAwayMinIncreaseMiles: number;
+}
+
+const DEFAULT_CONFIG: TrackingWatchdogConfig = {
+  staleGpsMinutes: 5,
+  stalledMinutes: 10,
+  stalledRadiusMeters: 100,
+  stalledMinDistanceMiles: 0.5,
+  movingAwayMinutes: 5,
+  movingAwayMinIncreaseMiles: 0.5,
+};
+
+export default function TrackingConfigPage() {
+  const [config, setConfig] = useState<TrackingWatchdogConfig>(DEFAULT_CONFIG);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [version, setVersion] = useState(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchConfig();
+  }, []);
+
+  const fetchConfig = async () => {
+    try {
+      const response = await fetch('/api/config/tracking');
+      const data = await response.json();
+
+      if (data.config) {
+        setConfig(data.config);
+        setVersion(data.version);
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/config/tracking', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          config,
+          reason: 'Updated via admin UI',
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save configuration');
+      }
+
+      const data = await response.json();
+      setVersion(data.version);
+
+      toast({
+        title: 'Success',
+        description: 'Configuration saved successfully',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setConfig(DEFAULT_CONFIG);
+  };
+
+  const updateField = (key: keyof TrackingWatchdogConfig, value: string) => {
+    setConfig({ ...config, [key]: Number(value) });
+  };
+
+  if (loading) {
+    return <div className="container mx-auto p-6">Loading...</div>;
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/admin/config">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">Tracking Watchdog Configuration</h1>
+            <p className="text-muted-foreground mt-1">
+              Version {version} • When active tracking sessions are flagged to drivers and dispatchers
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Stale GPS */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Stale GPS</CardTitle>
+            <CardDescription>The vendor&apos;s phone stopped reporting</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="staleGpsMinutes">No Update For (minutes)</Label>
+              <Input
+                id="staleGpsMinutes"
+                type="number"
+                value={config.staleGpsMinutes}
+                onChange={(e) => updateField('staleGpsMinutes', e.target.value)}
+                min={1}
+                max={60}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Stalled */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Stalled Vendor</CardTitle>
+            <CardDescription>The vendor is stationary far from the incident</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stalledMinutes">Stationary For (minutes)</Label>
+              <Input
+                id="stalledMinutes"
+                type="number"
+                value={config.stalledMinutes}
+                onChange={(e) => updateField('stalledMinutes', e.target.value)}
+                min={1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="stalledRadiusMeters">Within (meters)</Label>
+              <Input
+                id="stalledRadiusMeters"
+                type="number"
+                value={config.stalledRadiusMeters}
+                onChange={(e) => updateField('stalledRadiusMeters', e.target.value)}
+                min={10}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="stalledMinDistanceMiles">At Least This Far From the Incident (miles)</Label>
+              <Input
+                id="stalledMinDistanceMiles"
+                type="number"
+                step="0.1"
+                value={config.stalledMinDistanceMiles}
+                onChange={(e) => updateField('stalledMinDistanceMiles', e.target.value)}
+                min={0.1}
+              />
+              <p className="text-xs text-muted-foreground">
+                Closer vendors are usually parking or walking to the vehicle
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Moving Away */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Moving Away</CardTitle>
+            <CardDescription>The vendor&apos;s distance to the incident keeps growing</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="movingAwayMinutes">Over (minutes)</Label>
+              <Input
+                id="movingAwayMinutes"
+                type="number"
+                value={config.movingAwayMinutes}
+                onChange={(e) => updateField('movingAwayMinutes', e.target.value)}
+                min={1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="movingAwayMinIncreaseMiles">Distance Gained (miles)</Label>
+              <Input
+                id="movingAwayMinIncreaseMiles"
+                type="number"
+                step="0.1"
+                value={config.movingAwayMinIncreaseMiles}
+                onChange={(e) => updateField('movingAwayMinIncreaseMiles', e.target.value)}
+                min={0.1}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
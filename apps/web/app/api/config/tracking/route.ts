@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.roadcall.example.com';
+
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    
+    const response = await fetch(`${API_BASE_URL}/config/tracking`, {
+      headers: {
+        'Authorization': authHeader || '',
+      },
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Error fetching tracking config:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch configuration' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const authHeader = request.headers.get('authorization');
+
+    const response = await fetch(`${API_BASE_URL}/config/tracking`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authHeader || '',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Error updating tracking config:', error);
+    return NextResponse.json(
+      { error: 'Failed to update configuration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { apiClient } from '@/lib/api-client'
+import { Invoice, InvoiceLine } from '@/types'
+import { formatCents, getInvoiceStatusColor } from '@/lib/utils'
+import { ArrowLeft, Download, FileSpreadsheet } from 'lucide-react'
+import { format } from 'date-fns'
+import Link from 'next/link'
+
+export default function InvoiceDetailPage() {
+  const params = useParams<{ id: string }>()
+  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [lines, setLines] = useState<InvoiceLine[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadInvoice()
+  }, [params.id])
+
+  const loadInvoice = async () => {
+    try {
+      const data = await apiClient.get<{ invoice: Invoice; lines: InvoiceLine[] }>(
+        `/invoices/${params.id}`
+      )
+      setInvoice(data.invoice)
+      setLines(data.lines)
+    } catch (error) {
+      console.error('Failed to load invoice:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const download = async (documentFormat: 'pdf' | 'csv') => {
+    try {
+      const { url } = await apiClient.get<{ url: string }>(
+        `/invoices/${params.id}/document?format=${documentFormat}`
+      )
+      window.open(url, '_blank')
+    } catch (error) {
+      console.error('Failed to download invoice:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!invoice) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <p className="text-muted-foreground">Invoice not found</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/dispatcher/invoices"
+        className="inline-flex items-center text-sm text-muted-foreground"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        All invoices
+      </Link>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">{invoice.invoiceNumber}</h2>
+          <p className="text-muted-foreground">
+            {invoice.companyName || invoice.companyId} &middot;{' '}
+            {format(new Date(`${invoice.period}-01T00:00:00`), 'MMMM yyyy')}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Badge className={getInvoiceStatusColor(invoice.status)}>
+            {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+          </Badge>
+          <Button variant="outline" onClick={() => download('pdf')}>
+            <Download className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+          <Button variant="outline" onClick={() => download('csv')}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Services</CardTitle>
+          <CardDescription>
+            {invoice.dueDate
+              ? `Due ${format(new Date(`${invoice.dueDate}T00:00:00`), 'PP')}`
+              : 'Not yet sent'}
+            {invoice.paidAt && ` · Paid ${format(new Date(invoice.paidAt), 'PP')}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Driver</th>
+                <th className="py-2 font-medium">Description</th>
+                <th className="py-2 font-medium">SLA</th>
+                <th className="py-2 font-medium text-right">Qty</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => (
+                <tr key={line.invoiceLineId} className="border-b last:border-0">
+                  <td className="py-2">{line.serviceDate}</td>
+                  <td className="py-2">{line.driverName || line.driverId}</td>
+                  <td className="py-2">{line.description}</td>
+                  <td className="py-2">
+                    {line.slaTier &&
+                      `${line.slaTier}${line.slaMultiplier ? ` ×${line.slaMultiplier}` : ''}`}
+                  </td>
+                  <td className="py-2 text-right">{line.quantity}</td>
+                  <td className={`py-2 text-right ${line.totalCents < 0 ? 'text-green-600' : ''}`}>
+                    {formatCents(line.totalCents, invoice.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-6 ml-auto max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span>{formatCents(invoice.subtotalCents, invoice.currency)}</span>
+            </div>
+            {invoice.taxes.map((tax) => (
+              <div key={tax.name} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {tax.name} ({tax.ratePercent}%)
+                </span>
+                <span>{formatCents(tax.amountCents, invoice.currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t pt-2 text-base font-semibold">
+              <span>Total</span>
+              <span>{formatCents(invoice.totalCents, invoice.currency)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
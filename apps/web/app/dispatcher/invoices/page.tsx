@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { apiClient } from '@/lib/api-client'
+import { Invoice } from '@/types'
+import { formatCents, getInvoiceStatusColor } from '@/lib/utils'
+import { Calendar, Download, FileSpreadsheet } from 'lucide-react'
+import { format } from 'date-fns'
+import Link from 'next/link'
+
+export default function InvoicesPage() {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadInvoices()
+  }, [])
+
+  const loadInvoices = async () => {
+    try {
+      const data = await apiClient.get<{ invoices: Invoice[] }>('/invoices')
+      setInvoices(data.invoices)
+    } catch (error) {
+      console.error('Failed to load invoices:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const download = async (invoiceId: string, documentFormat: 'pdf' | 'csv') => {
+    try {
+      const { url } = await apiClient.get<{ url: string }>(
+        `/invoices/${invoiceId}/document?format=${documentFormat}`
+      )
+      window.open(url, '_blank')
+    } catch (error) {
+      console.error('Failed to download invoice:', error)
+    }
+  }
+
+  const outstanding = invoices
+    .filter((i) => i.status === 'sent' || i.status === 'overdue')
+    .reduce((sum, i) => sum + i.totalCents, 0)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Invoices</h2>
+          <p className="text-muted-foreground">
+            Monthly invoices for roadside service billed to your company
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-muted-foreground">Outstanding</p>
+          <p className="text-2xl font-bold">{formatCents(outstanding)}</p>
+        </div>
+      </div>
+
+      {invoices.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No invoices yet</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Invoices are issued at the start of each month for the month before
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {invoices.map((invoice) => (
+            <Card key={invoice.invoiceId}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <CardTitle>{invoice.invoiceNumber}</CardTitle>
+                    <CardDescription>
+                      {format(new Date(`${invoice.period}-01T00:00:00`), 'MMMM yyyy')}
+                    </CardDescription>
+                  </div>
+                  <Badge className={getInvoiceStatusColor(invoice.status)}>
+                    {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Calendar className="w-4 h-4 mr-2" />
+                    {invoice.dueDate
+                      ? `Due ${format(new Date(`${invoice.dueDate}T00:00:00`), 'PP')}`
+                      : 'Not yet sent'}
+                  </div>
+                  <p className="text-xl font-semibold">
+                    {formatCents(invoice.totalCents, invoice.currency)}
+                  </p>
+                </div>
+
+                <div className="flex space-x-3">
+                  <Link href={`/dispatcher/invoices/${invoice.invoiceId}`} className="flex-1">
+                    <Button variant="outline" className="w-full">
+                      View Details
+                    </Button>
+                  </Link>
+                  <Button variant="outline" onClick={() => download(invoice.invoiceId, 'pdf')}>
+                    <Download className="w-4 h-4 mr-2" />
+                    PDF
+                  </Button>
+                  <Button variant="outline" onClick={() => download(invoice.invoiceId, 'csv')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    CSV
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
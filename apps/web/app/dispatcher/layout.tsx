@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { fetchAuthSession, signOut } from 'aws-amplify/auth'
 import { Button } from '@/components/ui/button'
 import { LayoutDashboard, LogOut } from 'lucide-react'
+import Link from 'next/link'
 
 export default function DispatcherLayout({
   children,
@@ -49,10 +50,18 @@ export default function DispatcherLayout({
               <p className="text-sm text-muted-foreground">AI Roadcall Assistant</p>
             </div>
           </div>
-          <Button variant="outline" onClick={handleSignOut}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Link href="/dispatcher">
+              <Button variant="outline">Incidents</Button>
+            </Link>
+            <Link href="/dispatcher/invoices">
+              <Button variant="outline">Invoices</Button>
+            </Link>
+            <Button variant="outline" onClick={handleSignOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
       <main className="container mx-auto px-4 py-8">{children}</main>
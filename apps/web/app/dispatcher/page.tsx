@@ -3,38 +3,117 @@
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { apiClient } from '@/lib/api-client'
-import { Incident } from '@/types'
+import { useToast } from '@/components/ui/use-toast'
+import { Incident, TrackingAnomaly, TrackingSession, VendorRoute } from '@/types'
 import { getStatusColor, getStatusLabel, getIncidentTypeLabel } from '@/lib/utils'
-import { Clock, User } from 'lucide-react'
-import { format } from 'date-fns'
+import { AlertTriangle, Clock, Radar, User } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
 import { IncidentMap } from '@/components/map/incident-map'
 
 export default function DispatcherDashboard() {
   const [incidents, setIncidents] = useState<Incident[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null)
+  const [escalations, setEscalations] = useState<Incident[]>([])
+  const [trackingAlerts, setTrackingAlerts] = useState<TrackingSession[]>([])
+  const [vendorId, setVendorId] = useState('')
+  const [route, setRoute] = useState<VendorRoute | null>(null)
+  const [replayIndex, setReplayIndex] = useState(0)
+  const { toast } = useToast()
 
-  useEffect(() => {
-    const loadIncidents = async () => {
-      try {
-        const data = await apiClient.get<Incident[]>('/incidents?status=active')
-        setIncidents(data)
-        if (!selectedIncident && data.length > 0) {
-          setSelectedIncident(data[0])
-        }
-      } catch (error) {
-        console.error('Failed to load incidents:', error)
-      } finally {
-        setLoading(false)
+  const loadIncidents = async () => {
+    try {
+      const [data, escalated, flagged] = await Promise.all([
+        apiClient.get<Incident[]>('/incidents?status=active'),
+        apiClient.get<Incident[]>('/incidents?status=escalated'),
+        apiClient.get<{ sessions: TrackingSession[] }>('/tracking/anomalies'),
+      ])
+      setIncidents(data)
+      setTrackingAlerts(flagged.sessions)
+      // Oldest escalations first
+      setEscalations(
+        [...escalated].sort(
+          (a, b) =>
+            new Date(a.escalation?.escalatedAt || a.updatedAt).getTime() -
+            new Date(b.escalation?.escalatedAt || b.updatedAt).getTime()
+        )
+      )
+      if (!selectedIncident && data.length > 0) {
+        setSelectedIncident(data[0])
       }
+    } catch (error) {
+      console.error('Failed to load incidents:', error)
+    } finally {
+      setLoading(false)
     }
+  }
 
+  useEffect(() => {
     loadIncidents()
     const interval = setInterval(loadIncidents, 5000) // Poll every 5 seconds
     return () => clearInterval(interval)
   }, [selectedIncident])
 
+  // Load the selected incident's latest vendor route for replay
+  useEffect(() => {
+    setRoute(null)
+    if (!selectedIncident?.assignedVendorId) return
+
+    apiClient
+      .get<{ routes: VendorRoute[] }>(`/tracking/incidents/${selectedIncident.incidentId}/route`)
+      .then(({ routes }) => {
+        const latest = routes[routes.length - 1]
+        setRoute(latest && latest.points.length > 0 ? latest : null)
+        setReplayIndex(latest ? latest.points.length - 1 : 0)
+      })
+      .catch((error) => console.error('Failed to load vendor route:', error))
+  }, [selectedIncident?.incidentId, selectedIncident?.assignedVendorId])
+
+  const handleClaim = async (incidentId: string) => {
+    try {
+      const result = await apiClient.post<{ incident: Incident }>(
+        `/incidents/${incidentId}/escalation/claim`,
+        {}
+      )
+      setSelectedIncident(result.incident)
+      toast({
+        title: 'Escalation claimed',
+        description: 'You now own this incident',
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to claim escalation. Another dispatcher may own it.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleAssign = async (incidentId: string) => {
+    try {
+      const result = await apiClient.post<{ incident: Incident }>(
+        `/incidents/${incidentId}/assign`,
+        { vendorId: vendorId.trim() }
+      )
+      setSelectedIncident(result.incident)
+      setVendorId('')
+      toast({
+        title: 'Vendor assigned',
+        description: 'The incident has left the escalation queue',
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to assign vendor',
+        variant: 'destructive',
+      })
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -54,6 +133,114 @@ export default function DispatcherDashboard() {
 
       <div className="grid gap-6 lg:grid-cols-2">
         <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Escalation Queue ({escalations.length})</CardTitle>
+              <CardDescription>Incidents waiting on a dispatcher</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 max-h-[400px] overflow-y-auto">
+              {escalations.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  No escalated incidents
+                </p>
+              ) : (
+                escalations.map((incident) => (
+                  <button
+                    key={incident.incidentId}
+                    onClick={() => setSelectedIncident(incident)}
+                    className={`w-full text-left p-4 border rounded-lg transition-all ${
+                      selectedIncident?.incidentId === incident.incidentId
+                        ? 'border-primary bg-primary/5'
+                        : 'border-rose-200 hover:border-rose-300'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <span className="font-semibold">
+                        {getIncidentTypeLabel(incident.type)}
+                      </span>
+                      <Badge variant={incident.escalation?.claimedBy ? 'secondary' : 'destructive'}>
+                        {incident.escalation?.claimedBy
+                          ? `Claimed by ${incident.escalation.claimedBy}`
+                          : 'Unclaimed'}
+                      </Badge>
+                    </div>
+                    <div className="space-y-1 text-sm text-muted-foreground">
+                      <div className="flex items-center">
+                        <AlertTriangle className="w-3 h-3 mr-2" />
+                        {incident.escalation?.reason || 'Escalated'}
+                      </div>
+                      <div className="flex items-center">
+                        <Clock className="w-3 h-3 mr-2" />
+                        Waiting{' '}
+                        {formatDistanceToNow(
+                          new Date(incident.escalation?.escalatedAt || incident.updatedAt)
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tracking Alerts ({trackingAlerts.length})</CardTitle>
+              <CardDescription>Vendors with lost GPS, stalled or heading away</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 max-h-[400px] overflow-y-auto">
+              {trackingAlerts.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  No tracking alerts
+                </p>
+              ) : (
+                trackingAlerts.map((session) => (
+                  <button
+                    key={session.sessionId}
+                    onClick={() =>
+                      setSelectedIncident(
+                        incidents.find((incident) => incident.incidentId === session.incidentId) ||
+                          selectedIncident
+                      )
+                    }
+                    className={`w-full text-left p-4 border rounded-lg transition-all ${
+                      selectedIncident?.incidentId === session.incidentId
+                        ? 'border-primary bg-primary/5'
+                        : 'border-amber-200 hover:border-amber-300'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <span className="font-semibold">
+                        Incident #{session.incidentId.slice(0, 8)}
+                      </span>
+                      <div className="flex gap-1">
+                        {(session.anomalies || []).map((anomaly) => (
+                          <Badge key={anomaly.type} variant="destructive">
+                            {getAnomalyLabel(anomaly.type)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-1 text-sm text-muted-foreground">
+                      <div className="flex items-center">
+                        <Radar className="w-3 h-3 mr-2" />
+                        Vendor {session.vendorId}
+                      </div>
+                      <div className="flex items-center">
+                        <Clock className="w-3 h-3 mr-2" />
+                        Flagged{' '}
+                        {formatDistanceToNow(
+                          new Date(session.anomalies?.[0]?.detectedAt || session.updatedAt)
+                        )}{' '}
+                        ago
+                      </div>
+                    </div>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Active Incidents ({incidents.length})</CardTitle>
@@ -143,18 +330,88 @@ export default function DispatcherDashboard() {
                 </CardContent>
               </Card>
 
+              {selectedIncident.status === 'escalated' && selectedIncident.escalation && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Escalation</CardTitle>
+                    <CardDescription>
+                      Escalated{' '}
+                      {formatDistanceToNow(new Date(selectedIncident.escalation.escalatedAt), {
+                        addSuffix: true,
+                      })}{' '}
+                      from {getStatusLabel(selectedIncident.escalation.previousStatus)}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="text-sm">{selectedIncident.escalation.reason}</p>
+                    {selectedIncident.escalation.claimedBy ? (
+                      <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground">
+                          Claimed by {selectedIncident.escalation.claimedBy}
+                        </p>
+                        <Label htmlFor="vendorId">Hand-assign a vendor</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="vendorId"
+                            placeholder="Vendor ID"
+                            value={vendorId}
+                            onChange={(e) => setVendorId(e.target.value)}
+                          />
+                          <Button
+                            onClick={() => handleAssign(selectedIncident.incidentId)}
+                            disabled={!vendorId.trim()}
+                          >
+                            Assign
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <Button onClick={() => handleClaim(selectedIncident.incidentId)}>
+                        Claim escalation
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle>Map View</CardTitle>
+                  {route && (
+                    <CardDescription>
+                      Vendor drove {route.distanceMiles.toFixed(1)} miles with{' '}
+                      {route.dwellStops.length} stop{route.dwellStops.length === 1 ? '' : 's'}
+                    </CardDescription>
+                  )}
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
                   <IncidentMap
                     driverLocation={{
                       lat: selectedIncident.location.lat,
                       lon: selectedIncident.location.lon,
                       timestamp: new Date().toISOString(),
                     }}
+                    vendorLocation={route?.points[replayIndex]}
+                    vendorRoute={route?.points.slice(0, replayIndex + 1)}
+                    dwellStops={route?.dwellStops}
                   />
+                  {route && (
+                    <div className="space-y-2">
+                      <Label htmlFor="replay">Route replay</Label>
+                      <input
+                        id="replay"
+                        type="range"
+                        min={0}
+                        max={route.points.length - 1}
+                        value={replayIndex}
+                        onChange={(e) => setReplayIndex(Number(e.target.value))}
+                        className="w-full"
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(route.points[replayIndex].timestamp), 'p')}
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </>
@@ -172,3 +429,12 @@ export default function DispatcherDashboard() {
     </div>
   )
 }
+
+function getAnomalyLabel(type: TrackingAnomaly['type']): string {
+  const labels: Record<TrackingAnomaly['type'], string> = {
+    stale_gps: 'GPS lost',
+    stalled: 'Stalled',
+    moving_away: 'Moving away',
+  }
+  return labels[type]
+}
@@ -1,12 +1,24 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { apiClient } from '@/lib/api-client'
 import { useToast } from '@/components/ui/use-toast'
-import { Wrench, Truck as TruckIcon, Anchor } from 'lucide-react'
+import { Wrench, Truck as TruckIcon, Anchor, BatteryCharging, Fuel, LucideIcon } from 'lucide-react'
+import { IncidentTypeDefinition } from '@/types'
+
+// Icons for known catalogue keys; other types use the wrench
+const incidentTypeIcons: Record<string, LucideIcon> = {
+  tire: Anchor,
+  engine: Wrench,
+  tow: TruckIcon,
+  jumpstart: BatteryCharging,
+  fuel_delivery: Fuel,
+}
 
 export default function CreateIncidentPage() {
   const router = useRouter()
@@ -14,12 +26,29 @@ export default function CreateIncidentPage() {
   const [selectedType, setSelectedType] = useState<string>('')
   const [loading, setLoading] = useState(false)
   const [location, setLocation] = useState<{ lat: number; lon: number } | null>(null)
+  const [incidentTypes, setIncidentTypes] = useState<IncidentTypeDefinition[]>([])
+  const [scheduled, setScheduled] = useState(false)
+  const [windowStart, setWindowStart] = useState('')
+  const [windowEnd, setWindowEnd] = useState('')
 
-  const incidentTypes = [
-    { value: 'tire', label: 'Tire Issue', icon: Anchor, description: 'Flat tire, blowout, or tire damage' },
-    { value: 'engine', label: 'Engine Problem', icon: Wrench, description: 'Engine failure, overheating, or mechanical issues' },
-    { value: 'tow', label: 'Towing Needed', icon: TruckIcon, description: 'Vehicle needs to be towed' },
-  ]
+  useEffect(() => {
+    const fetchIncidentTypes = async () => {
+      try {
+        const data = await apiClient.get<{ config: { types: IncidentTypeDefinition[] } }>(
+          '/config/incident-types'
+        )
+        setIncidentTypes(data.config.types.filter((type) => type.active))
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: 'Failed to load incident types. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    }
+
+    fetchIncidentTypes()
+  }, [toast])
 
   const getCurrentLocation = () => {
     if ('geolocation' in navigator) {
@@ -64,16 +93,33 @@ export default function CreateIncidentPage() {
       return
     }
 
+    if (scheduled && (!windowStart || !windowEnd || windowEnd <= windowStart)) {
+      toast({
+        title: 'Service window required',
+        description: 'Please pick when the service window starts and ends',
+        variant: 'destructive',
+      })
+      return
+    }
+
     try {
       setLoading(true)
       const incident = await apiClient.post<{ incidentId: string }>('/incidents', {
         type: selectedType,
         location,
+        ...(scheduled && {
+          serviceWindow: {
+            start: new Date(windowStart).toISOString(),
+            end: new Date(windowEnd).toISOString(),
+          },
+        }),
       })
 
       toast({
-        title: 'Incident created',
-        description: 'We are finding the best vendor for you',
+        title: scheduled ? 'Service booked' : 'Incident created',
+        description: scheduled
+          ? 'We will find a vendor ahead of your service window'
+          : 'We are finding the best vendor for you',
       })
 
       router.push(`/driver/incidents/${incident.incidentId}`)
@@ -105,13 +151,13 @@ export default function CreateIncidentPage() {
         <CardContent className="space-y-4">
           <div className="grid gap-4">
             {incidentTypes.map((type) => {
-              const Icon = type.icon
+              const Icon = incidentTypeIcons[type.key] || Wrench
               return (
                 <button
-                  key={type.value}
-                  onClick={() => setSelectedType(type.value)}
+                  key={type.key}
+                  onClick={() => setSelectedType(type.key)}
                   className={`p-4 border-2 rounded-lg text-left transition-all hover:border-primary ${
-                    selectedType === type.value
+                    selectedType === type.key
                       ? 'border-primary bg-primary/5'
                       : 'border-gray-200'
                   }`}
@@ -151,6 +197,45 @@ export default function CreateIncidentPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>When</CardTitle>
+          <CardDescription>Get help now, or book non-urgent work for later</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={scheduled}
+              onChange={(e) => setScheduled(e.target.checked)}
+            />
+            Schedule for a later time window
+          </label>
+          {scheduled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="windowStart">Window Start</Label>
+                <Input
+                  id="windowStart"
+                  type="datetime-local"
+                  value={windowStart}
+                  onChange={(e) => setWindowStart(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="windowEnd">Window End</Label>
+                <Input
+                  id="windowEnd"
+                  type="datetime-local"
+                  value={windowEnd}
+                  onChange={(e) => setWindowEnd(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="flex space-x-4">
         <Button
           onClick={() => router.back()}
@@ -164,7 +249,7 @@ export default function CreateIncidentPage() {
           disabled={loading || !selectedType || !location}
           className="flex-1"
         >
-          {loading ? 'Creating...' : 'Create Incident'}
+          {loading ? 'Creating...' : scheduled ? 'Book Service' : 'Create Incident'}
         </Button>
       </div>
     </div>
@@ -187,7 +187,11 @@ export default function IncidentDetailPage() {
               <div key={index} className="flex items-start space-x-3">
                 <div className="w-2 h-2 mt-2 rounded-full bg-primary" />
                 <div>
-                  <p className="font-medium">{getStatusLabel(transition.to)}</p>
+                  <p className="font-medium">
+                    {transition.leg
+                      ? `Leg ${transition.leg}: ${getStatusLabel(transition.to)}`
+                      : getStatusLabel(transition.to)}
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     {format(new Date(transition.timestamp), 'PPp')}
                   </p>
@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { awsConfig } from '@/lib/aws-config'
+import { PublicTrackingView } from '@/types'
+import { getStatusColor, getStatusLabel } from '@/lib/utils'
+import { Clock, MapPin } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { IncidentMap } from '@/components/map/incident-map'
+
+// Public page behind the tracking link in driver notifications; no login
+export default function PublicTrackingPage() {
+  const params = useParams()
+  const token = params.token as string
+  const [tracking, setTracking] = useState<PublicTrackingView | null>(null)
+  const [expired, setExpired] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadTracking = async () => {
+      try {
+        const response = await fetch(`${awsConfig.apiGatewayUrl}/tracking/public/${token}`)
+        if (response.status === 401) {
+          setExpired(true)
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`API Error: ${response.statusText}`)
+        }
+
+        const data = await response.json()
+        setTracking(data.tracking)
+      } catch (error) {
+        console.error('Failed to load tracking:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadTracking()
+    const interval = setInterval(loadTracking, 15000) // Poll every 15 seconds
+    return () => clearInterval(interval)
+  }, [token])
+
+  // Stable references so the map is not rebuilt on every poll
+  const incidentLat = tracking?.incidentLocation.lat
+  const incidentLon = tracking?.incidentLocation.lon
+  const driverLocation = useMemo(
+    () =>
+      incidentLat !== undefined && incidentLon !== undefined
+        ? { lat: incidentLat, lon: incidentLon, timestamp: new Date().toISOString() }
+        : null,
+    [incidentLat, incidentLon]
+  )
+  const vendorLat = tracking?.vendorLocation?.lat
+  const vendorLon = tracking?.vendorLocation?.lon
+  const vendorLocation = useMemo(
+    () =>
+      vendorLat !== undefined && vendorLon !== undefined
+        ? { lat: vendorLat, lon: vendorLon, timestamp: new Date().toISOString() }
+        : undefined,
+    [vendorLat, vendorLon]
+  )
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (expired || !tracking || !driverLocation) {
+    return (
+      <div className="mx-auto max-w-3xl p-6">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="font-medium">This tracking link is no longer available</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Links expire after 24 hours and stop working once the job is closed.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const arrived =
+    tracking.trackingStatus === 'arrived' || tracking.incidentStatus === 'vendor_arrived'
+
+  return (
+    <div className="mx-auto max-w-3xl p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Track Your Service</h2>
+          <p className="text-muted-foreground">
+            Updated {formatDistanceToNow(new Date(tracking.updatedAt))} ago
+          </p>
+        </div>
+        <Badge className={getStatusColor(tracking.incidentStatus)}>
+          {getStatusLabel(tracking.incidentStatus)}
+        </Badge>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {arrived
+              ? 'Your service provider has arrived'
+              : tracking.eta
+                ? `Arriving in about ${tracking.eta.minutes} minutes`
+                : 'Waiting for your service provider to set off'}
+          </CardTitle>
+          {tracking.eta && !arrived && (
+            <CardDescription>
+              Expected by {format(new Date(tracking.eta.arrivalTime), 'p')}
+              {tracking.eta.p90Minutes !== undefined &&
+                `, almost certainly within ${tracking.eta.p90Minutes} minutes`}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <IncidentMap driverLocation={driverLocation} vendorLocation={vendorLocation} />
+          {tracking.vendorLocation && (
+            <div className="space-y-1 text-sm text-muted-foreground">
+              <div className="flex items-center">
+                <MapPin className="w-4 h-4 mr-2" />
+                {tracking.vendorLocation.approximate
+                  ? 'Approximate location, shown exactly once they are close'
+                  : 'Live location'}
+              </div>
+              {tracking.vendorLocation.updatedAt && (
+                <div className="flex items-center">
+                  <Clock className="w-4 h-4 mr-2" />
+                  Last seen {formatDistanceToNow(new Date(tracking.vendorLocation.updatedAt))} ago
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -4,15 +4,21 @@ import { useEffect, useRef, useState } from 'react'
 import maplibregl from 'maplibre-gl'
 import 'maplibre-gl/dist/maplibre-gl.css'
 import { awsConfig } from '@/lib/aws-config'
-import { LocationPoint } from '@/types'
+import { DwellStop, LocationPoint } from '@/types'
 
 interface IncidentMapProps {
   driverLocation: LocationPoint
   vendorLocation?: LocationPoint
   vendorRoute?: LocationPoint[]
+  dwellStops?: DwellStop[]
 }
 
-export function IncidentMap({ driverLocation, vendorLocation, vendorRoute }: IncidentMapProps) {
+export function IncidentMap({
+  driverLocation,
+  vendorLocation,
+  vendorRoute,
+  dwellStops,
+}: IncidentMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<maplibregl.Map | null>(null)
   const [mapLoaded, setMapLoaded] = useState(false)
@@ -92,10 +98,11 @@ export function IncidentMap({ driverLocation, vendorLocation, vendorRoute }: Inc
         })
       }
 
-      // Fit bounds to show both locations
+      // Fit bounds to show both locations and the route between them
       const bounds = new maplibregl.LngLatBounds()
       bounds.extend([driverLocation.lon, driverLocation.lat])
       bounds.extend([vendorLocation.lon, vendorLocation.lat])
+      coordinates.forEach((coordinate) => bounds.extend(coordinate as [number, number]))
       map.current.fitBounds(bounds, { padding: 50 })
     }
 
@@ -104,5 +111,25 @@ export function IncidentMap({ driverLocation, vendorLocation, vendorRoute }: Inc
     }
   }, [vendorLocation, vendorRoute, mapLoaded, driverLocation])
 
+  useEffect(() => {
+    if (!map.current || !mapLoaded || !dwellStops) return
+
+    // Mark where the vendor stayed put on the way
+    const stopMarkers = dwellStops.map((stop) =>
+      new maplibregl.Marker({ color: '#f59e0b', scale: 0.7 })
+        .setLngLat([stop.lon, stop.lat])
+        .setPopup(
+          new maplibregl.Popup().setHTML(
+            `<p>Stopped ${Math.round(stop.durationSeconds / 60)} min</p>`
+          )
+        )
+        .addTo(map.current as maplibregl.Map)
+    )
+
+    return () => {
+      stopMarkers.forEach((marker) => marker.remove())
+    }
+  }, [dwellStops, mapLoaded])
+
   return <div ref={mapContainer} className="w-full h-[500px] rounded-lg" />
 }
@@ -40,7 +40,8 @@ export function getIncidentTypeLabel(type: string): string {
     engine: 'Engine Problem',
     tow: 'Towing Needed',
   }
-  return labels[type] || type
+  // Types added to the catalogue later fall back to their key, e.g. fuel_delivery -> Fuel Delivery
+  return labels[type] || type.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
 }
 
 export function getStatusColor(status: string): string {
@@ -54,6 +55,8 @@ export function getStatusColor(status: string): string {
     payment_pending: 'bg-amber-500',
     closed: 'bg-gray-500',
     cancelled: 'bg-red-500',
+    escalated: 'bg-rose-600',
+    reassigning: 'bg-sky-500',
   }
   return colors[status] || 'bg-gray-500'
 }
@@ -69,6 +72,32 @@ export function getStatusLabel(status: string): string {
     payment_pending: 'Payment Pending',
     closed: 'Closed',
     cancelled: 'Cancelled',
+    escalated: 'Escalated',
+    reassigning: 'Reassigning',
   }
   return labels[status] || status
 }
+
+export function formatCents(cents: number, currency: string = 'USD'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100)
+}
+
+export function getInvoiceStatusColor(status: string): string {
+  const colors: Record<string, string> = {
+    draft: 'bg-gray-500',
+    sent: 'bg-blue-500',
+    paid: 'bg-green-500',
+    overdue: 'bg-red-500',
+  }
+  return colors[status] || 'bg-gray-500'
+}
+
+export function getPayoutStatusColor(status: string): string {
+  const colors: Record<string, string> = {
+    pending: 'bg-gray-500',
+    in_transit: 'bg-blue-500',
+    paid: 'bg-green-500',
+    failed: 'bg-red-500',
+  }
+  return colors[status] || 'bg-gray-500'
+}
@@ -1,6 +1,14 @@
 export type UserRole = 'driver' | 'vendor' | 'dispatcher' | 'admin'
 
-export type IncidentType = 'tire' | 'engine' | 'tow'
+// Key of an entry in the admin-config incident-type catalogue
+export type IncidentType = string
+
+export interface IncidentTypeDefinition {
+  key: IncidentType
+  label: string
+  description?: string
+  active: boolean
+}
 
 export type IncidentStatus =
   | 'created'
@@ -12,6 +20,8 @@ export type IncidentStatus =
   | 'payment_pending'
   | 'closed'
   | 'cancelled'
+  | 'escalated'
+  | 'reassigning'
 
 export interface User {
   userId: string
@@ -47,6 +57,25 @@ export interface Incident {
   updatedAt: string
   timeline: StateTransition[]
   media?: MediaArtifact[]
+  parentIncidentId?: string
+  legNumber?: number
+  followUps?: IncidentLeg[]
+  serviceWindow?: ServiceWindow
+  escalation?: IncidentEscalation
+}
+
+export interface IncidentEscalation {
+  reason: string
+  escalatedAt: string
+  previousStatus: IncidentStatus
+  attempts?: number
+  claimedBy?: string
+  claimedAt?: string
+}
+
+export interface ServiceWindow {
+  start: string
+  end: string
 }
 
 export interface StateTransition {
@@ -55,6 +84,17 @@ export interface StateTransition {
   timestamp: string
   actor: string
   reason?: string
+  leg?: number
+  legIncidentId?: string
+}
+
+export interface IncidentLeg {
+  incidentId: string
+  legNumber: number
+  type: IncidentType
+  reason: string
+  requestedBy: string
+  requestedAt: string
 }
 
 export interface MediaArtifact {
@@ -98,6 +138,7 @@ export interface Offer {
   matchScore: number
   estimatedPayout: number
   expiresAt: number
+  serviceWindow?: ServiceWindow
   createdAt: string
   respondedAt?: string
   declineReason?: string
@@ -113,10 +154,17 @@ export interface TrackingSession {
   vendorLocation: LocationPoint
   vendorRoute: LocationPoint[]
   eta: ETACalculation
+  anomalies?: TrackingAnomaly[]
   createdAt: string
   updatedAt: string
 }
 
+// Flagged by the tracking watchdog while a session is active
+export interface TrackingAnomaly {
+  type: 'stale_gps' | 'stalled' | 'moving_away'
+  detectedAt: string
+}
+
 export interface LocationPoint {
   lat: number
   lon: number
@@ -126,6 +174,43 @@ export interface LocationPoint {
   heading?: number
 }
 
+export interface DwellStop {
+  lat: number
+  lon: number
+  startedAt: string
+  endedAt: string
+  durationSeconds: number
+}
+
+// Full vendor trail of one tracking session, for dispatcher replay
+export interface VendorRoute {
+  sessionId: string
+  incidentId: string
+  vendorId: string
+  status: 'active' | 'arrived' | 'completed' | 'cancelled'
+  startedAt: string
+  endedAt: string
+  points: LocationPoint[]
+  distanceMiles: number
+  dwellStops: DwellStop[]
+}
+
+// Behind a public tracking link: no login, vendor position blurred until close
+export interface PublicTrackingView {
+  incidentId: string
+  incidentStatus: IncidentStatus
+  trackingStatus?: VendorRoute['status']
+  incidentLocation: { lat: number; lon: number }
+  vendorLocation?: {
+    lat: number
+    lon: number
+    approximate: boolean
+    updatedAt?: string
+  }
+  eta?: { minutes: number; arrivalTime: string; p90Minutes?: number }
+  updatedAt: string
+}
+
 export interface ETACalculation {
   minutes: number
   distanceMiles: number
@@ -148,6 +233,100 @@ export interface Payment {
   createdAt: string
 }
 
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue'
+
+export interface Invoice {
+  invoiceId: string
+  invoiceNumber: string
+  companyId: string
+  companyName?: string
+  period: string
+  status: InvoiceStatus
+  currency: string
+  subtotalCents: number
+  taxCents: number
+  totalCents: number
+  taxes: Array<{ name: string; ratePercent: number; amountCents: number }>
+  dueDate?: string
+  sentAt?: string
+  paidAt?: string
+  createdAt: string
+}
+
+export interface InvoiceLine {
+  invoiceLineId: string
+  paymentId: string
+  incidentId: string
+  driverId?: string
+  driverName?: string
+  serviceDate?: string
+  description: string
+  quantity: number
+  unitPriceCents: number
+  totalCents: number
+  slaTier?: string
+  slaMultiplier?: number
+  refundId?: string
+  position: number
+}
+
+export type PayoutSchedule = 'instant' | 'daily' | 'weekly'
+
+export type PayoutStatus = 'pending' | 'in_transit' | 'paid' | 'failed'
+
+export interface PayoutSettings {
+  vendorId: string
+  stripeAccountId: string
+  schedule: PayoutSchedule
+  weeklyAnchor: number
+  updatedAt: string
+}
+
+export interface PayoutStatementJob {
+  paymentId: string
+  incidentId: string
+  serviceType?: string
+  completedAt?: string
+  lineItems: Array<{
+    description: string
+    quantity: number
+    unitPriceCents: number
+    totalCents: number
+  }>
+  grossCents: number
+  platformFeeCents: number
+  adjustmentCents: number
+  netCents: number
+}
+
+export interface PayoutStatementSummary {
+  batchId: string
+  vendorId: string
+  schedule: PayoutSchedule
+  status: PayoutStatus
+  currency: string
+  grossCents: number
+  feeCents: number
+  adjustmentCents: number
+  netCents: number
+  jobCount: number
+  failureMessage?: string
+  paidAt?: string
+  createdAt: string
+}
+
+export interface PayoutStatement extends Omit<PayoutStatementSummary, 'jobCount'> {
+  statement: {
+    jobs: PayoutStatementJob[]
+    adjustments: Array<{
+      paymentId: string
+      refundId: string
+      description: string
+      amountCents: number
+    }>
+  }
+}
+
 export interface AdminConfig {
   matchingWeights: {
     distance: number
@@ -94,6 +94,7 @@ new VendorStack(app, `RoadcallVendorStack-${stage}`, {
   api: apiGatewayStack.api,
   authorizer: authStack.authorizer,
   vendorsTable: dataStack.vendorsTable,
+  eventBus: dataStack.eventBus,
   vpc: networkStack.vpc,
   redisCluster: dataStack.redisCluster,
   description: `AI Roadcall Assistant - Vendor Service (${stage})`,
@@ -128,7 +129,11 @@ new MatchStack(app, `RoadcallMatchStack-${stage}`, {
 new TrackingStack(app, `RoadcallTrackingStack-${stage}`, {
   stage,
   env,
+  api: apiGatewayStack.api,
+  authorizer: authStack.authorizer,
+  appSyncAuthorizer: authStack.appSyncAuthorizerFn,
   trackingSessionsTable: dataStack.trackingSessionsTable,
+  vendorRoutesTable: dataStack.vendorRoutesTable,
   incidentsTable: dataStack.incidentsTable,
   eventBus: dataStack.eventBus,
   webAcl: wafStack.webAcl,
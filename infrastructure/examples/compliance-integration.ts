@@ -22,6 +22,7 @@ export class RoadcallInfrastructureStack extends cdk.Stack {
       incidentsTable: this.getExistingTable('IncidentsTable'),
       callRecordsTable: this.getExistingTable('CallRecordsTable'),
       trackingSessionsTable: this.getExistingTable('TrackingSessionsTable'),
+      vendorRoutesTable: this.getExistingTable('VendorRoutesTable'),
     };
 
     const storageStack = {
@@ -47,6 +48,7 @@ export class RoadcallInfrastructureStack extends cdk.Stack {
       incidentsTable: dataStack.incidentsTable,
       callRecordsTable: dataStack.callRecordsTable,
       trackingSessionsTable: dataStack.trackingSessionsTable,
+      vendorRoutesTable: dataStack.vendorRoutesTable,
       callRecordingsBucket: storageStack.callRecordingsBucket,
       incidentMediaBucket: storageStack.incidentMediaBucket,
       auroraClusterArn: auroraStack.clusterArn,
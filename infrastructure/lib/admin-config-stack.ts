@@ -334,6 +334,110 @@ export class AdminConfigStack extends cdk.Stack {
     this.configAuditTable.grantWriteData(updatePricingConfigHandler);
     this.configVersionsTable.grantWriteData(updatePricingConfigHandler);
 
+    // Get Incident Types Handler
+    const getIncidentTypesHandler = new NodejsFunction(this, 'GetIncidentTypesHandler', {
+      functionName: `roadcall-get-incident-types-${stage}`,
+      entry: path.join(__dirname, '../../services/admin-config-svc/src/handlers/get-incident-types.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: {
+        CONFIG_TABLE_NAME: this.configTable.tableName,
+        STAGE: stage,
+        POWERTOOLS_SERVICE_NAME: 'admin-config-svc',
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    this.configTable.grantReadData(getIncidentTypesHandler);
+
+    // Update Incident Types Handler
+    const updateIncidentTypesHandler = new NodejsFunction(this, 'UpdateIncidentTypesHandler', {
+      functionName: `roadcall-update-incident-types-${stage}`,
+      entry: path.join(__dirname, '../../services/admin-config-svc/src/handlers/update-incident-types.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: {
+        CONFIG_TABLE_NAME: this.configTable.tableName,
+        CONFIG_AUDIT_TABLE_NAME: this.configAuditTable.tableName,
+        CONFIG_VERSIONS_TABLE_NAME: this.configVersionsTable.tableName,
+        STAGE: stage,
+        POWERTOOLS_SERVICE_NAME: 'admin-config-svc',
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    this.configTable.grantReadWriteData(updateIncidentTypesHandler);
+    this.configAuditTable.grantWriteData(updateIncidentTypesHandler);
+    this.configVersionsTable.grantWriteData(updateIncidentTypesHandler);
+
+    // Get Tracking Config Handler
+    const getTrackingConfigHandler = new NodejsFunction(this, 'GetTrackingConfigHandler', {
+      functionName: `roadcall-get-tracking-config-${stage}`,
+      entry: path.join(__dirname, '../../services/admin-config-svc/src/handlers/get-tracking-config.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: {
+        CONFIG_TABLE_NAME: this.configTable.tableName,
+        STAGE: stage,
+        POWERTOOLS_SERVICE_NAME: 'admin-config-svc',
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    this.configTable.grantReadData(getTrackingConfigHandler);
+
+    // Update Tracking Config Handler
+    const updateTrackingConfigHandler = new NodejsFunction(this, 'UpdateTrackingConfigHandler', {
+      functionName: `roadcall-update-tracking-config-${stage}`,
+      entry: path.join(__dirname, '../../services/admin-config-svc/src/handlers/update-tracking-config.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: {
+        CONFIG_TABLE_NAME: this.configTable.tableName,
+        CONFIG_AUDIT_TABLE_NAME: this.configAuditTable.tableName,
+        CONFIG_VERSIONS_TABLE_NAME: this.configVersionsTable.tableName,
+        STAGE: stage,
+        POWERTOOLS_SERVICE_NAME: 'admin-config-svc',
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    this.configTable.grantReadWriteData(updateTrackingConfigHandler);
+    this.configAuditTable.grantWriteData(updateTrackingConfigHandler);
+    this.configVersionsTable.grantWriteData(updateTrackingConfigHandler);
+
     // Rollback Configuration Handler
     const rollbackConfigHandler = new NodejsFunction(this, 'RollbackConfigHandler', {
       functionName: `roadcall-rollback-config-${stage}`,
@@ -441,6 +545,32 @@ export class AdminConfigStack extends cdk.Stack {
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
 
+    // GET /config/incident-types (also read by the driver pickers)
+    const incidentTypesResource = configResource.addResource('incident-types');
+    incidentTypesResource.addMethod('GET', new apigateway.LambdaIntegration(getIncidentTypesHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /config/incident-types
+    incidentTypesResource.addMethod('PUT', new apigateway.LambdaIntegration(updateIncidentTypesHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /config/tracking
+    const trackingResource = configResource.addResource('tracking');
+    trackingResource.addMethod('GET', new apigateway.LambdaIntegration(getTrackingConfigHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /config/tracking
+    trackingResource.addMethod('PUT', new apigateway.LambdaIntegration(updateTrackingConfigHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
     // POST /config/geofences
     const geofencesResource = configResource.addResource('geofences');
     geofencesResource.addMethod('POST', new apigateway.LambdaIntegration(createGeofenceHandler), {
@@ -15,6 +15,7 @@ export interface AuthStackProps extends cdk.StackProps {
 export class AuthStack extends cdk.Stack {
   public readonly api: apigateway.RestApi;
   public readonly authorizer: apigateway.TokenAuthorizer;
+  public readonly appSyncAuthorizerFn: lambda.Function;
 
   constructor(scope: Construct, id: string, props: AuthStackProps) {
     super(scope, id, props);
@@ -96,6 +97,15 @@ export class AuthStack extends cdk.Stack {
       description: 'JWT token authorizer for API Gateway',
     });
 
+    // AppSync Authorizer Lambda (same tokens, for the tracking GraphQL API)
+    this.appSyncAuthorizerFn = new lambda.Function(this, 'AppSyncAuthorizerFunction', {
+      ...commonLambdaProps,
+      functionName: `roadcall-appsync-authorizer-${stage}`,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/auth-svc/dist')),
+      handler: 'middleware/appsync-authorizer.handler',
+      description: 'JWT token authorizer for AppSync',
+    });
+
     // Grant permissions
     usersTable.grantReadWriteData(registerFn);
     usersTable.grantReadWriteData(verifyFn);
@@ -104,6 +114,7 @@ export class AuthStack extends cdk.Stack {
     jwtSecret.grantRead(refreshFn);
     jwtSecret.grantRead(meFn);
     jwtSecret.grantRead(authorizerFn);
+    jwtSecret.grantRead(this.appSyncAuthorizerFn);
 
     // Create API Gateway
     this.api = new apigateway.RestApi(this, 'AuthApi', {
@@ -17,6 +17,7 @@ export interface ComplianceStackProps extends cdk.StackProps {
   incidentsTable: dynamodb.ITable;
   callRecordsTable: dynamodb.ITable;
   trackingSessionsTable: dynamodb.ITable;
+  vendorRoutesTable: dynamodb.ITable;
   callRecordingsBucket: s3.IBucket;
   incidentMediaBucket: s3.IBucket;
   auroraClusterArn: string;
@@ -171,6 +172,7 @@ export class ComplianceStack extends cdk.Stack {
         INCIDENTS_TABLE: props.incidentsTable.tableName,
         CALL_RECORDS_TABLE: props.callRecordsTable.tableName,
         TRACKING_SESSIONS_TABLE: props.trackingSessionsTable.tableName,
+        VENDOR_ROUTES_TABLE: props.vendorRoutesTable.tableName,
         AURORA_CLUSTER_ARN: props.auroraClusterArn,
         AURORA_SECRET_ARN: props.auroraSecretArn,
         DATABASE_NAME: props.databaseName,
@@ -192,6 +194,7 @@ export class ComplianceStack extends cdk.Stack {
     props.incidentsTable.grantReadWriteData(this.rightToBeForgottenFunction);
     props.callRecordsTable.grantReadWriteData(this.rightToBeForgottenFunction);
     props.trackingSessionsTable.grantReadWriteData(this.rightToBeForgottenFunction);
+    props.vendorRoutesTable.grantReadWriteData(this.rightToBeForgottenFunction);
     props.callRecordingsBucket.grantDelete(this.rightToBeForgottenFunction);
     props.incidentMediaBucket.grantDelete(this.rightToBeForgottenFunction);
 
@@ -240,6 +243,7 @@ export class ComplianceStack extends cdk.Stack {
       memorySize: 1024,
       environment: {
         TRACKING_SESSIONS_TABLE: props.trackingSessionsTable.tableName,
+        VENDOR_ROUTES_TABLE: props.vendorRoutesTable.tableName,
         CALL_RECORDINGS_BUCKET: props.callRecordingsBucket.bucketName,
         INCIDENT_MEDIA_BUCKET: props.incidentMediaBucket.bucketName,
         POWERTOOLS_SERVICE_NAME: 'compliance-svc',
@@ -252,6 +256,7 @@ export class ComplianceStack extends cdk.Stack {
 
     // Grant permissions for temporary data cleanup
     props.trackingSessionsTable.grantReadWriteData(temporaryDataCleanupFunction);
+    props.vendorRoutesTable.grantReadWriteData(temporaryDataCleanupFunction);
     props.callRecordingsBucket.grantDelete(temporaryDataCleanupFunction);
     props.callRecordingsBucket.grantReadWrite(temporaryDataCleanupFunction);
     props.incidentMediaBucket.grantDelete(temporaryDataCleanupFunction);
@@ -22,6 +22,7 @@ export class DataStack extends cdk.Stack {
   public readonly vendorsTable: dynamodb.Table;
   public readonly offersTable: dynamodb.Table;
   public readonly trackingSessionsTable: dynamodb.Table;
+  public readonly vendorRoutesTable: dynamodb.Table;
   public readonly callRecordsTable: dynamodb.Table;
   public readonly kbDocumentsTable: dynamodb.Table;
   public readonly notificationLogTable: dynamodb.Table;
@@ -122,7 +123,18 @@ export class DataStack extends cdk.Stack {
       removalPolicy: stage === 'prod' ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
     });
 
-    // GSI for geospatial queries
+    // GSI for geospatial queries (coarse geohash cell, see DynamoDBVendorGeoIndex).
+    // Vendors created before it are indexed by services/vendor-svc/scripts/backfill-geo-index.ts
+    this.vendorsTable.addGlobalSecondaryIndex({
+      indexName: 'geocell-availability-index',
+      partitionKey: { name: 'geoCell', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'availabilityStatus', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Previous geospatial GSI, no longer queried. DynamoDB creates or deletes
+    // one GSI per table update, so it is kept until geocell-availability-index
+    // has been deployed to every stage and removed in a later deploy.
     this.vendorsTable.addGlobalSecondaryIndex({
       indexName: 'geohash-availability-index',
       partitionKey: { name: 'geohash', type: dynamodb.AttributeType.STRING },
@@ -165,6 +177,14 @@ export class DataStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // GSI for the offer expiry processor (pending offers by expiry time)
+    this.offersTable.addGlobalSecondaryIndex({
+      indexName: 'status-expires-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'expiresAt', type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Tracking Sessions Table
     this.trackingSessionsTable = new dynamodb.Table(this, 'TrackingSessionsTable', {
       tableName: `roadcall-tracking-sessions-${stage}`,
@@ -191,6 +211,31 @@ export class DataStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // GSI for the tracking watchdog's scan of active sessions
+    this.trackingSessionsTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'updatedAt', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Vendor Routes Table (full breadcrumb trail of each tracking session)
+    this.vendorRoutesTable = new dynamodb.Table(this, 'VendorRoutesTable', {
+      tableName: `roadcall-vendor-routes-${stage}`,
+      partitionKey: { name: 'sessionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: kmsKey,
+      removalPolicy: stage === 'prod' ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI for an incident's routes (replay and dispute evidence)
+    this.vendorRoutesTable.addGlobalSecondaryIndex({
+      indexName: 'incident-index',
+      partitionKey: { name: 'incidentId', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Call Records Table
     this.callRecordsTable = new dynamodb.Table(this, 'CallRecordsTable', {
       tableName: `roadcall-call-records-${stage}`,
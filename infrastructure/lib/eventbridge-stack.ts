@@ -154,6 +154,23 @@ export class EventBridgeStack extends cdk.Stack {
       ],
     });
 
+    // Rule: Tracking Events -> Notifications (vendor told when the driver moves)
+    new events.Rule(this, 'TrackingEventsRule', {
+      eventBus,
+      ruleName: `roadcall-tracking-events-${stage}`,
+      description: 'Route driver location changes and tracking anomalies to notifications',
+      eventPattern: {
+        source: ['roadcall.tracking'],
+        detailType: ['DriverLocationUpdated', 'TrackingAnomalyDetected'],
+      },
+      targets: [
+        new targets.SqsQueue(notificationsQueue, {
+          retryAttempts: 3,
+          maxEventAge: cdk.Duration.hours(1),
+        }),
+      ],
+    });
+
     // Rule: Work Events -> Notifications & Payments
     new events.Rule(this, 'WorkCompletedRule', {
       eventBus,
@@ -3,7 +3,11 @@ import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
 import { Construct } from 'constructs';
+import * as path from 'path';
 import { MicroserviceApi, RouteConfig } from './constructs/microservice-api';
 
 export interface IncidentStackProps extends cdk.StackProps {
@@ -23,6 +27,12 @@ export class IncidentStack extends cdk.Stack {
 
     const { stage, api, authorizer, incidentsTable, mediaBucket, eventBus } = props;
 
+    // Incident-type catalogue is owned by admin-config-svc and read at runtime
+    const configTable = dynamodb.Table.fromTableAttributes(this, 'ConfigTable', {
+      tableName: `roadcall-config-${stage}`,
+      globalIndexes: ['latest-version-index'],
+    });
+
     // Define routes for incident service
     const routes: RouteConfig[] = [
       {
@@ -37,8 +47,9 @@ export class IncidentStack extends cdk.Stack {
           required: ['type', 'location'],
           properties: {
             type: {
+              // Catalogue key; the service checks it against the admin-config catalogue
               type: apigateway.JsonSchemaType.STRING,
-              enum: ['tire', 'engine', 'tow'],
+              pattern: '^[a-z][a-z0-9_]{1,31}$',
             },
             location: {
               type: apigateway.JsonSchemaType.OBJECT,
@@ -49,6 +60,17 @@ export class IncidentStack extends cdk.Stack {
               },
             },
             description: { type: apigateway.JsonSchemaType.STRING },
+            serviceWindow: {
+              // Book non-urgent work for a later time window
+              type: apigateway.JsonSchemaType.OBJECT,
+              required: ['start', 'end'],
+              properties: {
+                start: { type: apigateway.JsonSchemaType.STRING, format: 'date-time' },
+                end: { type: apigateway.JsonSchemaType.STRING, format: 'date-time' },
+              },
+            },
+            // Dispatchers only; the service checks it against the admin-config SLA tiers
+            slaTier: { type: apigateway.JsonSchemaType.STRING },
           },
         },
       },
@@ -97,6 +119,72 @@ export class IncidentStack extends cdk.Stack {
           },
         },
       },
+      {
+        path: 'incidents/{id}/follow-ups',
+        method: 'POST',
+        handler: 'handlers/request-follow-up.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 20,
+        description: 'Request a follow-up leg (e.g. tow after a failed roadside repair)',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['type', 'reason'],
+          properties: {
+            type: {
+              type: apigateway.JsonSchemaType.STRING,
+              pattern: '^[a-z][a-z0-9_]{1,31}$',
+            },
+            reason: { type: apigateway.JsonSchemaType.STRING },
+            destination: {
+              type: apigateway.JsonSchemaType.OBJECT,
+              required: ['lat', 'lon'],
+              properties: {
+                lat: { type: apigateway.JsonSchemaType.NUMBER },
+                lon: { type: apigateway.JsonSchemaType.NUMBER },
+                address: { type: apigateway.JsonSchemaType.STRING },
+              },
+            },
+          },
+        },
+      },
+      {
+        path: 'incidents/{id}/escalation/claim',
+        method: 'POST',
+        handler: 'handlers/claim-escalation.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 50,
+        description: 'Claim an escalated incident for the calling dispatcher',
+      },
+      {
+        path: 'incidents/{id}/assign',
+        method: 'POST',
+        handler: 'handlers/assign-vendor.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 50,
+        description: 'Hand-assign a vendor to a claimed escalated incident',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['vendorId'],
+          properties: {
+            vendorId: { type: apigateway.JsonSchemaType.STRING },
+          },
+        },
+      },
+      {
+        path: 'incidents/{id}/sla-tier',
+        method: 'PUT',
+        handler: 'handlers/override-sla-tier.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 50,
+        description: 'Move an incident to another SLA tier (dispatcher override)',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['tier'],
+          properties: {
+            tier: { type: apigateway.JsonSchemaType.STRING },
+          },
+        },
+      },
       {
         path: 'incidents/{id}/media',
         method: 'POST',
@@ -116,6 +204,7 @@ export class IncidentStack extends cdk.Stack {
       environment: {
         INCIDENTS_TABLE: incidentsTable.tableName,
         MEDIA_BUCKET: mediaBucket.bucketName,
+        CONFIG_TABLE_NAME: configTable.tableName,
         EVENT_BUS_NAME: eventBus.eventBusName,
       },
       routes,
@@ -125,9 +214,38 @@ export class IncidentStack extends cdk.Stack {
     this.microserviceApi.functions.forEach((fn) => {
       incidentsTable.grantReadWriteData(fn);
       mediaBucket.grantReadWrite(fn);
+      configTable.grantReadData(fn);
       eventBus.grantPutEventsTo(fn);
     });
 
+    // SLA deadline checker: publishes SlaAtRisk and SlaBreached for open incidents
+    const checkSlaDeadlinesFn = new lambda.Function(this, 'CheckSlaDeadlinesFunction', {
+      functionName: `roadcall-incident-svc-check-sla-deadlines-${stage}`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/incident-svc/dist')),
+      handler: 'handlers/check-sla-deadlines.handler',
+      timeout: cdk.Duration.seconds(60),
+      memorySize: 256,
+      logRetention: stage === 'prod' ? logs.RetentionDays.ONE_MONTH : logs.RetentionDays.ONE_WEEK,
+      tracing: lambda.Tracing.ACTIVE,
+      environment: {
+        INCIDENTS_TABLE: incidentsTable.tableName,
+        CONFIG_TABLE_NAME: configTable.tableName,
+        EVENT_BUS_NAME: eventBus.eventBusName,
+      },
+      description: 'incident-svc - publish SLA at-risk and breach events',
+    });
+
+    incidentsTable.grantReadWriteData(checkSlaDeadlinesFn);
+    configTable.grantReadData(checkSlaDeadlinesFn);
+    eventBus.grantPutEventsTo(checkSlaDeadlinesFn);
+
+    new events.Rule(this, 'CheckSlaDeadlinesSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      description: 'Check incident SLA deadlines every minute',
+      targets: [new targets.LambdaFunction(checkSlaDeadlinesFn)],
+    });
+
     // Tag all resources
     cdk.Tags.of(this).add('Stack', 'Incident');
   }
@@ -9,6 +9,7 @@ import { Construct } from 'constructs';
 
 export interface IncidentStateMachineStackProps extends cdk.StackProps {
   incidentsTable: cdk.aws_dynamodb.ITable;
+  configTable: cdk.aws_dynamodb.ITable;
   eventBus: events.IEventBus;
   kmsKey: cdk.aws_kms.IKey;
 }
@@ -19,11 +20,12 @@ export class IncidentStateMachineStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: IncidentStateMachineStackProps) {
     super(scope, id, props);
 
-    const { incidentsTable, eventBus, kmsKey } = props;
+    const { incidentsTable, configTable, eventBus, kmsKey } = props;
 
     // Common Lambda environment variables
     const commonEnvironment = {
       INCIDENTS_TABLE: incidentsTable.tableName,
+      CONFIG_TABLE_NAME: configTable.tableName,
       EVENT_BUS_NAME: eventBus.eventBusName,
       POWERTOOLS_SERVICE_NAME: 'incident-state-machine',
       LOG_LEVEL: 'INFO',
@@ -51,7 +53,10 @@ export class IncidentStateMachineStack extends cdk.Stack {
       description: 'Check if vendor has responded to incident',
     });
 
-    incidentsTable.grantReadData(checkVendorResponseFn);
+    // Writes vendor_assigned once match-svc records the accepted vendor
+    incidentsTable.grantReadWriteData(checkVendorResponseFn);
+    configTable.grantReadData(checkVendorResponseFn);
+    eventBus.grantPutEventsTo(checkVendorResponseFn);
 
     // Lambda: Check Vendor Arrival
     const checkVendorArrivalFn = new nodejs.NodejsFunction(this, 'CheckVendorArrivalFn', {
@@ -72,6 +77,7 @@ export class IncidentStateMachineStack extends cdk.Stack {
     });
 
     incidentsTable.grantReadData(triggerVendorMatchingFn);
+    configTable.grantReadData(triggerVendorMatchingFn);
     eventBus.grantPutEventsTo(triggerVendorMatchingFn);
 
     // Lambda: Handle Vendor Timeout
@@ -96,6 +102,21 @@ export class IncidentStateMachineStack extends cdk.Stack {
     incidentsTable.grantReadWriteData(escalateIncidentFn);
     eventBus.grantPutEventsTo(escalateIncidentFn);
 
+    // Lambda: Resolve Lifecycle Timeouts
+    const resolveLifecycleTimeoutsFn = new nodejs.NodejsFunction(
+      this,
+      'ResolveLifecycleTimeoutsFn',
+      {
+        ...commonLambdaProps,
+        entry: '../services/incident-svc/src/state-machine/handlers/resolve-lifecycle-timeouts.ts',
+        handler: 'handler',
+        description: 'Resolve lifecycle waits for the incident SLA tier',
+      }
+    );
+
+    incidentsTable.grantReadData(resolveLifecycleTimeoutsFn);
+    configTable.grantReadData(resolveLifecycleTimeoutsFn);
+
     // Lambda: Handle State Transition
     const handleStateTransitionFn = new nodejs.NodejsFunction(this, 'HandleStateTransitionFn', {
       ...commonLambdaProps,
@@ -115,20 +136,22 @@ export class IncidentStateMachineStack extends cdk.Stack {
       encryptionKey: kmsKey,
     });
 
-    // Build state machine definition with Lambda ARNs
-    const stateMachineDefinition = this.buildStateMachineDefinition({
-      checkVendorResponseFnArn: checkVendorResponseFn.functionArn,
-      checkVendorArrivalFnArn: checkVendorArrivalFn.functionArn,
-      triggerVendorMatchingFnArn: triggerVendorMatchingFn.functionArn,
-      handleVendorTimeoutFnArn: handleVendorTimeoutFn.functionArn,
-      escalateIncidentFnArn: escalateIncidentFn.functionArn,
-      handleStateTransitionFnArn: handleStateTransitionFn.functionArn,
-    });
-
-    // Create State Machine
+    // Create State Machine from the definition generated out of the
+    // lifecycle description in incident-svc (pnpm generate:asl)
     this.stateMachine = new sfn.StateMachine(this, 'IncidentLifecycleStateMachine', {
       stateMachineName: `incident-lifecycle-${cdk.Stack.of(this).stackName}`,
-      definitionBody: sfn.DefinitionBody.fromString(JSON.stringify(stateMachineDefinition)),
+      definitionBody: sfn.DefinitionBody.fromFile(
+        '../services/incident-svc/src/state-machine/incident-lifecycle.asl.json'
+      ),
+      definitionSubstitutions: {
+        ResolveLifecycleTimeoutsFunctionArn: resolveLifecycleTimeoutsFn.functionArn,
+        TriggerVendorMatchingFunctionArn: triggerVendorMatchingFn.functionArn,
+        CheckVendorResponseFunctionArn: checkVendorResponseFn.functionArn,
+        CheckVendorArrivalFunctionArn: checkVendorArrivalFn.functionArn,
+        HandleVendorTimeoutFunctionArn: handleVendorTimeoutFn.functionArn,
+        EscalateIncidentFunctionArn: escalateIncidentFn.functionArn,
+        EventBusName: eventBus.eventBusName,
+      },
       tracingEnabled: true,
       logs: {
         destination: logGroup,
@@ -138,6 +161,7 @@ export class IncidentStateMachineStack extends cdk.Stack {
     });
 
     // Grant state machine permission to invoke Lambda functions
+    resolveLifecycleTimeoutsFn.grantInvoke(this.stateMachine);
     checkVendorResponseFn.grantInvoke(this.stateMachine);
     checkVendorArrivalFn.grantInvoke(this.stateMachine);
     triggerVendorMatchingFn.grantInvoke(this.stateMachine);
@@ -187,8 +211,45 @@ export class IncidentStateMachineStack extends cdk.Stack {
     });
 
     this.stateMachine.grantTaskResponse(sendTaskTokenFn);
+    incidentsTable.grantReadWriteData(sendTaskTokenFn);
     vendorAcceptedRule.addTarget(new targets.LambdaFunction(sendTaskTokenFn));
 
+    // Work completion, payment approval and dispatcher waits publish their task
+    // token, which send-task-token keeps until the event that ends the wait
+    const lifecycleWaitRule = new events.Rule(this, 'LifecycleWaitRule', {
+      eventBus,
+      eventPattern: {
+        source: ['incident.lifecycle'],
+        detailType: ['WorkCompletionWait', 'PaymentApprovalWait', 'DispatcherAssignmentWait'],
+      },
+      description: 'Record task tokens of lifecycle waits',
+    });
+
+    lifecycleWaitRule.addTarget(new targets.LambdaFunction(sendTaskTokenFn));
+
+    const lifecycleResumeRule = new events.Rule(this, 'LifecycleResumeRule', {
+      eventBus,
+      eventPattern: {
+        source: ['roadcall.incident-service', 'roadcall.payment-service'],
+        detailType: ['WorkCompleted', 'PaymentApproved'],
+      },
+      description: 'Resume lifecycle waits on work completion and payment approval',
+    });
+
+    lifecycleResumeRule.addTarget(new targets.LambdaFunction(sendTaskTokenFn));
+
+    const dispatcherAssignmentRule = new events.Rule(this, 'DispatcherAssignmentRule', {
+      eventBus,
+      eventPattern: {
+        source: ['roadcall.incident-service'],
+        detailType: ['IncidentStatusChanged'],
+        detail: { previousStatus: ['escalated'], newStatus: ['vendor_assigned'] },
+      },
+      description: 'Resume the lifecycle of an escalated incident a dispatcher hand-assigns',
+    });
+
+    dispatcherAssignmentRule.addTarget(new targets.LambdaFunction(sendTaskTokenFn));
+
     // CloudWatch Alarms
     const executionFailedMetric = this.stateMachine.metricFailed({
       statistic: 'Sum',
@@ -229,225 +290,4 @@ export class IncidentStateMachineStack extends cdk.Stack {
       exportName: `${cdk.Stack.of(this).stackName}-StateMachineName`,
     });
   }
-
-  private buildStateMachineDefinition(lambdaArns: {
-    checkVendorResponseFnArn: string;
-    checkVendorArrivalFnArn: string;
-    triggerVendorMatchingFnArn: string;
-    handleVendorTimeoutFnArn: string;
-    escalateIncidentFnArn: string;
-    handleStateTransitionFnArn: string;
-  }) {
-    return {
-      Comment: 'Incident Lifecycle State Machine with timeout handling and escalation',
-      StartAt: 'InitializeIncident',
-      States: {
-        InitializeIncident: {
-          Type: 'Pass',
-          Parameters: {
-            'incidentId.$': '$.incidentId',
-            'driverId.$': '$.driverId',
-            'type.$': '$.type',
-            'location.$': '$.location',
-            'attempt': 1,
-            'radiusMiles': 50,
-            'createdAt.$': '$.createdAt',
-          },
-          Next: 'TriggerVendorMatching',
-        },
-        TriggerVendorMatching: {
-          Type: 'Task',
-          Resource: 'arn:aws:states:::lambda:invoke',
-          Parameters: {
-            FunctionName: lambdaArns.triggerVendorMatchingFnArn,
-            'Payload.$': '$',
-          },
-          ResultPath: '$.matchResult',
-          Next: 'WaitForVendorResponse',
-          Retry: [
-            {
-              ErrorEquals: ['States.TaskFailed', 'States.Timeout'],
-              IntervalSeconds: 2,
-              MaxAttempts: 3,
-              BackoffRate: 2,
-            },
-          ],
-          Catch: [
-            {
-              ErrorEquals: ['States.ALL'],
-              ResultPath: '$.error',
-              Next: 'HandleMatchingError',
-            },
-          ],
-        },
-        WaitForVendorResponse: {
-          Type: 'Wait',
-          Seconds: 120,
-          Next: 'CheckVendorResponse',
-        },
-        CheckVendorResponse: {
-          Type: 'Task',
-          Resource: 'arn:aws:states:::lambda:invoke',
-          Parameters: {
-            FunctionName: lambdaArns.checkVendorResponseFnArn,
-            'Payload.$': '$',
-          },
-          ResultPath: '$.responseCheck',
-          Next: 'HasVendorResponded',
-          Retry: [
-            {
-              ErrorEquals: ['States.TaskFailed'],
-              IntervalSeconds: 1,
-              MaxAttempts: 2,
-              BackoffRate: 2,
-            },
-          ],
-        },
-        HasVendorResponded: {
-          Type: 'Choice',
-          Choices: [
-            {
-              Variable: '$.responseCheck.Payload.hasVendor',
-              BooleanEquals: true,
-              Next: 'VendorAssigned',
-            },
-            {
-              Variable: '$.responseCheck.Payload.shouldEscalate',
-              BooleanEquals: true,
-              Next: 'EscalateToDispatcher',
-            },
-          ],
-          Default: 'UpdateSearchParameters',
-        },
-        UpdateSearchParameters: {
-          Type: 'Pass',
-          Parameters: {
-            'incidentId.$': '$.incidentId',
-            'driverId.$': '$.driverId',
-            'type.$': '$.type',
-            'location.$': '$.location',
-            'attempt.$': '$.responseCheck.Payload.attempt',
-            'radiusMiles.$': '$.responseCheck.Payload.radiusMiles',
-            'createdAt.$': '$.createdAt',
-          },
-          Next: 'TriggerVendorMatching',
-        },
-        VendorAssigned: {
-          Type: 'Pass',
-          Parameters: {
-            'incidentId.$': '$.incidentId',
-            'vendorId.$': '$.responseCheck.Payload.vendorId',
-            'assignedAt.$': '$$.State.EnteredTime',
-            'status': 'vendor_assigned',
-          },
-          Next: 'WaitForVendorArrival',
-        },
-        WaitForVendorArrival: {
-          Type: 'Wait',
-          Seconds: 300,
-          Next: 'CheckVendorArrival',
-        },
-        CheckVendorArrival: {
-          Type: 'Task',
-          Resource: 'arn:aws:states:::lambda:invoke',
-          Parameters: {
-            FunctionName: lambdaArns.checkVendorArrivalFnArn,
-            'Payload.$': '$',
-          },
-          ResultPath: '$.arrivalCheck',
-          Next: 'HasVendorArrived',
-          Retry: [
-            {
-              ErrorEquals: ['States.TaskFailed'],
-              IntervalSeconds: 1,
-              MaxAttempts: 2,
-              BackoffRate: 2,
-            },
-          ],
-        },
-        HasVendorArrived: {
-          Type: 'Choice',
-          Choices: [
-            {
-              Variable: '$.arrivalCheck.Payload.hasArrived',
-              BooleanEquals: true,
-              Next: 'VendorArrived',
-            },
-            {
-              Variable: '$.arrivalCheck.Payload.isTimeout',
-              BooleanEquals: true,
-              Next: 'HandleVendorTimeout',
-            },
-          ],
-          Default: 'WaitForVendorArrival',
-        },
-        HandleVendorTimeout: {
-          Type: 'Task',
-          Resource: 'arn:aws:states:::lambda:invoke',
-          Parameters: {
-            FunctionName: lambdaArns.handleVendorTimeoutFnArn,
-            'Payload.$': '$',
-          },
-          ResultPath: '$.timeoutResult',
-          Next: 'InitializeIncident',
-          Retry: [
-            {
-              ErrorEquals: ['States.TaskFailed'],
-              IntervalSeconds: 2,
-              MaxAttempts: 2,
-              BackoffRate: 2,
-            },
-          ],
-        },
-        VendorArrived: {
-          Type: 'Pass',
-          Parameters: {
-            'incidentId.$': '$.incidentId',
-            'vendorId.$': '$.vendorId',
-            'status': 'vendor_arrived',
-          },
-          Next: 'IncidentComplete',
-        },
-        IncidentComplete: {
-          Type: 'Succeed',
-        },
-        EscalateToDispatcher: {
-          Type: 'Task',
-          Resource: 'arn:aws:states:::lambda:invoke',
-          Parameters: {
-            FunctionName: lambdaArns.escalateIncidentFnArn,
-            'Payload.$': '$',
-          },
-          ResultPath: '$.escalationResult',
-          Next: 'EscalationComplete',
-          Retry: [
-            {
-              ErrorEquals: ['States.TaskFailed'],
-              IntervalSeconds: 2,
-              MaxAttempts: 3,
-              BackoffRate: 2,
-            },
-          ],
-        },
-        EscalationComplete: {
-          Type: 'Pass',
-          Parameters: {
-            'incidentId.$': '$.incidentId',
-            'status': 'escalated',
-            'escalatedAt.$': '$$.State.EnteredTime',
-          },
-          End: true,
-        },
-        HandleMatchingError: {
-          Type: 'Pass',
-          Parameters: {
-            'incidentId.$': '$.incidentId',
-            'error.$': '$.error',
-            'status': 'error',
-          },
-          Next: 'EscalateToDispatcher',
-        },
-      },
-    };
-  }
 }
@@ -2,7 +2,13 @@ import * as cdk from 'aws-cdk-lib';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
 import { Construct } from 'constructs';
+import * as path from 'path';
 import { MicroserviceApi, RouteConfig } from './constructs/microservice-api';
 
 export interface MatchStackProps extends cdk.StackProps {
@@ -23,6 +29,12 @@ export class MatchStack extends cdk.Stack {
 
     const { stage, api, authorizer, offersTable, vendorsTable, incidentsTable, eventBus } = props;
 
+    // Matching config is owned by admin-config-svc and read at runtime
+    const configTable = dynamodb.Table.fromTableAttributes(this, 'ConfigTable', {
+      tableName: `roadcall-config-${stage}`,
+      globalIndexes: ['latest-version-index'],
+    });
+
     // Define routes for match service
     const routes: RouteConfig[] = [
       {
@@ -55,29 +67,150 @@ export class MatchStack extends cdk.Stack {
           },
         },
       },
+      {
+        path: 'offers/{id}/counter',
+        method: 'POST',
+        handler: 'handlers/counter-offer.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 50,
+        description: 'Vendor proposes a different payout for an offer',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['proposedPayout'],
+          properties: {
+            proposedPayout: { type: apigateway.JsonSchemaType.INTEGER, minimum: 1 },
+            etaMinutes: { type: apigateway.JsonSchemaType.NUMBER, minimum: 1 },
+            note: { type: apigateway.JsonSchemaType.STRING },
+          },
+        },
+      },
+      {
+        path: 'offers/{id}/counter/decision',
+        method: 'POST',
+        handler: 'handlers/resolve-counter-offer.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 50,
+        description: 'Dispatcher approves or rejects a counter-offer',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['approve'],
+          properties: {
+            approve: { type: apigateway.JsonSchemaType.BOOLEAN },
+            reason: { type: apigateway.JsonSchemaType.STRING },
+          },
+        },
+      },
     ];
 
+    // Route calculator and vendor tracker are owned by the tracking stack;
+    // matching reads live vendor positions and drive times from them
+    const routeCalculatorName = `roadcall-route-calculator-${stage}`;
+    const trackerName = `roadcall-vendor-tracker-${stage}`;
+    const locationPolicy = new iam.PolicyStatement({
+      actions: ['geo:CalculateRouteMatrix', 'geo:BatchGetDevicePosition'],
+      resources: [
+        this.formatArn({
+          service: 'geo',
+          resource: 'route-calculator',
+          resourceName: routeCalculatorName,
+        }),
+        this.formatArn({
+          service: 'geo',
+          resource: 'tracker',
+          resourceName: trackerName,
+        }),
+      ],
+    });
+
+    const environment = {
+      OFFERS_TABLE: offersTable.tableName,
+      VENDORS_TABLE: vendorsTable.tableName,
+      INCIDENTS_TABLE: incidentsTable.tableName,
+      CONFIG_TABLE_NAME: configTable.tableName,
+      LOCATION_CALCULATOR_NAME: routeCalculatorName,
+      LOCATION_TRACKER_NAME: trackerName,
+      EVENT_BUS_NAME: eventBus.eventBusName,
+    };
+
     // Create microservice API
     this.microserviceApi = new MicroserviceApi(this, 'MatchMicroserviceApi', {
       serviceName: 'match-svc',
       stage,
       api,
       authorizer,
-      environment: {
-        OFFERS_TABLE: offersTable.tableName,
-        VENDORS_TABLE: vendorsTable.tableName,
-        INCIDENTS_TABLE: incidentsTable.tableName,
-        EVENT_BUS_NAME: eventBus.eventBusName,
-      },
+      environment,
       routes,
     });
 
+    // Offer expiry processor: expires pending offers past their response window
+    const expireOffersFn = new lambda.Function(this, 'ExpireOffersFunction', {
+      functionName: `roadcall-match-svc-expire-offers-${stage}`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/match-svc/dist')),
+      handler: 'handlers/expire-offers.handler',
+      timeout: cdk.Duration.seconds(60),
+      memorySize: 256,
+      logRetention: stage === 'prod' ? logs.RetentionDays.ONE_MONTH : logs.RetentionDays.ONE_WEEK,
+      tracing: lambda.Tracing.ACTIVE,
+      environment,
+      description: 'match-svc - expire pending offers past their response window',
+    });
+
+    offersTable.grantReadWriteData(expireOffersFn);
+    eventBus.grantPutEventsTo(expireOffersFn);
+
+    new events.Rule(this, 'ExpireOffersSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      description: 'Expire pending offers every minute',
+      targets: [new targets.LambdaFunction(expireOffersFn)],
+    });
+
+    // Match request processor: matching attempts and cascade round timeouts
+    // published by the incident state machine, delivered straight from the bus
+    const matchRequestedFn = new lambda.Function(this, 'MatchRequestedFunction', {
+      functionName: `roadcall-match-svc-match-requested-${stage}`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/match-svc/dist')),
+      handler: 'handlers/match-requested-handler.handler',
+      timeout: cdk.Duration.seconds(60),
+      memorySize: 512,
+      logRetention: stage === 'prod' ? logs.RetentionDays.ONE_MONTH : logs.RetentionDays.ONE_WEEK,
+      tracing: lambda.Tracing.ACTIVE,
+      environment,
+      description: 'match-svc - run matching attempts and advance dispatch rounds',
+    });
+
+    const matchRequestedDLQ = new sqs.Queue(this, 'MatchRequestedDLQ', {
+      queueName: `roadcall-match-requested-dlq-${stage}`,
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.KMS_MANAGED,
+    });
+
+    new events.Rule(this, 'MatchRequestedRule', {
+      eventBus,
+      ruleName: `roadcall-match-requested-${stage}`,
+      description: 'Route match requests from the incident state machine to match service',
+      eventPattern: {
+        source: ['roadcall.incident-service'],
+        detailType: ['MatchRequested'],
+      },
+      targets: [
+        new targets.LambdaFunction(matchRequestedFn, {
+          retryAttempts: 3,
+          maxEventAge: cdk.Duration.hours(2),
+          deadLetterQueue: matchRequestedDLQ,
+        }),
+      ],
+    });
+
     // Grant permissions
-    this.microserviceApi.functions.forEach((fn) => {
+    [...this.microserviceApi.functions.values(), matchRequestedFn].forEach((fn) => {
       offersTable.grantReadWriteData(fn);
       vendorsTable.grantReadData(fn);
       incidentsTable.grantReadWriteData(fn);
+      configTable.grantReadData(fn);
       eventBus.grantPutEventsTo(fn);
+      fn.addToRolePolicy(locationPolicy);
     });
 
     // Tag all resources
@@ -1,6 +1,7 @@
 import * as cdk from 'aws-cdk-lib';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { MicroserviceApi, RouteConfig } from './constructs/microservice-api';
 
@@ -10,6 +11,7 @@ export interface NotificationsApiStackProps extends cdk.StackProps {
   authorizer: apigateway.IAuthorizer;
   notificationLogTable: dynamodb.ITable;
   preferencesTable: dynamodb.ITable;
+  trackingLinkSecret: secretsmanager.ISecret;
 }
 
 export class NotificationsApiStack extends cdk.Stack {
@@ -18,7 +20,8 @@ export class NotificationsApiStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: NotificationsApiStackProps) {
     super(scope, id, props);
 
-    const { stage, api, authorizer, notificationLogTable, preferencesTable } = props;
+    const { stage, api, authorizer, notificationLogTable, preferencesTable, trackingLinkSecret } =
+      props;
 
     // Define routes for notifications service
     const routes: RouteConfig[] = [
@@ -129,6 +132,7 @@ export class NotificationsApiStack extends cdk.Stack {
       environment: {
         NOTIFICATION_LOG_TABLE: notificationLogTable.tableName,
         PREFERENCES_TABLE: preferencesTable.tableName,
+        TRACKING_LINK_SECRET_NAME: trackingLinkSecret.secretName,
       },
       routes,
     });
@@ -137,6 +141,7 @@ export class NotificationsApiStack extends cdk.Stack {
     this.microserviceApi.functions.forEach((fn) => {
       notificationLogTable.grantReadWriteData(fn);
       preferencesTable.grantReadWriteData(fn);
+      trackingLinkSecret.grantRead(fn);
       // Grant Pinpoint permissions
       fn.addToRolePolicy(
         new cdk.aws_iam.PolicyStatement({
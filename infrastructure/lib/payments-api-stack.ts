@@ -1,9 +1,15 @@
 import * as cdk from 'aws-cdk-lib';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as rds from 'aws-cdk-lib/aws-rds';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
 import { Construct } from 'constructs';
+import * as path from 'path';
 import { MicroserviceApi, RouteConfig } from './constructs/microservice-api';
 
 export interface PaymentsApiStackProps extends cdk.StackProps {
@@ -14,15 +20,51 @@ export interface PaymentsApiStackProps extends cdk.StackProps {
   dbSecret: secretsmanager.ISecret;
   stripeSecret: secretsmanager.ISecret;
   eventBus: events.IEventBus;
+  incidentsTable: dynamodb.ITable; // Read for dispute evidence and invoicing
+  usersTable: dynamodb.ITable; // Fleet company drivers, read for invoicing
+  configTable: dynamodb.ITable; // Invoicing rules
+  trackingSessionsTable: dynamodb.ITable; // Read for dispute evidence
+  vendorRoutesTable: dynamodb.ITable; // Read for dispute evidence
+  mediaBucket: s3.IBucket; // Job photos attached to dispute evidence
+  platformFeeBps?: number; // Platform margin on new payments, in basis points (default: 0)
 }
 
 export class PaymentsApiStack extends cdk.Stack {
   public readonly microserviceApi: MicroserviceApi;
+  public readonly invoicesBucket: s3.Bucket;
 
   constructor(scope: Construct, id: string, props: PaymentsApiStackProps) {
     super(scope, id, props);
 
-    const { stage, api, authorizer, dbSecret, stripeSecret, eventBus } = props;
+    const {
+      stage,
+      api,
+      authorizer,
+      dbSecret,
+      stripeSecret,
+      eventBus,
+      incidentsTable,
+      usersTable,
+      configTable,
+      trackingSessionsTable,
+      vendorRoutesTable,
+      mediaBucket,
+      platformFeeBps = 0,
+    } = props;
+
+    // Rendered invoice PDFs and CSVs; re-rendered on every download
+    this.invoicesBucket = new s3.Bucket(this, 'InvoicesBucket', {
+      bucketName: `roadcall-invoices-${stage}-${this.account}`,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      lifecycleRules: [
+        {
+          id: 'DeleteRenderedInvoices',
+          enabled: true,
+          expiration: cdk.Duration.days(30),
+        },
+      ],
+    });
 
     // Define routes for payments service
     const routes: RouteConfig[] = [
@@ -85,6 +127,35 @@ export class PaymentsApiStack extends cdk.Stack {
         isSensitive: true, // 10 req/min rate limit
         description: 'Process payment via Stripe',
       },
+      {
+        path: 'payments/{id}/refund',
+        method: 'POST',
+        handler: 'handlers/refund-payment.handler',
+        requiresAuth: true,
+        isSensitive: true, // 10 req/min rate limit
+        description: 'Refund a payment in full or in part',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          properties: {
+            amountCents: { type: apigateway.JsonSchemaType.INTEGER, minimum: 1 },
+            reason: { type: apigateway.JsonSchemaType.STRING },
+          },
+        },
+      },
+      {
+        path: 'payments/{id}/dispute/submit',
+        method: 'POST',
+        handler: 'handlers/submit-dispute-evidence.handler',
+        requiresAuth: true,
+        isSensitive: true, // 10 req/min rate limit
+        description: 'Submit dispute evidence to the card issuer',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          properties: {
+            notes: { type: apigateway.JsonSchemaType.STRING },
+          },
+        },
+      },
       {
         path: 'payments/pending',
         method: 'GET',
@@ -101,6 +172,115 @@ export class PaymentsApiStack extends cdk.Stack {
         rateLimitPerMinute: 100,
         description: 'Get fraud-flagged payments',
       },
+      {
+        path: 'payments/ledger/trial-balance',
+        method: 'GET',
+        handler: 'handlers/get-trial-balance.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 20,
+        description: 'Get the payments ledger trial balance',
+      },
+      {
+        path: 'invoices',
+        method: 'POST',
+        handler: 'handlers/generate-invoice.handler',
+        requiresAuth: true,
+        isSensitive: true, // 10 req/min rate limit
+        description: "Draft a fleet company's invoice for a billing period",
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['companyId', 'period'],
+          properties: {
+            companyId: { type: apigateway.JsonSchemaType.STRING },
+            period: { type: apigateway.JsonSchemaType.STRING, pattern: '^\\d{4}-\\d{2}$' },
+          },
+        },
+      },
+      {
+        path: 'invoices',
+        method: 'GET',
+        handler: 'handlers/list-invoices.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 100,
+        description: 'List fleet company invoices',
+      },
+      {
+        path: 'invoices/{id}',
+        method: 'GET',
+        handler: 'handlers/get-invoice.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 100,
+        description: 'Get invoice with its lines',
+      },
+      {
+        path: 'invoices/{id}/status',
+        method: 'POST',
+        handler: 'handlers/update-invoice-status.handler',
+        requiresAuth: true,
+        isSensitive: true, // 10 req/min rate limit
+        description: 'Send an invoice or mark it paid or overdue',
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          required: ['status'],
+          properties: {
+            status: {
+              type: apigateway.JsonSchemaType.STRING,
+              enum: ['sent', 'paid', 'overdue'],
+            },
+          },
+        },
+      },
+      {
+        path: 'invoices/{id}/document',
+        method: 'GET',
+        handler: 'handlers/get-invoice-document.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 20,
+        description: 'Download an invoice as PDF or CSV',
+      },
+      {
+        path: 'payouts/vendors/{id}/settings',
+        method: 'GET',
+        handler: 'handlers/get-payout-settings.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 100,
+        description: "Get a vendor's payout schedule",
+      },
+      {
+        path: 'payouts/vendors/{id}/settings',
+        method: 'PUT',
+        handler: 'handlers/update-payout-settings.handler',
+        requiresAuth: true,
+        isSensitive: true, // 10 req/min rate limit
+        description: "Set a vendor's payout schedule and Connect account",
+        requestSchema: {
+          type: apigateway.JsonSchemaType.OBJECT,
+          properties: {
+            stripeAccountId: { type: apigateway.JsonSchemaType.STRING, pattern: '^acct_' },
+            schedule: {
+              type: apigateway.JsonSchemaType.STRING,
+              enum: ['instant', 'daily', 'weekly'],
+            },
+            weeklyAnchor: { type: apigateway.JsonSchemaType.INTEGER, minimum: 0, maximum: 6 },
+          },
+        },
+      },
+      {
+        path: 'payouts/vendors/{id}/statements',
+        method: 'GET',
+        handler: 'handlers/list-payout-statements.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 100,
+        description: "List a vendor's payout statements",
+      },
+      {
+        path: 'payouts/statements/{id}',
+        method: 'GET',
+        handler: 'handlers/get-payout-statement.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 100,
+        description: 'Get a payout statement with its jobs and adjustments',
+      },
       {
         path: 'payments/webhooks/stripe',
         method: 'POST',
@@ -121,6 +301,14 @@ export class PaymentsApiStack extends cdk.Stack {
         DB_SECRET_ARN: dbSecret.secretArn,
         STRIPE_SECRET_NAME: stripeSecret.secretName,
         EVENT_BUS_NAME: eventBus.eventBusName,
+        INCIDENTS_TABLE_NAME: incidentsTable.tableName,
+        TRACKING_SESSIONS_TABLE_NAME: trackingSessionsTable.tableName,
+        VENDOR_ROUTES_TABLE_NAME: vendorRoutesTable.tableName,
+        MEDIA_BUCKET: mediaBucket.bucketName,
+        USERS_TABLE_NAME: usersTable.tableName,
+        CONFIG_TABLE_NAME: configTable.tableName,
+        INVOICES_BUCKET: this.invoicesBucket.bucketName,
+        PLATFORM_FEE_BPS: platformFeeBps.toString(),
       },
       routes,
     });
@@ -134,6 +322,86 @@ export class PaymentsApiStack extends cdk.Stack {
       // dbCluster.grantDataApiAccess(fn);
     });
 
+    // Dispute evidence is gathered when a dispute webhook arrives, or at
+    // submission if that failed
+    ['postPaymentsWebhooksStripe', 'postPaymentsDisputeSubmit'].forEach((name) =>
+      this.microserviceApi.grantFunctionPermissions(name, (fn) => {
+        incidentsTable.grantReadData(fn);
+        trackingSessionsTable.grantReadData(fn);
+        vendorRoutesTable.grantReadData(fn);
+        mediaBucket.grantRead(fn);
+      })
+    );
+
+    // Invoices read drivers and closed incidents; sending one reads the payment terms
+    ['postInvoices', 'postInvoicesStatus'].forEach((name) =>
+      this.microserviceApi.grantFunctionPermissions(name, (fn) => {
+        incidentsTable.grantReadData(fn);
+        usersTable.grantReadData(fn);
+        configTable.grantReadData(fn);
+      })
+    );
+    this.microserviceApi.grantFunctionPermissions('getInvoicesDocument', (fn) =>
+      this.invoicesBucket.grantReadWrite(fn)
+    );
+
+    // Invoice scheduler: marks invoices overdue daily and drafts last month's
+    // invoices on the first of the month
+    const invoiceSchedulerFn = new lambda.Function(this, 'InvoiceSchedulerFunction', {
+      functionName: `roadcall-payments-svc-invoice-scheduler-${stage}`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/payments-svc/dist')),
+      handler: 'handlers/invoice-scheduler.handler',
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 512,
+      logRetention: stage === 'prod' ? logs.RetentionDays.ONE_MONTH : logs.RetentionDays.ONE_WEEK,
+      tracing: lambda.Tracing.ACTIVE,
+      environment: {
+        DB_SECRET_ARN: dbSecret.secretArn,
+        INCIDENTS_TABLE_NAME: incidentsTable.tableName,
+        USERS_TABLE_NAME: usersTable.tableName,
+        CONFIG_TABLE_NAME: configTable.tableName,
+      },
+    });
+
+    dbSecret.grantRead(invoiceSchedulerFn);
+    incidentsTable.grantReadData(invoiceSchedulerFn);
+    usersTable.grantReadData(invoiceSchedulerFn);
+    configTable.grantReadData(invoiceSchedulerFn);
+
+    new events.Rule(this, 'InvoiceSchedule', {
+      schedule: events.Schedule.cron({ minute: '0', hour: '6' }),
+      description: 'Mark overdue invoices daily and draft monthly invoices on the 1st',
+      targets: [new targets.LambdaFunction(invoiceSchedulerFn)],
+    });
+
+    // Payout scheduler: batches what each vendor is owed into one payout on
+    // their instant, daily or weekly schedule
+    const payoutSchedulerFn = new lambda.Function(this, 'PayoutSchedulerFunction', {
+      functionName: `roadcall-payments-svc-payout-scheduler-${stage}`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/payments-svc/dist')),
+      handler: 'handlers/payout-scheduler.handler',
+      timeout: cdk.Duration.minutes(10),
+      memorySize: 512,
+      logRetention: stage === 'prod' ? logs.RetentionDays.ONE_MONTH : logs.RetentionDays.ONE_WEEK,
+      tracing: lambda.Tracing.ACTIVE,
+      environment: {
+        DB_SECRET_ARN: dbSecret.secretArn,
+        STRIPE_SECRET_NAME: stripeSecret.secretName,
+        PLATFORM_FEE_BPS: platformFeeBps.toString(),
+      },
+    });
+
+    dbSecret.grantRead(payoutSchedulerFn);
+    stripeSecret.grantRead(payoutSchedulerFn);
+
+    new events.Rule(this, 'PayoutSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+      description: 'Batch and pay out vendors on their payout schedules',
+      targets: [new targets.LambdaFunction(payoutSchedulerFn)],
+    });
+
     // Tag all resources
     cdk.Tags.of(this).add('Stack', 'PaymentsApi');
   }
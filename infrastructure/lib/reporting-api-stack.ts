@@ -41,6 +41,14 @@ export class ReportingApiStack extends cdk.Stack {
         rateLimitPerMinute: 100,
         description: 'Get incident analytics',
       },
+      {
+        path: 'reports/incidents/{id}/costs',
+        method: 'GET',
+        handler: 'handlers/get-incident-costs.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 100,
+        description: 'Get per-leg costs of an incident and its follow-up jobs',
+      },
       {
         path: 'reports/vendors/{id}/performance',
         method: 'GET',
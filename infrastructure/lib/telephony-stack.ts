@@ -12,6 +12,7 @@ import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
 import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
 import * as kms from 'aws-cdk-lib/aws-kms';
 import { Construct } from 'constructs';
@@ -21,11 +22,13 @@ export interface TelephonyStackProps extends cdk.StackProps {
   serviceName: string;
   usersTable: dynamodb.ITable;
   incidentsTable: dynamodb.ITable;
+  configTable: dynamodb.ITable; // admin-config table holding the incident-type catalogue
   eventBus: events.IEventBus;
   kmsKey: kms.IKey;
   kendraIndexId?: string;
   bedrockGuardrailId?: string;
   bedrockGuardrailVersion?: string;
+  mainInboundFlowId?: string; // Connect flow re-published when the incident-type catalogue changes
 }
 
 export class TelephonyStack extends cdk.Stack {
@@ -223,6 +226,7 @@ export class TelephonyStack extends cdk.Stack {
       memorySize: 512,
       environment: {
         INCIDENTS_TABLE_NAME: props.incidentsTable.tableName,
+        CONFIG_TABLE_NAME: props.configTable.tableName,
         EVENT_BUS_NAME: props.eventBus.eventBusName,
         POWERTOOLS_SERVICE_NAME: props.serviceName,
       },
@@ -235,6 +239,7 @@ export class TelephonyStack extends cdk.Stack {
     });
 
     props.incidentsTable.grantWriteData(createIncidentFunction);
+    props.configTable.grantReadData(createIncidentFunction);
     props.eventBus.grantPutEventsTo(createIncidentFunction);
 
     const postCallProcessorFunction = new nodejs.NodejsFunction(this, 'PostCallProcessorFunction', {
@@ -308,6 +313,7 @@ export class TelephonyStack extends cdk.Stack {
         SUMMARIES_TABLE_NAME: this.summariesTable.tableName,
         CALL_RECORDS_TABLE_NAME: this.callRecordingsTable.tableName,
         INCIDENTS_TABLE_NAME: props.incidentsTable.tableName,
+        CONFIG_TABLE_NAME: props.configTable.tableName,
         BEDROCK_MODEL_ID: 'anthropic.claude-3-sonnet-20240229-v1:0',
         BEDROCK_GUARDRAIL_ID: props.bedrockGuardrailId || '',
         BEDROCK_GUARDRAIL_VERSION: props.bedrockGuardrailVersion || 'DRAFT',
@@ -325,6 +331,7 @@ export class TelephonyStack extends cdk.Stack {
     this.summariesTable.grantWriteData(generateSummaryFunction);
     this.callRecordingsTable.grantReadWriteData(generateSummaryFunction);
     props.incidentsTable.grantReadWriteData(generateSummaryFunction);
+    props.configTable.grantReadData(generateSummaryFunction);
 
     // Grant Bedrock permissions
     generateSummaryFunction.addToRolePolicy(
@@ -488,6 +495,54 @@ export class TelephonyStack extends cdk.Stack {
       })
     );
 
+    // Sync Contact Flow Function - rebuilds the IVR menu from the incident-type catalogue
+    const syncContactFlowFunction = new nodejs.NodejsFunction(this, 'SyncContactFlowFunction', {
+      functionName: `${props.serviceName}-sync-contact-flow`,
+      entry: path.join(
+        __dirname,
+        '../../services/telephony-svc/src/handlers/sync-contact-flow.ts'
+      ),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      environment: {
+        CONFIG_TABLE_NAME: props.configTable.tableName,
+        CONNECT_INSTANCE_ID: this.connectInstance.attrId,
+        MAIN_INBOUND_FLOW_ID: props.mainInboundFlowId || '',
+        DRIVER_LOOKUP_LAMBDA_ARN: driverLookupFunction.functionArn,
+        CREATE_INCIDENT_LAMBDA_ARN: createIncidentFunction.functionArn,
+        POWERTOOLS_SERVICE_NAME: props.serviceName,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_MONTH,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+    });
+
+    props.configTable.grantReadData(syncContactFlowFunction);
+    syncContactFlowFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['connect:UpdateContactFlowContent'],
+        resources: [`${this.connectInstance.attrArn}/contact-flow/*`],
+      })
+    );
+
+    new events.Rule(this, 'IncidentTypesChangedRule', {
+      eventBus: props.eventBus,
+      eventPattern: {
+        source: ['roadcall.admin-config'],
+        detailType: ['ConfigurationChanged'],
+        detail: {
+          configKey: ['incident-types'],
+        },
+      },
+      targets: [new targets.LambdaFunction(syncContactFlowFunction)],
+    });
+
     // Grant Connect permissions to write to S3 recordings bucket
     this.recordingsBucket.addToResourcePolicy(
       new iam.PolicyStatement({
@@ -1,4 +1,5 @@
 import * as cdk from 'aws-cdk-lib';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as appsync from 'aws-cdk-lib/aws-appsync';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
@@ -6,15 +7,21 @@ import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as location from 'aws-cdk-lib/aws-location';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
 import { Construct } from 'constructs';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as path from 'path';
+import { MicroserviceApi, RouteConfig } from './constructs/microservice-api';
 
 export interface TrackingStackProps extends cdk.StackProps {
   stage: string;
+  api: apigateway.RestApi;
+  authorizer: apigateway.IAuthorizer;
+  appSyncAuthorizer: lambda.IFunction;
   trackingSessionsTable: dynamodb.Table;
+  vendorRoutesTable: dynamodb.Table;
   incidentsTable: dynamodb.Table;
   eventBus: events.EventBus;
   webAcl?: cdk.aws_wafv2.CfnWebACL;
@@ -25,11 +32,29 @@ export class TrackingStack extends cdk.Stack {
   public readonly tracker: location.CfnTracker;
   public readonly geofenceCollection: location.CfnGeofenceCollection;
   public readonly routeCalculator: location.CfnRouteCalculator;
+  public readonly microserviceApi: MicroserviceApi;
+  public readonly trackingLinkSecret: secretsmanager.ISecret;
 
   constructor(scope: Construct, id: string, props: TrackingStackProps) {
     super(scope, id, props);
 
-    const { stage, trackingSessionsTable, incidentsTable, eventBus, webAcl } = props;
+    const {
+      stage,
+      api,
+      authorizer,
+      appSyncAuthorizer,
+      trackingSessionsTable,
+      vendorRoutesTable,
+      incidentsTable,
+      eventBus,
+      webAcl,
+    } = props;
+
+    // Watchdog thresholds are owned by admin-config-svc and read at runtime
+    const configTable = dynamodb.Table.fromTableAttributes(this, 'ConfigTable', {
+      tableName: `roadcall-config-${stage}`,
+      globalIndexes: ['latest-version-index'],
+    });
 
     // ========================================================================
     // AWS Location Service Resources
@@ -95,6 +120,14 @@ export class TrackingStack extends cdk.Stack {
               expires: cdk.Expiration.after(cdk.Duration.days(365)),
             },
           },
+          // Drivers and vendors send their own locations with their JWT
+          {
+            authorizationType: appsync.AuthorizationType.LAMBDA,
+            lambdaAuthorizerConfig: {
+              handler: appSyncAuthorizer,
+              resultsCacheTtl: cdk.Duration.minutes(5),
+            },
+          },
         ],
       },
       logConfig: {
@@ -131,6 +164,7 @@ export class TrackingStack extends cdk.Stack {
       tracing: lambda.Tracing.ACTIVE,
       environment: {
         TABLE_NAME: trackingSessionsTable.tableName,
+        VENDOR_ROUTES_TABLE_NAME: vendorRoutesTable.tableName,
         INCIDENTS_TABLE_NAME: incidentsTable.tableName,
         POWERTOOLS_SERVICE_NAME: 'tracking-svc',
         POWERTOOLS_LOG_LEVEL: stage === 'prod' ? 'INFO' : 'DEBUG',
@@ -154,7 +188,9 @@ export class TrackingStack extends cdk.Stack {
     });
 
     trackingSessionsTable.grantReadWriteData(startTrackingHandler);
-    incidentsTable.grantReadData(startTrackingHandler);
+    vendorRoutesTable.grantReadWriteData(startTrackingHandler);
+    // Writes the first ETA to the incident as an ETA model training sample
+    incidentsTable.grantReadWriteData(startTrackingHandler);
 
     // Grant Location Service permissions
     startTrackingHandler.addToRolePolicy(
@@ -197,6 +233,9 @@ export class TrackingStack extends cdk.Stack {
     );
 
     trackingSessionsTable.grantReadWriteData(updateVendorLocationHandler);
+    vendorRoutesTable.grantReadWriteData(updateVendorLocationHandler);
+    // Moves the incident to vendor_arrived on the fix that confirms arrival
+    incidentsTable.grantReadWriteData(updateVendorLocationHandler);
 
     updateVendorLocationHandler.addToRolePolicy(
       new iam.PolicyStatement({
@@ -216,6 +255,40 @@ export class TrackingStack extends cdk.Stack {
       })
     );
 
+    // Update Driver Location Handler (moves the arrival geofence with the driver)
+    const updateDriverLocationHandler = new NodejsFunction(
+      this,
+      'UpdateDriverLocationHandler',
+      {
+        ...commonLambdaProps,
+        entry: path.join(
+          __dirname,
+          '../../services/tracking-svc/src/handlers/update-driver-location.ts'
+        ),
+        handler: 'handler',
+        functionName: `roadcall-update-driver-location-${stage}`,
+      }
+    );
+
+    trackingSessionsTable.grantReadWriteData(updateDriverLocationHandler);
+
+    updateDriverLocationHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['geo:CalculateRoute', 'geo:BatchPutGeofence'],
+        resources: [
+          this.routeCalculator.attrCalculatorArn,
+          this.geofenceCollection.attrCollectionArn,
+        ],
+      })
+    );
+
+    updateDriverLocationHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['events:PutEvents'],
+        resources: [eventBus.eventBusArn],
+      })
+    );
+
     // Stop Tracking Handler
     const stopTrackingHandler = new NodejsFunction(this, 'StopTrackingHandler', {
       ...commonLambdaProps,
@@ -315,6 +388,39 @@ export class TrackingStack extends cdk.Stack {
       })
     );
 
+    // Tracking watchdog: flags stale GPS, stalled and moving-away vendors
+    const checkTrackingSessionsHandler = new NodejsFunction(this, 'CheckTrackingSessionsHandler', {
+      ...commonLambdaProps,
+      entry: path.join(
+        __dirname,
+        '../../services/tracking-svc/src/handlers/check-tracking-sessions.ts'
+      ),
+      handler: 'handler',
+      functionName: `roadcall-check-tracking-sessions-${stage}`,
+      timeout: cdk.Duration.seconds(60),
+      environment: {
+        ...commonLambdaProps.environment,
+        CONFIG_TABLE_NAME: configTable.tableName,
+      },
+    });
+
+    trackingSessionsTable.grantReadWriteData(checkTrackingSessionsHandler);
+    vendorRoutesTable.grantReadData(checkTrackingSessionsHandler);
+    configTable.grantReadData(checkTrackingSessionsHandler);
+
+    checkTrackingSessionsHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['geo:CalculateRoute', 'events:PutEvents'],
+        resources: [this.routeCalculator.attrCalculatorArn, eventBus.eventBusArn],
+      })
+    );
+
+    new events.Rule(this, 'CheckTrackingSessionsSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      description: 'Check active tracking sessions for anomalies every minute',
+      targets: [new targets.LambdaFunction(checkTrackingSessionsHandler)],
+    });
+
     // ========================================================================
     // AppSync Data Sources
     // ========================================================================
@@ -329,6 +435,11 @@ export class TrackingStack extends cdk.Stack {
       updateVendorLocationHandler
     );
 
+    const updateDriverLocationDataSource = this.api.addLambdaDataSource(
+      'UpdateDriverLocationDataSource',
+      updateDriverLocationHandler
+    );
+
     const stopTrackingDataSource = this.api.addLambdaDataSource(
       'StopTrackingDataSource',
       stopTrackingHandler
@@ -366,6 +477,15 @@ export class TrackingStack extends cdk.Stack {
       },
     });
 
+    // Mutation: updateDriverLocation
+    updateDriverLocationDataSource.createResolver('UpdateDriverLocationResolver', {
+      typeName: 'Mutation',
+      fieldName: 'updateDriverLocation',
+      cachingConfig: {
+        ttl: cdk.Duration.seconds(0), // No caching for mutations
+      },
+    });
+
     // Mutation: stopTracking
     stopTrackingDataSource.createResolver('StopTrackingResolver', {
       typeName: 'Mutation',
@@ -393,6 +513,77 @@ export class TrackingStack extends cdk.Stack {
       },
     });
 
+    // ========================================================================
+    // REST API (dispatcher and admin tools, public tracking links)
+    // ========================================================================
+
+    // Signs public tracking links; notifications-svc signs, the public route verifies
+    const trackingLinkSecret = new secretsmanager.Secret(this, 'TrackingLinkSecret', {
+      secretName: `roadcall/tracking/${stage}/link-secret`,
+      description: 'HMAC secret for public tracking links',
+      generateSecretString: {
+        secretStringTemplate: JSON.stringify({}),
+        generateStringKey: 'secret',
+        excludePunctuation: true,
+        passwordLength: 64,
+      },
+    });
+    this.trackingLinkSecret = trackingLinkSecret;
+
+    const routes: RouteConfig[] = [
+      {
+        path: 'tracking/incidents/{id}/route',
+        method: 'GET',
+        handler: 'handlers/get-vendor-route.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 60,
+        description: 'Get the full vendor routes of an incident for replay',
+      },
+      {
+        path: 'tracking/anomalies',
+        method: 'GET',
+        handler: 'handlers/get-tracking-anomalies.handler',
+        requiresAuth: true,
+        rateLimitPerMinute: 60,
+        description: 'List active tracking sessions flagged by the watchdog',
+      },
+      {
+        path: 'tracking/public/{token}',
+        method: 'GET',
+        handler: 'handlers/get-public-tracking.handler',
+        requiresAuth: false,
+        rateLimitPerMinute: 30,
+        description: 'Vendor position, ETA and status behind a public tracking link',
+      },
+    ];
+
+    this.microserviceApi = new MicroserviceApi(this, 'TrackingMicroserviceApi', {
+      serviceName: 'tracking-svc',
+      stage,
+      api,
+      authorizer,
+      environment: {
+        TABLE_NAME: trackingSessionsTable.tableName,
+        VENDOR_ROUTES_TABLE_NAME: vendorRoutesTable.tableName,
+        INCIDENTS_TABLE_NAME: incidentsTable.tableName,
+        TRACKING_LINK_SECRET_NAME: trackingLinkSecret.secretName,
+      },
+      routes,
+    });
+
+    this.microserviceApi.functions.forEach((fn) => {
+      trackingSessionsTable.grantReadData(fn);
+    });
+
+    this.microserviceApi.grantFunctionPermissions('getTrackingIncidentsRoute', (fn) => {
+      vendorRoutesTable.grantReadData(fn);
+    });
+
+    this.microserviceApi.grantFunctionPermissions('getTrackingPublic', (fn) => {
+      incidentsTable.grantReadData(fn);
+      trackingLinkSecret.grantRead(fn);
+    });
+
     // ========================================================================
     // Outputs
     // ========================================================================
@@ -3,7 +3,12 @@ import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as elasticache from 'aws-cdk-lib/aws-elasticache';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
 import { Construct } from 'constructs';
+import * as path from 'path';
 import { MicroserviceApi, RouteConfig } from './constructs/microservice-api';
 
 export interface VendorStackProps extends cdk.StackProps {
@@ -11,6 +16,7 @@ export interface VendorStackProps extends cdk.StackProps {
   api: apigateway.RestApi;
   authorizer: apigateway.IAuthorizer;
   vendorsTable: dynamodb.ITable;
+  eventBus: events.IEventBus;
   vpc?: ec2.IVpc;
   redisCluster?: elasticache.CfnCacheCluster;
 }
@@ -21,7 +27,7 @@ export class VendorStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: VendorStackProps) {
     super(scope, id, props);
 
-    const { stage, api, authorizer, vendorsTable, redisCluster } = props;
+    const { stage, api, authorizer, vendorsTable, eventBus, redisCluster } = props;
     // vpc is available in props if needed for future VPC-specific configurations
 
     // Define routes for vendor service
@@ -142,6 +148,33 @@ export class VendorStack extends cdk.Stack {
       vendorsTable.grantReadWriteData(fn);
     });
 
+    // Keep vendor acceptance metrics in step with offer outcomes from match-svc
+    const offerOutcomeFn = new lambda.Function(this, 'OfferOutcomeFunction', {
+      functionName: `roadcall-vendor-svc-offer-outcome-${stage}`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../services/vendor-svc/dist')),
+      handler: 'handlers/offer-outcome-handler.handler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      logRetention: stage === 'prod' ? logs.RetentionDays.ONE_MONTH : logs.RetentionDays.ONE_WEEK,
+      tracing: lambda.Tracing.ACTIVE,
+      environment,
+      description: 'vendor-svc - record offer outcomes in vendor metrics',
+    });
+
+    vendorsTable.grantReadWriteData(offerOutcomeFn);
+
+    new events.Rule(this, 'OfferOutcomeRule', {
+      eventBus,
+      ruleName: `roadcall-vendor-offer-outcomes-${stage}`,
+      description: 'Route offer outcomes to vendor metrics',
+      eventPattern: {
+        source: ['roadcall.match-service'],
+        detailType: ['OfferAccepted', 'OfferDeclined', 'OfferExpired'],
+      },
+      targets: [new targets.LambdaFunction(offerOutcomeFn, { retryAttempts: 3 })],
+    });
+
     // Tag all resources
     cdk.Tags.of(this).add('Stack', 'Vendor');
   }
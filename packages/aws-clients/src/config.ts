@@ -0,0 +1,340 @@
+// Runtime configuration reader for admin-config-svc managed settings
+
+import {
+  ConfigSnapshot,
+  CounterOfferRules,
+  DispatchStrategy,
+  GeofenceConfig,
+  IncidentTypeCatalogue,
+  IncidentTypeDefinition,
+  InvoicingRules,
+  LifecycleTimeouts,
+  MatchingConfig,
+  PricingConfig,
+  SLAConfig,
+  SLATier,
+  TrackingWatchdogConfig,
+} from '@roadcall/types';
+import { logger } from '@roadcall/utils';
+import { dynamodb } from './dynamodb';
+
+const DEFAULT_TTL_MS = 60000; // 60 seconds
+
+export const ConfigKeys = {
+  MATCHING: 'matching',
+  SLA_TIERS: 'sla-tiers',
+  PRICING: 'pricing',
+  GEOFENCES: 'geofences',
+  INCIDENT_TYPES: 'incident-types',
+  TRACKING: 'tracking',
+} as const;
+
+// Offers go to the top vendors simultaneously unless an SLA tier says otherwise
+export const DEFAULT_DISPATCH_STRATEGY: DispatchStrategy = {
+  mode: 'broadcast',
+  cascadeOfferTimeoutSeconds: 45,
+  cascadeDepth: 0,
+};
+
+// Lifecycle waits used when no SLA tier is configured
+export const DEFAULT_LIFECYCLE_TIMEOUTS: LifecycleTimeouts = {
+  arrivalCheckSeconds: 300,
+  arrivalTimeoutMinutes: 30,
+  workCompletionSeconds: 24 * 60 * 60,
+  paymentApprovalSeconds: 7 * 24 * 60 * 60,
+  dispatcherAssignmentSeconds: 7 * 24 * 60 * 60,
+};
+
+// SLA deadlines are at risk once this share of their window has passed
+export const DEFAULT_SLA_AT_RISK_PERCENT = 80;
+
+// Matching for a booked service window starts this long before the window opens
+export const DEFAULT_SCHEDULED_MATCH_LEAD_MINUTES = 120;
+
+// Tracking watchdog thresholds used until admin-config-svc publishes them
+export const DEFAULT_TRACKING_WATCHDOG_CONFIG: TrackingWatchdogConfig = {
+  staleGpsMinutes: 5,
+  stalledMinutes: 10,
+  stalledRadiusMeters: 100,
+  stalledMinDistanceMiles: 0.5,
+  movingAwayMinutes: 5,
+  movingAwayMinIncreaseMiles: 0.5,
+};
+
+// Small increases are accepted automatically; larger ones need a dispatcher
+export const DEFAULT_COUNTER_OFFER_RULES: CounterOfferRules = {
+  enabled: true,
+  autoAcceptWithinPercent: 10,
+  maxAboveEstimatePercent: 100,
+  approvalTimeoutSeconds: 900, // 15 minutes
+};
+
+// Untaxed, net 30 until pricing config sets invoicing rules
+export const DEFAULT_INVOICING_RULES: InvoicingRules = {
+  taxes: [],
+  paymentTermsDays: 30,
+};
+
+// Served until admin-config-svc publishes an incident-type catalogue
+export const DEFAULT_INCIDENT_TYPES: IncidentTypeDefinition[] = [
+  {
+    key: 'tire',
+    label: 'Tire Issue',
+    description: 'Flat tire, blowout, or tire damage',
+    requiredCapabilities: ['tire_repair', 'tire_replacement'],
+    basePriceCents: 15000,
+    defaultSlaTier: 'Standard',
+    ivrDigit: '1',
+    active: true,
+  },
+  {
+    key: 'engine',
+    label: 'Engine Problem',
+    description: 'Engine failure, overheating, or mechanical issues',
+    requiredCapabilities: ['engine_repair'],
+    basePriceCents: 20000,
+    defaultSlaTier: 'Standard',
+    ivrDigit: '2',
+    active: true,
+  },
+  {
+    key: 'tow',
+    label: 'Towing Needed',
+    description: 'Vehicle needs to be towed',
+    requiredCapabilities: ['towing'],
+    basePriceCents: 25000,
+    defaultSlaTier: 'Standard',
+    ivrDigit: '3',
+    active: true,
+  },
+  {
+    key: 'jumpstart',
+    label: 'Dead Battery',
+    description: 'Battery is flat and the vehicle needs a jump start',
+    requiredCapabilities: ['jumpstart'],
+    basePriceCents: 7500,
+    defaultSlaTier: 'Standard',
+    ivrDigit: '4',
+    active: true,
+  },
+  {
+    key: 'fuel_delivery',
+    label: 'Out of Fuel',
+    description: 'Vehicle has run out of fuel',
+    requiredCapabilities: ['fuel_delivery'],
+    basePriceCents: 9000,
+    defaultSlaTier: 'Standard',
+    ivrDigit: '5',
+    active: true,
+  },
+];
+
+/**
+ * Find an incident type in a catalogue by key
+ */
+export function findIncidentType(
+  types: IncidentTypeDefinition[],
+  key: string
+): IncidentTypeDefinition | undefined {
+  return types.find((type) => type.key === key);
+}
+
+interface CachedConfig {
+  snapshot: ConfigSnapshot<unknown>;
+  fetchedAt: number;
+}
+
+interface SystemConfigItem {
+  configKey: string;
+  version: number;
+  value: unknown;
+}
+
+/**
+ * Reads the latest version of a configuration key from the admin config table.
+ * Values are cached per Lambda container for the TTL so that changes made in
+ * admin-config-svc are picked up within a minute without a redeploy.
+ */
+export class ConfigStore {
+  private cache: Map<string, CachedConfig> = new Map();
+
+  constructor(
+    private tableName: string = process.env.CONFIG_TABLE_NAME || '',
+    private ttlMs: number = DEFAULT_TTL_MS
+  ) {}
+
+  async getLatest<T>(configKey: string): Promise<ConfigSnapshot<T> | null> {
+    const cached = this.cache.get(configKey);
+    const now = Date.now();
+
+    if (cached && now - cached.fetchedAt < this.ttlMs) {
+      return cached.snapshot as ConfigSnapshot<T>;
+    }
+
+    if (!this.tableName) {
+      return null;
+    }
+
+    try {
+      const items = await dynamodb.query<SystemConfigItem>(
+        this.tableName,
+        'configKey = :configKey AND isLatest = :isLatest',
+        { ':configKey': configKey, ':isLatest': 'true' },
+        'latest-version-index',
+        1
+      );
+
+      if (items.length === 0) {
+        return null;
+      }
+
+      const snapshot: ConfigSnapshot<T> = {
+        value: items[0].value as T,
+        version: items[0].version,
+      };
+      this.cache.set(configKey, { snapshot, fetchedAt: now });
+
+      return snapshot;
+    } catch (error) {
+      // Serve the expired value rather than failing the caller
+      if (cached) {
+        logger.warn('Using expired config cache', { configKey, version: cached.snapshot.version });
+        return cached.snapshot as ConfigSnapshot<T>;
+      }
+
+      logger.error('Config fetch error', error as Error, { configKey });
+      return null;
+    }
+  }
+
+  async getMatchingConfig(): Promise<ConfigSnapshot<MatchingConfig> | null> {
+    return this.getLatest<MatchingConfig>(ConfigKeys.MATCHING);
+  }
+
+  async getScheduledMatchLeadMinutes(): Promise<number> {
+    const snapshot = await this.getMatchingConfig();
+    return snapshot?.value.scheduledMatchLeadMinutes ?? DEFAULT_SCHEDULED_MATCH_LEAD_MINUTES;
+  }
+
+  async getSLAConfig(): Promise<ConfigSnapshot<SLAConfig> | null> {
+    return this.getLatest<SLAConfig>(ConfigKeys.SLA_TIERS);
+  }
+
+  /**
+   * Get an SLA tier by name, falling back to the default tier
+   */
+  async getSLATier(slaTier?: string): Promise<SLATier | undefined> {
+    const snapshot = await this.getSLAConfig();
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const tierName = slaTier || snapshot.value.defaultTier;
+    return snapshot.value.tiers.find((t) => t.name === tierName);
+  }
+
+  /**
+   * Get the SLA tier a fleet company's contract gives its incidents
+   */
+  async getContractTier(companyId: string): Promise<SLATier | undefined> {
+    const snapshot = await this.getSLAConfig();
+    const contract = snapshot?.value.contracts?.find((c) => c.companyId === companyId);
+    if (!contract) {
+      return undefined;
+    }
+
+    return snapshot?.value.tiers.find((t) => t.name === contract.tier);
+  }
+
+  async getSlaAtRiskPercent(): Promise<number> {
+    const snapshot = await this.getSLAConfig();
+    return snapshot?.value.atRiskPercent ?? DEFAULT_SLA_AT_RISK_PERCENT;
+  }
+
+  /**
+   * Get the offer dispatch strategy for an SLA tier, falling back to the
+   * default tier and then to broadcast
+   */
+  async getDispatchStrategy(slaTier?: string): Promise<DispatchStrategy> {
+    const tier = await this.getSLATier(slaTier);
+    return { ...DEFAULT_DISPATCH_STRATEGY, ...tier?.dispatch };
+  }
+
+  /**
+   * Get the incident lifecycle waits for an SLA tier. Vendors get the tier's
+   * arrival time to arrive; the other waits come from the tier's overrides.
+   */
+  async getLifecycleTimeouts(slaTier?: string): Promise<LifecycleTimeouts> {
+    const tier = await this.getSLATier(slaTier);
+    if (!tier) {
+      return DEFAULT_LIFECYCLE_TIMEOUTS;
+    }
+
+    return {
+      ...DEFAULT_LIFECYCLE_TIMEOUTS,
+      arrivalTimeoutMinutes: tier.arrivalTimeMinutes,
+      ...tier.lifecycle,
+    };
+  }
+
+  async getPricingConfig(): Promise<ConfigSnapshot<PricingConfig> | null> {
+    return this.getLatest<PricingConfig>(ConfigKeys.PRICING);
+  }
+
+  /**
+   * Get the vendor counter-offer rules, falling back to the defaults
+   */
+  async getCounterOfferRules(): Promise<CounterOfferRules> {
+    const snapshot = await this.getPricingConfig();
+    return { ...DEFAULT_COUNTER_OFFER_RULES, ...snapshot?.value.counterOffers };
+  }
+
+  /**
+   * Get the fleet company invoicing rules, falling back to the defaults
+   */
+  async getInvoicingRules(): Promise<InvoicingRules> {
+    const snapshot = await this.getPricingConfig();
+    return { ...DEFAULT_INVOICING_RULES, ...snapshot?.value.invoicing };
+  }
+
+  /**
+   * Get active geofences. admin-config-svc stores every geofence under a
+   * single key as `{ geofences: GeofenceConfig[] }`.
+   */
+  async getGeofences(): Promise<GeofenceConfig[]> {
+    const snapshot = await this.getLatest<{ geofences?: GeofenceConfig[] }>(ConfigKeys.GEOFENCES);
+    return (snapshot?.value.geofences || []).filter((geofence) => geofence.active);
+  }
+
+  /**
+   * Get the incident-type catalogue, including inactive types so existing
+   * incidents still resolve. Falls back to the built-in catalogue.
+   */
+  async getIncidentTypes(): Promise<IncidentTypeDefinition[]> {
+    const snapshot = await this.getLatest<IncidentTypeCatalogue>(ConfigKeys.INCIDENT_TYPES);
+    return snapshot?.value.types || DEFAULT_INCIDENT_TYPES;
+  }
+
+  async getIncidentType(key: string): Promise<IncidentTypeDefinition | undefined> {
+    return findIncidentType(await this.getIncidentTypes(), key);
+  }
+
+  /**
+   * Get the tracking watchdog thresholds, falling back to the defaults
+   */
+  async getTrackingWatchdogConfig(): Promise<TrackingWatchdogConfig> {
+    const snapshot = await this.getLatest<TrackingWatchdogConfig>(ConfigKeys.TRACKING);
+    return { ...DEFAULT_TRACKING_WATCHDOG_CONFIG, ...snapshot?.value };
+  }
+
+  invalidate(configKey?: string): void {
+    if (configKey) {
+      this.cache.delete(configKey);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+// Singleton instance
+export const configStore = new ConfigStore();
@@ -14,6 +14,25 @@ import {
 } from '@aws-sdk/lib-dynamodb';
 import { logger } from '@roadcall/utils';
 
+/**
+ * Structured update for `updateItem`. Each map is keyed by attribute name.
+ * - `set`: overwrite the attribute
+ * - `append`: append to a list attribute atomically, creating it if missing
+ * - `increment`: add to a numeric attribute, treating a missing one as 0
+ * - `remove`: delete the attributes
+ * - `expect`: only write if each attribute currently equals the value, or does
+ *   not exist when the value is `undefined`
+ */
+export interface ItemUpdate {
+  set?: Record<string, unknown>;
+  append?: Record<string, unknown[]>;
+  increment?: Record<string, number>;
+  remove?: string[];
+  expect?: Record<string, unknown>;
+}
+
+const BATCH_GET_MAX_ATTEMPTS = 5;
+
 export class DynamoDBWrapper {
   private client: DynamoDBDocumentClient;
 
@@ -97,6 +116,81 @@ export class DynamoDBWrapper {
     }
   }
 
+  /**
+   * Apply a structured update in a single UpdateItem call. A failed `expect`
+   * rejects with ConditionalCheckFailedException so callers can detect
+   * concurrent writes.
+   */
+  async updateItem(
+    tableName: string,
+    key: Record<string, unknown>,
+    update: ItemUpdate
+  ): Promise<void> {
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+    const assignments: string[] = [];
+    const removals: string[] = [];
+    const conditions: string[] = [];
+
+    Object.entries(update.set || {}).forEach(([attr, value], i) => {
+      names[`#s${i}`] = attr;
+      values[`:s${i}`] = value;
+      assignments.push(`#s${i} = :s${i}`);
+    });
+
+    Object.entries(update.append || {}).forEach(([attr, items], i) => {
+      names[`#a${i}`] = attr;
+      values[`:a${i}`] = items;
+      values[':emptyList'] = [];
+      assignments.push(`#a${i} = list_append(if_not_exists(#a${i}, :emptyList), :a${i})`);
+    });
+
+    Object.entries(update.increment || {}).forEach(([attr, amount], i) => {
+      names[`#i${i}`] = attr;
+      values[`:i${i}`] = amount;
+      values[':zero'] = 0;
+      assignments.push(`#i${i} = if_not_exists(#i${i}, :zero) + :i${i}`);
+    });
+
+    (update.remove || []).forEach((attr, i) => {
+      names[`#r${i}`] = attr;
+      removals.push(`#r${i}`);
+    });
+
+    Object.entries(update.expect || {}).forEach(([attr, value], i) => {
+      names[`#e${i}`] = attr;
+      if (value === undefined) {
+        conditions.push(`attribute_not_exists(#e${i})`);
+      } else {
+        values[`:e${i}`] = value;
+        conditions.push(`#e${i} = :e${i}`);
+      }
+    });
+
+    try {
+      await this.client.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: key,
+          UpdateExpression: [
+            assignments.length > 0 ? `SET ${assignments.join(', ')}` : '',
+            removals.length > 0 ? `REMOVE ${removals.join(', ')}` : '',
+          ]
+            .filter(Boolean)
+            .join(' '),
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+          ConditionExpression: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+        })
+      );
+    } catch (error) {
+      if ((error as Error).name !== 'ConditionalCheckFailedException') {
+        logger.error('DynamoDB updateItem error', error as Error, { tableName, key });
+      }
+      throw error;
+    }
+  }
+
   async delete(tableName: string, key: Record<string, unknown>): Promise<void> {
     try {
       await this.client.send(
@@ -116,13 +210,15 @@ export class DynamoDBWrapper {
     keyCondition: string,
     expressionAttributeValues: Record<string, unknown>,
     indexName?: string,
-    limit?: number
+    limit?: number,
+    expressionAttributeNames?: Record<string, string>
   ): Promise<T[]> {
     try {
       const result = await this.client.send(
         new QueryCommand({
           TableName: tableName,
           KeyConditionExpression: keyCondition,
+          ExpressionAttributeNames: expressionAttributeNames,
           ExpressionAttributeValues: expressionAttributeValues,
           IndexName: indexName,
           Limit: limit,
@@ -136,6 +232,43 @@ export class DynamoDBWrapper {
     }
   }
 
+  /**
+   * Query every page of results, following LastEvaluatedKey
+   */
+  async queryAll<T>(
+    tableName: string,
+    keyCondition: string,
+    expressionAttributeValues: Record<string, unknown>,
+    indexName?: string,
+    expressionAttributeNames?: Record<string, string>
+  ): Promise<T[]> {
+    try {
+      const items: T[] = [];
+      let startKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.client.send(
+          new QueryCommand({
+            TableName: tableName,
+            KeyConditionExpression: keyCondition,
+            ExpressionAttributeNames: expressionAttributeNames,
+            ExpressionAttributeValues: expressionAttributeValues,
+            IndexName: indexName,
+            ExclusiveStartKey: startKey,
+          })
+        );
+
+        items.push(...((result.Items as T[]) || []));
+        startKey = result.LastEvaluatedKey;
+      } while (startKey);
+
+      return items;
+    } catch (error) {
+      logger.error('DynamoDB query error', error as Error, { tableName, indexName });
+      throw error;
+    }
+  }
+
   async scan<T>(tableName: string, limit?: number): Promise<T[]> {
     try {
       const result = await this.client.send(
@@ -152,19 +285,66 @@ export class DynamoDBWrapper {
     }
   }
 
+  /**
+   * Scan every page of a table
+   */
+  async scanAll<T>(tableName: string): Promise<T[]> {
+    try {
+      const items: T[] = [];
+      let startKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.client.send(
+          new ScanCommand({
+            TableName: tableName,
+            ExclusiveStartKey: startKey,
+          })
+        );
+
+        items.push(...((result.Items as T[]) || []));
+        startKey = result.LastEvaluatedKey;
+      } while (startKey);
+
+      return items;
+    } catch (error) {
+      logger.error('DynamoDB scan error', error as Error, { tableName });
+      throw error;
+    }
+  }
+
+  /**
+   * Get up to 100 items by key. Keys DynamoDB leaves unprocessed under
+   * throttling are retried with backoff; any still unprocessed after the last
+   * attempt fail the call rather than being dropped.
+   */
   async batchGet<T>(tableName: string, keys: Record<string, unknown>[]): Promise<T[]> {
     try {
-      const result = await this.client.send(
-        new BatchGetCommand({
-          RequestItems: {
-            [tableName]: {
-              Keys: keys,
+      const items: T[] = [];
+      let pending: Record<string, unknown>[] = keys;
+
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        if (attempt === BATCH_GET_MAX_ATTEMPTS) {
+          throw new Error(`${pending.length} keys left unprocessed by BatchGetItem`);
+        }
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+
+        const result = await this.client.send(
+          new BatchGetCommand({
+            RequestItems: {
+              [tableName]: {
+                Keys: pending,
+              },
             },
-          },
-        })
-      );
+          })
+        );
+
+        items.push(...((result.Responses?.[tableName] as T[]) || []));
+        pending = result.UnprocessedKeys?.[tableName]?.Keys || [];
+      }
 
-      return (result.Responses?.[tableName] as T[]) || [];
+      return items;
     } catch (error) {
       logger.error('DynamoDB batchGet error', error as Error, { tableName });
       throw error;
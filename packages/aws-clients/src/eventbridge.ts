@@ -88,10 +88,14 @@ export const EventTypes = {
   INCIDENT_CREATED: 'IncidentCreated',
   INCIDENT_STATUS_CHANGED: 'IncidentStatusChanged',
   INCIDENT_ESCALATED: 'IncidentEscalated',
+  SLA_AT_RISK: 'SlaAtRisk',
+  SLA_BREACHED: 'SlaBreached',
   MATCH_REQUESTED: 'MatchRequested',
   OFFER_CREATED: 'OfferCreated',
   OFFER_ACCEPTED: 'OfferAccepted',
   OFFER_DECLINED: 'OfferDeclined',
+  OFFER_EXPIRED: 'OfferExpired',
+  OFFER_COUNTERED: 'OfferCountered',
   VENDOR_ASSIGNED: 'VendorAssigned',
   VENDOR_ARRIVED: 'VendorArrived',
   VENDOR_TIMEOUT: 'VendorTimeout',
@@ -4,3 +4,4 @@ export * from './dynamodb';
 export * from './s3';
 export * from './eventbridge';
 export * from './secrets';
+export * from './config';
@@ -25,7 +25,7 @@ export interface BaseEventDetail {
 export interface IncidentCreatedDetail extends BaseEventDetail {
   incidentId: string;
   driverId: string;
-  type: 'tire' | 'engine' | 'tow';
+  type: string; // Incident-type catalogue key
   location: {
     lat: number;
     lon: number;
@@ -34,6 +34,10 @@ export interface IncidentCreatedDetail extends BaseEventDetail {
   phone: string;
   companyId?: string;
   priority: 'low' | 'normal' | 'high' | 'critical';
+  parentIncidentId?: string; // Set when the incident is a follow-up leg
+  legNumber?: number;
+  serviceWindow?: { start: string; end: string }; // Set on scheduled incidents
+  matchingStartsAt?: string; // Scheduled incidents are matched from this time
 }
 
 export interface IncidentStatusChangedDetail extends BaseEventDetail {
@@ -67,6 +71,29 @@ export interface IncidentEscalatedDetail extends BaseEventDetail {
   reason: string;
   attempts: number;
   escalatedTo: string;
+  previousStatus?: string; // Status the incident stalled at
+}
+
+export interface SlaAtRiskDetail extends BaseEventDetail {
+  incidentId: string;
+  companyId?: string;
+  slaTier: string;
+  deadline: 'response' | 'arrival';
+  deadlineAt: string;
+  minutesRemaining: number;
+  status: string; // Incident status when the risk was detected
+  vendorId?: string;
+}
+
+export interface SlaBreachedDetail extends BaseEventDetail {
+  incidentId: string;
+  companyId?: string;
+  slaTier: string;
+  deadline: 'response' | 'arrival';
+  deadlineAt: string;
+  minutesLate: number; // Past the deadline when the breach was detected
+  status: string;
+  vendorId?: string;
 }
 
 // ============================================================================
@@ -125,6 +152,8 @@ export interface OfferCreatedDetail extends BaseEventDetail {
   estimatedPayout: number;
   expiresAt: string;
   attempt: number;
+  configVersion?: number;
+  serviceWindow?: { start: string; end: string }; // When the vendor is booked for
 }
 
 export interface OfferAcceptedDetail extends BaseEventDetail {
@@ -133,6 +162,8 @@ export interface OfferAcceptedDetail extends BaseEventDetail {
   vendorId: string;
   driverId: string;
   acceptedAt: string;
+  agreedPayout?: number; // Cents; differs from the estimate after a counter-offer
+  negotiated?: boolean;
 }
 
 export interface OfferDeclinedDetail extends BaseEventDetail {
@@ -143,11 +174,25 @@ export interface OfferDeclinedDetail extends BaseEventDetail {
   declinedAt: string;
 }
 
+export interface OfferCounteredDetail extends BaseEventDetail {
+  offerId: string;
+  incidentId: string;
+  vendorId: string;
+  estimatedPayout: number;
+  proposedPayout: number;
+  etaMinutes?: number;
+  note?: string;
+  requiresApproval: boolean;
+  counteredAt: string;
+}
+
 export interface OfferExpiredDetail extends BaseEventDetail {
   offerId: string;
   incidentId: string;
   vendorId: string;
   expiredAt: string;
+  dispatchMode?: 'broadcast' | 'cascade';
+  dispatchRound?: number;
 }
 
 // ============================================================================
@@ -183,6 +228,37 @@ export interface TrackingUpdatedDetail extends BaseEventDetail {
   };
 }
 
+export interface DriverLocationUpdatedDetail extends BaseEventDetail {
+  sessionId: string;
+  incidentId: string;
+  driverId: string;
+  vendorId: string;
+  location: {
+    lat: number;
+    lon: number;
+  };
+  distanceMovedMeters: number;
+  eta: {
+    minutes: number;
+    distance: number;
+  };
+}
+
+export interface TrackingAnomalyDetectedDetail extends BaseEventDetail {
+  sessionId: string;
+  incidentId: string;
+  driverId: string;
+  vendorId: string;
+  anomaly: 'stale_gps' | 'stalled' | 'moving_away';
+  lastFixAt: string; // Vendor's last reported location
+  distanceToIncidentMiles: number; // As of the last fix
+  eta?: {
+    // Recalculated from the last fix; absent when the vendor's location is stale
+    minutes: number;
+    arrivalTime: string;
+  };
+}
+
 export interface TrackingStoppedDetail extends BaseEventDetail {
   sessionId: string;
   incidentId: string;
@@ -201,14 +277,35 @@ export interface WorkStartedDetail extends BaseEventDetail {
   startedAt: string;
 }
 
+export interface WorkCompletedPricing {
+  basePrice: number;
+  mileageCharge: number;
+  additionalCharges?: Array<{
+    description: string;
+    amount: number;
+  }>;
+  negotiatedPrice?: number; // Cents; replaces base price and mileage when the vendor countered
+  // Cents the SLA tier's pricing multiplier added on top of the base price
+  slaPremium?: { tier: string; multiplier: number; amount: number };
+}
+
 export interface WorkCompletedDetail extends BaseEventDetail {
   incidentId: string;
+  parentIncidentId?: string; // Set when the work was a follow-up leg
+  legNumber?: number;
   vendorId: string;
   driverId: string;
   completedAt: string;
   duration: number;
   notes?: string;
   mediaUrls?: string[];
+  workDetails?: {
+    notes: string;
+    photos: string[];
+    serviceType: string;
+    duration: number;
+  };
+  pricing?: WorkCompletedPricing;
 }
 
 // ============================================================================
@@ -260,6 +357,28 @@ export interface PaymentFlaggedDetail extends BaseEventDetail {
   flaggedAt: string;
 }
 
+export interface PaymentRefundedDetail extends BaseEventDetail {
+  paymentId: string;
+  incidentId: string;
+  vendorId: string;
+  refundId: string;
+  source: 'refund' | 'transfer_reversal' | 'dispute';
+  amountCents: number; // This refund only
+  fullyRefunded: boolean;
+  reason?: string;
+}
+
+export interface PaymentDisputedDetail extends BaseEventDetail {
+  paymentId: string;
+  incidentId: string;
+  vendorId: string;
+  stripeDisputeId: string;
+  amountCents: number;
+  reason?: string;
+  status: string; // Stripe dispute status
+  evidenceDueBy?: string;
+}
+
 // ============================================================================
 // Call Events
 // ============================================================================
@@ -344,6 +463,8 @@ export const EventTypes = {
   INCIDENT_ASSIGNED: 'IncidentAssigned',
   INCIDENT_CANCELLED: 'IncidentCancelled',
   INCIDENT_ESCALATED: 'IncidentEscalated',
+  SLA_AT_RISK: 'SlaAtRisk',
+  SLA_BREACHED: 'SlaBreached',
 
   // Vendor events
   VENDOR_REGISTERED: 'VendorRegistered',
@@ -356,11 +477,14 @@ export const EventTypes = {
   OFFER_ACCEPTED: 'OfferAccepted',
   OFFER_DECLINED: 'OfferDeclined',
   OFFER_EXPIRED: 'OfferExpired',
+  OFFER_COUNTERED: 'OfferCountered',
 
   // Tracking events
   TRACKING_STARTED: 'TrackingStarted',
   TRACKING_UPDATED: 'TrackingUpdated',
   TRACKING_STOPPED: 'TrackingStopped',
+  DRIVER_LOCATION_UPDATED: 'DriverLocationUpdated',
+  TRACKING_ANOMALY_DETECTED: 'TrackingAnomalyDetected',
 
   // Work events
   WORK_STARTED: 'WorkStarted',
@@ -372,6 +496,8 @@ export const EventTypes = {
   PAYMENT_COMPLETED: 'PaymentCompleted',
   PAYMENT_FAILED: 'PaymentFailed',
   PAYMENT_FLAGGED: 'PaymentFlagged',
+  PAYMENT_REFUNDED: 'PaymentRefunded',
+  PAYMENT_DISPUTED: 'PaymentDisputed',
 
   // Call events
   CALL_STARTED: 'CallStarted',
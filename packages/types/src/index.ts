@@ -29,7 +29,8 @@ export interface OTPSession {
 // Incident Types
 // ============================================================================
 
-export type IncidentType = 'tire' | 'engine' | 'tow';
+// Key of an entry in the admin-config incident-type catalogue ('tire', 'jumpstart', ...)
+export type IncidentType = string;
 
 export type IncidentStatus =
   | 'created'
@@ -40,7 +41,9 @@ export type IncidentStatus =
   | 'work_completed'
   | 'payment_pending'
   | 'closed'
-  | 'cancelled';
+  | 'cancelled'
+  | 'escalated' // Needs a dispatcher: no vendor found, or the lifecycle stalled
+  | 'reassigning'; // Assigned vendor dropped out, matching a replacement
 
 export interface Location {
   lat: number;
@@ -66,6 +69,12 @@ export interface IncidentLocation {
   roadSnapped: { lat: number; lon: number };
 }
 
+// Pre-booked service window, e.g. a tire replacement at a truck stop tomorrow 6-8am
+export interface ServiceWindow {
+  start: string; // ISO timestamp
+  end: string;
+}
+
 export interface WeatherCondition {
   condition: string;
   temperature: number;
@@ -78,6 +87,18 @@ export interface StateTransition {
   timestamp: string;
   actor: string;
   reason?: string;
+  leg?: number; // Set on a parent incident's entries mirrored from a follow-up leg
+  legIncidentId?: string;
+}
+
+// A follow-up job spawned from an incident, e.g. a tow after a failed roadside repair
+export interface IncidentLeg {
+  incidentId: string;
+  legNumber: number;
+  type: IncidentType;
+  reason: string;
+  requestedBy: string;
+  requestedAt: string;
 }
 
 export interface MediaArtifact {
@@ -89,21 +110,70 @@ export interface MediaArtifact {
   metadata?: Record<string, unknown>;
 }
 
+export interface IncidentEscalation {
+  reason: string;
+  escalatedAt: string;
+  previousStatus: IncidentStatus; // Status a dispatcher can resume the incident at
+  attempts?: number; // Matching attempts made before escalating
+  claimedBy?: string; // Dispatcher who owns the escalation
+  claimedAt?: string;
+}
+
+export interface IncidentLifecycleWait {
+  detailType: 'WorkCompletionWait' | 'PaymentApprovalWait' | 'DispatcherAssignmentWait'; // Lifecycle state that is waiting
+  taskToken: string; // Step Functions token that resumes it
+  since: string;
+}
+
+export type SlaDeadline = 'response' | 'arrival';
+
+// What picked an incident's SLA tier, highest precedence first
+export type SlaTierSource = 'dispatcher' | 'contract' | 'incident_type' | 'default';
+
+export interface IncidentSla {
+  tier: string;
+  source: SlaTierSource;
+  pricingMultiplier: number; // Tier multiplier applied to offer payouts
+  clockStartsAt: string; // Creation, or when the service window opens on scheduled incidents
+  responseDeadline: string; // A vendor must be assigned by then
+  arrivalDeadline: string; // The vendor must be on site by then
+  respondedAt?: string; // First vendor assignment
+  arrivedAt?: string;
+  atRisk?: SlaDeadline[]; // Deadlines SlaAtRisk has been published for
+  breached?: SlaDeadline[]; // Deadlines SlaBreached has been published for
+  overriddenBy?: string; // Dispatcher who set the tier
+}
+
 export interface Incident {
   incidentId: string;
   driverId: string;
+  companyId?: string; // Driver's fleet company, whose SLA contract sets the tier
   type: IncidentType;
   status: IncidentStatus;
   location: IncidentLocation;
   weather?: WeatherCondition;
+  slaTier?: string; // SLA tier name, defaults to the admin-config default tier
+  sla?: IncidentSla; // Tier deadlines and breaches; absent on legacy records
   assignedVendorId?: string;
+  dispatch?: IncidentDispatchState;
+  escalation?: IncidentEscalation; // Latest escalation, kept after it is resolved
+  agreedPayout?: IncidentAgreedPayout; // Price the assigned vendor accepted
   createdAt: string;
   updatedAt: string;
+  version?: number; // Bumped on every status, assignment and timeline write; absent on legacy records
   timeline: StateTransition[];
   media: MediaArtifact[];
   callRecordingUrl?: string;
   transcriptId?: string;
   summaryId?: string;
+  parentIncidentId?: string; // Set on follow-up legs, points at the original incident
+  legNumber?: number; // 2 and up on follow-up legs, absent on the original incident
+  followUps?: IncidentLeg[]; // Follow-up legs requested on the original incident
+  destination?: { lat: number; lon: number; address?: string }; // Where a tow delivers to
+  serviceWindow?: ServiceWindow; // Set on scheduled incidents, absent for "now" incidents
+  matchingStartsAt?: string; // Scheduled incidents: the configured lead time before the window
+  lifecycleWait?: IncidentLifecycleWait; // Set while the lifecycle waits on work, payment or a dispatcher
+  etaPrediction?: IncidentEtaPrediction; // Set when tracking starts
 }
 
 // ============================================================================
@@ -137,11 +207,23 @@ export interface VendorRating {
   count: number;
 }
 
+export type OfferOutcome = 'accepted' | 'declined' | 'expired';
+
+export interface VendorOfferOutcomes {
+  // Counts over the rolling window of recent offers
+  accepted: number;
+  declined: number;
+  expired: number;
+  recent: OfferOutcome[]; // Most recent outcomes, oldest first
+  offerIds?: string[]; // Offers already counted, so redelivered events are skipped
+}
+
 export interface VendorMetrics {
-  acceptanceRate: number;
+  acceptanceRate: number; // Accepted share of offers in the rolling window
   avgResponseTime: number;
   completionRate: number;
   totalJobs: number;
+  offerOutcomes?: VendorOfferOutcomes;
 }
 
 export interface VendorPricing {
@@ -163,6 +245,7 @@ export interface Vendor {
   operatingHours: {
     [day: string]: { open: string; close: string };
   };
+  timezone?: string; // IANA timezone operatingHours are expressed in; estimated from coverageArea when missing
   rating: VendorRating;
   metrics: VendorMetrics;
   pricing: VendorPricing;
@@ -177,7 +260,77 @@ export interface Vendor {
 // Offer Types
 // ============================================================================
 
-export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+export type OfferStatus =
+  | 'pending'
+  | 'countered' // Vendor proposed a different price, awaiting dispatcher approval
+  | 'accepted'
+  | 'declined'
+  | 'expired'
+  | 'cancelled';
+
+export type CounterOfferStatus = 'pending_approval' | 'approved' | 'rejected';
+
+export interface CounterOffer {
+  proposedPayout: number; // Cents
+  etaMinutes?: number;
+  note?: string;
+  status: CounterOfferStatus;
+  autoAccepted: boolean; // Within the pricing config's auto-accept band
+  proposedAt: string;
+  decidedAt?: string;
+  decidedBy?: string; // Dispatcher who approved or rejected
+  rejectionReason?: string;
+}
+
+export interface IncidentAgreedPayout {
+  offerId: string;
+  amountCents: number;
+  estimatedCents: number; // Offer's estimated payout before negotiation
+  negotiated: boolean;
+  etaMinutes?: number;
+  agreedAt: string;
+  slaTier?: string; // Tier whose multiplier the estimate included
+  pricingMultiplier?: number;
+}
+
+export type DispatchMode = 'broadcast' | 'cascade' | 'hybrid';
+
+// How a single round of offers was sent: to several vendors at once or to one
+export type DispatchStepMode = 'broadcast' | 'cascade';
+
+export interface DispatchStrategy {
+  mode: DispatchMode;
+  cascadeOfferTimeoutSeconds: number; // Offer TTL for one-at-a-time offers
+  cascadeDepth: number; // hybrid: vendors offered one at a time before broadcasting
+}
+
+/**
+ * Progress of offer dispatch for an incident, written by match-svc and read
+ * by the incident state machine to decide whether to keep waiting
+ */
+export interface IncidentDispatchState {
+  mode: DispatchMode;
+  attempt: number; // Radius expansion attempt
+  radiusMiles: number;
+  round: number; // Offer rounds sent for the incident across all attempts
+  step: number; // Offer rounds sent in this attempt
+  stepMode: DispatchStepMode;
+  status: 'in_progress' | 'exhausted';
+  offerIds: string[]; // Offers sent in the current round
+  offeredVendorIds: string[]; // Every vendor offered the incident so far
+  expiresAt: number; // When the current round's offers expire (epoch seconds)
+  updatedAt: string;
+}
+
+export type MatchExclusionReason =
+  | 'outside_operating_hours'
+  | 'outside_coverage_radius'
+  | 'outside_geofence';
+
+export interface MatchExclusion {
+  reason: MatchExclusionReason;
+  detail: string;
+}
 
 export interface MatchScoreBreakdown {
   distance: number;
@@ -185,6 +338,9 @@ export interface MatchScoreBreakdown {
   availability: number;
   acceptanceRate: number;
   rating: number;
+  driveMinutes: number; // Estimated drive time from the vendor's position
+  distanceMiles: number; // Road distance from the vendor's position
+  exclusions?: MatchExclusion[]; // Why the vendor was not eligible for an offer
 }
 
 export interface Offer {
@@ -196,9 +352,16 @@ export interface Offer {
   scoreBreakdown: MatchScoreBreakdown;
   estimatedPayout: number;
   expiresAt: number;
+  serviceWindow?: ServiceWindow; // When the vendor is booked for, on scheduled incidents
   createdAt: string;
   respondedAt?: string;
+  dispatchMode?: DispatchStepMode;
+  dispatchRound?: number;
   declineReason?: string;
+  counterOffer?: CounterOffer;
+  configVersion?: number;
+  slaTier?: string; // Tier whose multiplier estimatedPayout includes
+  pricingMultiplier?: number;
 }
 
 // ============================================================================
@@ -217,11 +380,24 @@ export interface RouteSegment {
 }
 
 export interface ETACalculation {
-  minutes: number;
+  minutes: number; // Median (p50) arrival once the ETA model is trained, else the routed duration
   distanceMiles: number;
   arrivalTime: string;
-  confidence: number;
+  confidence: number; // Historical share of arrivals within 20% of the ETA; fixed guesses when untrained
   calculatedAt: string;
+  routedSeconds?: number; // Route calculator duration, before the ETA model adjusts it
+  p90Minutes?: number; // 9 in 10 similar arrivals were on site by then
+  p90ArrivalTime?: string;
+  modelBucket?: string; // ETA model bucket the adjustment came from
+}
+
+// First ETA of an incident's tracking session, kept to train the ETA model on
+export interface IncidentEtaPrediction {
+  routedSeconds: number;
+  p50Seconds: number;
+  p90Seconds?: number;
+  predictedAt: string;
+  weather?: string; // Incident weather condition, an ETA model feature
 }
 
 export interface TrackingSession {
@@ -236,10 +412,87 @@ export interface TrackingSession {
   route: RouteSegment[];
   eta: ETACalculation;
   geofenceId: string;
+  weather?: string; // Incident weather condition when tracking started, an ETA model feature
+  destinationUpdatedAt?: string; // Last time the driver's moves re-centred the arrival geofence
+  anomalies?: TrackingAnomaly[]; // Open watchdog anomalies, removed once they clear
+  locationFilter?: VendorLocationFilter; // Smoothing and arrival state for vendor fixes
   createdAt: string;
   updatedAt: string;
 }
 
+// Kalman filter and arrival state kept between vendor fixes; vendorLocation is the estimate
+export interface VendorLocationFilter {
+  varianceMeters2: number; // Uncertainty of vendorLocation
+  rejectedFixes: number; // Consecutive fixes dropped as impossible jumps
+  arrivalSamples: number; // Consecutive accepted fixes inside the arrival radius
+  arrivalSince?: string; // Time of the first of those fixes
+}
+
+// Problems the tracking watchdog looks for on active sessions
+export type TrackingAnomalyType =
+  | 'stale_gps' // The vendor's phone stopped reporting
+  | 'stalled' // The vendor is stationary far from the incident
+  | 'moving_away'; // The vendor's distance to the incident has been increasing
+
+export interface TrackingAnomaly {
+  type: TrackingAnomalyType;
+  detectedAt: string;
+}
+
+// Full vendor breadcrumb trail of a tracking session, kept for disputes and fraud review
+export interface VendorRouteHistory {
+  encodedPath: string; // Encoded polyline of [lat, lon, seconds since startedAt]
+  startedAt: string;
+  pointCount: number;
+  distanceKm: number; // Total distance driven
+  lastPoint: [number, number, number]; // Last encoded values, so points can be appended
+}
+
+// Item in the vendor routes table, one per tracking session. Kept apart from
+// the session so each fix appends to it with a conditional write of its own
+export interface VendorRouteRecord extends VendorRouteHistory {
+  sessionId: string;
+  incidentId: string;
+  vendorId: string;
+}
+
+// A place the vendor stayed put, e.g. a fuel stop on the way to the driver
+export interface DwellStop {
+  lat: number;
+  lon: number;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+}
+
+export interface VendorRoute {
+  sessionId: string;
+  incidentId: string;
+  vendorId: string;
+  status: TrackingStatus;
+  startedAt: string;
+  endedAt: string;
+  points: Location[];
+  distanceMiles: number;
+  dwellStops: DwellStop[];
+}
+
+// What the public tracking page shows, for anyone holding the incident's tracking link
+export interface PublicTrackingView {
+  incidentId: string;
+  incidentStatus: IncidentStatus;
+  trackingStatus?: TrackingStatus; // Absent until tracking starts
+  incidentLocation: { lat: number; lon: number };
+  vendorLocation?: {
+    lat: number;
+    lon: number;
+    approximate: boolean; // Snapped to a ~1 km grid until the vendor is close
+    updatedAt?: string;
+  };
+  eta?: { minutes: number; arrivalTime: string; p90Minutes?: number };
+  updatedAt: string;
+}
+
 // ============================================================================
 // Payment Types
 // ============================================================================
@@ -290,9 +543,13 @@ export interface Payment {
 
 export type NotificationType =
   | 'offer_received'
+  | 'scheduled_offer_received'
   | 'offer_accepted'
   | 'vendor_en_route'
   | 'vendor_arrived'
+  | 'destination_updated'
+  | 'vendor_delayed'
+  | 'vendor_location_lost'
   | 'work_started'
   | 'work_completed'
   | 'payment_approved'
@@ -438,6 +695,134 @@ export interface Driver {
   updatedAt: string;
 }
 
+// ============================================================================
+// Configuration Types (managed by admin-config-svc)
+// ============================================================================
+
+export interface MatchingConfig {
+  weights: {
+    distance: number;
+    capability: number;
+    availability: number;
+    acceptanceRate: number;
+    rating: number;
+  };
+  defaultRadius: number;
+  maxRadius: number;
+  radiusExpansionFactor: number;
+  maxExpansionAttempts: number;
+  offerTimeoutSeconds: number;
+  maxOffersPerIncident: number;
+  scheduledMatchLeadMinutes?: number; // How long before a booked service window matching starts
+}
+
+export interface SLATier {
+  name: string;
+  responseTimeMinutes: number;
+  arrivalTimeMinutes: number;
+  pricingMultiplier: number;
+  priority: number;
+  dispatch?: DispatchStrategy; // Defaults to broadcast
+  lifecycle?: Partial<LifecycleTimeouts>; // Overrides the default lifecycle waits
+}
+
+/**
+ * How long the incident lifecycle waits at each stage. The arrival timeout
+ * follows the tier's arrivalTimeMinutes unless the tier overrides it.
+ */
+export interface LifecycleTimeouts {
+  arrivalCheckSeconds: number; // How often to check whether the vendor has arrived
+  arrivalTimeoutMinutes: number; // Reassign a vendor who has not arrived by then
+  workCompletionSeconds: number; // Escalate work not completed by then
+  paymentApprovalSeconds: number; // Escalate payments not approved by then
+  dispatcherAssignmentSeconds: number; // End the lifecycle of escalations not hand-assigned by then
+}
+
+// A fleet company's contracted tier
+export interface SLAContract {
+  companyId: string;
+  tier: string;
+}
+
+export interface SLAConfig {
+  tiers: SLATier[];
+  defaultTier: string;
+  contracts?: SLAContract[]; // Take precedence over incident-type default tiers
+  atRiskPercent?: number; // Share of a deadline's window after which it is at risk; defaults to 80
+}
+
+export interface GeofenceConfig {
+  geofenceId: string;
+  name: string;
+  description?: string;
+  polygon: {
+    coordinates: Array<[number, number]>; // [lon, lat] pairs
+  };
+  region: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tracking watchdog thresholds, stored under the `tracking` config key
+export interface TrackingWatchdogConfig {
+  staleGpsMinutes: number; // No vendor fix for this long
+  stalledMinutes: number; // Vendor stayed within stalledRadiusMeters for this long
+  stalledRadiusMeters: number;
+  stalledMinDistanceMiles: number; // Closer than this to the incident, stopping is not stalling
+  movingAwayMinutes: number; // Window the vendor's distance to the incident is compared over
+  movingAwayMinIncreaseMiles: number; // Distance gained over the window that counts as moving away
+}
+
+export interface PricingConfig {
+  baseRates: {
+    tire: number;
+    engine: number;
+    tow: number;
+  };
+  perMileRate: number;
+  currency: string;
+  counterOffers?: CounterOfferRules;
+  invoicing?: InvoicingRules; // Monthly invoices for back-office fleet companies
+}
+
+export interface CounterOfferRules {
+  enabled: boolean;
+  autoAcceptWithinPercent: number; // Counters up to this far above the estimate are accepted
+  maxAboveEstimatePercent: number; // Counters further above the estimate are refused
+  approvalTimeoutSeconds: number; // Counters awaiting a dispatcher expire after this long
+}
+
+export interface InvoicingRules {
+  taxes: InvoiceTaxRate[]; // Each applied to the invoice subtotal
+  paymentTermsDays: number; // A sent invoice is overdue this many days later
+}
+
+export interface InvoiceTaxRate {
+  name: string; // Shown on the invoice, e.g. "State sales tax"
+  ratePercent: number;
+}
+
+export interface IncidentTypeDefinition {
+  key: IncidentType;
+  label: string; // Shown in pickers, IVR prompts and summaries
+  description?: string;
+  requiredCapabilities: ServiceCapability[]; // Vendor needs at least one
+  basePriceCents: number; // Estimate when the vendor has no pricing for the capabilities
+  defaultSlaTier: string; // Applied when the incident is created without a tier
+  ivrDigit?: string; // DTMF key in the Connect main menu; omitted types are not offered by phone
+  active: boolean; // Inactive types stay valid for existing incidents but cannot be created
+}
+
+export interface IncidentTypeCatalogue {
+  types: IncidentTypeDefinition[];
+}
+
+export interface ConfigSnapshot<T> {
+  value: T;
+  version: number;
+}
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -0,0 +1,193 @@
+import {
+  EtaTrainingSample,
+  etaBucketKeys,
+  etaSampleFromExportRow,
+  evaluateEtaModel,
+  predictEta,
+  trainEtaModel,
+} from '../eta-model';
+
+// Seeded generator so the synthetic history is the same on every run
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Synthetic arrivals: Northeast rush hour and snow are slow, vendor-slow is
+ * always late, everything else arrives about when routed, with noise
+ */
+function history(count: number, seed: number): EtaTrainingSample[] {
+  const next = random(seed);
+  const regions = ['Northeast', 'Southwest'];
+  const weathers = ['clear', 'snow'];
+  const vendors = ['vendor-fast', 'vendor-slow'];
+
+  return Array.from({ length: count }, () => {
+    const region = regions[Math.floor(next() * regions.length)];
+    const hourOfDay = Math.floor(next() * 24);
+    const weather = weathers[Math.floor(next() * weathers.length)];
+    const vendorId = vendors[Math.floor(next() * vendors.length)];
+    const routedSeconds = 600 + Math.floor(next() * 1800);
+
+    let ratio = 1;
+    if (region === 'Northeast' && hourOfDay >= 15 && hourOfDay < 18) ratio *= 1.5;
+    if (weather === 'snow') ratio *= 1.3;
+    if (vendorId === 'vendor-slow') ratio *= 1.2;
+
+    return {
+      region,
+      hourOfDay,
+      weather,
+      vendorId,
+      routedSeconds,
+      actualSeconds: Math.round(routedSeconds * ratio * (0.85 + next() * 0.3)),
+    };
+  });
+}
+
+describe('etaBucketKeys', () => {
+  it('should order buckets from most to least specific', () => {
+    expect(
+      etaBucketKeys({ region: 'Northeast', hourOfDay: 16, weather: 'snow', vendorId: 'v-1' })
+    ).toEqual([
+      'region=Northeast|hours=15-18|weather=snow|vendor=v-1',
+      'region=Northeast|hours=15-18|weather=snow',
+      'region=Northeast|hours=15-18',
+      'region=Northeast',
+      '*',
+    ]);
+    expect(etaBucketKeys({ region: 'Southwest', hourOfDay: 2 })).toEqual([
+      'region=Southwest|hours=0-3|weather=unknown',
+      'region=Southwest|hours=0-3',
+      'region=Southwest',
+      '*',
+    ]);
+  });
+});
+
+describe('trainEtaModel', () => {
+  const sample = (actualSeconds: number): EtaTrainingSample => ({
+    region: 'Northeast',
+    hourOfDay: 9,
+    weather: 'clear',
+    vendorId: 'vendor-1',
+    routedSeconds: 1000,
+    actualSeconds,
+  });
+
+  it('should learn the quantiles of actual over routed duration', () => {
+    const samples = Array.from({ length: 10 }, (_, i) => sample(1000 + i * 100));
+    const model = trainEtaModel(samples, { version: 'test', minBucketSamples: 10 });
+
+    expect(model.sampleCount).toBe(10);
+    expect(model.buckets['*']).toEqual({
+      sampleCount: 10,
+      p50Ratio: 1.4,
+      p90Ratio: 1.8,
+      confidence: 0.6, // 1.2 to 1.7 are within 20% of 1.4
+    });
+  });
+
+  it('should drop impossible arrivals and thin buckets', () => {
+    const samples = [
+      ...Array.from({ length: 10 }, () => sample(1200)),
+      sample(20000), // GPS never reported arrival in time
+      sample(10), // Arrived before leaving
+      { ...sample(1200), routedSeconds: 0 },
+      { ...sample(1200), vendorId: 'vendor-2' },
+    ];
+    const model = trainEtaModel(samples, { version: 'test', minBucketSamples: 10 });
+
+    expect(model.sampleCount).toBe(11);
+    expect(
+      model.buckets['region=Northeast|hours=9-12|weather=clear|vendor=vendor-1']
+    ).toBeDefined();
+    expect(
+      model.buckets['region=Northeast|hours=9-12|weather=clear|vendor=vendor-2']
+    ).toBeUndefined();
+  });
+});
+
+describe('predictEta', () => {
+  const model = trainEtaModel(history(5000, 1), { version: 'test' });
+
+  it('should not predict without a trained bucket', () => {
+    const untrained = trainEtaModel([], { version: 'empty' });
+
+    expect(predictEta(untrained, 900, { region: 'Northeast', hourOfDay: 9 })).toBeUndefined();
+  });
+
+  it('should adjust the routed duration for slow conditions', () => {
+    const rushHourSnow = predictEta(model, 1000, {
+      region: 'Northeast',
+      hourOfDay: 16,
+      weather: 'snow',
+      vendorId: 'vendor-slow',
+    });
+    const clearMorning = predictEta(model, 1000, {
+      region: 'Southwest',
+      hourOfDay: 9,
+      weather: 'clear',
+      vendorId: 'vendor-fast',
+    });
+
+    expect(rushHourSnow?.p50Seconds).toBeGreaterThan(2100);
+    expect(clearMorning?.p50Seconds).toBeGreaterThan(900);
+    expect(clearMorning?.p50Seconds).toBeLessThan(1100);
+    expect(rushHourSnow!.p90Seconds).toBeGreaterThan(rushHourSnow!.p50Seconds);
+  });
+
+  it('should fall back to a coarser bucket for unseen features', () => {
+    const prediction = predictEta(model, 1000, {
+      region: 'Northeast',
+      hourOfDay: 9,
+      weather: 'fog',
+      vendorId: 'vendor-new',
+    });
+
+    expect(prediction?.bucket).toBe('region=Northeast|hours=9-12');
+  });
+});
+
+describe('evaluateEtaModel', () => {
+  it('should beat the routed duration on held-out arrivals with a calibrated interval', () => {
+    const model = trainEtaModel(history(5000, 1), { version: 'test' });
+
+    const evaluation = evaluateEtaModel(model, history(1000, 2));
+
+    expect(evaluation.predictedCount).toBe(1000);
+    expect(evaluation.p50MeanAbsErrorSeconds).toBeLessThan(
+      evaluation.routedMeanAbsErrorSeconds / 2
+    );
+    expect(evaluation.p90Coverage).toBeGreaterThan(0.85);
+    expect(evaluation.p90Coverage).toBeLessThan(0.95);
+    expect(Math.abs(evaluation.meanConfidence - evaluation.withinToleranceRate)).toBeLessThan(0.05);
+  });
+});
+
+describe('etaSampleFromExportRow', () => {
+  it('should read eta_training export rows', () => {
+    expect(
+      etaSampleFromExportRow({
+        region: 'Northeast',
+        hour_of_day: '16',
+        weather_condition: 'snow',
+        vendor_id: 'vendor-1',
+        eta_routed_seconds: '900',
+        actual_arrival_seconds: '1320',
+      })
+    ).toEqual({
+      region: 'Northeast',
+      hourOfDay: 16,
+      weather: 'snow',
+      vendorId: 'vendor-1',
+      routedSeconds: 900,
+      actualSeconds: 1320,
+    });
+    expect(etaSampleFromExportRow({ region: 'Northeast', eta_routed_seconds: 900 })).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { estimateTimezone, isWithinOperatingHours, parseTimeOfDay } from '../operating-hours';
+import { isPointInPolygon } from '../geospatial';
+
+describe('parseTimeOfDay', () => {
+  it('should parse 24 hour and 12 hour times', () => {
+    expect(parseTimeOfDay('07:30')).toBe(450);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+    expect(parseTimeOfDay('9:00 AM')).toBe(540);
+    expect(parseTimeOfDay('12:00 AM')).toBe(0);
+    expect(parseTimeOfDay('5:15 pm')).toBe(1035);
+  });
+
+  it('should reject invalid times', () => {
+    expect(parseTimeOfDay('25:00')).toBeNull();
+    expect(parseTimeOfDay('13:00 PM')).toBeNull();
+    expect(parseTimeOfDay('noon')).toBeNull();
+  });
+});
+
+describe('isWithinOperatingHours', () => {
+  // Wednesday 2024-01-10 15:00 UTC = 09:00 in Chicago
+  const at = new Date('2024-01-10T15:00:00Z');
+
+  it('should treat missing hours as always open', () => {
+    expect(isWithinOperatingHours(undefined, at)).toBe(true);
+    expect(isWithinOperatingHours({}, at)).toBe(true);
+  });
+
+  it('should evaluate hours in the vendor timezone', () => {
+    const hours = { wednesday: { open: '08:00', close: '17:00' } };
+
+    expect(isWithinOperatingHours(hours, at, 'America/Chicago')).toBe(true);
+    expect(isWithinOperatingHours(hours, at, 'Asia/Tokyo')).toBe(false);
+  });
+
+  it('should treat days without an entry as closed', () => {
+    expect(isWithinOperatingHours({ mon: { open: '00:00', close: '24:00' } }, at)).toBe(false);
+  });
+
+  it('should handle windows that run past midnight', () => {
+    const hours = { tuesday: { open: '22:00', close: '06:00' } };
+
+    // Wednesday 05:00 in Chicago is inside Tuesday's overnight window
+    expect(isWithinOperatingHours(hours, new Date('2024-01-10T11:00:00Z'), 'America/Chicago')).toBe(
+      true
+    );
+    expect(isWithinOperatingHours(hours, at, 'America/Chicago')).toBe(false);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const square: Array<[number, number]> = [
+    [-88, 41],
+    [-87, 41],
+    [-87, 42],
+    [-88, 42],
+  ];
+
+  it('should detect points inside and outside a polygon', () => {
+    expect(isPointInPolygon(41.5, -87.5, square)).toBe(true);
+    expect(isPointInPolygon(42.5, -87.5, square)).toBe(false);
+    expect(isPointInPolygon(41.5, -86.5, square)).toBe(false);
+  });
+});
+
+describe('estimateTimezone', () => {
+  it('should place US cities in their time zone', () => {
+    expect(estimateTimezone(40.71, -74.01)).toBe('America/New_York'); // New York
+    expect(estimateTimezone(33.75, -84.39)).toBe('America/New_York'); // Atlanta
+    expect(estimateTimezone(41.88, -87.63)).toBe('America/Chicago'); // Chicago
+    expect(estimateTimezone(29.76, -95.37)).toBe('America/Chicago'); // Houston
+    expect(estimateTimezone(36.16, -86.78)).toBe('America/Chicago'); // Nashville
+    expect(estimateTimezone(39.74, -104.99)).toBe('America/Denver'); // Denver
+    expect(estimateTimezone(33.45, -112.07)).toBe('America/Phoenix'); // Phoenix
+    expect(estimateTimezone(34.05, -118.24)).toBe('America/Los_Angeles'); // Los Angeles
+    expect(estimateTimezone(47.61, -122.33)).toBe('America/Los_Angeles'); // Seattle
+  });
+
+  it('should handle zones that cross the main boundaries', () => {
+    expect(estimateTimezone(42.33, -83.05)).toBe('America/Detroit'); // Detroit
+    expect(estimateTimezone(39.77, -86.16)).toBe('America/Indiana/Indianapolis');
+    expect(estimateTimezone(43.62, -116.2)).toBe('America/Boise'); // Boise
+    expect(estimateTimezone(31.76, -106.44)).toBe('America/Denver'); // El Paso
+    expect(estimateTimezone(31.99, -102.08)).toBe('America/Chicago'); // Midland
+    expect(estimateTimezone(21.31, -157.86)).toBe('Pacific/Honolulu');
+    expect(estimateTimezone(61.22, -149.9)).toBe('America/Anchorage');
+  });
+
+  it('should fall back to UTC outside the US', () => {
+    expect(estimateTimezone(51.51, -0.13)).toBe('UTC');
+  });
+});
@@ -0,0 +1,29 @@
+import { createTrackingToken, verifyTrackingToken } from '../tracking-link';
+
+describe('tracking links', () => {
+  const secret = 'test-tracking-link-secret';
+  const issuedAt = new Date('2026-10-19T12:00:00Z');
+
+  it('should verify a token for its incident until it expires', () => {
+    const token = createTrackingToken('inc-123', secret, { ttlSeconds: 3600, now: issuedAt });
+
+    expect(verifyTrackingToken(token, secret, new Date('2026-10-19T12:59:59Z'))).toEqual({
+      incidentId: 'inc-123',
+      expiresAt: issuedAt.getTime() / 1000 + 3600,
+    });
+    expect(verifyTrackingToken(token, secret, new Date('2026-10-19T13:00:00Z'))).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret or tampered with', () => {
+    const token = createTrackingToken('inc-123', secret, { ttlSeconds: 3600, now: issuedAt });
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(
+      JSON.stringify({ incidentId: 'inc-456', expiresAt: 4102444800 })
+    ).toString('base64url')}.${signature}`;
+
+    expect(verifyTrackingToken(token, 'another-secret', issuedAt)).toBeNull();
+    expect(verifyTrackingToken(forged, secret, issuedAt)).toBeNull();
+    expect(verifyTrackingToken('not-a-token', secret, issuedAt)).toBeNull();
+    expect(verifyTrackingToken(`${token}.extra`, secret, issuedAt)).toBeNull();
+  });
+});
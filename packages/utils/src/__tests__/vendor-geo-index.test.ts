@@ -0,0 +1,147 @@
+import { calculateDistance, getGeohashNeighbors, generateGeohash } from '../geospatial';
+import { InMemoryVendorGeoIndex, VendorGeoEntry, VendorGeoQuery } from '../geo-index/vendor-geo-index';
+import {
+  DynamoDBVendorGeoIndex,
+  GeoIndexTableClient,
+} from '../geo-index/dynamodb-vendor-geo-index';
+
+/**
+ * Minimal table client that evaluates the geo cell key conditions in memory
+ */
+class FakeTableClient implements GeoIndexTableClient {
+  items: Map<string, Record<string, any>> = new Map();
+
+  async query<T>(
+    _tableName: string,
+    _keyCondition: string,
+    values: Record<string, unknown>
+  ): Promise<T[]> {
+    return Array.from(this.items.values()).filter(
+      (item) =>
+        item.geoCell === values[':geoCell'] &&
+        (values[':status'] === undefined || item.availabilityStatus === values[':status'])
+    ) as T[];
+  }
+
+  async update(
+    _tableName: string,
+    key: Record<string, unknown>,
+    updates: Record<string, unknown>
+  ): Promise<void> {
+    const vendorId = key.vendorId as string;
+    const existing = this.items.get(vendorId) || { vendorId };
+    this.items.set(vendorId, { ...existing, ...updates });
+  }
+}
+
+// Deterministic pseudo-random generator so failures are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function bruteForce(entries: VendorGeoEntry[], query: VendorGeoQuery): string[] {
+  return entries
+    .filter(
+      (e) =>
+        (!query.availabilityStatus || e.availabilityStatus === query.availabilityStatus) &&
+        calculateDistance(query.lat, query.lon, e.lat, e.lon) <= query.radiusMiles
+    )
+    .map((e) => e.vendorId)
+    .sort();
+}
+
+describe('vendor geo index', () => {
+  const random = createRandom(42);
+  const entries: VendorGeoEntry[] = [];
+
+  // Vendors clustered around a few metros, including one straddling a cell edge
+  const metros = [
+    { lat: 40.7128, lon: -74.006 },
+    { lat: 34.0522, lon: -118.2437 },
+    { lat: 41.8781, lon: -87.6298 },
+    { lat: 45.0, lon: -90.0 },
+  ];
+
+  for (let i = 0; i < 400; i++) {
+    const metro = metros[i % metros.length];
+    entries.push({
+      vendorId: `vendor-${i}`,
+      lat: metro.lat + (random() - 0.5) * 4,
+      lon: metro.lon + (random() - 0.5) * 4,
+      availabilityStatus: random() < 0.7 ? 'available' : 'busy',
+    });
+  }
+
+  const fakeClient = new FakeTableClient();
+  const dynamoIndex = new DynamoDBVendorGeoIndex(fakeClient, 'vendors');
+  const memoryIndex = new InMemoryVendorGeoIndex();
+
+  beforeAll(async () => {
+    for (const entry of entries) {
+      fakeClient.items.set(entry.vendorId, {
+        vendorId: entry.vendorId,
+        coverageArea: { center: { lat: entry.lat, lon: entry.lon } },
+      });
+      await dynamoIndex.upsert(entry);
+      await memoryIndex.upsert(entry);
+    }
+  });
+
+  const queries: VendorGeoQuery[] = [
+    ...metros.map((m) => ({ lat: m.lat, lon: m.lon, radiusMiles: 50 })),
+    ...metros.map((m) => ({ lat: m.lat, lon: m.lon, radiusMiles: 120, availabilityStatus: 'available' as const })),
+    { lat: 45.0, lon: -90.0, radiusMiles: 5 },
+    { lat: 40.0, lon: -100.0, radiusMiles: 25 },
+  ];
+
+  it.each(queries)('DynamoDB index matches a full scan for %o', async (query) => {
+    const results = await dynamoIndex.search(query);
+
+    expect(results.map((r) => r.vendorId).sort()).toEqual(bruteForce(entries, query));
+  });
+
+  it.each(queries)('in-memory index matches a full scan for %o', async (query) => {
+    const results = await memoryIndex.search(query);
+
+    expect(results.map((r) => r.vendorId).sort()).toEqual(bruteForce(entries, query));
+  });
+
+  it('returns results sorted by distance', async () => {
+    const results = await dynamoIndex.search({ lat: 40.7128, lon: -74.006, radiusMiles: 100 });
+
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].distanceMiles).toBeGreaterThanOrEqual(results[i - 1].distanceMiles);
+    }
+  });
+
+  it('reflects availability changes on upsert', async () => {
+    const entry = { ...entries[0], availabilityStatus: 'offline' as const };
+    await dynamoIndex.upsert(entry);
+
+    const results = await dynamoIndex.search({
+      lat: entry.lat,
+      lon: entry.lon,
+      radiusMiles: 1,
+      availabilityStatus: 'offline',
+    });
+
+    expect(results.map((r) => r.vendorId)).toEqual([entry.vendorId]);
+    await dynamoIndex.upsert(entries[0]);
+  });
+});
+
+describe('getGeohashNeighbors', () => {
+  it('returns the eight surrounding cells', () => {
+    const geohash = generateGeohash(40.7128, -74.006, 5);
+    const neighbors = getGeohashNeighbors(geohash);
+
+    expect(neighbors).toHaveLength(8);
+    expect(neighbors).not.toContain(geohash);
+    expect(new Set(neighbors).size).toBe(8);
+    neighbors.forEach((n) => expect(n).toHaveLength(5));
+  });
+});
@@ -0,0 +1,223 @@
+// ETA prediction from historical actual-vs-routed arrival times
+
+const HOUR_BAND_SIZE = 3; // Hours of day are bucketed in 3-hour bands
+const MIN_RATIO = 0.2; // Samples outside these actual/routed ratios are bad data
+const MAX_RATIO = 10;
+const CONFIDENCE_TOLERANCE = 0.2; // An ETA is "right" within 20% of the actual arrival
+const DEFAULT_MIN_BUCKET_SAMPLES = 30;
+
+export interface EtaFeatures {
+  region: string;
+  hourOfDay: number; // UTC hour the ETA was made
+  weather?: string;
+  vendorId?: string;
+}
+
+export interface EtaTrainingSample extends EtaFeatures {
+  routedSeconds: number; // Route calculator duration when the ETA was made
+  actualSeconds: number; // Time the vendor actually took to arrive
+}
+
+export interface EtaBucket {
+  sampleCount: number;
+  p50Ratio: number; // Median actual/routed duration
+  p90Ratio: number;
+  confidence: number; // Share of samples that arrived within 20% of the p50 ETA
+}
+
+export interface EtaModel {
+  version: string;
+  trainedAt: string;
+  sampleCount: number;
+  minBucketSamples: number;
+  buckets: Record<string, EtaBucket>;
+}
+
+export interface EtaModelPrediction {
+  p50Seconds: number;
+  p90Seconds: number;
+  confidence: number;
+  bucket: string;
+  sampleCount: number;
+}
+
+export interface EtaModelEvaluation {
+  sampleCount: number;
+  predictedCount: number; // Samples the model had a bucket for
+  p50MeanAbsErrorSeconds: number;
+  routedMeanAbsErrorSeconds: number; // The same error for the unadjusted route duration
+  p90Coverage: number; // Share of arrivals no later than the p90 ETA, ideally about 0.9
+  meanConfidence: number;
+  withinToleranceRate: number; // What meanConfidence should match when calibrated
+}
+
+/**
+ * Bucket keys for a set of features, most specific first. Predictions fall
+ * back to a coarser bucket when a specific one had too few samples.
+ */
+export function etaBucketKeys(features: EtaFeatures): string[] {
+  const bandStart = Math.floor(features.hourOfDay / HOUR_BAND_SIZE) * HOUR_BAND_SIZE;
+  const region = `region=${features.region}`;
+  const hours = `${region}|hours=${bandStart}-${bandStart + HOUR_BAND_SIZE}`;
+  const weather = `${hours}|weather=${features.weather || 'unknown'}`;
+
+  return [
+    ...(features.vendorId ? [`${weather}|vendor=${features.vendorId}`] : []),
+    weather,
+    hours,
+    region,
+    '*',
+  ];
+}
+
+/**
+ * Train an ETA model: for every bucket with enough samples, the quantiles of
+ * how much longer (or shorter) arrivals took than the routed duration
+ */
+export function trainEtaModel(
+  samples: EtaTrainingSample[],
+  options: { version: string; trainedAt?: string; minBucketSamples?: number }
+): EtaModel {
+  const minBucketSamples = options.minBucketSamples ?? DEFAULT_MIN_BUCKET_SAMPLES;
+  const ratiosByBucket = new Map<string, number[]>();
+  let sampleCount = 0;
+
+  for (const sample of samples) {
+    const ratio = sample.actualSeconds / sample.routedSeconds;
+    if (!(sample.routedSeconds > 0) || !(ratio >= MIN_RATIO && ratio <= MAX_RATIO)) {
+      continue;
+    }
+
+    sampleCount++;
+    for (const key of etaBucketKeys(sample)) {
+      ratiosByBucket.set(key, [...(ratiosByBucket.get(key) || []), ratio]);
+    }
+  }
+
+  const buckets: Record<string, EtaBucket> = {};
+  ratiosByBucket.forEach((ratios, key) => {
+    if (ratios.length < minBucketSamples) {
+      return;
+    }
+
+    const sorted = [...ratios].sort((a, b) => a - b);
+    const p50Ratio = quantile(sorted, 0.5);
+    const withinTolerance = ratios.filter(
+      (ratio) => Math.abs(p50Ratio - ratio) <= CONFIDENCE_TOLERANCE * ratio
+    ).length;
+
+    buckets[key] = {
+      sampleCount: ratios.length,
+      p50Ratio,
+      p90Ratio: quantile(sorted, 0.9),
+      confidence: withinTolerance / ratios.length,
+    };
+  });
+
+  return {
+    version: options.version,
+    trainedAt: options.trainedAt || new Date().toISOString(),
+    sampleCount,
+    minBucketSamples,
+    buckets,
+  };
+}
+
+/**
+ * Adjust a routed duration with the most specific trained bucket. Returns
+ * undefined when the model has no bucket for the features (e.g. untrained).
+ */
+export function predictEta(
+  model: EtaModel,
+  routedSeconds: number,
+  features: EtaFeatures
+): EtaModelPrediction | undefined {
+  const key = etaBucketKeys(features).find((candidate) => model.buckets[candidate]);
+  if (!key) {
+    return undefined;
+  }
+
+  const bucket = model.buckets[key];
+  return {
+    p50Seconds: Math.round(routedSeconds * bucket.p50Ratio),
+    p90Seconds: Math.round(routedSeconds * Math.max(bucket.p90Ratio, bucket.p50Ratio)),
+    confidence: bucket.confidence,
+    bucket: key,
+    sampleCount: bucket.sampleCount,
+  };
+}
+
+/**
+ * Score a model against held-out samples
+ */
+export function evaluateEtaModel(
+  model: EtaModel,
+  samples: EtaTrainingSample[]
+): EtaModelEvaluation {
+  const scored = samples
+    .filter((sample) => sample.routedSeconds > 0 && sample.actualSeconds > 0)
+    .map((sample) => ({ sample, prediction: predictEta(model, sample.routedSeconds, sample) }))
+    .filter(
+      (
+        scoredSample
+      ): scoredSample is { sample: EtaTrainingSample; prediction: EtaModelPrediction } =>
+        scoredSample.prediction !== undefined
+    );
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+
+  return {
+    sampleCount: samples.length,
+    predictedCount: scored.length,
+    p50MeanAbsErrorSeconds: mean(
+      scored.map(({ sample, prediction }) => Math.abs(prediction.p50Seconds - sample.actualSeconds))
+    ),
+    routedMeanAbsErrorSeconds: mean(
+      scored.map(({ sample }) => Math.abs(sample.routedSeconds - sample.actualSeconds))
+    ),
+    p90Coverage: mean(
+      scored.map(({ sample, prediction }) =>
+        sample.actualSeconds <= prediction.p90Seconds ? 1 : 0
+      )
+    ),
+    meanConfidence: mean(scored.map(({ prediction }) => prediction.confidence)),
+    withinToleranceRate: mean(
+      scored.map(({ sample, prediction }) =>
+        Math.abs(prediction.p50Seconds - sample.actualSeconds) <=
+        CONFIDENCE_TOLERANCE * sample.actualSeconds
+          ? 1
+          : 0
+      )
+    ),
+  };
+}
+
+/**
+ * Read a training sample from a row of the reporting service's `eta_training`
+ * export. Rows without an arrival or a routed ETA are skipped.
+ */
+export function etaSampleFromExportRow(row: Record<string, unknown>): EtaTrainingSample | null {
+  const routedSeconds = Number(row.eta_routed_seconds);
+  const actualSeconds = Number(row.actual_arrival_seconds);
+
+  if (!(routedSeconds > 0) || !(actualSeconds > 0)) {
+    return null;
+  }
+
+  return {
+    region: String(row.region || 'Unknown'),
+    hourOfDay: Number(row.hour_of_day) || 0,
+    weather: row.weather_condition ? String(row.weather_condition) : undefined,
+    vendorId: row.vendor_id ? String(row.vendor_id) : undefined,
+    routedSeconds,
+    actualSeconds,
+  };
+}
+
+/**
+ * Nearest-rank quantile of sorted values
+ */
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))];
+}
@@ -0,0 +1,119 @@
+import { calculateDistance, generateGeohash, getGeohashCellsInRadius } from '../geospatial';
+import {
+  VendorGeoIndex,
+  VendorGeoEntry,
+  VendorGeoQuery,
+  VendorGeoMatch,
+} from './vendor-geo-index';
+
+/**
+ * Subset of the DynamoDB wrapper used by the index, so this package does not
+ * depend on @roadcall/aws-clients
+ */
+export interface GeoIndexTableClient {
+  query<T>(
+    tableName: string,
+    keyCondition: string,
+    expressionAttributeValues: Record<string, unknown>,
+    indexName?: string,
+    limit?: number
+  ): Promise<T[]>;
+  update(
+    tableName: string,
+    key: Record<string, unknown>,
+    updates: Record<string, unknown>,
+    condition?: string
+  ): Promise<void>;
+}
+
+interface GeoIndexedVendorItem {
+  vendorId: string;
+  coverageArea: {
+    center: { lat: number; lon: number };
+  };
+}
+
+export const GEO_CELL_INDEX_NAME = 'geocell-availability-index';
+export const GEO_CELL_PRECISION = 3; // ~97 x 74 mile cells at 40° latitude
+
+/**
+ * Get the geo index attributes stored on a vendor item
+ */
+export function getVendorGeoAttributes(
+  lat: number,
+  lon: number
+): { geohash: string; geoCell: string } {
+  return {
+    geohash: generateGeohash(lat, lon, 6),
+    geoCell: generateGeohash(lat, lon, GEO_CELL_PRECISION),
+  };
+}
+
+/**
+ * Vendor geo index backed by the vendors table.
+ *
+ * Each vendor item carries a coarse `geoCell` geohash which is the partition
+ * key of a GSI (sort key `availabilityStatus`). A search queries the cell
+ * containing the point and every neighbouring cell the radius can reach, then
+ * filters on exact distance.
+ */
+export class DynamoDBVendorGeoIndex implements VendorGeoIndex {
+  constructor(
+    private client: GeoIndexTableClient,
+    private tableName: string,
+    private indexName: string = GEO_CELL_INDEX_NAME
+  ) {}
+
+  async upsert(entry: VendorGeoEntry): Promise<void> {
+    await this.client.update(
+      this.tableName,
+      { vendorId: entry.vendorId },
+      {
+        ...getVendorGeoAttributes(entry.lat, entry.lon),
+        availabilityStatus: entry.availabilityStatus,
+      }
+    );
+  }
+
+  async search(query: VendorGeoQuery): Promise<VendorGeoMatch[]> {
+    const cells = getGeohashCellsInRadius(
+      query.lat,
+      query.lon,
+      query.radiusMiles,
+      GEO_CELL_PRECISION
+    );
+
+    const keyCondition = query.availabilityStatus
+      ? 'geoCell = :geoCell AND availabilityStatus = :status'
+      : 'geoCell = :geoCell';
+
+    const results = await Promise.all(
+      cells.map((geoCell) =>
+        this.client.query<GeoIndexedVendorItem>(
+          this.tableName,
+          keyCondition,
+          query.availabilityStatus
+            ? { ':geoCell': geoCell, ':status': query.availabilityStatus }
+            : { ':geoCell': geoCell },
+          this.indexName
+        )
+      )
+    );
+
+    const matches: VendorGeoMatch[] = [];
+    for (const item of results.flat()) {
+      const distanceMiles = calculateDistance(
+        query.lat,
+        query.lon,
+        item.coverageArea.center.lat,
+        item.coverageArea.center.lon
+      );
+
+      if (distanceMiles <= query.radiusMiles) {
+        matches.push({ vendorId: item.vendorId, distanceMiles });
+      }
+    }
+
+    return matches.sort((a, b) => a.distanceMiles - b.distanceMiles);
+  }
+}
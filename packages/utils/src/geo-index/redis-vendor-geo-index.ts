@@ -0,0 +1,72 @@
+import { RedisClient } from '../cache/redis-client';
+import { calculateDistance } from '../geospatial';
+import {
+  VendorGeoIndex,
+  VendorGeoEntry,
+  VendorGeoQuery,
+  VendorGeoMatch,
+} from './vendor-geo-index';
+
+/**
+ * Vendor geo index backed by Redis GEO commands.
+ * Availability is kept in a hash alongside the GEO set since GEORADIUS
+ * cannot filter on member attributes.
+ */
+export class RedisVendorGeoIndex implements VendorGeoIndex {
+  private readonly GEO_INDEX_KEY = 'vendors:geo';
+  private readonly AVAILABILITY_KEY = 'vendors:geo:availability';
+
+  constructor(private redis: RedisClient) {}
+
+  async upsert(entry: VendorGeoEntry): Promise<void> {
+    await this.redis.geoAdd(this.GEO_INDEX_KEY, [
+      {
+        longitude: entry.lon,
+        latitude: entry.lat,
+        member: entry.vendorId,
+      },
+    ]);
+    await this.redis.hset(this.AVAILABILITY_KEY, entry.vendorId, entry.availabilityStatus);
+  }
+
+  async search(query: VendorGeoQuery): Promise<VendorGeoMatch[]> {
+    // Redis stores positions as 52-bit geohashes, so recompute distances with
+    // the same formula as the scan and drop anything on the boundary
+    const geoResults = await this.redis.geoRadius(this.GEO_INDEX_KEY, query.lon, query.lat, {
+      radius: query.radiusMiles,
+      unit: 'mi',
+      sort: 'ASC',
+      withCoord: true,
+    });
+
+    if (geoResults.length === 0) {
+      return [];
+    }
+
+    const availability = query.availabilityStatus
+      ? await this.redis.hgetall<Record<string, string>>(this.AVAILABILITY_KEY)
+      : null;
+
+    const matches: VendorGeoMatch[] = [];
+    for (const result of geoResults) {
+      if (query.availabilityStatus && availability?.[result.member] !== query.availabilityStatus) {
+        continue;
+      }
+
+      const distanceMiles = result.coordinates
+        ? calculateDistance(
+            query.lat,
+            query.lon,
+            result.coordinates.latitude,
+            result.coordinates.longitude
+          )
+        : result.distance ?? 0;
+
+      if (distanceMiles <= query.radiusMiles) {
+        matches.push({ vendorId: result.member, distanceMiles });
+      }
+    }
+
+    return matches.sort((a, b) => a.distanceMiles - b.distanceMiles);
+  }
+}
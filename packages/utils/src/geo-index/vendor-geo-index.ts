@@ -0,0 +1,61 @@
+import { VendorAvailabilityStatus } from '@roadcall/types';
+import { calculateDistance } from '../geospatial';
+
+export interface VendorGeoEntry {
+  vendorId: string;
+  lat: number;
+  lon: number;
+  availabilityStatus: VendorAvailabilityStatus;
+}
+
+export interface VendorGeoQuery {
+  lat: number;
+  lon: number;
+  radiusMiles: number;
+  availabilityStatus?: VendorAvailabilityStatus;
+}
+
+export interface VendorGeoMatch {
+  vendorId: string;
+  distanceMiles: number;
+}
+
+/**
+ * Geospatial index of vendor coverage-area centers.
+ *
+ * Implementations must agree with a full scan: a vendor is returned when the
+ * distance from the query point to its coverage center is within the radius.
+ * Results are sorted by distance ascending.
+ */
+export interface VendorGeoIndex {
+  upsert(entry: VendorGeoEntry): Promise<void>;
+  search(query: VendorGeoQuery): Promise<VendorGeoMatch[]>;
+}
+
+/**
+ * In-memory vendor geo index for tests and local runs
+ */
+export class InMemoryVendorGeoIndex implements VendorGeoIndex {
+  private entries: Map<string, VendorGeoEntry> = new Map();
+
+  async upsert(entry: VendorGeoEntry): Promise<void> {
+    this.entries.set(entry.vendorId, { ...entry });
+  }
+
+  async search(query: VendorGeoQuery): Promise<VendorGeoMatch[]> {
+    const matches: VendorGeoMatch[] = [];
+
+    this.entries.forEach((entry) => {
+      if (query.availabilityStatus && entry.availabilityStatus !== query.availabilityStatus) {
+        return;
+      }
+
+      const distanceMiles = calculateDistance(query.lat, query.lon, entry.lat, entry.lon);
+      if (distanceMiles <= query.radiusMiles) {
+        matches.push({ vendorId: entry.vendorId, distanceMiles });
+      }
+    });
+
+    return matches.sort((a, b) => a.distanceMiles - b.distanceMiles);
+  }
+}
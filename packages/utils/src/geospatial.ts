@@ -1,5 +1,8 @@
 // Geospatial utility functions
 
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const MILES_PER_DEGREE_LAT = (3959 * Math.PI) / 180;
+
 /**
  * Calculate distance between two GPS coordinates using Haversine formula
  * @param lat1 - Latitude of first point
@@ -46,7 +49,6 @@ function toRadians(degrees: number): number {
  * @returns Geohash string
  */
 export function generateGeohash(lat: number, lon: number, precision: number = 6): string {
-  const base32 = '0123456789bcdefghjkmnpqrstuvwxyz';
   let idx = 0;
   let bit = 0;
   let evenBit = true;
@@ -81,7 +83,7 @@ export function generateGeohash(lat: number, lon: number, precision: number = 6)
     evenBit = !evenBit;
 
     if (++bit === 5) {
-      geohash += base32[idx];
+      geohash += GEOHASH_BASE32[idx];
       bit = 0;
       idx = 0;
     }
@@ -109,3 +111,170 @@ export function isWithinRadius(
   const distance = calculateDistance(centerLat, centerLon, pointLat, pointLon);
   return distance <= radiusMiles;
 }
+
+/**
+ * Determine the US region of a coordinate (simplified). Reporting and the ETA
+ * model both bucket by this, so they must agree.
+ * In production, use proper geocoding service
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @returns Region name
+ */
+export function determineRegion(lat: number, lon: number): string {
+  if (lat > 40 && lon < -95) return 'Northwest';
+  if (lat > 40 && lon >= -95) return 'Northeast';
+  if (lat <= 40 && lon < -95) return 'Southwest';
+  if (lat <= 40 && lon >= -95) return 'Southeast';
+  return 'Unknown';
+}
+
+export interface GeohashBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * Decode a geohash into the bounding box of its cell
+ * @param geohash - Geohash string
+ * @returns Cell bounds in degrees
+ */
+export function decodeGeohashBounds(geohash: string): GeohashBounds {
+  let evenBit = true;
+  let minLat = -90;
+  let maxLat = 90;
+  let minLon = -180;
+  let maxLon = 180;
+
+  for (const char of geohash) {
+    const idx = GEOHASH_BASE32.indexOf(char);
+    if (idx === -1) {
+      throw new Error(`Invalid geohash character: ${char}`);
+    }
+
+    for (let n = 4; n >= 0; n--) {
+      const bitN = (idx >> n) & 1;
+      if (evenBit) {
+        const lonMid = (minLon + maxLon) / 2;
+        if (bitN === 1) {
+          minLon = lonMid;
+        } else {
+          maxLon = lonMid;
+        }
+      } else {
+        const latMid = (minLat + maxLat) / 2;
+        if (bitN === 1) {
+          minLat = latMid;
+        } else {
+          maxLat = latMid;
+        }
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, maxLat, minLon, maxLon };
+}
+
+/**
+ * Get the geohash cells covering a grid of (2*latSteps+1) x (2*lonSteps+1)
+ * cells centered on the given cell. Longitude wraps at the antimeridian and
+ * latitude is clamped at the poles.
+ */
+function getGeohashGrid(geohash: string, latSteps: number, lonSteps: number): string[] {
+  const bounds = decodeGeohashBounds(geohash);
+  const cellHeight = bounds.maxLat - bounds.minLat;
+  const cellWidth = bounds.maxLon - bounds.minLon;
+  const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+  const centerLon = (bounds.minLon + bounds.maxLon) / 2;
+
+  const cells = new Set<string>();
+  for (let i = -latSteps; i <= latSteps; i++) {
+    const lat = centerLat + i * cellHeight;
+    if (lat < -90 || lat > 90) {
+      continue;
+    }
+
+    for (let j = -lonSteps; j <= lonSteps; j++) {
+      let lon = centerLon + j * cellWidth;
+      lon = ((((lon + 180) % 360) + 360) % 360) - 180;
+      cells.add(generateGeohash(lat, lon, geohash.length));
+    }
+  }
+
+  return Array.from(cells);
+}
+
+/**
+ * Get the 8 cells surrounding a geohash cell
+ * @param geohash - Geohash string
+ * @returns Neighbouring geohashes (fewer than 8 at the poles)
+ */
+export function getGeohashNeighbors(geohash: string): string[] {
+  return getGeohashGrid(geohash, 1, 1).filter((cell) => cell !== geohash);
+}
+
+/**
+ * Get every geohash cell that may contain a point within the radius.
+ * For radii smaller than a cell this is the cell itself plus its 8 neighbours;
+ * larger radii extend the ring as many cells as needed.
+ * @param lat - Center latitude
+ * @param lon - Center longitude
+ * @param radiusMiles - Search radius in miles
+ * @param precision - Geohash precision of the indexed cells
+ * @returns Geohashes to query
+ */
+export function getGeohashCellsInRadius(
+  lat: number,
+  lon: number,
+  radiusMiles: number,
+  precision: number
+): string[] {
+  const geohash = generateGeohash(lat, lon, precision);
+  const bounds = decodeGeohashBounds(geohash);
+
+  const radiusDegreesLat = radiusMiles / MILES_PER_DEGREE_LAT;
+  const latSteps = Math.max(1, Math.ceil(radiusDegreesLat / (bounds.maxLat - bounds.minLat)));
+
+  // Degrees of longitude shrink towards the poles, so size the ring for the
+  // highest latitude a matching point could be at
+  const maxAbsLat = Math.min(89, Math.abs(lat) + radiusDegreesLat);
+  const milesPerDegreeLon = MILES_PER_DEGREE_LAT * Math.cos(toRadians(maxAbsLat));
+  const radiusDegreesLon = radiusMiles / milesPerDegreeLon;
+  const lonSteps = Math.max(1, Math.ceil(radiusDegreesLon / (bounds.maxLon - bounds.minLon)));
+
+  return getGeohashGrid(geohash, latSteps, lonSteps);
+}
+
+/**
+ * Check if a point is inside a polygon using ray casting.
+ * Polygons are small enough (service regions) that edges are treated as
+ * straight lines in lat/lon space.
+ * @param lat - Point latitude
+ * @param lon - Point longitude
+ * @param coordinates - Polygon vertices as [lon, lat] pairs (GeoJSON order)
+ * @returns true if the point is inside the polygon
+ */
+export function isPointInPolygon(
+  lat: number,
+  lon: number,
+  coordinates: Array<[number, number]>
+): boolean {
+  let inside = false;
+
+  for (let i = 0, j = coordinates.length - 1; i < coordinates.length; j = i++) {
+    const [lonI, latI] = coordinates[i];
+    const [lonJ, latJ] = coordinates[j];
+
+    const crosses =
+      latI > lat !== latJ > lat &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
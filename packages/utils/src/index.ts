@@ -2,6 +2,9 @@
 
 export * from './validation';
 export * from './geospatial';
+export * from './eta-model';
+export * from './operating-hours';
+export * from './tracking-link';
 export * from './formatting';
 export * from './logger';
 export * from './metrics';
@@ -15,3 +18,6 @@ export * from './service-discovery';
 export * from './cache/redis-client';
 export * from './cache/vendor-cache';
 export * from './database/aurora-pool';
+export * from './geo-index/vendor-geo-index';
+export * from './geo-index/redis-vendor-geo-index';
+export * from './geo-index/dynamodb-vendor-geo-index';
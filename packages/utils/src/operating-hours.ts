@@ -0,0 +1,172 @@
+// Vendor operating hours evaluation
+
+export type OperatingHours = {
+  [day: string]: { open: string; close: string };
+};
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse "HH:mm" (24h) or "h:mm AM/PM" into minutes after midnight
+ * @returns Minutes after midnight, or null if the value cannot be parsed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*([AP]M)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const meridiem = match[3]?.toUpperCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes !== 0)) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Get the weekday index (0 = Sunday) and minutes after midnight for an
+ * instant in an IANA timezone
+ */
+export function getLocalDayAndMinutes(
+  at: Date,
+  timezone: string
+): { dayIndex: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    dayIndex: DAY_NAMES.indexOf(part('weekday').toLowerCase()),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+/**
+ * Find the hours entry for a weekday. Keys are matched case-insensitively on
+ * the full name or its three-letter abbreviation ("monday", "Mon").
+ */
+function getHoursForDay(
+  hours: OperatingHours,
+  dayIndex: number
+): { open: string; close: string } | undefined {
+  const dayName = DAY_NAMES[dayIndex];
+  const key = Object.keys(hours).find((k) => {
+    const normalized = k.trim().toLowerCase();
+    return normalized === dayName || normalized === dayName.slice(0, 3);
+  });
+
+  return key ? hours[key] : undefined;
+}
+
+/**
+ * Check whether an instant falls inside a vendor's operating hours.
+ *
+ * - No hours configured means the vendor has not restricted availability.
+ * - A day without an entry is closed.
+ * - A close time at or before the open time runs past midnight into the next
+ *   day (e.g. 22:00-06:00); "00:00"-"24:00" is open all day.
+ *
+ * @param hours - Operating hours keyed by weekday, in the vendor's local time
+ * @param at - Instant to check
+ * @param timezone - IANA timezone the hours are expressed in
+ * @returns true if the vendor is open at the given instant
+ */
+export function isWithinOperatingHours(
+  hours: OperatingHours | undefined,
+  at: Date,
+  timezone: string = 'UTC'
+): boolean {
+  if (!hours || Object.keys(hours).length === 0) {
+    return true;
+  }
+
+  const { dayIndex, minutes } = getLocalDayAndMinutes(at, timezone);
+
+  // Today's window, or an overnight window that started yesterday
+  const candidates = [
+    { entry: getHoursForDay(hours, dayIndex), offset: 0 },
+    { entry: getHoursForDay(hours, (dayIndex + 6) % 7), offset: MINUTES_PER_DAY },
+  ];
+
+  return candidates.some(({ entry, offset }) => {
+    if (!entry) {
+      return false;
+    }
+
+    const open = parseTimeOfDay(entry.open);
+    let close = parseTimeOfDay(entry.close);
+    if (open === null || close === null) {
+      return false;
+    }
+
+    if (close <= open) {
+      close += MINUTES_PER_DAY;
+    }
+
+    const localMinutes = minutes + offset;
+    return localMinutes >= open && localMinutes < close;
+  });
+}
+
+// Coarse US time zone regions, checked in order so exceptions come first.
+// Boundaries follow the dominant state lines; counties on the far side of a
+// line that observe the neighbouring zone are placed in the wrong one.
+const US_TIMEZONE_REGIONS: Array<{
+  timezone: string;
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}> = [
+  { timezone: 'Pacific/Honolulu', minLat: 18, maxLat: 23, minLon: -161, maxLon: -154 },
+  { timezone: 'America/Anchorage', minLat: 51, maxLat: 72, minLon: -180, maxLon: -129.9 },
+  { timezone: 'America/Phoenix', minLat: 31.3, maxLat: 37, minLon: -114.8, maxLon: -109.05 },
+  { timezone: 'America/Boise', minLat: 42, maxLat: 45.5, minLon: -117.2, maxLon: -111 },
+  { timezone: 'America/Detroit', minLat: 41.7, maxLat: 45.9, minLon: -86.8, maxLon: -82.4 },
+  {
+    timezone: 'America/Indiana/Indianapolis',
+    minLat: 38.2,
+    maxLat: 41.7,
+    minLon: -86.9,
+    maxLon: -84.8,
+  },
+  { timezone: 'America/Chicago', minLat: 25.8, maxLat: 32, minLon: -104.9, maxLon: -93.5 },
+  { timezone: 'America/Los_Angeles', minLat: 32.5, maxLat: 49, minLon: -125, maxLon: -114.6 },
+  { timezone: 'America/Denver', minLat: 31.3, maxLat: 49, minLon: -114.6, maxLon: -102 },
+  { timezone: 'America/Chicago', minLat: 25.8, maxLat: 49.5, minLon: -102, maxLon: -85.3 },
+  { timezone: 'America/New_York', minLat: 24.4, maxLat: 47.5, minLon: -85.3, maxLon: -66.9 },
+];
+
+/**
+ * Estimate the IANA timezone of a point in the United States, for vendors
+ * created before a timezone was required. Points outside the US get UTC.
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @returns Estimated IANA timezone
+ */
+export function estimateTimezone(lat: number, lon: number): string {
+  const region = US_TIMEZONE_REGIONS.find(
+    (r) => lat >= r.minLat && lat <= r.maxLat && lon >= r.minLon && lon <= r.maxLon
+  );
+
+  return region?.timezone || 'UTC';
+}
@@ -0,0 +1,69 @@
+// Signed, expiring tokens for the public vendor tracking page
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface TrackingLinkClaims {
+  incidentId: string;
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * Sign a token that lets anyone holding it follow one incident's vendor until
+ * it expires. The token is `<claims>.<signature>`, both base64url.
+ */
+export function createTrackingToken(
+  incidentId: string,
+  secret: string,
+  options: { ttlSeconds: number; now?: Date }
+): string {
+  const now = options.now || new Date();
+  const claims: TrackingLinkClaims = {
+    incidentId,
+    expiresAt: Math.floor(now.getTime() / 1000) + options.ttlSeconds,
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Check a tracking token's signature and expiry. Returns null for tampered,
+ * malformed or expired tokens.
+ */
+export function verifyTrackingToken(
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): TrackingLinkClaims | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims: TrackingLinkClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof claims.incidentId !== 'string' ||
+    typeof claims.expiresAt !== 'number' ||
+    claims.expiresAt * 1000 <= now.getTime()
+  ) {
+    return null;
+  }
+
+  return { incidentId: claims.incidentId, expiresAt: claims.expiresAt };
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
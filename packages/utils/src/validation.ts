@@ -30,6 +30,20 @@ export function isValidCoordinates(lat: number, lon: number): boolean {
   return lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
 }
 
+/**
+ * Validates an IANA timezone name (e.g., America/Chicago)
+ * @param timezone - Timezone to validate
+ * @returns true if the runtime recognises the timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Validates UUID format
  * @param uuid - UUID string to validate
@@ -72,6 +72,15 @@ export const handler = async (
         case CONFIG_KEYS.GEOFENCES:
           ConfigValidator.validateGeofenceConfig(config);
           break;
+        case CONFIG_KEYS.INCIDENT_TYPES:
+          ConfigValidator.validateIncidentTypeCatalogue(
+            config,
+            await ConfigManager.getSLATierNames()
+          );
+          break;
+        case CONFIG_KEYS.TRACKING:
+          ConfigValidator.validateTrackingConfig(config);
+          break;
         default:
           throw new Error(`Unsupported config key: ${configKey}`);
       }
@@ -1,59 +1,27 @@
-export interface MatchingConfig {
-  weights: {
-    distance: number;
-    capability: number;
-    availability: number;
-    acceptanceRate: number;
-    rating: number;
-  };
-  defaultRadius: number;
-  maxRadius: number;
-  radiusExpansionFactor: number;
-  maxExpansionAttempts: number;
-  offerTimeoutSeconds: number;
-  maxOffersPerIncident: number;
-}
-
-export interface SLATier {
-  name: string;
-  responseTimeMinutes: number;
-  arrivalTimeMinutes: number;
-  pricingMultiplier: number;
-  priority: number;
-}
+import {
+  MatchingConfig,
+  SLAConfig,
+  GeofenceConfig,
+  PricingConfig,
+  IncidentTypeCatalogue,
+  TrackingWatchdogConfig,
+} from '@roadcall/types';
 
-export interface SLAConfig {
-  tiers: SLATier[];
-  defaultTier: string;
-}
-
-export interface GeofenceConfig {
-  geofenceId: string;
-  name: string;
-  description?: string;
-  polygon: {
-    coordinates: Array<[number, number]>; // [lon, lat] pairs
-  };
-  region: string;
-  active: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface PricingConfig {
-  baseRates: {
-    tire: number;
-    engine: number;
-    tow: number;
-  };
-  perMileRate: number;
-  currency: string;
-}
+export type {
+  MatchingConfig,
+  SLATier,
+  SLAConfig,
+  GeofenceConfig,
+  PricingConfig,
+  IncidentTypeDefinition,
+  IncidentTypeCatalogue,
+  TrackingWatchdogConfig,
+} from '@roadcall/types';
 
 export interface SystemConfig {
   configKey: string;
   version: number;
-  value: MatchingConfig | SLAConfig | GeofenceConfig | PricingConfig | any;
+  value: MatchingConfig | SLAConfig | GeofenceConfig | PricingConfig | IncidentTypeCatalogue | any;
   isLatest: string; // 'true' or 'false' for GSI
   updatedBy: string;
   updatedAt: string;
@@ -87,6 +55,8 @@ export const CONFIG_KEYS = {
   SLA_TIERS: 'sla-tiers',
   PRICING: 'pricing',
   GEOFENCES: 'geofences',
+  INCIDENT_TYPES: 'incident-types',
+  TRACKING: 'tracking',
 } as const;
 
 export type ConfigKey = typeof CONFIG_KEYS[keyof typeof CONFIG_KEYS];
@@ -106,6 +76,7 @@ export const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
   maxExpansionAttempts: 3,
   offerTimeoutSeconds: 120,
   maxOffersPerIncident: 3,
+  scheduledMatchLeadMinutes: 120,
 };
 
 export const DEFAULT_SLA_CONFIG: SLAConfig = {
@@ -116,6 +87,11 @@ export const DEFAULT_SLA_CONFIG: SLAConfig = {
       arrivalTimeMinutes: 60,
       pricingMultiplier: 1.0,
       priority: 1,
+      dispatch: {
+        mode: 'cascade',
+        cascadeOfferTimeoutSeconds: 60,
+        cascadeDepth: 0,
+      },
     },
     {
       name: 'Priority',
@@ -123,6 +99,11 @@ export const DEFAULT_SLA_CONFIG: SLAConfig = {
       arrivalTimeMinutes: 45,
       pricingMultiplier: 1.25,
       priority: 2,
+      dispatch: {
+        mode: 'hybrid',
+        cascadeOfferTimeoutSeconds: 45,
+        cascadeDepth: 1,
+      },
     },
     {
       name: 'Emergency',
@@ -130,6 +111,11 @@ export const DEFAULT_SLA_CONFIG: SLAConfig = {
       arrivalTimeMinutes: 30,
       pricingMultiplier: 1.5,
       priority: 3,
+      dispatch: {
+        mode: 'broadcast',
+        cascadeOfferTimeoutSeconds: 30,
+        cascadeDepth: 0,
+      },
     },
   ],
   defaultTier: 'Standard',
@@ -143,4 +129,74 @@ export const DEFAULT_PRICING_CONFIG: PricingConfig = {
   },
   perMileRate: 3.5,
   currency: 'USD',
+  counterOffers: {
+    enabled: true,
+    autoAcceptWithinPercent: 10,
+    maxAboveEstimatePercent: 100,
+    approvalTimeoutSeconds: 900,
+  },
+};
+
+export const DEFAULT_TRACKING_CONFIG: TrackingWatchdogConfig = {
+  staleGpsMinutes: 5,
+  stalledMinutes: 10,
+  stalledRadiusMeters: 100,
+  stalledMinDistanceMiles: 0.5,
+  movingAwayMinutes: 5,
+  movingAwayMinIncreaseMiles: 0.5,
+};
+
+export const DEFAULT_INCIDENT_TYPE_CATALOGUE: IncidentTypeCatalogue = {
+  types: [
+    {
+      key: 'tire',
+      label: 'Tire Issue',
+      description: 'Flat tire, blowout, or tire damage',
+      requiredCapabilities: ['tire_repair', 'tire_replacement'],
+      basePriceCents: 15000,
+      defaultSlaTier: 'Standard',
+      ivrDigit: '1',
+      active: true,
+    },
+    {
+      key: 'engine',
+      label: 'Engine Problem',
+      description: 'Engine failure, overheating, or mechanical issues',
+      requiredCapabilities: ['engine_repair'],
+      basePriceCents: 20000,
+      defaultSlaTier: 'Standard',
+      ivrDigit: '2',
+      active: true,
+    },
+    {
+      key: 'tow',
+      label: 'Towing Needed',
+      description: 'Vehicle needs to be towed',
+      requiredCapabilities: ['towing'],
+      basePriceCents: 25000,
+      defaultSlaTier: 'Standard',
+      ivrDigit: '3',
+      active: true,
+    },
+    {
+      key: 'jumpstart',
+      label: 'Dead Battery',
+      description: 'Battery is flat and the vehicle needs a jump start',
+      requiredCapabilities: ['jumpstart'],
+      basePriceCents: 7500,
+      defaultSlaTier: 'Standard',
+      ivrDigit: '4',
+      active: true,
+    },
+    {
+      key: 'fuel_delivery',
+      label: 'Out of Fuel',
+      description: 'Vehicle has run out of fuel',
+      requiredCapabilities: ['fuel_delivery'],
+      basePriceCents: 9000,
+      defaultSlaTier: 'Standard',
+      ivrDigit: '5',
+      active: true,
+    },
+  ],
 };
@@ -12,6 +12,9 @@ import {
   ConfigAuditLog,
   ConfigVersion,
   ConfigKey,
+  CONFIG_KEYS,
+  DEFAULT_SLA_CONFIG,
+  SLAConfig,
 } from '../types/config';
 
 const client = new DynamoDBClient({});
@@ -41,6 +44,16 @@ export class ConfigManager {
     return result.Items?.[0] as SystemConfig || null;
   }
 
+  /**
+   * Get the names of the current SLA tiers, or the default tiers when none
+   * have been published
+   */
+  static async getSLATierNames(): Promise<string[]> {
+    const config = await this.getLatestConfig(CONFIG_KEYS.SLA_TIERS);
+    const sla: SLAConfig = config?.value || DEFAULT_SLA_CONFIG;
+    return sla.tiers.map((tier) => tier.name);
+  }
+
   /**
    * Get a specific version of configuration
    */
@@ -1,4 +1,28 @@
-import { MatchingConfig, SLAConfig, GeofenceConfig, PricingConfig } from '../types/config';
+import {
+  CounterOfferRules,
+  DispatchStrategy,
+  InvoicingRules,
+  LifecycleTimeouts,
+  ServiceCapability,
+} from '@roadcall/types';
+import {
+  MatchingConfig,
+  SLAConfig,
+  GeofenceConfig,
+  PricingConfig,
+  IncidentTypeCatalogue,
+  IncidentTypeDefinition,
+  TrackingWatchdogConfig,
+} from '../types/config';
+
+const SERVICE_CAPABILITIES: ServiceCapability[] = [
+  'tire_repair',
+  'tire_replacement',
+  'engine_repair',
+  'towing',
+  'jumpstart',
+  'fuel_delivery',
+];
 
 export class ConfigValidationError extends Error {
   constructor(message: string) {
@@ -67,6 +91,15 @@ export class ConfigValidator {
     if (config.maxOffersPerIncident < 1 || config.maxOffersPerIncident > 10) {
       throw new ConfigValidationError('Max offers per incident must be between 1 and 10');
     }
+
+    if (
+      config.scheduledMatchLeadMinutes !== undefined &&
+      (config.scheduledMatchLeadMinutes < 15 || config.scheduledMatchLeadMinutes > 1440)
+    ) {
+      throw new ConfigValidationError(
+        'Scheduled match lead time must be between 15 and 1440 minutes'
+      );
+    }
   }
 
   /**
@@ -136,12 +169,97 @@ export class ConfigValidator {
           `Priority for ${tier.name} must be between 1 and 10`
         );
       }
+
+      if (tier.dispatch) {
+        this.validateDispatchStrategy(tier.name, tier.dispatch);
+      }
+
+      if (tier.lifecycle) {
+        this.validateLifecycleTimeouts(tier.name, tier.lifecycle);
+      }
     }
 
     // Check that default tier exists
     if (!config.tiers.some((t) => t.name === config.defaultTier)) {
       throw new ConfigValidationError(`Default tier "${config.defaultTier}" not found in tiers`);
     }
+
+    if (config.atRiskPercent !== undefined) {
+      if (config.atRiskPercent < 1 || config.atRiskPercent > 99) {
+        throw new ConfigValidationError('At-risk threshold must be between 1 and 99 percent');
+      }
+    }
+
+    // Company contracts must point at a tier, one contract per company
+    const contractedCompanies = new Set<string>();
+    for (const contract of config.contracts || []) {
+      if (!contract.companyId) {
+        throw new ConfigValidationError('SLA contract company ID is required');
+      }
+
+      if (contractedCompanies.has(contract.companyId)) {
+        throw new ConfigValidationError(`Duplicate SLA contract for company ${contract.companyId}`);
+      }
+      contractedCompanies.add(contract.companyId);
+
+      if (!tierNames.has(contract.tier)) {
+        throw new ConfigValidationError(
+          `SLA contract for company ${contract.companyId} uses unknown tier "${contract.tier}"`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate an SLA tier's lifecycle wait overrides
+   */
+  private static validateLifecycleTimeouts(
+    tierName: string,
+    lifecycle: Partial<LifecycleTimeouts>
+  ): void {
+    const limits: Array<[keyof LifecycleTimeouts, string, number, number]> = [
+      ['arrivalCheckSeconds', 'Arrival check interval', 30, 1800],
+      ['arrivalTimeoutMinutes', 'Arrival timeout', 1, 240],
+      ['workCompletionSeconds', 'Work completion timeout', 3600, 7 * 24 * 3600],
+      ['paymentApprovalSeconds', 'Payment approval timeout', 3600, 30 * 24 * 3600],
+      ['dispatcherAssignmentSeconds', 'Dispatcher assignment timeout', 3600, 30 * 24 * 3600],
+    ];
+
+    for (const [field, label, min, max] of limits) {
+      const value = lifecycle[field];
+      if (value === undefined) {
+        continue;
+      }
+
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new ConfigValidationError(
+          `${label} for ${tierName} must be a whole number between ${min} and ${max}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate an SLA tier's offer dispatch strategy
+   */
+  private static validateDispatchStrategy(tierName: string, dispatch: DispatchStrategy): void {
+    if (!['broadcast', 'cascade', 'hybrid'].includes(dispatch.mode)) {
+      throw new ConfigValidationError(
+        `Dispatch mode for ${tierName} must be broadcast, cascade or hybrid`
+      );
+    }
+
+    if (dispatch.cascadeOfferTimeoutSeconds < 15 || dispatch.cascadeOfferTimeoutSeconds > 600) {
+      throw new ConfigValidationError(
+        `Cascade offer timeout for ${tierName} must be between 15 and 600 seconds`
+      );
+    }
+
+    if (dispatch.mode === 'hybrid' && (dispatch.cascadeDepth < 1 || dispatch.cascadeDepth > 10)) {
+      throw new ConfigValidationError(
+        `Cascade depth for hybrid dispatch in ${tierName} must be between 1 and 10`
+      );
+    }
   }
 
   /**
@@ -235,5 +353,187 @@ export class ConfigValidator {
     if (!/^[A-Z]{3}$/.test(config.currency)) {
       throw new ConfigValidationError('Currency must be a valid 3-letter ISO 4217 code');
     }
+
+    if (config.counterOffers !== undefined) {
+      this.validateCounterOfferRules(config.counterOffers);
+    }
+
+    if (config.invoicing !== undefined) {
+      this.validateInvoicingRules(config.invoicing);
+    }
+  }
+
+  /**
+   * Validate fleet company invoicing rules
+   */
+  private static validateInvoicingRules(rules: InvoicingRules): void {
+    if (!Array.isArray(rules.taxes)) {
+      throw new ConfigValidationError('Invoice taxes must be an array');
+    }
+
+    for (const tax of rules.taxes) {
+      if (!tax.name || typeof tax.name !== 'string') {
+        throw new ConfigValidationError('Invoice tax name is required');
+      }
+
+      if (typeof tax.ratePercent !== 'number' || tax.ratePercent < 0 || tax.ratePercent > 50) {
+        throw new ConfigValidationError(`Tax rate for ${tax.name} must be between 0 and 50 percent`);
+      }
+    }
+
+    if (
+      !Number.isInteger(rules.paymentTermsDays) ||
+      rules.paymentTermsDays < 0 ||
+      rules.paymentTermsDays > 120
+    ) {
+      throw new ConfigValidationError('Payment terms must be between 0 and 120 days');
+    }
+  }
+
+  /**
+   * Validate vendor counter-offer rules
+   */
+  private static validateCounterOfferRules(rules: CounterOfferRules): void {
+    if (typeof rules.enabled !== 'boolean') {
+      throw new ConfigValidationError('Counter-offer enabled flag must be a boolean');
+    }
+
+    const { autoAcceptWithinPercent, maxAboveEstimatePercent } = rules;
+
+    if (
+      typeof autoAcceptWithinPercent !== 'number' ||
+      autoAcceptWithinPercent < 0 ||
+      autoAcceptWithinPercent > 100
+    ) {
+      throw new ConfigValidationError('Counter-offer auto-accept percent must be between 0 and 100');
+    }
+
+    if (typeof maxAboveEstimatePercent !== 'number' || maxAboveEstimatePercent > 500) {
+      throw new ConfigValidationError('Counter-offer maximum percent must be at most 500');
+    }
+
+    if (maxAboveEstimatePercent < autoAcceptWithinPercent) {
+      throw new ConfigValidationError(
+        'Counter-offer maximum percent must not be below the auto-accept percent'
+      );
+    }
+
+    if (
+      !Number.isInteger(rules.approvalTimeoutSeconds) ||
+      rules.approvalTimeoutSeconds < 60 ||
+      rules.approvalTimeoutSeconds > 86400
+    ) {
+      throw new ConfigValidationError(
+        'Counter-offer approval timeout must be between 60 and 86400 seconds'
+      );
+    }
+  }
+
+  /**
+   * Validate tracking watchdog thresholds
+   */
+  static validateTrackingConfig(config: TrackingWatchdogConfig): void {
+    const fields: Array<[keyof TrackingWatchdogConfig, string]> = [
+      ['staleGpsMinutes', 'Stale GPS minutes'],
+      ['stalledMinutes', 'Stalled minutes'],
+      ['stalledRadiusMeters', 'Stalled radius'],
+      ['stalledMinDistanceMiles', 'Stalled minimum distance'],
+      ['movingAwayMinutes', 'Moving away minutes'],
+      ['movingAwayMinIncreaseMiles', 'Moving away minimum increase'],
+    ];
+
+    for (const [field, label] of fields) {
+      if (typeof config[field] !== 'number' || config[field] <= 0) {
+        throw new ConfigValidationError(`${label} must be a positive number`);
+      }
+    }
+
+    if (config.staleGpsMinutes > 60) {
+      throw new ConfigValidationError('Stale GPS minutes must be at most 60');
+    }
+  }
+
+  /**
+   * Validate the incident-type catalogue. Default SLA tiers must exist in
+   * the current SLA configuration.
+   */
+  static validateIncidentTypeCatalogue(
+    config: IncidentTypeCatalogue,
+    slaTierNames: string[]
+  ): void {
+    if (!config.types || !Array.isArray(config.types) || config.types.length === 0) {
+      throw new ConfigValidationError('At least one incident type is required');
+    }
+
+    const keys = new Set<string>();
+    const ivrDigits = new Set<string>();
+
+    for (const type of config.types) {
+      this.validateIncidentType(type, slaTierNames);
+
+      if (keys.has(type.key)) {
+        throw new ConfigValidationError(`Duplicate incident type key: ${type.key}`);
+      }
+      keys.add(type.key);
+
+      if (type.ivrDigit !== undefined) {
+        if (ivrDigits.has(type.ivrDigit)) {
+          throw new ConfigValidationError(`Duplicate IVR digit: ${type.ivrDigit}`);
+        }
+        ivrDigits.add(type.ivrDigit);
+      }
+    }
+
+    if (!config.types.some((t) => t.active)) {
+      throw new ConfigValidationError('At least one incident type must be active');
+    }
+  }
+
+  /**
+   * Validate a single incident-type definition
+   */
+  private static validateIncidentType(type: IncidentTypeDefinition, slaTierNames: string[]): void {
+    // Keys are stored on incidents and used in API paths, so keep them simple
+    if (!type.key || !/^[a-z][a-z0-9_]{1,31}$/.test(type.key)) {
+      throw new ConfigValidationError(
+        'Incident type key must be 2-32 lowercase letters, digits or underscores'
+      );
+    }
+
+    if (!type.label || typeof type.label !== 'string') {
+      throw new ConfigValidationError(`Label is required for ${type.key}`);
+    }
+
+    if (!Array.isArray(type.requiredCapabilities) || type.requiredCapabilities.length === 0) {
+      throw new ConfigValidationError(`At least one required capability is needed for ${type.key}`);
+    }
+
+    const unknown = type.requiredCapabilities.filter((c) => !SERVICE_CAPABILITIES.includes(c));
+    if (unknown.length > 0) {
+      throw new ConfigValidationError(
+        `Unknown capabilities for ${type.key}: ${unknown.join(', ')}`
+      );
+    }
+
+    if (!Number.isInteger(type.basePriceCents) || type.basePriceCents <= 0) {
+      throw new ConfigValidationError(
+        `Base price for ${type.key} must be a positive number of cents`
+      );
+    }
+
+    if (!slaTierNames.includes(type.defaultSlaTier)) {
+      throw new ConfigValidationError(
+        `Default SLA tier "${type.defaultSlaTier}" for ${type.key} not found in SLA tiers`
+      );
+    }
+
+    // 0 is reserved for the operator in the contact flow
+    if (type.ivrDigit !== undefined && !/^[1-9]$/.test(type.ivrDigit)) {
+      throw new ConfigValidationError(`IVR digit for ${type.key} must be a single digit 1-9`);
+    }
+
+    if (typeof type.active !== 'boolean') {
+      throw new ConfigValidationError(`Active flag for ${type.key} must be a boolean`);
+    }
   }
 }
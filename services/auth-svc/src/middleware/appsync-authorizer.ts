@@ -0,0 +1,38 @@
+import { AppSyncAuthorizerEvent, AppSyncAuthorizerResult } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import { verifyToken } from '../jwt-service';
+
+interface CallerContext {
+  userId: string;
+  role: string;
+}
+
+/**
+ * Lambda authorizer for the tracking AppSync API
+ * Validates the same JWT tokens as the API Gateway authorizer and hands the
+ * caller to the resolvers as resolverContext
+ */
+export async function handler(
+  event: AppSyncAuthorizerEvent
+): Promise<AppSyncAuthorizerResult<CallerContext>> {
+  try {
+    const token = event.authorizationToken.replace('Bearer ', '');
+
+    // Verify token
+    const payload = await verifyToken(token);
+
+    logger.info('AppSync token authorized', { userId: payload.userId });
+
+    return {
+      isAuthorized: true,
+      resolverContext: {
+        userId: payload.userId,
+        role: payload.role,
+      },
+    };
+  } catch (error) {
+    logger.error('AppSync authorization failed', error as Error);
+
+    return { isAuthorized: false };
+  }
+}
@@ -1,6 +1,6 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, UpdateCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand, QueryCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
 import { RDSDataClient, ExecuteStatementCommand } from '@aws-sdk/client-rds-data';
 import { S3Client, DeleteObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
@@ -24,6 +24,7 @@ const VENDORS_TABLE = process.env.VENDORS_TABLE!;
 const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
 const CALL_RECORDS_TABLE = process.env.CALL_RECORDS_TABLE!;
 const TRACKING_SESSIONS_TABLE = process.env.TRACKING_SESSIONS_TABLE!;
+const VENDOR_ROUTES_TABLE = process.env.VENDOR_ROUTES_TABLE!;
 const AURORA_CLUSTER_ARN = process.env.AURORA_CLUSTER_ARN!;
 const AURORA_SECRET_ARN = process.env.AURORA_SECRET_ARN!;
 const DATABASE_NAME = process.env.DATABASE_NAME!;
@@ -346,6 +347,10 @@ async function deleteTrackingData(userId: string): Promise<void> {
           UpdateExpression: 'REMOVE vendorPath, vendorLocation, route',
           ConditionExpression: 'attribute_exists(sessionId)',
         }));
+        await docClient.send(new DeleteCommand({
+          TableName: VENDOR_ROUTES_TABLE,
+          Key: { sessionId: session.sessionId },
+        }));
       }
     }
 
@@ -1,5 +1,5 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
 import { S3Client, ListObjectsV2Command, DeleteObjectsCommand } from '@aws-sdk/client-s3';
 import { Logger } from '@aws-lambda-powertools/logger';
 import { Tracer } from '@aws-lambda-powertools/tracer';
@@ -14,6 +14,7 @@ const docClient = DynamoDBDocumentClient.from(dynamoClient);
 const s3Client = tracer.captureAWSv3Client(new S3Client({}));
 
 const TRACKING_SESSIONS_TABLE = process.env.TRACKING_SESSIONS_TABLE!;
+const VENDOR_ROUTES_TABLE = process.env.VENDOR_ROUTES_TABLE!;
 const CALL_RECORDINGS_BUCKET = process.env.CALL_RECORDINGS_BUCKET!;
 const INCIDENT_MEDIA_BUCKET = process.env.INCIDENT_MEDIA_BUCKET!;
 const RETENTION_DAYS = 90;
@@ -64,7 +65,7 @@ export const handler = async (event: any): Promise<void> => {
 
 /**
  * Clean up GPS tracking sessions older than retention period
- * Remove vendorPath and detailed location data
+ * Remove vendorPath, the full route history and detailed location data
  */
 async function cleanupTrackingSessions(thresholdTimestamp: string): Promise<number> {
   let deletedCount = 0;
@@ -73,13 +74,15 @@ async function cleanupTrackingSessions(thresholdTimestamp: string): Promise<numb
   do {
     const command = new ScanCommand({
       TableName: TRACKING_SESSIONS_TABLE,
-      FilterExpression: 'createdAt < :threshold AND #status = :completed',
+      // Tracking sessions are stored with lowercase statuses; any session no
+      // longer active has a finished route
+      FilterExpression: 'createdAt < :threshold AND #status <> :active',
       ExpressionAttributeNames: {
         '#status': 'status',
       },
       ExpressionAttributeValues: {
         ':threshold': thresholdTimestamp,
-        ':completed': 'COMPLETED',
+        ':active': 'active',
       },
       ExclusiveStartKey: lastEvaluatedKey,
     });
@@ -96,6 +99,11 @@ async function cleanupTrackingSessions(thresholdTimestamp: string): Promise<numb
             UpdateExpression: 'REMOVE vendorPath, route, vendorLocation, driverLocation',
             ConditionExpression: 'attribute_exists(sessionId)',
           }));
+          // The full route is kept in its own table
+          await docClient.send(new DeleteCommand({
+            TableName: VENDOR_ROUTES_TABLE,
+            Key: { sessionId: session.sessionId },
+          }));
           deletedCount++;
         } catch (error) {
           logger.error('Failed to clean tracking session', { sessionId: session.sessionId, error });
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+/**
+ * Writes the incident lifecycle Step Functions definition generated from the
+ * lifecycle description. The infrastructure stack deploys the written file.
+ *
+ * Usage:
+ *   pnpm generate:asl
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { incidentLifecycleStateMachine } = require('../dist/state-machine/definition');
+
+const outputPath = path.join(__dirname, '../src/state-machine/incident-lifecycle.asl.json');
+
+fs.writeFileSync(outputPath, `${JSON.stringify(incidentLifecycleStateMachine, null, 2)}\n`);
+
+console.log(`Wrote ${path.relative(process.cwd(), outputPath)}`);
@@ -0,0 +1,226 @@
+import { Incident } from '@roadcall/types';
+import { ConflictError, ValidationError } from '@roadcall/utils';
+
+// Local DynamoDB stand-in: reads return snapshots and every write applies its
+// condition and changes in one step, like a single DynamoDB UpdateItem call
+jest.mock('@roadcall/aws-clients', () => {
+  const tables = new Map<string, Map<string, Record<string, unknown>>>();
+  const table = (name: string) => {
+    if (!tables.has(name)) {
+      tables.set(name, new Map());
+    }
+    return tables.get(name) as Map<string, Record<string, unknown>>;
+  };
+  const keyOf = (key: Record<string, unknown>) => JSON.stringify(key);
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    ...jest.requireActual('@roadcall/aws-clients'),
+    dynamodb: {
+      async get(tableName: string, key: Record<string, unknown>) {
+        const item = table(tableName).get(keyOf(key));
+        return item ? clone(item) : null;
+      },
+      async put(tableName: string, item: Record<string, unknown>) {
+        table(tableName).set(keyOf({ incidentId: item.incidentId }), clone(item));
+      },
+      async update(tableName: string, key: Record<string, unknown>, updates: object) {
+        const item = table(tableName).get(keyOf(key)) || { ...key };
+        table(tableName).set(keyOf(key), { ...item, ...clone(updates) });
+      },
+      async updateItem(
+        tableName: string,
+        key: Record<string, unknown>,
+        update: {
+          set?: Record<string, unknown>;
+          append?: Record<string, unknown[]>;
+          increment?: Record<string, number>;
+          expect?: Record<string, unknown>;
+        }
+      ) {
+        const item = clone(table(tableName).get(keyOf(key)) || { ...key });
+
+        const conditionHolds = Object.entries(update.expect || {}).every(([attr, value]) =>
+          value === undefined
+            ? item[attr] === undefined
+            : JSON.stringify(item[attr]) === JSON.stringify(value)
+        );
+        if (!conditionHolds) {
+          const error = new Error('The conditional request failed');
+          error.name = 'ConditionalCheckFailedException';
+          throw error;
+        }
+
+        Object.assign(item, clone(update.set || {}));
+        Object.entries(update.append || {}).forEach(([attr, items]) => {
+          item[attr] = [...((item[attr] as unknown[]) || []), ...clone(items)];
+        });
+        Object.entries(update.increment || {}).forEach(([attr, amount]) => {
+          item[attr] = ((item[attr] as number) || 0) + amount;
+        });
+
+        table(tableName).set(keyOf(key), item);
+      },
+    },
+    eventBridge: {
+      publishEvent: jest.fn().mockResolvedValue(undefined),
+    },
+    configStore: {
+      getIncidentType: jest.fn().mockResolvedValue({ active: true, defaultSlaTier: 'standard' }),
+      getSLATier: jest.fn().mockResolvedValue(undefined),
+    },
+  };
+});
+
+import { dynamodb } from '@roadcall/aws-clients';
+import {
+  updateIncidentStatus,
+  assignVendor,
+  addMediaToIncident,
+  requestFollowUp,
+  retryOnConflict,
+  getIncidentById,
+} from '../incident-service';
+
+describe('concurrent incident writes', () => {
+  let sequence = 0;
+
+  const seedIncident = async (overrides: Partial<Incident> = {}): Promise<Incident> => {
+    const incident: Incident = {
+      incidentId: `incident-${++sequence}`,
+      driverId: 'driver-123',
+      type: 'tire',
+      status: 'created',
+      location: {
+        lat: 40.7128,
+        lon: -74.006,
+        address: '123 Main St',
+        roadSnapped: { lat: 40.7128, lon: -74.006 },
+      },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      version: 1,
+      timeline: [
+        {
+          from: 'created',
+          to: 'created',
+          timestamp: new Date().toISOString(),
+          actor: 'driver-123',
+        },
+      ],
+      media: [],
+      ...overrides,
+    };
+    await dynamodb.put('', incident);
+    return incident;
+  };
+
+  const reload = async (incidentId: string): Promise<Incident> =>
+    (await getIncidentById(incidentId)) as Incident;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let exactly one of two racing transitions win', async () => {
+    const { incidentId } = await seedIncident({ status: 'vendor_en_route' });
+
+    const results = await Promise.allSettled([
+      updateIncidentStatus(incidentId, 'vendor_arrived', 'vendor-1'),
+      updateIncidentStatus(incidentId, 'cancelled', 'driver-123', 'No longer needed'),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1].status).toBe('rejected');
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+
+    const incident = await reload(incidentId);
+    expect(incident.status).toBe('vendor_arrived');
+    expect(incident.version).toBe(2);
+    expect(incident.timeline.map((t) => t.to)).toEqual(['created', 'vendor_arrived']);
+  });
+
+  it('should re-validate the losing transition when retried', async () => {
+    const { incidentId } = await seedIncident({ status: 'vendor_en_route' });
+
+    await Promise.all([
+      retryOnConflict(() => updateIncidentStatus(incidentId, 'vendor_arrived', 'vendor-1')),
+      retryOnConflict(() => updateIncidentStatus(incidentId, 'cancelled', 'driver-123')),
+    ]);
+
+    const incident = await reload(incidentId);
+    expect(incident.status).toBe('cancelled');
+    expect(incident.version).toBe(3);
+    expect(incident.timeline.map((t) => [t.from, t.to])).toEqual([
+      ['created', 'created'],
+      ['vendor_en_route', 'vendor_arrived'],
+      ['vendor_arrived', 'cancelled'],
+    ]);
+  });
+
+  it('should surface a retried transition that is no longer valid', async () => {
+    const { incidentId } = await seedIncident({ status: 'vendor_en_route' });
+
+    const results = await Promise.allSettled([
+      retryOnConflict(() => updateIncidentStatus(incidentId, 'cancelled', 'driver-123')),
+      retryOnConflict(() => updateIncidentStatus(incidentId, 'vendor_arrived', 'vendor-1')),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ValidationError);
+    expect((await reload(incidentId)).timeline).toHaveLength(2);
+  });
+
+  it('should assign only one of two racing vendors', async () => {
+    const { incidentId } = await seedIncident();
+
+    const results = await Promise.allSettled([
+      assignVendor(incidentId, 'vendor-1', 'system'),
+      assignVendor(incidentId, 'vendor-2', 'system'),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+
+    const incident = await reload(incidentId);
+    expect(incident.assignedVendorId).toBe('vendor-1');
+    expect(incident.status).toBe('vendor_assigned');
+    expect(incident.timeline).toHaveLength(2);
+  });
+
+  it('should version records written before versioning on their first write', async () => {
+    const { incidentId } = await seedIncident({ status: 'vendor_assigned', version: undefined });
+
+    await updateIncidentStatus(incidentId, 'vendor_en_route', 'vendor-1');
+
+    expect((await reload(incidentId)).version).toBe(1);
+  });
+
+  it('should keep every concurrently uploaded media item', async () => {
+    const { incidentId } = await seedIncident({ status: 'vendor_arrived' });
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((n) =>
+        addMediaToIncident(incidentId, 'photo', `incidents/${incidentId}/${n}.jpg`, 'vendor-1')
+      )
+    );
+
+    expect((await reload(incidentId)).media).toHaveLength(5);
+  });
+
+  it('should give racing follow-up requests distinct leg numbers', async () => {
+    const { incidentId } = await seedIncident({ status: 'vendor_arrived' });
+    const request = { type: 'towing' as const, reason: 'Repair will not hold' };
+
+    const legs = await Promise.all([
+      retryOnConflict(() => requestFollowUp(incidentId, request, 'vendor-1')),
+      retryOnConflict(() => requestFollowUp(incidentId, request, 'vendor-1')),
+    ]);
+
+    expect(legs.map((leg) => leg.legNumber).sort()).toEqual([2, 3]);
+
+    const root = await reload(incidentId);
+    expect(root.followUps?.map((f) => f.legNumber)).toEqual([2, 3]);
+    expect(root.timeline.filter((t) => t.leg)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,178 @@
+import { Incident } from '@roadcall/types';
+import { ConflictError, ValidationError } from '@roadcall/utils';
+
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    get: jest.fn(),
+    updateItem: jest.fn().mockResolvedValue(undefined),
+  },
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { dynamodb } from '@roadcall/aws-clients';
+import {
+  escalateIncident,
+  claimEscalation,
+  reassignIncident,
+  assignVendor,
+  updateIncidentStatus,
+} from '../incident-service';
+
+describe('incident escalation', () => {
+  const mockGet = dynamodb.get as jest.Mock;
+  const mockUpdateItem = dynamodb.updateItem as jest.Mock;
+
+  const createIncident = (overrides: Partial<Incident> = {}): Incident => ({
+    incidentId: 'incident-123',
+    driverId: 'driver-123',
+    type: 'tire',
+    status: 'created',
+    location: {
+      lat: 40.7128,
+      lon: -74.006,
+      address: '123 Main St',
+      roadSnapped: { lat: 40.7128, lon: -74.006 },
+    },
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: 3,
+    timeline: [],
+    media: [],
+    ...overrides,
+  });
+
+  const escalated = (overrides: Partial<Incident> = {}): Incident =>
+    createIncident({
+      status: 'escalated',
+      escalation: {
+        reason: 'Escalated: No vendor found after maximum attempts after 3 attempts',
+        escalatedAt: new Date().toISOString(),
+        previousStatus: 'created',
+        attempts: 3,
+      },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should escalate with the status the incident stalled at', async () => {
+    mockGet.mockResolvedValue(createIncident());
+
+    await escalateIncident('incident-123', 'No vendor found', 3);
+
+    const [, , update] = mockUpdateItem.mock.calls[0];
+    expect(update.set.status).toBe('escalated');
+    expect(update.set.escalation).toEqual(
+      expect.objectContaining({ reason: 'No vendor found', previousStatus: 'created', attempts: 3 })
+    );
+    expect(update.append.timeline[0]).toEqual(
+      expect.objectContaining({ from: 'created', to: 'escalated' })
+    );
+  });
+
+  it('should not re-escalate an escalated incident', async () => {
+    mockGet.mockResolvedValue(escalated());
+
+    await escalateIncident('incident-123', 'No vendor found', 3);
+
+    expect(mockUpdateItem).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a claim on an escalation another dispatcher owns', async () => {
+    mockGet.mockResolvedValue(
+      escalated({
+        escalation: {
+          reason: 'No vendor found',
+          escalatedAt: new Date().toISOString(),
+          previousStatus: 'created',
+          claimedBy: 'dispatcher-1',
+        },
+      })
+    );
+
+    await expect(claimEscalation('incident-123', 'dispatcher-2')).rejects.toThrow(ConflictError);
+    expect(mockUpdateItem).not.toHaveBeenCalled();
+  });
+
+  it('should record the claiming dispatcher', async () => {
+    mockGet.mockResolvedValue(escalated());
+
+    await claimEscalation('incident-123', 'dispatcher-1');
+
+    const [, , update] = mockUpdateItem.mock.calls[0];
+    expect(update.set.escalation.claimedBy).toBe('dispatcher-1');
+    expect(update.expect).toEqual({ status: 'escalated', version: 3 });
+  });
+
+  it('should let a dispatcher hand-assign a vendor to an escalated incident', async () => {
+    mockGet.mockResolvedValue(escalated());
+
+    await assignVendor('incident-123', 'vendor-1', 'dispatcher-1');
+
+    const [, , update] = mockUpdateItem.mock.calls[0];
+    expect(update.set).toEqual(
+      expect.objectContaining({ status: 'vendor_assigned', assignedVendorId: 'vendor-1' })
+    );
+    expect(update.expect).toEqual(expect.objectContaining({ assignedVendorId: undefined }));
+  });
+
+  it('should release the stalled vendor when hand-assigning a replacement', async () => {
+    mockGet.mockResolvedValue(escalated({ assignedVendorId: 'vendor-1' }));
+
+    await assignVendor('incident-123', 'vendor-2', 'dispatcher-1');
+
+    const [, , update] = mockUpdateItem.mock.calls[0];
+    expect(update.set).toEqual(
+      expect.objectContaining({ status: 'vendor_assigned', assignedVendorId: 'vendor-2' })
+    );
+    expect(update.remove).toEqual(['agreedPayout', 'dispatch']);
+    expect(update.expect).toEqual(
+      expect.objectContaining({ assignedVendorId: 'vendor-1', status: 'escalated' })
+    );
+  });
+
+  it('should not hand-assign the vendor already on the job', async () => {
+    mockGet.mockResolvedValue(escalated({ assignedVendorId: 'vendor-1' }));
+
+    await expect(assignVendor('incident-123', 'vendor-1', 'dispatcher-1')).rejects.toThrow(
+      'resume the incident instead'
+    );
+    expect(mockUpdateItem).not.toHaveBeenCalled();
+  });
+
+  it('should clear the vendor when reassigning', async () => {
+    mockGet.mockResolvedValue(
+      createIncident({ status: 'vendor_en_route', assignedVendorId: 'vendor-1' })
+    );
+
+    await reassignIncident('incident-123', 'Vendor vendor-1 failed to arrive within 30 minutes');
+
+    const [, , update] = mockUpdateItem.mock.calls[0];
+    expect(update.set.status).toBe('reassigning');
+    expect(update.remove).toEqual(['assignedVendorId', 'agreedPayout', 'dispatch']);
+  });
+
+  it('should resume a stalled job only at the status it was escalated from', async () => {
+    const stalled = escalated({
+      assignedVendorId: 'vendor-1',
+      escalation: {
+        reason: 'Work not completed in time',
+        escalatedAt: new Date().toISOString(),
+        previousStatus: 'work_in_progress',
+      },
+    });
+    mockGet.mockResolvedValue(stalled);
+
+    await expect(
+      updateIncidentStatus('incident-123', 'vendor_arrived', 'dispatcher-1')
+    ).rejects.toThrow(ValidationError);
+
+    await updateIncidentStatus('incident-123', 'work_in_progress', 'dispatcher-1');
+    expect(mockUpdateItem.mock.calls[0][2].set.status).toBe('work_in_progress');
+  });
+});
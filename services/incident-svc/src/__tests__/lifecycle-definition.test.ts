@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { incidentLifecycleStateMachine } from '../state-machine/definition';
+import { incidentLifecycle } from '../state-machine/lifecycle/incident-lifecycle';
+
+describe('incident lifecycle definition', () => {
+  it('should match the deployed definition file', () => {
+    const deployed = JSON.parse(
+      fs.readFileSync(path.join(__dirname, '../state-machine/incident-lifecycle.asl.json'), 'utf-8')
+    );
+
+    // Out of date: run `pnpm generate:asl` in services/incident-svc
+    expect(deployed).toEqual(incidentLifecycleStateMachine);
+  });
+
+  it('should only move to states it defines', () => {
+    const targets = Object.values(incidentLifecycle.states).flatMap((state) => {
+      switch (state.type) {
+        case 'task':
+          return [state.next, ...(state.catch || []).map((c) => c.next)];
+        case 'await':
+          return [state.next, state.onTimeout];
+        case 'choice':
+          return [state.default, ...state.choices.map((rule) => rule.next)];
+        case 'pass':
+          return state.end ? [] : [state.next];
+        default:
+          return [state.next];
+      }
+    });
+
+    expect(targets.filter((target) => !(target && incidentLifecycle.states[target]))).toEqual([]);
+  });
+});
@@ -0,0 +1,327 @@
+import { Incident, LifecycleTimeouts } from '@roadcall/types';
+
+// Local DynamoDB stand-in: reads return snapshots and every write applies its
+// condition and changes in one step, like a single DynamoDB UpdateItem call
+jest.mock('@roadcall/aws-clients', () => {
+  const actual = jest.requireActual('@roadcall/aws-clients');
+  const items = new Map<string, Record<string, unknown>>();
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    ...actual,
+    dynamodb: {
+      async get(_tableName: string, key: { incidentId: string }) {
+        const item = items.get(key.incidentId);
+        return item ? clone(item) : null;
+      },
+      async put(_tableName: string, item: Record<string, unknown>) {
+        items.set(item.incidentId as string, clone(item));
+      },
+      async updateItem(
+        _tableName: string,
+        key: { incidentId: string },
+        update: {
+          set?: Record<string, unknown>;
+          append?: Record<string, unknown[]>;
+          increment?: Record<string, number>;
+          remove?: string[];
+          expect?: Record<string, unknown>;
+        }
+      ) {
+        const item = clone(items.get(key.incidentId) || { ...key });
+
+        const conditionHolds = Object.entries(update.expect || {}).every(([attr, value]) =>
+          value === undefined
+            ? item[attr] === undefined
+            : JSON.stringify(item[attr]) === JSON.stringify(value)
+        );
+        if (!conditionHolds) {
+          const error = new Error('The conditional request failed');
+          error.name = 'ConditionalCheckFailedException';
+          throw error;
+        }
+
+        Object.assign(item, clone(update.set || {}));
+        Object.entries(update.append || {}).forEach(([attr, list]) => {
+          item[attr] = [...((item[attr] as unknown[]) || []), ...clone(list)];
+        });
+        Object.entries(update.increment || {}).forEach(([attr, amount]) => {
+          item[attr] = ((item[attr] as number) || 0) + amount;
+        });
+        (update.remove || []).forEach((attr) => delete item[attr]);
+
+        items.set(key.incidentId, item);
+      },
+    },
+    eventBridge: {
+      publishEvent: jest.fn().mockResolvedValue(undefined),
+    },
+    configStore: {
+      getMatchingConfig: jest.fn().mockResolvedValue(null),
+      getDispatchStrategy: jest.fn().mockResolvedValue(actual.DEFAULT_DISPATCH_STRATEGY),
+      getLifecycleTimeouts: jest.fn().mockResolvedValue(actual.DEFAULT_LIFECYCLE_TIMEOUTS),
+    },
+  };
+});
+
+import {
+  dynamodb,
+  eventBridge,
+  configStore,
+  DEFAULT_LIFECYCLE_TIMEOUTS,
+} from '@roadcall/aws-clients';
+import { assignVendor, getIncidentById, updateIncidentStatus } from '../incident-service';
+import { incidentLifecycle } from '../state-machine/lifecycle/incident-lifecycle';
+import {
+  LocalLifecycleHandlers,
+  LocalLifecycleRunner,
+} from '../state-machine/lifecycle/local-runner';
+import { handler as resolveLifecycleTimeouts } from '../state-machine/handlers/resolve-lifecycle-timeouts';
+import { handler as triggerVendorMatching } from '../state-machine/handlers/trigger-vendor-matching';
+import { handler as checkVendorResponse } from '../state-machine/handlers/check-vendor-response';
+import { handler as checkVendorArrival } from '../state-machine/handlers/check-vendor-arrival';
+import { handler as handleVendorTimeout } from '../state-machine/handlers/handle-vendor-timeout';
+import { handler as escalateIncident } from '../state-machine/handlers/escalate-incident';
+
+describe('incident lifecycle (local runner)', () => {
+  const mockPublishEvent = eventBridge.publishEvent as jest.Mock;
+  const mockGetLifecycleTimeouts = configStore.getLifecycleTimeouts as jest.Mock;
+
+  const startTime = new Date('2024-06-01T12:00:00.000Z').getTime();
+  const minutes = (n: number) => n * 60 * 1000;
+  let sequence = 0;
+
+  // Vendors who accept the next match request, in order
+  let acceptingVendors: string[];
+  // Vendors who are on site by their first arrival check
+  let arrivingVendors: string[];
+
+  const handlers: LocalLifecycleHandlers = {
+    resolveLifecycleTimeouts,
+    triggerVendorMatching,
+    checkVendorResponse,
+    checkVendorArrival: async (event, context, callback) => {
+      if (arrivingVendors.includes(event.vendorId)) {
+        await updateIncidentStatus(event.incidentId, 'vendor_en_route', event.vendorId);
+        await updateIncidentStatus(event.incidentId, 'vendor_arrived', event.vendorId);
+      }
+      return checkVendorArrival(event, context, callback);
+    },
+    handleVendorTimeout,
+    escalateIncident,
+  };
+
+  const runner = () =>
+    new LocalLifecycleRunner(incidentLifecycle, handlers, {
+      clock: { now: () => Date.now(), set: (time) => jest.setSystemTime(time) },
+    });
+
+  const seedIncident = async (overrides: Partial<Incident> = {}): Promise<Incident> => {
+    const incident: Incident = {
+      incidentId: `incident-${++sequence}`,
+      driverId: 'driver-123',
+      type: 'tire',
+      status: 'created',
+      slaTier: 'Priority',
+      location: {
+        lat: 40.7128,
+        lon: -74.006,
+        address: '123 Main St',
+        roadSnapped: { lat: 40.7128, lon: -74.006 },
+      },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      version: 1,
+      timeline: [],
+      media: [],
+      ...overrides,
+    };
+    await dynamodb.put('', incident);
+    return incident;
+  };
+
+  const reload = async (incidentId: string): Promise<Incident> =>
+    (await getIncidentById(incidentId)) as Incident;
+
+  const matchRequests = () =>
+    mockPublishEvent.mock.calls
+      .map(([event]) => event)
+      .filter((event) => event.detailType === 'MatchRequested');
+
+  const useTimeouts = (timeouts: Partial<LifecycleTimeouts>) =>
+    mockGetLifecycleTimeouts.mockResolvedValue({ ...DEFAULT_LIFECYCLE_TIMEOUTS, ...timeouts });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: startTime });
+    jest.clearAllMocks();
+    mockGetLifecycleTimeouts.mockResolvedValue(DEFAULT_LIFECYCLE_TIMEOUTS);
+    acceptingVendors = [];
+    arrivingVendors = [];
+
+    // match-svc records the vendor who accepts a match request
+    mockPublishEvent.mockImplementation(async ({ detailType, detail }) => {
+      const vendorId = detailType === 'MatchRequested' && acceptingVendors.shift();
+      if (vendorId) {
+        await dynamodb.updateItem(
+          '',
+          { incidentId: detail.incidentId },
+          { set: { assignedVendorId: vendorId } }
+        );
+      }
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start another matching attempt each round and escalate after the last', async () => {
+    const { incidentId } = await seedIncident();
+
+    const execution = await runner().start({ incidentId });
+
+    expect(execution.status).toBe('WAITING');
+    expect(execution.waitingIn).toBe('WaitForDispatcher');
+    expect(matchRequests().map((event) => event.detail.attempt)).toEqual([1, 2, 3]);
+    expect(execution.history.slice(-2)).toEqual(['EscalateToDispatcher', 'WaitForDispatcher']);
+
+    const incident = await reload(incidentId);
+    expect(incident.status).toBe('escalated');
+    expect(incident.escalation).toEqual(
+      expect.objectContaining({ previousStatus: 'created', attempts: 3 })
+    );
+    // Three two-minute offer rounds
+    expect(Date.now() - startTime).toBe(minutes(6));
+  });
+
+  it("should reassign a vendor who misses the SLA tier's arrival time", async () => {
+    useTimeouts({ arrivalTimeoutMinutes: 45 });
+    acceptingVendors = ['vendor-1', 'vendor-2'];
+    arrivingVendors = ['vendor-2'];
+    const { incidentId } = await seedIncident();
+
+    const execution = await runner().start({ incidentId });
+
+    expect(execution.status).toBe('WAITING');
+    expect(execution.waitingIn).toBe('WaitForWorkCompletion');
+    expect(execution.history.filter((state) => state === 'CheckVendorArrival')).toHaveLength(10);
+
+    const incident = await reload(incidentId);
+    expect(incident.assignedVendorId).toBe('vendor-2');
+    expect(incident.timeline.map((t) => t.to)).toEqual([
+      'vendor_assigned',
+      'reassigning',
+      'vendor_assigned',
+      'vendor_en_route',
+      'vendor_arrived',
+    ]);
+
+    const [firstAssignment, reassignment] = incident.timeline;
+    expect(reassignment.reason).toBe('Vendor vendor-1 failed to arrive within 45 minutes');
+    expect(
+      new Date(reassignment.timestamp).getTime() - new Date(firstAssignment.timestamp).getTime()
+    ).toBe(minutes(45));
+  });
+
+  it('should close the incident once work and payment resume the execution', async () => {
+    acceptingVendors = ['vendor-1'];
+    arrivingVendors = ['vendor-1'];
+    const { incidentId } = await seedIncident();
+
+    const execution = await runner().start({ incidentId });
+    expect(execution.events).toEqual([
+      expect.objectContaining({
+        source: 'incident.lifecycle',
+        detailType: 'WorkCompletionWait',
+        detail: { incidentId, taskToken: execution.taskToken },
+      }),
+    ]);
+
+    await execution.sendTaskSuccess(execution.taskToken as string, { incidentId });
+    expect(execution.waitingIn).toBe('WaitForPaymentApproval');
+
+    await execution.sendTaskSuccess(execution.taskToken as string, { paymentId: 'payment-1' });
+    expect(execution.status).toBe('SUCCEEDED');
+    expect(execution.output).toEqual(expect.objectContaining({ incidentId, status: 'closed' }));
+  });
+
+  it("should escalate work not completed within the SLA tier's window", async () => {
+    useTimeouts({ workCompletionSeconds: 4 * 60 * 60 });
+    acceptingVendors = ['vendor-1'];
+    arrivingVendors = ['vendor-1'];
+    const { incidentId } = await seedIncident();
+
+    const execution = await runner().start({ incidentId });
+
+    await execution.advance(4 * 60 * 60 - 1);
+    expect(execution.waitingIn).toBe('WaitForWorkCompletion');
+
+    await execution.advance(1);
+    expect(execution.waitingIn).toBe('WaitForDispatcher');
+    expect(execution.history.slice(-2)).toEqual(['EscalateStalledWork', 'WaitForDispatcher']);
+
+    const incident = await reload(incidentId);
+    expect(incident.status).toBe('escalated');
+    expect(incident.escalation).toEqual(
+      expect.objectContaining({ previousStatus: 'vendor_arrived' })
+    );
+    expect(incident.escalation?.reason).toContain('Work not completed in time');
+  });
+
+  it('should wait for arrival of the vendor a dispatcher hand-assigns', async () => {
+    useTimeouts({ arrivalTimeoutMinutes: 45 });
+    arrivingVendors = ['vendor-9'];
+    const { incidentId } = await seedIncident();
+
+    const execution = await runner().start({ incidentId });
+    expect(execution.events).toEqual([
+      expect.objectContaining({
+        detailType: 'DispatcherAssignmentWait',
+        detail: { incidentId, taskToken: execution.taskToken },
+      }),
+    ]);
+
+    await execution.advance(60 * 60);
+    await assignVendor(incidentId, 'vendor-9', 'dispatcher-1');
+    await execution.sendTaskSuccess(execution.taskToken as string, {
+      incidentId,
+      vendorId: 'vendor-9',
+    });
+
+    expect(execution.waitingIn).toBe('WaitForWorkCompletion');
+    expect(execution.history).toContain('DispatcherAssigned');
+    expect(execution.data.assignment).toEqual({
+      vendorId: 'vendor-9',
+      assignedAt: new Date(startTime + minutes(66)).toISOString(),
+    });
+
+    const incident = await reload(incidentId);
+    expect(incident.timeline.map((t) => t.to)).toEqual([
+      'escalated',
+      'vendor_assigned',
+      'vendor_en_route',
+      'vendor_arrived',
+    ]);
+  });
+
+  it('should end the lifecycle of an escalation no dispatcher hand-assigns', async () => {
+    useTimeouts({ dispatcherAssignmentSeconds: 24 * 60 * 60 });
+    const { incidentId } = await seedIncident();
+
+    const execution = await runner().start({ incidentId });
+    await execution.advance(24 * 60 * 60);
+
+    expect(execution.status).toBe('SUCCEEDED');
+    expect(execution.history.slice(-2)).toEqual(['WaitForDispatcher', 'EscalationComplete']);
+    expect(execution.output).toEqual(expect.objectContaining({ incidentId, status: 'escalated' }));
+  });
+
+  it('should hold scheduled incidents until matching starts', async () => {
+    const matchingStartsAt = new Date(startTime + minutes(90)).toISOString();
+    const { incidentId } = await seedIncident();
+
+    await runner().start({ incidentId, matchingStartsAt });
+
+    expect(matchRequests()[0].detail.requestedAt).toBe(matchingStartsAt);
+  });
+});
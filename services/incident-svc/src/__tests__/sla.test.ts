@@ -0,0 +1,357 @@
+import { Incident, SLATier } from '@roadcall/types';
+
+// Local DynamoDB stand-in: reads return snapshots and every write applies its
+// condition and changes in one step, like a single DynamoDB UpdateItem call
+jest.mock('@roadcall/aws-clients', () => {
+  const actual = jest.requireActual('@roadcall/aws-clients');
+  const items = new Map<string, Record<string, unknown>>();
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    ...actual,
+    dynamodb: {
+      async get(_tableName: string, key: { incidentId: string }) {
+        const item = items.get(key.incidentId);
+        return item ? clone(item) : null;
+      },
+      async put(_tableName: string, item: Record<string, unknown>) {
+        items.set(item.incidentId as string, clone(item));
+      },
+      async queryAll(
+        _tableName: string,
+        keyCondition: string,
+        values: Record<string, unknown>,
+        _indexName?: string,
+        names: Record<string, string> = {}
+      ) {
+        // status is a DynamoDB reserved word and has to go through a name placeholder
+        const [attr, placeholder] = keyCondition.split(' = ');
+        if (!names[attr]) {
+          throw new Error(`Attribute name is a reserved keyword: ${attr}`);
+        }
+        return [...items.values()]
+          .filter((item) => item[names[attr]] === values[placeholder])
+          .map(clone);
+      },
+      async updateItem(
+        _tableName: string,
+        key: { incidentId: string },
+        update: {
+          set?: Record<string, unknown>;
+          append?: Record<string, unknown[]>;
+          increment?: Record<string, number>;
+          remove?: string[];
+          expect?: Record<string, unknown>;
+        }
+      ) {
+        const item = clone(items.get(key.incidentId) || { ...key });
+
+        const conditionHolds = Object.entries(update.expect || {}).every(([attr, value]) =>
+          value === undefined
+            ? item[attr] === undefined
+            : JSON.stringify(item[attr]) === JSON.stringify(value)
+        );
+        if (!conditionHolds) {
+          const error = new Error('The conditional request failed');
+          error.name = 'ConditionalCheckFailedException';
+          throw error;
+        }
+
+        Object.assign(item, clone(update.set || {}));
+        Object.entries(update.append || {}).forEach(([attr, list]) => {
+          item[attr] = [...((item[attr] as unknown[]) || []), ...clone(list)];
+        });
+        Object.entries(update.increment || {}).forEach(([attr, amount]) => {
+          item[attr] = ((item[attr] as number) || 0) + amount;
+        });
+        (update.remove || []).forEach((attr) => delete item[attr]);
+
+        items.set(key.incidentId, item);
+      },
+    },
+    eventBridge: {
+      publishEvent: jest.fn().mockResolvedValue(undefined),
+    },
+    configStore: {
+      getIncidentType: jest.fn(),
+      getSLATier: jest.fn(),
+      getContractTier: jest.fn(),
+      getSlaAtRiskPercent: jest.fn().mockResolvedValue(80),
+      getScheduledMatchLeadMinutes: jest.fn().mockResolvedValue(120),
+    },
+  };
+});
+
+jest.mock('../location-service', () => ({
+  enrichIncidentLocation: jest.fn().mockResolvedValue({
+    location: {
+      lat: 40.7128,
+      lon: -74.006,
+      address: '123 Main St',
+      roadSnapped: { lat: 40.7128, lon: -74.006 },
+    },
+  }),
+}));
+
+import { configStore, dynamodb, eventBridge } from '@roadcall/aws-clients';
+import {
+  buildWorkPricing,
+  checkSlaDeadlines,
+  createIncident,
+  getIncidentById,
+  overrideSlaTier,
+  updateIncidentStatus,
+} from '../incident-service';
+
+describe('incident SLA tracking', () => {
+  const mockPublishEvent = eventBridge.publishEvent as jest.Mock;
+  const mockGetSLATier = configStore.getSLATier as jest.Mock;
+  const mockGetContractTier = configStore.getContractTier as jest.Mock;
+
+  const tiers: Record<string, SLATier> = {
+    Standard: {
+      name: 'Standard',
+      responseTimeMinutes: 15,
+      arrivalTimeMinutes: 60,
+      pricingMultiplier: 1,
+      priority: 3,
+    },
+    Priority: {
+      name: 'Priority',
+      responseTimeMinutes: 10,
+      arrivalTimeMinutes: 45,
+      pricingMultiplier: 1.25,
+      priority: 2,
+    },
+    Emergency: {
+      name: 'Emergency',
+      responseTimeMinutes: 5,
+      arrivalTimeMinutes: 30,
+      pricingMultiplier: 1.5,
+      priority: 1,
+    },
+  };
+
+  const startTime = new Date('2024-06-01T12:00:00.000Z').getTime();
+  const minutes = (n: number) => n * 60 * 1000;
+  const at = (offsetMinutes: number) => new Date(startTime + minutes(offsetMinutes));
+
+  // Incidents from earlier tests stay in the table, so only look at one incident
+  const slaEvents = (incidentId: string) =>
+    mockPublishEvent.mock.calls
+      .map(([event]) => event)
+      .filter((event) => ['SlaAtRisk', 'SlaBreached'].includes(event.detailType))
+      .filter((event) => event.detail.incidentId === incidentId)
+      .map((event) => `${event.detailType}:${event.detail.deadline}`);
+
+  const reload = async (incidentId: string): Promise<Incident> =>
+    (await getIncidentById(incidentId)) as Incident;
+
+  const createStandardIncident = () => createIncident('driver-123', 'tire', 40.7128, -74.006);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: startTime });
+    jest.clearAllMocks();
+    (configStore.getIncidentType as jest.Mock).mockResolvedValue({
+      key: 'tire',
+      active: true,
+      defaultSlaTier: 'Standard',
+    });
+    mockGetSLATier.mockImplementation(async (name?: string) => tiers[name || 'Standard']);
+    mockGetContractTier.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should give incidents the incident type's tier and its deadlines", async () => {
+    const incident = await createStandardIncident();
+
+    expect(incident.slaTier).toBe('Standard');
+    expect(incident.sla).toEqual({
+      tier: 'Standard',
+      source: 'incident_type',
+      pricingMultiplier: 1,
+      clockStartsAt: at(0).toISOString(),
+      responseDeadline: at(15).toISOString(),
+      arrivalDeadline: at(60).toISOString(),
+    });
+  });
+
+  it("should prefer a dispatcher's tier over the company contract", async () => {
+    mockGetContractTier.mockResolvedValue(tiers.Priority);
+
+    const contracted = await createIncident(
+      'driver-123',
+      'tire',
+      40.7128,
+      -74.006,
+      undefined,
+      undefined,
+      undefined,
+      {
+        companyId: 'company-1',
+      }
+    );
+    const overridden = await createIncident(
+      'driver-123',
+      'tire',
+      40.7128,
+      -74.006,
+      undefined,
+      undefined,
+      undefined,
+      {
+        companyId: 'company-1',
+        tier: 'Emergency',
+        requestedBy: 'dispatcher-1',
+      }
+    );
+
+    expect(contracted.sla).toEqual(
+      expect.objectContaining({ tier: 'Priority', source: 'contract' })
+    );
+    expect(contracted.companyId).toBe('company-1');
+    expect(overridden.sla).toEqual(
+      expect.objectContaining({
+        tier: 'Emergency',
+        source: 'dispatcher',
+        overriddenBy: 'dispatcher-1',
+      })
+    );
+  });
+
+  it('should start the SLA clock when the service window opens', async () => {
+    const serviceWindow = { start: at(240).toISOString(), end: at(360).toISOString() };
+
+    const incident = await createIncident(
+      'driver-123',
+      'tire',
+      40.7128,
+      -74.006,
+      undefined,
+      undefined,
+      serviceWindow
+    );
+
+    expect(incident.sla?.responseDeadline).toBe(at(255).toISOString());
+  });
+
+  it('should publish each alert once as deadlines near and pass', async () => {
+    const { incidentId } = await createStandardIncident();
+
+    await checkSlaDeadlines(at(11));
+    expect(slaEvents(incidentId)).toEqual([]);
+
+    // 80% of the 15-minute response window
+    await checkSlaDeadlines(at(12));
+    await checkSlaDeadlines(at(13));
+    expect(slaEvents(incidentId)).toEqual(['SlaAtRisk:response']);
+
+    await checkSlaDeadlines(at(15));
+    await checkSlaDeadlines(at(48));
+    expect(slaEvents(incidentId)).toEqual([
+      'SlaAtRisk:response',
+      'SlaBreached:response',
+      'SlaAtRisk:arrival',
+    ]);
+
+    const breach = mockPublishEvent.mock.calls.find(
+      ([event]) => event.detailType === 'SlaBreached' && event.detail.incidentId === incidentId
+    );
+    expect(breach[0].detail).toEqual(
+      expect.objectContaining({
+        incidentId,
+        slaTier: 'Standard',
+        minutesLate: 0,
+        status: 'created',
+      })
+    );
+    expect((await reload(incidentId)).sla).toEqual(
+      expect.objectContaining({ atRisk: ['response', 'arrival'], breached: ['response'] })
+    );
+  });
+
+  it('should stop the response clock when the vendor accepted', async () => {
+    const { incidentId } = await createStandardIncident();
+    const incident = await reload(incidentId);
+    await dynamodb.put('', {
+      ...incident,
+      assignedVendorId: 'vendor-1',
+      agreedPayout: {
+        offerId: 'offer-1',
+        amountCents: 12500,
+        estimatedCents: 12500,
+        negotiated: false,
+        agreedAt: at(14).toISOString(),
+      },
+    });
+
+    // The lifecycle records the assignment after the deadline
+    jest.setSystemTime(at(16));
+    const assigned = await updateIncidentStatus(incidentId, 'vendor_assigned', 'system');
+
+    expect(assigned.sla?.respondedAt).toBe(at(14).toISOString());
+    expect(slaEvents(incidentId)).toEqual([]);
+  });
+
+  it('should report a deadline met late that no check caught', async () => {
+    const { incidentId } = await createStandardIncident();
+    await updateIncidentStatus(incidentId, 'vendor_assigned', 'system');
+    await updateIncidentStatus(incidentId, 'vendor_en_route', 'vendor-1');
+
+    jest.setSystemTime(at(61));
+    const arrived = await updateIncidentStatus(incidentId, 'vendor_arrived', 'vendor-1');
+
+    expect(slaEvents(incidentId)).toEqual(['SlaBreached:arrival']);
+    expect(arrived.sla).toEqual(
+      expect.objectContaining({ arrivedAt: at(61).toISOString(), breached: ['arrival'] })
+    );
+
+    // Met deadlines are no longer checked
+    await checkSlaDeadlines(at(90));
+    expect(slaEvents(incidentId)).toEqual(['SlaBreached:arrival']);
+  });
+
+  it('should recompute open deadlines when a dispatcher changes the tier', async () => {
+    const { incidentId } = await createStandardIncident();
+    await checkSlaDeadlines(at(12));
+
+    const incident = await overrideSlaTier(incidentId, 'Emergency', 'dispatcher-1');
+
+    expect(incident.slaTier).toBe('Emergency');
+    expect(incident.sla).toEqual(
+      expect.objectContaining({
+        source: 'dispatcher',
+        pricingMultiplier: 1.5,
+        responseDeadline: at(5).toISOString(),
+        atRisk: [],
+      })
+    );
+
+    await checkSlaDeadlines(at(12));
+    expect(slaEvents(incidentId)).toEqual(['SlaAtRisk:response', 'SlaBreached:response']);
+  });
+
+  it('should bill the SLA premium on its own line', () => {
+    const incident = {
+      slaTier: 'Priority',
+      agreedPayout: {
+        offerId: 'offer-1',
+        amountCents: 12500,
+        estimatedCents: 12500,
+        negotiated: false,
+        agreedAt: at(0).toISOString(),
+        slaTier: 'Priority',
+        pricingMultiplier: 1.25,
+      },
+    } as Incident;
+
+    expect(buildWorkPricing(incident)).toEqual({
+      basePrice: 10000,
+      mileageCharge: 0,
+      slaPremium: { tier: 'Priority', multiplier: 1.25, amount: 2500 },
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger, NotFoundError, ValidationError, AuthorizationError } from '@roadcall/utils';
+import { assignVendor, getIncidentById, retryOnConflict } from '../incident-service';
+
+interface AssignVendorRequest {
+  vendorId: string;
+}
+
+/**
+ * Lambda handler for a dispatcher hand-assigning a vendor to an escalated incident
+ * POST /incidents/{id}/assign
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const incidentId = event.pathParameters?.id;
+    if (!incidentId) {
+      throw new NotFoundError('Incident', 'undefined');
+    }
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: AssignVendorRequest = JSON.parse(event.body);
+
+    if (!body.vendorId) {
+      throw new ValidationError('Missing required field: vendorId');
+    }
+
+    // Get user context
+    const userId = event.requestContext.authorizer?.userId;
+    const role = event.requestContext.authorizer?.role;
+
+    if (role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers can hand-assign vendors');
+    }
+
+    const incident = await getIncidentById(incidentId);
+    if (!incident) {
+      throw new NotFoundError('Incident', incidentId);
+    }
+
+    if (incident.status !== 'escalated') {
+      throw new ValidationError('Only escalated incidents can be hand-assigned', {
+        status: incident.status,
+      });
+    }
+
+    // Dispatchers must own the escalation; admins can step in on any
+    if (role === 'dispatcher' && incident.escalation?.claimedBy !== userId) {
+      throw new AuthorizationError('Claim the escalation before assigning a vendor');
+    }
+
+    logger.info('Hand-assigning vendor', { incidentId, vendorId: body.vendorId });
+
+    const updatedIncident = await retryOnConflict(() =>
+      assignVendor(incidentId, body.vendorId, userId)
+    );
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        incident: updatedIncident,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Assign vendor failed', error as Error, { requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
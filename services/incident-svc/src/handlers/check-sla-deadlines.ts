@@ -0,0 +1,18 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import { checkSlaDeadlines } from '../incident-service';
+
+/**
+ * Lambda handler run every minute by an EventBridge schedule.
+ * Publishes SlaAtRisk and SlaBreached for open incidents.
+ */
+export async function handler(event: ScheduledEvent): Promise<void> {
+  try {
+    const published = await checkSlaDeadlines(new Date(event.time));
+
+    logger.info('SLA deadline check completed', { alertsPublished: published });
+  } catch (error) {
+    logger.error('SLA deadline check failed', error as Error);
+    throw error;
+  }
+}
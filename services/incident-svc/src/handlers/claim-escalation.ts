@@ -0,0 +1,63 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger, NotFoundError, AuthorizationError } from '@roadcall/utils';
+import { claimEscalation, retryOnConflict } from '../incident-service';
+
+/**
+ * Lambda handler for a dispatcher taking ownership of an escalated incident
+ * POST /incidents/{id}/escalation/claim
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const incidentId = event.pathParameters?.id;
+    if (!incidentId) {
+      throw new NotFoundError('Incident', 'undefined');
+    }
+
+    // Get user context
+    const userId = event.requestContext.authorizer?.userId;
+    const role = event.requestContext.authorizer?.role;
+
+    if (role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers can claim escalated incidents');
+    }
+
+    logger.info('Claiming escalated incident', { incidentId, dispatcherId: userId });
+
+    const incident = await retryOnConflict(() => claimEscalation(incidentId, userId));
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        incident,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Claim escalation failed', error as Error, { requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
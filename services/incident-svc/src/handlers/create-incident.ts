@@ -1,12 +1,14 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { logger, ValidationError } from '@roadcall/utils';
+import { logger, ValidationError, AuthorizationError } from '@roadcall/utils';
 import { createIncident } from '../incident-service';
-import { IncidentType } from '@roadcall/types';
+import { IncidentType, ServiceWindow } from '@roadcall/types';
 
 interface CreateIncidentRequest {
   type: IncidentType;
   lat: number;
   lon: number;
+  serviceWindow?: ServiceWindow; // Book the work for a later time window
+  slaTier?: string; // Dispatchers only: overrides the contract or incident-type tier
 }
 
 /**
@@ -34,9 +36,39 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       throw new ValidationError('Driver ID not found in request context');
     }
 
-    logger.info('Creating incident', { driverId, type: body.type, lat: body.lat, lon: body.lon });
+    if (body.serviceWindow && (!body.serviceWindow.start || !body.serviceWindow.end)) {
+      throw new ValidationError('Service window requires start and end');
+    }
+
+    const role = event.requestContext.authorizer?.role;
+    if (body.slaTier && role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers can choose the SLA tier');
+    }
+
+    logger.info('Creating incident', {
+      driverId,
+      type: body.type,
+      lat: body.lat,
+      lon: body.lon,
+      serviceWindow: body.serviceWindow,
+      slaTier: body.slaTier,
+    });
 
-    const incident = await createIncident(driverId, body.type, body.lat, body.lon);
+    const incident = await createIncident(
+      driverId,
+      body.type,
+      body.lat,
+      body.lon,
+      undefined,
+      undefined,
+      body.serviceWindow,
+      {
+        // The authorizer passes an empty string for users without a company
+        companyId: event.requestContext.authorizer?.companyId || undefined,
+        tier: body.slaTier,
+        requestedBy: driverId,
+      }
+    );
 
     return {
       statusCode: 201,
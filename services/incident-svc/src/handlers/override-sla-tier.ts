@@ -0,0 +1,77 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger, NotFoundError, ValidationError, AuthorizationError } from '@roadcall/utils';
+import { overrideSlaTier, retryOnConflict } from '../incident-service';
+
+interface OverrideSlaTierRequest {
+  tier: string;
+}
+
+/**
+ * Lambda handler for a dispatcher moving an incident to another SLA tier
+ * PUT /incidents/{id}/sla-tier
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const incidentId = event.pathParameters?.id;
+    if (!incidentId) {
+      throw new NotFoundError('Incident', 'undefined');
+    }
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: OverrideSlaTierRequest = JSON.parse(event.body);
+
+    if (!body.tier) {
+      throw new ValidationError('Missing required field: tier');
+    }
+
+    // Get user context
+    const userId = event.requestContext.authorizer?.userId;
+    const role = event.requestContext.authorizer?.role;
+
+    if (role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers can change the SLA tier');
+    }
+
+    logger.info('Overriding SLA tier', { incidentId, tier: body.tier, dispatcherId: userId });
+
+    const incident = await retryOnConflict(() => overrideSlaTier(incidentId, body.tier, userId));
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        incident,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Override SLA tier failed', error as Error, { requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger, NotFoundError, ValidationError, AuthorizationError } from '@roadcall/utils';
+import { requestFollowUp, getIncidentById, retryOnConflict } from '../incident-service';
+import { IncidentType } from '@roadcall/types';
+
+interface RequestFollowUpRequest {
+  type: IncidentType;
+  reason: string;
+  destination?: { lat: number; lon: number; address?: string };
+}
+
+/**
+ * Lambda handler for requesting a follow-up leg (e.g. a tow after a failed repair)
+ * POST /incidents/{id}/follow-ups
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const incidentId = event.pathParameters?.id;
+    if (!incidentId) {
+      throw new NotFoundError('Incident', 'undefined');
+    }
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: RequestFollowUpRequest = JSON.parse(event.body);
+
+    if (!body.type || !body.reason) {
+      throw new ValidationError('Missing required fields: type, reason');
+    }
+
+    if (
+      body.destination &&
+      (typeof body.destination.lat !== 'number' || typeof body.destination.lon !== 'number')
+    ) {
+      throw new ValidationError('Destination requires lat and lon');
+    }
+
+    // Get user context
+    const userId = event.requestContext.authorizer?.userId;
+    const role = event.requestContext.authorizer?.role;
+
+    const incident = await getIncidentById(incidentId);
+    if (!incident) {
+      throw new NotFoundError('Incident', incidentId);
+    }
+
+    // The vendor on site decides a follow-up is needed; dispatchers can request one for them
+    if (role !== 'vendor' && role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only vendors and dispatchers can request follow-up jobs');
+    }
+
+    if (role === 'vendor' && incident.assignedVendorId !== userId) {
+      throw new AuthorizationError('You can only request follow-ups on incidents assigned to you');
+    }
+
+    logger.info('Requesting follow-up leg', { incidentId, type: body.type });
+
+    const leg = await retryOnConflict(() =>
+      requestFollowUp(
+        incidentId,
+        { type: body.type, reason: body.reason, destination: body.destination },
+        userId
+      )
+    );
+
+    return {
+      statusCode: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        incident: leg,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Request follow-up failed', error as Error, { requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
@@ -1,6 +1,6 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { logger, NotFoundError, ValidationError, AuthorizationError } from '@roadcall/utils';
-import { updateIncidentStatus, getIncidentById } from '../incident-service';
+import { updateIncidentStatus, getIncidentById, retryOnConflict } from '../incident-service';
 import { IncidentStatus } from '@roadcall/types';
 
 interface UpdateStatusRequest {
@@ -41,8 +41,22 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       throw new NotFoundError('Incident', incidentId);
     }
 
+    // Escalated incidents are resumed or cancelled by the dispatcher who claimed them
+    const ownsEscalation =
+      role === 'dispatcher' &&
+      incident.status === 'escalated' &&
+      incident.escalation?.claimedBy === userId;
+
+    if (
+      incident.status === 'escalated' &&
+      (role === 'vendor' || role === 'dispatcher') &&
+      !ownsEscalation
+    ) {
+      throw new AuthorizationError('Escalated incidents are handled by the claiming dispatcher');
+    }
+
     // Only vendors can update status (except cancellation)
-    if (body.status !== 'cancelled' && role !== 'vendor' && role !== 'admin') {
+    if (body.status !== 'cancelled' && role !== 'vendor' && role !== 'admin' && !ownsEscalation) {
       throw new AuthorizationError('Only vendors can update incident status');
     }
 
@@ -58,11 +72,9 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
 
     logger.info('Updating incident status', { incidentId, status: body.status });
 
-    const updatedIncident = await updateIncidentStatus(
-      incidentId,
-      body.status,
-      userId,
-      body.reason
+    // A concurrent write (e.g. the arrival geofence) re-validates the transition
+    const updatedIncident = await retryOnConflict(() =>
+      updateIncidentStatus(incidentId, body.status, userId, body.reason)
     );
 
     return {
@@ -4,15 +4,41 @@ import {
   IncidentType,
   IncidentStatus,
   StateTransition,
+  IncidentEscalation,
+  IncidentLifecycleWait,
+  IncidentSla,
   MediaArtifact,
+  ServiceWindow,
 } from '@roadcall/types';
-import { dynamodb, eventBridge, EventSources, EventTypes, s3 } from '@roadcall/aws-clients';
+import {
+  dynamodb,
+  eventBridge,
+  configStore,
+  EventSources,
+  EventTypes,
+  ItemUpdate,
+  s3,
+} from '@roadcall/aws-clients';
+import { WorkCompletedDetail, WorkCompletedPricing } from '@roadcall/events';
 import { logger, NotFoundError, ValidationError, ConflictError } from '@roadcall/utils';
 import { enrichIncidentLocation } from './location-service';
+import { publishWorkCompleted } from './events';
+import {
+  SlaAlert,
+  SlaTierRequest,
+  applySlaAlerts,
+  buildIncidentSla,
+  changeSlaTier,
+  dueSlaAlerts,
+  resolveSlaTier,
+  stopSlaClock,
+} from './sla-service';
 
 const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE || '';
 const MEDIA_BUCKET = process.env.MEDIA_BUCKET || '';
 
+const MAX_BOOKING_DAYS = 30; // How far ahead a service window can be booked
+
 /**
  * Get incident by ID
  */
@@ -21,7 +47,11 @@ export async function getIncidentById(incidentId: string): Promise<Incident | nu
 }
 
 /**
- * Create new incident
+ * Create new incident. The type must be active in the admin-config
+ * incident-type catalogue, which also provides the default SLA tier when
+ * neither a dispatcher nor the driver's company contract picks one.
+ * Pass a service window to book non-urgent work ahead of time; matching then
+ * starts the configured lead time before the window opens.
  */
 export async function createIncident(
   driverId: string,
@@ -29,20 +59,44 @@ export async function createIncident(
   lat: number,
   lon: number,
   callRecordingUrl?: string,
-  transcriptId?: string
+  transcriptId?: string,
+  serviceWindow?: ServiceWindow,
+  slaRequest: SlaTierRequest = {}
 ): Promise<Incident> {
+  const incidentType = await configStore.getIncidentType(type);
+  if (!incidentType?.active) {
+    throw new ValidationError(`Unknown incident type: ${type}`, { type });
+  }
+
+  const matchingStartsAt = serviceWindow ? await planServiceWindow(serviceWindow) : undefined;
+  const resolved = await resolveSlaTier(incidentType, slaRequest);
+
   // Enrich location with geocoding, road snapping, and weather
   const { location, weather } = await enrichIncidentLocation(lat, lon);
 
+  const createdAt = new Date().toISOString();
+  const sla =
+    resolved &&
+    buildIncidentSla(
+      resolved.tier,
+      resolved.source,
+      serviceWindow?.start ?? createdAt,
+      slaRequest.tier ? slaRequest.requestedBy : undefined
+    );
+
   const incident: Incident = {
     incidentId: uuidv4(),
     driverId,
+    companyId: slaRequest.companyId,
     type,
+    slaTier: sla?.tier ?? incidentType.defaultSlaTier,
+    sla,
     status: 'created',
     location,
     weather,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
+    createdAt,
+    updatedAt: createdAt,
+    version: 1,
     timeline: [
       {
         from: 'created' as IncidentStatus,
@@ -54,27 +108,206 @@ export async function createIncident(
     media: [],
     callRecordingUrl,
     transcriptId,
+    serviceWindow,
+    matchingStartsAt,
   };
 
-  // Store in DynamoDB
+  await storeNewIncident(incident);
+
+  logger.info('Incident created', {
+    incidentId: incident.incidentId,
+    driverId,
+    type,
+    slaTier: incident.slaTier,
+    slaSource: sla?.source,
+    serviceWindow,
+  });
+
+  return incident;
+}
+
+/**
+ * Validate a requested service window and work out when matching starts: the
+ * configured lead time before the window opens, or now if that has passed
+ */
+async function planServiceWindow(window: ServiceWindow): Promise<string> {
+  const start = new Date(window.start).getTime();
+  const end = new Date(window.end).getTime();
+  const now = Date.now();
+
+  if (isNaN(start) || isNaN(end)) {
+    throw new ValidationError('Service window start and end must be ISO timestamps', { window });
+  }
+
+  if (start <= now) {
+    throw new ValidationError('Service window must start in the future', { window });
+  }
+
+  if (end <= start) {
+    throw new ValidationError('Service window must end after it starts', { window });
+  }
+
+  if (start > now + MAX_BOOKING_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ValidationError(`Service window must start within ${MAX_BOOKING_DAYS} days`, {
+      window,
+    });
+  }
+
+  const leadMinutes = await configStore.getScheduledMatchLeadMinutes();
+  return new Date(Math.max(now, start - leadMinutes * 60 * 1000)).toISOString();
+}
+
+/**
+ * Seconds until a scheduled incident's service window opens. Zero for
+ * incidents without a window and once the window has opened.
+ */
+export function secondsUntilWindowOpens(incident: Incident, now: number = Date.now()): number {
+  if (!incident.serviceWindow) {
+    return 0;
+  }
+
+  const start = new Date(incident.serviceWindow.start).getTime();
+  return Math.max(0, Math.ceil((start - now) / 1000));
+}
+
+/**
+ * Statuses from which a follow-up leg can be requested: the vendor has seen the
+ * vehicle and knows whether the roadside repair will hold
+ */
+const FOLLOW_UP_STATUSES: IncidentStatus[] = [
+  'vendor_arrived',
+  'work_in_progress',
+  'work_completed',
+];
+
+export interface FollowUpRequest {
+  type: IncidentType;
+  reason: string;
+  destination?: { lat: number; lon: number; address?: string };
+}
+
+/**
+ * Spawn a linked follow-up job (e.g. a tow to a shop after a failed roadside
+ * repair). The leg is a regular incident with its own matching, tracking and
+ * payment; the original incident records it and mirrors its timeline.
+ * Requesting a follow-up from a leg links the new leg to the original incident.
+ */
+export async function requestFollowUp(
+  incidentId: string,
+  request: FollowUpRequest,
+  actor: string
+): Promise<Incident> {
+  const current = await getIncidentById(incidentId);
+  if (!current) {
+    throw new NotFoundError('Incident', incidentId);
+  }
+
+  if (!FOLLOW_UP_STATUSES.includes(current.status)) {
+    throw new ValidationError(
+      `Follow-up jobs cannot be requested while the incident is ${current.status}`,
+      { status: current.status }
+    );
+  }
+
+  const incidentType = await configStore.getIncidentType(request.type);
+  if (!incidentType?.active) {
+    throw new ValidationError(`Unknown incident type: ${request.type}`, { type: request.type });
+  }
+
+  const root = current.parentIncidentId ? await getIncidentById(current.parentIncidentId) : current;
+  if (!root) {
+    throw new NotFoundError('Incident', current.parentIncidentId as string);
+  }
+
+  const followUps = root.followUps || [];
+  const now = new Date().toISOString();
+
+  // Legs get their own deadlines under the same contract as the original job
+  const resolved = await resolveSlaTier(incidentType, { companyId: root.companyId });
+  const sla = resolved && buildIncidentSla(resolved.tier, resolved.source, now);
+
+  // The new leg starts where the current leg's vehicle is
+  const leg: Incident = {
+    incidentId: uuidv4(),
+    driverId: root.driverId,
+    companyId: root.companyId,
+    type: request.type,
+    slaTier: sla?.tier ?? incidentType.defaultSlaTier,
+    sla,
+    status: 'created',
+    location: current.location,
+    weather: current.weather,
+    parentIncidentId: root.incidentId,
+    legNumber: followUps.length + 2,
+    destination: request.destination,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+    timeline: [
+      {
+        from: 'created' as IncidentStatus,
+        to: 'created',
+        timestamp: now,
+        actor,
+        reason: request.reason,
+      },
+    ],
+    media: [],
+  };
+
+  // Record the leg on the original incident first: the versioned write claims
+  // the leg number, so concurrent requests cannot both become the same leg
+  await writeIncident(root, {
+    append: {
+      followUps: [
+        {
+          incidentId: leg.incidentId,
+          legNumber: leg.legNumber as number,
+          type: leg.type,
+          reason: request.reason,
+          requestedBy: actor,
+          requestedAt: now,
+        },
+      ],
+      timeline: [{ ...leg.timeline[0], leg: leg.legNumber, legIncidentId: leg.incidentId }],
+    },
+  });
+
+  await storeNewIncident(leg);
+
+  logger.info('Follow-up leg requested', {
+    incidentId: leg.incidentId,
+    parentIncidentId: root.incidentId,
+    legNumber: leg.legNumber,
+    type: leg.type,
+  });
+
+  return leg;
+}
+
+/**
+ * Store a new incident and publish IncidentCreated so matching starts
+ */
+async function storeNewIncident(incident: Incident): Promise<void> {
   await dynamodb.put(INCIDENTS_TABLE, incident);
 
-  // Publish IncidentCreated event
   await eventBridge.publishEvent({
     source: EventSources.INCIDENT_SERVICE,
     detailType: EventTypes.INCIDENT_CREATED,
     detail: {
       incidentId: incident.incidentId,
       driverId: incident.driverId,
+      companyId: incident.companyId,
       type: incident.type,
+      slaTier: incident.slaTier,
       location: incident.location,
       createdAt: incident.createdAt,
+      parentIncidentId: incident.parentIncidentId,
+      legNumber: incident.legNumber,
+      serviceWindow: incident.serviceWindow,
+      matchingStartsAt: incident.matchingStartsAt,
     },
   });
-
-  logger.info('Incident created', { incidentId: incident.incidentId, driverId, type });
-
-  return incident;
 }
 
 /**
@@ -91,8 +324,25 @@ export async function updateIncidentStatus(
     throw new NotFoundError('Incident', incidentId);
   }
 
+  return transitionIncident(incident, newStatus, actor, reason);
+}
+
+/**
+ * Move an incident the caller has read to a new status. The write only lands
+ * if the incident is still at the status and version that was read, so of two
+ * concurrent transitions exactly one wins and the other gets a ConflictError.
+ */
+async function transitionIncident(
+  incident: Incident,
+  newStatus: IncidentStatus,
+  actor: string,
+  reason?: string,
+  change: Pick<ItemUpdate, 'set' | 'remove' | 'expect'> = {}
+): Promise<Incident> {
+  const { incidentId } = incident;
+
   // Validate status transition
-  validateStatusTransition(incident.status, newStatus);
+  validateStatusTransition(incident, newStatus);
 
   // Create state transition record
   const transition: StateTransition = {
@@ -103,12 +353,22 @@ export async function updateIncidentStatus(
     reason,
   };
 
+  // Assignment and arrival meet the SLA deadlines
+  const slaClock =
+    incident.sla &&
+    stopSlaClock(incident.sla, newStatus, transition.timestamp, incident.agreedPayout?.agreedAt);
+  const slaChange = slaClock && slaClock.sla !== incident.sla ? { sla: slaClock.sla } : {};
+
   // Update incident
-  await dynamodb.update(INCIDENTS_TABLE, { incidentId }, {
-    status: newStatus,
-    updatedAt: new Date().toISOString(),
-    timeline: [...incident.timeline, transition],
-  });
+  await writeIncident(
+    incident,
+    {
+      set: { ...change.set, ...slaChange, status: newStatus },
+      append: { timeline: [transition] },
+      remove: change.remove,
+    },
+    change.expect
+  );
 
   // Publish IncidentStatusChanged event
   await eventBridge.publishEvent({
@@ -123,6 +383,14 @@ export async function updateIncidentStatus(
     },
   });
 
+  if (incident.parentIncidentId) {
+    await mirrorLegTransition(incident, transition);
+  }
+
+  if (newStatus === 'work_completed') {
+    await publishWorkCompleted(buildWorkCompletedDetail(incident, transition));
+  }
+
   logger.info('Incident status updated', { incidentId, from: incident.status, to: newStatus });
 
   const updatedIncident = await getIncidentById(incidentId);
@@ -130,57 +398,325 @@ export async function updateIncidentStatus(
     throw new Error('Incident not found after update');
   }
 
+  if (slaClock?.alerts.length) {
+    await publishSlaAlerts(updatedIncident, slaClock.alerts, new Date(transition.timestamp));
+  }
+
   return updatedIncident;
 }
 
+/**
+ * Record a follow-up leg's transition on the original incident's timeline so
+ * it shows every leg of the job
+ */
+async function mirrorLegTransition(leg: Incident, transition: StateTransition): Promise<void> {
+  const parentIncidentId = leg.parentIncidentId as string;
+
+  // Appending needs no read of the parent, so it never conflicts with the
+  // parent's own transitions; expecting the key keeps it from creating a record
+  try {
+    await dynamodb.updateItem(INCIDENTS_TABLE, { incidentId: parentIncidentId }, {
+      set: { updatedAt: new Date().toISOString() },
+      append: {
+        timeline: [{ ...transition, leg: leg.legNumber, legIncidentId: leg.incidentId }],
+      },
+      increment: { version: 1 },
+      expect: { incidentId: parentIncidentId },
+    });
+  } catch (error) {
+    if ((error as Error).name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+    logger.warn('Parent incident not found for leg', {
+      incidentId: leg.incidentId,
+      parentIncidentId,
+    });
+  }
+}
+
+/**
+ * Write a change to an incident the caller has read. The write is conditional
+ * on the status and version that were read (plus any extra `expect`), bumps
+ * the version and appends list entries atomically. Losing a race surfaces as a
+ * ConflictError; callers can retry with `retryOnConflict`.
+ */
+async function writeIncident(
+  incident: Incident,
+  change: Pick<ItemUpdate, 'set' | 'append' | 'remove'>,
+  expect: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await dynamodb.updateItem(INCIDENTS_TABLE, { incidentId: incident.incidentId }, {
+      set: { ...change.set, updatedAt: new Date().toISOString() },
+      append: change.append,
+      remove: change.remove,
+      increment: { version: 1 },
+      // Records written before versioning have no version attribute
+      expect: { ...expect, status: incident.status, version: incident.version },
+    });
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      throw new ConflictError('Incident was modified concurrently', {
+        incidentId: incident.incidentId,
+        expectedStatus: incident.status,
+        expectedVersion: incident.version ?? null,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run an incident operation, re-running it when it loses a race to a
+ * concurrent write. Each attempt re-reads the incident, so the operation is
+ * re-validated against whatever the winning write left behind.
+ */
+export async function retryOnConflict<T>(
+  operation: () => Promise<T>,
+  maxAttempts: number = 3
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof ConflictError) || attempt >= maxAttempts) {
+        throw error;
+      }
+      logger.warn('Incident write conflict, retrying', { attempt, maxAttempts });
+    }
+  }
+}
+
+/**
+ * Build the WorkCompleted detail so payments-svc bills the price the vendor agreed to
+ */
+function buildWorkCompletedDetail(
+  incident: Incident,
+  transition: StateTransition
+): Omit<WorkCompletedDetail, 'eventId' | 'timestamp' | 'version'> {
+  // Entries mirrored from follow-up legs carry their own timings
+  const workStarted = incident.timeline.find((t) => t.to === 'work_in_progress' && !t.leg);
+  const duration = workStarted
+    ? Math.round(
+        (new Date(transition.timestamp).getTime() - new Date(workStarted.timestamp).getTime()) /
+          1000
+      )
+    : 0;
+
+  return {
+    incidentId: incident.incidentId,
+    parentIncidentId: incident.parentIncidentId,
+    legNumber: incident.legNumber,
+    vendorId: incident.assignedVendorId as string,
+    driverId: incident.driverId,
+    completedAt: transition.timestamp,
+    duration,
+    notes: transition.reason,
+    workDetails: {
+      notes: transition.reason || '',
+      photos: incident.media.filter((m) => m.type === 'photo').map((m) => m.s3Key),
+      serviceType: incident.type,
+      duration,
+    },
+    pricing: buildWorkPricing(incident),
+  };
+}
+
+/**
+ * Build WorkCompleted pricing from the payout agreed when the offer was accepted.
+ * Offer payouts already include mileage, so no separate mileage charge is added.
+ * They also include the SLA tier's pricing multiplier: a premium is billed on
+ * its own line, while a negotiated price covers it. Discount tiers stay in the
+ * base price, as line items cannot be negative.
+ */
+export function buildWorkPricing(incident: Incident): WorkCompletedPricing {
+  const agreed = incident.agreedPayout;
+  if (!agreed) {
+    return { basePrice: 0, mileageCharge: 0 };
+  }
+
+  if (agreed.negotiated) {
+    return {
+      basePrice: agreed.estimatedCents,
+      mileageCharge: 0,
+      negotiatedPrice: agreed.amountCents,
+    };
+  }
+
+  const multiplier = agreed.pricingMultiplier ?? 1;
+  if (multiplier <= 1) {
+    return { basePrice: agreed.amountCents, mileageCharge: 0 };
+  }
+
+  const basePrice = Math.round(agreed.amountCents / multiplier);
+  return {
+    basePrice,
+    mileageCharge: 0,
+    slaPremium: {
+      tier: agreed.slaTier || incident.slaTier || '',
+      multiplier,
+      amount: agreed.amountCents - basePrice,
+    },
+  };
+}
+
 /**
  * Validate status transition
  */
-function validateStatusTransition(from: IncidentStatus, to: IncidentStatus): void {
+function validateStatusTransition(incident: Incident, to: IncidentStatus): void {
+  const from = incident.status;
   const validTransitions: Record<IncidentStatus, IncidentStatus[]> = {
-    created: ['vendor_assigned', 'cancelled'],
-    vendor_assigned: ['vendor_en_route', 'cancelled'],
-    vendor_en_route: ['vendor_arrived', 'cancelled'],
-    vendor_arrived: ['work_in_progress', 'cancelled'],
-    work_in_progress: ['work_completed', 'cancelled'],
-    work_completed: ['payment_pending'],
-    payment_pending: ['closed'],
+    created: ['vendor_assigned', 'escalated', 'cancelled'],
+    vendor_assigned: ['vendor_en_route', 'reassigning', 'escalated', 'cancelled'],
+    vendor_en_route: ['vendor_arrived', 'reassigning', 'escalated', 'cancelled'],
+    vendor_arrived: ['work_in_progress', 'escalated', 'cancelled'],
+    work_in_progress: ['work_completed', 'escalated', 'cancelled'],
+    work_completed: ['payment_pending', 'escalated'],
+    payment_pending: ['closed', 'escalated'],
     closed: [],
     cancelled: [],
+    escalated: ['vendor_assigned', 'cancelled'],
+    reassigning: ['vendor_assigned', 'escalated', 'cancelled'],
   };
 
-  if (!validTransitions[from].includes(to)) {
+  // A dispatcher can resume a stalled job at the status it was escalated from,
+  // as long as its vendor is still on it
+  const resumesEscalation =
+    from === 'escalated' &&
+    to === incident.escalation?.previousStatus &&
+    !!incident.assignedVendorId;
+
+  if (!validTransitions[from].includes(to) && !resumesEscalation) {
     throw new ValidationError(`Invalid status transition from ${from} to ${to}`);
   }
 }
 
 /**
- * Assign vendor to incident
+ * Hand an incident to the dispatcher queue: no vendor could be found, or the
+ * job stalled. Escalating an incident that is already escalated is a no-op.
  */
-export async function assignVendor(
+export async function escalateIncident(
   incidentId: string,
-  vendorId: string,
-  actor: string
+  reason: string,
+  attempts?: number
 ): Promise<Incident> {
   const incident = await getIncidentById(incidentId);
   if (!incident) {
     throw new NotFoundError('Incident', incidentId);
   }
 
-  if (incident.assignedVendorId) {
-    throw new ConflictError('Incident already has an assigned vendor');
+  if (incident.status === 'escalated') {
+    return incident;
   }
 
-  // Update incident with vendor assignment
-  await dynamodb.update(INCIDENTS_TABLE, { incidentId }, {
-    assignedVendorId: vendorId,
-    updatedAt: new Date().toISOString(),
+  const escalation: IncidentEscalation = {
+    reason,
+    escalatedAt: new Date().toISOString(),
+    previousStatus: incident.status,
+    attempts,
+  };
+
+  return transitionIncident(incident, 'escalated', 'system', reason, { set: { escalation } });
+}
+
+/**
+ * Take ownership of an escalated incident. Only the owning dispatcher can
+ * hand-assign, resume or cancel it; claiming one you already own is a no-op.
+ */
+export async function claimEscalation(incidentId: string, dispatcherId: string): Promise<Incident> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) {
+    throw new NotFoundError('Incident', incidentId);
+  }
+
+  const escalation = incident.escalation;
+  if (incident.status !== 'escalated' || !escalation) {
+    throw new ValidationError(`Incident is ${incident.status}, not escalated`, {
+      status: incident.status,
+    });
+  }
+
+  if (escalation.claimedBy === dispatcherId) {
+    return incident;
+  }
+
+  if (escalation.claimedBy) {
+    throw new ConflictError('Escalation is already claimed by another dispatcher', {
+      claimedBy: escalation.claimedBy,
+    });
+  }
+
+  await writeIncident(incident, {
+    set: {
+      escalation: { ...escalation, claimedBy: dispatcherId, claimedAt: new Date().toISOString() },
+    },
   });
 
-  // Update status to vendor_assigned
-  await updateIncidentStatus(incidentId, 'vendor_assigned', actor, 'Vendor assigned to incident');
+  logger.info('Escalation claimed', { incidentId, dispatcherId });
 
-  logger.info('Vendor assigned to incident', { incidentId, vendorId });
+  const updatedIncident = await getIncidentById(incidentId);
+  if (!updatedIncident) {
+    throw new Error('Incident not found after update');
+  }
+
+  return updatedIncident;
+}
+
+/**
+ * Statuses with an SLA deadline that can still be missed
+ */
+const SLA_OPEN_STATUSES: IncidentStatus[] = [
+  'created',
+  'vendor_assigned',
+  'vendor_en_route',
+  'reassigning',
+  'escalated',
+];
+
+/**
+ * Move an incident to a dispatcher-chosen SLA tier. Deadlines are recomputed
+ * from when the SLA clock started; offers sent from now on use the new
+ * tier's pricing multiplier.
+ */
+export async function overrideSlaTier(
+  incidentId: string,
+  tierName: string,
+  dispatcherId: string
+): Promise<Incident> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) {
+    throw new NotFoundError('Incident', incidentId);
+  }
+
+  if (!SLA_OPEN_STATUSES.includes(incident.status)) {
+    throw new ValidationError(`Cannot change the SLA tier of a ${incident.status} incident`, {
+      status: incident.status,
+    });
+  }
+
+  const tier = await configStore.getSLATier(tierName);
+  if (!tier) {
+    throw new ValidationError(`Unknown SLA tier: ${tierName}`, { tier: tierName });
+  }
+
+  // Legacy incidents start their SLA clock at creation
+  const sla: IncidentSla = incident.sla
+    ? changeSlaTier(incident.sla, tier, dispatcherId)
+    : buildIncidentSla(
+        tier,
+        'dispatcher',
+        incident.serviceWindow?.start ?? incident.createdAt,
+        dispatcherId
+      );
+
+  await writeIncident(incident, { set: { slaTier: tier.name, sla } });
+
+  logger.info('SLA tier overridden', {
+    incidentId,
+    dispatcherId,
+    from: incident.slaTier,
+    to: tier.name,
+  });
 
   const updatedIncident = await getIncidentById(incidentId);
   if (!updatedIncident) {
@@ -190,6 +726,147 @@ export async function assignVendor(
   return updatedIncident;
 }
 
+/**
+ * Publish SlaAtRisk and SlaBreached for open incidents whose deadlines are
+ * near or past. Each alert is recorded on the incident so it is published
+ * once; incidents that change while being checked are picked up next run.
+ */
+export async function checkSlaDeadlines(now: Date = new Date()): Promise<number> {
+  const atRiskPercent = await configStore.getSlaAtRiskPercent();
+  let published = 0;
+
+  for (const status of SLA_OPEN_STATUSES) {
+    for (const incident of await getIncidentsByStatus(status)) {
+      if (!incident.sla) {
+        continue;
+      }
+
+      // A vendor who accepted has responded even before the lifecycle records it
+      const accepted = incident.agreedPayout
+        ? stopSlaClock(
+            incident.sla,
+            'vendor_assigned',
+            now.toISOString(),
+            incident.agreedPayout.agreedAt
+          )
+        : { sla: incident.sla, alerts: [] };
+      const alerts = [...accepted.alerts, ...dueSlaAlerts(accepted.sla, now, atRiskPercent)];
+      if (alerts.length === 0 && accepted.sla === incident.sla) {
+        continue;
+      }
+
+      try {
+        await writeIncident(incident, { set: { sla: applySlaAlerts(accepted.sla, alerts) } });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          logger.warn('Incident changed during SLA check', { incidentId: incident.incidentId });
+          continue;
+        }
+        throw error;
+      }
+
+      await publishSlaAlerts(incident, alerts, now);
+      published += alerts.length;
+    }
+  }
+
+  return published;
+}
+
+/**
+ * Publish SlaAtRisk or SlaBreached for each alert raised on an incident
+ */
+async function publishSlaAlerts(incident: Incident, alerts: SlaAlert[], now: Date): Promise<void> {
+  for (const alert of alerts) {
+    const minutesToDeadline = Math.round(
+      (new Date(alert.deadlineAt).getTime() - now.getTime()) / 60000
+    );
+
+    await eventBridge.publishEvent({
+      source: EventSources.INCIDENT_SERVICE,
+      detailType: alert.kind === 'breached' ? EventTypes.SLA_BREACHED : EventTypes.SLA_AT_RISK,
+      detail: {
+        incidentId: incident.incidentId,
+        companyId: incident.companyId,
+        slaTier: incident.slaTier,
+        deadline: alert.deadline,
+        deadlineAt: alert.deadlineAt,
+        ...(alert.kind === 'breached'
+          ? { minutesLate: Math.max(0, -minutesToDeadline) }
+          : { minutesRemaining: minutesToDeadline }),
+        status: incident.status,
+        vendorId: incident.assignedVendorId,
+      },
+    });
+
+    logger.warn(alert.kind === 'breached' ? 'SLA breached' : 'SLA at risk', {
+      incidentId: incident.incidentId,
+      slaTier: incident.slaTier,
+      deadline: alert.deadline,
+      deadlineAt: alert.deadlineAt,
+    });
+  }
+}
+
+/**
+ * Release the assigned vendor (e.g. they failed to arrive) so matching can
+ * find a replacement. Clears the assignment, agreed payout and dispatch progress.
+ */
+export async function reassignIncident(incidentId: string, reason: string): Promise<Incident> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) {
+    throw new NotFoundError('Incident', incidentId);
+  }
+
+  return transitionIncident(incident, 'reassigning', 'system', reason, {
+    remove: ['assignedVendorId', 'agreedPayout', 'dispatch'],
+  });
+}
+
+/**
+ * Assign vendor to incident. Dispatchers also use this to hand-assign a vendor
+ * to an escalated incident, which releases any vendor still assigned to it.
+ */
+export async function assignVendor(
+  incidentId: string,
+  vendorId: string,
+  actor: string
+): Promise<Incident> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) {
+    throw new NotFoundError('Incident', incidentId);
+  }
+
+  const previousVendorId = incident.assignedVendorId;
+  if (previousVendorId && incident.status !== 'escalated') {
+    throw new ConflictError('Incident already has an assigned vendor');
+  }
+
+  if (previousVendorId === vendorId) {
+    throw new ValidationError('Vendor is already assigned, resume the incident instead');
+  }
+
+  // Assign the vendor and move to vendor_assigned in one conditional write. A
+  // replaced vendor's agreed payout and dispatch progress go with them.
+  const updatedIncident = await transitionIncident(
+    incident,
+    'vendor_assigned',
+    actor,
+    previousVendorId
+      ? `Vendor ${previousVendorId} replaced by ${vendorId}`
+      : 'Vendor assigned to incident',
+    {
+      set: { assignedVendorId: vendorId },
+      remove: previousVendorId ? ['agreedPayout', 'dispatch'] : undefined,
+      expect: { assignedVendorId: previousVendorId },
+    }
+  );
+
+  logger.info('Vendor assigned to incident', { incidentId, vendorId, previousVendorId });
+
+  return updatedIncident;
+}
+
 /**
  * Cancel incident
  */
@@ -252,14 +929,15 @@ export async function getIncidentsByVendor(
 }
 
 /**
- * Get incidents by status
+ * Get every incident in a status
  */
 export async function getIncidentsByStatus(status: IncidentStatus): Promise<Incident[]> {
-  const incidents = await dynamodb.query<Incident>(
+  const incidents = await dynamodb.queryAll<Incident>(
     INCIDENTS_TABLE,
-    'status = :status',
+    '#status = :status',
     { ':status': status },
-    'status-created-index'
+    'status-created-index',
+    { '#status': 'status' }
   );
 
   logger.info('Incidents retrieved by status', { status, count: incidents.length });
@@ -291,10 +969,10 @@ export async function addMediaToIncident(
     metadata,
   };
 
-  // Update incident with new media
-  await dynamodb.update(INCIDENTS_TABLE, { incidentId }, {
-    media: [...incident.media, media],
-    updatedAt: new Date().toISOString(),
+  // Append atomically so concurrent uploads don't overwrite each other
+  await dynamodb.updateItem(INCIDENTS_TABLE, { incidentId }, {
+    set: { updatedAt: new Date().toISOString() },
+    append: { media: [media] },
   });
 
   logger.info('Media added to incident', { incidentId, mediaId: media.mediaId, type: mediaType });
@@ -302,6 +980,41 @@ export async function addMediaToIncident(
   return media;
 }
 
+/**
+ * Record the lifecycle wait an incident is parked in, so the event that ends
+ * the wait can resume the state machine with its task token
+ */
+export async function recordLifecycleWait(
+  incidentId: string,
+  wait: IncidentLifecycleWait
+): Promise<void> {
+  await dynamodb.updateItem(INCIDENTS_TABLE, { incidentId }, {
+    set: { lifecycleWait: wait },
+    expect: { incidentId },
+  });
+
+  logger.info('Lifecycle wait recorded', { incidentId, detailType: wait.detailType });
+}
+
+/**
+ * Clear a lifecycle wait once it has been resumed, leaving a newer wait in place
+ */
+export async function clearLifecycleWait(
+  incidentId: string,
+  wait: IncidentLifecycleWait
+): Promise<void> {
+  try {
+    await dynamodb.updateItem(INCIDENTS_TABLE, { incidentId }, {
+      remove: ['lifecycleWait'],
+      expect: { lifecycleWait: wait },
+    });
+  } catch (error) {
+    if ((error as Error).name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+}
+
 /**
  * Generate presigned URL for media upload
  */
@@ -4,6 +4,11 @@ export { handler as getIncidentHandler } from './handlers/get-incident';
 export { handler as updateStatusHandler } from './handlers/update-status';
 export { handler as uploadMediaHandler } from './handlers/upload-media';
 export { handler as listIncidentsHandler } from './handlers/list-incidents';
+export { handler as requestFollowUpHandler } from './handlers/request-follow-up';
+export { handler as claimEscalationHandler } from './handlers/claim-escalation';
+export { handler as assignVendorHandler } from './handlers/assign-vendor';
+export { handler as overrideSlaTierHandler } from './handlers/override-sla-tier';
+export { handler as checkSlaDeadlinesHandler } from './handlers/check-sla-deadlines';
 
 // Export state machine handlers
 export { handler as checkVendorResponseHandler } from './state-machine/handlers/check-vendor-response';
@@ -17,3 +22,4 @@ export { handler as sendTaskTokenHandler } from './state-machine/handlers/send-t
 // Export services
 export * from './incident-service';
 export * from './location-service';
+export * from './sla-service';
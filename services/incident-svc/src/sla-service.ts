@@ -0,0 +1,183 @@
+import {
+  IncidentSla,
+  IncidentStatus,
+  IncidentTypeDefinition,
+  SlaDeadline,
+  SlaTierSource,
+  SLATier,
+} from '@roadcall/types';
+import { configStore } from '@roadcall/aws-clients';
+import { ValidationError } from '@roadcall/utils';
+
+export interface SlaTierRequest {
+  companyId?: string; // Looked up in the SLA contracts
+  tier?: string; // Dispatcher override
+  requestedBy?: string; // Dispatcher who asked for the override
+}
+
+export interface SlaAlert {
+  deadline: SlaDeadline;
+  kind: 'at_risk' | 'breached';
+  deadlineAt: string;
+}
+
+const DEADLINES: SlaDeadline[] = ['response', 'arrival'];
+
+// Status that meets each deadline, and where the time it was met is kept
+const MET_AT_STATUS: Record<SlaDeadline, IncidentStatus> = {
+  response: 'vendor_assigned',
+  arrival: 'vendor_arrived',
+};
+const MET_AT_FIELD: Record<SlaDeadline, 'respondedAt' | 'arrivedAt'> = {
+  response: 'respondedAt',
+  arrival: 'arrivedAt',
+};
+
+const minutesFrom = (time: number, minutes: number): string =>
+  new Date(time + minutes * 60 * 1000).toISOString();
+
+const deadlineAt = (sla: IncidentSla, deadline: SlaDeadline): string =>
+  deadline === 'response' ? sla.responseDeadline : sla.arrivalDeadline;
+
+/**
+ * Pick an incident's SLA tier: a dispatcher override, else the company's
+ * contract tier, else the incident type's default tier, else the configured
+ * default. Resolves to undefined when no SLA tiers are configured.
+ */
+export async function resolveSlaTier(
+  incidentType: IncidentTypeDefinition,
+  request: SlaTierRequest = {}
+): Promise<{ tier: SLATier; source: SlaTierSource } | undefined> {
+  if (request.tier) {
+    const tier = await configStore.getSLATier(request.tier);
+    if (!tier) {
+      throw new ValidationError(`Unknown SLA tier: ${request.tier}`, { tier: request.tier });
+    }
+    return { tier, source: 'dispatcher' };
+  }
+
+  const contractTier = request.companyId && (await configStore.getContractTier(request.companyId));
+  if (contractTier) {
+    return { tier: contractTier, source: 'contract' };
+  }
+
+  const typeTier = await configStore.getSLATier(incidentType.defaultSlaTier);
+  if (typeTier) {
+    return { tier: typeTier, source: 'incident_type' };
+  }
+
+  const defaultTier = await configStore.getSLATier();
+  return defaultTier && { tier: defaultTier, source: 'default' };
+}
+
+/**
+ * Work out an incident's SLA deadlines. The clock starts at creation, or when
+ * the service window opens for scheduled incidents.
+ */
+export function buildIncidentSla(
+  tier: SLATier,
+  source: SlaTierSource,
+  clockStartsAt: string,
+  overriddenBy?: string
+): IncidentSla {
+  const start = new Date(clockStartsAt).getTime();
+
+  return {
+    tier: tier.name,
+    source,
+    pricingMultiplier: tier.pricingMultiplier,
+    clockStartsAt,
+    responseDeadline: minutesFrom(start, tier.responseTimeMinutes),
+    arrivalDeadline: minutesFrom(start, tier.arrivalTimeMinutes),
+    overriddenBy,
+  };
+}
+
+/**
+ * Move an incident to a dispatcher-chosen tier. Deadlines already met keep
+ * the judgement they got; open ones are checked against the new tier.
+ */
+export function changeSlaTier(sla: IncidentSla, tier: SLATier, dispatcherId: string): IncidentSla {
+  const met = DEADLINES.filter((deadline) => sla[MET_AT_FIELD[deadline]]);
+
+  return {
+    ...buildIncidentSla(tier, 'dispatcher', sla.clockStartsAt, dispatcherId),
+    respondedAt: sla.respondedAt,
+    arrivedAt: sla.arrivedAt,
+    atRisk: sla.atRisk?.filter((deadline) => met.includes(deadline)),
+    breached: sla.breached?.filter((deadline) => met.includes(deadline)),
+  };
+}
+
+/**
+ * Record the deadline a status change meets, if any. The vendor responds when
+ * they accept an offer (`acceptedAt`), which the lifecycle only records as
+ * vendor_assigned at its next check. A deadline met after it passed but
+ * before a deadline check noticed is reported as breached here.
+ */
+export function stopSlaClock(
+  sla: IncidentSla,
+  status: IncidentStatus,
+  at: string,
+  acceptedAt?: string
+): { sla: IncidentSla; alerts: SlaAlert[] } {
+  const deadline = DEADLINES.find((d) => MET_AT_STATUS[d] === status && !sla[MET_AT_FIELD[d]]);
+  if (!deadline) {
+    return { sla, alerts: [] };
+  }
+
+  const metAt = deadline === 'response' && acceptedAt ? acceptedAt : at;
+  const due = deadlineAt(sla, deadline);
+  const alerts: SlaAlert[] =
+    new Date(metAt).getTime() > new Date(due).getTime() && !sla.breached?.includes(deadline)
+      ? [{ deadline, kind: 'breached', deadlineAt: due }]
+      : [];
+
+  return { sla: applySlaAlerts({ ...sla, [MET_AT_FIELD[deadline]]: metAt }, alerts), alerts };
+}
+
+/**
+ * Alerts not yet raised for the deadlines still open: breached once a
+ * deadline has passed, at risk once `atRiskPercent` of its window has
+ */
+export function dueSlaAlerts(sla: IncidentSla, now: Date, atRiskPercent: number): SlaAlert[] {
+  const start = new Date(sla.clockStartsAt).getTime();
+
+  return DEADLINES.filter((deadline) => !sla[MET_AT_FIELD[deadline]]).flatMap(
+    (deadline): SlaAlert[] => {
+      const due = deadlineAt(sla, deadline);
+      const dueTime = new Date(due).getTime();
+
+      if (sla.breached?.includes(deadline)) {
+        return [];
+      }
+      if (now.getTime() >= dueTime) {
+        return [{ deadline, kind: 'breached', deadlineAt: due }];
+      }
+
+      const atRiskFrom = start + ((dueTime - start) * atRiskPercent) / 100;
+      if (now.getTime() >= atRiskFrom && !sla.atRisk?.includes(deadline)) {
+        return [{ deadline, kind: 'at_risk', deadlineAt: due }];
+      }
+      return [];
+    }
+  );
+}
+
+/**
+ * Mark alerts as raised so they are published once
+ */
+export function applySlaAlerts(sla: IncidentSla, alerts: SlaAlert[]): IncidentSla {
+  if (alerts.length === 0) {
+    return sla;
+  }
+
+  const raised = (kind: SlaAlert['kind']) =>
+    alerts.filter((alert) => alert.kind === kind).map((alert) => alert.deadline);
+
+  return {
+    ...sla,
+    atRisk: [...(sla.atRisk || []), ...raised('at_risk')],
+    breached: [...(sla.breached || []), ...raised('breached')],
+  };
+}
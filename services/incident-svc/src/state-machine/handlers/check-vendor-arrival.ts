@@ -1,6 +1,8 @@
 import { Handler } from 'aws-lambda';
 import { logger } from '@roadcall/utils';
-import { getIncidentById } from '../../incident-service';
+import { getIncidentById, secondsUntilWindowOpens } from '../../incident-service';
+
+const DEFAULT_ARRIVAL_TIMEOUT_MINUTES = 30;
 
 /**
  * Check if vendor has arrived at incident location
@@ -10,8 +12,11 @@ export const handler: Handler = async (event: {
   incidentId: string;
   vendorId: string;
   assignedAt: string;
+  arrivalTimeoutMinutes?: number;
 }) => {
   const { incidentId, vendorId, assignedAt } = event;
+  // The SLA tier's arrival time, resolved at the start of the lifecycle
+  const arrivalTimeoutMinutes = event.arrivalTimeoutMinutes ?? DEFAULT_ARRIVAL_TIMEOUT_MINUTES;
 
   logger.info('Checking vendor arrival', { incidentId, vendorId });
 
@@ -36,13 +41,26 @@ export const handler: Handler = async (event: {
     };
   }
 
-  // Calculate time elapsed since assignment
-  const assignedTime = new Date(assignedAt).getTime();
+  // Scheduled incidents: the vendor is not expected before the service window opens
+  if (secondsUntilWindowOpens(incident) > 0) {
+    logger.info('Service window not open yet', { incidentId, vendorId });
+    return {
+      hasArrived: false,
+      isTimeout: false,
+      incidentId,
+      vendorId,
+      elapsedMinutes: 0,
+    };
+  }
+
+  // Calculate time elapsed since assignment, or since the service window opened
+  const windowStart = incident.serviceWindow
+    ? new Date(incident.serviceWindow.start).getTime()
+    : 0;
+  const assignedTime = Math.max(new Date(assignedAt).getTime(), windowStart);
   const currentTime = Date.now();
   const elapsedMinutes = (currentTime - assignedTime) / (1000 * 60);
 
-  // 30-minute timeout for arrival
-  const arrivalTimeoutMinutes = 30;
   const isTimeout = elapsedMinutes >= arrivalTimeoutMinutes;
 
   if (isTimeout) {
@@ -1,17 +1,17 @@
 import { Handler } from 'aws-lambda';
 import { logger } from '@roadcall/utils';
-import { getIncidentById } from '../../incident-service';
+import { eventBridge, configStore, EventSources, EventTypes } from '@roadcall/aws-clients';
+import { getIncidentById, updateIncidentStatus, retryOnConflict } from '../../incident-service';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DISPATCH_POLL_SECONDS = 5; // Time for match-svc to send the next round after a timeout
 
 /**
  * Check if vendor has responded to the incident
  * Used for timeout handling in Step Functions
  */
-export const handler: Handler = async (event: {
-  incidentId: string;
-  attempt: number;
-  radiusMiles: number;
-}) => {
-  const { incidentId, attempt, radiusMiles } = event;
+export const handler: Handler = async (event: { incidentId: string; attempt: number }) => {
+  const { incidentId, attempt } = event;
 
   logger.info('Checking vendor response', { incidentId, attempt });
 
@@ -25,17 +25,76 @@ export const handler: Handler = async (event: {
   const hasVendor = incident.status === 'vendor_assigned' || incident.assignedVendorId;
 
   if (hasVendor) {
+    // match-svc records the vendor who accepted; move new and reassigning
+    // incidents on to vendor_assigned
+    let status = incident.status;
+    if (status === 'created' || status === 'reassigning') {
+      const updated = await retryOnConflict(() =>
+        updateIncidentStatus(incidentId, 'vendor_assigned', 'system', 'Vendor accepted offer')
+      );
+      status = updated.status;
+    }
+
     logger.info('Vendor assigned to incident', { incidentId, vendorId: incident.assignedVendorId });
     return {
       hasVendor: true,
       incidentId,
       vendorId: incident.assignedVendorId,
-      status: incident.status,
+      status,
+    };
+  }
+
+  // Cascade/hybrid dispatch still has vendors to offer in this attempt
+  const dispatch = incident.dispatch;
+  if (dispatch && dispatch.mode !== 'broadcast' && dispatch.status === 'in_progress') {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (now < dispatch.expiresAt) {
+      return {
+        hasVendor: false,
+        shouldEscalate: false,
+        awaitingDispatch: true,
+        waitSeconds: dispatch.expiresAt - now,
+        incidentId,
+        attempt,
+      };
+    }
+
+    // Current round timed out - match-svc expires its offers and offers the next vendor
+    await eventBridge.publishEvent({
+      source: EventSources.INCIDENT_SERVICE,
+      detailType: EventTypes.MATCH_REQUESTED,
+      detail: {
+        incidentId,
+        driverId: incident.driverId,
+        type: incident.type,
+        location: incident.location,
+        attempt: dispatch.attempt,
+        reason: 'offer_timeout',
+        round: dispatch.round,
+        requestedAt: new Date().toISOString(),
+      },
+    });
+
+    logger.info('Dispatch round timed out, requested next round', {
+      incidentId,
+      mode: dispatch.mode,
+      round: dispatch.round,
+    });
+
+    return {
+      hasVendor: false,
+      shouldEscalate: false,
+      awaitingDispatch: true,
+      waitSeconds: DISPATCH_POLL_SECONDS,
+      incidentId,
+      attempt,
     };
   }
 
-  // No vendor assigned - check if we should expand radius or escalate
-  const maxAttempts = 3;
+  // No vendor assigned - check if we should start another attempt or escalate
+  const matchingConfig = await configStore.getMatchingConfig();
+  const maxAttempts = matchingConfig?.value.maxExpansionAttempts ?? DEFAULT_MAX_ATTEMPTS;
   const shouldEscalate = attempt >= maxAttempts;
 
   if (shouldEscalate) {
@@ -43,20 +102,20 @@ export const handler: Handler = async (event: {
     return {
       hasVendor: false,
       shouldEscalate: true,
+      awaitingDispatch: false,
       incidentId,
       attempt,
     };
   }
 
-  // Expand radius by 25%
-  const newRadius = radiusMiles * 1.25;
-  logger.info('Expanding search radius', { incidentId, attempt, oldRadius: radiusMiles, newRadius });
+  // match-svc widens the search radius for the next attempt
+  logger.info('Starting next matching attempt', { incidentId, attempt: attempt + 1 });
 
   return {
     hasVendor: false,
     shouldEscalate: false,
+    awaitingDispatch: false,
     incidentId,
     attempt: attempt + 1,
-    radiusMiles: newRadius,
   };
 };
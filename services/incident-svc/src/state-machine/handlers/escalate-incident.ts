@@ -1,7 +1,7 @@
 import { Handler } from 'aws-lambda';
 import { logger } from '@roadcall/utils';
 import { eventBridge, EventSources, EventTypes } from '@roadcall/aws-clients';
-import { updateIncidentStatus } from '../../incident-service';
+import { escalateIncident } from '../../incident-service';
 
 /**
  * Escalate incident to dispatcher when no vendor found after max attempts
@@ -15,12 +15,11 @@ export const handler: Handler = async (event: {
 
   logger.warn('Escalating incident to dispatcher', { incidentId, attempt, reason });
 
-  // Update incident status to indicate escalation needed
-  await updateIncidentStatus(
+  // Move the incident into the dispatcher escalation queue
+  const incident = await escalateIncident(
     incidentId,
-    'created', // Keep as created but mark for manual intervention
-    'system',
-    `Escalated: ${reason} after ${attempt} attempts`
+    `Escalated: ${reason} after ${attempt} attempts`,
+    attempt
   );
 
   // Publish escalation event for dispatcher notification
@@ -31,7 +30,8 @@ export const handler: Handler = async (event: {
       incidentId,
       reason,
       attempts: attempt,
-      escalatedAt: new Date().toISOString(),
+      previousStatus: incident.escalation?.previousStatus,
+      escalatedAt: incident.escalation?.escalatedAt,
       requiresManualIntervention: true,
     },
   });
@@ -1,7 +1,9 @@
 import { Handler } from 'aws-lambda';
 import { logger } from '@roadcall/utils';
 import { eventBridge, EventSources, EventTypes } from '@roadcall/aws-clients';
-import { updateIncidentStatus, getIncidentById } from '../../incident-service';
+import { reassignIncident } from '../../incident-service';
+
+const DEFAULT_ARRIVAL_TIMEOUT_MINUTES = 30;
 
 /**
  * Handle vendor arrival timeout - reassign to new vendor
@@ -10,33 +12,19 @@ export const handler: Handler = async (event: {
   incidentId: string;
   vendorId: string;
   elapsedMinutes: number;
+  arrivalTimeoutMinutes?: number;
 }) => {
   const { incidentId, vendorId, elapsedMinutes } = event;
+  const arrivalTimeoutMinutes = event.arrivalTimeoutMinutes ?? DEFAULT_ARRIVAL_TIMEOUT_MINUTES;
 
   logger.warn('Handling vendor arrival timeout', { incidentId, vendorId, elapsedMinutes });
 
-  const incident = await getIncidentById(incidentId);
-  if (!incident) {
-    throw new Error(`Incident ${incidentId} not found`);
-  }
-
-  // Reset incident to created status to trigger new vendor matching
-  await updateIncidentStatus(
+  // Release the vendor and clear dispatch progress so matching starts over
+  const incident = await reassignIncident(
     incidentId,
-    'created',
-    'system',
-    `Vendor ${vendorId} failed to arrive within 30 minutes`
+    `Vendor ${vendorId} failed to arrive within ${arrivalTimeoutMinutes} minutes`
   );
 
-  // Clear vendor assignment
-  const { dynamodb } = await import('@roadcall/aws-clients');
-  const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE || '';
-  
-  await dynamodb.update(INCIDENTS_TABLE, { incidentId }, {
-    assignedVendorId: null,
-    updatedAt: new Date().toISOString(),
-  });
-
   // Publish vendor timeout event
   await eventBridge.publishEvent({
     source: EventSources.INCIDENT_SERVICE,
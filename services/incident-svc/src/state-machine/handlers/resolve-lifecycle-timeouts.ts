@@ -0,0 +1,28 @@
+import { Handler } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import { configStore } from '@roadcall/aws-clients';
+import { getIncidentById } from '../../incident-service';
+
+/**
+ * Resolve the lifecycle waits for the incident's SLA tier
+ * Used once at the start of the Step Functions execution
+ */
+export const handler: Handler = async (event: { incidentId: string }) => {
+  const { incidentId } = event;
+
+  const incident = await getIncidentById(incidentId);
+
+  if (!incident) {
+    throw new Error(`Incident ${incidentId} not found`);
+  }
+
+  const timeouts = await configStore.getLifecycleTimeouts(incident.slaTier);
+
+  logger.info('Lifecycle timeouts resolved', {
+    incidentId,
+    slaTier: incident.slaTier,
+    ...timeouts,
+  });
+
+  return timeouts;
+};
@@ -1,47 +1,75 @@
 import { Handler, EventBridgeEvent } from 'aws-lambda';
+import { SFNClient, SendTaskSuccessCommand } from '@aws-sdk/client-sfn';
 import { logger } from '@roadcall/utils';
+import { IncidentLifecycleWait, IncidentStatus } from '@roadcall/types';
+import { getIncidentById, recordLifecycleWait, clearLifecycleWait } from '../../incident-service';
 
-// Note: Task token functionality will be implemented when needed
-// For now, this handler processes events and updates incident status
+const sfn = new SFNClient({});
+
+type LifecycleWaitType = IncidentLifecycleWait['detailType'];
+
+// Statuses at which a lifecycle wait is already over
+const WAIT_ENDED_AT: Record<LifecycleWaitType, IncidentStatus[]> = {
+  WorkCompletionWait: ['work_completed', 'payment_pending', 'closed'],
+  PaymentApprovalWait: ['closed'],
+  DispatcherAssignmentWait: ['vendor_assigned', 'vendor_en_route', 'vendor_arrived'],
+};
+
+// Events that end each lifecycle wait
+const RESUMED_BY: Record<string, LifecycleWaitType> = {
+  WorkCompleted: 'WorkCompletionWait',
+  PaymentApproved: 'PaymentApprovalWait',
+};
 
 /**
  * Send task token to resume Step Functions execution
- * This handler is triggered by EventBridge events (vendor actions, payment approval)
+ * Lifecycle wait events (WorkCompletionWait, PaymentApprovalWait,
+ * DispatcherAssignmentWait) carry the token, which is kept on the incident
+ * until the vendor action, payment approval or hand-assign that ends the wait
+ * arrives
  */
-export const handler: Handler = async (
-  event: EventBridgeEvent<string, any>
-) => {
-  logger.info('Processing event for task token', { 
+export const handler: Handler = async (event: EventBridgeEvent<string, any>) => {
+  logger.info('Processing event for task token', {
     detailType: event['detail-type'],
-    source: event.source 
+    source: event.source,
   });
 
   const { incidentId } = event.detail;
 
   try {
-    // In a real implementation, you would retrieve the task token from DynamoDB
-    // For now, we'll handle the event and update the incident status
-    
     // Different event types require different handling
     switch (event['detail-type']) {
       case 'OfferAccepted':
         await handleOfferAccepted(event.detail);
         break;
-      
-      case 'WorkCompleted':
-        await handleWorkCompleted(event.detail);
+
+      case 'WorkCompletionWait':
+      case 'PaymentApprovalWait':
+      case 'DispatcherAssignmentWait':
+        await handleLifecycleWait(event['detail-type'], event.detail);
         break;
-      
+
+      case 'WorkCompleted':
       case 'PaymentApproved':
-        await handlePaymentApproved(event.detail);
+        await resumeLifecycleWait(RESUMED_BY[event['detail-type']], event.detail);
+        break;
+
+      case 'IncidentStatusChanged':
+        // A dispatcher hand-assigned a vendor to an escalated incident
+        if (
+          event.detail.previousStatus === 'escalated' &&
+          event.detail.newStatus === 'vendor_assigned'
+        ) {
+          await resumeLifecycleWait('DispatcherAssignmentWait', event.detail);
+        }
         break;
-      
+
       default:
         logger.warn('Unhandled event type', { detailType: event['detail-type'] });
     }
 
     logger.info('Event processed successfully', { incidentId });
-    
+
     return {
       statusCode: 200,
       body: JSON.stringify({ message: 'Event processed' }),
@@ -54,29 +82,64 @@ export const handler: Handler = async (
 
 async function handleOfferAccepted(detail: any) {
   const { incidentId, vendorId, offerId } = detail;
-  
+
   logger.info('Handling offer accepted', { incidentId, vendorId, offerId });
-  
+
   // The state machine will detect the vendor assignment through CheckVendorResponse
   // No task token needed for this flow
 }
 
-async function handleWorkCompleted(detail: any) {
+async function handleLifecycleWait(detailType: LifecycleWaitType, detail: any) {
+  const { incidentId, taskToken } = detail;
+
+  const wait: IncidentLifecycleWait = { detailType, taskToken, since: new Date().toISOString() };
+  await recordLifecycleWait(incidentId, wait);
+
+  // The wait may have ended before it was recorded
+  const incident = await getIncidentById(incidentId);
+  if (incident && WAIT_ENDED_AT[detailType].includes(incident.status)) {
+    logger.info('Lifecycle wait already over', { incidentId, detailType, status: incident.status });
+    await sendTaskSuccess(wait, {
+      incidentId,
+      status: incident.status,
+      vendorId: incident.assignedVendorId,
+    });
+  }
+}
+
+async function resumeLifecycleWait(detailType: LifecycleWaitType, detail: any) {
   const { incidentId } = detail;
-  
-  logger.info('Work completed event received', { incidentId });
-  
-  // Task token functionality will be implemented when Step Functions
-  // waitForTaskToken integration is added
-  // For now, the state machine will detect status changes through polling
+
+  const incident = await getIncidentById(incidentId);
+  const wait = incident?.lifecycleWait;
+
+  if (!wait || wait.detailType !== detailType) {
+    logger.info('No lifecycle wait to resume', { incidentId, detailType });
+    return;
+  }
+
+  // The lifecycle picks up a hand-assign with the vendor the dispatcher chose
+  await sendTaskSuccess(
+    wait,
+    detailType === 'DispatcherAssignmentWait'
+      ? { ...detail, vendorId: incident.assignedVendorId }
+      : detail
+  );
+  await clearLifecycleWait(incidentId, wait);
 }
 
-async function handlePaymentApproved(detail: any) {
-  const { incidentId, paymentId } = detail;
-  
-  logger.info('Payment approved event received', { incidentId, paymentId });
-  
-  // Task token functionality will be implemented when Step Functions
-  // waitForTaskToken integration is added
-  // For now, the state machine will detect status changes through polling
+async function sendTaskSuccess(wait: IncidentLifecycleWait, output: unknown) {
+  try {
+    await sfn.send(
+      new SendTaskSuccessCommand({ taskToken: wait.taskToken, output: JSON.stringify(output) })
+    );
+    logger.info('Lifecycle wait resumed', { detailType: wait.detailType });
+  } catch (error) {
+    // Already resumed, or timed out and escalated
+    if (['TaskTimedOut', 'InvalidToken'].includes((error as Error).name)) {
+      logger.warn('Lifecycle wait no longer open', { detailType: wait.detailType });
+      return;
+    }
+    throw error;
+  }
 }
@@ -1,20 +1,19 @@
 import { Handler } from 'aws-lambda';
 import { logger } from '@roadcall/utils';
-import { eventBridge, EventSources, EventTypes } from '@roadcall/aws-clients';
-import { getIncidentById } from '../../incident-service';
+import { eventBridge, configStore, EventSources, EventTypes } from '@roadcall/aws-clients';
+import { getIncidentById, secondsUntilWindowOpens } from '../../incident-service';
+
+const DEFAULT_OFFER_TIMEOUT_SECONDS = 120;
 
 /**
  * Trigger vendor matching by publishing event to EventBridge
- * This will be picked up by the match service
+ * This will be picked up by the match service, which works out the search
+ * radius for the attempt from its matching config
  */
-export const handler: Handler = async (event: {
-  incidentId: string;
-  attempt: number;
-  radiusMiles: number;
-}) => {
-  const { incidentId, attempt, radiusMiles } = event;
+export const handler: Handler = async (event: { incidentId: string; attempt: number }) => {
+  const { incidentId, attempt } = event;
 
-  logger.info('Triggering vendor matching', { incidentId, attempt, radiusMiles });
+  logger.info('Triggering vendor matching', { incidentId, attempt });
 
   const incident = await getIncidentById(incidentId);
   if (!incident) {
@@ -30,18 +29,38 @@ export const handler: Handler = async (event: {
       driverId: incident.driverId,
       type: incident.type,
       location: incident.location,
-      radiusMiles,
       attempt,
       requestedAt: new Date().toISOString(),
     },
   });
 
-  logger.info('Vendor matching triggered', { incidentId, attempt, radiusMiles });
+  // WaitForVendorResponse waits as long as the first round of offers lives:
+  // the matching offer timeout for broadcast, the shorter cascade timeout
+  // when the SLA tier sends offers one vendor at a time. Offers on scheduled
+  // incidents only start timing out once the service window opens.
+  const matchingConfig = await configStore.getMatchingConfig();
+  const dispatchStrategy = await configStore.getDispatchStrategy(incident.slaTier);
+  const cascadesFirst =
+    dispatchStrategy.mode === 'cascade' ||
+    (dispatchStrategy.mode === 'hybrid' && dispatchStrategy.cascadeDepth > 0);
+  const offerTimeoutSeconds =
+    secondsUntilWindowOpens(incident) +
+    (cascadesFirst
+      ? dispatchStrategy.cascadeOfferTimeoutSeconds
+      : matchingConfig?.value.offerTimeoutSeconds ?? DEFAULT_OFFER_TIMEOUT_SECONDS);
+
+  logger.info('Vendor matching triggered', {
+    incidentId,
+    attempt,
+    offerTimeoutSeconds,
+    dispatchMode: dispatchStrategy.mode,
+    configVersion: matchingConfig?.version,
+  });
 
   return {
     incidentId,
     matchRequested: true,
     attempt,
-    radiusMiles,
+    offerTimeoutSeconds,
   };
 };
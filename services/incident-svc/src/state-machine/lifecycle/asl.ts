@@ -0,0 +1,119 @@
+import {
+  LifecycleCatch,
+  LifecycleDefinition,
+  LifecycleHandler,
+  LifecycleRetry,
+  LifecycleState,
+  LIFECYCLE_EVENT_SOURCE,
+} from './types';
+
+/**
+ * Definition substitution that holds a handler's Lambda ARN, e.g.
+ * `checkVendorArrival` -> `CheckVendorArrivalFunctionArn`
+ */
+export function functionArnSubstitution(handler: LifecycleHandler): string {
+  return `${handler.charAt(0).toUpperCase()}${handler.slice(1)}FunctionArn`;
+}
+
+// Definition substitution that holds the event bus await states publish to
+export const EVENT_BUS_SUBSTITUTION = 'EventBusName';
+
+const toRetry = (retry: LifecycleRetry[]) =>
+  retry.map((r) => ({
+    ErrorEquals: r.errors,
+    IntervalSeconds: r.intervalSeconds,
+    MaxAttempts: r.maxAttempts,
+    BackoffRate: r.backoffRate,
+  }));
+
+const toCatch = (catchers: LifecycleCatch[]) =>
+  catchers.map((c) => ({ ErrorEquals: c.errors, ResultPath: c.resultPath, Next: c.next }));
+
+function toAslState(state: LifecycleState): Record<string, unknown> {
+  const comment = state.comment ? { Comment: state.comment } : {};
+
+  switch (state.type) {
+    case 'task':
+      return {
+        Type: 'Task',
+        ...comment,
+        Resource: 'arn:aws:states:::lambda:invoke',
+        Parameters: {
+          FunctionName: `\${${functionArnSubstitution(state.handler)}}`,
+          Payload: state.parameters,
+        },
+        ResultPath: state.resultPath,
+        Next: state.next,
+        ...(state.retry && { Retry: toRetry(state.retry) }),
+        ...(state.catch && { Catch: toCatch(state.catch) }),
+      };
+
+    case 'wait':
+      return {
+        Type: 'Wait',
+        ...comment,
+        ...(state.seconds !== undefined && { Seconds: state.seconds }),
+        ...(state.secondsPath && { SecondsPath: state.secondsPath }),
+        ...(state.timestampPath && { TimestampPath: state.timestampPath }),
+        Next: state.next,
+      };
+
+    case 'await':
+      return {
+        Type: 'Task',
+        ...comment,
+        Resource: 'arn:aws:states:::events:putEvents.waitForTaskToken',
+        Parameters: {
+          Entries: [
+            {
+              Detail: { ...state.detail, 'taskToken.$': '$$.Task.Token' },
+              DetailType: state.detailType,
+              Source: LIFECYCLE_EVENT_SOURCE,
+              EventBusName: `\${${EVENT_BUS_SUBSTITUTION}}`,
+            },
+          ],
+        },
+        ResultPath: state.resultPath,
+        Next: state.next,
+        TimeoutSecondsPath: state.timeoutSecondsPath,
+        Catch: [{ ErrorEquals: ['States.Timeout'], ResultPath: '$.error', Next: state.onTimeout }],
+      };
+
+    case 'choice':
+      return {
+        Type: 'Choice',
+        ...comment,
+        Choices: state.choices.map((rule) => ({
+          Variable: rule.variable,
+          ...(rule.booleanEquals !== undefined && { BooleanEquals: rule.booleanEquals }),
+          ...(rule.isPresent !== undefined && { IsPresent: rule.isPresent }),
+          Next: rule.next,
+        })),
+        Default: state.default,
+      };
+
+    case 'pass':
+      return {
+        Type: 'Pass',
+        ...comment,
+        ...(state.parameters && { Parameters: state.parameters }),
+        ...(state.resultPath && { ResultPath: state.resultPath }),
+        ...(state.end ? { End: true } : { Next: state.next }),
+      };
+  }
+}
+
+/**
+ * Generate the Amazon States Language definition for a lifecycle description.
+ * Lambda ARNs and the event bus are left as `${...}` definition substitutions
+ * for the deploying stack to fill in.
+ */
+export function toStatesLanguage(definition: LifecycleDefinition) {
+  return {
+    Comment: definition.comment,
+    StartAt: definition.startAt,
+    States: Object.fromEntries(
+      Object.entries(definition.states).map(([name, state]) => [name, toAslState(state)])
+    ),
+  };
+}
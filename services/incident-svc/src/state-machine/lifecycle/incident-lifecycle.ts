@@ -0,0 +1,320 @@
+import { LifecycleDefinition, LifecycleRetry } from './types';
+
+const retryTaskFailures = (
+  intervalSeconds: number,
+  maxAttempts: number,
+  errors: string[] = ['States.TaskFailed']
+): LifecycleRetry[] => [{ errors, intervalSeconds, maxAttempts, backoffRate: 2 }];
+
+/**
+ * Incident lifecycle:
+ * 0. Scheduled incidents: wait until matching starts (lead time before the service window)
+ * 1. Resolve the SLA tier's waits
+ * 2. Created -> Wait for vendor response (configured offer timeout)
+ * 3. Vendor Assigned -> Wait for arrival (SLA tier arrival time)
+ * 4. Vendor Arrived -> Work Completed (SLA tier work completion window)
+ * 5. Payment approved (SLA tier payment approval window) -> Closed
+ *
+ * Handles:
+ * - Vendor response timeout with another matching attempt (configured max attempts);
+ *   match-svc widens the search radius for each attempt from its matching config
+ * - Cascade/hybrid dispatch: one vendor at a time until the attempt is exhausted
+ * - Vendor arrival timeout with reassignment
+ * - Scheduled incidents: offer and arrival timeouts start when the service window opens
+ * - Escalation to dispatcher after max attempts, or when work or payment stalls
+ * - Dispatcher hand-assign of an escalated incident: back to waiting for arrival
+ *
+ * Every state adds its result under its own key, so the incident fields from
+ * the execution input stay available for the whole lifecycle.
+ */
+export const incidentLifecycle: LifecycleDefinition = {
+  comment: 'Incident Lifecycle State Machine with timeout handling and escalation',
+  startAt: 'IsScheduledIncident',
+  states: {
+    IsScheduledIncident: {
+      type: 'choice',
+      comment: 'Scheduled incidents wait for their matching lead time before matching starts',
+      choices: [{ variable: '$.matchingStartsAt', isPresent: true, next: 'WaitForMatchingStart' }],
+      default: 'ResolveLifecycleTimeouts',
+    },
+
+    WaitForMatchingStart: {
+      type: 'wait',
+      timestampPath: '$.matchingStartsAt',
+      next: 'ResolveLifecycleTimeouts',
+    },
+
+    ResolveLifecycleTimeouts: {
+      type: 'task',
+      comment: 'Look up the arrival, work and payment waits for the incident SLA tier',
+      handler: 'resolveLifecycleTimeouts',
+      parameters: { 'incidentId.$': '$.incidentId' },
+      resultPath: '$.timeouts',
+      next: 'InitializeIncident',
+      retry: retryTaskFailures(1, 2),
+    },
+
+    InitializeIncident: {
+      type: 'pass',
+      comment: 'Start (or restart after a reassignment) matching at the first attempt',
+      parameters: { attempt: 1 },
+      resultPath: '$.search',
+      next: 'TriggerVendorMatching',
+    },
+
+    TriggerVendorMatching: {
+      type: 'task',
+      handler: 'triggerVendorMatching',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'attempt.$': '$.search.attempt',
+      },
+      resultPath: '$.matchResult',
+      next: 'WaitForVendorResponse',
+      retry: retryTaskFailures(2, 3, ['States.TaskFailed', 'States.Timeout']),
+      catch: [{ errors: ['States.ALL'], resultPath: '$.error', next: 'EscalateMatchingError' }],
+    },
+
+    WaitForVendorResponse: {
+      type: 'wait',
+      comment: 'Wait for a vendor to accept (offer timeout from admin matching config)',
+      secondsPath: '$.matchResult.Payload.offerTimeoutSeconds',
+      next: 'CheckVendorResponse',
+    },
+
+    CheckVendorResponse: {
+      type: 'task',
+      handler: 'checkVendorResponse',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'attempt.$': '$.search.attempt',
+      },
+      resultPath: '$.responseCheck',
+      next: 'HasVendorResponded',
+      retry: retryTaskFailures(1, 2),
+    },
+
+    HasVendorResponded: {
+      type: 'choice',
+      choices: [
+        {
+          variable: '$.responseCheck.Payload.hasVendor',
+          booleanEquals: true,
+          next: 'VendorAssigned',
+        },
+        {
+          variable: '$.responseCheck.Payload.shouldEscalate',
+          booleanEquals: true,
+          next: 'EscalateToDispatcher',
+        },
+        {
+          variable: '$.responseCheck.Payload.awaitingDispatch',
+          booleanEquals: true,
+          next: 'WaitForNextOfferRound',
+        },
+      ],
+      default: 'UpdateSearchParameters',
+    },
+
+    WaitForNextOfferRound: {
+      type: 'wait',
+      comment: 'Cascade/hybrid dispatch: wait for the current round to expire or the next round',
+      secondsPath: '$.responseCheck.Payload.waitSeconds',
+      next: 'CheckVendorResponse',
+    },
+
+    UpdateSearchParameters: {
+      type: 'pass',
+      comment: 'Retry matching at the next attempt, which match-svc searches further out',
+      parameters: {
+        'attempt.$': '$.responseCheck.Payload.attempt',
+      },
+      resultPath: '$.search',
+      next: 'TriggerVendorMatching',
+    },
+
+    VendorAssigned: {
+      type: 'pass',
+      parameters: {
+        'vendorId.$': '$.responseCheck.Payload.vendorId',
+        'assignedAt.$': '$$.State.EnteredTime',
+      },
+      resultPath: '$.assignment',
+      next: 'WaitForVendorArrival',
+    },
+
+    WaitForVendorArrival: {
+      type: 'wait',
+      secondsPath: '$.timeouts.Payload.arrivalCheckSeconds',
+      next: 'CheckVendorArrival',
+    },
+
+    CheckVendorArrival: {
+      type: 'task',
+      handler: 'checkVendorArrival',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'vendorId.$': '$.assignment.vendorId',
+        'assignedAt.$': '$.assignment.assignedAt',
+        'arrivalTimeoutMinutes.$': '$.timeouts.Payload.arrivalTimeoutMinutes',
+      },
+      resultPath: '$.arrivalCheck',
+      next: 'HasVendorArrived',
+      retry: retryTaskFailures(1, 2),
+    },
+
+    HasVendorArrived: {
+      type: 'choice',
+      choices: [
+        {
+          variable: '$.arrivalCheck.Payload.hasArrived',
+          booleanEquals: true,
+          next: 'VendorArrived',
+        },
+        {
+          variable: '$.arrivalCheck.Payload.isTimeout',
+          booleanEquals: true,
+          next: 'HandleVendorTimeout',
+        },
+      ],
+      default: 'WaitForVendorArrival',
+    },
+
+    HandleVendorTimeout: {
+      type: 'task',
+      comment: 'Release the vendor and restart matching',
+      handler: 'handleVendorTimeout',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'vendorId.$': '$.assignment.vendorId',
+        'elapsedMinutes.$': '$.arrivalCheck.Payload.elapsedMinutes',
+        'arrivalTimeoutMinutes.$': '$.timeouts.Payload.arrivalTimeoutMinutes',
+      },
+      resultPath: '$.timeoutResult',
+      next: 'InitializeIncident',
+      retry: retryTaskFailures(2, 2),
+    },
+
+    VendorArrived: {
+      type: 'pass',
+      parameters: { 'arrivedAt.$': '$$.State.EnteredTime' },
+      resultPath: '$.arrival',
+      next: 'WaitForWorkCompletion',
+    },
+
+    WaitForWorkCompletion: {
+      type: 'await',
+      comment: 'Resumed by send-task-token when the vendor completes the work',
+      detailType: 'WorkCompletionWait',
+      detail: { 'incidentId.$': '$.incidentId' },
+      timeoutSecondsPath: '$.timeouts.Payload.workCompletionSeconds',
+      resultPath: '$.workResult',
+      next: 'WaitForPaymentApproval',
+      onTimeout: 'EscalateStalledWork',
+    },
+
+    WaitForPaymentApproval: {
+      type: 'await',
+      comment: 'Resumed by send-task-token when the payment is approved',
+      detailType: 'PaymentApprovalWait',
+      detail: { 'incidentId.$': '$.incidentId' },
+      timeoutSecondsPath: '$.timeouts.Payload.paymentApprovalSeconds',
+      resultPath: '$.paymentResult',
+      next: 'IncidentClosed',
+      onTimeout: 'EscalateStalledPayment',
+    },
+
+    IncidentClosed: {
+      type: 'pass',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        status: 'closed',
+        'completedAt.$': '$$.State.EnteredTime',
+      },
+      end: true,
+    },
+
+    EscalateToDispatcher: {
+      type: 'task',
+      handler: 'escalateIncident',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'attempt.$': '$.search.attempt',
+        reason: 'No vendor found after maximum attempts',
+      },
+      resultPath: '$.escalationResult',
+      next: 'WaitForDispatcher',
+      retry: retryTaskFailures(2, 3),
+    },
+
+    EscalateMatchingError: {
+      type: 'task',
+      handler: 'escalateIncident',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'attempt.$': '$.search.attempt',
+        reason: 'Vendor matching failed',
+      },
+      resultPath: '$.escalationResult',
+      next: 'WaitForDispatcher',
+      retry: retryTaskFailures(2, 3),
+    },
+
+    EscalateStalledWork: {
+      type: 'task',
+      handler: 'escalateIncident',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'attempt.$': '$.search.attempt',
+        reason: 'Work not completed in time',
+      },
+      resultPath: '$.escalationResult',
+      next: 'WaitForDispatcher',
+      retry: retryTaskFailures(2, 3),
+    },
+
+    EscalateStalledPayment: {
+      type: 'task',
+      handler: 'escalateIncident',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        'attempt.$': '$.search.attempt',
+        reason: 'Payment not approved in time',
+      },
+      resultPath: '$.escalationResult',
+      next: 'WaitForDispatcher',
+      retry: retryTaskFailures(2, 3),
+    },
+
+    WaitForDispatcher: {
+      type: 'await',
+      comment: 'Resumed by send-task-token when a dispatcher hand-assigns a vendor',
+      detailType: 'DispatcherAssignmentWait',
+      detail: { 'incidentId.$': '$.incidentId' },
+      timeoutSecondsPath: '$.timeouts.Payload.dispatcherAssignmentSeconds',
+      resultPath: '$.dispatcherResult',
+      next: 'DispatcherAssigned',
+      onTimeout: 'EscalationComplete',
+    },
+
+    DispatcherAssigned: {
+      type: 'pass',
+      parameters: {
+        'vendorId.$': '$.dispatcherResult.vendorId',
+        'assignedAt.$': '$$.State.EnteredTime',
+      },
+      resultPath: '$.assignment',
+      next: 'WaitForVendorArrival',
+    },
+
+    EscalationComplete: {
+      type: 'pass',
+      parameters: {
+        'incidentId.$': '$.incidentId',
+        status: 'escalated',
+        'escalatedAt.$': '$$.State.EnteredTime',
+      },
+      end: true,
+    },
+  },
+};
@@ -0,0 +1,395 @@
+import { Context, Handler } from 'aws-lambda';
+import {
+  LifecycleAwaitState,
+  LifecycleChoiceState,
+  LifecycleDefinition,
+  LifecycleHandler,
+  LifecycleParameters,
+  LifecyclePassState,
+  LifecycleTaskState,
+  LifecycleWaitState,
+  LIFECYCLE_EVENT_SOURCE,
+} from './types';
+
+const DEFAULT_MAX_TRANSITIONS = 500;
+
+export type LocalLifecycleHandlers = Record<LifecycleHandler, Handler>;
+
+/**
+ * Time source for a local execution. Wait states and retries move it forward
+ * instead of sleeping; tests pass one that also moves the system clock so
+ * handlers see the same time.
+ */
+export interface LifecycleClock {
+  now(): number;
+  set(time: number): void;
+}
+
+export function virtualClock(start: number = Date.now()): LifecycleClock {
+  let time = start;
+  return {
+    now: () => time,
+    set: (next: number) => {
+      time = next;
+    },
+  };
+}
+
+export type LocalExecutionStatus = 'RUNNING' | 'WAITING' | 'SUCCEEDED' | 'FAILED';
+
+export interface LocalLifecycleEvent {
+  source: string;
+  detailType: string;
+  detail: Record<string, unknown>;
+}
+
+interface PendingTask {
+  state: string;
+  taskToken: string;
+  timesOutAt: number;
+}
+
+type Data = Record<string, unknown>;
+
+// Errors raised by the runner itself, matched like Step Functions errors
+class StatesError extends Error {
+  constructor(name: string, message: string) {
+    super(message);
+    this.name = name;
+  }
+}
+
+function errorMatches(errors: string[], error: Error): boolean {
+  return errors.some(
+    (name) =>
+      name === 'States.ALL' ||
+      name === error.name ||
+      (name === 'States.TaskFailed' && !error.name.startsWith('States.'))
+  );
+}
+
+function readPath(root: unknown, path: string): unknown {
+  if (path === '$' || path === '$$') {
+    return root;
+  }
+
+  const segments = path.replace(/^\$\$?\./, '').split('.');
+  let value = root;
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object' || !(segment in value)) {
+      throw new StatesError('States.Runtime', `Path ${path} not found in input`);
+    }
+    value = (value as Data)[segment];
+  }
+  return value;
+}
+
+function pathExists(root: unknown, path: string): boolean {
+  try {
+    readPath(root, path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function writePath(root: Data, path: string, value: unknown): Data {
+  if (path === '$') {
+    return value as Data;
+  }
+
+  const segments = path.replace(/^\$\./, '').split('.');
+  const result: Data = structuredClone(root);
+  let target = result;
+  segments.slice(0, -1).forEach((segment) => {
+    if (target[segment] === null || typeof target[segment] !== 'object') {
+      target[segment] = {};
+    }
+    target = target[segment] as Data;
+  });
+  target[segments[segments.length - 1]] = value;
+  return result;
+}
+
+/**
+ * One run of a lifecycle description in-process. Task states call the given
+ * handlers, wait states move the clock forward, and await states park the
+ * execution until `sendTaskSuccess` resumes it or `advance` passes its timeout.
+ */
+export class LocalLifecycleExecution {
+  status: LocalExecutionStatus = 'RUNNING';
+  data: Data;
+  output?: unknown;
+  error?: { error: string; cause: string };
+  readonly history: string[] = [];
+  readonly events: LocalLifecycleEvent[] = [];
+
+  private pending?: PendingTask;
+  private transitions = 0;
+  private tokens = 0;
+  private readonly executionId: string;
+  private readonly startTime: string;
+  private currentState = '';
+  private enteredTime = '';
+
+  constructor(
+    private readonly definition: LifecycleDefinition,
+    private readonly handlers: LocalLifecycleHandlers,
+    private readonly clock: LifecycleClock,
+    private readonly maxTransitions: number,
+    readonly input: Data,
+    executionId: string
+  ) {
+    this.data = structuredClone(input);
+    this.executionId = executionId;
+    this.startTime = new Date(clock.now()).toISOString();
+  }
+
+  /**
+   * Task token of the await state the execution is parked in
+   */
+  get taskToken(): string | undefined {
+    return this.pending?.taskToken;
+  }
+
+  get waitingIn(): string | undefined {
+    return this.pending?.state;
+  }
+
+  async run(): Promise<this> {
+    await this.runFrom(this.definition.startAt);
+    return this;
+  }
+
+  /**
+   * Resume a parked execution, like SendTaskSuccess
+   */
+  async sendTaskSuccess(taskToken: string, output: unknown = {}): Promise<this> {
+    const pending = this.takePending(taskToken);
+    const state = this.definition.states[pending.state] as LifecycleAwaitState;
+
+    this.data = writePath(this.data, state.resultPath, output);
+    await this.runFrom(state.next);
+    return this;
+  }
+
+  /**
+   * Move the clock forward while parked; an await state whose timeout has
+   * passed fails with States.Timeout and takes its timeout branch
+   */
+  async advance(seconds: number): Promise<this> {
+    this.clock.set(this.clock.now() + seconds * 1000);
+
+    if (this.pending && this.clock.now() >= this.pending.timesOutAt) {
+      const pending = this.takePending(this.pending.taskToken);
+      const state = this.definition.states[pending.state] as LifecycleAwaitState;
+
+      this.data = writePath(this.data, '$.error', {
+        Error: 'States.Timeout',
+        Cause: `${pending.state} timed out`,
+      });
+      await this.runFrom(state.onTimeout);
+    }
+    return this;
+  }
+
+  private takePending(taskToken: string): PendingTask {
+    if (this.status !== 'WAITING' || this.pending?.taskToken !== taskToken) {
+      throw new StatesError('States.TaskDoesNotExist', `Task token ${taskToken} is not waiting`);
+    }
+
+    const pending = this.pending;
+    this.pending = undefined;
+    this.status = 'RUNNING';
+    return pending;
+  }
+
+  private async runFrom(stateName: string): Promise<void> {
+    let next: string | undefined = stateName;
+
+    try {
+      while (next) {
+        if (++this.transitions > this.maxTransitions) {
+          throw new StatesError(
+            'States.Runtime',
+            `Execution exceeded ${this.maxTransitions} state transitions`
+          );
+        }
+
+        const state = this.definition.states[next];
+        if (!state) {
+          throw new StatesError('States.Runtime', `State ${next} is not defined`);
+        }
+
+        this.currentState = next;
+        this.enteredTime = new Date(this.clock.now()).toISOString();
+        this.history.push(next);
+
+        switch (state.type) {
+          case 'task':
+            next = await this.runTask(state);
+            break;
+          case 'wait':
+            next = this.runWait(state);
+            break;
+          case 'await':
+            next = this.runAwait(state);
+            break;
+          case 'choice':
+            next = this.runChoice(state);
+            break;
+          case 'pass':
+            next = this.runPass(state);
+            break;
+        }
+      }
+    } catch (error) {
+      this.status = 'FAILED';
+      this.error = { error: (error as Error).name, cause: (error as Error).message };
+    }
+  }
+
+  private context() {
+    return {
+      Execution: { Id: this.executionId, StartTime: this.startTime, Input: this.input },
+      State: { Name: this.currentState, EnteredTime: this.enteredTime },
+      Task: { Token: `${this.executionId}:${this.currentState}:${this.tokens}` },
+    };
+  }
+
+  private resolveParameters(parameters: LifecycleParameters): Data {
+    const resolved: Data = {};
+    for (const [key, value] of Object.entries(parameters)) {
+      if (key.endsWith('.$')) {
+        const path = value as string;
+        resolved[key.slice(0, -2)] = path.startsWith('$$')
+          ? readPath(this.context(), path)
+          : readPath(this.data, path);
+      } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        resolved[key] = this.resolveParameters(value as LifecycleParameters);
+      } else {
+        resolved[key] = value;
+      }
+    }
+    return resolved;
+  }
+
+  private async runTask(state: LifecycleTaskState): Promise<string> {
+    const payload = this.resolveParameters(state.parameters);
+    const attempts = new Map<number, number>();
+
+    for (;;) {
+      try {
+        const result = await this.handlers[state.handler](payload, {} as Context, () => undefined);
+        this.data = writePath(this.data, state.resultPath, { Payload: result });
+        return state.next;
+      } catch (caught) {
+        const error = caught as Error;
+
+        const retryIndex = (state.retry || []).findIndex((r) => errorMatches(r.errors, error));
+        const retry = state.retry?.[retryIndex];
+        const attempt = attempts.get(retryIndex) || 0;
+        if (retry && attempt < retry.maxAttempts) {
+          attempts.set(retryIndex, attempt + 1);
+          const delaySeconds = retry.intervalSeconds * Math.pow(retry.backoffRate, attempt);
+          this.clock.set(this.clock.now() + delaySeconds * 1000);
+          continue;
+        }
+
+        const catcher = state.catch?.find((c) => errorMatches(c.errors, error));
+        if (catcher) {
+          this.data = writePath(this.data, catcher.resultPath, {
+            Error: error.name,
+            Cause: error.message,
+          });
+          return catcher.next;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  private runWait(state: LifecycleWaitState): string {
+    let until = this.clock.now();
+    if (state.seconds !== undefined) {
+      until += state.seconds * 1000;
+    } else if (state.secondsPath) {
+      until += Number(readPath(this.data, state.secondsPath)) * 1000;
+    } else if (state.timestampPath) {
+      until = new Date(readPath(this.data, state.timestampPath) as string).getTime();
+    }
+
+    if (until > this.clock.now()) {
+      this.clock.set(until);
+    }
+    return state.next;
+  }
+
+  private runAwait(state: LifecycleAwaitState): undefined {
+    this.tokens++;
+    const detail = this.resolveParameters({ ...state.detail, 'taskToken.$': '$$.Task.Token' });
+    const timeoutSeconds = Number(readPath(this.data, state.timeoutSecondsPath));
+
+    this.events.push({ source: LIFECYCLE_EVENT_SOURCE, detailType: state.detailType, detail });
+    this.pending = {
+      state: this.currentState,
+      taskToken: detail.taskToken as string,
+      timesOutAt: this.clock.now() + timeoutSeconds * 1000,
+    };
+    this.status = 'WAITING';
+    return undefined;
+  }
+
+  private runChoice(state: LifecycleChoiceState): string {
+    const rule = state.choices.find((choice) => {
+      if (choice.isPresent !== undefined) {
+        return pathExists(this.data, choice.variable) === choice.isPresent;
+      }
+      // Comparing a missing variable fails the execution, as in Step Functions
+      return readPath(this.data, choice.variable) === choice.booleanEquals;
+    });
+    return rule ? rule.next : state.default;
+  }
+
+  private runPass(state: LifecyclePassState): string | undefined {
+    const result = state.parameters ? this.resolveParameters(state.parameters) : this.data;
+    if (state.end) {
+      this.output = state.resultPath ? writePath(this.data, state.resultPath, result) : result;
+      this.status = 'SUCCEEDED';
+      return undefined;
+    }
+
+    this.data = state.resultPath ? writePath(this.data, state.resultPath, result) : result;
+    return state.next;
+  }
+}
+
+/**
+ * Runs a lifecycle description in-process against local handlers, so the
+ * lifecycle can be walked through timeouts and escalations without AWS
+ */
+export class LocalLifecycleRunner {
+  private executions = 0;
+
+  constructor(
+    private readonly definition: LifecycleDefinition,
+    private readonly handlers: LocalLifecycleHandlers,
+    private readonly options: { clock?: LifecycleClock; maxTransitions?: number } = {}
+  ) {}
+
+  /**
+   * Start an execution and run it until it ends or parks in an await state
+   */
+  async start(input: Data): Promise<LocalLifecycleExecution> {
+    const execution = new LocalLifecycleExecution(
+      this.definition,
+      this.handlers,
+      this.options.clock || virtualClock(),
+      this.options.maxTransitions || DEFAULT_MAX_TRANSITIONS,
+      input,
+      `local-execution-${++this.executions}`
+    );
+    return execution.run();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Description language for the incident lifecycle. One description is turned
+ * into Amazon States Language for deployment (asl.ts) and run in-process by
+ * the local runner (local-runner.ts), so both always walk the same states.
+ *
+ * Paths follow ASL: `$.a.b` reads the execution data, `$$.State.EnteredTime`
+ * the context object, and parameter keys ending in `.$` take a path.
+ */
+
+/**
+ * Lambda handlers the lifecycle invokes. Each is deployed as
+ * `${<Handler>FunctionArn}` in the generated definition.
+ */
+export type LifecycleHandler =
+  | 'resolveLifecycleTimeouts'
+  | 'triggerVendorMatching'
+  | 'checkVendorResponse'
+  | 'checkVendorArrival'
+  | 'handleVendorTimeout'
+  | 'escalateIncident';
+
+export type LifecycleParameters = Record<string, unknown>;
+
+export interface LifecycleRetry {
+  errors: string[];
+  intervalSeconds: number;
+  maxAttempts: number;
+  backoffRate: number;
+}
+
+export interface LifecycleCatch {
+  errors: string[];
+  resultPath: string;
+  next: string;
+}
+
+interface LifecycleStateBase {
+  comment?: string;
+}
+
+/**
+ * Invoke a handler; its result is stored at `resultPath` under `Payload`,
+ * like the lambda:invoke integration
+ */
+export interface LifecycleTaskState extends LifecycleStateBase {
+  type: 'task';
+  handler: LifecycleHandler;
+  parameters: LifecycleParameters;
+  resultPath: string;
+  next: string;
+  retry?: LifecycleRetry[];
+  catch?: LifecycleCatch[];
+}
+
+/**
+ * Wait a fixed time, a number of seconds read from the data, or until a timestamp
+ */
+export interface LifecycleWaitState extends LifecycleStateBase {
+  type: 'wait';
+  seconds?: number;
+  secondsPath?: string;
+  timestampPath?: string;
+  next: string;
+}
+
+/**
+ * Publish a lifecycle event carrying a task token and wait until something
+ * resumes the execution with it, or move to `onTimeout`
+ */
+export interface LifecycleAwaitState extends LifecycleStateBase {
+  type: 'await';
+  detailType: string;
+  detail: LifecycleParameters;
+  timeoutSecondsPath: string;
+  resultPath: string;
+  next: string;
+  onTimeout: string;
+}
+
+export interface LifecycleChoiceRule {
+  variable: string;
+  booleanEquals?: boolean;
+  isPresent?: boolean;
+  next: string;
+}
+
+export interface LifecycleChoiceState extends LifecycleStateBase {
+  type: 'choice';
+  choices: LifecycleChoiceRule[];
+  default: string;
+}
+
+/**
+ * Shape data without calling anything. Without parameters the input passes through.
+ */
+export interface LifecyclePassState extends LifecycleStateBase {
+  type: 'pass';
+  parameters?: LifecycleParameters;
+  resultPath?: string;
+  next?: string;
+  end?: boolean;
+}
+
+export type LifecycleState =
+  | LifecycleTaskState
+  | LifecycleWaitState
+  | LifecycleAwaitState
+  | LifecycleChoiceState
+  | LifecyclePassState;
+
+export interface LifecycleDefinition {
+  comment: string;
+  startAt: string;
+  states: Record<string, LifecycleState>;
+}
+
+// Source of the events await states publish
+export const LIFECYCLE_EVENT_SOURCE = 'incident.lifecycle';
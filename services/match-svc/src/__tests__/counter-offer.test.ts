@@ -0,0 +1,253 @@
+import { Offer } from '@roadcall/types';
+
+// Mock DynamoDB, EventBridge and config before importing match-service
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    get: jest.fn(),
+    query: jest.fn().mockResolvedValue([]),
+    update: jest.fn().mockResolvedValue(undefined),
+    updateItem: jest.fn().mockResolvedValue(undefined),
+  },
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+  configStore: {
+    getCounterOfferRules: jest.fn().mockResolvedValue({
+      enabled: true,
+      autoAcceptWithinPercent: 10,
+      maxAboveEstimatePercent: 50,
+      approvalTimeoutSeconds: 900,
+    }),
+  },
+}));
+
+import { dynamodb, eventBridge } from '@roadcall/aws-clients';
+import { evaluateCounterOffer } from '../counter-offer';
+import { counterOffer, resolveCounterOffer } from '../match-service';
+
+describe('evaluateCounterOffer', () => {
+  const rules = {
+    enabled: true,
+    autoAcceptWithinPercent: 10,
+    maxAboveEstimatePercent: 50,
+    approvalTimeoutSeconds: 900,
+  };
+
+  it('should auto-accept counters at or below the estimate', () => {
+    expect(evaluateCounterOffer(20000, 18000, rules)).toBe('auto_accept');
+    expect(evaluateCounterOffer(20000, 20000, rules)).toBe('auto_accept');
+  });
+
+  it('should auto-accept counters within the auto-accept band', () => {
+    expect(evaluateCounterOffer(20000, 22000, rules)).toBe('auto_accept');
+  });
+
+  it('should need approval between the auto-accept band and the maximum', () => {
+    expect(evaluateCounterOffer(20000, 22001, rules)).toBe('needs_approval');
+    expect(evaluateCounterOffer(20000, 30000, rules)).toBe('needs_approval');
+  });
+
+  it('should refuse counters above the maximum', () => {
+    expect(evaluateCounterOffer(20000, 30001, rules)).toBe('refused');
+  });
+
+  it('should need approval when the offer has no estimate', () => {
+    expect(evaluateCounterOffer(0, 15000, rules)).toBe('needs_approval');
+  });
+});
+
+describe('counter-offer flow', () => {
+  const createOffer = (overrides: Partial<Offer> = {}): Offer => ({
+    offerId: 'offer-123',
+    incidentId: 'incident-123',
+    vendorId: 'vendor-123',
+    status: 'pending',
+    matchScore: 0.8,
+    scoreBreakdown: {
+      distance: 0.9,
+      capability: 1,
+      availability: 1,
+      acceptanceRate: 0.8,
+      rating: 0.9,
+      driveMinutes: 12,
+      distanceMiles: 6,
+    },
+    estimatedPayout: 20000,
+    expiresAt: Math.floor(Date.now() / 1000) + 120,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  });
+
+  const incident = {
+    incidentId: 'incident-123',
+    driverId: 'driver-123',
+    status: 'created',
+    version: 4,
+  };
+
+  function mockRecords(offer: Offer, incidentOverrides: Record<string, unknown> = {}): void {
+    (dynamodb.get as jest.Mock).mockImplementation(async (_table, key) =>
+      key.offerId ? offer : { ...incident, ...incidentOverrides }
+    );
+  }
+
+  const pendingCounter = (overrides: Partial<Offer> = {}): Offer =>
+    createOffer({
+      status: 'countered',
+      counterOffer: {
+        proposedPayout: 27000,
+        status: 'pending_approval',
+        autoAccepted: false,
+        proposedAt: new Date().toISOString(),
+      },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should assign the vendor at the countered payout within the auto-accept band', async () => {
+    mockRecords(createOffer());
+
+    const offer = await counterOffer('offer-123', 'vendor-123', {
+      proposedPayout: 21000,
+      etaMinutes: 25,
+    });
+
+    expect(offer.status).toBe('accepted');
+    expect(offer.counterOffer).toMatchObject({ status: 'approved', autoAccepted: true });
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.any(String),
+      { incidentId: 'incident-123' },
+      {
+        set: expect.objectContaining({
+          assignedVendorId: 'vendor-123',
+          agreedPayout: expect.objectContaining({
+            amountCents: 21000,
+            estimatedCents: 20000,
+            negotiated: true,
+            etaMinutes: 25,
+          }),
+        }),
+        increment: { version: 1 },
+        expect: { assignedVendorId: undefined, status: 'created', version: 4 },
+      }
+    );
+  });
+
+  it('should refuse the assignment when the incident changed since it was read', async () => {
+    mockRecords(createOffer());
+    (dynamodb.updateItem as jest.Mock).mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      })
+    );
+
+    await expect(
+      counterOffer('offer-123', 'vendor-123', { proposedPayout: 21000 })
+    ).rejects.toThrow('Incident already assigned');
+    expect(eventBridge.publishEvent).not.toHaveBeenCalled();
+  });
+
+  it('should hold larger counters for dispatcher approval', async () => {
+    mockRecords(createOffer());
+
+    const offer = await counterOffer('offer-123', 'vendor-123', { proposedPayout: 27000 });
+
+    expect(offer.status).toBe('countered');
+    expect(offer.counterOffer?.status).toBe('pending_approval');
+    expect(offer.expiresAt).toBeGreaterThanOrEqual(Math.floor(Date.now() / 1000) + 899);
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        detailType: 'OfferCountered',
+        detail: expect.objectContaining({ proposedPayout: 27000, requiresApproval: true }),
+      })
+    );
+  });
+
+  it('should not revive an offer expired since it was read', async () => {
+    mockRecords(createOffer());
+    (dynamodb.updateItem as jest.Mock).mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      })
+    );
+
+    await expect(
+      counterOffer('offer-123', 'vendor-123', { proposedPayout: 27000 })
+    ).rejects.toThrow('no longer pending');
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.any(String),
+      { offerId: 'offer-123' },
+      expect.objectContaining({ expect: { status: 'pending' } })
+    );
+    expect(eventBridge.publishEvent).not.toHaveBeenCalled();
+  });
+
+  it('should refuse counters above the maximum', async () => {
+    mockRecords(createOffer());
+
+    await expect(
+      counterOffer('offer-123', 'vendor-123', { proposedPayout: 40000 })
+    ).rejects.toThrow('more than 50% above');
+    expect(dynamodb.update).not.toHaveBeenCalled();
+    expect(dynamodb.updateItem).not.toHaveBeenCalled();
+  });
+
+  it('should assign the vendor at the proposed payout when a dispatcher approves', async () => {
+    mockRecords(pendingCounter());
+
+    const offer = await resolveCounterOffer('offer-123', 'dispatcher-1', { approve: true });
+
+    expect(offer.status).toBe('accepted');
+    expect(offer.counterOffer).toMatchObject({ status: 'approved', decidedBy: 'dispatcher-1' });
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        detailType: 'OfferAccepted',
+        detail: expect.objectContaining({ agreedPayout: 27000, negotiated: true }),
+      })
+    );
+  });
+
+  it('should decline the offer when a dispatcher rejects the counter', async () => {
+    mockRecords(pendingCounter());
+
+    const offer = await resolveCounterOffer('offer-123', 'dispatcher-1', {
+      approve: false,
+      reason: 'Too expensive',
+    });
+
+    expect(offer.status).toBe('declined');
+    expect(offer.declineReason).toBe('Counter-offer rejected: Too expensive');
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ detailType: 'OfferDeclined' })
+    );
+  });
+
+  it('should not assign a vendor to an incident that is no longer matching', async () => {
+    mockRecords(pendingCounter(), { status: 'cancelled' });
+
+    await expect(
+      resolveCounterOffer('offer-123', 'dispatcher-1', { approve: true })
+    ).rejects.toThrow('Incident is cancelled, cannot assign a vendor');
+    expect(dynamodb.updateItem).not.toHaveBeenCalled();
+  });
+
+  it('should reject decisions on counters past their approval timeout', async () => {
+    mockRecords(pendingCounter({ expiresAt: Math.floor(Date.now() / 1000) - 1 }));
+
+    await expect(
+      resolveCounterOffer('offer-123', 'dispatcher-1', { approve: true })
+    ).rejects.toThrow('Counter-offer has expired');
+  });
+
+  it('should reject decisions on offers without a pending counter', async () => {
+    mockRecords(createOffer());
+
+    await expect(
+      resolveCounterOffer('offer-123', 'dispatcher-1', { approve: true })
+    ).rejects.toThrow('no counter-offer awaiting approval');
+  });
+});
@@ -0,0 +1,104 @@
+import { DispatchStrategy, IncidentDispatchState } from '@roadcall/types';
+import { planDispatchStep } from '../dispatch';
+
+describe('planDispatchStep', () => {
+  const config = { topVendorCount: 3, offerTtlSeconds: 120 };
+
+  function stateAfter(
+    strategy: DispatchStrategy,
+    step: number,
+    stepMode: IncidentDispatchState['stepMode']
+  ): IncidentDispatchState {
+    return {
+      mode: strategy.mode,
+      attempt: 1,
+      radiusMiles: 50,
+      round: step,
+      step,
+      stepMode,
+      status: 'in_progress',
+      offerIds: [],
+      offeredVendorIds: [],
+      expiresAt: 0,
+      updatedAt: '2024-01-01T00:00:00Z',
+    };
+  }
+
+  describe('broadcast', () => {
+    const strategy: DispatchStrategy = {
+      mode: 'broadcast',
+      cascadeOfferTimeoutSeconds: 30,
+      cascadeDepth: 0,
+    };
+
+    it('should offer the top vendors at once', () => {
+      expect(planDispatchStep(strategy, undefined, config)).toEqual({
+        stepMode: 'broadcast',
+        vendorCount: 3,
+        ttlSeconds: 120,
+      });
+    });
+
+    it('should send a single round per attempt', () => {
+      expect(planDispatchStep(strategy, stateAfter(strategy, 1, 'broadcast'), config)).toBeNull();
+    });
+  });
+
+  describe('cascade', () => {
+    const strategy: DispatchStrategy = {
+      mode: 'cascade',
+      cascadeOfferTimeoutSeconds: 60,
+      cascadeDepth: 0,
+    };
+
+    it('should offer one vendor at a time with the cascade timeout', () => {
+      expect(planDispatchStep(strategy, undefined, config)).toEqual({
+        stepMode: 'cascade',
+        vendorCount: 1,
+        ttlSeconds: 60,
+      });
+      expect(planDispatchStep(strategy, stateAfter(strategy, 2, 'cascade'), config)).toEqual({
+        stepMode: 'cascade',
+        vendorCount: 1,
+        ttlSeconds: 60,
+      });
+    });
+
+    it('should stop after reaching as many vendors as a broadcast would', () => {
+      expect(planDispatchStep(strategy, stateAfter(strategy, 3, 'cascade'), config)).toBeNull();
+    });
+  });
+
+  describe('hybrid', () => {
+    const strategy: DispatchStrategy = {
+      mode: 'hybrid',
+      cascadeOfferTimeoutSeconds: 45,
+      cascadeDepth: 2,
+    };
+
+    it('should cascade through the first vendors', () => {
+      expect(planDispatchStep(strategy, undefined, config)?.stepMode).toBe('cascade');
+      expect(planDispatchStep(strategy, stateAfter(strategy, 1, 'cascade'), config)?.stepMode).toBe(
+        'cascade'
+      );
+    });
+
+    it('should broadcast once the cascade depth is reached', () => {
+      expect(planDispatchStep(strategy, stateAfter(strategy, 2, 'cascade'), config)).toEqual({
+        stepMode: 'broadcast',
+        vendorCount: 3,
+        ttlSeconds: 120,
+      });
+    });
+
+    it('should be exhausted after the broadcast round', () => {
+      expect(planDispatchStep(strategy, stateAfter(strategy, 3, 'broadcast'), config)).toBeNull();
+    });
+
+    it('should broadcast immediately with a cascade depth of zero', () => {
+      expect(planDispatchStep({ ...strategy, cascadeDepth: 0 }, undefined, config)?.stepMode).toBe(
+        'broadcast'
+      );
+    });
+  });
+});
@@ -1,9 +1,13 @@
 import {
   calculateMatchScore,
   calculateScoreBreakdown,
+  getMatchExclusions,
+  rankVendors,
+  toMatchConfig,
   MatchConfig,
+  MatchContext,
 } from '../match-service';
-import { Vendor, Incident } from '@roadcall/types';
+import { Vendor, Incident, GeofenceConfig } from '@roadcall/types';
 
 describe('Match Scoring Algorithm', () => {
   const defaultConfig: MatchConfig = {
@@ -17,6 +21,9 @@ describe('Match Scoring Algorithm', () => {
     defaultRadiusMiles: 50,
     maxRadiusMiles: 150,
     topVendorCount: 3,
+    offerTtlSeconds: 120,
+    maxRadiusExpansionAttempts: 3,
+    radiusExpansionFactor: 1.25,
   };
 
   const createVendor = (overrides: Partial<Vendor> = {}): Vendor => ({
@@ -331,6 +338,8 @@ describe('Match Scoring Algorithm', () => {
       expect(breakdown).toHaveProperty('availability');
       expect(breakdown).toHaveProperty('acceptanceRate');
       expect(breakdown).toHaveProperty('rating');
+      expect(breakdown).toHaveProperty('driveMinutes');
+      expect(breakdown).toHaveProperty('distanceMiles');
     });
 
     it('should show 0 capability score for mismatched capability', () => {
@@ -344,6 +353,29 @@ describe('Match Scoring Algorithm', () => {
       expect(breakdown.capability).toBe(0);
     });
 
+    it('should take required capabilities from the incident-type catalogue', () => {
+      const vendor = createVendor({
+        capabilities: ['jumpstart'],
+      });
+      const incident = createIncident({ type: 'battery' });
+      const config: MatchConfig = {
+        ...defaultConfig,
+        incidentTypes: [
+          {
+            key: 'battery',
+            label: 'Dead Battery',
+            requiredCapabilities: ['jumpstart'],
+            basePriceCents: 7500,
+            defaultSlaTier: 'Standard',
+            active: true,
+          },
+        ],
+      };
+
+      expect(calculateScoreBreakdown(vendor, incident, config).capability).toBe(1);
+      expect(calculateScoreBreakdown(vendor, incident, defaultConfig).capability).toBe(0);
+    });
+
     it('should show 1 capability score for matched capability', () => {
       const vendor = createVendor({
         capabilities: ['tire_repair'],
@@ -404,4 +436,212 @@ describe('Match Scoring Algorithm', () => {
       expect(breakdown.distance).toBeLessThanOrEqual(1);
     });
   });
+
+  describe('toMatchConfig', () => {
+    it('should map admin matching config onto match config', () => {
+      const config = toMatchConfig(
+        {
+          weights: {
+            distance: 0.4,
+            capability: 0.3,
+            availability: 0.1,
+            acceptanceRate: 0.1,
+            rating: 0.1,
+          },
+          defaultRadius: 40,
+          maxRadius: 120,
+          radiusExpansionFactor: 0.5,
+          maxExpansionAttempts: 4,
+          offerTimeoutSeconds: 90,
+          maxOffersPerIncident: 5,
+        },
+        7
+      );
+
+      expect(config.weights.distance).toBe(0.4);
+      expect(config.defaultRadiusMiles).toBe(40);
+      expect(config.maxRadiusMiles).toBe(120);
+      expect(config.topVendorCount).toBe(5);
+      expect(config.offerTtlSeconds).toBe(90);
+      expect(config.maxRadiusExpansionAttempts).toBe(4);
+      expect(config.radiusExpansionFactor).toBeCloseTo(1.5, 5);
+      expect(config.configVersion).toBe(7);
+    });
+  });
+
+  describe('getMatchExclusions', () => {
+    // Wednesday 2024-01-10 08:00 UTC = 03:00 in New York
+    const context: MatchContext = { at: new Date('2024-01-10T08:00:00Z'), geofences: [] };
+
+    const createGeofence = (overrides: Partial<GeofenceConfig> = {}): GeofenceConfig => ({
+      geofenceId: 'geofence-manhattan',
+      name: 'Manhattan',
+      polygon: {
+        coordinates: [
+          [-74.05, 40.68],
+          [-73.9, 40.68],
+          [-73.9, 40.88],
+          [-74.05, 40.88],
+        ],
+      },
+      region: 'us-east',
+      active: true,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      ...overrides,
+    });
+
+    it('should not exclude a vendor without restrictions', () => {
+      expect(getMatchExclusions(createVendor(), createIncident(), context)).toEqual([]);
+    });
+
+    it('should exclude a vendor closed in its own timezone', () => {
+      const vendor = createVendor({
+        timezone: 'America/New_York',
+        operatingHours: { wednesday: { open: '07:00', close: '19:00' } },
+      });
+
+      const exclusions = getMatchExclusions(vendor, createIncident(), context);
+
+      expect(exclusions.map((e) => e.reason)).toEqual(['outside_operating_hours']);
+    });
+
+    it('should estimate the timezone of a vendor without one from its coverage center', () => {
+      // Open 07:00-19:00 UTC, but the New York vendor's hours are local time
+      const vendor = createVendor({
+        operatingHours: { wednesday: { open: '07:00', close: '19:00' } },
+      });
+
+      const exclusions = getMatchExclusions(vendor, createIncident(), context);
+
+      expect(exclusions).toEqual([
+        {
+          reason: 'outside_operating_hours',
+          detail: 'Vendor is closed at 2024-01-10T08:00:00.000Z (America/New_York)',
+        },
+      ]);
+    });
+
+    it('should honour overnight hours from the previous day', () => {
+      const vendor = createVendor({
+        timezone: 'America/New_York',
+        operatingHours: { tuesday: { open: '22:00', close: '06:00' } },
+      });
+
+      expect(getMatchExclusions(vendor, createIncident(), context)).toEqual([]);
+    });
+
+    it('should exclude an incident outside the coverage radius', () => {
+      const vendor = createVendor({
+        coverageArea: {
+          center: { lat: 40.7128, lon: -74.006 },
+          radiusMiles: 10,
+          geofenceIds: [],
+        },
+      });
+      const incident = createIncident({
+        location: {
+          lat: 41.0,
+          lon: -74.006,
+          address: 'North',
+          roadSnapped: { lat: 41.0, lon: -74.006 },
+        },
+      });
+
+      const exclusions = getMatchExclusions(vendor, incident, context);
+
+      expect(exclusions.map((e) => e.reason)).toEqual(['outside_coverage_radius']);
+    });
+
+    it('should exclude an incident outside every linked geofence', () => {
+      const vendor = createVendor({
+        coverageArea: {
+          center: { lat: 40.7128, lon: -74.006 },
+          radiusMiles: 50,
+          geofenceIds: ['geofence-manhattan'],
+        },
+      });
+      const incident = createIncident({
+        location: {
+          lat: 40.65,
+          lon: -73.95,
+          address: 'Brooklyn',
+          roadSnapped: { lat: 40.65, lon: -73.95 },
+        },
+      });
+
+      const exclusions = getMatchExclusions(vendor, incident, {
+        ...context,
+        geofences: [createGeofence()],
+      });
+
+      expect(exclusions.map((e) => e.reason)).toEqual(['outside_geofence']);
+      expect(exclusions[0].detail).toContain('Manhattan');
+    });
+
+    it('should ignore geofences that are not linked or not loaded', () => {
+      const vendor = createVendor({
+        coverageArea: {
+          center: { lat: 40.7128, lon: -74.006 },
+          radiusMiles: 50,
+          geofenceIds: ['geofence-deleted'],
+        },
+      });
+      const incident = createIncident({
+        location: {
+          lat: 40.65,
+          lon: -73.95,
+          address: 'Brooklyn',
+          roadSnapped: { lat: 40.65, lon: -73.95 },
+        },
+      });
+
+      const exclusions = getMatchExclusions(vendor, incident, {
+        ...context,
+        geofences: [createGeofence()],
+      });
+
+      expect(exclusions).toEqual([]);
+    });
+  });
+
+  describe('rankVendors', () => {
+    it('should explain excluded vendors in the score breakdown', () => {
+      const open = createVendor({ vendorId: 'vendor-open' });
+      const closed = createVendor({
+        vendorId: 'vendor-closed',
+        operatingHours: { monday: { open: '09:00', close: '17:00' } },
+      });
+
+      const { matches, excluded } = rankVendors([open, closed], createIncident(), defaultConfig, {
+        at: new Date('2024-01-10T08:00:00Z'),
+        geofences: [],
+      });
+
+      expect(matches.map((m) => m.vendor.vendorId)).toEqual(['vendor-open']);
+      expect(matches[0].scoreBreakdown.exclusions).toBeUndefined();
+      expect(excluded.map((m) => m.vendor.vendorId)).toEqual(['vendor-closed']);
+      expect(excluded[0].scoreBreakdown.exclusions?.[0].reason).toBe('outside_operating_hours');
+    });
+
+    it('should rank on drive time from the travel estimates', () => {
+      const parked = createVendor({ vendorId: 'vendor-parked' });
+      const enRoute = createVendor({ vendorId: 'vendor-en-route' });
+
+      const { matches } = rankVendors(
+        [parked, enRoute],
+        createIncident(),
+        defaultConfig,
+        { at: new Date('2024-01-10T15:00:00Z'), geofences: [] },
+        new Map([
+          ['vendor-parked', { driveMinutes: 45, distanceMiles: 20 }],
+          ['vendor-en-route', { driveMinutes: 5, distanceMiles: 1.5 }],
+        ])
+      );
+
+      expect(matches.map((m) => m.vendor.vendorId)).toEqual(['vendor-en-route', 'vendor-parked']);
+      expect(matches[0].scoreBreakdown.driveMinutes).toBe(5);
+      expect(matches[0].scoreBreakdown.distanceMiles).toBe(1.5);
+    });
+  });
 });
@@ -0,0 +1,218 @@
+import { Offer } from '@roadcall/types';
+
+// Mock DynamoDB and EventBridge before importing match-service
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    get: jest.fn().mockResolvedValue(null),
+    batchGet: jest.fn().mockResolvedValue([]),
+    queryAll: jest.fn().mockResolvedValue([]),
+    updateItem: jest.fn().mockResolvedValue(undefined),
+  },
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { dynamodb, eventBridge } from '@roadcall/aws-clients';
+import { acceptOffer, advanceDispatch, declineOffer, expireDueOffers } from '../match-service';
+
+const now = new Date('2024-01-01T12:00:00Z');
+
+const createOffer = (offerId: string): Offer => ({
+  offerId,
+  incidentId: 'incident-123',
+  vendorId: `vendor-${offerId}`,
+  status: 'pending',
+  matchScore: 0.8,
+  scoreBreakdown: {
+    distance: 0.9,
+    capability: 1,
+    availability: 1,
+    acceptanceRate: 0.8,
+    rating: 0.9,
+    driveMinutes: 12,
+    distanceMiles: 6,
+  },
+  estimatedPayout: 15000,
+  expiresAt: Math.floor(now.getTime() / 1000) - 30,
+  createdAt: '2024-01-01T11:58:00Z',
+});
+
+describe('expireDueOffers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should query pending offers and counter-offers due at the given time', async () => {
+    await expireDueOffers(now);
+
+    for (const status of ['pending', 'countered']) {
+      expect(dynamodb.queryAll).toHaveBeenCalledWith(
+        expect.any(String),
+        '#status = :status AND expiresAt <= :now',
+        { ':status': status, ':now': Math.floor(now.getTime() / 1000) },
+        'status-expires-index',
+        { '#status': 'status' }
+      );
+    }
+  });
+
+  it('should mark due offers expired and publish OfferExpired', async () => {
+    (dynamodb.queryAll as jest.Mock).mockResolvedValueOnce([createOffer('1'), createOffer('2')]);
+
+    const expired = await expireDueOffers(now);
+
+    expect(expired.map((o) => o.offerId)).toEqual(['1', '2']);
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.any(String),
+      { offerId: '1' },
+      {
+        set: expect.objectContaining({ status: 'expired' }),
+        expect: { status: 'pending' },
+      }
+    );
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        detailType: 'OfferExpired',
+        detail: expect.objectContaining({ offerId: '2', vendorId: 'vendor-2' }),
+      })
+    );
+  });
+
+  it('should keep expiring other offers when one fails', async () => {
+    (dynamodb.queryAll as jest.Mock).mockResolvedValueOnce([createOffer('1'), createOffer('2')]);
+    (dynamodb.updateItem as jest.Mock).mockRejectedValueOnce(new Error('Throttled'));
+
+    const expired = await expireDueOffers(now);
+
+    expect(expired.map((o) => o.offerId)).toEqual(['2']);
+    expect(eventBridge.publishEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip offers answered since the query', async () => {
+    const conditionFailed = Object.assign(new Error('The conditional request failed'), {
+      name: 'ConditionalCheckFailedException',
+    });
+    (dynamodb.queryAll as jest.Mock).mockResolvedValueOnce([createOffer('1'), createOffer('2')]);
+    (dynamodb.updateItem as jest.Mock).mockRejectedValueOnce(conditionFailed);
+
+    const expired = await expireDueOffers(now);
+
+    expect(expired.map((o) => o.offerId)).toEqual(['2']);
+    expect(eventBridge.publishEvent).toHaveBeenCalledTimes(1);
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ detail: expect.objectContaining({ offerId: '2' }) })
+    );
+  });
+
+  it('should expire counter-offers left waiting for a dispatcher', async () => {
+    (dynamodb.queryAll as jest.Mock)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ ...createOffer('1'), status: 'countered' }]);
+
+    const expired = await expireDueOffers(now);
+
+    expect(expired.map((o) => o.offerId)).toEqual(['1']);
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.any(String),
+      { offerId: '1' },
+      expect.objectContaining({ expect: { status: 'countered' } })
+    );
+  });
+});
+
+describe('advanceDispatch', () => {
+  const incident = {
+    incidentId: 'incident-123',
+    dispatch: {
+      mode: 'cascade',
+      attempt: 1,
+      radiusMiles: 25,
+      round: 2,
+      step: 2,
+      stepMode: 'cascade',
+      status: 'in_progress',
+      offerIds: ['1', '2'],
+      offeredVendorIds: ['vendor-1', 'vendor-2'],
+      expiresAt: Math.floor(Date.now() / 1000) - 30,
+      updatedAt: '2024-01-01T11:58:00Z',
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep the round open while a counter-offer awaits a dispatcher', async () => {
+    (dynamodb.get as jest.Mock).mockResolvedValueOnce(incident);
+    (dynamodb.batchGet as jest.Mock).mockResolvedValueOnce([
+      { ...createOffer('1'), status: 'declined' },
+      {
+        ...createOffer('2'),
+        status: 'countered',
+        expiresAt: Math.floor(Date.now() / 1000) + 600,
+      },
+    ]);
+
+    const offers = await advanceDispatch('incident-123', { reason: 'expired', round: 2 });
+
+    expect(offers).toEqual([]);
+    expect(dynamodb.updateItem).not.toHaveBeenCalled();
+  });
+
+  it('should move the round on once an unanswered counter-offer expires', async () => {
+    (dynamodb.queryAll as jest.Mock)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ ...createOffer('2'), status: 'countered', dispatchRound: 2 }]);
+
+    await expireDueOffers(now);
+
+    expect(dynamodb.get).toHaveBeenCalledWith(expect.any(String), { incidentId: 'incident-123' });
+  });
+});
+
+describe('answering an offer expired since it was read', () => {
+  const conditionFailed = () =>
+    Object.assign(new Error('The conditional request failed'), {
+      name: 'ConditionalCheckFailedException',
+    });
+  const openOffer = { ...createOffer('1'), expiresAt: Math.floor(Date.now() / 1000) + 60 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not decline it', async () => {
+    (dynamodb.get as jest.Mock).mockResolvedValueOnce(openOffer);
+    (dynamodb.updateItem as jest.Mock).mockRejectedValueOnce(conditionFailed());
+
+    await expect(declineOffer('1', 'vendor-1')).rejects.toThrow('no longer pending');
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.any(String),
+      { offerId: '1' },
+      expect.objectContaining({ expect: { status: 'pending' } })
+    );
+    expect(eventBridge.publishEvent).not.toHaveBeenCalled();
+  });
+
+  it('should not accept it, and release the incident again', async () => {
+    (dynamodb.get as jest.Mock)
+      .mockResolvedValueOnce(openOffer)
+      .mockResolvedValueOnce({ incidentId: 'incident-123', status: 'created', version: 4 });
+    (dynamodb.updateItem as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(conditionFailed());
+
+    await expect(acceptOffer('1', 'vendor-1')).rejects.toThrow('no longer pending');
+    expect(dynamodb.updateItem).toHaveBeenLastCalledWith(
+      expect.any(String),
+      { incidentId: 'incident-123' },
+      expect.objectContaining({
+        remove: ['assignedVendorId', 'agreedPayout'],
+        expect: { assignedVendorId: 'vendor-1', version: 5 },
+      })
+    );
+    expect(eventBridge.publishEvent).not.toHaveBeenCalled();
+  });
+});
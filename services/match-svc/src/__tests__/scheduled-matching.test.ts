@@ -0,0 +1,71 @@
+import { EventBridgeEvent } from 'aws-lambda';
+
+jest.mock('../match-service', () => ({
+  executeVendorMatching: jest
+    .fn()
+    .mockResolvedValue({ offers: [{ offerId: 'offer-1' }], attempt: 1, radiusUsed: 50 }),
+  advanceDispatch: jest.fn().mockResolvedValue([]),
+}));
+
+import { executeVendorMatching } from '../match-service';
+import { handler as incidentCreatedHandler } from '../handlers/incident-created-handler';
+import { handler as matchRequestedHandler } from '../handlers/match-requested-handler';
+
+const event = <T extends string, D>(detailType: T, detail: D) =>
+  ({
+    id: 'event-123',
+    source: 'roadcall.incident-service',
+    'detail-type': detailType,
+    detail,
+  }) as unknown as EventBridgeEvent<T, D>;
+
+describe('matching for scheduled incidents', () => {
+  const matchingStartsAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('defers IncidentCreated matching until the scheduled start', async () => {
+    await incidentCreatedHandler(
+      event('IncidentCreated', {
+        incidentId: 'incident-123',
+        driverId: 'driver-123',
+        type: 'tire',
+        location: { lat: 40.7128, lon: -74.006 },
+        createdAt: new Date().toISOString(),
+        matchingStartsAt,
+      })
+    );
+
+    expect(executeVendorMatching).not.toHaveBeenCalled();
+  });
+
+  it('matches immediately when the scheduled start has passed', async () => {
+    await incidentCreatedHandler(
+      event('IncidentCreated', {
+        incidentId: 'incident-123',
+        driverId: 'driver-123',
+        type: 'tire',
+        location: { lat: 40.7128, lon: -74.006 },
+        createdAt: new Date().toISOString(),
+        matchingStartsAt: new Date(Date.now() - 1000).toISOString(),
+      })
+    );
+
+    expect(executeVendorMatching).toHaveBeenCalledWith('incident-123');
+  });
+
+  it('matches when the state machine requests it at the scheduled start', async () => {
+    await matchRequestedHandler(
+      event('MatchRequested', {
+        incidentId: 'incident-123',
+        attempt: 1,
+        radiusMiles: 50,
+        requestedAt: matchingStartsAt,
+      })
+    );
+
+    expect(executeVendorMatching).toHaveBeenCalledWith('incident-123', 1);
+  });
+});
@@ -0,0 +1,117 @@
+import { Incident, Vendor } from '@roadcall/types';
+
+// Mock DynamoDB and EventBridge before importing match-service
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    put: jest.fn().mockResolvedValue(undefined),
+  },
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { eventBridge } from '@roadcall/aws-clients';
+import { createOffers, DEFAULT_MATCH_CONFIG, ScoredVendor } from '../match-service';
+
+describe('createOffers for scheduled incidents', () => {
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  const vendor = {
+    vendorId: 'vendor-123',
+    capabilities: ['tire_replacement'],
+    pricing: {},
+  } as unknown as Vendor;
+
+  const scoredVendor: ScoredVendor = {
+    vendor,
+    score: 0.9,
+    scoreBreakdown: {
+      distance: 0.9,
+      capability: 1,
+      availability: 1,
+      acceptanceRate: 0.8,
+      rating: 0.9,
+      driveMinutes: 12,
+      distanceMiles: 6,
+    },
+  };
+
+  const createIncident = (overrides: Partial<Incident> = {}): Incident => ({
+    incidentId: 'incident-123',
+    driverId: 'driver-123',
+    type: 'tire',
+    status: 'created',
+    location: {
+      lat: 40.7128,
+      lon: -74.006,
+      address: '123 Main St',
+      roadSnapped: { lat: 40.7128, lon: -74.006 },
+    },
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    timeline: [],
+    media: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should time offers from now for incidents without a window', async () => {
+    const before = nowSeconds();
+
+    const [offer] = await createOffers(createIncident(), [scoredVendor], DEFAULT_MATCH_CONFIG);
+
+    expect(offer.expiresAt).toBeGreaterThanOrEqual(before + DEFAULT_MATCH_CONFIG.offerTtlSeconds);
+    expect(offer.expiresAt).toBeLessThanOrEqual(
+      nowSeconds() + DEFAULT_MATCH_CONFIG.offerTtlSeconds
+    );
+    expect(offer.serviceWindow).toBeUndefined();
+  });
+
+  it('should start the offer timeout when the service window opens', async () => {
+    const windowStart = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const serviceWindow = {
+      start: windowStart.toISOString(),
+      end: new Date(windowStart.getTime() + 2 * 60 * 60 * 1000).toISOString(),
+    };
+
+    const [offer] = await createOffers(
+      createIncident({ serviceWindow }),
+      [scoredVendor],
+      DEFAULT_MATCH_CONFIG
+    );
+
+    expect(offer.expiresAt).toBe(
+      Math.floor(windowStart.getTime() / 1000) + DEFAULT_MATCH_CONFIG.offerTtlSeconds
+    );
+    expect(offer.serviceWindow).toEqual(serviceWindow);
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        detailType: 'OfferCreated',
+        detail: expect.objectContaining({ serviceWindow }),
+      })
+    );
+  });
+
+  it('should time offers from now once the window has opened', async () => {
+    const before = nowSeconds();
+    const serviceWindow = {
+      start: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+      end: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    };
+
+    const [offer] = await createOffers(
+      createIncident({ serviceWindow }),
+      [scoredVendor],
+      DEFAULT_MATCH_CONFIG
+    );
+
+    expect(offer.expiresAt).toBeGreaterThanOrEqual(before + DEFAULT_MATCH_CONFIG.offerTtlSeconds);
+    expect(offer.expiresAt).toBeLessThanOrEqual(
+      nowSeconds() + DEFAULT_MATCH_CONFIG.offerTtlSeconds
+    );
+  });
+});
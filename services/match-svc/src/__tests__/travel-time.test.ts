@@ -0,0 +1,115 @@
+import { LocationClient } from '@aws-sdk/client-location';
+import {
+  estimateByRoadSpeed,
+  LocationRouteMatrixProvider,
+  RoadSpeedTravelTimeProvider,
+  TrackerVendorPositionSource,
+} from '../travel-time';
+
+describe('Travel time providers', () => {
+  const incident = { lat: 40.7128, lon: -74.006 };
+
+  describe('estimateByRoadSpeed', () => {
+    it('should estimate longer drives for longer distances', () => {
+      const near = estimateByRoadSpeed({ lat: 40.75, lon: -74.0 }, incident);
+      const far = estimateByRoadSpeed({ lat: 41.5, lon: -74.0 }, incident);
+
+      expect(near.driveMinutes).toBeLessThan(far.driveMinutes);
+      expect(near.distanceMiles).toBeLessThan(far.distanceMiles);
+    });
+
+    it('should drive short trips slower than highway trips', () => {
+      const short = estimateByRoadSpeed({ lat: 40.73, lon: -74.006 }, incident);
+      const long = estimateByRoadSpeed({ lat: 41.7, lon: -74.006 }, incident);
+
+      const shortMph = short.distanceMiles / (short.driveMinutes / 60);
+      const longMph = long.distanceMiles / (long.driveMinutes / 60);
+
+      expect(shortMph).toBeCloseTo(25, 0);
+      expect(longMph).toBeGreaterThan(45);
+    });
+  });
+
+  describe('RoadSpeedTravelTimeProvider', () => {
+    it('should return an estimate for every origin', async () => {
+      const provider = new RoadSpeedTravelTimeProvider();
+
+      const estimates = await provider.estimate(
+        [
+          { id: 'a', lat: 40.75, lon: -74.0 },
+          { id: 'b', lat: 41.0, lon: -74.2 },
+        ],
+        incident
+      );
+
+      expect(Array.from(estimates.keys())).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('LocationRouteMatrixProvider', () => {
+    it('should use route matrix results and fall back for unroutable origins', async () => {
+      const send = jest.fn().mockResolvedValue({
+        RouteMatrix: [
+          [{ Distance: 16.09344, DurationSeconds: 1200 }],
+          [{ Error: { Code: 'RouteNotFound' } }],
+        ],
+      });
+      const provider = new LocationRouteMatrixProvider(
+        { send } as unknown as LocationClient,
+        'test-calculator'
+      );
+
+      const estimates = await provider.estimate(
+        [
+          { id: 'routed', lat: 40.75, lon: -74.0 },
+          { id: 'island', lat: 40.6, lon: -74.1 },
+        ],
+        incident
+      );
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(estimates.get('routed')?.driveMinutes).toBe(20);
+      expect(estimates.get('routed')?.distanceMiles).toBeCloseTo(10, 2);
+      expect(estimates.get('island')).toEqual(
+        estimateByRoadSpeed({ lat: 40.6, lon: -74.1 }, incident)
+      );
+    });
+
+    it('should fall back to road-speed estimates when the service fails', async () => {
+      const send = jest.fn().mockRejectedValue(new Error('throttled'));
+      const provider = new LocationRouteMatrixProvider(
+        { send } as unknown as LocationClient,
+        'test-calculator'
+      );
+
+      const estimates = await provider.estimate([{ id: 'a', lat: 40.75, lon: -74.0 }], incident);
+
+      expect(estimates.get('a')).toEqual(estimateByRoadSpeed({ lat: 40.75, lon: -74.0 }, incident));
+    });
+  });
+
+  describe('TrackerVendorPositionSource', () => {
+    it('should return recent positions and ignore stale ones', async () => {
+      const send = jest.fn().mockResolvedValue({
+        DevicePositions: [
+          { DeviceId: 'fresh', Position: [-74.0, 40.75], SampleTime: new Date() },
+          {
+            DeviceId: 'stale',
+            Position: [-74.1, 40.8],
+            SampleTime: new Date(Date.now() - 2 * 60 * 60 * 1000),
+          },
+        ],
+      });
+      const source = new TrackerVendorPositionSource(
+        { send } as unknown as LocationClient,
+        'test-tracker'
+      );
+
+      const positions = await source.getPositions(['fresh', 'stale', 'untracked']);
+
+      expect(positions.get('fresh')).toEqual({ lat: 40.75, lon: -74.0 });
+      expect(positions.has('stale')).toBe(false);
+      expect(positions.has('untracked')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { CounterOfferRules } from '@roadcall/types';
+
+export type CounterOfferDecision = 'auto_accept' | 'needs_approval' | 'refused';
+
+/**
+ * Decide how to handle a vendor's counter-offer from how far it is above the
+ * offer's estimated payout.
+ *
+ * - at or below the estimate, or within `autoAcceptWithinPercent` above it: accepted
+ * - up to `maxAboveEstimatePercent` above it: a dispatcher approves or rejects
+ * - further above it: refused outright
+ *
+ * Offers without an estimate (incident type missing from the catalogue) always
+ * need a dispatcher.
+ */
+export function evaluateCounterOffer(
+  estimatedPayout: number,
+  proposedPayout: number,
+  rules: CounterOfferRules
+): CounterOfferDecision {
+  if (estimatedPayout <= 0) {
+    return 'needs_approval';
+  }
+
+  const percentAboveEstimate = ((proposedPayout - estimatedPayout) / estimatedPayout) * 100;
+
+  if (percentAboveEstimate <= rules.autoAcceptWithinPercent) {
+    return 'auto_accept';
+  }
+
+  if (percentAboveEstimate <= rules.maxAboveEstimatePercent) {
+    return 'needs_approval';
+  }
+
+  return 'refused';
+}
@@ -0,0 +1,53 @@
+import { DispatchStrategy, DispatchStepMode, IncidentDispatchState } from '@roadcall/types';
+
+export interface DispatchPlan {
+  stepMode: DispatchStepMode;
+  vendorCount: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Decide how to send the next round of offers within a matching attempt.
+ *
+ * - broadcast: one round to the top vendors at once
+ * - cascade: one vendor per round, up to the same number of vendors a
+ *   broadcast would reach
+ * - hybrid: `cascadeDepth` single-vendor rounds, then one broadcast round
+ *
+ * @param strategy - Dispatch strategy for the incident's SLA tier
+ * @param previous - Dispatch state of the current attempt, undefined for its first round
+ * @param config - Broadcast size and TTL from the matching config
+ * @returns The next round to send, or null when the attempt is exhausted
+ */
+export function planDispatchStep(
+  strategy: DispatchStrategy,
+  previous: IncidentDispatchState | undefined,
+  config: { topVendorCount: number; offerTtlSeconds: number }
+): DispatchPlan | null {
+  const broadcast: DispatchPlan = {
+    stepMode: 'broadcast',
+    vendorCount: config.topVendorCount,
+    ttlSeconds: config.offerTtlSeconds,
+  };
+  const cascade: DispatchPlan = {
+    stepMode: 'cascade',
+    vendorCount: 1,
+    ttlSeconds: strategy.cascadeOfferTimeoutSeconds,
+  };
+  const stepsTaken = previous?.step ?? 0;
+
+  switch (strategy.mode) {
+    case 'cascade':
+      return stepsTaken < config.topVendorCount ? cascade : null;
+
+    case 'hybrid':
+      if (previous?.stepMode === 'broadcast') {
+        return null;
+      }
+      return stepsTaken < strategy.cascadeDepth ? cascade : broadcast;
+
+    case 'broadcast':
+    default:
+      return stepsTaken === 0 ? broadcast : null;
+  }
+}
@@ -0,0 +1,87 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger, AppError, ValidationError } from '@roadcall/utils';
+import { counterOffer } from '../match-service';
+
+interface CounterOfferRequest {
+  vendorId: string;
+  proposedPayout: number; // Cents
+  etaMinutes?: number;
+  note?: string;
+}
+
+/**
+ * Lambda handler for POST /offers/{offerId}/counter
+ * Allows vendor to propose a different payout for an offer
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const offerId = event.pathParameters?.offerId;
+    if (!offerId) {
+      throw new ValidationError('Offer ID is required');
+    }
+
+    const body: CounterOfferRequest = JSON.parse(event.body || '{}');
+    if (!body.vendorId) {
+      throw new ValidationError('Vendor ID is required');
+    }
+
+    if (!Number.isInteger(body.proposedPayout) || body.proposedPayout <= 0) {
+      throw new ValidationError('Proposed payout must be a positive amount in cents');
+    }
+
+    if (
+      body.etaMinutes !== undefined &&
+      (typeof body.etaMinutes !== 'number' || body.etaMinutes <= 0)
+    ) {
+      throw new ValidationError('ETA must be a positive number of minutes');
+    }
+
+    logger.info('Counter offer request', {
+      offerId,
+      vendorId: body.vendorId,
+      proposedPayout: body.proposedPayout,
+      requestId,
+    });
+
+    const offer = await counterOffer(offerId, body.vendorId, {
+      proposedPayout: body.proposedPayout,
+      etaMinutes: body.etaMinutes,
+      note: body.note,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        data: offer,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Error countering offer', error as Error, { requestId });
+
+    const statusCode = (error as AppError).statusCode || 500;
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          type: (error as Error).name,
+          message: (error as Error).message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
+
@@ -0,0 +1,18 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import { expireDueOffers } from '../match-service';
+
+/**
+ * Lambda handler run every minute by an EventBridge schedule.
+ * Moves pending offers past their expiry to `expired`.
+ */
+export async function handler(event: ScheduledEvent): Promise<void> {
+  try {
+    const expired = await expireDueOffers(new Date(event.time));
+
+    logger.info('Offer expiry run completed', { offersExpired: expired.length });
+  } catch (error) {
+    logger.error('Offer expiry run failed', error as Error);
+    throw error;
+  }
+}
@@ -11,6 +11,7 @@ interface IncidentCreatedDetail {
     lon: number;
   };
   createdAt: string;
+  matchingStartsAt?: string; // Scheduled incidents: the state machine requests matching then
 }
 
 /**
@@ -26,7 +27,14 @@ export async function handler(
   });
 
   try {
-    const { incidentId } = event.detail;
+    const { incidentId, matchingStartsAt } = event.detail;
+
+    // The state machine waits for matchingStartsAt and then publishes
+    // MatchRequested, which match-requested-handler picks up
+    if (matchingStartsAt && new Date(matchingStartsAt).getTime() > Date.now()) {
+      logger.info('Scheduled incident, matching deferred', { incidentId, matchingStartsAt });
+      return;
+    }
 
     // Execute vendor matching with radius expansion
     const result = await executeVendorMatching(incidentId);
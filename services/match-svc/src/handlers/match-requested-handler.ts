@@ -0,0 +1,57 @@
+import { EventBridgeEvent } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import { advanceDispatch, executeVendorMatching } from '../match-service';
+
+interface MatchRequestedDetail {
+  incidentId: string;
+  attempt: number; // The search radius is worked out from the attempt and the matching config
+  reason?: 'offer_timeout'; // Current dispatch round timed out
+  round?: number;
+  requestedAt: string;
+}
+
+/**
+ * Lambda handler for MatchRequested EventBridge events from the incident
+ * state machine. Starts a matching attempt, or expires a timed-out cascade
+ * round and offers the next vendor.
+ */
+export async function handler(
+  event: EventBridgeEvent<'MatchRequested', MatchRequestedDetail>
+): Promise<void> {
+  const { incidentId, attempt, reason, round } = event.detail;
+
+  logger.info('MatchRequested event received', {
+    incidentId,
+    attempt,
+    reason,
+    round,
+    eventId: event.id,
+  });
+
+  try {
+    if (reason === 'offer_timeout') {
+      const offers = await advanceDispatch(incidentId, { reason: 'expired', round });
+
+      logger.info('Dispatch advanced after offer timeout', {
+        incidentId,
+        round,
+        offersCreated: offers.length,
+      });
+      return;
+    }
+
+    const result = await executeVendorMatching(incidentId, attempt);
+
+    logger.info('Vendor matching completed', {
+      incidentId,
+      offersCreated: result.offers.length,
+      attempt: result.attempt,
+      radiusUsed: result.radiusUsed,
+    });
+  } catch (error) {
+    logger.error('Error processing MatchRequested event', error as Error, { incidentId });
+
+    // Send to DLQ for manual review
+    throw error;
+  }
+}
@@ -0,0 +1,79 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { logger, AppError, AuthorizationError, ValidationError } from '@roadcall/utils';
+import { resolveCounterOffer } from '../match-service';
+
+interface ResolveCounterOfferRequest {
+  approve: boolean;
+  reason?: string;
+}
+
+/**
+ * Lambda handler for POST /offers/{offerId}/counter/decision
+ * Allows a dispatcher to approve or reject a vendor's counter-offer
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const offerId = event.pathParameters?.offerId;
+    if (!offerId) {
+      throw new ValidationError('Offer ID is required');
+    }
+
+    const userId = event.requestContext.authorizer?.userId;
+    const role = event.requestContext.authorizer?.role;
+    if (role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers can resolve counter-offers');
+    }
+
+    const body: ResolveCounterOfferRequest = JSON.parse(event.body || '{}');
+    if (typeof body.approve !== 'boolean') {
+      throw new ValidationError('Approve flag is required');
+    }
+
+    logger.info('Resolve counter offer request', {
+      offerId,
+      dispatcherId: userId,
+      approve: body.approve,
+      requestId,
+    });
+
+    const offer = await resolveCounterOffer(offerId, userId, {
+      approve: body.approve,
+      reason: body.reason,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        data: offer,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Error resolving counter offer', error as Error, { requestId });
+
+    const statusCode = (error as AppError).statusCode || 500;
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          type: (error as Error).name,
+          message: (error as Error).message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
+
@@ -5,4 +5,7 @@ export * from './match-service';
 export { handler as incidentCreatedHandler } from './handlers/incident-created-handler';
 export { handler as acceptOfferHandler } from './handlers/accept-offer';
 export { handler as declineOfferHandler } from './handlers/decline-offer';
+export { handler as counterOfferHandler } from './handlers/counter-offer';
+export { handler as resolveCounterOfferHandler } from './handlers/resolve-counter-offer';
 export { handler as getOfferHandler } from './handlers/get-offer';
+export { handler as matchRequestedHandler } from './handlers/match-requested-handler';
@@ -5,23 +5,85 @@ import {
   MatchScoreBreakdown,
   Vendor,
   Incident,
-  ServiceCapability,
+  IncidentStatus,
+  MatchingConfig,
+  MatchExclusion,
+  GeofenceConfig,
+  DispatchStrategy,
+  DispatchStepMode,
+  IncidentDispatchState,
+  IncidentAgreedPayout,
+  CounterOffer,
+  IncidentTypeDefinition,
 } from '@roadcall/types';
-import { dynamodb, eventBridge, EventSources, EventTypes } from '@roadcall/aws-clients';
+import {
+  dynamodb,
+  eventBridge,
+  configStore,
+  findIncidentType,
+  DEFAULT_INCIDENT_TYPES,
+  EventSources,
+  EventTypes,
+} from '@roadcall/aws-clients';
 import {
   logger,
   NotFoundError,
   ValidationError,
   ConflictError,
   calculateDistance,
+  isPointInPolygon,
+  isWithinOperatingHours,
+  estimateTimezone,
+  DynamoDBVendorGeoIndex,
+  VendorGeoIndex,
 } from '@roadcall/utils';
+import {
+  TravelEstimate,
+  TravelTimeProvider,
+  VendorPositionSource,
+  createTravelTimeProvider,
+  createVendorPositionSource,
+  estimateByRoadSpeed,
+  estimateDriveMinutes,
+} from './travel-time';
+import { planDispatchStep } from './dispatch';
+import { evaluateCounterOffer } from './counter-offer';
 
 const OFFERS_TABLE = process.env.OFFERS_TABLE || '';
 const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE || '';
 const VENDORS_TABLE = process.env.VENDORS_TABLE || '';
-const OFFER_TTL_SECONDS = 120; // 2 minutes
-const MAX_RADIUS_EXPANSION_ATTEMPTS = 3;
-const RADIUS_EXPANSION_FACTOR = 1.25; // 25% increase
+
+// Incidents still waiting on a vendor from matching
+const ASSIGNABLE_INCIDENT_STATUSES: IncidentStatus[] = ['created', 'reassigning'];
+
+// Monotonic counter claimed before each round of offers so concurrent
+// triggers (decline, timeout, duplicate events) cannot send the same round twice
+interface DispatchTrackedIncident extends Incident {
+  dispatchRound?: number;
+}
+
+let vendorGeoIndex: VendorGeoIndex = new DynamoDBVendorGeoIndex(dynamodb, VENDORS_TABLE);
+
+/**
+ * Replace the vendor geo index (in-memory index in tests)
+ */
+export function setVendorGeoIndex(index: VendorGeoIndex): void {
+  vendorGeoIndex = index;
+}
+
+let travelTimeProvider: TravelTimeProvider = createTravelTimeProvider();
+let vendorPositionSource: VendorPositionSource = createVendorPositionSource();
+
+/**
+ * Replace the travel-time provider and vendor position source (offline providers in tests)
+ */
+export function setTravelTimeProvider(
+  provider: TravelTimeProvider,
+  positionSource: VendorPositionSource = vendorPositionSource
+): void {
+  travelTimeProvider = provider;
+  vendorPositionSource = positionSource;
+}
 
 export interface MatchConfig {
   weights: {
@@ -34,9 +96,14 @@ export interface MatchConfig {
   defaultRadiusMiles: number;
   maxRadiusMiles: number;
   topVendorCount: number;
+  offerTtlSeconds: number;
+  maxRadiusExpansionAttempts: number;
+  radiusExpansionFactor: number; // Multiplier applied per attempt
+  configVersion?: number; // admin-config version this config was built from
+  incidentTypes?: IncidentTypeDefinition[]; // Defaults to the built-in catalogue
 }
 
-const DEFAULT_MATCH_CONFIG: MatchConfig = {
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
   weights: {
     distance: 0.30,
     capability: 0.25,
@@ -47,38 +114,103 @@ const DEFAULT_MATCH_CONFIG: MatchConfig = {
   defaultRadiusMiles: 50,
   maxRadiusMiles: 150,
   topVendorCount: 3,
+  offerTtlSeconds: 120, // 2 minutes
+  maxRadiusExpansionAttempts: 3,
+  radiusExpansionFactor: 1.25, // 25% increase
 };
 
+/**
+ * Map an admin-config MatchingConfig onto the match service config.
+ * Admin config stores the expansion factor as a fractional increase (0.25),
+ * the match service applies it as a multiplier (1.25).
+ */
+export function toMatchConfig(
+  matching: MatchingConfig,
+  version?: number,
+  incidentTypes?: IncidentTypeDefinition[]
+): MatchConfig {
+  return {
+    weights: { ...matching.weights },
+    defaultRadiusMiles: matching.defaultRadius,
+    maxRadiusMiles: matching.maxRadius,
+    topVendorCount: matching.maxOffersPerIncident,
+    offerTtlSeconds: matching.offerTimeoutSeconds,
+    maxRadiusExpansionAttempts: matching.maxExpansionAttempts,
+    radiusExpansionFactor: 1 + matching.radiusExpansionFactor,
+    configVersion: version,
+    incidentTypes,
+  };
+}
+
+/**
+ * Load the current matching config and incident-type catalogue from
+ * admin-config-svc (cached for 60s), falling back to defaults when none has
+ * been published
+ */
+export async function loadMatchConfig(): Promise<MatchConfig> {
+  const [snapshot, incidentTypes] = await Promise.all([
+    configStore.getMatchingConfig(),
+    configStore.getIncidentTypes(),
+  ]);
+  if (!snapshot) {
+    return { ...DEFAULT_MATCH_CONFIG, incidentTypes };
+  }
+
+  return toMatchConfig(snapshot.value, snapshot.version, incidentTypes);
+}
+
+/**
+ * Look up the incident's type in the catalogue the config was loaded with
+ */
+function getIncidentTypeDefinition(
+  incident: Incident,
+  config: MatchConfig
+): IncidentTypeDefinition | undefined {
+  return findIncidentType(config.incidentTypes ?? DEFAULT_INCIDENT_TYPES, incident.type);
+}
+
+/**
+ * Score 1 when the vendor has any of the capabilities the incident type
+ * requires, 0 otherwise (including types missing from the catalogue)
+ */
+function calculateCapabilityScore(vendor: Vendor, incident: Incident, config: MatchConfig): number {
+  const requiredCapabilities = getIncidentTypeDefinition(incident, config)?.requiredCapabilities ?? [];
+  const hasCapability = requiredCapabilities.some((cap) => vendor.capabilities.includes(cap));
+  return hasCapability ? 1 : 0;
+}
+
+/**
+ * Road-speed estimate from the vendor's coverage center, used when no live
+ * position or route has been resolved
+ */
+function estimateFromCoverageCenter(vendor: Vendor, incident: Incident): TravelEstimate {
+  return estimateByRoadSpeed(vendor.coverageArea.center, incident.location);
+}
+
+/**
+ * Score drive time against the drive time to the edge of the max radius
+ */
+function calculateDriveTimeScore(travel: TravelEstimate, config: MatchConfig): number {
+  const maxDriveMinutes = estimateDriveMinutes(config.maxRadiusMiles);
+  return Math.max(0, 1 - travel.driveMinutes / maxDriveMinutes);
+}
+
 /**
  * Calculate match score for a vendor and incident
  */
 export function calculateMatchScore(
   vendor: Vendor,
   incident: Incident,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  travel: TravelEstimate = estimateFromCoverageCenter(vendor, incident)
 ): number {
   const { weights } = config;
 
-  // Distance score (inverse, normalized to 0-1)
-  const distanceMiles = calculateDistance(
-    vendor.coverageArea.center.lat,
-    vendor.coverageArea.center.lon,
-    incident.location.lat,
-    incident.location.lon
-  );
-  const distanceScore = Math.max(0, 1 - distanceMiles / config.maxRadiusMiles);
+  // Distance score (inverse drive time, normalized to 0-1)
+  const distanceScore = calculateDriveTimeScore(travel, config);
 
   // Capability score (exact match = 1, no match = 0)
-  const capabilityMap: Record<string, ServiceCapability[]> = {
-    tire: ['tire_repair', 'tire_replacement'],
-    engine: ['engine_repair'],
-    tow: ['towing'],
-  };
-  const requiredCapabilities = capabilityMap[incident.type] || [];
-  const hasCapability = requiredCapabilities.some((cap) =>
-    vendor.capabilities.includes(cap)
-  );
-  const capabilityScore = hasCapability ? 1 : 0;
+  const capabilityScore = calculateCapabilityScore(vendor, incident, config);
 
   // Availability score
   const availabilityScore = vendor.availability.status === 'available' ? 1 : 0;
@@ -106,26 +238,13 @@ export function calculateMatchScore(
 export function calculateScoreBreakdown(
   vendor: Vendor,
   incident: Incident,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  travel: TravelEstimate = estimateFromCoverageCenter(vendor, incident),
+  exclusions?: MatchExclusion[]
 ): MatchScoreBreakdown {
-  const distanceMiles = calculateDistance(
-    vendor.coverageArea.center.lat,
-    vendor.coverageArea.center.lon,
-    incident.location.lat,
-    incident.location.lon
-  );
-  const distanceScore = Math.max(0, 1 - distanceMiles / config.maxRadiusMiles);
+  const distanceScore = calculateDriveTimeScore(travel, config);
 
-  const capabilityMap: Record<string, ServiceCapability[]> = {
-    tire: ['tire_repair', 'tire_replacement'],
-    engine: ['engine_repair'],
-    tow: ['towing'],
-  };
-  const requiredCapabilities = capabilityMap[incident.type] || [];
-  const hasCapability = requiredCapabilities.some((cap) =>
-    vendor.capabilities.includes(cap)
-  );
-  const capabilityScore = hasCapability ? 1 : 0;
+  const capabilityScore = calculateCapabilityScore(vendor, incident, config);
 
   const availabilityScore = vendor.availability.status === 'available' ? 1 : 0;
   const acceptanceScore = vendor.metrics.acceptanceRate;
@@ -137,17 +256,138 @@ export function calculateScoreBreakdown(
     availability: availabilityScore,
     acceptanceRate: acceptanceScore,
     rating: ratingScore,
+    driveMinutes: travel.driveMinutes,
+    distanceMiles: travel.distanceMiles,
+    ...(exclusions && exclusions.length > 0 ? { exclusions } : {}),
+  };
+}
+
+export interface MatchContext {
+  at: Date; // Time the vendor would be dispatched
+  geofences: GeofenceConfig[]; // Active admin geofences
+}
+
+/**
+ * Get the reasons a vendor cannot take an incident, regardless of score:
+ * the incident is outside the vendor's coverage radius or linked geofences,
+ * or the vendor is closed at the dispatch time in its own timezone
+ */
+export function getMatchExclusions(
+  vendor: Vendor,
+  incident: Incident,
+  context: MatchContext
+): MatchExclusion[] {
+  const exclusions: MatchExclusion[] = [];
+  const { lat, lon } = incident.location;
+
+  const distanceMiles = calculateDistance(
+    vendor.coverageArea.center.lat,
+    vendor.coverageArea.center.lon,
+    lat,
+    lon
+  );
+  if (distanceMiles > vendor.coverageArea.radiusMiles) {
+    exclusions.push({
+      reason: 'outside_coverage_radius',
+      detail: `Incident is ${distanceMiles.toFixed(1)} miles from coverage center, radius is ${vendor.coverageArea.radiusMiles} miles`,
+    });
+  }
+
+  // Only geofences that are still active constrain the vendor
+  const linkedGeofences = context.geofences.filter((geofence) =>
+    (vendor.coverageArea.geofenceIds || []).includes(geofence.geofenceId)
+  );
+  if (
+    linkedGeofences.length > 0 &&
+    !linkedGeofences.some((geofence) => isPointInPolygon(lat, lon, geofence.polygon.coordinates))
+  ) {
+    exclusions.push({
+      reason: 'outside_geofence',
+      detail: `Incident is outside geofences ${linkedGeofences.map((g) => g.name).join(', ')}`,
+    });
+  }
+
+  const timezone =
+    vendor.timezone ||
+    estimateTimezone(vendor.coverageArea.center.lat, vendor.coverageArea.center.lon);
+  if (!isWithinOperatingHours(vendor.operatingHours, context.at, timezone)) {
+    exclusions.push({
+      reason: 'outside_operating_hours',
+      detail: `Vendor is closed at ${context.at.toISOString()} (${timezone})`,
+    });
+  }
+
+  return exclusions;
+}
+
+/**
+ * Load the context vendor eligibility is checked against
+ */
+export async function loadMatchContext(at: Date = new Date()): Promise<MatchContext> {
+  return {
+    at,
+    geofences: await configStore.getGeofences(),
   };
 }
 
+export interface ScoredVendor {
+  vendor: Vendor;
+  score: number;
+  scoreBreakdown: MatchScoreBreakdown;
+}
+
+export interface VendorMatchResult {
+  matches: ScoredVendor[]; // Eligible vendors, best score first
+  excluded: ScoredVendor[]; // Vendors skipped, with exclusions in the breakdown
+}
+
+/**
+ * Split vendors into eligible matches and exclusions, scoring both so the
+ * breakdown explains every skipped vendor
+ */
+export function rankVendors(
+  vendors: Vendor[],
+  incident: Incident,
+  config: MatchConfig,
+  context: MatchContext,
+  travelEstimates: Map<string, TravelEstimate> = new Map()
+): VendorMatchResult {
+  const matches: ScoredVendor[] = [];
+  const excluded: ScoredVendor[] = [];
+
+  for (const vendor of vendors) {
+    const exclusions = getMatchExclusions(vendor, incident, context);
+    const travel =
+      travelEstimates.get(vendor.vendorId) ?? estimateFromCoverageCenter(vendor, incident);
+    const scored: ScoredVendor = {
+      vendor,
+      score: calculateMatchScore(vendor, incident, config, travel),
+      scoreBreakdown: calculateScoreBreakdown(vendor, incident, config, travel, exclusions),
+    };
+
+    if (exclusions.length > 0) {
+      excluded.push(scored);
+    } else if (scored.score > 0) {
+      matches.push(scored);
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+
+  return { matches, excluded };
+}
+
 /**
  * Find and rank vendor matches for an incident
  */
 export async function findVendorMatches(
   incident: Incident,
   radiusMiles: number,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG
-): Promise<Array<{ vendor: Vendor; score: number; scoreBreakdown: MatchScoreBreakdown }>> {
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  matchContext?: MatchContext
+): Promise<VendorMatchResult> {
+  const context = matchContext ?? (await loadMatchContext());
+
   // Query vendors within radius
   const vendors = await queryVendorsByRadius(
     incident.location.lat,
@@ -161,42 +401,90 @@ export async function findVendorMatches(
     vendorCount: vendors.length,
   });
 
-  // Calculate scores and filter
-  const scoredVendors = vendors
-    .map((vendor) => ({
-      vendor,
-      score: calculateMatchScore(vendor, incident, config),
-      scoreBreakdown: calculateScoreBreakdown(vendor, incident, config),
-    }))
-    .filter((item) => item.score > 0) // Filter out vendors with zero score
-    .sort((a, b) => b.score - a.score); // Sort by score descending
+  const travelEstimates = await estimateTravel(vendors, incident);
+  const result = rankVendors(vendors, incident, config, context, travelEstimates);
 
-  return scoredVendors;
+  for (const { vendor, scoreBreakdown } of result.excluded) {
+    logger.info('Vendor excluded from matching', {
+      incidentId: incident.incidentId,
+      vendorId: vendor.vendorId,
+      exclusions: scoreBreakdown.exclusions,
+    });
+  }
+
+  return result;
 }
 
 /**
- * Query vendors by radius (simplified - uses DynamoDB scan for now)
+ * Estimate drive time to the incident from each vendor's last tracked
+ * position, or from its coverage center when it has not been tracked recently
+ */
+async function estimateTravel(
+  vendors: Vendor[],
+  incident: Incident
+): Promise<Map<string, TravelEstimate>> {
+  if (vendors.length === 0) {
+    return new Map();
+  }
+
+  const positions = await vendorPositionSource.getPositions(vendors.map((v) => v.vendorId));
+  const origins = vendors.map((vendor) => ({
+    id: vendor.vendorId,
+    ...(positions.get(vendor.vendorId) ?? vendor.coverageArea.center),
+  }));
+
+  logger.info('Estimating vendor travel times', {
+    incidentId: incident.incidentId,
+    vendorCount: vendors.length,
+    livePositions: positions.size,
+  });
+
+  return travelTimeProvider.estimate(origins, incident.location);
+}
+
+/**
+ * Query vendors whose coverage center is within the radius using the geo index
  */
 async function queryVendorsByRadius(
   lat: number,
   lon: number,
   radiusMiles: number
 ): Promise<Vendor[]> {
-  // In production, this would use geospatial indexing
-  // For now, scan and filter
-  const allVendors = await dynamodb.scan<Vendor>(VENDORS_TABLE);
-
-  const vendorsInRadius = allVendors.filter((vendor) => {
-    const distance = calculateDistance(
-      lat,
-      lon,
-      vendor.coverageArea.center.lat,
-      vendor.coverageArea.center.lon
-    );
-    return distance <= radiusMiles;
-  });
+  const matches = await vendorGeoIndex.search({ lat, lon, radiusMiles });
+  if (matches.length === 0) {
+    return [];
+  }
 
-  return vendorsInRadius;
+  // BatchGetItem accepts at most 100 keys per request
+  const vendorIds = matches.map((match) => match.vendorId);
+  const batches: string[][] = [];
+  for (let i = 0; i < vendorIds.length; i += 100) {
+    batches.push(vendorIds.slice(i, i + 100));
+  }
+
+  const results = await Promise.all(
+    batches.map((batch) =>
+      dynamodb.batchGet<Vendor>(
+        VENDORS_TABLE,
+        batch.map((vendorId) => ({ vendorId }))
+      )
+    )
+  );
+
+  return results.flat();
+}
+
+/**
+ * Epoch seconds an offer's timeout counts from: now, or when the service
+ * window opens for scheduled incidents matched during their lead time
+ */
+function getOfferClockStart(incident: Incident): number {
+  const now = Math.floor(Date.now() / 1000);
+  if (!incident.serviceWindow) {
+    return now;
+  }
+
+  return Math.max(now, Math.floor(new Date(incident.serviceWindow.start).getTime() / 1000));
 }
 
 /**
@@ -204,11 +492,14 @@ async function queryVendorsByRadius(
  */
 export async function createOffers(
   incident: Incident,
-  vendors: Array<{ vendor: Vendor; score: number; scoreBreakdown: MatchScoreBreakdown }>,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG
+  vendors: ScoredVendor[],
+  matchConfig?: MatchConfig,
+  dispatch?: { stepMode: DispatchStepMode; ttlSeconds: number; round: number }
 ): Promise<Offer[]> {
+  const config = matchConfig ?? (await loadMatchConfig());
   const topVendors = vendors.slice(0, config.topVendorCount);
-  const expiresAt = Math.floor(Date.now() / 1000) + OFFER_TTL_SECONDS;
+  const ttlSeconds = dispatch?.ttlSeconds ?? config.offerTtlSeconds;
+  const expiresAt = getOfferClockStart(incident) + ttlSeconds;
   const offers: Offer[] = [];
 
   for (const { vendor, score, scoreBreakdown } of topVendors) {
@@ -219,9 +510,20 @@ export async function createOffers(
       status: 'pending',
       matchScore: score,
       scoreBreakdown,
-      estimatedPayout: calculateEstimatedPayout(vendor, incident),
+      estimatedPayout: calculateEstimatedPayout(
+        vendor,
+        incident,
+        scoreBreakdown.distanceMiles,
+        config
+      ),
       expiresAt,
+      serviceWindow: incident.serviceWindow,
       createdAt: new Date().toISOString(),
+      dispatchMode: dispatch?.stepMode,
+      dispatchRound: dispatch?.round,
+      configVersion: config.configVersion,
+      slaTier: incident.sla?.tier,
+      pricingMultiplier: incident.sla?.pricingMultiplier,
     };
 
     // Store offer in DynamoDB with TTL
@@ -243,6 +545,8 @@ export async function createOffers(
         matchScore: offer.matchScore,
         estimatedPayout: offer.estimatedPayout,
         expiresAt: offer.expiresAt,
+        configVersion: offer.configVersion,
+        serviceWindow: offer.serviceWindow,
       },
     });
 
@@ -251,6 +555,8 @@ export async function createOffers(
       incidentId: incident.incidentId,
       vendorId: vendor.vendorId,
       matchScore: score,
+      dispatchMode: offer.dispatchMode,
+      configVersion: offer.configVersion,
     });
   }
 
@@ -258,32 +564,318 @@ export async function createOffers(
 }
 
 /**
- * Calculate estimated payout for vendor
+ * Drop vendors that already had an offer for the incident. Broadcast keeps
+ * re-offering the top vendors on each attempt; cascade and hybrid move on.
  */
-function calculateEstimatedPayout(vendor: Vendor, incident: Incident): number {
-  const distance = calculateDistance(
-    vendor.coverageArea.center.lat,
-    vendor.coverageArea.center.lon,
-    incident.location.lat,
-    incident.location.lon
-  );
+function excludeOfferedVendors(
+  matches: ScoredVendor[],
+  dispatch: IncidentDispatchState | undefined,
+  strategy: DispatchStrategy
+): ScoredVendor[] {
+  if (strategy.mode === 'broadcast' || !dispatch) {
+    return matches;
+  }
+
+  const offered = new Set(dispatch.offeredVendorIds);
+  return matches.filter(({ vendor }) => !offered.has(vendor.vendorId));
+}
+
+/**
+ * Claim the next dispatch round for an incident, conditional on the round
+ * still being the one read with the incident
+ * @returns false if another invocation already sent this round
+ */
+async function claimDispatchRound(
+  incidentId: string,
+  round: number,
+  currentRound: number | undefined
+): Promise<boolean> {
+  try {
+    await dynamodb.updateItem(
+      INCIDENTS_TABLE,
+      { incidentId },
+      { set: { dispatchRound: round }, expect: { dispatchRound: currentRound } }
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send the next round of offers for a matching attempt and record the
+ * dispatch state on the incident
+ */
+async function sendDispatchRound(
+  incident: DispatchTrackedIncident,
+  candidates: ScoredVendor[],
+  config: MatchConfig,
+  strategy: DispatchStrategy,
+  search: { attempt: number; radiusMiles: number },
+  previous?: IncidentDispatchState
+): Promise<Offer[]> {
+  const plan = planDispatchStep(strategy, previous, config);
+
+  if (!plan || candidates.length === 0) {
+    if (previous) {
+      await dynamodb.update(INCIDENTS_TABLE, { incidentId: incident.incidentId }, {
+        dispatch: {
+          ...previous,
+          status: 'exhausted',
+          offerIds: [],
+          updatedAt: new Date().toISOString(),
+        },
+      });
+      logger.info('Dispatch exhausted for attempt', {
+        incidentId: incident.incidentId,
+        mode: strategy.mode,
+        attempt: previous.attempt,
+        steps: previous.step,
+      });
+    }
+    return [];
+  }
 
-  // Get pricing for incident type
-  const serviceTypeMap: Record<string, string> = {
-    tire: 'tire_repair',
-    engine: 'engine_repair',
-    tow: 'towing',
+  const round = (incident.dispatchRound ?? 0) + 1;
+  if (!(await claimDispatchRound(incident.incidentId, round, incident.dispatchRound))) {
+    logger.info('Dispatch round already sent', { incidentId: incident.incidentId, round });
+    return [];
+  }
+
+  const offers = await createOffers(incident, candidates.slice(0, plan.vendorCount), config, {
+    stepMode: plan.stepMode,
+    ttlSeconds: plan.ttlSeconds,
+    round,
+  });
+
+  const offeredVendorIds = new Set(incident.dispatch?.offeredVendorIds ?? []);
+  offers.forEach((offer) => offeredVendorIds.add(offer.vendorId));
+
+  const dispatch: IncidentDispatchState = {
+    mode: strategy.mode,
+    attempt: search.attempt,
+    radiusMiles: search.radiusMiles,
+    round,
+    step: (previous?.step ?? 0) + 1,
+    stepMode: plan.stepMode,
+    status: 'in_progress',
+    offerIds: offers.map((offer) => offer.offerId),
+    offeredVendorIds: Array.from(offeredVendorIds),
+    expiresAt: offers[0]?.expiresAt ?? Math.floor(Date.now() / 1000),
+    updatedAt: new Date().toISOString(),
   };
-  const serviceType = serviceTypeMap[incident.type];
-  const pricing = vendor.pricing[serviceType];
+  await dynamodb.update(INCIDENTS_TABLE, { incidentId: incident.incidentId }, { dispatch });
 
-  if (!pricing) {
+  logger.info('Dispatch round sent', {
+    incidentId: incident.incidentId,
+    mode: strategy.mode,
+    stepMode: plan.stepMode,
+    round,
+    step: dispatch.step,
+    offers: offers.length,
+  });
+
+  return offers;
+}
+
+// Open offers: awaiting the vendor, or a counter awaiting a dispatcher
+const EXPIRING_OFFER_STATUSES: OfferStatus[] = ['pending', 'countered'];
+
+/**
+ * Expire an offer and publish OfferExpired
+ * @returns false if the offer was answered before it could be expired
+ */
+async function expireOffer(offer: Offer): Promise<boolean> {
+  const expiredAt = new Date().toISOString();
+
+  try {
+    await dynamodb.updateItem(
+      OFFERS_TABLE,
+      { offerId: offer.offerId },
+      {
+        set: { status: 'expired', respondedAt: expiredAt },
+        expect: { status: offer.status },
+      }
+    );
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      // Accepted, declined or countered since it was read
+      logger.info('Offer no longer pending, not expired', { offerId: offer.offerId });
+      return false;
+    }
+    throw error;
+  }
+
+  await eventBridge.publishEvent({
+    source: EventSources.MATCH_SERVICE,
+    detailType: EventTypes.OFFER_EXPIRED,
+    detail: {
+      offerId: offer.offerId,
+      incidentId: offer.incidentId,
+      vendorId: offer.vendorId,
+      expiredAt,
+      dispatchMode: offer.dispatchMode,
+      dispatchRound: offer.dispatchRound,
+    },
+  });
+
+  logger.info('Offer expired', {
+    offerId: offer.offerId,
+    incidentId: offer.incidentId,
+    vendorId: offer.vendorId,
+    dispatchRound: offer.dispatchRound,
+  });
+  return true;
+}
+
+/**
+ * Expire every pending offer whose response window has passed, and every
+ * counter-offer left waiting past its approval timeout, and publish
+ * OfferExpired for each. Runs on a schedule so offers are expired before
+ * DynamoDB TTL removes them.
+ *
+ * @returns The offers that were expired
+ */
+export async function expireDueOffers(now: Date = new Date()): Promise<Offer[]> {
+  const dueOffers: Offer[] = [];
+  for (const status of EXPIRING_OFFER_STATUSES) {
+    dueOffers.push(
+      ...(await dynamodb.queryAll<Offer>(
+        OFFERS_TABLE,
+        '#status = :status AND expiresAt <= :now',
+        { ':status': status, ':now': Math.floor(now.getTime() / 1000) },
+        'status-expires-index',
+        { '#status': 'status' }
+      ))
+    );
+  }
+
+  const expired: Offer[] = [];
+  for (const offer of dueOffers) {
+    try {
+      if (!(await expireOffer(offer))) {
+        continue;
+      }
+      expired.push(offer);
+    } catch (error) {
+      logger.error('Failed to expire offer', error as Error, { offerId: offer.offerId });
+      continue;
+    }
+
+    // The round's own timeout was held open by the counter, so nothing else moves it on
+    if (offer.status === 'countered' && offer.dispatchRound !== undefined) {
+      try {
+        await advanceDispatch(offer.incidentId, { reason: 'expired', round: offer.dispatchRound });
+      } catch (error) {
+        logger.error('Failed to advance dispatch after counter-offer expiry', error as Error, {
+          offerId: offer.offerId,
+          incidentId: offer.incidentId,
+        });
+      }
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Move a cascade or hybrid dispatch on to the next ranked vendor once every
+ * offer in the current round has been declined or has expired.
+ * Stale triggers (an older round, an assigned incident) are ignored.
+ */
+export async function advanceDispatch(
+  incidentId: string,
+  trigger: { reason: 'declined' | 'expired'; round?: number }
+): Promise<Offer[]> {
+  const incident = await dynamodb.get<DispatchTrackedIncident>(INCIDENTS_TABLE, { incidentId });
+  if (!incident) {
+    throw new NotFoundError('Incident', incidentId);
+  }
+
+  const dispatch = incident.dispatch;
+  if (incident.assignedVendorId || !dispatch || dispatch.status !== 'in_progress') {
+    return [];
+  }
+
+  if (trigger.round !== undefined && trigger.round !== dispatch.round) {
+    logger.info('Ignoring stale dispatch trigger', {
+      incidentId,
+      reason: trigger.reason,
+      triggerRound: trigger.round,
+      currentRound: dispatch.round,
+    });
+    return [];
+  }
+
+  const roundOffers = await dynamodb.batchGet<Offer>(
+    OFFERS_TABLE,
+    dispatch.offerIds.map((offerId) => ({ offerId }))
+  );
+  // Counters awaiting a dispatcher keep the round open until they're decided or expire
+  let pendingOffers = roundOffers.filter((offer) => EXPIRING_OFFER_STATUSES.includes(offer.status));
+
+  if (trigger.reason === 'expired') {
+    const now = Math.floor(Date.now() / 1000);
+    const expiredIds = new Set<string>();
+    for (const offer of pendingOffers.filter((o) => o.expiresAt <= now)) {
+      if (await expireOffer(offer)) {
+        expiredIds.add(offer.offerId);
+      }
+    }
+    pendingOffers = pendingOffers.filter((offer) => !expiredIds.has(offer.offerId));
+  }
+
+  // Other vendors in this round can still accept
+  if (pendingOffers.length > 0) {
+    return [];
+  }
+
+  const config = await loadMatchConfig();
+  const strategy = await configStore.getDispatchStrategy(incident.slaTier);
+  const { matches } = await findVendorMatches(incident, dispatch.radiusMiles, config);
+
+  return sendDispatchRound(
+    incident,
+    excludeOfferedVendors(matches, dispatch, strategy),
+    config,
+    strategy,
+    { attempt: dispatch.attempt, radiusMiles: dispatch.radiusMiles },
+    dispatch
+  );
+}
+
+/**
+ * Calculate estimated payout for vendor from the road distance to the incident.
+ * Uses the vendor's pricing for the first required capability it prices,
+ * otherwise the catalogue base price for the incident type, scaled by the
+ * incident's SLA tier pricing multiplier.
+ */
+function calculateEstimatedPayout(
+  vendor: Vendor,
+  incident: Incident,
+  distanceMiles: number,
+  config: MatchConfig
+): number {
+  const incidentType = getIncidentTypeDefinition(incident, config);
+  if (!incidentType) {
     return 0;
   }
 
+  const serviceType = incidentType.requiredCapabilities.find((cap) => vendor.pricing[cap]);
+  const pricing = serviceType && vendor.pricing[serviceType];
+
+  const multiplier = incident.sla?.pricingMultiplier ?? 1;
+
+  if (!pricing) {
+    return Math.round(incidentType.basePriceCents * multiplier);
+  }
+
   const basePrice = pricing.basePrice;
-  const mileageCharge = distance * pricing.perMileRate;
-  const totalCents = basePrice + mileageCharge;
+  const mileageCharge = distanceMiles * pricing.perMileRate;
+  const totalCents = (basePrice + mileageCharge) * multiplier;
 
   return Math.round(totalCents);
 }
@@ -294,10 +886,13 @@ function calculateEstimatedPayout(vendor: Vendor, incident: Incident): number {
 export async function executeVendorMatching(
   incidentId: string,
   attempt: number = 1,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG
+  matchConfig?: MatchConfig
 ): Promise<{ offers: Offer[]; attempt: number; radiusUsed: number }> {
+  // Resolve config once so every attempt uses the same version
+  const config = matchConfig ?? (await loadMatchConfig());
+
   // Get incident
-  const incident = await dynamodb.get<Incident>(INCIDENTS_TABLE, { incidentId });
+  const incident = await dynamodb.get<DispatchTrackedIncident>(INCIDENTS_TABLE, { incidentId });
   if (!incident) {
     throw new NotFoundError('Incident', incidentId);
   }
@@ -307,9 +902,19 @@ export async function executeVendorMatching(
     throw new ConflictError('Incident already has an assigned vendor');
   }
 
+  // Offers for this attempt were already sent (duplicate trigger)
+  if (incident.dispatch && incident.dispatch.attempt >= attempt) {
+    logger.info('Matching attempt already dispatched', {
+      incidentId,
+      attempt,
+      dispatchedAttempt: incident.dispatch.attempt,
+    });
+    return { offers: [], attempt, radiusUsed: incident.dispatch.radiusMiles };
+  }
+
   // Calculate radius for this attempt
   const radiusMiles =
-    config.defaultRadiusMiles * Math.pow(RADIUS_EXPANSION_FACTOR, attempt - 1);
+    config.defaultRadiusMiles * Math.pow(config.radiusExpansionFactor, attempt - 1);
 
   // Cap at max radius
   const cappedRadius = Math.min(radiusMiles, config.maxRadiusMiles);
@@ -318,14 +923,18 @@ export async function executeVendorMatching(
     incidentId,
     attempt,
     radiusMiles: cappedRadius,
+    configVersion: config.configVersion,
   });
 
-  // Find vendor matches
-  const matches = await findVendorMatches(incident, cappedRadius, config);
+  // Find vendor matches, skipping vendors already offered when cascading
+  const strategy = await configStore.getDispatchStrategy(incident.slaTier);
+  const result = await findVendorMatches(incident, cappedRadius, config);
+  const matches = excludeOfferedVendors(result.matches, incident.dispatch, strategy);
+  const { excluded } = result;
 
   if (matches.length === 0) {
     // No vendors found
-    if (attempt >= MAX_RADIUS_EXPANSION_ATTEMPTS) {
+    if (attempt >= config.maxRadiusExpansionAttempts) {
       // Max attempts reached, escalate
       logger.warn('No vendors found after max attempts', {
         incidentId,
@@ -341,6 +950,10 @@ export async function executeVendorMatching(
           reason: 'No vendors found after radius expansion',
           attempts: attempt,
           finalRadius: cappedRadius,
+          excludedVendors: excluded.map(({ vendor, scoreBreakdown }) => ({
+            vendorId: vendor.vendorId,
+            exclusions: scoreBreakdown.exclusions,
+          })),
         },
       });
 
@@ -357,13 +970,17 @@ export async function executeVendorMatching(
     return executeVendorMatching(incidentId, attempt + 1, config);
   }
 
-  // Create offers for top vendors
-  const offers = await createOffers(incident, matches, config);
+  // Send the first round of offers for this attempt
+  const offers = await sendDispatchRound(incident, matches, config, strategy, {
+    attempt,
+    radiusMiles: cappedRadius,
+  });
 
   logger.info('Vendor matching completed', {
     incidentId,
     attempt,
     radiusUsed: cappedRadius,
+    dispatchMode: strategy.mode,
     offersCreated: offers.length,
   });
 
@@ -405,6 +1022,20 @@ export async function acceptOffer(
     throw new ValidationError('Offer has expired');
   }
 
+  return assignOffer(offer, offer.estimatedPayout);
+}
+
+/**
+ * Assign an offer's vendor to the incident at the agreed payout, mark the
+ * offer accepted and cancel the incident's other open offers
+ */
+async function assignOffer(
+  offer: Offer,
+  agreedPayoutCents: number,
+  offerUpdates: Partial<Offer> = {}
+): Promise<{ offer: Offer; incident: Incident }> {
+  const { offerId, vendorId } = offer;
+
   // Get incident
   const incident = await dynamodb.get<Incident>(INCIDENTS_TABLE, {
     incidentId: offer.incidentId,
@@ -413,27 +1044,63 @@ export async function acceptOffer(
     throw new NotFoundError('Incident', offer.incidentId);
   }
 
-  // Use optimistic locking to prevent concurrent acceptance
+  if (!ASSIGNABLE_INCIDENT_STATUSES.includes(incident.status)) {
+    throw new ConflictError(`Incident is ${incident.status}, cannot assign a vendor`);
+  }
+
+  const acceptedAt = new Date().toISOString();
+  const agreedPayout: IncidentAgreedPayout = {
+    offerId,
+    amountCents: agreedPayoutCents,
+    estimatedCents: offer.estimatedPayout,
+    negotiated: agreedPayoutCents !== offer.estimatedPayout,
+    etaMinutes: offer.counterOffer?.etaMinutes,
+    agreedAt: acceptedAt,
+    slaTier: offer.slaTier,
+    pricingMultiplier: offer.pricingMultiplier,
+  };
+
+  // Versioned conditional write: fails if another vendor was assigned or the
+  // incident changed since it was read
   try {
-    await dynamodb.update(
+    await dynamodb.updateItem(
       INCIDENTS_TABLE,
       { incidentId: offer.incidentId },
       {
-        assignedVendorId: vendorId,
-        updatedAt: new Date().toISOString(),
-      },
-      'attribute_not_exists(assignedVendorId)' // Condition: no vendor assigned yet
+        set: { assignedVendorId: vendorId, agreedPayout, updatedAt: acceptedAt },
+        increment: { version: 1 },
+        expect: {
+          assignedVendorId: undefined,
+          status: incident.status,
+          version: incident.version,
+        },
+      }
     );
   } catch (error) {
-    // Conditional check failed - another vendor already accepted
-    throw new ConflictError('Incident already assigned to another vendor');
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      throw new ConflictError('Incident already assigned to another vendor');
+    }
+    throw error;
   }
 
-  // Update offer status
-  await dynamodb.update(OFFERS_TABLE, { offerId }, {
-    status: 'accepted',
-    respondedAt: new Date().toISOString(),
-  });
+  // Conditional on the offer still being open: the expiry processor may have
+  // expired it since it was read, and dispatch moved on with it
+  try {
+    await dynamodb.updateItem(
+      OFFERS_TABLE,
+      { offerId },
+      {
+        set: { ...offerUpdates, status: 'accepted', respondedAt: acceptedAt },
+        expect: { status: offer.status },
+      }
+    );
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      await releaseAssignment(offer, (incident.version ?? 0) + 1);
+      throw new ConflictError(`Offer is no longer ${offer.status}, cannot accept`);
+    }
+    throw error;
+  }
 
   // Cancel other pending offers for this incident
   await cancelOtherOffers(offer.incidentId, offerId);
@@ -446,22 +1113,269 @@ export async function acceptOffer(
       offerId,
       incidentId: offer.incidentId,
       vendorId,
-      acceptedAt: new Date().toISOString(),
+      acceptedAt,
+      agreedPayout: agreedPayout.amountCents,
+      negotiated: agreedPayout.negotiated,
     },
   });
 
-  logger.info('Offer accepted', { offerId, incidentId: offer.incidentId, vendorId });
+  logger.info('Offer accepted', {
+    offerId,
+    incidentId: offer.incidentId,
+    vendorId,
+    agreedPayout: agreedPayout.amountCents,
+    negotiated: agreedPayout.negotiated,
+  });
 
   const updatedIncident = await dynamodb.get<Incident>(INCIDENTS_TABLE, {
     incidentId: offer.incidentId,
   });
 
   return {
-    offer: { ...offer, status: 'accepted', respondedAt: new Date().toISOString() },
+    offer: { ...offer, ...offerUpdates, status: 'accepted', respondedAt: acceptedAt },
     incident: updatedIncident!,
   };
 }
 
+/**
+ * Undo assignOffer's incident write when the offer could not be accepted.
+ * Conditional on the incident being as assignOffer left it.
+ */
+async function releaseAssignment(offer: Offer, assignedVersion: number): Promise<void> {
+  try {
+    await dynamodb.updateItem(
+      INCIDENTS_TABLE,
+      { incidentId: offer.incidentId },
+      {
+        set: { updatedAt: new Date().toISOString() },
+        remove: ['assignedVendorId', 'agreedPayout'],
+        increment: { version: 1 },
+        expect: { assignedVendorId: offer.vendorId, version: assignedVersion },
+      }
+    );
+  } catch (error) {
+    logger.error('Failed to release incident assignment', error as Error, {
+      offerId: offer.offerId,
+      incidentId: offer.incidentId,
+      vendorId: offer.vendorId,
+    });
+  }
+}
+
+/**
+ * Vendor counter-offer: propose a different payout (and optionally an ETA)
+ * instead of accepting or declining. Counters within the pricing config's
+ * auto-accept band assign the vendor straight away; larger ones wait for a
+ * dispatcher.
+ */
+export async function counterOffer(
+  offerId: string,
+  vendorId: string,
+  counter: { proposedPayout: number; etaMinutes?: number; note?: string }
+): Promise<Offer> {
+  const offer = await getOfferById(offerId);
+  if (!offer) {
+    throw new NotFoundError('Offer', offerId);
+  }
+
+  // Validate vendor
+  if (offer.vendorId !== vendorId) {
+    throw new ValidationError('Vendor ID does not match offer');
+  }
+
+  if (offer.status !== 'pending') {
+    throw new ConflictError(`Offer is ${offer.status}, cannot counter`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now > offer.expiresAt) {
+    throw new ValidationError('Offer has expired');
+  }
+
+  const rules = await configStore.getCounterOfferRules();
+  if (!rules.enabled) {
+    throw new ValidationError('Counter-offers are not enabled');
+  }
+
+  const decision = evaluateCounterOffer(offer.estimatedPayout, counter.proposedPayout, rules);
+  if (decision === 'refused') {
+    throw new ValidationError(
+      `Counter-offer is more than ${rules.maxAboveEstimatePercent}% above the estimated payout`
+    );
+  }
+
+  const counteredAt = new Date().toISOString();
+  const autoAccepted = decision === 'auto_accept';
+  const counterOfferRecord: CounterOffer = {
+    proposedPayout: counter.proposedPayout,
+    etaMinutes: counter.etaMinutes,
+    note: counter.note,
+    status: autoAccepted ? 'approved' : 'pending_approval',
+    autoAccepted,
+    proposedAt: counteredAt,
+    ...(autoAccepted && { decidedAt: counteredAt }),
+  };
+
+  let updatedOffer: Offer;
+  if (autoAccepted) {
+    const result = await assignOffer(
+      { ...offer, counterOffer: counterOfferRecord },
+      counter.proposedPayout,
+      { counterOffer: counterOfferRecord }
+    );
+    updatedOffer = result.offer;
+  } else {
+    // The offer stays open for a dispatcher until the approval timeout, unless
+    // the expiry processor got to it first and dispatch has moved on
+    const expiresAt = Math.floor(Date.now() / 1000) + rules.approvalTimeoutSeconds;
+    try {
+      await dynamodb.updateItem(
+        OFFERS_TABLE,
+        { offerId },
+        {
+          set: { status: 'countered', counterOffer: counterOfferRecord, expiresAt },
+          expect: { status: 'pending' },
+        }
+      );
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        throw new ConflictError('Offer is no longer pending, cannot counter');
+      }
+      throw error;
+    }
+    updatedOffer = { ...offer, status: 'countered', counterOffer: counterOfferRecord, expiresAt };
+  }
+
+  await eventBridge.publishEvent({
+    source: EventSources.MATCH_SERVICE,
+    detailType: EventTypes.OFFER_COUNTERED,
+    detail: {
+      offerId,
+      incidentId: offer.incidentId,
+      vendorId,
+      estimatedPayout: offer.estimatedPayout,
+      proposedPayout: counter.proposedPayout,
+      etaMinutes: counter.etaMinutes,
+      note: counter.note,
+      requiresApproval: !autoAccepted,
+      counteredAt,
+    },
+  });
+
+  logger.info('Offer countered', {
+    offerId,
+    incidentId: offer.incidentId,
+    vendorId,
+    estimatedPayout: offer.estimatedPayout,
+    proposedPayout: counter.proposedPayout,
+    decision,
+  });
+
+  return updatedOffer;
+}
+
+/**
+ * Dispatcher decision on a counter-offer awaiting approval. Approval assigns
+ * the vendor at the proposed payout; rejection declines the offer and moves
+ * a cascade dispatch on to the next vendor.
+ */
+export async function resolveCounterOffer(
+  offerId: string,
+  dispatcherId: string,
+  decision: { approve: boolean; reason?: string }
+): Promise<Offer> {
+  const offer = await getOfferById(offerId);
+  if (!offer) {
+    throw new NotFoundError('Offer', offerId);
+  }
+
+  if (offer.status !== 'countered' || offer.counterOffer?.status !== 'pending_approval') {
+    throw new ConflictError(`Offer is ${offer.status}, no counter-offer awaiting approval`);
+  }
+
+  if (Math.floor(Date.now() / 1000) > offer.expiresAt) {
+    throw new ValidationError('Counter-offer has expired');
+  }
+
+  const decidedAt = new Date().toISOString();
+  const counterOfferRecord: CounterOffer = {
+    ...offer.counterOffer,
+    status: decision.approve ? 'approved' : 'rejected',
+    decidedAt,
+    decidedBy: dispatcherId,
+    ...(decision.reason && { rejectionReason: decision.reason }),
+  };
+
+  logger.info('Counter-offer resolved', {
+    offerId,
+    incidentId: offer.incidentId,
+    dispatcherId,
+    approved: decision.approve,
+  });
+
+  if (decision.approve) {
+    const result = await assignOffer(
+      { ...offer, counterOffer: counterOfferRecord },
+      counterOfferRecord.proposedPayout,
+      { counterOffer: counterOfferRecord }
+    );
+    return result.offer;
+  }
+
+  const declineReason = `Counter-offer rejected${decision.reason ? `: ${decision.reason}` : ''}`;
+  try {
+    await dynamodb.updateItem(
+      OFFERS_TABLE,
+      { offerId },
+      {
+        set: {
+          status: 'declined',
+          respondedAt: decidedAt,
+          declineReason,
+          counterOffer: counterOfferRecord,
+        },
+        expect: { status: 'countered' },
+      }
+    );
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      throw new ConflictError('Counter-offer is no longer awaiting approval');
+    }
+    throw error;
+  }
+
+  await eventBridge.publishEvent({
+    source: EventSources.MATCH_SERVICE,
+    detailType: EventTypes.OFFER_DECLINED,
+    detail: {
+      offerId,
+      incidentId: offer.incidentId,
+      vendorId: offer.vendorId,
+      reason: declineReason,
+      declinedAt: decidedAt,
+    },
+  });
+
+  if (offer.dispatchRound !== undefined) {
+    try {
+      await advanceDispatch(offer.incidentId, { reason: 'declined', round: offer.dispatchRound });
+    } catch (error) {
+      logger.error('Failed to advance dispatch after counter-offer rejection', error as Error, {
+        offerId,
+        incidentId: offer.incidentId,
+      });
+    }
+  }
+
+  return {
+    ...offer,
+    status: 'declined',
+    respondedAt: decidedAt,
+    declineReason,
+    counterOffer: counterOfferRecord,
+  };
+}
+
 /**
  * Decline offer
  */
@@ -485,12 +1399,22 @@ export async function declineOffer(
     throw new ConflictError(`Offer is ${offer.status}, cannot decline`);
   }
 
-  // Update offer status
-  await dynamodb.update(OFFERS_TABLE, { offerId }, {
-    status: 'declined',
-    respondedAt: new Date().toISOString(),
-    declineReason: reason,
-  });
+  // Conditional so an offer expired since it was read is not declined as well
+  try {
+    await dynamodb.updateItem(
+      OFFERS_TABLE,
+      { offerId },
+      {
+        set: { status: 'declined', respondedAt: new Date().toISOString(), declineReason: reason },
+        expect: { status: 'pending' },
+      }
+    );
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      throw new ConflictError('Offer is no longer pending, cannot decline');
+    }
+    throw error;
+  }
 
   // Publish OfferDeclined event
   await eventBridge.publishEvent({
@@ -507,6 +1431,18 @@ export async function declineOffer(
 
   logger.info('Offer declined', { offerId, incidentId: offer.incidentId, vendorId, reason });
 
+  // Offer the next vendor straight away rather than waiting for the timeout
+  if (offer.dispatchRound !== undefined) {
+    try {
+      await advanceDispatch(offer.incidentId, { reason: 'declined', round: offer.dispatchRound });
+    } catch (error) {
+      logger.error('Failed to advance dispatch after decline', error as Error, {
+        offerId,
+        incidentId: offer.incidentId,
+      });
+    }
+  }
+
   return {
     ...offer,
     status: 'declined',
@@ -527,9 +1463,9 @@ async function cancelOtherOffers(incidentId: string, acceptedOfferId: string): P
     'incident-status-index'
   );
 
-  // Cancel pending offers (except the accepted one)
+  // Cancel open offers (except the accepted one), including counters awaiting a dispatcher
   const pendingOffers = offers.filter(
-    (o) => o.offerId !== acceptedOfferId && o.status === 'pending'
+    (o) => o.offerId !== acceptedOfferId && (o.status === 'pending' || o.status === 'countered')
   );
 
   for (const offer of pendingOffers) {
@@ -0,0 +1,244 @@
+import {
+  LocationClient,
+  BatchGetDevicePositionCommand,
+  CalculateRouteMatrixCommand,
+} from '@aws-sdk/client-location';
+import { logger, calculateDistance } from '@roadcall/utils';
+
+const LOCATION_CALCULATOR_NAME = process.env.LOCATION_CALCULATOR_NAME || '';
+const LOCATION_TRACKER_NAME = process.env.LOCATION_TRACKER_NAME || '';
+
+const KM_TO_MILES = 0.621371;
+const MAX_MATRIX_DEPARTURES = 350; // CalculateRouteMatrix limit for a single destination
+const MAX_DEVICE_POSITIONS = 10; // BatchGetDevicePosition limit
+const MAX_POSITION_AGE_MS = 30 * 60 * 1000; // Ignore tracker positions older than 30 minutes
+
+export interface TravelOrigin {
+  id: string;
+  lat: number;
+  lon: number;
+}
+
+export interface TravelEstimate {
+  driveMinutes: number;
+  distanceMiles: number; // Road distance
+}
+
+/**
+ * Estimates drive time from many origins (vendors) to one destination (incident)
+ */
+export interface TravelTimeProvider {
+  estimate(
+    origins: TravelOrigin[],
+    destination: { lat: number; lon: number }
+  ): Promise<Map<string, TravelEstimate>>;
+}
+
+/**
+ * Source of vendors' last known live positions
+ */
+export interface VendorPositionSource {
+  getPositions(vendorIds: string[]): Promise<Map<string, { lat: number; lon: number }>>;
+}
+
+// Roads are longer than the straight line between two points; 1.3 is a
+// typical circuity factor for US road networks
+const ROAD_CIRCUITY_FACTOR = 1.3;
+
+// Average speeds by trip length: short trips are mostly surface streets,
+// longer ones mostly highway
+const ROAD_SPEED_BANDS_MPH: Array<{ upToMiles: number; mph: number }> = [
+  { upToMiles: 5, mph: 25 },
+  { upToMiles: 20, mph: 40 },
+  { upToMiles: Infinity, mph: 55 },
+];
+
+/**
+ * Estimate drive minutes for a trip given its straight-line distance
+ */
+export function estimateDriveMinutes(straightLineMiles: number): number {
+  // Drive each band at its own speed
+  let remaining = straightLineMiles * ROAD_CIRCUITY_FACTOR;
+  let bandStart = 0;
+  let hours = 0;
+  for (const band of ROAD_SPEED_BANDS_MPH) {
+    const bandMiles = Math.min(remaining, band.upToMiles - bandStart);
+    hours += bandMiles / band.mph;
+    remaining -= bandMiles;
+    bandStart = band.upToMiles;
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  return hours * 60;
+}
+
+/**
+ * Estimate road distance and drive time from straight-line distance
+ */
+export function estimateByRoadSpeed(
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number }
+): TravelEstimate {
+  const straightLineMiles = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+
+  return {
+    driveMinutes: estimateDriveMinutes(straightLineMiles),
+    distanceMiles: straightLineMiles * ROAD_CIRCUITY_FACTOR,
+  };
+}
+
+/**
+ * Offline travel-time provider based on road-speed heuristics (tests and fallback)
+ */
+export class RoadSpeedTravelTimeProvider implements TravelTimeProvider {
+  async estimate(
+    origins: TravelOrigin[],
+    destination: { lat: number; lon: number }
+  ): Promise<Map<string, TravelEstimate>> {
+    const estimates = new Map<string, TravelEstimate>();
+    for (const origin of origins) {
+      estimates.set(origin.id, estimateByRoadSpeed(origin, destination));
+    }
+    return estimates;
+  }
+}
+
+/**
+ * Travel-time provider backed by AWS Location CalculateRouteMatrix.
+ * Falls back to the road-speed heuristic for any origin the route matrix
+ * cannot answer.
+ */
+export class LocationRouteMatrixProvider implements TravelTimeProvider {
+  private fallback = new RoadSpeedTravelTimeProvider();
+
+  constructor(
+    private client: LocationClient = new LocationClient({}),
+    private calculatorName: string = LOCATION_CALCULATOR_NAME
+  ) {}
+
+  async estimate(
+    origins: TravelOrigin[],
+    destination: { lat: number; lon: number }
+  ): Promise<Map<string, TravelEstimate>> {
+    const estimates = new Map<string, TravelEstimate>();
+
+    for (let i = 0; i < origins.length; i += MAX_MATRIX_DEPARTURES) {
+      const batch = origins.slice(i, i + MAX_MATRIX_DEPARTURES);
+
+      try {
+        const response = await this.client.send(
+          new CalculateRouteMatrixCommand({
+            CalculatorName: this.calculatorName,
+            DeparturePositions: batch.map((origin) => [origin.lon, origin.lat]),
+            DestinationPositions: [[destination.lon, destination.lat]],
+            TravelMode: 'Car',
+            DepartNow: true,
+            DistanceUnit: 'Kilometers',
+          })
+        );
+
+        (response.RouteMatrix || []).forEach((row, index) => {
+          const entry = row[0];
+          if (
+            entry &&
+            !entry.Error &&
+            entry.Distance !== undefined &&
+            entry.DurationSeconds !== undefined
+          ) {
+            estimates.set(batch[index].id, {
+              driveMinutes: entry.DurationSeconds / 60,
+              distanceMiles: entry.Distance * KM_TO_MILES,
+            });
+          }
+        });
+      } catch (error) {
+        logger.warn('Route matrix calculation failed, using road-speed estimate', {
+          error: (error as Error).message,
+          origins: batch.length,
+        });
+      }
+    }
+
+    const missing = origins.filter((origin) => !estimates.has(origin.id));
+    if (missing.length > 0) {
+      const fallbackEstimates = await this.fallback.estimate(missing, destination);
+      fallbackEstimates.forEach((estimate, id) => estimates.set(id, estimate));
+    }
+
+    return estimates;
+  }
+}
+
+/**
+ * Reads vendors' last known positions from the AWS Location tracker that
+ * tracking-svc updates
+ */
+export class TrackerVendorPositionSource implements VendorPositionSource {
+  constructor(
+    private client: LocationClient = new LocationClient({}),
+    private trackerName: string = LOCATION_TRACKER_NAME
+  ) {}
+
+  async getPositions(vendorIds: string[]): Promise<Map<string, { lat: number; lon: number }>> {
+    const positions = new Map<string, { lat: number; lon: number }>();
+    const oldestSampleTime = Date.now() - MAX_POSITION_AGE_MS;
+
+    for (let i = 0; i < vendorIds.length; i += MAX_DEVICE_POSITIONS) {
+      const batch = vendorIds.slice(i, i + MAX_DEVICE_POSITIONS);
+
+      try {
+        const response = await this.client.send(
+          new BatchGetDevicePositionCommand({
+            TrackerName: this.trackerName,
+            DeviceIds: batch,
+          })
+        );
+
+        for (const devicePosition of response.DevicePositions || []) {
+          const [lon, lat] = devicePosition.Position || [];
+          const sampleTime = devicePosition.SampleTime?.getTime() ?? 0;
+
+          if (
+            devicePosition.DeviceId &&
+            lat !== undefined &&
+            lon !== undefined &&
+            sampleTime >= oldestSampleTime
+          ) {
+            positions.set(devicePosition.DeviceId, { lat, lon });
+          }
+        }
+      } catch (error) {
+        logger.warn('Failed to read vendor positions from tracker', {
+          error: (error as Error).message,
+          vendorCount: batch.length,
+        });
+      }
+    }
+
+    return positions;
+  }
+}
+
+/**
+ * Position source for environments without a tracker
+ */
+export class NoVendorPositionSource implements VendorPositionSource {
+  async getPositions(): Promise<Map<string, { lat: number; lon: number }>> {
+    return new Map();
+  }
+}
+
+/**
+ * Use AWS Location when it is configured, otherwise the offline heuristic
+ */
+export function createTravelTimeProvider(): TravelTimeProvider {
+  return LOCATION_CALCULATOR_NAME
+    ? new LocationRouteMatrixProvider()
+    : new RoadSpeedTravelTimeProvider();
+}
+
+export function createVendorPositionSource(): VendorPositionSource {
+  return LOCATION_TRACKER_NAME ? new TrackerVendorPositionSource() : new NoVendorPositionSource();
+}
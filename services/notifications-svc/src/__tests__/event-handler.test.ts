@@ -0,0 +1,107 @@
+import { EventBridgeEvent } from 'aws-lambda';
+
+jest.mock('../notification-service', () => ({
+  notificationService: { sendNotification: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../tracking-links', () => ({
+  createTrackingUrl: jest.fn(
+    async (incidentId: string) => `https://app.roadcall.example.com/track/${incidentId}-token`
+  ),
+}));
+
+import { handler } from '../handlers/event-handler';
+import { notificationService } from '../notification-service';
+
+const sendNotification = notificationService.sendNotification as jest.Mock;
+
+const event = (detailType: string, detail: Record<string, unknown>) =>
+  ({
+    'detail-type': detailType,
+    source: 'roadcall.tracking',
+    detail,
+  }) as unknown as EventBridgeEvent<string, Record<string, unknown>>;
+
+describe('Event Handler', () => {
+  beforeEach(() => {
+    sendNotification.mockClear();
+  });
+
+  it("should send the vendor the driver's new location", async () => {
+    await handler(
+      event('DriverLocationUpdated', {
+        sessionId: 'session-123',
+        incidentId: 'incident-123',
+        driverId: 'driver-123',
+        vendorId: 'vendor-123',
+        location: { lat: 40.7128, lon: -74.006 },
+        distanceMovedMeters: 250,
+        eta: { minutes: 12, distance: 4.2 },
+      })
+    );
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      type: 'destination_updated',
+      recipientId: 'vendor-123',
+      recipientType: 'vendor',
+      channels: ['push', 'sms'],
+      priority: 'urgent',
+      data: {
+        incidentId: 'incident-123',
+        sessionId: 'session-123',
+        distanceMoved: 250,
+        eta: 12,
+        navigationUrl: 'https://maps.google.com/?daddr=40.7128,-74.006',
+      },
+    });
+  });
+
+  it('should send the driver a new ETA for a delayed vendor', async () => {
+    await handler(
+      event('TrackingAnomalyDetected', {
+        sessionId: 'session-123',
+        incidentId: 'incident-123',
+        driverId: 'driver-123',
+        vendorId: 'vendor-123',
+        anomaly: 'stalled',
+        lastFixAt: '2026-10-19T12:00:00.000Z',
+        distanceToIncidentMiles: 6.2,
+        eta: { minutes: 25, arrivalTime: '2026-10-19T12:30:00.000Z' },
+      })
+    );
+
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'vendor_delayed',
+        recipientId: 'driver-123',
+        data: {
+          incidentId: 'incident-123',
+          sessionId: 'session-123',
+          anomaly: 'stalled',
+          eta: 25,
+          trackingUrl: 'https://app.roadcall.example.com/track/incident-123-token',
+        },
+      })
+    );
+  });
+
+  it("should tell the driver when the vendor's location is lost", async () => {
+    await handler(
+      event('TrackingAnomalyDetected', {
+        sessionId: 'session-123',
+        incidentId: 'incident-123',
+        driverId: 'driver-123',
+        vendorId: 'vendor-123',
+        anomaly: 'stale_gps',
+        lastFixAt: '2026-10-19T12:00:00.000Z',
+        distanceToIncidentMiles: 6.2,
+      })
+    );
+
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'vendor_location_lost',
+        data: expect.objectContaining({ anomaly: 'stale_gps', eta: undefined }),
+      })
+    );
+  });
+});
@@ -72,9 +72,13 @@ describe('Template Rendering', () => {
     it('should return template for all notification types', () => {
       const types: NotificationType[] = [
         'offer_received',
+        'scheduled_offer_received',
         'offer_accepted',
         'vendor_en_route',
         'vendor_arrived',
+        'destination_updated',
+        'vendor_delayed',
+        'vendor_location_lost',
         'work_started',
         'work_completed',
         'payment_approved',
@@ -91,6 +95,67 @@ describe('Template Rendering', () => {
   });
 
   describe('Notification Templates', () => {
+    describe('scheduled_offer_received template', () => {
+      it('should include the service window in the SMS', () => {
+        const template = notificationTemplates.scheduled_offer_received;
+        const data = {
+          incidentType: 'tire',
+          distance: '12',
+          payout: '180',
+          serviceWindow: 'Tue, 20 Oct 2026 06:00-08:00 UTC',
+          acceptUrl: 'https://app.example.com/offers/321',
+        };
+
+        const sms = renderTemplate(template.sms!, data);
+        expect(sms).toBe(
+          'Scheduled tire job 12mi away, Tue, 20 Oct 2026 06:00-08:00 UTC. Payout $180. Accept: https://app.example.com/offers/321'
+        );
+      });
+    });
+
+    describe('destination_updated template', () => {
+      it('should send the vendor the new destination', () => {
+        const template = notificationTemplates.destination_updated;
+        const data = {
+          incidentId: '123',
+          distanceMoved: '450',
+          eta: '18',
+          navigationUrl: 'https://maps.google.com/?daddr=40.72,-74.01',
+        };
+
+        const sms = renderTemplate(template.sms!, data);
+        expect(sms).toBe(
+          'Driver moved 450m for incident #123. New ETA 18 min. Navigate: https://maps.google.com/?daddr=40.72,-74.01'
+        );
+      });
+    });
+
+    describe('vendor_delayed template', () => {
+      it('should send the driver the updated ETA', () => {
+        const template = notificationTemplates.vendor_delayed;
+        const data = {
+          eta: '25',
+          trackingUrl: 'https://app.example.com/incidents/123/track',
+        };
+
+        const sms = renderTemplate(template.sms!, data);
+        expect(sms).toBe(
+          'Sorry, your vendor has been held up. Updated ETA: 25 min. Track: https://app.example.com/incidents/123/track'
+        );
+      });
+    });
+
+    describe('vendor_location_lost template', () => {
+      it('should apologise to the driver without an ETA', () => {
+        const template = notificationTemplates.vendor_location_lost;
+
+        const body = renderTemplate(template.push!.body, { incidentId: '123' });
+        expect(body).toBe(
+          "Sorry, we can't see your vendor's location right now. Our dispatchers are on it."
+        );
+      });
+    });
+
     describe('offer_received template', () => {
       it('should render push notification correctly', () => {
         const template = notificationTemplates.offer_received;
@@ -285,9 +350,13 @@ describe('Template Rendering', () => {
     it('should have all required notification types', () => {
       const requiredTypes: NotificationType[] = [
         'offer_received',
+        'scheduled_offer_received',
         'offer_accepted',
         'vendor_en_route',
         'vendor_arrived',
+        'destination_updated',
+        'vendor_delayed',
+        'vendor_location_lost',
         'work_started',
         'work_completed',
         'payment_approved',
@@ -2,6 +2,7 @@ import { EventBridgeEvent } from 'aws-lambda';
 import { NotificationRequest } from '@roadcall/types';
 import { logger } from '@roadcall/utils';
 import { notificationService } from '../notification-service';
+import { createTrackingUrl } from '../tracking-links';
 
 /**
  * Lambda handler for processing EventBridge events and sending notifications
@@ -10,7 +11,7 @@ export async function handler(event: EventBridgeEvent<string, any>): Promise<voi
   logger.info('Processing EventBridge event', { detailType: event['detail-type'] });
 
   try {
-    const notificationRequest = mapEventToNotification(event);
+    const notificationRequest = await mapEventToNotification(event);
 
     if (!notificationRequest) {
       logger.warn('No notification mapping for event', { detailType: event['detail-type'] });
@@ -28,11 +29,33 @@ export async function handler(event: EventBridgeEvent<string, any>): Promise<voi
 /**
  * Map EventBridge events to notification requests
  */
-function mapEventToNotification(event: EventBridgeEvent<string, any>): NotificationRequest | null {
+async function mapEventToNotification(
+  event: EventBridgeEvent<string, any>
+): Promise<NotificationRequest | null> {
   const detail = event.detail;
 
   switch (event['detail-type']) {
     case 'OfferCreated':
+      // Booked work is not urgent; the vendor needs to see when it is for
+      if (detail.serviceWindow) {
+        return {
+          type: 'scheduled_offer_received',
+          recipientId: detail.vendorId,
+          recipientType: 'vendor',
+          channels: ['push', 'sms'],
+          priority: 'high',
+          data: {
+            incidentId: detail.incidentId,
+            offerId: detail.offerId,
+            incidentType: detail.incidentType,
+            distance: detail.distance,
+            payout: detail.estimatedPayout,
+            serviceWindow: formatServiceWindow(detail.serviceWindow),
+            acceptUrl: `https://app.roadcall.example.com/offers/${detail.offerId}`,
+          },
+        };
+      }
+
       return {
         type: 'offer_received',
         recipientId: detail.vendorId,
@@ -61,7 +84,7 @@ function mapEventToNotification(event: EventBridgeEvent<string, any>): Notificat
           vendorId: detail.vendorId,
           vendorName: detail.vendorName,
           eta: detail.eta,
-          trackingUrl: `https://app.roadcall.example.com/incidents/${detail.incidentId}/track`,
+          trackingUrl: await trackingUrlFor(detail.incidentId),
         },
       };
 
@@ -77,7 +100,7 @@ function mapEventToNotification(event: EventBridgeEvent<string, any>): Notificat
           sessionId: detail.sessionId,
           vendorName: detail.vendorName,
           eta: detail.eta,
-          trackingUrl: `https://app.roadcall.example.com/incidents/${detail.incidentId}/track`,
+          trackingUrl: await trackingUrlFor(detail.incidentId),
         },
       };
 
@@ -94,6 +117,39 @@ function mapEventToNotification(event: EventBridgeEvent<string, any>): Notificat
         },
       };
 
+    case 'DriverLocationUpdated':
+      return {
+        type: 'destination_updated',
+        recipientId: detail.vendorId,
+        recipientType: 'vendor',
+        channels: ['push', 'sms'],
+        priority: 'urgent',
+        data: {
+          incidentId: detail.incidentId,
+          sessionId: detail.sessionId,
+          distanceMoved: detail.distanceMovedMeters,
+          eta: detail.eta?.minutes,
+          navigationUrl: `https://maps.google.com/?daddr=${detail.location.lat},${detail.location.lon}`,
+        },
+      };
+
+    case 'TrackingAnomalyDetected':
+      // Stale GPS has no fresh ETA to share, so the driver gets an apology
+      return {
+        type: detail.eta ? 'vendor_delayed' : 'vendor_location_lost',
+        recipientId: detail.driverId,
+        recipientType: 'driver',
+        channels: ['push', 'sms'],
+        priority: 'high',
+        data: {
+          incidentId: detail.incidentId,
+          sessionId: detail.sessionId,
+          anomaly: detail.anomaly,
+          eta: detail.eta?.minutes,
+          trackingUrl: await trackingUrlFor(detail.incidentId),
+        },
+      };
+
     case 'WorkStarted':
       return {
         type: 'work_started',
@@ -157,3 +213,31 @@ function mapEventToNotification(event: EventBridgeEvent<string, any>): Notificat
       return null;
   }
 }
+
+/**
+ * Format a service window for notifications, e.g. "Tue, 20 Oct 2026 06:00-08:00 UTC"
+ */
+function formatServiceWindow(window: { start: string; end: string }): string {
+  const start = new Date(window.start);
+  const end = new Date(window.end);
+  const time = (date: Date) => date.toISOString().slice(11, 16);
+
+  return `${start.toUTCString().slice(0, 16)} ${time(start)}-${time(end)} UTC`;
+}
+
+/**
+ * Signed public tracking link for an incident. Signing needs the link secret;
+ * when it can't be read the notification still goes out, linking to the
+ * incident in the app instead, where the driver has to sign in.
+ */
+async function trackingUrlFor(incidentId: string): Promise<string> {
+  try {
+    return await createTrackingUrl(incidentId);
+  } catch (error) {
+    logger.warn('Failed to sign tracking link, sending the in-app link', {
+      incidentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return `https://app.roadcall.example.com/incidents/${incidentId}/track`;
+  }
+}
@@ -210,7 +210,13 @@ export class NotificationService {
    * Check if notification type is urgent (should bypass quiet hours)
    */
   private isUrgentNotification(type: NotificationType): boolean {
-    const urgentTypes: NotificationType[] = ['offer_received', 'vendor_arrived', 'otp_code', 'system_alert'];
+    const urgentTypes: NotificationType[] = [
+      'offer_received',
+      'vendor_arrived',
+      'destination_updated',
+      'otp_code',
+      'system_alert',
+    ];
     return urgentTypes.includes(type);
   }
 
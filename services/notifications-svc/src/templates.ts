@@ -20,6 +20,24 @@ export const notificationTemplates: Record<NotificationType, NotificationTemplat
     },
   },
 
+  scheduled_offer_received: {
+    push: {
+      title: 'New Scheduled Job',
+      body: 'Scheduled {{incidentType}} job {{distance}} miles away, {{serviceWindow}}. Payout: ${{payout}}',
+      data: {
+        incidentId: '{{incidentId}}',
+        offerId: '{{offerId}}',
+        action: 'view_offer',
+      },
+    },
+    sms: 'Scheduled {{incidentType}} job {{distance}}mi away, {{serviceWindow}}. Payout ${{payout}}. Accept: {{acceptUrl}}',
+    email: {
+      subject: 'New Scheduled Job - {{incidentType}}',
+      htmlBody: '<html><body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;"><h2>New Scheduled Job</h2><p>You have a new offer for booked work:</p><ul><li><strong>Type:</strong> {{incidentType}}</li><li><strong>Service Window:</strong> {{serviceWindow}}</li><li><strong>Distance:</strong> {{distance}} miles</li><li><strong>Estimated Payout:</strong> ${{payout}}</li></ul><p><a href="{{acceptUrl}}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Offer</a></p><p style="color: #666; font-size: 12px;">This offer stays open until shortly after the service window opens.</p></body></html>',
+      textBody: 'Scheduled {{incidentType}} job {{distance}} miles away, {{serviceWindow}}. Payout: ${{payout}}. View offer: {{acceptUrl}}',
+    },
+  },
+
   offer_accepted: {
     push: {
       title: 'Vendor Assigned',
@@ -63,6 +81,43 @@ export const notificationTemplates: Record<NotificationType, NotificationTemplat
     sms: '{{vendorName}} has arrived at your location.',
   },
 
+  destination_updated: {
+    push: {
+      title: 'Driver Location Changed',
+      body: 'The driver has moved {{distanceMoved}}m. New ETA: {{eta}} minutes',
+      data: {
+        incidentId: '{{incidentId}}',
+        trackingSessionId: '{{sessionId}}',
+        action: 'navigate',
+      },
+    },
+    sms: 'Driver moved {{distanceMoved}}m for incident #{{incidentId}}. New ETA {{eta}} min. Navigate: {{navigationUrl}}',
+  },
+
+  vendor_delayed: {
+    push: {
+      title: 'Your Vendor Is Delayed',
+      body: 'Your vendor has been held up. Updated ETA: {{eta}} minutes',
+      data: {
+        incidentId: '{{incidentId}}',
+        action: 'track_vendor',
+      },
+    },
+    sms: 'Sorry, your vendor has been held up. Updated ETA: {{eta}} min. Track: {{trackingUrl}}',
+  },
+
+  vendor_location_lost: {
+    push: {
+      title: 'Vendor Location Unavailable',
+      body: "Sorry, we can't see your vendor's location right now. Our dispatchers are on it.",
+      data: {
+        incidentId: '{{incidentId}}',
+        action: 'track_vendor',
+      },
+    },
+    sms: "Sorry, we can't see your vendor's location right now. Our dispatchers are checking in with them. Track: {{trackingUrl}}",
+  },
+
   work_started: {
     push: {
       title: 'Work Started',
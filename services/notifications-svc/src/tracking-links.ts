@@ -0,0 +1,26 @@
+import { secretsManager } from '@roadcall/aws-clients';
+import { createTrackingToken, SecretValue } from '@roadcall/utils';
+
+const TRACKING_LINK_SECRET_NAME =
+  process.env.TRACKING_LINK_SECRET_NAME ||
+  `roadcall/tracking/${process.env.STAGE || 'dev'}/link-secret`;
+const WEB_APP_URL = process.env.WEB_APP_URL || 'https://app.roadcall.example.com';
+const TRACKING_LINK_TTL_SECONDS = 24 * 60 * 60; // Closing the incident revokes links sooner
+
+interface TrackingLinkSecrets {
+  secret: SecretValue;
+}
+
+/**
+ * Public tracking page URL for an incident, with a signed token so drivers
+ * and fleet managers can follow the vendor without logging in
+ */
+export async function createTrackingUrl(incidentId: string): Promise<string> {
+  const { secret } =
+    await secretsManager.getSecretJSON<TrackingLinkSecrets>(TRACKING_LINK_SECRET_NAME);
+  const token = createTrackingToken(incidentId, secret.getValue(), {
+    ttlSeconds: TRACKING_LINK_TTL_SECONDS,
+  });
+
+  return `${WEB_APP_URL}/track/${token}`;
+}
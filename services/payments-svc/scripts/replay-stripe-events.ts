@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+/**
+ * Stripe event replay script
+ * Re-fetch a payment's events from Stripe and apply any the webhook missed
+ * or failed to handle. Stripe keeps events for 30 days.
+ *
+ * Usage:
+ *   AURORA_SECRET_ARN=<secret-arn> AURORA_ENDPOINT=<endpoint> STRIPE_SECRET_NAME=<secret-name> \
+ *     ts-node scripts/replay-stripe-events.ts <payment-id>
+ */
+
+import { closePool } from '../src/db-connection';
+import { replayPaymentEvents } from '../src/handlers/stripe-webhook';
+
+async function replayStripeEvents(paymentId: string) {
+  console.log(`Replaying Stripe events for payment ${paymentId}...`);
+
+  try {
+    const results = await replayPaymentEvents(paymentId);
+
+    for (const result of results) {
+      const outcome = result.applied ? 'applied' : 'already handled';
+      console.log(`  ${result.eventId} ${result.type}: ${outcome}`);
+    }
+
+    const applied = results.filter((result) => result.applied).length;
+    console.log(`✓ ${results.length} events found, ${applied} applied`);
+  } catch (error) {
+    console.error('✗ Failed to replay Stripe events:', error);
+    process.exit(1);
+  } finally {
+    await closePool();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const paymentId = process.argv[2];
+
+  if (!paymentId) {
+    console.error('Usage: ts-node scripts/replay-stripe-events.ts <payment-id>');
+    process.exit(1);
+  }
+
+  replayStripeEvents(paymentId)
+    .then(() => {
+      console.log('\nStripe event replay complete!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\nStripe event replay failed:', error);
+      process.exit(1);
+    });
+}
+
+export { replayStripeEvents };
@@ -0,0 +1,448 @@
+import type { Incident } from '@roadcall/types';
+
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    queryAll: jest.fn().mockResolvedValue([]),
+  },
+}));
+jest.mock('../db-connection', () => {
+  const query = jest.fn();
+  return { query, transaction: jest.fn((fn) => fn({ query })) };
+});
+
+import { dynamodb } from '@roadcall/aws-clients';
+import { query } from '../db-connection';
+import { Payment, PaymentLineItem, PaymentRefund } from '../payment-service';
+import {
+  BillableJob,
+  Invoice,
+  InvoiceLine,
+  buildInvoiceLines,
+  calculateInvoiceTotals,
+  canTransitionInvoice,
+  canViewInvoice,
+  generateInvoice,
+  getBillingPeriod,
+  getIncidentClosedAt,
+  getInvoiceDueDate,
+  getPreviousBillingPeriod,
+  updateInvoiceStatus,
+} from '../invoice-service';
+import {
+  LedgerLine,
+  paymentApprovedEntry,
+  paymentCreatedEntry,
+  refundEntry,
+  summarizeTrialBalance,
+  vendorTransferEntry,
+} from '../ledger-service';
+import { formatInvoiceAmount, renderInvoiceCsv, renderInvoicePdf } from '../invoice-render';
+
+const createPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  paymentId: 'payment-1',
+  incidentId: 'incident-1',
+  vendorId: 'vendor-123',
+  payerType: 'back_office',
+  amountCents: 27500,
+  currency: 'USD',
+  status: 'completed',
+  platformFeeCents: 2750,
+  metadata: { serviceType: 'towing', workCompletedAt: '2026-09-12T15:30:00.000Z' },
+  createdAt: '2026-09-12T15:31:00.000Z',
+  updatedAt: '2026-09-12T15:31:00.000Z',
+  ...overrides,
+});
+
+const lineItem = (
+  paymentId: string,
+  description: string,
+  unitPriceCents: number,
+  quantity = 1
+): PaymentLineItem => ({
+  lineItemId: `${paymentId}-${description}`,
+  paymentId,
+  description,
+  quantity,
+  unitPriceCents,
+  totalCents: unitPriceCents * quantity,
+  createdAt: '2026-09-12T15:31:00.000Z',
+});
+
+const createIncident = (overrides: Partial<Incident> = {}): Incident =>
+  ({
+    incidentId: 'incident-1',
+    driverId: 'driver-1',
+    companyId: 'company-123',
+    type: 'tow',
+    status: 'closed',
+    sla: { tier: 'priority', pricingMultiplier: 1.25 },
+    timeline: [
+      { from: 'created', to: 'vendor_assigned', timestamp: '2026-09-12T14:00:00.000Z', actor: 'x' },
+      { from: 'payment_pending', to: 'closed', timestamp: '2026-09-13T09:00:00.000Z', actor: 'x' },
+    ],
+    media: [],
+    createdAt: '2026-09-12T13:55:00.000Z',
+    updatedAt: '2026-09-14T00:00:00.000Z',
+    ...overrides,
+  }) as Incident;
+
+describe('billing periods', () => {
+  it('bounds a month in UTC', () => {
+    expect(getBillingPeriod('2026-09')).toEqual({
+      period: '2026-09',
+      start: '2026-09-01T00:00:00.000Z',
+      end: '2026-10-01T00:00:00.000Z',
+    });
+    expect(getBillingPeriod('2026-12').end).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('rejects anything that is not a month', () => {
+    expect(() => getBillingPeriod('2026-13')).toThrow('YYYY-MM');
+    expect(() => getBillingPeriod('2026-9')).toThrow('YYYY-MM');
+  });
+
+  it('bills the month before the scheduler runs', () => {
+    expect(getPreviousBillingPeriod(new Date('2026-10-01T06:00:00.000Z'))).toBe('2026-09');
+    expect(getPreviousBillingPeriod(new Date('2027-01-01T06:00:00.000Z'))).toBe('2026-12');
+  });
+
+  it('dates an incident by when it was closed', () => {
+    expect(getIncidentClosedAt(createIncident())).toBe('2026-09-13T09:00:00.000Z');
+    expect(getIncidentClosedAt(createIncident({ timeline: [] }))).toBe('2026-09-14T00:00:00.000Z');
+  });
+});
+
+describe('invoice lines', () => {
+  const tow: BillableJob = {
+    payment: createPayment(),
+    lineItems: [
+      lineItem('payment-1', 'towing - Base Service', 20000),
+      lineItem('payment-1', 'Mileage Charge', 2000),
+      lineItem('payment-1', 'priority SLA Premium (x1.25)', 5500),
+    ],
+    incident: createIncident(),
+    driver: { driverId: 'driver-1', name: 'Dana Reyes' },
+  };
+  const tire: BillableJob = {
+    payment: createPayment({
+      paymentId: 'payment-2',
+      incidentId: 'incident-2',
+      amountCents: 9000,
+      metadata: {
+        workCompletedAt: '2026-09-03T10:00:00.000Z',
+        slaTier: 'standard',
+        slaMultiplier: 1,
+      },
+    }),
+    lineItems: [],
+    driver: { driverId: 'driver-2', name: 'Sam Ortiz' },
+  };
+
+  it('lists line items in service date order with the driver and SLA', () => {
+    const lines = buildInvoiceLines([tow, tire]);
+
+    expect(lines.map((line) => [line.position, line.description, line.totalCents])).toEqual([
+      [1, 'Roadside service', 9000],
+      [2, 'towing - Base Service', 20000],
+      [3, 'Mileage Charge', 2000],
+      [4, 'priority SLA Premium (x1.25)', 5500],
+    ]);
+    expect(lines[0]).toMatchObject({
+      paymentId: 'payment-2',
+      driverName: 'Sam Ortiz',
+      serviceDate: '2026-09-03',
+      slaTier: 'standard',
+      slaMultiplier: 1,
+    });
+    // Falls back to the incident's SLA when pricing did not record one
+    expect(lines[1]).toMatchObject({
+      incidentId: 'incident-1',
+      driverId: 'driver-1',
+      serviceDate: '2026-09-12',
+      slaTier: 'priority',
+      slaMultiplier: 1.25,
+    });
+  });
+
+  it('credits refunds after the billed lines', () => {
+    const refund: PaymentRefund = {
+      refundId: 'refund-1',
+      paymentId: 'payment-1',
+      source: 'transfer_reversal',
+      amountCents: 5500,
+      reason: 'arrived late',
+      createdBy: 'admin-123',
+      createdAt: '2026-09-20T08:00:00.000Z',
+    };
+    const lines = buildInvoiceLines([tire], [{ refund, job: tow }]);
+
+    expect(lines[1]).toEqual({
+      paymentId: 'payment-1',
+      incidentId: 'incident-1',
+      driverId: 'driver-1',
+      driverName: 'Dana Reyes',
+      serviceDate: '2026-09-20',
+      description: 'Credit: refund (arrived late)',
+      quantity: 1,
+      unitPriceCents: -5500,
+      totalCents: -5500,
+      refundId: 'refund-1',
+      position: 2,
+    });
+  });
+
+  it('applies each tax to the subtotal and leaves credit balances untaxed', () => {
+    const rules = {
+      taxes: [
+        { name: 'State sales tax', ratePercent: 6.25 },
+        { name: 'County tax', ratePercent: 1 },
+      ],
+      paymentTermsDays: 30,
+    };
+
+    expect(calculateInvoiceTotals([{ totalCents: 27500 }, { totalCents: 9000 }], rules)).toEqual({
+      subtotalCents: 36500,
+      taxes: [
+        { name: 'State sales tax', ratePercent: 6.25, amountCents: 2281 },
+        { name: 'County tax', ratePercent: 1, amountCents: 365 },
+      ],
+      taxCents: 2646,
+      totalCents: 39146,
+    });
+    expect(calculateInvoiceTotals([{ totalCents: -5500 }], rules)).toMatchObject({
+      taxCents: 0,
+      totalCents: -5500,
+    });
+  });
+});
+
+describe('invoice generation', () => {
+  it("reads every page of a company's drivers and their closed incidents", async () => {
+    (dynamodb.queryAll as jest.Mock).mockResolvedValueOnce([{ driverId: 'driver-1' }]);
+
+    await expect(generateInvoice('company-123', '2026-09', 'admin-1')).resolves.toBeNull();
+
+    expect(dynamodb.queryAll).toHaveBeenCalledWith(
+      expect.any(String),
+      'driverId = :driverId AND #status = :status',
+      { ':driverId': 'driver-1', ':status': 'closed' },
+      'driver-status-index',
+      { '#status': 'status' }
+    );
+  });
+});
+
+describe('invoice status', () => {
+  it('goes from draft to sent to paid, with overdue in between', () => {
+    expect(canTransitionInvoice('draft', 'sent')).toBe(true);
+    expect(canTransitionInvoice('sent', 'overdue')).toBe(true);
+    expect(canTransitionInvoice('overdue', 'paid')).toBe(true);
+    expect(canTransitionInvoice('draft', 'paid')).toBe(false);
+    expect(canTransitionInvoice('paid', 'sent')).toBe(false);
+  });
+
+  it('falls due after the payment terms', () => {
+    expect(getInvoiceDueDate('2026-10-01T09:00:00.000Z', 30)).toBe('2026-10-31');
+    expect(getInvoiceDueDate('2026-12-15T23:30:00.000Z', 30)).toBe('2027-01-14');
+  });
+
+  it('shows a company its own invoices once they are sent', () => {
+    const invoice = { companyId: 'company-123', status: 'sent' as const };
+
+    expect(canViewInvoice(invoice, 'dispatcher', 'company-123')).toBe(true);
+    expect(canViewInvoice(invoice, 'dispatcher', 'company-456')).toBe(false);
+    expect(canViewInvoice({ ...invoice, status: 'draft' }, 'dispatcher', 'company-123')).toBe(
+      false
+    );
+    expect(canViewInvoice({ ...invoice, status: 'draft' }, 'admin')).toBe(true);
+    expect(canViewInvoice(invoice, 'driver', 'company-123')).toBe(false);
+  });
+});
+
+describe('invoice collection', () => {
+  // A $275.00 tow, and a $200.00 job the company was refunded $50.00 on
+  const tow = createPayment({ payerId: 'company-123' });
+  const repair = createPayment({
+    paymentId: 'payment-2',
+    payerId: 'company-123',
+    amountCents: 20000,
+    platformFeeCents: 2000,
+  });
+  const credit: PaymentRefund = {
+    refundId: 'refund-1',
+    paymentId: 'payment-2',
+    source: 'transfer_reversal',
+    amountCents: 5000,
+    createdBy: 'admin-1',
+    createdAt: '2026-09-20T10:00:00.000Z',
+  };
+
+  it("settles the company's receivable for each payment the invoice billed", async () => {
+    const posted: LedgerLine[] = [
+      paymentCreatedEntry(tow),
+      paymentApprovedEntry(tow),
+      vendorTransferEntry(tow, 'tr_1', 24750),
+      paymentCreatedEntry(repair),
+      paymentApprovedEntry(repair),
+      vendorTransferEntry(repair, 'tr_2', 18000),
+      refundEntry(repair, credit, 4500),
+    ].flatMap((entry) => entry.lines);
+
+    const invoiceRow = {
+      invoice_id: 'invoice-1',
+      company_id: 'company-123',
+      status: 'sent',
+      currency: 'USD',
+      created_at: new Date('2026-10-01T06:00:00.000Z'),
+      updated_at: new Date('2026-10-01T06:00:00.000Z'),
+    };
+    (query as jest.Mock).mockImplementation(async (sql: string, params: unknown[]) => {
+      if (sql.includes('FOR UPDATE')) {
+        return { rows: [invoiceRow] };
+      }
+      if (sql.includes('UPDATE invoices')) {
+        return { rows: [{ ...invoiceRow, status: 'paid' }] };
+      }
+      if (sql.includes('FROM invoice_lines l')) {
+        // Net of the billed lines and refund credits per payment
+        return {
+          rows: [
+            {
+              payment_id: 'payment-1',
+              payer_id: 'company-123',
+              currency: 'USD',
+              total_cents: '27500',
+            },
+            {
+              payment_id: 'payment-2',
+              payer_id: 'company-123',
+              currency: 'USD',
+              total_cents: '15000',
+            },
+          ],
+        };
+      }
+      if (sql.includes('INSERT INTO ledger_entries')) {
+        return { rows: [{ entry_id: params[0], payment_id: params[1], entry_type: params[2] }] };
+      }
+      if (sql.includes('INSERT INTO ledger_lines')) {
+        const [, , account, partyId, amountCents, currency] = params as [
+          string,
+          string,
+          LedgerLine['account'],
+          string | null,
+          number,
+          string,
+        ];
+        posted.push({ account, ...(partyId && { partyId }), amountCents, currency });
+      }
+      return { rows: [] };
+    });
+
+    const invoice = await updateInvoiceStatus('invoice-1', 'paid', 'admin-1');
+
+    expect(invoice.status).toBe('paid');
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO ledger_entries'), [
+      expect.any(String),
+      'payment-2',
+      'invoice_collected',
+      'invoice-1',
+      expect.any(String),
+      'admin-1',
+    ]);
+
+    const balance = summarizeTrialBalance(posted);
+    expect(balance.totalCents).toBe(0);
+    expect(balance.accounts.find((row) => row.account === 'company_receivable')).toMatchObject({
+      balanceCents: 0,
+    });
+    expect(balance.accounts.find((row) => row.account === 'stripe_balance')).toMatchObject({
+      balanceCents: 27500 + 15000 - 24750 - 18000 + 4500,
+    });
+  });
+});
+
+describe('invoice documents', () => {
+  const invoice: Invoice = {
+    invoiceId: 'invoice-1',
+    invoiceNumber: 'INV-202609-ABCD1234',
+    companyId: 'company-123',
+    companyName: 'Acme Freight (West)',
+    period: '2026-09',
+    status: 'sent',
+    currency: 'USD',
+    subtotalCents: 127500,
+    taxCents: 7969,
+    totalCents: 135469,
+    taxes: [{ name: 'State sales tax', ratePercent: 6.25, amountCents: 7969 }],
+    dueDate: '2026-10-31',
+    createdBy: 'system',
+    createdAt: '2026-10-01T06:00:00.000Z',
+    updatedAt: '2026-10-01T09:00:00.000Z',
+  };
+
+  const lines: InvoiceLine[] = Array.from({ length: 40 }, (_, index) => ({
+    invoiceLineId: `line-${index + 1}`,
+    invoiceId: 'invoice-1',
+    paymentId: `payment-${index + 1}`,
+    incidentId: `incident-${index + 1}`,
+    driverName: 'Dana Reyes',
+    serviceDate: '2026-09-12',
+    description: index === 0 ? 'Tire repair, "rush"' : 'Mileage Charge',
+    quantity: 1,
+    unitPriceCents: 3187,
+    totalCents: 3187,
+    ...(index === 0 && { slaTier: 'priority', slaMultiplier: 1.25 }),
+    position: index + 1,
+  }));
+
+  it('formats amounts with thousands separators', () => {
+    expect(formatInvoiceAmount(135469)).toBe('$1,354.69');
+    expect(formatInvoiceAmount(-5500)).toBe('-$55.00');
+    expect(formatInvoiceAmount(0)).toBe('$0.00');
+  });
+
+  it('renders a CSV row per line followed by the totals', () => {
+    const rows = renderInvoiceCsv(invoice, lines.slice(0, 2)).trimEnd().split('\r\n');
+
+    expect(rows[0]).toBe(
+      'Invoice Number,Service Date,Incident,Driver,Description,SLA Tier,SLA Multiplier,Quantity,Unit Price,Amount'
+    );
+    expect(rows[1]).toBe(
+      'INV-202609-ABCD1234,2026-09-12,incident-1,Dana Reyes,"Tire repair, ""rush""",priority,1.25,1,31.87,31.87'
+    );
+    expect(rows.slice(3)).toEqual([
+      'INV-202609-ABCD1234,,,,,,,,Subtotal,1275.00',
+      'INV-202609-ABCD1234,,,,,,,,State sales tax (6.25%),79.69',
+      'INV-202609-ABCD1234,,,,,,,,Total USD,1354.69',
+    ]);
+  });
+
+  it('renders a PDF over several pages with a valid cross-reference table', () => {
+    const pdf = renderInvoicePdf(invoice, lines).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Acme Freight \\(West\\)) Tj');
+    expect(pdf).toContain('($1,354.69) Tj');
+    expect(pdf).toContain('(Page 2 of 2) Tj');
+
+    // Every xref entry points at its object
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    const xref = pdf.slice(xrefOffset).split('\n');
+    const count = Number(xref[1].split(' ')[1]);
+    for (let id = 1; id < count; id++) {
+      const offset = Number(xref[2 + id].slice(0, 10));
+      expect(pdf.slice(offset, offset + `${id} 0 obj`.length)).toBe(`${id} 0 obj`);
+    }
+
+    // Stream lengths match their content
+    for (const match of pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+      const start = match.index! + match[0].length;
+      expect(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe(
+        '\nendstream'
+      );
+    }
+  });
+});
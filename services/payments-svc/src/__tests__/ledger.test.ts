@@ -0,0 +1,250 @@
+process.env.STRIPE_API_KEY = 'sk_test_local';
+process.env.STRIPE_CONNECT_ENABLED = 'true';
+
+import type Stripe from 'stripe';
+
+jest.mock('stripe', () => jest.requireActual('./local-stripe').LocalStripe);
+jest.mock('../payment-service', () => jest.requireActual('./local-payments').localPaymentService);
+jest.mock('../events', () => ({
+  publishPaymentRefunded: jest.fn().mockResolvedValue(undefined),
+  publishPaymentDisputed: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { Payment, PaymentRefund, updatePayment } from '../payment-service';
+import {
+  LedgerAccount,
+  getPlatformFeeCents,
+  getVendorShareCents,
+  paymentApprovedEntry,
+  paymentCollectedEntry,
+  paymentCreatedEntry,
+  refundEntry,
+  summarizeTrialBalance,
+  vendorTransferEntry,
+} from '../ledger-service';
+import { issueRefund } from '../refund-service';
+import { handleWebhookEvent } from '../handlers/stripe-webhook';
+import { LocalStripe } from './local-stripe';
+import { store } from './local-payments';
+
+const localStripe: typeof LocalStripe = jest.requireMock('stripe');
+const payments: typeof store = jest.requireMock('../payment-service').store;
+
+const webhook = (type: string, object: Record<string, unknown>) =>
+  handleWebhookEvent({
+    id: LocalStripe.nextId('evt'),
+    type,
+    created: LocalStripe.created(),
+    data: { object },
+  } as unknown as Stripe.Event);
+
+// $200.00 job with a $20.00 platform margin
+const createPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  paymentId: 'payment-123',
+  incidentId: 'incident-123',
+  vendorId: 'vendor-123',
+  payerType: 'driver_ic',
+  payerId: 'driver-123',
+  amountCents: 20000,
+  currency: 'USD',
+  status: 'processing',
+  platformFeeCents: 2000,
+  createdAt: '2026-10-19T10:45:00.000Z',
+  updatedAt: '2026-10-19T10:45:00.000Z',
+  ...overrides,
+});
+
+const balances = () =>
+  Object.fromEntries(
+    summarizeTrialBalance(payments.ledgerLines()).accounts.map((row) => [
+      row.account,
+      row.balanceCents,
+    ])
+  ) as Partial<Record<LedgerAccount, number>>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  localStripe.reset();
+  payments.reset();
+});
+
+// The ledger invariant: every entry balances, so the trial balance sums to zero
+afterEach(() => {
+  for (const entry of payments.ledger) {
+    expect(entry.lines.reduce((sum, line) => sum + line.amountCents, 0)).toBe(0);
+  }
+  expect(summarizeTrialBalance(payments.ledgerLines()).totalCents).toBe(0);
+});
+
+describe('ledger amounts', () => {
+  it('takes the platform fee in basis points and gives the vendor the rest', () => {
+    expect(getPlatformFeeCents(20000, 1000)).toBe(2000);
+    expect(getPlatformFeeCents(999, 250)).toBe(25);
+    expect(getPlatformFeeCents(20000, 0)).toBe(0);
+
+    const payment = createPayment();
+    expect(getVendorShareCents(payment)).toBe(18000);
+    expect(getVendorShareCents(payment, 5000)).toBe(4500);
+    expect(getVendorShareCents(createPayment({ amountCents: 0, platformFeeCents: 0 }))).toBe(0);
+  });
+});
+
+describe('journal entries', () => {
+  const refund: PaymentRefund = {
+    refundId: 'refund-1',
+    paymentId: 'payment-123',
+    source: 'transfer_reversal',
+    amountCents: 5000,
+    createdBy: 'admin-123',
+    createdAt: '2026-10-19T11:00:00.000Z',
+  };
+
+  it('balances every entry and books the payer and vendor as parties', () => {
+    const payment = createPayment({ stripePaymentIntentId: 'pi_123', stripeFeeCents: 610 });
+    const entries = [
+      paymentCreatedEntry(payment),
+      paymentApprovedEntry(payment),
+      paymentCollectedEntry(payment),
+      vendorTransferEntry(payment, 'tr_123', 18000),
+      refundEntry(payment, refund, 4500),
+      refundEntry(payment, { ...refund, source: 'refund' }),
+    ];
+
+    for (const entry of entries) {
+      expect(entry.lines.reduce((sum, line) => sum + line.amountCents, 0)).toBe(0);
+    }
+
+    expect(entries[0].lines).toEqual([
+      { account: 'company_receivable', partyId: 'driver-123', amountCents: 20000, currency: 'USD' },
+      { account: 'vendor_payable', partyId: 'vendor-123', amountCents: -20000, currency: 'USD' },
+    ]);
+    expect(entries[2].reference).toBe('pi_123');
+    expect(entries[4].lines.map((line) => [line.account, line.amountCents])).toEqual([
+      ['stripe_balance', 4500],
+      ['refunds', 500],
+      ['company_receivable', -5000],
+    ]);
+  });
+
+  it('leaves out zero lines, so a payment without a margin has an empty approval', () => {
+    const payment = createPayment({ platformFeeCents: 0 });
+
+    expect(paymentApprovedEntry(payment).lines).toEqual([]);
+    expect(paymentCollectedEntry(payment).lines.map((line) => line.account)).toEqual([
+      'stripe_balance',
+      'company_receivable',
+    ]);
+  });
+});
+
+describe('payment lifecycle', () => {
+  it('collects a driver payment net of the Stripe fee and books a partial refund', async () => {
+    payments.addPayment(createPayment());
+    const charge = LocalStripe.charge('pi_123', 20000);
+
+    const succeeded = {
+      id: 'pi_123',
+      object: 'payment_intent',
+      amount: 20000,
+      latest_charge: charge.id,
+      metadata: { paymentId: 'payment-123' },
+    };
+    await webhook('payment_intent.succeeded', succeeded);
+    await webhook('payment_intent.succeeded', succeeded);
+
+    expect(payments.payments.get('payment-123')?.stripeFeeCents).toBe(610);
+    expect(balances()).toEqual({
+      company_receivable: 0,
+      vendor_payable: -18000,
+      platform_revenue: -2000,
+      stripe_balance: 19390,
+      stripe_fees: 610,
+    });
+
+    await issueRefund('payment-123', { amountCents: 5000 }, 'dispatcher-123');
+    await webhook('charge.refunded', { id: charge.id, payment_intent: 'pi_123' });
+
+    expect(payments.ledger.filter((entry) => entry.entryType === 'refund')).toHaveLength(1);
+    expect(balances()).toMatchObject({
+      vendor_payable: -18000,
+      stripe_balance: 14390,
+      refunds: 5000,
+    });
+  });
+
+  it('pays a back-office vendor their share and claws it back on a full refund', async () => {
+    payments.addPayment(createPayment({ payerType: 'back_office', payerId: 'company-123' }));
+
+    await webhook('transfer.created', {
+      id: 'tr_123',
+      object: 'transfer',
+      amount: 18000,
+      destination: 'acct_vendor',
+      metadata: { paymentId: 'payment-123' },
+    });
+
+    expect(balances()).toEqual({
+      company_receivable: 20000,
+      vendor_payable: 0,
+      platform_revenue: -2000,
+      stripe_balance: -18000,
+    });
+
+    payments.payments.get('payment-123')!.status = 'completed';
+    await issueRefund('payment-123', {}, 'admin-123', 'admin');
+
+    // Only the vendor's share was ever transferred, so only that is reversed
+    expect(LocalStripe.reversals).toEqual([expect.objectContaining({ amount: 18000 })]);
+
+    await webhook('transfer.reversed', {
+      id: 'tr_123',
+      object: 'transfer',
+      amount: 18000,
+      metadata: { paymentId: 'payment-123' },
+      reversals: { data: LocalStripe.reversals },
+    });
+
+    expect(payments.payments.get('payment-123')?.status).toBe('refunded');
+    expect(balances()).toEqual({
+      company_receivable: 0,
+      vendor_payable: 0,
+      platform_revenue: -2000,
+      refunds: 2000,
+      stripe_balance: 0,
+    });
+  });
+
+  it('voids a cancelled payment back to zero', async () => {
+    payments.addPayment(createPayment({ status: 'approved' }));
+
+    await updatePayment('payment-123', { status: 'cancelled' }, 'dispatcher-123', 'user');
+
+    expect(payments.ledger.map((entry) => entry.entryType)).toEqual([
+      'payment_created',
+      'payment_approved',
+      'payment_voided',
+    ]);
+    expect(payments.ledger[2].lines.map((line) => [line.account, line.amountCents])).toEqual([
+      ['company_receivable', -20000],
+      ['vendor_payable', 18000],
+      ['platform_revenue', 2000],
+    ]);
+    expect(Object.values(balances()).every((balance) => balance === 0)).toBe(true);
+  });
+
+  it('keeps a failed payment on the ledger once money has moved', async () => {
+    const payment = createPayment({ payerType: 'back_office', stripeTransferId: 'tr_123' });
+    payments.addPayment(payment);
+    payments.ledger.push(vendorTransferEntry(payment, 'tr_123', 18000));
+
+    await updatePayment('payment-123', { status: 'failed' }, 'stripe_webhook');
+
+    expect(payments.ledger.map((entry) => entry.entryType)).not.toContain('payment_voided');
+  });
+});
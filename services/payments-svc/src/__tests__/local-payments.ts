@@ -0,0 +1,256 @@
+import { ConflictError } from '@roadcall/utils';
+import type {
+  ClaimStripeEventInput,
+  Payment,
+  PaymentDispute,
+  PaymentLineItem,
+  PaymentRefund,
+  RecordRefundInput,
+  UpdatePaymentInput,
+  UpsertDisputeInput,
+} from '../payment-service';
+import type { JournalEntry, LedgerLine } from '../ledger-service';
+
+// Local Aurora stand-in for payment-service: the same reads and writes kept in
+// memory, with the unique Stripe IDs on refunds and disputes enforced like the
+// schema does, the same journal entries posted to an in-memory ledger, and
+// Stripe events claimed once by ID.
+// Tests reach the rows through jest.requireMock('../payment-service').store.
+
+const actual = jest.requireActual('../payment-service');
+const ledger = jest.requireActual('../ledger-service');
+
+export const store = {
+  payments: new Map<string, Payment>(),
+  lineItems: new Map<string, PaymentLineItem[]>(),
+  refunds: [] as PaymentRefund[],
+  disputes: [] as PaymentDispute[],
+  audit: [] as Array<{ paymentId: string; action: string; actorId: string }>,
+  ledger: [] as JournalEntry[],
+  events: new Map<
+    string,
+    { eventType: string; status: string; attempts: number; error?: string }
+  >(),
+
+  reset(): void {
+    store.payments.clear();
+    store.lineItems.clear();
+    store.refunds = [];
+    store.disputes = [];
+    store.audit = [];
+    store.ledger = [];
+    store.events.clear();
+  },
+
+  // Posts the entries createPayment and approvePayment would have
+  addPayment(payment: Payment, lineItems: PaymentLineItem[] = []): void {
+    store.payments.set(payment.paymentId, { ...payment });
+    store.lineItems.set(payment.paymentId, lineItems);
+    post(ledger.paymentCreatedEntry(payment));
+    if (payment.status !== 'pending_approval') {
+      post(ledger.paymentApprovedEntry(payment));
+    }
+  },
+
+  ledgerLines(paymentId?: string): LedgerLine[] {
+    return store.ledger
+      .filter((entry) => !paymentId || entry.paymentId === paymentId)
+      .flatMap((entry) => entry.lines);
+  },
+};
+
+function post(entry: JournalEntry | null): void {
+  const posted = store.ledger.some(
+    (e) =>
+      e.paymentId === entry?.paymentId &&
+      e.entryType === entry.entryType &&
+      e.reference === entry.reference
+  );
+  if (entry && entry.lines.length > 0 && !posted) {
+    store.ledger.push(entry);
+  }
+}
+
+function netLines(paymentId: string): LedgerLine[] {
+  const net = new Map<string, LedgerLine>();
+  for (const line of store.ledgerLines(paymentId)) {
+    const key = `${line.account}:${line.partyId}:${line.currency}`;
+    const current = net.get(key) || { ...line, amountCents: 0 };
+    current.amountCents += line.amountCents;
+    net.set(key, current);
+  }
+  return [...net.values()];
+}
+
+let sequence = 0;
+const now = () => new Date(Date.UTC(2026, 9, 19, 12, 0, ++sequence)).toISOString();
+
+async function getPaymentById(paymentId: string) {
+  const payment = store.payments.get(paymentId);
+  return payment
+    ? { payment: { ...payment }, lineItems: store.lineItems.get(paymentId) || [] }
+    : null;
+}
+
+async function getPaymentByStripePaymentIntentId(paymentIntentId: string) {
+  const payment = [...store.payments.values()].find(
+    (p) => p.stripePaymentIntentId === paymentIntentId
+  );
+  return payment ? { ...payment } : null;
+}
+
+async function updatePayment(paymentId: string, input: UpdatePaymentInput, actorId: string) {
+  const payment = store.payments.get(paymentId);
+  if (!payment) {
+    throw new Error(`Payment not found: ${paymentId}`);
+  }
+
+  if (
+    input.stripeEventAt !== undefined &&
+    actual.isStaleStripeEvent(payment, input.status ?? payment.status, input.stripeEventAt)
+  ) {
+    throw new ConflictError(`Stale Stripe event for payment ${paymentId}`);
+  }
+
+  const previous = { ...payment };
+  const { vendorTransferredCents, ...fields } = input;
+  Object.assign(payment, fields, { updatedAt: now() });
+  store.audit.push({ paymentId, action: 'payment_updated', actorId });
+
+  ledger.getPaymentUpdateEntries(previous, payment, vendorTransferredCents).forEach(post);
+  if (ledger.isPaymentVoided(previous, payment)) {
+    post(ledger.paymentVoidedEntry(payment, netLines(paymentId)));
+  }
+  return { ...payment };
+}
+
+async function recordRefund(paymentId: string, input: RecordRefundInput, actorId: string) {
+  const payment = store.payments.get(paymentId);
+  if (!payment) {
+    throw new Error(`Payment not found: ${paymentId}`);
+  }
+
+  const duplicate = store.refunds.some(
+    (r) =>
+      (input.stripeRefundId && r.stripeRefundId === input.stripeRefundId) ||
+      (input.stripeTransferReversalId &&
+        r.stripeTransferReversalId === input.stripeTransferReversalId &&
+        r.paymentId === paymentId) ||
+      (input.stripeDisputeId && r.stripeDisputeId === input.stripeDisputeId)
+  );
+  if (duplicate) {
+    return { payment: { ...payment }, refund: null };
+  }
+
+  const refundedCents = (await getPaymentRefunds(paymentId)).reduce(
+    (sum, r) => sum + r.amountCents,
+    0
+  );
+  const { fullyRefunded } = actual.getRefundOutcome(
+    payment.amountCents,
+    refundedCents,
+    input.amountCents
+  );
+
+  const { vendorRecoveredCents, ...fields } = input;
+  const refund: PaymentRefund = {
+    refundId: `refund-${store.refunds.length + 1}`,
+    paymentId,
+    ...fields,
+    createdBy: actorId,
+    createdAt: now(),
+  };
+  store.refunds.push(refund);
+  post(ledger.refundEntry(payment, refund, vendorRecoveredCents));
+  if (fullyRefunded) {
+    payment.status = 'refunded';
+  }
+  store.audit.push({
+    paymentId,
+    action: fullyRefunded ? 'payment_refunded' : 'payment_partially_refunded',
+    actorId,
+  });
+
+  return { payment: { ...payment }, refund };
+}
+
+async function getPaymentRefunds(paymentId: string) {
+  return store.refunds.filter((r) => r.paymentId === paymentId);
+}
+
+async function upsertDispute(paymentId: string, input: UpsertDisputeInput, actorId: string) {
+  const current = store.disputes.find((d) => d.stripeDisputeId === input.stripeDisputeId);
+
+  if (current) {
+    const previousStatus = current.status;
+    Object.assign(current, input, { updatedAt: now() });
+    if (previousStatus !== input.status) {
+      store.audit.push({ paymentId, action: `dispute_${input.status}`, actorId });
+    }
+    return { dispute: { ...current }, created: false, previousStatus };
+  }
+
+  const dispute: PaymentDispute = {
+    disputeId: `dispute-${store.disputes.length + 1}`,
+    paymentId,
+    ...input,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  store.disputes.push(dispute);
+  store.audit.push({ paymentId, action: 'dispute_opened', actorId });
+  return { dispute: { ...dispute }, created: true };
+}
+
+async function saveDisputeEvidence(
+  disputeId: string,
+  evidence: Record<string, any>,
+  submitted: boolean
+) {
+  const dispute = store.disputes.find((d) => d.disputeId === disputeId)!;
+  dispute.evidence = evidence;
+  if (submitted) {
+    dispute.evidenceSubmittedAt = now();
+  }
+  return { ...dispute };
+}
+
+async function getPaymentDisputes(paymentId: string) {
+  return store.disputes.filter((d) => d.paymentId === paymentId).map((d) => ({ ...d }));
+}
+
+// A processing event never stalls here, so only failed events are claimed again
+async function claimStripeEvent(input: ClaimStripeEventInput) {
+  const current = store.events.get(input.eventId);
+  if (current && current.status !== 'failed') {
+    return false;
+  }
+
+  store.events.set(input.eventId, {
+    eventType: input.eventType,
+    status: 'processing',
+    attempts: (current?.attempts || 0) + 1,
+  });
+  return true;
+}
+
+async function finishStripeEvent(eventId: string, error?: string) {
+  const event = store.events.get(eventId)!;
+  event.status = error ? 'failed' : 'processed';
+  event.error = error;
+}
+
+export const localPaymentService = {
+  ...actual,
+  store,
+  getPaymentById,
+  getPaymentByStripePaymentIntentId,
+  updatePayment,
+  recordRefund,
+  getPaymentRefunds,
+  upsertDispute,
+  saveDisputeEvidence,
+  getPaymentDisputes,
+  claimStripeEvent,
+  finishStripeEvent,
+};
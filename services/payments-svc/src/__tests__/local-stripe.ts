@@ -0,0 +1,236 @@
+// Local Stripe stand-in: the parts of the Stripe API payments-svc calls, kept
+// in memory. Requests with an idempotency key replay their first response,
+// like Stripe does. Tests reach the state through jest.requireMock('stripe').
+
+type Params = Record<string, any>;
+type Options = { idempotencyKey?: string; stripeAccount?: string } | undefined;
+
+export class LocalStripe {
+  static charges: Params[] = [];
+  static refunds: Params[] = [];
+  static reversals: Params[] = [];
+  static transfers: Params[] = [];
+  static payouts: Params[] = [];
+  static files: Params[] = [];
+  static disputeUpdates: Array<{ disputeId: string; params: Params }> = [];
+  static events: Params[] = [];
+  private static responses = new Map<string, Params>();
+  private static sequence = 0;
+
+  static reset(): void {
+    LocalStripe.charges = [];
+    LocalStripe.refunds = [];
+    LocalStripe.reversals = [];
+    LocalStripe.transfers = [];
+    LocalStripe.payouts = [];
+    LocalStripe.files = [];
+    LocalStripe.disputeUpdates = [];
+    LocalStripe.events = [];
+    LocalStripe.responses.clear();
+  }
+
+  // Ids and created timestamps both increase, so objects sort in creation order
+  static nextId(prefix: string): string {
+    return `${prefix}_local${++LocalStripe.sequence}`;
+  }
+
+  static created(): number {
+    return 1760000000 + LocalStripe.sequence;
+  }
+
+  // Errors carry their class name in `type`, like the Stripe library's
+  static error(type: string, message: string): Error {
+    return Object.assign(new Error(message), { type });
+  }
+
+  // A settled card charge with Stripe's standard 2.9% + 30c fee
+  static charge(paymentIntentId: string, amount: number): Params {
+    const charge = {
+      id: LocalStripe.nextId('ch'),
+      object: 'charge',
+      amount,
+      payment_intent: paymentIntentId,
+      balance_transaction: {
+        id: LocalStripe.nextId('txn'),
+        object: 'balance_transaction',
+        amount,
+        fee: Math.round(amount * 0.029) + 30,
+      },
+      created: LocalStripe.created(),
+    };
+    LocalStripe.charges.push(charge);
+    return charge;
+  }
+
+  // An event as Stripe would send it to the webhook, kept for events.list
+  static event(type: string, object: Params): Params {
+    const event = {
+      id: LocalStripe.nextId('evt'),
+      object: 'event',
+      type,
+      data: { object },
+      created: LocalStripe.created(),
+    };
+    LocalStripe.events.push(event);
+    return event;
+  }
+
+  private static once(options: Options, create: () => Params): Params {
+    const key = options?.idempotencyKey;
+    if (key && LocalStripe.responses.has(key)) {
+      return LocalStripe.responses.get(key)!;
+    }
+
+    const response = create();
+    if (key) {
+      LocalStripe.responses.set(key, response);
+    }
+    return response;
+  }
+
+  charges = {
+    retrieve: async (chargeId: string) => {
+      const charge = LocalStripe.charges.find((c) => c.id === chargeId);
+      if (!charge) {
+        throw new Error(`No such charge: ${chargeId}`);
+      }
+      return charge;
+    },
+  };
+
+  refunds = {
+    create: async (params: Params, options?: Options) =>
+      LocalStripe.once(options, () => {
+        const refund = {
+          id: LocalStripe.nextId('re'),
+          object: 'refund',
+          amount: params.amount,
+          payment_intent: params.payment_intent,
+          reason: params.reason || null,
+          status: 'succeeded',
+          metadata: params.metadata || {},
+          created: LocalStripe.created(),
+        };
+        LocalStripe.refunds.push(refund);
+        return refund;
+      }),
+    list: async (params: Params) => ({
+      object: 'list',
+      data: LocalStripe.refunds.filter((r) => r.payment_intent === params.payment_intent),
+      has_more: false,
+    }),
+  };
+
+  transfers = {
+    create: async (params: Params, options?: Options) =>
+      LocalStripe.once(options, () => {
+        if (params.destination === 'acct_closed') {
+          throw LocalStripe.error(
+            'StripeInvalidRequestError',
+            'Your destination account has been closed'
+          );
+        }
+        const transfer = {
+          id: LocalStripe.nextId('tr'),
+          object: 'transfer',
+          amount: params.amount,
+          currency: params.currency,
+          destination: params.destination,
+          transfer_group: params.transfer_group || null,
+          metadata: params.metadata || {},
+          created: LocalStripe.created(),
+        };
+        LocalStripe.transfers.push(transfer);
+        // Made, but the response never reached us
+        if (params.destination === 'acct_unreachable') {
+          throw LocalStripe.error('StripeConnectionError', 'Request timed out');
+        }
+        return transfer;
+      }),
+    list: async (params: Params) => ({
+      object: 'list',
+      data: LocalStripe.transfers
+        .filter((t) => !params.transfer_group || t.transfer_group === params.transfer_group)
+        .slice(0, params.limit),
+      has_more: false,
+    }),
+    createReversal: async (transferId: string, params: Params, options?: Options) =>
+      LocalStripe.once(options, () => {
+        const reversal = {
+          id: LocalStripe.nextId('trr'),
+          object: 'transfer_reversal',
+          amount: params.amount,
+          transfer: transferId,
+          metadata: params.metadata || {},
+          created: LocalStripe.created(),
+        };
+        LocalStripe.reversals.push(reversal);
+        return reversal;
+      }),
+  };
+
+  // Payouts are made from the connected account named in the request options
+  payouts = {
+    create: async (params: Params, options?: Options) =>
+      LocalStripe.once(options, () => {
+        const payout = {
+          id: LocalStripe.nextId('po'),
+          object: 'payout',
+          amount: params.amount,
+          currency: params.currency,
+          method: params.method || 'standard',
+          status: 'pending',
+          account: options?.stripeAccount,
+          metadata: params.metadata || {},
+          failure_code: null,
+          failure_message: null,
+          created: LocalStripe.created(),
+        };
+        LocalStripe.payouts.push(payout);
+        return payout;
+      }),
+  };
+
+  files = {
+    create: async (params: Params) => {
+      const file = {
+        id: LocalStripe.nextId('file'),
+        object: 'file',
+        purpose: params.purpose,
+        filename: params.file.name,
+        type: params.file.type,
+        size: params.file.data.length,
+      };
+      LocalStripe.files.push(file);
+      return file;
+    },
+  };
+
+  // Newest first, a page at a time, like Stripe lists them
+  events = {
+    list: async (params: Params) => {
+      const events = LocalStripe.events
+        .filter((e) => !params.created?.gte || e.created >= params.created.gte)
+        .reverse();
+      const start = params.starting_after
+        ? events.findIndex((e) => e.id === params.starting_after) + 1
+        : 0;
+      return {
+        object: 'list',
+        data: events.slice(start, start + params.limit),
+        has_more: start + params.limit < events.length,
+      };
+    },
+  };
+
+  disputes = {
+    update: async (disputeId: string, params: Params) => {
+      LocalStripe.disputeUpdates.push({ disputeId, params });
+      return {
+        id: disputeId,
+        object: 'dispute',
+        status: params.submit ? 'under_review' : 'needs_response',
+      };
+    },
+  };
+}
@@ -0,0 +1,458 @@
+process.env.STRIPE_API_KEY = 'sk_test_local';
+process.env.STRIPE_CONNECT_ENABLED = 'true';
+
+import type Stripe from 'stripe';
+
+jest.mock('stripe', () => jest.requireActual('./local-stripe').LocalStripe);
+jest.mock('../payment-service', () => jest.requireActual('./local-payments').localPaymentService);
+jest.mock('../db-connection', () => {
+  const query = jest.fn();
+  return { query, transaction: jest.fn((fn) => fn({ query })) };
+});
+jest.mock('../events', () => ({
+  publishPaymentRefunded: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { eventBridge } from '@roadcall/aws-clients';
+import { query } from '../db-connection';
+import {
+  Payment,
+  PaymentLineItem,
+  PaymentRefund,
+  recordRefund,
+  updatePayment,
+} from '../payment-service';
+import { LedgerAccount, summarizeTrialBalance } from '../ledger-service';
+import {
+  PayableJob,
+  PayoutBatch,
+  VendorPayoutSettings,
+  buildPayoutStatement,
+  canViewPayouts,
+  executePayoutBatch,
+  isPayoutDue,
+} from '../payout-service';
+import { handleWebhookEvent } from '../handlers/stripe-webhook';
+import { LocalStripe } from './local-stripe';
+import { store } from './local-payments';
+
+const localStripe: typeof LocalStripe = jest.requireMock('stripe');
+const payments: typeof store = jest.requireMock('../payment-service').store;
+const db = query as jest.Mock;
+
+const createPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  paymentId: 'payment-1',
+  incidentId: 'incident-1',
+  vendorId: 'vendor-123',
+  payerType: 'back_office',
+  payerId: 'company-123',
+  amountCents: 27500,
+  currency: 'USD',
+  status: 'approved',
+  platformFeeCents: 2750,
+  metadata: { serviceType: 'towing', workCompletedAt: '2026-10-18T15:30:00.000Z' },
+  createdAt: '2026-10-18T15:31:00.000Z',
+  updatedAt: '2026-10-18T15:31:00.000Z',
+  ...overrides,
+});
+
+const lineItem = (description: string, unitPriceCents: number): PaymentLineItem => ({
+  lineItemId: `line-${description}`,
+  paymentId: 'payment-1',
+  description,
+  quantity: 1,
+  unitPriceCents,
+  totalCents: unitPriceCents,
+  createdAt: '2026-10-18T15:31:00.000Z',
+});
+
+const refund = (amountCents: number, reason?: string): PaymentRefund => ({
+  refundId: `refund-${amountCents}`,
+  paymentId: 'payment-2',
+  source: 'refund',
+  amountCents,
+  ...(reason && { reason }),
+  createdBy: 'dispatcher-123',
+  createdAt: '2026-10-18T18:00:00.000Z',
+});
+
+// A $275.00 tow billed to the fleet, and a $200.00 tire change the driver
+// paid for and was refunded $50.00 on before the vendor was paid
+const towJob: PayableJob = {
+  payment: createPayment(),
+  lineItems: [lineItem('towing - Base Service', 25000), lineItem('Mileage Charge', 2500)],
+  refunds: [],
+};
+const tireJob: PayableJob = {
+  payment: createPayment({
+    paymentId: 'payment-2',
+    incidentId: 'incident-2',
+    payerType: 'driver_ic',
+    payerId: 'driver-123',
+    amountCents: 20000,
+    status: 'completed',
+    platformFeeCents: 2000,
+    metadata: { serviceType: 'tire' },
+  }),
+  lineItems: [],
+  refunds: [refund(5000, 'slow arrival')],
+};
+
+const settings: VendorPayoutSettings = {
+  vendorId: 'vendor-123',
+  stripeAccountId: 'acct_vendor',
+  schedule: 'daily',
+  weeklyAnchor: 5,
+  updatedBy: 'vendor-123',
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+};
+
+const createBatch = (overrides: Partial<PayoutBatch> = {}): PayoutBatch => {
+  const statement = buildPayoutStatement([towJob, tireJob]);
+  return {
+    batchId: 'batch-1',
+    vendorId: 'vendor-123',
+    schedule: 'daily',
+    status: 'pending',
+    currency: 'USD',
+    ...statement.totals,
+    statement,
+    createdAt: '2026-10-19T06:00:00.000Z',
+    updatedAt: '2026-10-19T06:00:00.000Z',
+    ...overrides,
+  };
+};
+
+// Stands in for the payout_batches rows the UPDATE ... RETURNING queries return
+const batchRow = (batch: PayoutBatch, fields: Record<string, unknown>) => ({
+  batch_id: batch.batchId,
+  vendor_id: batch.vendorId,
+  schedule: batch.schedule,
+  status: batch.status,
+  currency: batch.currency,
+  gross_cents: batch.grossCents,
+  fee_cents: batch.feeCents,
+  adjustment_cents: batch.adjustmentCents,
+  net_cents: batch.netCents,
+  statement: batch.statement,
+  created_at: new Date(batch.createdAt),
+  updated_at: new Date(batch.updatedAt),
+  ...fields,
+});
+
+const balances = () =>
+  Object.fromEntries(
+    summarizeTrialBalance(payments.ledgerLines()).accounts.map((row) => [
+      row.account,
+      row.balanceCents,
+    ])
+  ) as Partial<Record<LedgerAccount, number>>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  localStripe.reset();
+  payments.reset();
+  db.mockResolvedValue({ rows: [] });
+});
+
+describe('payout schedules', () => {
+  it('pays instant vendors on every run', () => {
+    const now = new Date('2026-10-19T10:15:00.000Z');
+
+    expect(
+      isPayoutDue({ schedule: 'instant', weeklyAnchor: 1 }, '2026-10-19T10:00:00.000Z', now)
+    ).toBe(true);
+  });
+
+  it('pays daily vendors once per UTC day', () => {
+    const now = new Date('2026-10-19T00:15:00.000Z');
+
+    expect(isPayoutDue(settings, undefined, now)).toBe(true);
+    expect(isPayoutDue(settings, '2026-10-18T23:45:00.000Z', now)).toBe(true);
+    expect(isPayoutDue(settings, '2026-10-19T00:00:00.000Z', now)).toBe(false);
+  });
+
+  it('pays weekly vendors on their anchor weekday only', () => {
+    const weekly = { schedule: 'weekly' as const, weeklyAnchor: 5 };
+
+    expect(
+      isPayoutDue(weekly, '2026-10-16T00:00:00.000Z', new Date('2026-10-22T12:00:00.000Z'))
+    ).toBe(false);
+    expect(
+      isPayoutDue(weekly, '2026-10-16T00:00:00.000Z', new Date('2026-10-23T00:15:00.000Z'))
+    ).toBe(true);
+    expect(
+      isPayoutDue(weekly, '2026-10-23T00:00:00.000Z', new Date('2026-10-23T00:30:00.000Z'))
+    ).toBe(false);
+  });
+
+  it('shows a vendor only their own payouts', () => {
+    expect(canViewPayouts('vendor-123', 'vendor', 'vendor-123')).toBe(true);
+    expect(canViewPayouts('vendor-123', 'vendor', 'vendor-456')).toBe(false);
+    expect(canViewPayouts('vendor-123', 'admin', 'admin-1')).toBe(true);
+    expect(canViewPayouts('vendor-123', 'dispatcher', 'vendor-123')).toBe(false);
+  });
+});
+
+describe('payout statements', () => {
+  it('lists each job with its line items, fee and share, less withheld refunds', () => {
+    const statement = buildPayoutStatement([towJob, tireJob]);
+
+    expect(statement.jobs[0]).toEqual({
+      paymentId: 'payment-1',
+      incidentId: 'incident-1',
+      serviceType: 'towing',
+      completedAt: '2026-10-18T15:30:00.000Z',
+      lineItems: [
+        {
+          description: 'towing - Base Service',
+          quantity: 1,
+          unitPriceCents: 25000,
+          totalCents: 25000,
+        },
+        { description: 'Mileage Charge', quantity: 1, unitPriceCents: 2500, totalCents: 2500 },
+      ],
+      grossCents: 27500,
+      platformFeeCents: 2750,
+      adjustmentCents: 0,
+      netCents: 24750,
+    });
+    // The vendor bears their share of the refund, not the platform's margin
+    expect(statement.adjustments).toEqual([
+      {
+        paymentId: 'payment-2',
+        refundId: 'refund-5000',
+        description: 'Refund (slow arrival)',
+        amountCents: -4500,
+      },
+    ]);
+    expect(statement.totals).toEqual({
+      grossCents: 47500,
+      feeCents: 4750,
+      adjustmentCents: -4500,
+      netCents: 38250,
+    });
+  });
+
+  it('never withholds more than a job paid the vendor', () => {
+    const statement = buildPayoutStatement([
+      { ...tireJob, refunds: [refund(15000), refund(20000)] },
+    ]);
+
+    expect(statement.adjustments.map((adjustment) => adjustment.amountCents)).toEqual([
+      -13500, -4500,
+    ]);
+    expect(statement.jobs[0].netCents).toBe(0);
+  });
+});
+
+describe('payout batches', () => {
+  // The driver's charge was collected, then partly refunded by card
+  beforeEach(async () => {
+    payments.addPayment(towJob.payment, towJob.lineItems);
+    payments.addPayment({ ...tireJob.payment, status: 'processing' });
+    await updatePayment('payment-2', { status: 'completed' }, 'stripe_webhook');
+    await recordRefund(
+      'payment-2',
+      { source: 'refund', amountCents: 5000, reason: 'slow arrival', stripeRefundId: 're_123' },
+      'dispatcher-123'
+    );
+  });
+
+  it('makes one transfer and one payout and settles what the vendor is owed', async () => {
+    const batch = createBatch();
+    db.mockImplementation(async (sql: string) =>
+      sql.includes("status = 'in_transit'")
+        ? { rows: [batchRow(batch, { status: 'in_transit', stripe_payout_id: 'po_local' })] }
+        : { rows: [] }
+    );
+
+    const sent = await executePayoutBatch(batch, settings);
+    await executePayoutBatch(batch, settings);
+
+    expect(sent.status).toBe('in_transit');
+    expect(LocalStripe.transfers).toEqual([
+      expect.objectContaining({
+        amount: 38250,
+        destination: 'acct_vendor',
+        transfer_group: 'batch-1',
+      }),
+    ]);
+    expect(LocalStripe.payouts).toEqual([
+      expect.objectContaining({ amount: 38250, account: 'acct_vendor', method: 'standard' }),
+    ]);
+
+    const transferId = LocalStripe.transfers[0].id;
+    expect(payments.payments.get('payment-1')).toMatchObject({
+      stripeTransferId: transferId,
+      status: 'completed',
+    });
+    expect(payments.payments.get('payment-2')?.stripeTransferId).toBe(transferId);
+
+    // The withheld share comes back out of refunds; the platform keeps its margin
+    expect(balances()).toMatchObject({
+      vendor_payable: 0,
+      platform_revenue: -4750,
+      refunds: 500,
+    });
+    expect(summarizeTrialBalance(payments.ledgerLines()).totalCents).toBe(0);
+  });
+
+  it('fails the batch and releases its payments when the transfer fails', async () => {
+    const batch = createBatch();
+    db.mockImplementation(async (sql: string) =>
+      sql.includes("status = 'failed'")
+        ? { rows: [batchRow(batch, { status: 'failed', failure_code: 'transfer_failed' })] }
+        : { rows: [] }
+    );
+
+    const failed = await executePayoutBatch(batch, { ...settings, stripeAccountId: 'acct_closed' });
+
+    expect(failed).toMatchObject({ status: 'failed', failureCode: 'transfer_failed' });
+    expect(db).toHaveBeenCalledWith(
+      'UPDATE payments SET payout_batch_id = NULL WHERE payout_batch_id = $1',
+      ['batch-1']
+    );
+    expect(LocalStripe.payouts).toEqual([]);
+    expect(payments.payments.get('payment-1')?.stripeTransferId).toBeUndefined();
+  });
+
+  it('keeps the batch when the transfer outcome is unknown and resumes it once', async () => {
+    const batch = createBatch();
+    const unreachable = { ...settings, stripeAccountId: 'acct_unreachable' };
+    db.mockImplementation(async (sql: string) =>
+      sql.includes("status = 'in_transit'")
+        ? { rows: [batchRow(batch, { status: 'in_transit', stripe_payout_id: 'po_local' })] }
+        : { rows: [] }
+    );
+
+    const kept = await executePayoutBatch(batch, unreachable);
+
+    expect(kept.status).toBe('pending');
+    expect(db).not.toHaveBeenCalledWith(
+      'UPDATE payments SET payout_batch_id = NULL WHERE payout_batch_id = $1',
+      ['batch-1']
+    );
+    expect(LocalStripe.payouts).toEqual([]);
+
+    // The next run finds the transfer Stripe made rather than making another
+    const sent = await executePayoutBatch(batch, unreachable);
+
+    expect(sent.status).toBe('in_transit');
+    expect(LocalStripe.transfers).toHaveLength(1);
+    expect(LocalStripe.payouts).toHaveLength(1);
+    expect(payments.payments.get('payment-1')?.stripeTransferId).toBe(LocalStripe.transfers[0].id);
+  });
+  it('records a reversal of the batch transfer made in the dashboard against its payments', async () => {
+    const batch = createBatch();
+    db.mockImplementation(async (sql: string) =>
+      sql.includes("status = 'in_transit'") || sql.startsWith('SELECT * FROM payout_batches')
+        ? { rows: [batchRow(batch, { status: 'in_transit', stripe_payout_id: 'po_local' })] }
+        : { rows: [] }
+    );
+    await executePayoutBatch(batch, settings);
+
+    // All of the tow's share and part of the tire change's comes back
+    const transfer = LocalStripe.transfers[0];
+    await new LocalStripe().transfers.createReversal(transfer.id, { amount: 30000 });
+    const reversed = {
+      ...transfer,
+      metadata: { batchId: 'batch-1', vendorId: 'vendor-123' },
+      reversals: { data: localStripe.reversals },
+    };
+    await handleWebhookEvent({
+      id: LocalStripe.nextId('evt'),
+      type: 'transfer.reversed',
+      created: LocalStripe.created(),
+      data: { object: reversed },
+    } as unknown as Stripe.Event);
+    await handleWebhookEvent({
+      id: LocalStripe.nextId('evt'),
+      type: 'transfer.reversed',
+      created: LocalStripe.created(),
+      data: { object: reversed },
+    } as unknown as Stripe.Event);
+
+    expect(
+      payments.refunds
+        .filter((r) => r.source === 'transfer_reversal')
+        .map((r) => [r.paymentId, r.amountCents])
+    ).toEqual([
+      ['payment-1', 27500],
+      ['payment-2', 5833],
+    ]);
+    expect(payments.payments.get('payment-1')?.status).toBe('refunded');
+    expect(summarizeTrialBalance(payments.ledgerLines()).totalCents).toBe(0);
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        detailType: 'PaymentTransferReversed',
+        detail: expect.objectContaining({ batchId: 'batch-1', amount: 38250 }),
+      })
+    );
+  });
+});
+
+describe('payout webhooks', () => {
+  const webhook = (type: string, object: Record<string, unknown>) =>
+    handleWebhookEvent({
+      id: LocalStripe.nextId('evt'),
+      type,
+      created: LocalStripe.created(),
+      account: 'acct_vendor',
+      data: { object },
+    } as unknown as Stripe.Event);
+
+  const payout = {
+    id: 'po_123',
+    object: 'payout',
+    amount: 38250,
+    failure_code: null,
+    failure_message: null,
+    metadata: { batchId: 'batch-1', vendorId: 'vendor-123' },
+  };
+
+  it('marks the batch paid', async () => {
+    db.mockResolvedValue({ rows: [batchRow(createBatch(), { status: 'paid' })] });
+
+    await webhook('payout.paid', payout);
+
+    expect(db).toHaveBeenCalledWith(expect.stringContaining('UPDATE payout_batches'), [
+      'paid',
+      'po_123',
+      null,
+      null,
+      'batch-1',
+    ]);
+  });
+
+  it('marks the batch failed and flags it for review', async () => {
+    db.mockResolvedValue({ rows: [batchRow(createBatch(), { status: 'failed' })] });
+
+    await webhook('payout.failed', {
+      ...payout,
+      failure_code: 'account_closed',
+      failure_message: 'The bank account has been closed',
+    });
+
+    expect(db).toHaveBeenCalledWith(expect.stringContaining('UPDATE payout_batches'), [
+      'failed',
+      'po_123',
+      'account_closed',
+      'The bank account has been closed',
+      'batch-1',
+    ]);
+    expect(eventBridge.publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        detailType: 'PayoutFailed',
+        detail: expect.objectContaining({ batchId: 'batch-1', vendorId: 'vendor-123' }),
+      })
+    );
+  });
+});
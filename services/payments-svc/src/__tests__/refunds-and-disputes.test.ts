@@ -0,0 +1,418 @@
+process.env.STRIPE_API_KEY = 'sk_test_local';
+process.env.INCIDENTS_TABLE_NAME = 'incidents';
+process.env.TRACKING_SESSIONS_TABLE_NAME = 'tracking-sessions';
+process.env.VENDOR_ROUTES_TABLE_NAME = 'vendor-routes';
+process.env.MEDIA_BUCKET = 'media';
+
+import type Stripe from 'stripe';
+import type { Incident, TrackingSession, VendorRouteRecord } from '@roadcall/types';
+import { ConflictError, ValidationError } from '@roadcall/utils';
+
+jest.mock('stripe', () => jest.requireActual('./local-stripe').LocalStripe);
+jest.mock('../payment-service', () => jest.requireActual('./local-payments').localPaymentService);
+jest.mock('../events', () => ({
+  publishPaymentRefunded: jest.fn().mockResolvedValue(undefined),
+  publishPaymentDisputed: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    get: jest.fn().mockResolvedValue(null),
+    query: jest.fn().mockResolvedValue([]),
+  },
+  s3: {
+    download: jest.fn(),
+  },
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { dynamodb, s3 } from '@roadcall/aws-clients';
+import { Payment, getRefundOutcome } from '../payment-service';
+import { issueRefund } from '../refund-service';
+import { submitDisputeEvidence } from '../dispute-service';
+import { buildDisputeEvidence, toStripeDisputeEvidence } from '../dispute-evidence';
+import { handleWebhookEvent } from '../handlers/stripe-webhook';
+import { publishPaymentRefunded } from '../events';
+import { LocalStripe } from './local-stripe';
+import { store } from './local-payments';
+
+const localStripe: typeof LocalStripe = jest.requireMock('stripe');
+const payments: typeof store = jest.requireMock('../payment-service').store;
+
+const webhook = (type: string, object: Record<string, unknown>) =>
+  handleWebhookEvent({
+    id: LocalStripe.nextId('evt'),
+    type,
+    created: LocalStripe.created(),
+    data: { object },
+  } as unknown as Stripe.Event);
+
+const createPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  paymentId: 'payment-123',
+  incidentId: 'incident-123',
+  vendorId: 'vendor-123',
+  payerType: 'driver_ic',
+  amountCents: 20000,
+  currency: 'USD',
+  status: 'completed',
+  stripePaymentIntentId: 'pi_123',
+  platformFeeCents: 0,
+  metadata: { serviceType: 'tire_repair', workCompletedAt: '2026-10-19T10:40:00.000Z' },
+  createdAt: '2026-10-19T10:45:00.000Z',
+  updatedAt: '2026-10-19T10:45:00.000Z',
+  ...overrides,
+});
+
+const incident = {
+  incidentId: 'incident-123',
+  driverId: 'driver-123',
+  type: 'tire',
+  status: 'closed',
+  location: { lat: 40.7128, lon: -74.006 },
+  createdAt: '2026-10-19T10:00:00.000Z',
+  updatedAt: '2026-10-19T10:50:00.000Z',
+  timeline: [
+    {
+      from: 'vendor_en_route',
+      to: 'vendor_arrived',
+      timestamp: '2026-10-19T10:20:00.000Z',
+      actor: 'vendor-123',
+    },
+    {
+      from: 'created',
+      to: 'vendor_assigned',
+      timestamp: '2026-10-19T10:02:00.000Z',
+      actor: 'system',
+    },
+    {
+      from: 'vendor_assigned',
+      to: 'vendor_en_route',
+      timestamp: '2026-10-19T10:05:00.000Z',
+      actor: 'vendor-123',
+    },
+  ],
+  media: [
+    {
+      mediaId: 'm1',
+      type: 'photo',
+      s3Key: 'incidents/incident-123/before.jpg',
+      uploadedBy: 'vendor-123',
+      uploadedAt: '2026-10-19T10:21:00.000Z',
+    },
+    {
+      mediaId: 'm2',
+      type: 'photo',
+      s3Key: 'incidents/incident-123/after.jpg',
+      uploadedBy: 'vendor-123',
+      uploadedAt: '2026-10-19T10:39:00.000Z',
+    },
+    {
+      mediaId: 'm3',
+      type: 'document',
+      s3Key: 'incidents/incident-123/invoice.pdf',
+      uploadedBy: 'vendor-123',
+      uploadedAt: '2026-10-19T10:41:00.000Z',
+    },
+  ],
+} as unknown as Incident;
+
+const session = {
+  sessionId: 'session-123',
+  incidentId: 'incident-123',
+  vendorId: 'vendor-123',
+  status: 'arrived',
+  createdAt: '2026-10-19T10:05:00.000Z',
+} as unknown as TrackingSession;
+
+const route: VendorRouteRecord = {
+  sessionId: 'session-123',
+  incidentId: 'incident-123',
+  vendorId: 'vendor-123',
+  encodedPath: '_p~iF~ps|U??',
+  startedAt: '2026-10-19T10:05:00.000Z',
+  pointCount: 96,
+  distanceKm: 12.34,
+  lastPoint: [0, 0, 0],
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  localStripe.reset();
+  payments.reset();
+});
+
+describe('getRefundOutcome', () => {
+  it('should leave the payment open after a partial refund', () => {
+    expect(getRefundOutcome(20000, 0, 5000)).toEqual({
+      remainingCents: 15000,
+      fullyRefunded: false,
+    });
+  });
+
+  it('should mark the payment fully refunded once nothing is left', () => {
+    expect(getRefundOutcome(20000, 15000, 5000)).toEqual({
+      remainingCents: 0,
+      fullyRefunded: true,
+    });
+  });
+
+  it('should reject refunds larger than what is left, and non-positive amounts', () => {
+    expect(() => getRefundOutcome(20000, 15000, 5001)).toThrow(ValidationError);
+    expect(() => getRefundOutcome(20000, 0, 0)).toThrow(ValidationError);
+    expect(() => getRefundOutcome(20000, 0, 12.5)).toThrow(ValidationError);
+  });
+});
+
+describe('refunds', () => {
+  it('should refund driver payments to the card in parts and record each refund once', async () => {
+    payments.addPayment(createPayment());
+
+    const partial = await issueRefund(
+      'payment-123',
+      { amountCents: 5000, reason: 'Late arrival' },
+      'dispatcher-1'
+    );
+    expect(partial.payment.status).toBe('completed');
+    expect(localStripe.refunds).toHaveLength(1);
+    expect(localStripe.refunds[0]).toMatchObject({ payment_intent: 'pi_123', amount: 5000 });
+
+    // Stripe reports the same refund back; it is not recorded twice
+    await webhook('charge.refunded', {
+      id: 'ch_123',
+      payment_intent: 'pi_123',
+      amount_refunded: 5000,
+    });
+    expect(payments.refunds).toHaveLength(1);
+
+    // The rest defaults to whatever is left
+    const rest = await issueRefund('payment-123', {}, 'dispatcher-1');
+    expect(rest.refund).toMatchObject({ source: 'refund', amountCents: 15000 });
+    expect(rest.payment.status).toBe('refunded');
+    expect(payments.audit.map((entry) => entry.action)).toEqual([
+      'payment_partially_refunded',
+      'payment_refunded',
+    ]);
+    expect(publishPaymentRefunded).toHaveBeenCalledTimes(2);
+    expect(publishPaymentRefunded).toHaveBeenLastCalledWith(
+      expect.objectContaining({ amountCents: 15000, fullyRefunded: true })
+    );
+
+    await expect(issueRefund('payment-123', { amountCents: 1 }, 'dispatcher-1')).rejects.toThrow(
+      ConflictError
+    );
+  });
+
+  it('should record refunds issued from the Stripe dashboard when the charge webhook arrives', async () => {
+    payments.addPayment(createPayment());
+    await new LocalStripe().refunds.create({ payment_intent: 'pi_123', amount: 2500 });
+
+    await webhook('charge.refunded', {
+      id: 'ch_123',
+      payment_intent: 'pi_123',
+      amount_refunded: 2500,
+    });
+    await webhook('charge.refunded', {
+      id: 'ch_123',
+      payment_intent: 'pi_123',
+      amount_refunded: 2500,
+    });
+
+    expect(payments.refunds).toEqual([
+      expect.objectContaining({ source: 'refund', amountCents: 2500, createdBy: 'stripe_webhook' }),
+    ]);
+    expect(payments.payments.get('payment-123')!.status).toBe('completed');
+  });
+
+  it('should reject refunds larger than what is left without calling Stripe', async () => {
+    payments.addPayment(createPayment());
+
+    await expect(
+      issueRefund('payment-123', { amountCents: 20001 }, 'dispatcher-1')
+    ).rejects.toThrow(ValidationError);
+    expect(localStripe.refunds).toHaveLength(0);
+  });
+
+  it('should claw back-office refunds back from the vendor by reversing the transfer', async () => {
+    payments.addPayment(
+      createPayment({
+        payerType: 'back_office',
+        stripePaymentIntentId: undefined,
+        stripeTransferId: 'tr_123',
+        platformFeeCents: 2000,
+      })
+    );
+
+    // The vendor only received 90%, so only that comes back
+    await issueRefund('payment-123', { amountCents: 8000 }, 'admin-1', 'admin');
+    expect(localStripe.reversals).toEqual([
+      expect.objectContaining({ transfer: 'tr_123', amount: 7200 }),
+    ]);
+
+    // Stripe's transfer.reversed carries every reversal so far, plus one made in the dashboard
+    await new LocalStripe().transfers.createReversal('tr_123', { amount: 1800 });
+    await webhook('transfer.reversed', {
+      id: 'tr_123',
+      amount: 20000,
+      metadata: { paymentId: 'payment-123' },
+      reversals: { data: localStripe.reversals },
+    });
+
+    expect(payments.refunds.map((r) => [r.source, r.amountCents])).toEqual([
+      ['transfer_reversal', 8000],
+      ['transfer_reversal', 2000],
+    ]);
+    expect(localStripe.refunds).toHaveLength(0);
+
+    // The reversals brought back the vendor's share; the platform refunds its margin
+    const refundLines = payments.ledger
+      .filter((entry) => entry.entryType === 'refund')
+      .flatMap((entry) => entry.lines);
+    const total = (account: string) =>
+      refundLines
+        .filter((line) => line.account === account)
+        .reduce((sum, line) => sum + line.amountCents, 0);
+    expect(total('stripe_balance')).toBe(9000);
+    expect(total('refunds')).toBe(1000);
+  });
+});
+
+describe('disputes', () => {
+  const stripeDispute = (status: string) => ({
+    id: 'dp_123',
+    object: 'dispute',
+    amount: 20000,
+    payment_intent: 'pi_123',
+    reason: 'product_not_received',
+    status,
+    evidence_details: { due_by: 1761350400 },
+  });
+
+  beforeEach(() => {
+    payments.addPayment(createPayment(), [
+      {
+        lineItemId: 'li-1',
+        paymentId: 'payment-123',
+        description: 'tire_repair - Base Service',
+        quantity: 1,
+        unitPriceCents: 20000,
+        totalCents: 20000,
+        createdAt: '2026-10-19T10:45:00.000Z',
+      },
+    ]);
+    (dynamodb.get as jest.Mock).mockResolvedValue(incident);
+    (dynamodb.query as jest.Mock).mockImplementation(async (table: string) =>
+      table === 'vendor-routes' ? [route] : [session]
+    );
+    (s3.download as jest.Mock).mockResolvedValue(Buffer.from('jpeg bytes'));
+  });
+
+  it('should stage an evidence bundle from the incident when a dispute opens', async () => {
+    await webhook('charge.dispute.created', stripeDispute('needs_response'));
+
+    expect(payments.disputes).toHaveLength(1);
+    expect(payments.disputes[0]).toMatchObject({
+      stripeDisputeId: 'dp_123',
+      status: 'needs_response',
+      evidenceDueBy: '2025-10-25T00:00:00.000Z',
+    });
+    expect(dynamodb.query).toHaveBeenCalledWith(
+      'tracking-sessions',
+      'incidentId = :incidentId',
+      { ':incidentId': 'incident-123' },
+      'incident-index'
+    );
+    expect(dynamodb.query).toHaveBeenCalledWith(
+      'vendor-routes',
+      'incidentId = :incidentId',
+      { ':incidentId': 'incident-123' },
+      'incident-index'
+    );
+
+    // The latest job photo goes to Stripe; evidence is staged, not submitted
+    expect(s3.download).toHaveBeenCalledWith('media', 'incidents/incident-123/after.jpg');
+    expect(localStripe.files).toEqual([
+      expect.objectContaining({
+        purpose: 'dispute_evidence',
+        filename: 'after.jpg',
+        type: 'image/jpeg',
+      }),
+    ]);
+    expect(localStripe.disputeUpdates).toHaveLength(1);
+    const { params } = localStripe.disputeUpdates[0];
+    expect(params.submit).toBe(false);
+    expect(params.evidence).toMatchObject({
+      service_date: '2026-10-19',
+      service_documentation: localStripe.files[0].id,
+      access_activity_log: expect.stringContaining('96 fixes over 12.3 km'),
+    });
+
+    const evidence = payments.disputes[0].evidence!;
+    expect(evidence.timeline.map((entry: { to: string }) => entry.to)).toEqual([
+      'vendor_assigned',
+      'vendor_en_route',
+      'vendor_arrived',
+    ]);
+    expect(evidence.photos.map((p: { mediaId: string }) => p.mediaId)).toEqual(['m1', 'm2']);
+    expect(evidence.trackingPaths[0].encodedPath).toBe('_p~iF~ps|U??');
+  });
+
+  it('should submit the staged evidence with the reviewer notes on request', async () => {
+    await webhook('charge.dispute.created', stripeDispute('needs_response'));
+
+    const dispute = await submitDisputeEvidence(
+      'payment-123',
+      'admin-1',
+      'Driver signed off on site.'
+    );
+
+    expect(dispute.evidenceSubmittedAt).toBeDefined();
+    const { params } = localStripe.disputeUpdates[1];
+    expect(params.submit).toBe(true);
+    expect(params.evidence.uncategorized_text).toMatch(/^Driver signed off on site\./);
+
+    await webhook('charge.dispute.updated', stripeDispute('under_review'));
+    await expect(submitDisputeEvidence('payment-123', 'admin-1')).rejects.toThrow(ConflictError);
+  });
+
+  it('should record a lost dispute as a refund once', async () => {
+    await webhook('charge.dispute.created', stripeDispute('needs_response'));
+    await webhook('charge.dispute.closed', stripeDispute('lost'));
+    await webhook('charge.dispute.closed', stripeDispute('lost'));
+
+    expect(payments.refunds).toEqual([
+      expect.objectContaining({ source: 'dispute', amountCents: 20000, stripeDisputeId: 'dp_123' }),
+    ]);
+    expect(payments.payments.get('payment-123')!.status).toBe('refunded');
+  });
+
+  it('should leave the payment alone when a dispute is won', async () => {
+    await webhook('charge.dispute.created', stripeDispute('needs_response'));
+    await webhook('charge.dispute.closed', stripeDispute('won'));
+
+    expect(payments.disputes[0].status).toBe('won');
+    expect(payments.refunds).toHaveLength(0);
+    expect(payments.payments.get('payment-123')!.status).toBe('completed');
+  });
+});
+
+describe('toStripeDisputeEvidence', () => {
+  it('should fall back to the payment details when the incident is gone', () => {
+    const bundle = buildDisputeEvidence(
+      'dp_123',
+      createPayment(),
+      [],
+      null,
+      [],
+      [],
+      '2026-10-20T00:00:00.000Z'
+    );
+    const evidence = toStripeDisputeEvidence(bundle);
+
+    expect(evidence.product_description).toBe('Roadside assistance (tire_repair) for 200.00 USD.');
+    expect(evidence.service_date).toBe('2026-10-19');
+    expect(evidence.access_activity_log).toBeUndefined();
+    expect(evidence.service_documentation).toBeUndefined();
+  });
+});
@@ -0,0 +1,253 @@
+process.env.STRIPE_API_KEY = 'sk_test_local';
+
+import type Stripe from 'stripe';
+
+jest.mock('stripe', () => jest.requireActual('./local-stripe').LocalStripe);
+jest.mock('../payment-service', () => jest.requireActual('./local-payments').localPaymentService);
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  eventBridge: {
+    publishEvent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { eventBridge } from '@roadcall/aws-clients';
+import { Payment, isStaleStripeEvent } from '../payment-service';
+import { handleWebhookEvent, replayPaymentEvents } from '../handlers/stripe-webhook';
+import { LocalStripe } from './local-stripe';
+import { store } from './local-payments';
+
+const localStripe: typeof LocalStripe = jest.requireMock('stripe');
+const payments: typeof store = jest.requireMock('../payment-service').store;
+
+const deliver = async (events: Stripe.Event[]) => {
+  for (const event of events) {
+    await handleWebhookEvent(event);
+  }
+};
+
+const published = (detailType: string) =>
+  (eventBridge.publishEvent as jest.Mock).mock.calls.filter(
+    ([event]) => event.detailType === detailType
+  );
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 9, 19, 12, 0, seconds)).toISOString();
+
+const createPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  paymentId: 'payment-123',
+  incidentId: 'incident-123',
+  vendorId: 'vendor-123',
+  payerType: 'driver_ic',
+  payerId: 'driver-123',
+  amountCents: 20000,
+  currency: 'USD',
+  status: 'processing',
+  stripePaymentIntentId: 'pi_123',
+  platformFeeCents: 2000,
+  createdAt: '2025-10-09T08:00:00.000Z',
+  updatedAt: '2025-10-09T08:00:00.000Z',
+  ...overrides,
+});
+
+// The events Stripe sends for a card payment that needed 3D Secure, failed
+// once and then succeeded, in the order Stripe created them
+const paymentIntentEvents = (paymentId = 'payment-123', paymentIntentId = 'pi_123') => {
+  const paymentIntent = { id: paymentIntentId, object: 'payment_intent', metadata: { paymentId } };
+  const charge = LocalStripe.charge(paymentIntentId, 20000);
+
+  return {
+    requiresAction: LocalStripe.event('payment_intent.requires_action', {
+      ...paymentIntent,
+      next_action: { type: 'use_stripe_sdk' },
+    }),
+    failed: LocalStripe.event('payment_intent.payment_failed', {
+      ...paymentIntent,
+      last_payment_error: { message: 'Your card was declined.' },
+    }),
+    succeeded: LocalStripe.event('payment_intent.succeeded', {
+      ...paymentIntent,
+      latest_charge: charge.id,
+    }),
+  } as unknown as Record<'requiresAction' | 'failed' | 'succeeded', Stripe.Event>;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  localStripe.reset();
+  payments.reset();
+});
+
+describe('stale Stripe events', () => {
+  it('ignores events created before the last one applied', () => {
+    const payment = { status: 'processing' as const, stripeEventAt: at(10) };
+
+    expect(isStaleStripeEvent(payment, 'failed', at(9))).toBe(true);
+    expect(isStaleStripeEvent(payment, 'failed', at(11))).toBe(false);
+    expect(isStaleStripeEvent({ status: 'processing' }, 'failed', at(9))).toBe(false);
+  });
+
+  it('orders events created in the same second by status', () => {
+    const payment = { status: 'failed' as const, stripeEventAt: at(10) };
+
+    expect(isStaleStripeEvent(payment, 'completed', at(10))).toBe(false);
+    expect(isStaleStripeEvent(payment, 'processing', at(10))).toBe(true);
+    expect(isStaleStripeEvent(payment, 'processing', at(11))).toBe(false);
+  });
+
+  it('never moves a payment back from a final status', () => {
+    expect(isStaleStripeEvent({ status: 'completed' }, 'processing', at(10))).toBe(true);
+    expect(isStaleStripeEvent({ status: 'refunded', stripeEventAt: at(1) }, 'failed', at(10))).toBe(
+      true
+    );
+    expect(
+      isStaleStripeEvent({ status: 'failed', stripeEventAt: at(1) }, 'completed', at(10))
+    ).toBe(false);
+  });
+});
+
+describe('webhook event delivery', () => {
+  it('applies a retried event once', async () => {
+    payments.addPayment(createPayment());
+    const { succeeded } = paymentIntentEvents();
+
+    await expect(handleWebhookEvent(succeeded)).resolves.toBe(true);
+    await expect(handleWebhookEvent(succeeded)).resolves.toBe(false);
+    await expect(handleWebhookEvent(succeeded)).resolves.toBe(false);
+
+    expect(published('PaymentCompleted')).toHaveLength(1);
+    expect(payments.audit.filter((a) => a.actorId === 'stripe_webhook')).toHaveLength(1);
+    expect(payments.events.get(succeeded.id)).toEqual({
+      eventType: 'payment_intent.succeeded',
+      status: 'processed',
+      attempts: 1,
+    });
+  });
+
+  it('does not ask for 3D Secure once the payment has succeeded', async () => {
+    payments.addPayment(createPayment());
+    const { requiresAction, succeeded } = paymentIntentEvents();
+
+    await deliver([succeeded, requiresAction]);
+
+    expect(payments.payments.get('payment-123')).toMatchObject({
+      status: 'completed',
+      stripeEventAt: new Date(succeeded.created * 1000).toISOString(),
+    });
+    expect(published('PaymentRequiresAction')).toHaveLength(0);
+  });
+
+  it('does not fail a payment that has since succeeded', async () => {
+    payments.addPayment(createPayment());
+    const { failed, succeeded } = paymentIntentEvents();
+
+    await deliver([succeeded, failed]);
+
+    expect(payments.payments.get('payment-123')?.status).toBe('completed');
+    expect(payments.payments.get('payment-123')?.failedReason).toBeUndefined();
+    expect(published('PaymentFailed')).toHaveLength(0);
+  });
+
+  it('completes a payment retried after it failed', async () => {
+    payments.addPayment(createPayment());
+    const { requiresAction, failed, succeeded } = paymentIntentEvents();
+
+    await deliver([requiresAction, failed, succeeded]);
+
+    expect(payments.payments.get('payment-123')?.status).toBe('completed');
+    expect(published('PaymentRequiresAction')).toHaveLength(1);
+    expect(published('PaymentFailed')).toHaveLength(1);
+    expect(published('PaymentCompleted')).toHaveLength(1);
+  });
+
+  it('ends in the same state for every order and duplication of the events', async () => {
+    const orders = [
+      [0, 1, 2],
+      [0, 2, 1],
+      [1, 0, 2],
+      [1, 2, 0],
+      [2, 0, 1],
+      [2, 1, 0],
+    ];
+
+    for (const [index, order] of orders.entries()) {
+      const paymentId = `payment-${index}`;
+      payments.addPayment(createPayment({ paymentId, stripePaymentIntentId: `pi_${index}` }));
+      const { requiresAction, failed, succeeded } = paymentIntentEvents(paymentId, `pi_${index}`);
+      const events = [requiresAction, failed, succeeded];
+
+      // Every event delivered twice, the retries in reverse order
+      await deliver([...order, ...[...order].reverse()].map((position) => events[position]));
+
+      expect(payments.payments.get(paymentId)).toMatchObject({
+        status: 'completed',
+        stripeFeeCents: 610,
+        stripeEventAt: new Date(succeeded.created * 1000).toISOString(),
+      });
+    }
+
+    expect(published('PaymentCompleted')).toHaveLength(orders.length);
+    expect(payments.ledgerLines().filter((line) => line.account === 'stripe_fees')).toHaveLength(
+      orders.length
+    );
+  });
+
+  it('handles a failed event again when Stripe retries it', async () => {
+    const canceled = LocalStripe.event('payment_intent.canceled', {
+      id: 'pi_123',
+      object: 'payment_intent',
+      metadata: { paymentId: 'payment-123' },
+    }) as unknown as Stripe.Event;
+
+    await expect(handleWebhookEvent(canceled)).rejects.toThrow('Payment not found');
+    expect(payments.events.get(canceled.id)?.status).toBe('failed');
+
+    payments.addPayment(createPayment());
+    await expect(handleWebhookEvent(canceled)).resolves.toBe(true);
+
+    expect(payments.payments.get('payment-123')?.status).toBe('cancelled');
+    expect(payments.events.get(canceled.id)).toMatchObject({ status: 'processed', attempts: 2 });
+  });
+});
+
+describe('replaying payment events', () => {
+  it('applies the events for the payment that were missed, oldest first', async () => {
+    payments.addPayment(createPayment());
+    payments.addPayment(
+      createPayment({ paymentId: 'payment-456', stripePaymentIntentId: 'pi_456' })
+    );
+    const { requiresAction, failed, succeeded } = paymentIntentEvents();
+    const other = paymentIntentEvents('payment-456', 'pi_456');
+
+    await deliver([requiresAction]);
+    const results = await replayPaymentEvents('payment-123');
+
+    expect(results).toEqual([
+      { eventId: requiresAction.id, type: 'payment_intent.requires_action', applied: false },
+      { eventId: failed.id, type: 'payment_intent.payment_failed', applied: true },
+      { eventId: succeeded.id, type: 'payment_intent.succeeded', applied: true },
+    ]);
+    expect(payments.payments.get('payment-123')?.status).toBe('completed');
+    expect(payments.events.has(other.succeeded.id)).toBe(false);
+    expect(payments.payments.get('payment-456')?.status).toBe('processing');
+  });
+
+  it('pages through the event list', async () => {
+    payments.addPayment(createPayment());
+    paymentIntentEvents();
+    for (let i = 0; i < 120; i++) {
+      LocalStripe.event('charge.updated', { id: `ch_other${i}`, payment_intent: 'pi_other' });
+    }
+
+    const results = await replayPaymentEvents('payment-123');
+
+    expect(results.map((result) => result.type)).toEqual([
+      'payment_intent.requires_action',
+      'payment_intent.payment_failed',
+      'payment_intent.succeeded',
+    ]);
+  });
+
+  it('rejects an unknown payment', async () => {
+    await expect(replayPaymentEvents('payment-missing')).rejects.toThrow('not found');
+  });
+});
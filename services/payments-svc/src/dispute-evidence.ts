@@ -0,0 +1,177 @@
+import Stripe from 'stripe';
+import type { Incident, MediaArtifact, TrackingSession, VendorRouteRecord } from '@roadcall/types';
+import { Payment, PaymentLineItem } from './payment-service';
+
+// ========================================================================
+// Types
+// ========================================================================
+
+// Everything we know about the job behind a disputed payment, kept on the
+// dispute for reviewers and condensed into Stripe's evidence fields
+export interface DisputeEvidenceBundle {
+  paymentId: string;
+  incidentId: string;
+  stripeDisputeId: string;
+  service: {
+    type?: string;
+    amountCents: number;
+    currency: string;
+    lineItems: Array<{ description: string; quantity: number; totalCents: number }>;
+    arrivedAt?: string; // Vendor on site
+    completedAt?: string; // Work completed
+  };
+  timeline: Array<{ timestamp: string; from: string; to: string; actor: string; reason?: string }>;
+  photos: Array<{
+    mediaId: string;
+    s3Key: string;
+    uploadedBy: string;
+    uploadedAt: string;
+    stripeFileId?: string; // Set once uploaded to Stripe as evidence
+  }>;
+  trackingPaths: Array<{
+    sessionId: string;
+    vendorId: string;
+    status: string;
+    startedAt: string;
+    pointCount: number;
+    distanceKm: number;
+    encodedPath: string; // Encoded polyline of [lat, lon, seconds since startedAt]
+  }>;
+  gatheredAt: string;
+}
+
+const MAX_TIMELINE_LINES = 50; // Keeps the text evidence well under Stripe's length limit
+
+// ========================================================================
+// Evidence Bundle
+// ========================================================================
+
+/**
+ * Gather the incident timeline, job photos and vendor tracking paths behind a
+ * disputed payment into one evidence bundle. The incident, sessions and routes
+ * are optional so a dispute on a purged incident still gets the payment details.
+ */
+export function buildDisputeEvidence(
+  stripeDisputeId: string,
+  payment: Payment,
+  lineItems: PaymentLineItem[],
+  incident: Incident | null,
+  sessions: TrackingSession[],
+  routes: VendorRouteRecord[],
+  gatheredAt: string = new Date().toISOString()
+): DisputeEvidenceBundle {
+  const timeline = [...(incident?.timeline || [])].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+  const arrivedAt =
+    incident?.sla?.arrivedAt || timeline.find((entry) => entry.to === 'vendor_arrived')?.timestamp;
+  const completedAt =
+    (payment.metadata?.workCompletedAt as string | undefined) ||
+    timeline.find((entry) => entry.to === 'work_completed')?.timestamp;
+  const routesBySession = new Map(routes.map((route) => [route.sessionId, route]));
+
+  return {
+    paymentId: payment.paymentId,
+    incidentId: payment.incidentId,
+    stripeDisputeId,
+    service: {
+      ...(payment.metadata?.serviceType && { type: payment.metadata.serviceType as string }),
+      amountCents: payment.amountCents,
+      currency: payment.currency,
+      lineItems: lineItems.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        totalCents: item.totalCents,
+      })),
+      ...(arrivedAt && { arrivedAt }),
+      ...(completedAt && { completedAt }),
+    },
+    timeline: timeline.map((entry) => ({
+      timestamp: entry.timestamp,
+      from: entry.from,
+      to: entry.to,
+      actor: entry.actor,
+      ...(entry.reason && { reason: entry.reason }),
+    })),
+    photos: (incident?.media || [])
+      .filter((media: MediaArtifact) => media.type === 'photo')
+      .map((media) => ({
+        mediaId: media.mediaId,
+        s3Key: media.s3Key,
+        uploadedBy: media.uploadedBy,
+        uploadedAt: media.uploadedAt,
+      })),
+    trackingPaths: [...sessions]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .flatMap((session) => {
+        const route = routesBySession.get(session.sessionId);
+        return route
+          ? [
+              {
+                sessionId: session.sessionId,
+                vendorId: session.vendorId,
+                status: session.status,
+                startedAt: route.startedAt,
+                pointCount: route.pointCount,
+                distanceKm: route.distanceKm,
+                encodedPath: route.encodedPath,
+              },
+            ]
+          : [];
+      }),
+    gatheredAt,
+  };
+}
+
+/**
+ * Condense an evidence bundle into Stripe's dispute evidence fields. The
+ * uploaded job photo, if any, goes in as service documentation.
+ */
+export function toStripeDisputeEvidence(
+  bundle: DisputeEvidenceBundle,
+  notes?: string
+): Stripe.DisputeUpdateParams.Evidence {
+  const { service } = bundle;
+  const amount = `${(service.amountCents / 100).toFixed(2)} ${service.currency}`;
+  const lineItems = service.lineItems
+    .map((item) => `${item.description} x${item.quantity}: ${(item.totalCents / 100).toFixed(2)}`)
+    .join('; ');
+
+  const timeline = bundle.timeline
+    .slice(-MAX_TIMELINE_LINES)
+    .map(
+      (entry) =>
+        `${entry.timestamp} ${entry.from} -> ${entry.to} (${entry.actor})${
+          entry.reason ? `: ${entry.reason}` : ''
+        }`
+    );
+
+  const tracking = bundle.trackingPaths.map(
+    (path) =>
+      `Vendor GPS track from ${path.startedAt}: ${path.pointCount} fixes over ${path.distanceKm.toFixed(
+        1
+      )} km, session ${path.status}`
+  );
+
+  const photo = bundle.photos.find((p) => p.stripeFileId);
+
+  return {
+    product_description: [
+      `Roadside assistance${service.type ? ` (${service.type})` : ''} for ${amount}.`,
+      ...(lineItems ? [lineItems] : []),
+    ].join(' '),
+    ...((service.arrivedAt || service.completedAt) && {
+      service_date: (service.arrivedAt || service.completedAt)!.slice(0, 10),
+    }),
+    ...(tracking.length > 0 && { access_activity_log: tracking.join('\n') }),
+    uncategorized_text: [
+      ...(notes ? [notes, ''] : []),
+      `Incident ${bundle.incidentId} timeline:`,
+      ...timeline,
+      ...(service.arrivedAt ? [`Vendor arrived on site at ${service.arrivedAt}.`] : []),
+      ...(service.completedAt ? [`Work completed at ${service.completedAt}.`] : []),
+      `${bundle.photos.length} job photo(s) on file.`,
+    ].join('\n'),
+    ...(photo && { service_documentation: photo.stripeFileId }),
+  };
+}
@@ -0,0 +1,238 @@
+import Stripe from 'stripe';
+import type { Incident, TrackingSession, VendorRouteRecord } from '@roadcall/types';
+import { logger, ConflictError, NotFoundError } from '@roadcall/utils';
+import { dynamodb, s3 } from '@roadcall/aws-clients';
+import {
+  DisputeStatus,
+  Payment,
+  PaymentDispute,
+  PaymentLineItem,
+  getPaymentById,
+  getPaymentByStripePaymentIntentId,
+  getPaymentDisputes,
+  saveDisputeEvidence,
+  upsertDispute,
+} from './payment-service';
+import { updateDisputeEvidence, uploadDisputeFile } from './stripe-service';
+import { recordAndPublish } from './refund-service';
+import {
+  DisputeEvidenceBundle,
+  buildDisputeEvidence,
+  toStripeDisputeEvidence,
+} from './dispute-evidence';
+import { publishPaymentDisputed } from './events';
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE_NAME || '';
+const TRACKING_SESSIONS_TABLE = process.env.TRACKING_SESSIONS_TABLE_NAME || '';
+const VENDOR_ROUTES_TABLE = process.env.VENDOR_ROUTES_TABLE_NAME || '';
+const MEDIA_BUCKET = process.env.MEDIA_BUCKET || '';
+
+const MAX_EVIDENCE_PHOTO_BYTES = 4 * 1024 * 1024; // Stripe rejects larger evidence files
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['warning_needs_response', 'needs_response'];
+
+/**
+ * Track a dispute from Stripe's charge.dispute.* webhooks. A new dispute gets
+ * an evidence bundle staged on Stripe for review; a lost one is recorded as a
+ * refund of the disputed amount.
+ */
+export async function handleStripeDispute(
+  stripeDispute: Stripe.Dispute
+): Promise<PaymentDispute | null> {
+  const paymentIntentId =
+    typeof stripeDispute.payment_intent === 'string'
+      ? stripeDispute.payment_intent
+      : stripeDispute.payment_intent?.id;
+  const payment = paymentIntentId ? await getPaymentByStripePaymentIntentId(paymentIntentId) : null;
+
+  if (!payment) {
+    logger.warn('Payment not found for dispute', {
+      stripeDisputeId: stripeDispute.id,
+      paymentIntentId,
+    });
+    return null;
+  }
+
+  const evidenceDueBy = stripeDispute.evidence_details?.due_by;
+  const { dispute, created, previousStatus } = await upsertDispute(
+    payment.paymentId,
+    {
+      stripeDisputeId: stripeDispute.id,
+      amountCents: stripeDispute.amount,
+      reason: stripeDispute.reason,
+      status: stripeDispute.status as DisputeStatus,
+      ...(evidenceDueBy && { evidenceDueBy: new Date(evidenceDueBy * 1000).toISOString() }),
+    },
+    'stripe_webhook'
+  );
+
+  if (created) {
+    await publishPaymentDisputed({
+      paymentId: payment.paymentId,
+      incidentId: payment.incidentId,
+      vendorId: payment.vendorId,
+      stripeDisputeId: dispute.stripeDisputeId,
+      amountCents: dispute.amountCents,
+      status: dispute.status,
+      ...(dispute.reason && { reason: dispute.reason }),
+      ...(dispute.evidenceDueBy && { evidenceDueBy: dispute.evidenceDueBy }),
+    });
+  }
+
+  if (created && OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+    return stageDisputeEvidence(payment, dispute);
+  }
+
+  if (dispute.status === 'lost' && previousStatus !== 'lost') {
+    await recordAndPublish(
+      payment,
+      {
+        source: 'dispute',
+        amountCents: dispute.amountCents,
+        reason: dispute.reason,
+        stripeDisputeId: dispute.stripeDisputeId,
+      },
+      'stripe_webhook',
+      'system'
+    );
+  }
+
+  return dispute;
+}
+
+/**
+ * Submit a dispute's evidence to the card issuer, optionally with a note from
+ * the reviewer. Submission is final, so it only happens on request.
+ */
+export async function submitDisputeEvidence(
+  paymentId: string,
+  actorId: string,
+  notes?: string
+): Promise<PaymentDispute> {
+  const paymentData = await getPaymentById(paymentId);
+
+  if (!paymentData) {
+    throw new NotFoundError('Payment', paymentId);
+  }
+
+  const dispute = (await getPaymentDisputes(paymentId)).find((d) =>
+    OPEN_DISPUTE_STATUSES.includes(d.status)
+  );
+
+  if (!dispute) {
+    throw new ConflictError('Payment has no dispute awaiting evidence');
+  }
+
+  const bundle =
+    (dispute.evidence as DisputeEvidenceBundle | undefined) ||
+    (await gatherDisputeEvidence(
+      paymentData.payment,
+      paymentData.lineItems,
+      dispute.stripeDisputeId
+    ));
+
+  await updateDisputeEvidence(
+    dispute.stripeDisputeId,
+    toStripeDisputeEvidence(bundle, notes),
+    true
+  );
+
+  logger.info('Dispute evidence submitted', {
+    paymentId,
+    stripeDisputeId: dispute.stripeDisputeId,
+    submittedBy: actorId,
+  });
+
+  return saveDisputeEvidence(dispute.disputeId, { ...bundle, submittedBy: actorId }, true);
+}
+
+/**
+ * Build the evidence bundle for a new dispute and stage it on Stripe without
+ * submitting, so a reviewer can add to it before the deadline
+ */
+async function stageDisputeEvidence(
+  payment: Payment,
+  dispute: PaymentDispute
+): Promise<PaymentDispute> {
+  const lineItems = (await getPaymentById(payment.paymentId))?.lineItems || [];
+  const bundle = await gatherDisputeEvidence(payment, lineItems, dispute.stripeDisputeId);
+
+  await updateDisputeEvidence(dispute.stripeDisputeId, toStripeDisputeEvidence(bundle), false);
+
+  return saveDisputeEvidence(dispute.disputeId, bundle, false);
+}
+
+/**
+ * Load the incident, its tracking sessions and routes and the latest job photo
+ * for a disputed payment. Missing records leave their part of the bundle empty.
+ */
+async function gatherDisputeEvidence(
+  payment: Payment,
+  lineItems: PaymentLineItem[],
+  stripeDisputeId: string
+): Promise<DisputeEvidenceBundle> {
+  const [incident, sessions, routes] = await Promise.all([
+    INCIDENTS_TABLE
+      ? dynamodb.get<Incident>(INCIDENTS_TABLE, { incidentId: payment.incidentId })
+      : Promise.resolve(null),
+    TRACKING_SESSIONS_TABLE
+      ? dynamodb.query<TrackingSession>(
+          TRACKING_SESSIONS_TABLE,
+          'incidentId = :incidentId',
+          { ':incidentId': payment.incidentId },
+          'incident-index'
+        )
+      : Promise.resolve([]),
+    VENDOR_ROUTES_TABLE
+      ? dynamodb.query<VendorRouteRecord>(
+          VENDOR_ROUTES_TABLE,
+          'incidentId = :incidentId',
+          { ':incidentId': payment.incidentId },
+          'incident-index'
+        )
+      : Promise.resolve([]),
+  ]);
+
+  const bundle = buildDisputeEvidence(
+    stripeDisputeId,
+    payment,
+    lineItems,
+    incident,
+    sessions,
+    routes
+  );
+
+  // The latest photo is usually the finished job
+  const photo = [...bundle.photos].sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))[0];
+  const type = photo && photoContentType(photo.s3Key);
+
+  if (photo && type && MEDIA_BUCKET) {
+    try {
+      const data = await s3.download(MEDIA_BUCKET, photo.s3Key);
+      if (data.length <= MAX_EVIDENCE_PHOTO_BYTES) {
+        const file = await uploadDisputeFile(data, photo.s3Key.split('/').pop()!, type);
+        photo.stripeFileId = file.id;
+      }
+    } catch (error) {
+      // The text evidence still goes in without the photo
+      logger.warn('Failed to attach job photo to dispute evidence', {
+        paymentId: payment.paymentId,
+        mediaId: photo.mediaId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return bundle;
+}
+
+function photoContentType(s3Key: string): string | undefined {
+  const extension = s3Key.split('.').pop()?.toLowerCase();
+
+  if (extension === 'jpg' || extension === 'jpeg') {
+    return 'image/jpeg';
+  }
+  if (extension === 'png') {
+    return 'image/png';
+  }
+  return undefined;
+}
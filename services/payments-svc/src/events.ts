@@ -7,6 +7,8 @@ import {
   PaymentCompletedDetail,
   PaymentFailedDetail,
   PaymentFlaggedDetail,
+  PaymentRefundedDetail,
+  PaymentDisputedDetail,
 } from '@roadcall/events';
 
 /**
@@ -77,3 +79,33 @@ export async function publishPaymentFlagged(detail: Omit<PaymentFlaggedDetail, '
     resources: [`payment/${detail.paymentId}`, `incident/${detail.incidentId}`, `vendor/${detail.vendorId}`],
   });
 }
+
+/**
+ * Publish PaymentRefunded event
+ */
+export async function publishPaymentRefunded(
+  detail: Omit<PaymentRefundedDetail, 'eventId' | 'timestamp' | 'version'>
+): Promise<void> {
+  const publisher = getEventPublisher();
+  await publisher.publishEvent({
+    source: EventSources.PAYMENT_SERVICE,
+    detailType: EventTypes.PAYMENT_REFUNDED,
+    detail: detail as PaymentRefundedDetail,
+    resources: [`payment/${detail.paymentId}`, `incident/${detail.incidentId}`, `vendor/${detail.vendorId}`],
+  });
+}
+
+/**
+ * Publish PaymentDisputed event
+ */
+export async function publishPaymentDisputed(
+  detail: Omit<PaymentDisputedDetail, 'eventId' | 'timestamp' | 'version'>
+): Promise<void> {
+  const publisher = getEventPublisher();
+  await publisher.publishEvent({
+    source: EventSources.PAYMENT_SERVICE,
+    detailType: EventTypes.PAYMENT_DISPUTED,
+    detail: detail as PaymentDisputedDetail,
+    resources: [`payment/${detail.paymentId}`, `incident/${detail.incidentId}`, `vendor/${detail.vendorId}`],
+  });
+}
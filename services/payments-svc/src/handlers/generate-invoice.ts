@@ -0,0 +1,82 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { generateInvoice } from '../invoice-service';
+import { logger, ConflictError, ValidationError } from '@roadcall/utils';
+
+/**
+ * Lambda handler for drafting a fleet company's invoice for a billing period
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    if (!userId) {
+      return {
+        statusCode: 401,
+        body: JSON.stringify({ error: 'Unauthorized' }),
+      };
+    }
+
+    if (userRole !== 'admin') {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to generate invoices' }),
+      };
+    }
+
+    const { companyId, period } = JSON.parse(event.body || '{}');
+
+    if (!companyId || !period) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'companyId and period are required' }),
+      };
+    }
+
+    const result = await generateInvoice(companyId, period, userId);
+
+    if (!result) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: 'Nothing to invoice for this company and period' }),
+      };
+    }
+
+    logger.info('Invoice generated via API', {
+      invoiceId: result.invoice.invoiceId,
+      companyId,
+      period,
+      generatedBy: userId,
+    });
+
+    return {
+      statusCode: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(result),
+    };
+  } catch (error: any) {
+    logger.error('Error generating invoice', error as Error);
+
+    if (error instanceof ValidationError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    if (error instanceof ConflictError) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
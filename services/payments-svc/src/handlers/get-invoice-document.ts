@@ -0,0 +1,75 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { s3 } from '@roadcall/aws-clients';
+import { canViewInvoice, getInvoice } from '../invoice-service';
+import { renderInvoiceCsv, renderInvoicePdf } from '../invoice-render';
+import { logger } from '@roadcall/utils';
+
+const INVOICES_BUCKET = process.env.INVOICES_BUCKET || '';
+const DOCUMENT_URL_EXPIRY_SECONDS = 300;
+
+/**
+ * Lambda handler for downloading an invoice as PDF or CSV. The document is
+ * rendered from the invoice as it stands, stored, and returned as a short-lived
+ * download URL.
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const invoiceId = event.pathParameters?.id;
+    const format = event.queryStringParameters?.format || 'pdf';
+
+    if (!invoiceId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Invoice ID is required' }),
+      };
+    }
+
+    if (format !== 'pdf' && format !== 'csv') {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'format must be pdf or csv' }),
+      };
+    }
+
+    // Get user context from authorizer
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+    const userCompanyId = event.requestContext.authorizer?.claims?.['custom:companyId'];
+
+    const result = await getInvoice(invoiceId);
+
+    if (!result || !canViewInvoice(result.invoice, userRole, userCompanyId)) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: 'Invoice not found' }),
+      };
+    }
+
+    const { invoice, lines } = result;
+    const key = `invoices/${invoice.companyId}/${invoice.invoiceNumber}-${invoice.status}.${format}`;
+
+    if (format === 'pdf') {
+      await s3.upload(INVOICES_BUCKET, key, renderInvoicePdf(invoice, lines), 'application/pdf');
+    } else {
+      await s3.upload(INVOICES_BUCKET, key, renderInvoiceCsv(invoice, lines), 'text/csv');
+    }
+
+    const url = await s3.getPresignedUrl(INVOICES_BUCKET, key, DOCUMENT_URL_EXPIRY_SECONDS);
+
+    logger.info('Invoice document rendered', { invoiceId, format });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ url, format, expiresIn: DOCUMENT_URL_EXPIRY_SECONDS }),
+    };
+  } catch (error: any) {
+    logger.error('Error rendering invoice document', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { canViewInvoice, getInvoice } from '../invoice-service';
+import { logger } from '@roadcall/utils';
+
+/**
+ * Lambda handler for getting an invoice with its lines
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const invoiceId = event.pathParameters?.id;
+
+    if (!invoiceId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Invoice ID is required' }),
+      };
+    }
+
+    // Get user context from authorizer
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+    const userCompanyId = event.requestContext.authorizer?.claims?.['custom:companyId'];
+
+    const result = await getInvoice(invoiceId);
+
+    // Invoices the user may not see are reported as missing
+    if (!result || !canViewInvoice(result.invoice, userRole, userCompanyId)) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: 'Invoice not found' }),
+      };
+    }
+
+    logger.info('Invoice retrieved', { invoiceId });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(result),
+    };
+  } catch (error: any) {
+    logger.error('Error getting invoice', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { getPaymentById } from '../payment-service';
+import { getPaymentById, getPaymentDisputes, getPaymentRefunds } from '../payment-service';
+import { getPaymentLedger } from '../ledger-service';
 import { logger } from '@roadcall/utils';
 
 /**
@@ -25,6 +26,12 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       };
     }
 
+    const [refunds, disputes, ledger] = await Promise.all([
+      getPaymentRefunds(paymentId),
+      getPaymentDisputes(paymentId),
+      getPaymentLedger(paymentId),
+    ]);
+
     logger.info('Payment retrieved', { paymentId });
 
     return {
@@ -32,7 +39,7 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(result),
+      body: JSON.stringify({ ...result, refunds, disputes, ledger }),
     };
   } catch (error: any) {
     logger.error('Error getting payment', error as Error);
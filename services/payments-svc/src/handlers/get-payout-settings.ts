@@ -0,0 +1,55 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { canViewPayouts, getPayoutSettings } from '../payout-service';
+import { logger } from '@roadcall/utils';
+
+/**
+ * Lambda handler for getting a vendor's payout schedule
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    // Vendors can ask for their own with 'me'
+    const vendorId = event.pathParameters?.id === 'me' ? userId : event.pathParameters?.id;
+
+    if (!vendorId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Vendor ID is required' }),
+      };
+    }
+
+    if (!canViewPayouts(vendorId, userRole, userId)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to view payout settings' }),
+      };
+    }
+
+    const settings = await getPayoutSettings(vendorId);
+
+    if (!settings) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: 'Payouts are not set up for this vendor' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(settings),
+    };
+  } catch (error: any) {
+    logger.error('Error getting payout settings', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { canViewPayouts, getPayoutBatch } from '../payout-service';
+import { logger } from '@roadcall/utils';
+
+/**
+ * Lambda handler for getting a payout statement with its jobs and adjustments
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const batchId = event.pathParameters?.id;
+
+    if (!batchId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Statement ID is required' }),
+      };
+    }
+
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    const batch = await getPayoutBatch(batchId);
+
+    // Other vendors' statements are reported as missing
+    if (!batch || !canViewPayouts(batch.vendorId, userRole, userId)) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: 'Payout statement not found' }),
+      };
+    }
+
+    logger.info('Payout statement retrieved', { batchId });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(batch),
+    };
+  } catch (error: any) {
+    logger.error('Error getting payout statement', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { getTrialBalance } from '../ledger-service';
+import { logger } from '@roadcall/utils';
+
+/**
+ * Lambda handler for the ledger trial balance
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user context from authorizer
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    if (userRole !== 'admin') {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to view the ledger' }),
+      };
+    }
+
+    const trialBalance = await getTrialBalance();
+
+    // A non-zero total means an unbalanced entry got past the database check
+    if (trialBalance.totalCents !== 0) {
+      logger.error('Ledger trial balance does not sum to zero', undefined, {
+        totalCents: trialBalance.totalCents,
+      });
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(trialBalance),
+    };
+  } catch (error: any) {
+    logger.error('Error getting trial balance', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
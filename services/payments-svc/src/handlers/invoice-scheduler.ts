@@ -0,0 +1,29 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import {
+  generateMonthlyInvoices,
+  getPreviousBillingPeriod,
+  markOverdueInvoices,
+} from '../invoice-service';
+
+/**
+ * Lambda handler run daily by an EventBridge schedule. Marks invoices past
+ * their due date overdue and, on the first of the month, drafts invoices for
+ * the month just ended.
+ */
+export async function handler(event: ScheduledEvent): Promise<void> {
+  try {
+    const now = new Date(event.time);
+    const overdue = await markOverdueInvoices(now);
+
+    let generated = 0;
+    if (now.getUTCDate() === 1) {
+      generated = (await generateMonthlyInvoices(getPreviousBillingPeriod(now))).length;
+    }
+
+    logger.info('Invoice schedule completed', { overdue: overdue.length, generated });
+  } catch (error) {
+    logger.error('Invoice schedule failed', error as Error);
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { InvoiceStatus, getInvoices } from '../invoice-service';
+import { logger } from '@roadcall/utils';
+
+const INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'paid', 'overdue'];
+
+/**
+ * Lambda handler for listing invoices. Dispatchers see their own company's
+ * sent invoices; admins see every invoice and can filter by company.
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user context from authorizer
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+    const userCompanyId = event.requestContext.authorizer?.claims?.['custom:companyId'];
+
+    if (userRole !== 'admin' && !(userRole === 'dispatcher' && userCompanyId)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to view invoices' }),
+      };
+    }
+
+    // Parse query parameters
+    const params = event.queryStringParameters || {};
+    const limit = params.limit ? parseInt(params.limit, 10) : 50;
+    const offset = params.offset ? parseInt(params.offset, 10) : 0;
+    const status = params.status as InvoiceStatus | undefined;
+
+    if (status && !INVOICE_STATUSES.includes(status)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: `status must be one of: ${INVOICE_STATUSES.join(', ')}` }),
+      };
+    }
+
+    const companyId = userRole === 'admin' ? params.companyId : userCompanyId;
+    const visibleStatuses =
+      userRole === 'admin' ? INVOICE_STATUSES : INVOICE_STATUSES.filter((s) => s !== 'draft');
+    const invoices = await getInvoices(
+      {
+        companyId,
+        statuses: status ? visibleStatuses.filter((s) => s === status) : visibleStatuses,
+      },
+      limit,
+      offset
+    );
+
+    logger.info('Invoices retrieved', { companyId, count: invoices.length, limit, offset });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ invoices, limit, offset }),
+    };
+  } catch (error: any) {
+    logger.error('Error listing invoices', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
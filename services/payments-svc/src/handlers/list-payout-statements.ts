@@ -0,0 +1,63 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { canViewPayouts, getVendorPayoutBatches } from '../payout-service';
+import { logger } from '@roadcall/utils';
+
+/**
+ * Lambda handler for listing a vendor's payout statements, newest first
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    // Vendors can ask for their own with 'me'
+    const vendorId = event.pathParameters?.id === 'me' ? userId : event.pathParameters?.id;
+
+    if (!vendorId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Vendor ID is required' }),
+      };
+    }
+
+    if (!canViewPayouts(vendorId, userRole, userId)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to view payout statements' }),
+      };
+    }
+
+    // Parse query parameters
+    const params = event.queryStringParameters || {};
+    const limit = params.limit ? parseInt(params.limit, 10) : 50;
+    const offset = params.offset ? parseInt(params.offset, 10) : 0;
+
+    // The list leaves out each statement's jobs; GET /payouts/statements/:id has them
+    const statements = (await getVendorPayoutBatches(vendorId, limit, offset)).map(
+      ({ statement, ...batch }) => ({ ...batch, jobCount: statement.jobs.length })
+    );
+
+    logger.info('Payout statements retrieved', {
+      vendorId,
+      count: statements.length,
+      limit,
+      offset,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ statements, limit, offset }),
+    };
+  } catch (error: any) {
+    logger.error('Error listing payout statements', error as Error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
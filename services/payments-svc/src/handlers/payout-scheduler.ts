@@ -0,0 +1,19 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { logger } from '@roadcall/utils';
+import { runScheduledPayouts } from '../payout-service';
+
+/**
+ * Lambda handler run every 15 minutes by an EventBridge schedule. Pays out
+ * instant-schedule vendors on every run and daily and weekly ones on their
+ * first run of the day.
+ */
+export async function handler(event: ScheduledEvent): Promise<void> {
+  try {
+    const batches = await runScheduledPayouts(new Date(event.time));
+
+    logger.info('Payout schedule completed', { batches: batches.length });
+  } catch (error) {
+    logger.error('Payout schedule failed', error as Error);
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { issueRefund } from '../refund-service';
+import { logger, NotFoundError, ConflictError, ValidationError } from '@roadcall/utils';
+
+/**
+ * Lambda handler for refunding a payment in full or in part
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const paymentId = event.pathParameters?.id;
+
+    if (!paymentId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Payment ID is required' }),
+      };
+    }
+
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    if (!userId) {
+      return {
+        statusCode: 401,
+        body: JSON.stringify({ error: 'Unauthorized' }),
+      };
+    }
+
+    // Check if user has permission to refund payments
+    if (userRole !== 'dispatcher' && userRole !== 'admin') {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to refund payments' }),
+      };
+    }
+
+    const { amountCents, reason } = JSON.parse(event.body || '{}');
+
+    const result = await issueRefund(
+      paymentId,
+      { amountCents, reason },
+      userId,
+      userRole === 'admin' ? 'admin' : 'user'
+    );
+
+    logger.info('Payment refunded via API', {
+      paymentId,
+      refundedBy: userId,
+      amountCents: result.refund?.amountCents,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(result),
+    };
+  } catch (error: any) {
+    logger.error('Error refunding payment', error as Error);
+
+    if (error instanceof ValidationError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    if (error instanceof NotFoundError) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    if (error instanceof ConflictError) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
@@ -1,7 +1,17 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { constructWebhookEvent } from '../stripe-service';
-import { getPaymentById, updatePayment } from '../payment-service';
-import { logger } from '@roadcall/utils';
+import { constructWebhookEvent, getPaymentIntentFee, listPaymentEvents } from '../stripe-service';
+import {
+  Payment,
+  UpdatePaymentInput,
+  claimStripeEvent,
+  finishStripeEvent,
+  getPaymentById,
+  updatePayment,
+} from '../payment-service';
+import { syncChargeRefunds, syncTransferReversals } from '../refund-service';
+import { handleStripeDispute } from '../dispute-service';
+import { reconcilePayout } from '../payout-service';
+import { logger, ConflictError, NotFoundError } from '@roadcall/utils';
 import { eventBridge, EventSources, EventTypes } from '@roadcall/aws-clients';
 import Stripe from 'stripe';
 
@@ -63,25 +73,105 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
   }
 }
 
+/**
+ * Handle a Stripe webhook event once per event ID. Returns false when the
+ * event has already been handled, so Stripe's retried deliveries are skipped.
+ * An event that failed is recorded as failed and handled again on retry.
+ */
+export async function handleWebhookEvent(event: Stripe.Event): Promise<boolean> {
+  const object = event.data.object as any;
+
+  const claimed = await claimStripeEvent({
+    eventId: event.id,
+    eventType: event.type,
+    objectId: object.id,
+    paymentId: object.metadata?.paymentId,
+    createdAt: getEventCreatedAt(event),
+  });
+
+  if (!claimed) {
+    logger.info('Skipping Stripe event already handled', {
+      eventId: event.id,
+      eventType: event.type,
+    });
+    return false;
+  }
+
+  try {
+    await applyWebhookEvent(event);
+  } catch (error: any) {
+    await finishStripeEvent(event.id, error.message);
+    throw error;
+  }
+
+  await finishStripeEvent(event.id);
+  return true;
+}
+
+/**
+ * Re-fetch a payment's events from Stripe and apply any that were missed or
+ * failed, oldest first. Stripe keeps events for 30 days.
+ */
+export async function replayPaymentEvents(
+  paymentId: string
+): Promise<Array<{ eventId: string; type: string; applied: boolean }>> {
+  const paymentData = await getPaymentById(paymentId);
+
+  if (!paymentData) {
+    throw new NotFoundError('Payment', paymentId);
+  }
+
+  const events = await listPaymentEvents(paymentData.payment);
+  events.sort((a, b) => a.created - b.created);
+
+  const results = [];
+  for (const event of events) {
+    results.push({
+      eventId: event.id,
+      type: event.type,
+      applied: await handleWebhookEvent(event),
+    });
+  }
+
+  logger.info('Replayed Stripe events', {
+    paymentId,
+    events: results.length,
+    applied: results.filter((result) => result.applied).length,
+  });
+
+  return results;
+}
+
 /**
  * Handle different types of Stripe webhook events
  */
-async function handleWebhookEvent(event: Stripe.Event): Promise<void> {
+async function applyWebhookEvent(event: Stripe.Event): Promise<void> {
+  const eventAt = getEventCreatedAt(event);
+
+  if (event.type.startsWith('charge.dispute.')) {
+    await handleStripeDispute(event.data.object as Stripe.Dispute);
+    return;
+  }
+
   switch (event.type) {
     case 'payment_intent.succeeded':
-      await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
+      await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent, eventAt);
       break;
 
     case 'payment_intent.payment_failed':
-      await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+      await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent, eventAt);
       break;
 
     case 'payment_intent.canceled':
-      await handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent);
+      await handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent, eventAt);
       break;
 
     case 'payment_intent.requires_action':
-      await handlePaymentIntentRequiresAction(event.data.object as Stripe.PaymentIntent);
+      await handlePaymentIntentRequiresAction(event.data.object as Stripe.PaymentIntent, eventAt);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
       break;
 
     case 'transfer.created':
@@ -105,10 +195,45 @@ async function handleWebhookEvent(event: Stripe.Event): Promise<void> {
   }
 }
 
+/**
+ * When Stripe created an event, which orders it against the payment's status
+ */
+function getEventCreatedAt(event: Stripe.Event): string {
+  return new Date(event.created * 1000).toISOString();
+}
+
+/**
+ * Update a payment's status from a Stripe event, or return null when the
+ * event is older than the last one applied and is ignored
+ */
+async function applyEventStatus(
+  paymentId: string,
+  input: UpdatePaymentInput,
+  eventAt: string
+): Promise<Payment | null> {
+  try {
+    return await updatePayment(
+      paymentId,
+      { ...input, stripeEventAt: eventAt },
+      'stripe_webhook',
+      'system'
+    );
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      logger.info('Ignoring stale Stripe event', { paymentId, status: input.status, eventAt });
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Handle successful payment intent
  */
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+async function handlePaymentIntentSucceeded(
+  paymentIntent: Stripe.PaymentIntent,
+  eventAt: string
+): Promise<void> {
   const paymentId = paymentIntent.metadata.paymentId;
 
   if (!paymentId) {
@@ -137,18 +262,22 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
 
   const { payment } = paymentData;
 
-  // Update payment status
-  if (payment.status === 'processing') {
-    const updatedPayment = await updatePayment(
+  // Update payment status; a failed payment can succeed when it is retried
+  if (payment.status === 'processing' || payment.status === 'failed') {
+    const updatedPayment = await applyEventStatus(
       paymentId,
       {
         status: 'completed',
         stripePaymentIntentId: paymentIntent.id,
+        stripeFeeCents: await getPaymentIntentFee(paymentIntent),
       },
-      'stripe_webhook',
-      'system'
+      eventAt
     );
 
+    if (!updatedPayment) {
+      return;
+    }
+
     // Publish PaymentCompleted event
     await eventBridge.publishEvent({
       source: EventSources.PAYMENT_SERVICE,
@@ -170,7 +299,10 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
 /**
  * Handle failed payment intent
  */
-async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+async function handlePaymentIntentFailed(
+  paymentIntent: Stripe.PaymentIntent,
+  eventAt: string
+): Promise<void> {
   const paymentId = paymentIntent.metadata.paymentId;
 
   if (!paymentId) {
@@ -197,17 +329,20 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): P
 
   // Update payment status
   if (payment.status === 'processing') {
-    const updatedPayment = await updatePayment(
+    const updatedPayment = await applyEventStatus(
       paymentId,
       {
         status: 'failed',
         stripePaymentIntentId: paymentIntent.id,
         failedReason: paymentIntent.last_payment_error?.message || 'Payment failed',
       },
-      'stripe_webhook',
-      'system'
+      eventAt
     );
 
+    if (!updatedPayment) {
+      return;
+    }
+
     // Publish PaymentFailed event
     await eventBridge.publishEvent({
       source: EventSources.PAYMENT_SERVICE,
@@ -227,7 +362,10 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): P
 /**
  * Handle canceled payment intent
  */
-async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+async function handlePaymentIntentCanceled(
+  paymentIntent: Stripe.PaymentIntent,
+  eventAt: string
+): Promise<void> {
   const paymentId = paymentIntent.metadata.paymentId;
 
   if (!paymentId) {
@@ -240,14 +378,13 @@ async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent):
   });
 
   // Update payment status
-  await updatePayment(
+  await applyEventStatus(
     paymentId,
     {
       status: 'cancelled',
       stripePaymentIntentId: paymentIntent.id,
     },
-    'stripe_webhook',
-    'system'
+    eventAt
   );
 }
 
@@ -255,7 +392,8 @@ async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent):
  * Handle payment intent requiring action
  */
 async function handlePaymentIntentRequiresAction(
-  paymentIntent: Stripe.PaymentIntent
+  paymentIntent: Stripe.PaymentIntent,
+  eventAt: string
 ): Promise<void> {
   const paymentId = paymentIntent.metadata.paymentId;
 
@@ -269,6 +407,20 @@ async function handlePaymentIntentRequiresAction(
     nextAction: paymentIntent.next_action?.type,
   });
 
+  // The payment is still processing; skip the event if it has since moved on
+  const updatedPayment = await applyEventStatus(
+    paymentId,
+    {
+      status: 'processing',
+      stripePaymentIntentId: paymentIntent.id,
+    },
+    eventAt
+  );
+
+  if (!updatedPayment) {
+    return;
+  }
+
   // Publish event for client to handle
   await eventBridge.publishEvent({
     source: EventSources.PAYMENT_SERVICE,
@@ -306,7 +458,7 @@ async function handleTransferCreated(transfer: Stripe.Transfer): Promise<void> {
   await updatePayment(
     paymentId,
     {
-      stripePaymentIntentId: transfer.id,
+      stripeTransferId: transfer.id,
     },
     'stripe_webhook',
     'system'
@@ -314,26 +466,43 @@ async function handleTransferCreated(transfer: Stripe.Transfer): Promise<void> {
 }
 
 /**
- * Handle reversed transfer
+ * Handle refunded charge, including partial and dashboard-issued refunds
+ */
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  logger.info('Charge refunded', {
+    chargeId: charge.id,
+    amountRefunded: charge.amount_refunded,
+  });
+
+  await syncChargeRefunds(charge);
+}
+
+/**
+ * Handle reversed transfer: a payment's own transfer or a payout batch's
  */
 async function handleTransferReversed(transfer: Stripe.Transfer): Promise<void> {
-  const paymentId = transfer.metadata.paymentId;
+  const { paymentId, batchId } = transfer.metadata;
 
-  if (!paymentId) {
+  if (!paymentId && !batchId) {
     return;
   }
 
   logger.warn('Transfer reversed', {
     transferId: transfer.id,
     paymentId,
+    batchId,
   });
 
+  // Record the clawback from the vendor's Connect account
+  await syncTransferReversals(transfer);
+
   // Publish event for manual review
   await eventBridge.publishEvent({
     source: EventSources.PAYMENT_SERVICE,
     detailType: 'PaymentTransferReversed',
     detail: {
-      paymentId,
+      ...(paymentId && { paymentId }),
+      ...(batchId && { batchId }),
       transferId: transfer.id,
       amount: transfer.amount,
     },
@@ -341,7 +510,7 @@ async function handleTransferReversed(transfer: Stripe.Transfer): Promise<void>
 }
 
 /**
- * Handle successful payout
+ * Handle successful payout: the vendor's payout batch has reached their bank
  */
 async function handlePayoutPaid(payout: Stripe.Payout): Promise<void> {
   logger.info('Payout paid', {
@@ -350,8 +519,7 @@ async function handlePayoutPaid(payout: Stripe.Payout): Promise<void> {
     destination: payout.destination,
   });
 
-  // Log for audit purposes
-  // Payouts are typically not linked to individual payments
+  await reconcilePayout(payout, 'paid');
 }
 
 /**
@@ -365,12 +533,16 @@ async function handlePayoutFailed(payout: Stripe.Payout): Promise<void> {
     failureMessage: payout.failure_message,
   });
 
+  const batch = await reconcilePayout(payout, 'failed');
+
   // Publish event for manual review
   await eventBridge.publishEvent({
     source: EventSources.PAYMENT_SERVICE,
     detailType: 'PayoutFailed',
     detail: {
       payoutId: payout.id,
+      batchId: batch?.batchId,
+      vendorId: batch?.vendorId,
       amount: payout.amount,
       failureCode: payout.failure_code,
       failureMessage: payout.failure_message,
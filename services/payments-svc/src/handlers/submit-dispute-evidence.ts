@@ -0,0 +1,78 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { submitDisputeEvidence } from '../dispute-service';
+import { logger, NotFoundError, ConflictError } from '@roadcall/utils';
+
+/**
+ * Lambda handler for submitting a disputed payment's evidence bundle to the
+ * card issuer
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const paymentId = event.pathParameters?.id;
+
+    if (!paymentId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Payment ID is required' }),
+      };
+    }
+
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    if (!userId) {
+      return {
+        statusCode: 401,
+        body: JSON.stringify({ error: 'Unauthorized' }),
+      };
+    }
+
+    // Submission is final, so only admins can do it
+    if (userRole !== 'admin') {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to submit dispute evidence' }),
+      };
+    }
+
+    const { notes } = JSON.parse(event.body || '{}');
+
+    const dispute = await submitDisputeEvidence(paymentId, userId, notes);
+
+    logger.info('Dispute evidence submitted via API', {
+      paymentId,
+      stripeDisputeId: dispute.stripeDisputeId,
+      submittedBy: userId,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(dispute),
+    };
+  } catch (error: any) {
+    logger.error('Error submitting dispute evidence', error as Error);
+
+    if (error instanceof NotFoundError) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    if (error instanceof ConflictError) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { InvoiceStatus, updateInvoiceStatus } from '../invoice-service';
+import { logger, NotFoundError, ConflictError } from '@roadcall/utils';
+
+const SETTABLE_STATUSES: InvoiceStatus[] = ['sent', 'paid', 'overdue'];
+
+/**
+ * Lambda handler for sending an invoice or marking it paid or overdue
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const invoiceId = event.pathParameters?.id;
+
+    if (!invoiceId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Invoice ID is required' }),
+      };
+    }
+
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    if (!userId) {
+      return {
+        statusCode: 401,
+        body: JSON.stringify({ error: 'Unauthorized' }),
+      };
+    }
+
+    if (userRole !== 'admin') {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to update invoices' }),
+      };
+    }
+
+    const { status } = JSON.parse(event.body || '{}');
+
+    if (!SETTABLE_STATUSES.includes(status)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: `status must be one of: ${SETTABLE_STATUSES.join(', ')}` }),
+      };
+    }
+
+    const invoice = await updateInvoiceStatus(invoiceId, status, userId);
+
+    logger.info('Invoice status updated via API', { invoiceId, status, updatedBy: userId });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(invoice),
+    };
+  } catch (error: any) {
+    logger.error('Error updating invoice status', error as Error);
+
+    if (error instanceof NotFoundError) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    if (error instanceof ConflictError) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
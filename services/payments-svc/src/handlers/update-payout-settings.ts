@@ -0,0 +1,79 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { canViewPayouts, getPayoutSettings, upsertPayoutSettings } from '../payout-service';
+import { logger, ValidationError } from '@roadcall/utils';
+
+/**
+ * Lambda handler for setting a vendor's payout schedule. Vendors choose their
+ * own schedule; only admins set the Stripe Connect account paid into.
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user context from authorizer
+    const userId = event.requestContext.authorizer?.claims?.sub;
+    const userRole = event.requestContext.authorizer?.claims?.['custom:role'];
+
+    // Vendors can ask for their own with 'me'
+    const vendorId = event.pathParameters?.id === 'me' ? userId : event.pathParameters?.id;
+
+    if (!vendorId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Vendor ID is required' }),
+      };
+    }
+
+    if (!userId) {
+      return {
+        statusCode: 401,
+        body: JSON.stringify({ error: 'Unauthorized' }),
+      };
+    }
+
+    if (!canViewPayouts(vendorId, userRole, userId)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ error: 'Insufficient permissions to update payout settings' }),
+      };
+    }
+
+    const { stripeAccountId, schedule, weeklyAnchor } = JSON.parse(event.body || '{}');
+
+    if (stripeAccountId !== undefined && userRole !== 'admin') {
+      const current = await getPayoutSettings(vendorId);
+      if (current?.stripeAccountId !== stripeAccountId) {
+        return {
+          statusCode: 403,
+          body: JSON.stringify({ error: 'Only admins can change the payout account' }),
+        };
+      }
+    }
+
+    const settings = await upsertPayoutSettings(
+      vendorId,
+      { stripeAccountId, schedule, weeklyAnchor },
+      userId
+    );
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(settings),
+    };
+  } catch (error: any) {
+    logger.error('Error updating payout settings', error as Error);
+
+    if (error instanceof ValidationError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
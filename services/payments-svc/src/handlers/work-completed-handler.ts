@@ -8,6 +8,8 @@ const sqsClient = new SQSClient({});
 
 interface WorkCompletedDetail {
   incidentId: string;
+  parentIncidentId?: string; // Set when the work was a follow-up leg
+  legNumber?: number;
   vendorId: string;
   driverId: string;
   completedAt: string;
@@ -24,6 +26,8 @@ interface WorkCompletedDetail {
       description: string;
       amount: number;
     }>;
+    negotiatedPrice?: number; // Replaces base price and mileage when the vendor countered
+    slaPremium?: { tier: string; multiplier: number; amount: number }; // Added by the SLA tier
   };
 }
 
@@ -37,19 +41,38 @@ export async function handler(
   try {
     const { incidentId, vendorId, pricing, workDetails } = event.detail;
 
-    // Build line items from pricing
-    const lineItems: CreatePaymentInput['lineItems'] = [
-      {
-        description: `${workDetails.serviceType} - Base Service`,
-        quantity: 1,
-        unitPriceCents: pricing.basePrice,
-      },
-      {
-        description: 'Mileage Charge',
+    // Build line items from pricing; a negotiated price covers base service and mileage
+    const lineItems: CreatePaymentInput['lineItems'] =
+      pricing.negotiatedPrice !== undefined
+        ? [
+            {
+              description: `${workDetails.serviceType} - Negotiated Service Price`,
+              quantity: 1,
+              unitPriceCents: pricing.negotiatedPrice,
+            },
+          ]
+        : [
+            {
+              description: `${workDetails.serviceType} - Base Service`,
+              quantity: 1,
+              unitPriceCents: pricing.basePrice,
+            },
+            {
+              description: 'Mileage Charge',
+              quantity: 1,
+              unitPriceCents: pricing.mileageCharge,
+            },
+          ];
+
+    // The SLA tier's premium is billed on its own line
+    if (pricing.negotiatedPrice === undefined && pricing.slaPremium) {
+      const { tier, multiplier, amount } = pricing.slaPremium;
+      lineItems.push({
+        description: `${tier} SLA Premium (x${multiplier})`,
         quantity: 1,
-        unitPriceCents: pricing.mileageCharge,
-      },
-    ];
+        unitPriceCents: amount,
+      });
+    }
 
     // Add additional charges if any
     if (pricing.additionalCharges) {
@@ -81,6 +104,18 @@ export async function handler(
         serviceType: workDetails.serviceType,
         duration: workDetails.duration,
         photoCount: workDetails.photos.length,
+        ...(event.detail.parentIncidentId && {
+          parentIncidentId: event.detail.parentIncidentId,
+          legNumber: event.detail.legNumber,
+        }),
+        ...(pricing.negotiatedPrice !== undefined && {
+          negotiatedPrice: pricing.negotiatedPrice,
+          estimatedPrice: pricing.basePrice,
+        }),
+        ...(pricing.slaPremium && {
+          slaTier: pricing.slaPremium.tier,
+          slaMultiplier: pricing.slaPremium.multiplier,
+        }),
       },
     };
 
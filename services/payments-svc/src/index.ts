@@ -7,8 +7,29 @@ export { handler as workCompletedHandler } from './handlers/work-completed-handl
 export { handler as processPaymentHandler } from './handlers/process-payment';
 export { handler as stripeWebhookHandler } from './handlers/stripe-webhook';
 export { handler as paymentCompletedHandler } from './handlers/payment-completed-handler';
+export { handler as refundPaymentHandler } from './handlers/refund-payment';
+export { handler as submitDisputeEvidenceHandler } from './handlers/submit-dispute-evidence';
+export { handler as getTrialBalanceHandler } from './handlers/get-trial-balance';
+export { handler as generateInvoiceHandler } from './handlers/generate-invoice';
+export { handler as listInvoicesHandler } from './handlers/list-invoices';
+export { handler as getInvoiceHandler } from './handlers/get-invoice';
+export { handler as updateInvoiceStatusHandler } from './handlers/update-invoice-status';
+export { handler as getInvoiceDocumentHandler } from './handlers/get-invoice-document';
+export { handler as invoiceSchedulerHandler } from './handlers/invoice-scheduler';
+export { handler as getPayoutSettingsHandler } from './handlers/get-payout-settings';
+export { handler as updatePayoutSettingsHandler } from './handlers/update-payout-settings';
+export { handler as listPayoutStatementsHandler } from './handlers/list-payout-statements';
+export { handler as getPayoutStatementHandler } from './handlers/get-payout-statement';
+export { handler as payoutSchedulerHandler } from './handlers/payout-scheduler';
 
 // Export service functions
 export * from './payment-service';
 export * from './stripe-service';
+export * from './refund-service';
+export * from './dispute-service';
+export * from './dispute-evidence';
+export * from './ledger-service';
+export * from './invoice-service';
+export * from './invoice-render';
+export * from './payout-service';
 export * from './db-connection';
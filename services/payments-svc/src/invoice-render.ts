@@ -0,0 +1,257 @@
+import { Invoice, InvoiceLine } from './invoice-service';
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const LINE_HEIGHT = 14;
+const LINES_PER_PAGE = 32; // Leaves room for the totals under a full last page
+
+// Column x positions on the page
+const COLUMNS = {
+  date: MARGIN,
+  driver: 112,
+  description: 222,
+  sla: 420,
+  amount: PAGE_WIDTH - MARGIN,
+};
+
+const CSV_COLUMNS = [
+  'Invoice Number',
+  'Service Date',
+  'Incident',
+  'Driver',
+  'Description',
+  'SLA Tier',
+  'SLA Multiplier',
+  'Quantity',
+  'Unit Price',
+  'Amount',
+];
+
+// Helvetica advance widths (per 1000 em) for the characters used in amounts
+const HELVETICA_WIDTHS: Record<string, number> = {
+  '.': 278,
+  ',': 278,
+  '-': 333,
+  $: 556,
+  ' ': 278,
+};
+
+// ========================================================================
+// CSV
+// ========================================================================
+
+/**
+ * Render an invoice as CSV: one row per line, then subtotal, tax and total rows
+ */
+export function renderInvoiceCsv(invoice: Invoice, lines: InvoiceLine[]): string {
+  const rows = lines.map((line) => [
+    invoice.invoiceNumber,
+    line.serviceDate || '',
+    line.incidentId,
+    line.driverName || line.driverId || '',
+    line.description,
+    line.slaTier || '',
+    line.slaMultiplier !== undefined ? String(line.slaMultiplier) : '',
+    String(line.quantity),
+    toDecimal(line.unitPriceCents),
+    toDecimal(line.totalCents),
+  ]);
+
+  const summary = (label: string, cents: number) => [
+    invoice.invoiceNumber,
+    ...Array(CSV_COLUMNS.length - 3).fill(''),
+    label,
+    toDecimal(cents),
+  ];
+
+  return (
+    [
+      CSV_COLUMNS,
+      ...rows,
+      summary('Subtotal', invoice.subtotalCents),
+      ...invoice.taxes.map((tax) => summary(`${tax.name} (${tax.ratePercent}%)`, tax.amountCents)),
+      summary(`Total ${invoice.currency}`, invoice.totalCents),
+    ]
+      .map((row) => row.map(escapeCsv).join(','))
+      .join('\r\n') + '\r\n'
+  );
+}
+
+// ========================================================================
+// PDF
+// ========================================================================
+
+/**
+ * Render an invoice as a PDF with the standard Helvetica fonts, so nothing has
+ * to be embedded. Lines run over as many pages as they need; the totals go on
+ * the last one.
+ */
+export function renderInvoicePdf(invoice: Invoice, lines: InvoiceLine[]): Buffer {
+  const pages: string[][] = [];
+  let y = 0;
+
+  for (let i = 0; i === 0 || i < lines.length; i += LINES_PER_PAGE) {
+    const page = renderPage(invoice, lines.slice(i, i + LINES_PER_PAGE));
+    pages.push(page.ops);
+    y = page.y;
+  }
+
+  pages[pages.length - 1].push(...renderTotals(invoice, y));
+  pages.forEach((page, index) =>
+    page.push(text(MARGIN, MARGIN / 2, `Page ${index + 1} of ${pages.length}`, 8))
+  );
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((page, index) => {
+      const content = page.join('\n');
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+      ];
+    }),
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Format cents as an amount, e.g. -$1,234.50
+ */
+export function formatInvoiceAmount(cents: number): string {
+  const [whole, fraction] = (Math.abs(cents) / 100).toFixed(2).split('.');
+  return `${cents < 0 ? '-' : ''}$${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${fraction}`;
+}
+
+// ========================================================================
+// Helper Functions
+// ========================================================================
+
+// Returns the page's drawing operators and the y position below its last line
+function renderPage(invoice: Invoice, lines: InvoiceLine[]): { ops: string[]; y: number } {
+  const ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  ops.push(text(MARGIN, y - 8, 'INVOICE', 20, true));
+  ops.push(rightText(COLUMNS.amount, y - 8, invoice.invoiceNumber, 11, true));
+  y -= 40;
+
+  const details = [
+    ['Bill to', invoice.companyName || invoice.companyId],
+    ['Billing period', invoice.period],
+    ['Status', invoice.status.toUpperCase()],
+    ...(invoice.dueDate ? [['Due date', invoice.dueDate]] : []),
+  ];
+  for (const [label, value] of details) {
+    ops.push(text(MARGIN, y, label, 9, true), text(MARGIN + 90, y, value, 9));
+    y -= LINE_HEIGHT;
+  }
+  y -= LINE_HEIGHT;
+
+  ops.push(
+    text(COLUMNS.date, y, 'Date', 9, true),
+    text(COLUMNS.driver, y, 'Driver', 9, true),
+    text(COLUMNS.description, y, 'Description', 9, true),
+    text(COLUMNS.sla, y, 'SLA', 9, true),
+    rightText(COLUMNS.amount, y, 'Amount', 9, true),
+    rule(y - 4)
+  );
+  y -= LINE_HEIGHT + 4;
+
+  for (const line of lines) {
+    const quantity = line.quantity !== 1 ? ` x${line.quantity}` : '';
+    ops.push(
+      text(COLUMNS.date, y, line.serviceDate || '', 9),
+      text(COLUMNS.driver, y, truncate(line.driverName || line.driverId || '', 20), 9),
+      text(COLUMNS.description, y, truncate(`${line.description}${quantity}`, 38), 9),
+      text(
+        COLUMNS.sla,
+        y,
+        line.slaTier ? `${line.slaTier}${line.slaMultiplier ? ` x${line.slaMultiplier}` : ''}` : '',
+        9
+      ),
+      rightText(COLUMNS.amount, y, formatInvoiceAmount(line.totalCents), 9)
+    );
+    y -= LINE_HEIGHT;
+  }
+
+  return { ops, y };
+}
+
+function renderTotals(invoice: Invoice, top: number): string[] {
+  let y = top - 4;
+  const labelX = COLUMNS.sla;
+  const ops = [rule(y + LINE_HEIGHT - 4)];
+
+  const rows: Array<[string, number, boolean]> = [
+    ['Subtotal', invoice.subtotalCents, false],
+    ...invoice.taxes.map((tax): [string, number, boolean] => [
+      `${tax.name} (${tax.ratePercent}%)`,
+      tax.amountCents,
+      false,
+    ]),
+    [`Total ${invoice.currency}`, invoice.totalCents, true],
+  ];
+  for (const [label, cents, bold] of rows) {
+    ops.push(
+      text(labelX, y, truncate(label, 24), 9, bold),
+      rightText(COLUMNS.amount, y, formatInvoiceAmount(cents), 9, bold)
+    );
+    y -= LINE_HEIGHT;
+  }
+
+  return ops;
+}
+
+function text(x: number, y: number, value: string, size: number, bold = false): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${escapePdf(value)}) Tj ET`;
+}
+
+// Right-aligned text; widths are exact for amounts and close enough for headings
+function rightText(x: number, y: number, value: string, size: number, bold = false): string {
+  const width = [...value].reduce((sum, char) => sum + (HELVETICA_WIDTHS[char] ?? 556), 0);
+  return text(Math.round((x - (width * size) / 1000) * 100) / 100, y, value, size, bold);
+}
+
+function rule(y: number): string {
+  return `0.5 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`;
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}~` : value;
+}
+
+// Standard fonts only cover Latin-1, so anything else becomes '?'
+function escapePdf(value: string): string {
+  return value.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toDecimal(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
@@ -0,0 +1,778 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+import type { Driver, Incident, InvoicingRules } from '@roadcall/types';
+import { logger, NotFoundError, ValidationError, ConflictError } from '@roadcall/utils';
+import { configStore, dynamodb } from '@roadcall/aws-clients';
+import { query, transaction } from './db-connection';
+import {
+  Payment,
+  PaymentLineItem,
+  PaymentRefund,
+  PaymentStatus,
+  mapLineItemFromDb,
+  mapPaymentFromDb,
+  mapRefundFromDb,
+} from './payment-service';
+import { invoiceCollectedEntry, postLedgerEntry } from './ledger-service';
+
+const USERS_TABLE = process.env.USERS_TABLE_NAME || '';
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE_NAME || '';
+
+const BATCH_GET_LIMIT = 100; // DynamoDB BatchGetItem key limit
+
+// Back-office payments are billed once the vendor has been paid; a refunded
+// payment is still billed so its credit nets it out on the same invoice
+const BILLABLE_PAYMENT_STATUSES: PaymentStatus[] = ['completed', 'refunded'];
+
+// ========================================================================
+// Types
+// ========================================================================
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue';
+
+export interface InvoiceTax {
+  name: string;
+  ratePercent: number;
+  amountCents: number;
+}
+
+export interface Invoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  companyId: string;
+  companyName?: string;
+  period: string; // Billing month, YYYY-MM
+  status: InvoiceStatus;
+  currency: string;
+  subtotalCents: number;
+  taxCents: number;
+  totalCents: number;
+  taxes: InvoiceTax[];
+  dueDate?: string; // YYYY-MM-DD, set when the invoice is sent
+  sentAt?: string;
+  paidAt?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InvoiceLine {
+  invoiceLineId: string;
+  invoiceId: string;
+  paymentId: string;
+  incidentId: string;
+  driverId?: string;
+  driverName?: string;
+  serviceDate?: string; // YYYY-MM-DD
+  description: string;
+  quantity: number;
+  unitPriceCents: number; // Negative on refund credits
+  totalCents: number;
+  slaTier?: string;
+  slaMultiplier?: number;
+  refundId?: string; // Set on refund credits
+  position: number;
+}
+
+export type InvoiceLineInput = Omit<InvoiceLine, 'invoiceLineId' | 'invoiceId'>;
+
+export interface InvoiceTotals {
+  subtotalCents: number;
+  taxes: InvoiceTax[];
+  taxCents: number;
+  totalCents: number;
+}
+
+export interface BillingPeriod {
+  period: string; // YYYY-MM
+  start: string; // First instant of the month, UTC
+  end: string; // First instant of the next month, UTC
+}
+
+// A back-office payment to bill, with the incident and driver behind it
+export interface BillableJob {
+  payment: Payment;
+  lineItems: PaymentLineItem[];
+  incident?: Incident;
+  driver?: Pick<Driver, 'driverId' | 'name'>;
+}
+
+// A refund to credit, with the job it refunded
+export interface InvoiceCredit {
+  refund: PaymentRefund;
+  job: BillableJob;
+}
+
+const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent'],
+  sent: ['paid', 'overdue'],
+  overdue: ['paid'],
+  paid: [],
+};
+
+// ========================================================================
+// Invoice Building
+// ========================================================================
+
+/**
+ * Parse a YYYY-MM billing period into its UTC bounds
+ */
+export function getBillingPeriod(period: string): BillingPeriod {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  const month = match ? Number(match[2]) : 0;
+
+  if (!match || month < 1 || month > 12) {
+    throw new ValidationError('Billing period must be a month in YYYY-MM format');
+  }
+
+  const year = Number(match[1]);
+  return {
+    period,
+    start: new Date(Date.UTC(year, month - 1, 1)).toISOString(),
+    end: new Date(Date.UTC(year, month, 1)).toISOString(),
+  };
+}
+
+/**
+ * Get the billing period of the month before `now`, in UTC
+ */
+export function getPreviousBillingPeriod(now: Date): string {
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+/**
+ * When an incident was closed, from its timeline, falling back to its last update
+ */
+export function getIncidentClosedAt(incident: Incident): string {
+  const closed = [...(incident.timeline || [])].reverse().find((entry) => entry.to === 'closed');
+  return closed?.timestamp || incident.updatedAt;
+}
+
+/**
+ * Turn billable jobs into invoice lines: one per payment line item, in service
+ * date order, followed by a credit line for each refund not yet invoiced
+ */
+export function buildInvoiceLines(
+  jobs: BillableJob[],
+  credits: InvoiceCredit[] = []
+): InvoiceLineInput[] {
+  const sortedJobs = [...jobs].sort((a, b) => getServiceDate(a).localeCompare(getServiceDate(b)));
+  const sortedCredits = [...credits].sort((a, b) =>
+    a.refund.createdAt.localeCompare(b.refund.createdAt)
+  );
+  const lines: InvoiceLineInput[] = [];
+
+  for (const job of sortedJobs) {
+    const { payment } = job;
+
+    // Payments created without line items are billed as one service line
+    const items = job.lineItems.length
+      ? job.lineItems
+      : [
+          {
+            description: `${payment.metadata?.serviceType || 'Roadside'} service`,
+            quantity: 1,
+            unitPriceCents: payment.amountCents,
+            totalCents: payment.amountCents,
+          },
+        ];
+
+    for (const item of items) {
+      lines.push({
+        ...getJobDetails(job),
+        serviceDate: getServiceDate(job).slice(0, 10),
+        ...getSla(payment, job.incident),
+        description: item.description,
+        quantity: item.quantity,
+        unitPriceCents: item.unitPriceCents,
+        totalCents: item.totalCents,
+        position: lines.length + 1,
+      });
+    }
+  }
+
+  for (const { refund, job } of sortedCredits) {
+    lines.push({
+      ...getJobDetails(job),
+      serviceDate: refund.createdAt.slice(0, 10),
+      description: `Credit: ${refund.source === 'dispute' ? 'disputed charge' : 'refund'}${
+        refund.reason ? ` (${refund.reason})` : ''
+      }`,
+      quantity: 1,
+      unitPriceCents: -refund.amountCents,
+      totalCents: -refund.amountCents,
+      refundId: refund.refundId,
+      position: lines.length + 1,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Total invoice lines and apply each configured tax to the subtotal. A credit
+ * balance is not taxed.
+ */
+export function calculateInvoiceTotals(
+  lines: Array<Pick<InvoiceLine, 'totalCents'>>,
+  rules: InvoicingRules
+): InvoiceTotals {
+  const subtotalCents = lines.reduce((sum, line) => sum + line.totalCents, 0);
+  const taxes = rules.taxes.map((tax) => ({
+    name: tax.name,
+    ratePercent: tax.ratePercent,
+    amountCents: subtotalCents > 0 ? Math.round((subtotalCents * tax.ratePercent) / 100) : 0,
+  }));
+  const taxCents = taxes.reduce((sum, tax) => sum + tax.amountCents, 0);
+
+  return { subtotalCents, taxes, taxCents, totalCents: subtotalCents + taxCents };
+}
+
+/**
+ * Check an invoice status change against the invoice lifecycle
+ */
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether a user may see an invoice: admins see every invoice, a company's
+ * dispatchers see its invoices once they are sent
+ */
+export function canViewInvoice(
+  invoice: Pick<Invoice, 'companyId' | 'status'>,
+  role?: string,
+  companyId?: string
+): boolean {
+  if (role === 'admin') {
+    return true;
+  }
+  return (
+    role === 'dispatcher' &&
+    !!companyId &&
+    invoice.companyId === companyId &&
+    invoice.status !== 'draft'
+  );
+}
+
+/**
+ * Due date of an invoice sent at `sentAt`, as YYYY-MM-DD
+ */
+export function getInvoiceDueDate(sentAt: string, paymentTermsDays: number): string {
+  const due = new Date(sentAt);
+  due.setUTCDate(due.getUTCDate() + paymentTermsDays);
+  return due.toISOString().slice(0, 10);
+}
+
+// ========================================================================
+// Invoice Records
+// ========================================================================
+
+/**
+ * Invoice a fleet company for a billing period. Bills every back-office
+ * payment for its drivers' incidents closed before the period ends that no
+ * earlier invoice has billed, and credits refunds on them likewise. Returns
+ * null when there is nothing to bill.
+ */
+export async function generateInvoice(
+  companyId: string,
+  period: string,
+  actorId: string
+): Promise<{ invoice: Invoice; lines: InvoiceLine[] } | null> {
+  const { end } = getBillingPeriod(period);
+
+  const drivers = await getCompanyDrivers(companyId);
+  const closedIncidents = (
+    await Promise.all(drivers.map((driver) => getClosedIncidents(driver.driverId)))
+  )
+    .flat()
+    .filter((incident) => getIncidentClosedAt(incident) < end);
+
+  if (closedIncidents.length === 0) {
+    logger.info('No closed incidents to invoice', { companyId, period });
+    return null;
+  }
+
+  const incidents = new Map(closedIncidents.map((incident) => [incident.incidentId, incident]));
+  const driversById = new Map(drivers.map((driver) => [driver.driverId, driver]));
+  const rules = await configStore.getInvoicingRules();
+
+  const result = await transaction(async (client: PoolClient) => {
+    const existing = await client.query(
+      'SELECT invoice_id FROM invoices WHERE company_id = $1 AND period = $2',
+      [companyId, period]
+    );
+
+    if (existing.rows.length > 0) {
+      throw new ConflictError(`Company ${companyId} is already invoiced for ${period}`);
+    }
+
+    // Locked so a concurrent run cannot bill the same payments twice
+    const paymentsResult = await client.query(
+      `SELECT * FROM payments
+       WHERE incident_id = ANY($1) AND payer_type = 'back_office'
+         AND invoice_id IS NULL AND status = ANY($2)
+       FOR UPDATE`,
+      [[...incidents.keys()], BILLABLE_PAYMENT_STATUSES]
+    );
+    const refundsResult = await client.query(
+      `SELECT r.* FROM payment_refunds r
+       JOIN payments p ON p.payment_id = r.payment_id
+       WHERE p.incident_id = ANY($1) AND p.payer_type = 'back_office'
+         AND r.invoice_id IS NULL AND r.created_at < $2
+       FOR UPDATE OF r`,
+      [[...incidents.keys()], end]
+    );
+
+    if (paymentsResult.rows.length === 0 && refundsResult.rows.length === 0) {
+      return null;
+    }
+
+    const payments: Payment[] = paymentsResult.rows.map(mapPaymentFromDb);
+    const refunds: PaymentRefund[] = refundsResult.rows.map(mapRefundFromDb);
+
+    // Refunds on payments billed earlier still name their incident and driver
+    const refundedPayments = await getPaymentsById(
+      client,
+      refunds
+        .map((refund) => refund.paymentId)
+        .filter((paymentId) => !payments.some((payment) => payment.paymentId === paymentId))
+    );
+    const lineItemsResult = await client.query(
+      'SELECT * FROM payment_line_items WHERE payment_id = ANY($1) ORDER BY created_at',
+      [payments.map((payment) => payment.paymentId)]
+    );
+
+    const toJob = (payment: Payment): BillableJob => {
+      const incident = incidents.get(payment.incidentId);
+      const driver = incident && driversById.get(incident.driverId);
+      return {
+        payment,
+        lineItems: lineItemsResult.rows
+          .filter((row) => row.payment_id === payment.paymentId)
+          .map(mapLineItemFromDb),
+        ...(incident && { incident }),
+        ...(driver && { driver }),
+      };
+    };
+    const jobs = payments.map(toJob);
+    const credits = refunds.map((refund) => ({
+      refund,
+      job: toJob([...payments, ...refundedPayments].find((p) => p.paymentId === refund.paymentId)!),
+    }));
+
+    const lines = buildInvoiceLines(jobs, credits);
+    const totals = calculateInvoiceTotals(lines, rules);
+
+    const invoiceId = uuidv4();
+    const invoiceResult = await client.query(
+      `INSERT INTO invoices (
+        invoice_id, invoice_number, company_id, company_name, period, status, currency,
+        subtotal_cents, tax_cents, total_cents, taxes, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, 'draft', $6, $7, $8, $9, $10, $11, NOW(), NOW())
+      RETURNING *`,
+      [
+        invoiceId,
+        `INV-${period.replace('-', '')}-${invoiceId.slice(0, 8).toUpperCase()}`,
+        companyId,
+        drivers[0]?.companyName || null,
+        period,
+        payments[0]?.currency || 'USD',
+        totals.subtotalCents,
+        totals.taxCents,
+        totals.totalCents,
+        JSON.stringify(totals.taxes),
+        actorId,
+      ]
+    );
+
+    const invoiceLines: InvoiceLine[] = [];
+    for (const line of lines) {
+      const lineResult = await client.query(
+        `INSERT INTO invoice_lines (
+          invoice_line_id, invoice_id, payment_id, incident_id, driver_id, driver_name,
+          service_date, description, quantity, unit_price_cents, total_cents,
+          sla_tier, sla_multiplier, refund_id, position
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING *`,
+        [
+          uuidv4(),
+          invoiceId,
+          line.paymentId,
+          line.incidentId,
+          line.driverId || null,
+          line.driverName || null,
+          line.serviceDate || null,
+          line.description,
+          line.quantity,
+          line.unitPriceCents,
+          line.totalCents,
+          line.slaTier || null,
+          line.slaMultiplier ?? null,
+          line.refundId || null,
+          line.position,
+        ]
+      );
+      invoiceLines.push(mapInvoiceLineFromDb(lineResult.rows[0]));
+    }
+
+    await client.query('UPDATE payments SET invoice_id = $1 WHERE payment_id = ANY($2)', [
+      invoiceId,
+      payments.map((payment) => payment.paymentId),
+    ]);
+    await client.query('UPDATE payment_refunds SET invoice_id = $1 WHERE refund_id = ANY($2)', [
+      invoiceId,
+      refunds.map((refund) => refund.refundId),
+    ]);
+
+    return { invoice: mapInvoiceFromDb(invoiceResult.rows[0]), lines: invoiceLines };
+  });
+
+  if (result) {
+    logger.info('Invoice generated', {
+      invoiceId: result.invoice.invoiceId,
+      companyId,
+      period,
+      lineCount: result.lines.length,
+      totalCents: result.invoice.totalCents,
+    });
+  } else {
+    logger.info('No uninvoiced payments to bill', { companyId, period });
+  }
+
+  return result;
+}
+
+/**
+ * Invoice every company with uninvoiced back-office payments for a billing
+ * period. A company already invoiced for the period is skipped.
+ */
+export async function generateMonthlyInvoices(period: string): Promise<Invoice[]> {
+  const companyIds = await getCompaniesToInvoice();
+  const invoices: Invoice[] = [];
+
+  for (const companyId of companyIds) {
+    try {
+      const result = await generateInvoice(companyId, period, 'system');
+      if (result) {
+        invoices.push(result.invoice);
+      }
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        continue;
+      }
+      logger.error('Error generating invoice', error as Error, { companyId, period });
+    }
+  }
+
+  logger.info('Monthly invoices generated', {
+    period,
+    companyCount: companyIds.length,
+    invoiceCount: invoices.length,
+  });
+
+  return invoices;
+}
+
+/**
+ * Get an invoice with its lines
+ */
+export async function getInvoice(
+  invoiceId: string
+): Promise<{ invoice: Invoice; lines: InvoiceLine[] } | null> {
+  const invoiceResult = await query('SELECT * FROM invoices WHERE invoice_id = $1', [invoiceId]);
+
+  if (invoiceResult.rows.length === 0) {
+    return null;
+  }
+
+  const linesResult = await query(
+    'SELECT * FROM invoice_lines WHERE invoice_id = $1 ORDER BY position',
+    [invoiceId]
+  );
+
+  return {
+    invoice: mapInvoiceFromDb(invoiceResult.rows[0]),
+    lines: linesResult.rows.map(mapInvoiceLineFromDb),
+  };
+}
+
+/**
+ * List invoices, newest period first, optionally for one company and statuses
+ */
+export async function getInvoices(
+  filter: { companyId?: string; statuses?: InvoiceStatus[] },
+  limit: number = 50,
+  offset: number = 0
+): Promise<Invoice[]> {
+  const result = await query(
+    `SELECT * FROM invoices
+     WHERE ($1::varchar IS NULL OR company_id = $1)
+       AND ($2::varchar[] IS NULL OR status = ANY($2))
+     ORDER BY period DESC, created_at DESC
+     LIMIT $3 OFFSET $4`,
+    [filter.companyId || null, filter.statuses || null, limit, offset]
+  );
+
+  return result.rows.map(mapInvoiceFromDb);
+}
+
+/**
+ * Move an invoice along its lifecycle. Sending sets the due date from the
+ * configured payment terms. Payment settles the company's receivable on the
+ * ledger for each payment the invoice billed.
+ */
+export async function updateInvoiceStatus(
+  invoiceId: string,
+  status: InvoiceStatus,
+  actorId: string
+): Promise<Invoice> {
+  const paymentTermsDays =
+    status === 'sent' ? (await configStore.getInvoicingRules()).paymentTermsDays : 0;
+
+  const invoice = await transaction(async (client: PoolClient) => {
+    const currentResult = await client.query(
+      'SELECT * FROM invoices WHERE invoice_id = $1 FOR UPDATE',
+      [invoiceId]
+    );
+
+    if (currentResult.rows.length === 0) {
+      throw new NotFoundError('Invoice', invoiceId);
+    }
+
+    const current = mapInvoiceFromDb(currentResult.rows[0]);
+
+    if (!canTransitionInvoice(current.status, status)) {
+      throw new ConflictError(`Invoice cannot move from ${current.status} to ${status}`);
+    }
+
+    const now = new Date().toISOString();
+    const result = await client.query(
+      `UPDATE invoices
+       SET status = $1,
+           sent_at = COALESCE($2, sent_at),
+           due_date = COALESCE($3, due_date),
+           paid_at = COALESCE($4, paid_at)
+       WHERE invoice_id = $5
+       RETURNING *`,
+      [
+        status,
+        status === 'sent' ? now : null,
+        status === 'sent' ? getInvoiceDueDate(now, paymentTermsDays) : null,
+        status === 'paid' ? now : null,
+        invoiceId,
+      ]
+    );
+
+    if (status === 'paid') {
+      const collected = await client.query(
+        `SELECT l.payment_id, p.payer_id, p.currency, SUM(l.total_cents) AS total_cents
+         FROM invoice_lines l JOIN payments p ON p.payment_id = l.payment_id
+         WHERE l.invoice_id = $1
+         GROUP BY l.payment_id, p.payer_id, p.currency`,
+        [invoiceId]
+      );
+
+      for (const row of collected.rows) {
+        await postLedgerEntry(
+          client,
+          invoiceCollectedEntry(
+            { paymentId: row.payment_id, payerId: row.payer_id, currency: row.currency },
+            invoiceId,
+            Number(row.total_cents)
+          ),
+          actorId
+        );
+      }
+    }
+
+    return mapInvoiceFromDb(result.rows[0]);
+  });
+
+  logger.info('Invoice status updated', { invoiceId, status, actorId });
+
+  return invoice;
+}
+
+/**
+ * Mark sent invoices whose due date has passed as overdue
+ */
+export async function markOverdueInvoices(asOf: Date): Promise<Invoice[]> {
+  const result = await query(
+    `UPDATE invoices SET status = 'overdue'
+     WHERE status = 'sent' AND due_date < $1::date
+     RETURNING *`,
+    [asOf.toISOString().slice(0, 10)]
+  );
+
+  const invoices = result.rows.map(mapInvoiceFromDb);
+
+  if (invoices.length > 0) {
+    logger.info('Invoices marked overdue', {
+      count: invoices.length,
+      invoiceIds: invoices.map((invoice) => invoice.invoiceId),
+    });
+  }
+
+  return invoices;
+}
+
+// ========================================================================
+// Helper Functions
+// ========================================================================
+
+/**
+ * Drivers of a fleet company, as driver-svc's getDriversByCompany reads them
+ */
+async function getCompanyDrivers(companyId: string): Promise<Driver[]> {
+  return dynamodb.queryAll<Driver>(
+    USERS_TABLE,
+    'companyId = :companyId',
+    { ':companyId': companyId },
+    'company-index'
+  );
+}
+
+async function getClosedIncidents(driverId: string): Promise<Incident[]> {
+  return dynamodb.queryAll<Incident>(
+    INCIDENTS_TABLE,
+    'driverId = :driverId AND #status = :status',
+    { ':driverId': driverId, ':status': 'closed' },
+    'driver-status-index',
+    { '#status': 'status' }
+  );
+}
+
+/**
+ * Companies behind uninvoiced back-office payments, from their incidents
+ */
+async function getCompaniesToInvoice(): Promise<string[]> {
+  const result = await query(
+    `SELECT DISTINCT incident_id FROM payments
+     WHERE payer_type = 'back_office' AND invoice_id IS NULL AND status = ANY($1)`,
+    [BILLABLE_PAYMENT_STATUSES]
+  );
+  const incidentIds: string[] = result.rows.map((row) => row.incident_id);
+  const companyIds = new Set<string>();
+
+  for (let i = 0; i < incidentIds.length; i += BATCH_GET_LIMIT) {
+    const incidents = await dynamodb.batchGet<Incident>(
+      INCIDENTS_TABLE,
+      incidentIds.slice(i, i + BATCH_GET_LIMIT).map((incidentId) => ({ incidentId }))
+    );
+
+    for (const incident of incidents) {
+      const companyId =
+        incident.companyId ||
+        (await dynamodb.get<Driver>(USERS_TABLE, { userId: incident.driverId }))?.companyId;
+      if (companyId) {
+        companyIds.add(companyId);
+      }
+    }
+  }
+
+  return [...companyIds];
+}
+
+async function getPaymentsById(client: PoolClient, paymentIds: string[]): Promise<Payment[]> {
+  if (paymentIds.length === 0) {
+    return [];
+  }
+
+  const result = await client.query('SELECT * FROM payments WHERE payment_id = ANY($1)', [
+    [...new Set(paymentIds)],
+  ]);
+  return result.rows.map(mapPaymentFromDb);
+}
+
+function getJobDetails(
+  job: BillableJob
+): Pick<InvoiceLineInput, 'paymentId' | 'incidentId' | 'driverId' | 'driverName'> {
+  return {
+    paymentId: job.payment.paymentId,
+    incidentId: job.payment.incidentId,
+    ...(job.driver && { driverId: job.driver.driverId, driverName: job.driver.name }),
+  };
+}
+
+function getServiceDate(job: BillableJob): string {
+  return (
+    (job.payment.metadata?.workCompletedAt as string | undefined) ||
+    (job.incident && getIncidentClosedAt(job.incident)) ||
+    job.payment.createdAt
+  );
+}
+
+/**
+ * SLA tier and multiplier priced into a payment, from the work-completed
+ * pricing, falling back to the incident's SLA
+ */
+function getSla(
+  payment: Payment,
+  incident?: Incident
+): Pick<InvoiceLineInput, 'slaTier' | 'slaMultiplier'> {
+  const slaTier = (payment.metadata?.slaTier as string | undefined) || incident?.sla?.tier;
+  const slaMultiplier =
+    (payment.metadata?.slaMultiplier as number | undefined) ?? incident?.sla?.pricingMultiplier;
+
+  return {
+    ...(slaTier && { slaTier }),
+    ...(slaMultiplier !== undefined && { slaMultiplier }),
+  };
+}
+
+/**
+ * Map database row to Invoice object
+ */
+function mapInvoiceFromDb(row: any): Invoice {
+  return {
+    invoiceId: row.invoice_id,
+    invoiceNumber: row.invoice_number,
+    companyId: row.company_id,
+    companyName: row.company_name ?? undefined,
+    period: row.period,
+    status: row.status,
+    currency: row.currency,
+    subtotalCents: row.subtotal_cents,
+    taxCents: row.tax_cents,
+    totalCents: row.total_cents,
+    taxes: row.taxes,
+    dueDate: row.due_date ? formatDate(row.due_date) : undefined,
+    sentAt: row.sent_at?.toISOString(),
+    paidAt: row.paid_at?.toISOString(),
+    createdBy: row.created_by,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Map database row to InvoiceLine object
+ */
+function mapInvoiceLineFromDb(row: any): InvoiceLine {
+  return {
+    invoiceLineId: row.invoice_line_id,
+    invoiceId: row.invoice_id,
+    paymentId: row.payment_id,
+    incidentId: row.incident_id,
+    driverId: row.driver_id ?? undefined,
+    driverName: row.driver_name ?? undefined,
+    serviceDate: row.service_date ? formatDate(row.service_date) : undefined,
+    description: row.description,
+    quantity: row.quantity,
+    unitPriceCents: row.unit_price_cents,
+    totalCents: row.total_cents,
+    slaTier: row.sla_tier ?? undefined,
+    slaMultiplier: row.sla_multiplier != null ? parseFloat(row.sla_multiplier) : undefined,
+    refundId: row.refund_id ?? undefined,
+    position: row.position,
+  };
+}
+
+// pg returns DATE columns as local-midnight Dates
+function formatDate(value: Date): string {
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
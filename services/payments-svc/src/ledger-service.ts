@@ -0,0 +1,510 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+import { query } from './db-connection';
+import { logger } from '@roadcall/utils';
+import type { Payment, PaymentRefund } from './payment-service';
+
+// ========================================================================
+// Types
+// ========================================================================
+
+// company_receivable: what the payer (fleet company or driver) owes us
+// vendor_payable:     what we owe the vendor for the job
+// platform_revenue:   our margin on the job
+// stripe_fees:        Stripe's processing fees
+// refunds:            money handed back to payers that no vendor returned
+// stripe_balance:     cash held on our Stripe account
+export type LedgerAccount =
+  | 'company_receivable'
+  | 'vendor_payable'
+  | 'platform_revenue'
+  | 'stripe_fees'
+  | 'refunds'
+  | 'stripe_balance';
+
+export type LedgerEntryType =
+  | 'payment_created'
+  | 'payment_approved'
+  | 'payment_collected'
+  | 'invoice_collected'
+  | 'vendor_transfer'
+  | 'refund'
+  | 'payment_voided';
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  partyId?: string; // Vendor or payer for payable and receivable lines
+  amountCents: number; // Debits positive, credits negative
+  currency: string;
+}
+
+export interface JournalEntry {
+  paymentId: string;
+  entryType: LedgerEntryType;
+  reference: string; // Stripe ID or payment ID; an entry posts once per reference
+  description: string;
+  lines: LedgerLine[];
+}
+
+export interface LedgerEntry extends JournalEntry {
+  entryId: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccount;
+  currency: string;
+  debitCents: number;
+  creditCents: number;
+  balanceCents: number;
+}
+
+export interface TrialBalance {
+  accounts: TrialBalanceRow[];
+  totalCents: number; // Zero whenever every entry balanced
+}
+
+// Platform margin on new payments, in basis points of the amount
+const PLATFORM_FEE_BPS = parseInt(process.env.PLATFORM_FEE_BPS || '0', 10);
+
+// ========================================================================
+// Amounts
+// ========================================================================
+
+/**
+ * Platform margin on a payment amount at the configured rate
+ */
+export function getPlatformFeeCents(
+  amountCents: number,
+  feeBps: number = PLATFORM_FEE_BPS
+): number {
+  return Math.round((amountCents * feeBps) / 10000);
+}
+
+/**
+ * The vendor's share of an amount of a payment, i.e. the amount less the
+ * platform margin on it. Defaults to the whole payment.
+ */
+export function getVendorShareCents(payment: Payment, cents: number = payment.amountCents): number {
+  if (payment.amountCents === 0) {
+    return 0;
+  }
+
+  return cents - Math.round((cents * payment.platformFeeCents) / payment.amountCents);
+}
+
+/**
+ * The amount of a payment whose vendor share is the given cents, i.e. the
+ * inverse of getVendorShareCents. Used for reversals made outside issueRefund.
+ */
+export function getAmountForVendorShareCents(payment: Payment, vendorCents: number): number {
+  const vendorTotalCents = getVendorShareCents(payment);
+  if (vendorTotalCents <= 0) {
+    return vendorCents;
+  }
+
+  const estimate = Math.round((vendorCents * payment.amountCents) / vendorTotalCents);
+
+  // Rounding the margin can put the exact inverse a cent either side
+  for (const cents of [estimate, estimate - 1, estimate + 1]) {
+    if (getVendorShareCents(payment, cents) === vendorCents) {
+      return cents;
+    }
+  }
+
+  return estimate;
+}
+
+// ========================================================================
+// Journal Entries
+// ========================================================================
+
+/**
+ * The payer owes the job amount and we owe it on to the vendor
+ */
+export function paymentCreatedEntry(payment: Payment): JournalEntry {
+  return journalEntry(payment, 'payment_created', payment.paymentId, 'Job billed to payer', [
+    ['company_receivable', payment.amountCents, payment.payerId],
+    ['vendor_payable', -payment.amountCents, payment.vendorId],
+  ]);
+}
+
+/**
+ * Approval takes the platform margin out of what the vendor is owed
+ */
+export function paymentApprovedEntry(payment: Payment): JournalEntry {
+  return journalEntry(payment, 'payment_approved', payment.paymentId, 'Platform margin', [
+    ['vendor_payable', payment.platformFeeCents, payment.vendorId],
+    ['platform_revenue', -payment.platformFeeCents],
+  ]);
+}
+
+/**
+ * A driver's card charge settles their receivable, less Stripe's fee
+ */
+export function paymentCollectedEntry(payment: Payment): JournalEntry {
+  const feeCents = payment.stripeFeeCents || 0;
+
+  return journalEntry(
+    payment,
+    'payment_collected',
+    payment.stripePaymentIntentId || payment.paymentId,
+    'Card payment collected',
+    [
+      ['stripe_balance', payment.amountCents - feeCents],
+      ['stripe_fees', feeCents],
+      ['company_receivable', -payment.amountCents, payment.payerId],
+    ]
+  );
+}
+
+/**
+ * A paid invoice settles what the fleet company owed for a back-office
+ * payment: the net of its billed lines and refund credits on that invoice
+ */
+export function invoiceCollectedEntry(
+  payment: Pick<Payment, 'paymentId' | 'payerId' | 'currency'>,
+  invoiceId: string,
+  amountCents: number
+): JournalEntry {
+  return journalEntry(payment, 'invoice_collected', invoiceId, 'Invoice paid by company', [
+    ['stripe_balance', amountCents],
+    ['company_receivable', -amountCents, payment.payerId],
+  ]);
+}
+
+/**
+ * A Connect transfer pays down what we owe the vendor. A payout batch may
+ * withhold part of the share to cover refunds made before it was paid.
+ */
+export function vendorTransferEntry(
+  payment: Payment,
+  transferId: string,
+  amountCents: number,
+  withheldCents = 0
+): JournalEntry {
+  return journalEntry(payment, 'vendor_transfer', transferId, 'Vendor paid by transfer', [
+    ['vendor_payable', amountCents + withheldCents, payment.vendorId],
+    ['stripe_balance', -amountCents],
+    ['refunds', -withheldCents],
+  ]);
+}
+
+/**
+ * Money returned to the payer. A card refund or lost dispute comes out of our
+ * Stripe balance. A back-office clawback credits the company and pulls the
+ * vendor's share back from their Connect account; we absorb the rest.
+ */
+export function refundEntry(
+  payment: Payment,
+  refund: PaymentRefund,
+  vendorRecoveredCents: number = refund.amountCents
+): JournalEntry {
+  const description = `Refund via ${refund.source}`;
+
+  if (refund.source === 'transfer_reversal') {
+    return journalEntry(payment, 'refund', refund.refundId, description, [
+      ['stripe_balance', vendorRecoveredCents],
+      ['refunds', refund.amountCents - vendorRecoveredCents],
+      ['company_receivable', -refund.amountCents, payment.payerId],
+    ]);
+  }
+
+  return journalEntry(payment, 'refund', refund.refundId, description, [
+    ['refunds', refund.amountCents],
+    ['stripe_balance', -refund.amountCents],
+  ]);
+}
+
+/**
+ * Reverse whatever a cancelled or failed payment still has on the ledger.
+ * Returns null when money already moved, since that needs a refund instead.
+ */
+export function paymentVoidedEntry(payment: Payment, netLines: LedgerLine[]): JournalEntry | null {
+  if (netLines.some((line) => line.account === 'stripe_balance' && line.amountCents !== 0)) {
+    logger.warn('Not voiding ledger for payment with settled money', {
+      paymentId: payment.paymentId,
+      status: payment.status,
+    });
+    return null;
+  }
+
+  return {
+    paymentId: payment.paymentId,
+    entryType: 'payment_voided',
+    reference: payment.paymentId,
+    description: `Payment ${payment.status}`,
+    lines: netLines
+      .filter((line) => line.amountCents !== 0)
+      .map((line) => ({ ...line, amountCents: -line.amountCents })),
+  };
+}
+
+/**
+ * Entries a payment update calls for: a driver's charge completing, or the
+ * vendor transfer on a back-office payment. Voids need the payment's ledger
+ * lines and are built separately. A payout batch passes the part of the
+ * vendor's share it transferred; the rest was withheld for refunds.
+ */
+export function getPaymentUpdateEntries(
+  previous: Payment,
+  updated: Payment,
+  transferredCents?: number
+): JournalEntry[] {
+  const entries: JournalEntry[] = [];
+
+  if (
+    updated.payerType === 'driver_ic' &&
+    updated.status === 'completed' &&
+    previous.status !== 'completed'
+  ) {
+    entries.push(paymentCollectedEntry(updated));
+  }
+
+  if (updated.stripeTransferId && updated.stripeTransferId !== previous.stripeTransferId) {
+    const shareCents = getVendorShareCents(updated);
+    const amountCents = transferredCents ?? shareCents;
+    entries.push(
+      vendorTransferEntry(updated, updated.stripeTransferId, amountCents, shareCents - amountCents)
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * Whether a status change means the payment will never be paid
+ */
+export function isPaymentVoided(previous: Payment, updated: Payment): boolean {
+  const closed = ['cancelled', 'failed', 'completed', 'refunded'];
+
+  return (
+    (updated.status === 'cancelled' || updated.status === 'failed') &&
+    !closed.includes(previous.status)
+  );
+}
+
+/**
+ * Total each account's lines into a trial balance
+ */
+export function summarizeTrialBalance(lines: LedgerLine[]): TrialBalance {
+  const rows = new Map<string, TrialBalanceRow>();
+
+  for (const line of lines) {
+    const key = `${line.account}:${line.currency}`;
+    const row = rows.get(key) || {
+      account: line.account,
+      currency: line.currency,
+      debitCents: 0,
+      creditCents: 0,
+      balanceCents: 0,
+    };
+
+    if (line.amountCents > 0) {
+      row.debitCents += line.amountCents;
+    } else {
+      row.creditCents -= line.amountCents;
+    }
+    row.balanceCents += line.amountCents;
+    rows.set(key, row);
+  }
+
+  const accounts = [...rows.values()].sort(
+    (a, b) => a.account.localeCompare(b.account) || a.currency.localeCompare(b.currency)
+  );
+
+  return {
+    accounts,
+    totalCents: accounts.reduce((sum, row) => sum + row.balanceCents, 0),
+  };
+}
+
+// ========================================================================
+// Ledger Operations
+// ========================================================================
+
+/**
+ * Post a journal entry inside the caller's transaction. Entries without lines
+ * are skipped, and so is an entry already posted for the same reference.
+ */
+export async function postLedgerEntry(
+  client: PoolClient,
+  entry: JournalEntry,
+  actorId: string
+): Promise<LedgerEntry | null> {
+  const lines = entry.lines.filter((line) => line.amountCents !== 0);
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const imbalance = lines.reduce((sum, line) => sum + line.amountCents, 0);
+  if (imbalance !== 0) {
+    throw new Error(`Unbalanced ${entry.entryType} entry for ${entry.paymentId}: ${imbalance}`);
+  }
+
+  const entryResult = await client.query(
+    `INSERT INTO ledger_entries (
+      entry_id, payment_id, entry_type, reference, description, created_by
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (payment_id, entry_type, reference) DO NOTHING
+    RETURNING *`,
+    [uuidv4(), entry.paymentId, entry.entryType, entry.reference, entry.description, actorId]
+  );
+
+  if (entryResult.rows.length === 0) {
+    logger.info('Ledger entry already posted', {
+      paymentId: entry.paymentId,
+      entryType: entry.entryType,
+      reference: entry.reference,
+    });
+    return null;
+  }
+
+  const entryId = entryResult.rows[0].entry_id;
+  for (const line of lines) {
+    await client.query(
+      `INSERT INTO ledger_lines (
+        line_id, entry_id, account, party_id, amount_cents, currency
+      ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [uuidv4(), entryId, line.account, line.partyId || null, line.amountCents, line.currency]
+    );
+  }
+
+  return { ...mapEntryFromDb(entryResult.rows[0]), lines };
+}
+
+/**
+ * Net balance of each account and party on a payment's ledger
+ */
+export async function getPaymentNetLines(
+  client: PoolClient,
+  paymentId: string
+): Promise<LedgerLine[]> {
+  const result = await client.query(
+    `SELECT l.account, l.party_id, l.currency, SUM(l.amount_cents) AS amount_cents
+     FROM ledger_lines l
+     JOIN ledger_entries e ON e.entry_id = l.entry_id
+     WHERE e.payment_id = $1
+     GROUP BY l.account, l.party_id, l.currency`,
+    [paymentId]
+  );
+
+  return result.rows.map(mapLineFromDb);
+}
+
+/**
+ * Get a payment's journal entries with their lines, oldest first
+ */
+export async function getPaymentLedger(paymentId: string): Promise<LedgerEntry[]> {
+  const result = await query(
+    `SELECT e.*, l.account, l.party_id, l.amount_cents, l.currency
+     FROM ledger_entries e
+     JOIN ledger_lines l ON l.entry_id = e.entry_id
+     WHERE e.payment_id = $1
+     ORDER BY e.created_at, e.entry_id`,
+    [paymentId]
+  );
+
+  const entries = new Map<string, LedgerEntry>();
+  for (const row of result.rows) {
+    const entry = entries.get(row.entry_id) || { ...mapEntryFromDb(row), lines: [] };
+    entry.lines.push(mapLineFromDb(row));
+    entries.set(row.entry_id, entry);
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Balance of every account across the whole ledger
+ */
+export async function getTrialBalance(): Promise<TrialBalance> {
+  const result = await query('SELECT * FROM trial_balance');
+
+  const accounts: TrialBalanceRow[] = result.rows.map((row: any) => ({
+    account: row.account,
+    currency: row.currency,
+    debitCents: Number(row.debit_cents),
+    creditCents: Number(row.credit_cents),
+    balanceCents: Number(row.balance_cents),
+  }));
+
+  return {
+    accounts,
+    totalCents: accounts.reduce((sum, row) => sum + row.balanceCents, 0),
+  };
+}
+
+/**
+ * Balance per party on one account, e.g. what each vendor is owed. Credit
+ * balances come back negative.
+ */
+export async function getAccountBalances(
+  account: LedgerAccount
+): Promise<Array<{ partyId: string; currency: string; balanceCents: number }>> {
+  const result = await query(
+    `SELECT party_id, currency, SUM(amount_cents) AS balance_cents
+     FROM ledger_lines
+     WHERE account = $1 AND party_id IS NOT NULL
+     GROUP BY party_id, currency
+     HAVING SUM(amount_cents) <> 0
+     ORDER BY party_id`,
+    [account]
+  );
+
+  return result.rows.map((row: any) => ({
+    partyId: row.party_id,
+    currency: row.currency,
+    balanceCents: Number(row.balance_cents),
+  }));
+}
+
+// ========================================================================
+// Helper Functions
+// ========================================================================
+
+function journalEntry(
+  payment: Pick<Payment, 'paymentId' | 'currency'>,
+  entryType: LedgerEntryType,
+  reference: string,
+  description: string,
+  lines: Array<[LedgerAccount, number, string?]>
+): JournalEntry {
+  return {
+    paymentId: payment.paymentId,
+    entryType,
+    reference,
+    description,
+    lines: lines
+      .filter(([, amountCents]) => amountCents !== 0)
+      .map(([account, amountCents, partyId]) => ({
+        account,
+        ...(partyId && { partyId }),
+        amountCents,
+        currency: payment.currency,
+      })),
+  };
+}
+
+function mapEntryFromDb(row: any): Omit<LedgerEntry, 'lines'> {
+  return {
+    entryId: row.entry_id,
+    paymentId: row.payment_id,
+    entryType: row.entry_type,
+    reference: row.reference,
+    description: row.description,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function mapLineFromDb(row: any): LedgerLine {
+  return {
+    account: row.account,
+    ...(row.party_id && { partyId: row.party_id }),
+    amountCents: Number(row.amount_cents),
+    currency: row.currency,
+  };
+}
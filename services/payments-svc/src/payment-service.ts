@@ -2,6 +2,17 @@ import { v4 as uuidv4 } from 'uuid';
 import { PoolClient } from 'pg';
 import { query, transaction } from './db-connection';
 import { logger, NotFoundError, ValidationError, ConflictError } from '@roadcall/utils';
+import {
+  getPaymentNetLines,
+  getPaymentUpdateEntries,
+  getPlatformFeeCents,
+  isPaymentVoided,
+  paymentApprovedEntry,
+  paymentCreatedEntry,
+  paymentVoidedEntry,
+  postLedgerEntry,
+  refundEntry,
+} from './ledger-service';
 
 // ========================================================================
 // Types
@@ -13,7 +24,8 @@ export type PaymentStatus =
   | 'processing'
   | 'completed'
   | 'failed'
-  | 'cancelled';
+  | 'cancelled'
+  | 'refunded';
 
 export type PayerType = 'back_office' | 'driver_ic';
 
@@ -21,6 +33,20 @@ export type FraudStatus = 'low_risk' | 'medium_risk' | 'high_risk' | 'flagged';
 
 export type ActorType = 'user' | 'system' | 'admin';
 
+// Payment statuses in lifecycle order. Stripe events never move a payment
+// back down this order from a final status.
+export const PAYMENT_STATUS_ORDER: Record<PaymentStatus, number> = {
+  pending_approval: 0,
+  approved: 1,
+  processing: 2,
+  failed: 3, // A failed Payment Intent can still be retried and succeed
+  completed: 4,
+  cancelled: 4,
+  refunded: 5,
+};
+
+const FINAL_PAYMENT_STATUSES: PaymentStatus[] = ['completed', 'cancelled', 'refunded'];
+
 export interface Payment {
   paymentId: string;
   incidentId: string;
@@ -31,6 +57,9 @@ export interface Payment {
   currency: string;
   status: PaymentStatus;
   stripePaymentIntentId?: string;
+  stripeTransferId?: string; // Connect transfer that paid the vendor on back_office payments
+  platformFeeCents: number; // Platform margin; the vendor is paid the rest
+  stripeFeeCents?: number; // Stripe's fee on the charge for driver_ic payments
   fraudScore?: number;
   fraudStatus?: FraudStatus;
   approvedBy?: string;
@@ -38,6 +67,7 @@ export interface Payment {
   processedAt?: string;
   failedReason?: string;
   metadata?: Record<string, any>;
+  stripeEventAt?: string; // When Stripe created the last event applied to the payment
   createdAt: string;
   updatedAt: string;
 }
@@ -64,6 +94,65 @@ export interface PaymentAuditLog {
   timestamp: string;
 }
 
+// Where money went back: a card refund, a clawback from the vendor's Connect
+// account, or a dispute the card issuer decided against us
+export type RefundSource = 'refund' | 'transfer_reversal' | 'dispute';
+
+export interface PaymentRefund {
+  refundId: string;
+  paymentId: string;
+  source: RefundSource;
+  amountCents: number;
+  reason?: string;
+  stripeRefundId?: string;
+  stripeTransferReversalId?: string;
+  stripeDisputeId?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface RecordRefundInput {
+  source: RefundSource;
+  amountCents: number;
+  reason?: string;
+  stripeRefundId?: string;
+  stripeTransferReversalId?: string;
+  stripeDisputeId?: string;
+  vendorRecoveredCents?: number; // Part of a transfer_reversal pulled back from the vendor; defaults to all of it
+}
+
+// Stripe's dispute statuses
+export type DisputeStatus =
+  | 'warning_needs_response'
+  | 'warning_under_review'
+  | 'warning_closed'
+  | 'needs_response'
+  | 'under_review'
+  | 'won'
+  | 'lost';
+
+export interface PaymentDispute {
+  disputeId: string;
+  paymentId: string;
+  stripeDisputeId: string;
+  amountCents: number;
+  reason?: string;
+  status: DisputeStatus;
+  evidence?: Record<string, any>;
+  evidenceDueBy?: string;
+  evidenceSubmittedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpsertDisputeInput {
+  stripeDisputeId: string;
+  amountCents: number;
+  reason?: string;
+  status: DisputeStatus;
+  evidenceDueBy?: string;
+}
+
 export interface CreatePaymentInput {
   incidentId: string;
   vendorId: string;
@@ -71,6 +160,7 @@ export interface CreatePaymentInput {
   payerId?: string;
   amountCents: number;
   currency?: string;
+  platformFeeCents?: number; // Defaults to the configured platform fee rate
   lineItems: Array<{
     description: string;
     quantity: number;
@@ -82,11 +172,24 @@ export interface CreatePaymentInput {
 export interface UpdatePaymentInput {
   status?: PaymentStatus;
   stripePaymentIntentId?: string;
+  stripeTransferId?: string;
+  stripeFeeCents?: number;
   fraudScore?: number;
   fraudStatus?: FraudStatus;
   approvedBy?: string;
   failedReason?: string;
   metadata?: Record<string, any>;
+  vendorTransferredCents?: number; // Part of the vendor's share a payout batch transferred; defaults to all of it
+  stripeEventAt?: string; // Created time of the Stripe event behind the update; stale events are rejected
+}
+
+// A Stripe webhook event received, keyed by its event ID
+export interface ClaimStripeEventInput {
+  eventId: string;
+  eventType: string;
+  objectId?: string;
+  paymentId?: string;
+  createdAt: string;
 }
 
 // ========================================================================
@@ -122,6 +225,12 @@ export async function createPayment(
     );
   }
 
+  const platformFeeCents = input.platformFeeCents ?? getPlatformFeeCents(input.amountCents);
+
+  if (platformFeeCents < 0 || platformFeeCents > input.amountCents) {
+    throw new ValidationError('Platform fee must be between zero and the payment amount');
+  }
+
   return transaction(async (client: PoolClient) => {
     const paymentId = uuidv4();
     const now = new Date().toISOString();
@@ -130,8 +239,8 @@ export async function createPayment(
     const paymentResult = await client.query(
       `INSERT INTO payments (
         payment_id, incident_id, vendor_id, payer_type, payer_id,
-        amount_cents, currency, status, metadata, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        amount_cents, currency, platform_fee_cents, status, metadata, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       RETURNING *`,
       [
         paymentId,
@@ -141,6 +250,7 @@ export async function createPayment(
         input.payerId || null,
         input.amountCents,
         input.currency || 'USD',
+        platformFeeCents,
         'pending_approval',
         JSON.stringify(input.metadata || {}),
         now,
@@ -175,6 +285,8 @@ export async function createPayment(
       'Payment record created'
     );
 
+    await postLedgerEntry(client, paymentCreatedEntry(payment), actorId);
+
     logger.info('Payment created', {
       paymentId,
       incidentId: input.incidentId,
@@ -230,6 +342,23 @@ export async function getPaymentByIncidentId(incidentId: string): Promise<Paymen
   return mapPaymentFromDb(result.rows[0]);
 }
 
+/**
+ * Get payment by the Stripe Payment Intent that charged it
+ */
+export async function getPaymentByStripePaymentIntentId(
+  paymentIntentId: string
+): Promise<Payment | null> {
+  const result = await query('SELECT * FROM payments WHERE stripe_payment_intent_id = $1', [
+    paymentIntentId,
+  ]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapPaymentFromDb(result.rows[0]);
+}
+
 /**
  * Update payment
  */
@@ -252,6 +381,15 @@ export async function updatePayment(
 
     const currentPayment = mapPaymentFromDb(currentResult.rows[0]);
 
+    if (
+      input.stripeEventAt !== undefined &&
+      isStaleStripeEvent(currentPayment, input.status ?? currentPayment.status, input.stripeEventAt)
+    ) {
+      throw new ConflictError(
+        `Stale Stripe event for payment ${paymentId} in status: ${currentPayment.status}`
+      );
+    }
+
     // Build update query dynamically
     const updates: string[] = [];
     const values: any[] = [];
@@ -267,6 +405,16 @@ export async function updatePayment(
       values.push(input.stripePaymentIntentId);
     }
 
+    if (input.stripeTransferId !== undefined) {
+      updates.push(`stripe_transfer_id = $${paramIndex++}`);
+      values.push(input.stripeTransferId);
+    }
+
+    if (input.stripeFeeCents !== undefined) {
+      updates.push(`stripe_fee_cents = $${paramIndex++}`);
+      values.push(input.stripeFeeCents);
+    }
+
     if (input.fraudScore !== undefined) {
       updates.push(`fraud_score = $${paramIndex++}`);
       values.push(input.fraudScore);
@@ -292,6 +440,11 @@ export async function updatePayment(
       values.push(JSON.stringify(input.metadata));
     }
 
+    if (input.stripeEventAt !== undefined) {
+      updates.push(`stripe_event_at = $${paramIndex++}`);
+      values.push(input.stripeEventAt);
+    }
+
     if (input.status === 'processing') {
       updates.push(`processed_at = NOW()`);
     }
@@ -313,6 +466,24 @@ export async function updatePayment(
     const result = await client.query(updateQuery, values);
     const updatedPayment = mapPaymentFromDb(result.rows[0]);
 
+    for (const entry of getPaymentUpdateEntries(
+      currentPayment,
+      updatedPayment,
+      input.vendorTransferredCents
+    )) {
+      await postLedgerEntry(client, entry, actorId);
+    }
+
+    if (isPaymentVoided(currentPayment, updatedPayment)) {
+      const entry = paymentVoidedEntry(
+        updatedPayment,
+        await getPaymentNetLines(client, paymentId)
+      );
+      if (entry) {
+        await postLedgerEntry(client, entry, actorId);
+      }
+    }
+
     // Create audit log entry
     const action = input.status ? `status_changed_to_${input.status}` : 'payment_updated';
     await createAuditLog(
@@ -387,6 +558,8 @@ export async function approvePayment(
       'Payment approved for processing'
     );
 
+    await postLedgerEntry(client, paymentApprovedEntry(updatedPayment), approvedBy);
+
     logger.info('Payment approved', {
       paymentId,
       approvedBy,
@@ -451,10 +624,359 @@ export async function getPaymentAuditLog(paymentId: string): Promise<PaymentAudi
   return result.rows.map(mapAuditLogFromDb);
 }
 
+/**
+ * Whether a Stripe event would move a payment to `status` out of order: it
+ * was created before the last event applied, or would take the payment back
+ * from a final status. Events created in the same second are ordered by
+ * status, since Stripe timestamps are whole seconds.
+ */
+export function isStaleStripeEvent(
+  payment: Pick<Payment, 'status' | 'stripeEventAt'>,
+  status: PaymentStatus,
+  eventCreatedAt: string
+): boolean {
+  const movesBack = PAYMENT_STATUS_ORDER[status] < PAYMENT_STATUS_ORDER[payment.status];
+
+  if (movesBack && FINAL_PAYMENT_STATUSES.includes(payment.status)) {
+    return true;
+  }
+
+  if (!payment.stripeEventAt) {
+    return false;
+  }
+
+  const created = new Date(eventCreatedAt).getTime();
+  const lastApplied = new Date(payment.stripeEventAt).getTime();
+
+  return created < lastApplied || (created === lastApplied && movesBack);
+}
+
+// ========================================================================
+// Stripe Events
+// ========================================================================
+
+/**
+ * Claim a Stripe event for processing. Returns false when the event has
+ * already been processed, or another delivery of it is being processed, so
+ * Stripe's retries are applied once. An event that failed, or whose
+ * processing stalled, can be claimed again.
+ */
+export async function claimStripeEvent(input: ClaimStripeEventInput): Promise<boolean> {
+  const result = await query(
+    `INSERT INTO stripe_events (
+      event_id, event_type, object_id, payment_id, status, event_created_at,
+      received_at, updated_at
+    ) VALUES ($1, $2, $3, $4, 'processing', $5, NOW(), NOW())
+    ON CONFLICT (event_id) DO UPDATE SET
+      status = 'processing',
+      attempts = stripe_events.attempts + 1,
+      last_error = NULL,
+      updated_at = NOW()
+    WHERE stripe_events.status = 'failed'
+      OR (stripe_events.status = 'processing'
+        AND stripe_events.updated_at < NOW() - INTERVAL '5 minutes')
+    RETURNING event_id`,
+    [
+      input.eventId,
+      input.eventType,
+      input.objectId || null,
+      input.paymentId || null,
+      input.createdAt,
+    ]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Record the outcome of processing a claimed Stripe event
+ */
+export async function finishStripeEvent(eventId: string, error?: string): Promise<void> {
+  await query(
+    `UPDATE stripe_events SET status = $1, last_error = $2, updated_at = NOW()
+     WHERE event_id = $3`,
+    [error ? 'failed' : 'processed', error || null, eventId]
+  );
+}
+
+// ========================================================================
+// Refunds and Disputes
+// ========================================================================
+
+/**
+ * Work out what a refund does to a payment: how much is left to refund and
+ * whether the payment is now fully refunded. Throws when the refund is larger
+ * than what is left.
+ */
+export function getRefundOutcome(
+  amountCents: number,
+  refundedCents: number,
+  refundCents: number
+): { remainingCents: number; fullyRefunded: boolean } {
+  if (!Number.isInteger(refundCents) || refundCents <= 0) {
+    throw new ValidationError('Refund amount must be a positive number of cents');
+  }
+
+  const remainingCents = amountCents - refundedCents - refundCents;
+  if (remainingCents < 0) {
+    throw new ValidationError(
+      `Refund of ${refundCents} exceeds the ${amountCents - refundedCents} cents left to refund`
+    );
+  }
+
+  return { remainingCents, fullyRefunded: remainingCents === 0 };
+}
+
+/**
+ * Record a refund against a payment and mark the payment refunded once
+ * nothing is left. A refund whose Stripe ID is already recorded is skipped and
+ * comes back as null, so webhooks and API calls can both report it.
+ */
+export async function recordRefund(
+  paymentId: string,
+  input: RecordRefundInput,
+  actorId: string,
+  actorType: ActorType = 'system'
+): Promise<{ payment: Payment; refund: PaymentRefund | null }> {
+  return transaction(async (client: PoolClient) => {
+    const currentResult = await client.query(
+      'SELECT * FROM payments WHERE payment_id = $1 FOR UPDATE',
+      [paymentId]
+    );
+
+    if (currentResult.rows.length === 0) {
+      throw new NotFoundError('Payment', paymentId);
+    }
+
+    const currentPayment = mapPaymentFromDb(currentResult.rows[0]);
+
+    const insertResult = await client.query(
+      `INSERT INTO payment_refunds (
+        refund_id, payment_id, source, amount_cents, reason,
+        stripe_refund_id, stripe_transfer_reversal_id, stripe_dispute_id, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT DO NOTHING
+      RETURNING *`,
+      [
+        uuidv4(),
+        paymentId,
+        input.source,
+        input.amountCents,
+        input.reason || null,
+        input.stripeRefundId || null,
+        input.stripeTransferReversalId || null,
+        input.stripeDisputeId || null,
+        actorId,
+      ]
+    );
+
+    if (insertResult.rows.length === 0) {
+      logger.info('Refund already recorded', { paymentId, ...input });
+      return { payment: currentPayment, refund: null };
+    }
+
+    // Checked after the insert so a repeat of an already recorded refund is
+    // skipped rather than rejected; an oversized refund rolls the insert back
+    const refundedResult = await client.query(
+      `SELECT COALESCE(SUM(amount_cents), 0) AS refunded_cents
+       FROM payment_refunds WHERE payment_id = $1 AND refund_id <> $2`,
+      [paymentId, insertResult.rows[0].refund_id]
+    );
+    const { remainingCents, fullyRefunded } = getRefundOutcome(
+      currentPayment.amountCents,
+      Number(refundedResult.rows[0].refunded_cents),
+      input.amountCents
+    );
+
+    const refund = mapRefundFromDb(insertResult.rows[0]);
+    let payment = currentPayment;
+
+    await postLedgerEntry(
+      client,
+      refundEntry(currentPayment, refund, input.vendorRecoveredCents),
+      actorId
+    );
+
+    if (fullyRefunded && currentPayment.status !== 'refunded') {
+      const result = await client.query(
+        `UPDATE payments SET status = 'refunded', updated_at = NOW()
+         WHERE payment_id = $1
+         RETURNING *`,
+        [paymentId]
+      );
+      payment = mapPaymentFromDb(result.rows[0]);
+    }
+
+    await createAuditLog(
+      client,
+      paymentId,
+      fullyRefunded ? 'payment_refunded' : 'payment_partially_refunded',
+      actorId,
+      actorType,
+      currentPayment.status,
+      payment.status !== currentPayment.status ? payment.status : undefined,
+      `${formatCents(input.amountCents)} returned via ${input.source}; ${formatCents(remainingCents)} left${
+        input.reason ? ` (${input.reason})` : ''
+      }`
+    );
+
+    logger.info('Refund recorded', {
+      paymentId,
+      refundId: refund.refundId,
+      source: input.source,
+      amountCents: input.amountCents,
+      remainingCents,
+    });
+
+    return { payment, refund };
+  });
+}
+
+/**
+ * Get refunds recorded against a payment, oldest first
+ */
+export async function getPaymentRefunds(paymentId: string): Promise<PaymentRefund[]> {
+  const result = await query(
+    'SELECT * FROM payment_refunds WHERE payment_id = $1 ORDER BY created_at',
+    [paymentId]
+  );
+
+  return result.rows.map(mapRefundFromDb);
+}
+
+/**
+ * Create or update a dispute from Stripe's view of it. `created` is true the
+ * first time a dispute is seen.
+ */
+export async function upsertDispute(
+  paymentId: string,
+  input: UpsertDisputeInput,
+  actorId: string
+): Promise<{ dispute: PaymentDispute; created: boolean; previousStatus?: DisputeStatus }> {
+  return transaction(async (client: PoolClient) => {
+    const currentResult = await client.query(
+      'SELECT * FROM payment_disputes WHERE stripe_dispute_id = $1 FOR UPDATE',
+      [input.stripeDisputeId]
+    );
+
+    if (currentResult.rows.length > 0) {
+      const current = mapDisputeFromDb(currentResult.rows[0]);
+      const result = await client.query(
+        `UPDATE payment_disputes
+         SET amount_cents = $1, reason = $2, status = $3, evidence_due_by = $4
+         WHERE dispute_id = $5
+         RETURNING *`,
+        [
+          input.amountCents,
+          input.reason || null,
+          input.status,
+          input.evidenceDueBy || null,
+          current.disputeId,
+        ]
+      );
+
+      if (input.status !== current.status) {
+        await createAuditLog(
+          client,
+          paymentId,
+          `dispute_${input.status}`,
+          actorId,
+          'system',
+          undefined,
+          undefined,
+          `Dispute ${input.stripeDisputeId} moved from ${current.status} to ${input.status}`
+        );
+      }
+
+      return {
+        dispute: mapDisputeFromDb(result.rows[0]),
+        created: false,
+        previousStatus: current.status,
+      };
+    }
+
+    const result = await client.query(
+      `INSERT INTO payment_disputes (
+        dispute_id, payment_id, stripe_dispute_id, amount_cents, reason, status, evidence_due_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        uuidv4(),
+        paymentId,
+        input.stripeDisputeId,
+        input.amountCents,
+        input.reason || null,
+        input.status,
+        input.evidenceDueBy || null,
+      ]
+    );
+
+    await createAuditLog(
+      client,
+      paymentId,
+      'dispute_opened',
+      actorId,
+      'system',
+      undefined,
+      undefined,
+      `Dispute ${input.stripeDisputeId} opened for ${formatCents(input.amountCents)}${
+        input.reason ? ` (${input.reason})` : ''
+      }`
+    );
+
+    logger.info('Dispute opened', {
+      paymentId,
+      stripeDisputeId: input.stripeDisputeId,
+      amountCents: input.amountCents,
+    });
+
+    return { dispute: mapDisputeFromDb(result.rows[0]), created: true };
+  });
+}
+
+/**
+ * Save the evidence bundle for a dispute, stamping when it was submitted
+ */
+export async function saveDisputeEvidence(
+  disputeId: string,
+  evidence: Record<string, any>,
+  submitted: boolean
+): Promise<PaymentDispute> {
+  const result = await query(
+    `UPDATE payment_disputes
+     SET evidence = $1${submitted ? ', evidence_submitted_at = NOW()' : ''}
+     WHERE dispute_id = $2
+     RETURNING *`,
+    [JSON.stringify(evidence), disputeId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Dispute', disputeId);
+  }
+
+  return mapDisputeFromDb(result.rows[0]);
+}
+
+/**
+ * Get disputes raised against a payment, newest first
+ */
+export async function getPaymentDisputes(paymentId: string): Promise<PaymentDispute[]> {
+  const result = await query(
+    'SELECT * FROM payment_disputes WHERE payment_id = $1 ORDER BY created_at DESC',
+    [paymentId]
+  );
+
+  return result.rows.map(mapDisputeFromDb);
+}
+
 // ========================================================================
 // Helper Functions
 // ========================================================================
 
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
 /**
  * Create audit log entry
  */
@@ -482,7 +1004,7 @@ async function createAuditLog(
 /**
  * Map database row to Payment object
  */
-function mapPaymentFromDb(row: any): Payment {
+export function mapPaymentFromDb(row: any): Payment {
   return {
     paymentId: row.payment_id,
     incidentId: row.incident_id,
@@ -493,6 +1015,9 @@ function mapPaymentFromDb(row: any): Payment {
     currency: row.currency,
     status: row.status,
     stripePaymentIntentId: row.stripe_payment_intent_id,
+    stripeTransferId: row.stripe_transfer_id,
+    platformFeeCents: row.platform_fee_cents,
+    stripeFeeCents: row.stripe_fee_cents ?? undefined,
     fraudScore: row.fraud_score ? parseFloat(row.fraud_score) : undefined,
     fraudStatus: row.fraud_status,
     approvedBy: row.approved_by,
@@ -500,6 +1025,7 @@ function mapPaymentFromDb(row: any): Payment {
     processedAt: row.processed_at?.toISOString(),
     failedReason: row.failed_reason,
     metadata: row.metadata,
+    stripeEventAt: row.stripe_event_at?.toISOString(),
     createdAt: row.created_at.toISOString(),
     updatedAt: row.updated_at.toISOString(),
   };
@@ -508,7 +1034,7 @@ function mapPaymentFromDb(row: any): Payment {
 /**
  * Map database row to PaymentLineItem object
  */
-function mapLineItemFromDb(row: any): PaymentLineItem {
+export function mapLineItemFromDb(row: any): PaymentLineItem {
   return {
     lineItemId: row.line_item_id,
     paymentId: row.payment_id,
@@ -536,3 +1062,40 @@ function mapAuditLogFromDb(row: any): PaymentAuditLog {
     timestamp: row.timestamp.toISOString(),
   };
 }
+
+/**
+ * Map database row to PaymentRefund object
+ */
+export function mapRefundFromDb(row: any): PaymentRefund {
+  return {
+    refundId: row.refund_id,
+    paymentId: row.payment_id,
+    source: row.source,
+    amountCents: row.amount_cents,
+    reason: row.reason,
+    stripeRefundId: row.stripe_refund_id,
+    stripeTransferReversalId: row.stripe_transfer_reversal_id,
+    stripeDisputeId: row.stripe_dispute_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Map database row to PaymentDispute object
+ */
+function mapDisputeFromDb(row: any): PaymentDispute {
+  return {
+    disputeId: row.dispute_id,
+    paymentId: row.payment_id,
+    stripeDisputeId: row.stripe_dispute_id,
+    amountCents: row.amount_cents,
+    reason: row.reason,
+    status: row.status,
+    evidence: row.evidence,
+    evidenceDueBy: row.evidence_due_by?.toISOString(),
+    evidenceSubmittedAt: row.evidence_submitted_at?.toISOString(),
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
@@ -0,0 +1,681 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import { logger, NotFoundError, ValidationError } from '@roadcall/utils';
+import { query, transaction } from './db-connection';
+import {
+  Payment,
+  PaymentLineItem,
+  PaymentRefund,
+  mapLineItemFromDb,
+  mapPaymentFromDb,
+  mapRefundFromDb,
+  updatePayment,
+} from './payment-service';
+import { getVendorShareCents } from './ledger-service';
+import {
+  createPayout,
+  createPayoutBatchTransfer,
+  findPayoutBatchTransfer,
+  isStripeRejection,
+} from './stripe-service';
+
+// ========================================================================
+// Types
+// ========================================================================
+
+export type PayoutSchedule = 'instant' | 'daily' | 'weekly';
+
+export type PayoutBatchStatus = 'pending' | 'in_transit' | 'paid' | 'failed';
+
+export interface VendorPayoutSettings {
+  vendorId: string;
+  stripeAccountId: string;
+  schedule: PayoutSchedule;
+  weeklyAnchor: number; // UTC weekday weekly payouts go out on, 0 = Sunday
+  updatedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdatePayoutSettingsInput {
+  stripeAccountId?: string;
+  schedule?: PayoutSchedule;
+  weeklyAnchor?: number;
+}
+
+export interface PayoutStatementJob {
+  paymentId: string;
+  incidentId: string;
+  serviceType?: string;
+  completedAt?: string;
+  lineItems: Array<
+    Pick<PaymentLineItem, 'description' | 'quantity' | 'unitPriceCents' | 'totalCents'>
+  >;
+  grossCents: number;
+  platformFeeCents: number;
+  adjustmentCents: number;
+  netCents: number;
+}
+
+// A refund made before the vendor was paid, withheld from their share
+export interface PayoutStatementAdjustment {
+  paymentId: string;
+  refundId: string;
+  description: string;
+  amountCents: number; // Negative
+}
+
+export interface PayoutTotals {
+  grossCents: number;
+  feeCents: number;
+  adjustmentCents: number;
+  netCents: number;
+}
+
+export interface PayoutStatement {
+  jobs: PayoutStatementJob[];
+  adjustments: PayoutStatementAdjustment[];
+  totals: PayoutTotals;
+}
+
+export interface PayoutBatch extends PayoutTotals {
+  batchId: string;
+  vendorId: string;
+  schedule: PayoutSchedule;
+  status: PayoutBatchStatus;
+  currency: string;
+  statement: PayoutStatement;
+  stripeTransferId?: string;
+  stripePayoutId?: string;
+  failureCode?: string;
+  failureMessage?: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A payment owed to the vendor, with its line items and any refunds on it
+export interface PayableJob {
+  payment: Payment;
+  lineItems: PaymentLineItem[];
+  refunds: PaymentRefund[];
+}
+
+const PAYOUT_SCHEDULES: PayoutSchedule[] = ['instant', 'daily', 'weekly'];
+
+// A batch still pending this long after it was created was interrupted
+const STALE_BATCH_MINUTES = 15;
+
+// ========================================================================
+// Payout Statements
+// ========================================================================
+
+/**
+ * Whether a vendor's schedule has a payout due. Instant payouts go out on
+ * every run; daily and weekly ones once per UTC day, weekly ones only on the
+ * anchor weekday.
+ */
+export function isPayoutDue(
+  settings: Pick<VendorPayoutSettings, 'schedule' | 'weeklyAnchor'>,
+  lastBatchAt: string | undefined,
+  now: Date
+): boolean {
+  if (settings.schedule === 'instant') {
+    return true;
+  }
+
+  if (settings.schedule === 'weekly' && now.getUTCDay() !== settings.weeklyAnchor) {
+    return false;
+  }
+
+  const startOfDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return !lastBatchAt || new Date(lastBatchAt).getTime() < startOfDay;
+}
+
+/**
+ * Build the statement for a payout: each job with its line items, the
+ * platform fee and the vendor's share, less the vendor's share of any refunds
+ * made before the payout. A job never goes below zero.
+ */
+export function buildPayoutStatement(jobs: PayableJob[]): PayoutStatement {
+  const statementJobs: PayoutStatementJob[] = [];
+  const adjustments: PayoutStatementAdjustment[] = [];
+
+  for (const { payment, lineItems, refunds } of jobs) {
+    const vendorShareCents = getVendorShareCents(payment);
+    let adjustmentCents = 0;
+
+    for (const refund of refunds) {
+      const amountCents = -Math.min(
+        getVendorShareCents(payment, refund.amountCents),
+        vendorShareCents + adjustmentCents
+      );
+      if (amountCents === 0) {
+        continue;
+      }
+
+      adjustmentCents += amountCents;
+      adjustments.push({
+        paymentId: payment.paymentId,
+        refundId: refund.refundId,
+        description: refund.reason ? `Refund (${refund.reason})` : 'Refund',
+        amountCents,
+      });
+    }
+
+    statementJobs.push({
+      paymentId: payment.paymentId,
+      incidentId: payment.incidentId,
+      ...(payment.metadata?.serviceType && { serviceType: payment.metadata.serviceType }),
+      ...(payment.metadata?.workCompletedAt && { completedAt: payment.metadata.workCompletedAt }),
+      lineItems: lineItems.map(({ description, quantity, unitPriceCents, totalCents }) => ({
+        description,
+        quantity,
+        unitPriceCents,
+        totalCents,
+      })),
+      grossCents: payment.amountCents,
+      platformFeeCents: payment.amountCents - vendorShareCents,
+      adjustmentCents,
+      netCents: vendorShareCents + adjustmentCents,
+    });
+  }
+
+  const sum = (key: 'grossCents' | 'platformFeeCents' | 'adjustmentCents' | 'netCents') =>
+    statementJobs.reduce((total, job) => total + job[key], 0);
+
+  return {
+    jobs: statementJobs,
+    adjustments,
+    totals: {
+      grossCents: sum('grossCents'),
+      feeCents: sum('platformFeeCents'),
+      adjustmentCents: sum('adjustmentCents'),
+      netCents: sum('netCents'),
+    },
+  };
+}
+
+/**
+ * Whether a user may see a vendor's payouts: the vendor themselves, or an admin
+ */
+export function canViewPayouts(vendorId: string, role?: string, userId?: string): boolean {
+  return role === 'admin' || (role === 'vendor' && !!userId && userId === vendorId);
+}
+
+// ========================================================================
+// Payout Settings
+// ========================================================================
+
+/**
+ * Get a vendor's payout settings
+ */
+export async function getPayoutSettings(vendorId: string): Promise<VendorPayoutSettings | null> {
+  const result = await query('SELECT * FROM vendor_payout_settings WHERE vendor_id = $1', [
+    vendorId,
+  ]);
+
+  return result.rows.length > 0 ? mapPayoutSettingsFromDb(result.rows[0]) : null;
+}
+
+/**
+ * Create or update a vendor's payout settings. A vendor's first settings
+ * need their Stripe Connect account.
+ */
+export async function upsertPayoutSettings(
+  vendorId: string,
+  input: UpdatePayoutSettingsInput,
+  actorId: string
+): Promise<VendorPayoutSettings> {
+  if (input.schedule !== undefined && !PAYOUT_SCHEDULES.includes(input.schedule)) {
+    throw new ValidationError(`schedule must be one of: ${PAYOUT_SCHEDULES.join(', ')}`);
+  }
+
+  if (
+    input.weeklyAnchor !== undefined &&
+    !(Number.isInteger(input.weeklyAnchor) && input.weeklyAnchor >= 0 && input.weeklyAnchor <= 6)
+  ) {
+    throw new ValidationError('weeklyAnchor must be a weekday from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  if (input.stripeAccountId !== undefined && !input.stripeAccountId.startsWith('acct_')) {
+    throw new ValidationError('stripeAccountId must be a Stripe Connect account ID');
+  }
+
+  const current = await getPayoutSettings(vendorId);
+
+  if (!current && !input.stripeAccountId) {
+    throw new ValidationError('stripeAccountId is required to set up payouts');
+  }
+
+  const result = await query(
+    `INSERT INTO vendor_payout_settings (
+      vendor_id, stripe_account_id, schedule, weekly_anchor, updated_by, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+    ON CONFLICT (vendor_id) DO UPDATE SET
+      stripe_account_id = EXCLUDED.stripe_account_id,
+      schedule = EXCLUDED.schedule,
+      weekly_anchor = EXCLUDED.weekly_anchor,
+      updated_by = EXCLUDED.updated_by
+    RETURNING *`,
+    [
+      vendorId,
+      input.stripeAccountId ?? current!.stripeAccountId,
+      input.schedule ?? current?.schedule ?? 'daily',
+      input.weeklyAnchor ?? current?.weeklyAnchor ?? 1,
+      actorId,
+    ]
+  );
+
+  const settings = mapPayoutSettingsFromDb(result.rows[0]);
+
+  logger.info('Payout settings updated', {
+    vendorId,
+    schedule: settings.schedule,
+    weeklyAnchor: settings.weeklyAnchor,
+    actorId,
+  });
+
+  return settings;
+}
+
+// ========================================================================
+// Payout Batches
+// ========================================================================
+
+/**
+ * Batch everything owed to a vendor into one payout per currency, with its
+ * statement. The payments are claimed by the batch so no other run pays
+ * them. Currencies with nothing left to pay after refunds are left for later.
+ */
+export async function createPayoutBatches(settings: VendorPayoutSettings): Promise<PayoutBatch[]> {
+  return transaction(async (client: PoolClient) => {
+    // Locked so a concurrent run cannot batch the same payments twice
+    const paymentsResult = await client.query(
+      `SELECT * FROM payments WHERE ${payablePaymentsWhere('$1')}
+       ORDER BY created_at
+       FOR UPDATE`,
+      [settings.vendorId]
+    );
+
+    if (paymentsResult.rows.length === 0) {
+      return [];
+    }
+
+    const payments: Payment[] = paymentsResult.rows.map(mapPaymentFromDb);
+    const paymentIds = payments.map((payment) => payment.paymentId);
+    const [lineItemsResult, refundsResult] = await Promise.all([
+      client.query(
+        'SELECT * FROM payment_line_items WHERE payment_id = ANY($1) ORDER BY created_at',
+        [paymentIds]
+      ),
+      client.query('SELECT * FROM payment_refunds WHERE payment_id = ANY($1) ORDER BY created_at', [
+        paymentIds,
+      ]),
+    ]);
+    const lineItems: PaymentLineItem[] = lineItemsResult.rows.map(mapLineItemFromDb);
+    const refunds: PaymentRefund[] = refundsResult.rows.map(mapRefundFromDb);
+
+    const batches: PayoutBatch[] = [];
+    for (const currency of new Set(payments.map((payment) => payment.currency))) {
+      const jobs = payments
+        .filter((payment) => payment.currency === currency)
+        .map((payment) => ({
+          payment,
+          lineItems: lineItems.filter((item) => item.paymentId === payment.paymentId),
+          refunds: refunds.filter((refund) => refund.paymentId === payment.paymentId),
+        }));
+      const statement = buildPayoutStatement(jobs);
+
+      if (statement.totals.netCents <= 0) {
+        continue;
+      }
+
+      const batchId = uuidv4();
+      const result = await client.query(
+        `INSERT INTO payout_batches (
+          batch_id, vendor_id, schedule, status, currency, gross_cents, fee_cents,
+          adjustment_cents, net_cents, statement, created_at, updated_at
+        ) VALUES ($1, $2, $3, 'pending', $4, $5, $6, $7, $8, $9, NOW(), NOW())
+        RETURNING *`,
+        [
+          batchId,
+          settings.vendorId,
+          settings.schedule,
+          currency,
+          statement.totals.grossCents,
+          statement.totals.feeCents,
+          statement.totals.adjustmentCents,
+          statement.totals.netCents,
+          JSON.stringify(statement),
+        ]
+      );
+
+      await client.query('UPDATE payments SET payout_batch_id = $1 WHERE payment_id = ANY($2)', [
+        batchId,
+        jobs.map((job) => job.payment.paymentId),
+      ]);
+
+      batches.push(mapPayoutBatchFromDb(result.rows[0]));
+    }
+
+    return batches;
+  });
+}
+
+/**
+ * Pay a batch out: one transfer to the vendor's Connect account, then one
+ * payout from it to their bank. If Stripe rejects the transfer the batch is
+ * failed and its payments released for the next run. When the outcome is
+ * unknown the batch stays pending, and the next run finds its transfer by
+ * transfer group or retries it. Once the transfer has gone through, a failed
+ * payout leaves the money in the vendor's Connect balance.
+ */
+export async function executePayoutBatch(
+  batch: PayoutBatch,
+  settings: VendorPayoutSettings
+): Promise<PayoutBatch> {
+  const metadata = { batchId: batch.batchId, vendorId: batch.vendorId };
+
+  let transfer: Stripe.Transfer;
+  try {
+    // A resumed batch may have been transferred after its idempotency key expired
+    transfer =
+      (await findPayoutBatchTransfer(batch.batchId)) ||
+      (await createPayoutBatchTransfer({
+        amountCents: batch.netCents,
+        currency: batch.currency,
+        batchId: batch.batchId,
+        vendorStripeAccountId: settings.stripeAccountId,
+        metadata: { vendorId: batch.vendorId },
+      }));
+  } catch (error: any) {
+    if (isStripeRejection(error)) {
+      return failPayoutBatch(batch.batchId, 'transfer_failed', error.message, true);
+    }
+
+    // The transfer may have gone through, so its payments stay with the batch
+    logger.warn('Payout batch transfer outcome unknown, batch kept for retry', {
+      batchId: batch.batchId,
+      vendorId: batch.vendorId,
+      error: error.message,
+    });
+    return batch;
+  }
+
+  // Each payment records the batch transfer. The ledger posts the part of the
+  // vendor's share transferred and takes what was withheld out of refunds.
+  for (const job of batch.statement.jobs) {
+    const payment = await updatePayment(
+      job.paymentId,
+      { stripeTransferId: transfer.id, vendorTransferredCents: job.netCents },
+      'payout_scheduler'
+    );
+    if (payment.payerType === 'back_office' && payment.status === 'approved') {
+      await updatePayment(job.paymentId, { status: 'completed' }, 'payout_scheduler');
+    }
+  }
+
+  await query('UPDATE payout_batches SET stripe_transfer_id = $1 WHERE batch_id = $2', [
+    transfer.id,
+    batch.batchId,
+  ]);
+
+  let payout: Stripe.Payout;
+  try {
+    payout = await createPayout(
+      batch.netCents,
+      batch.currency,
+      settings.stripeAccountId,
+      metadata,
+      {
+        idempotencyKey: `payout_${batch.batchId}`,
+        method: batch.schedule === 'instant' ? 'instant' : 'standard',
+      }
+    );
+  } catch (error: any) {
+    return failPayoutBatch(batch.batchId, 'payout_failed', error.message, false);
+  }
+
+  const result = await query(
+    `UPDATE payout_batches SET status = 'in_transit', stripe_payout_id = $1
+     WHERE batch_id = $2 AND status = 'pending'
+     RETURNING *`,
+    [payout.id, batch.batchId]
+  );
+
+  logger.info('Payout batch sent', {
+    batchId: batch.batchId,
+    vendorId: batch.vendorId,
+    transferId: transfer.id,
+    payoutId: payout.id,
+    netCents: batch.netCents,
+  });
+
+  // A fast webhook may already have reconciled the payout
+  return result.rows.length > 0
+    ? mapPayoutBatchFromDb(result.rows[0])
+    : (await getPayoutBatch(batch.batchId))!;
+}
+
+/**
+ * Batch and pay out every vendor whose schedule has a payout due. A vendor
+ * that fails is logged and retried on the next run.
+ */
+export async function runScheduledPayouts(now: Date): Promise<PayoutBatch[]> {
+  const batches: PayoutBatch[] = [];
+
+  // Finish batches a previous run was interrupted paying. Stripe's
+  // idempotency keys and the ledger's references make a retry safe.
+  const staleResult = await query(
+    `SELECT * FROM payout_batches WHERE status = 'pending' AND created_at < $1`,
+    [new Date(now.getTime() - STALE_BATCH_MINUTES * 60 * 1000)]
+  );
+  for (const batch of staleResult.rows.map(mapPayoutBatchFromDb)) {
+    try {
+      const settings = await getPayoutSettings(batch.vendorId);
+      if (settings) {
+        batches.push(await executePayoutBatch(batch, settings));
+      }
+    } catch (error) {
+      logger.error('Error resuming payout batch', error as Error, { batchId: batch.batchId });
+    }
+  }
+
+  // Failed batches released their payments, so only the others count as paid
+  const result = await query(
+    `SELECT s.*, (
+       SELECT MAX(b.created_at) FROM payout_batches b
+       WHERE b.vendor_id = s.vendor_id AND b.status <> 'failed'
+     ) AS last_batch_at
+     FROM vendor_payout_settings s
+     WHERE EXISTS (
+       SELECT 1 FROM payments WHERE ${payablePaymentsWhere('s.vendor_id')}
+     )`
+  );
+
+  for (const row of result.rows) {
+    const settings = mapPayoutSettingsFromDb(row);
+
+    if (!isPayoutDue(settings, row.last_batch_at?.toISOString(), now)) {
+      continue;
+    }
+
+    try {
+      for (const batch of await createPayoutBatches(settings)) {
+        batches.push(await executePayoutBatch(batch, settings));
+      }
+    } catch (error) {
+      logger.error('Error paying out vendor', error as Error, { vendorId: settings.vendorId });
+    }
+  }
+
+  logger.info('Scheduled payouts completed', {
+    vendorCount: result.rows.length,
+    batchCount: batches.length,
+    failedCount: batches.filter((batch) => batch.status === 'failed').length,
+  });
+
+  return batches;
+}
+
+/**
+ * List a vendor's payout batches, newest first
+ */
+export async function getVendorPayoutBatches(
+  vendorId: string,
+  limit: number = 50,
+  offset: number = 0
+): Promise<PayoutBatch[]> {
+  const result = await query(
+    `SELECT * FROM payout_batches
+     WHERE vendor_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [vendorId, limit, offset]
+  );
+
+  return result.rows.map(mapPayoutBatchFromDb);
+}
+
+/**
+ * Get a payout batch with its statement
+ */
+export async function getPayoutBatch(batchId: string): Promise<PayoutBatch | null> {
+  const result = await query('SELECT * FROM payout_batches WHERE batch_id = $1', [batchId]);
+
+  return result.rows.length > 0 ? mapPayoutBatchFromDb(result.rows[0]) : null;
+}
+
+/**
+ * Reconcile a batch with the payout.paid or payout.failed webhook for its
+ * payout. Returns null for payouts no batch made.
+ */
+export async function reconcilePayout(
+  payout: Pick<Stripe.Payout, 'id' | 'failure_code' | 'failure_message' | 'metadata'>,
+  status: 'paid' | 'failed'
+): Promise<PayoutBatch | null> {
+  const result = await query(
+    `UPDATE payout_batches
+     SET status = $1,
+         stripe_payout_id = COALESCE(stripe_payout_id, $2),
+         paid_at = CASE WHEN $1 = 'paid' THEN NOW() ELSE paid_at END,
+         failure_code = $3,
+         failure_message = $4
+     WHERE (stripe_payout_id = $2 OR batch_id::text = $5)
+       AND ($1 = 'failed' OR status IN ('pending', 'in_transit'))
+     RETURNING *`,
+    [
+      status,
+      payout.id,
+      status === 'failed' ? payout.failure_code || 'unknown' : null,
+      status === 'failed' ? payout.failure_message || null : null,
+      payout.metadata?.batchId || '',
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    logger.warn('No payout batch to reconcile', { payoutId: payout.id, status });
+    return null;
+  }
+
+  const batch = mapPayoutBatchFromDb(result.rows[0]);
+
+  logger.info('Payout batch reconciled', {
+    batchId: batch.batchId,
+    payoutId: payout.id,
+    status,
+  });
+
+  return batch;
+}
+
+// ========================================================================
+// Helper Functions
+// ========================================================================
+
+// Back-office payments are owed once approved; driver payments once the
+// charge has completed, or been refunded in full, which the statement withholds
+function payablePaymentsWhere(vendorId: string): string {
+  return `vendor_id = ${vendorId} AND payout_batch_id IS NULL AND stripe_transfer_id IS NULL
+    AND ((payer_type = 'back_office' AND status = 'approved')
+      OR (payer_type = 'driver_ic' AND status IN ('completed', 'refunded')))`;
+}
+
+async function failPayoutBatch(
+  batchId: string,
+  failureCode: string,
+  failureMessage: string,
+  releasePayments: boolean
+): Promise<PayoutBatch> {
+  const batch = await transaction(async (client: PoolClient) => {
+    const result = await client.query(
+      `UPDATE payout_batches
+       SET status = 'failed', failure_code = $1, failure_message = $2
+       WHERE batch_id = $3
+       RETURNING *`,
+      [failureCode, failureMessage, batchId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('PayoutBatch', batchId);
+    }
+
+    if (releasePayments) {
+      await client.query('UPDATE payments SET payout_batch_id = NULL WHERE payout_batch_id = $1', [
+        batchId,
+      ]);
+    }
+
+    return mapPayoutBatchFromDb(result.rows[0]);
+  });
+
+  logger.error('Payout batch failed', new Error(failureMessage), {
+    batchId,
+    vendorId: batch.vendorId,
+    failureCode,
+  });
+
+  return batch;
+}
+
+/**
+ * Map database row to VendorPayoutSettings object
+ */
+function mapPayoutSettingsFromDb(row: any): VendorPayoutSettings {
+  return {
+    vendorId: row.vendor_id,
+    stripeAccountId: row.stripe_account_id,
+    schedule: row.schedule,
+    weeklyAnchor: row.weekly_anchor,
+    updatedBy: row.updated_by,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Map database row to PayoutBatch object
+ */
+function mapPayoutBatchFromDb(row: any): PayoutBatch {
+  return {
+    batchId: row.batch_id,
+    vendorId: row.vendor_id,
+    schedule: row.schedule,
+    status: row.status,
+    currency: row.currency,
+    grossCents: row.gross_cents,
+    feeCents: row.fee_cents,
+    adjustmentCents: row.adjustment_cents,
+    netCents: row.net_cents,
+    statement: row.statement,
+    stripeTransferId: row.stripe_transfer_id ?? undefined,
+    stripePayoutId: row.stripe_payout_id ?? undefined,
+    failureCode: row.failure_code ?? undefined,
+    failureMessage: row.failure_message ?? undefined,
+    paidAt: row.paid_at?.toISOString(),
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
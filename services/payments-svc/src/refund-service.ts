@@ -0,0 +1,324 @@
+import Stripe from 'stripe';
+import { logger, ConflictError, NotFoundError, ValidationError } from '@roadcall/utils';
+import {
+  ActorType,
+  Payment,
+  PaymentRefund,
+  RecordRefundInput,
+  getPaymentById,
+  getPaymentByStripePaymentIntentId,
+  getPaymentRefunds,
+  getRefundOutcome,
+  recordRefund,
+} from './payment-service';
+import { listRefunds, refundPayment, reverseConnectTransfer } from './stripe-service';
+import { getAmountForVendorShareCents, getVendorShareCents } from './ledger-service';
+import { getPayoutBatch } from './payout-service';
+import { publishPaymentRefunded } from './events';
+
+export interface IssueRefundInput {
+  amountCents?: number; // Defaults to everything not yet refunded
+  reason?: string;
+}
+
+/**
+ * Refund a completed payment in full or in part. Driver-paid payments are
+ * refunded to the card; back-office payments are clawed back from the vendor's
+ * Connect account by reversing the transfer that paid them.
+ */
+export async function issueRefund(
+  paymentId: string,
+  input: IssueRefundInput,
+  actorId: string,
+  actorType: ActorType = 'user'
+): Promise<{ payment: Payment; refund: PaymentRefund | null }> {
+  const paymentData = await getPaymentById(paymentId);
+
+  if (!paymentData) {
+    throw new NotFoundError('Payment', paymentId);
+  }
+
+  const { payment } = paymentData;
+
+  if (payment.status !== 'completed') {
+    throw new ConflictError(`Payment cannot be refunded from status: ${payment.status}`);
+  }
+
+  const refundedCents = (await getPaymentRefunds(paymentId)).reduce(
+    (sum, refund) => sum + refund.amountCents,
+    0
+  );
+  const amountCents = input.amountCents ?? payment.amountCents - refundedCents;
+  getRefundOutcome(payment.amountCents, refundedCents, amountCents);
+
+  // Stable across retries of the same request, distinct for each later refund
+  const idempotencyKey = `refund_${paymentId}_${refundedCents}_${amountCents}`;
+  const metadata = { paymentId, requestedBy: actorId };
+  let record: RecordRefundInput;
+
+  if (payment.payerType === 'driver_ic') {
+    if (!payment.stripePaymentIntentId) {
+      throw new ValidationError('Payment has no Stripe Payment Intent to refund');
+    }
+
+    const refund = await refundPayment(
+      payment.stripePaymentIntentId,
+      amountCents,
+      'requested_by_customer',
+      metadata,
+      idempotencyKey
+    );
+    record = { source: 'refund', amountCents, reason: input.reason, stripeRefundId: refund.id };
+  } else {
+    if (!payment.stripeTransferId) {
+      throw new ValidationError('Payment has no Stripe Connect transfer to reverse');
+    }
+
+    // The vendor only ever received their share, so only that comes back
+    const reversal = await reverseConnectTransfer(
+      payment.stripeTransferId,
+      getVendorShareCents(payment, amountCents),
+      metadata,
+      idempotencyKey
+    );
+    record = {
+      source: 'transfer_reversal',
+      amountCents,
+      reason: input.reason,
+      stripeTransferReversalId: reversal.id,
+      vendorRecoveredCents: reversal.amount,
+    };
+  }
+
+  return recordAndPublish(payment, record, actorId, actorType);
+}
+
+/**
+ * Record the refunds Stripe reports on a charge, including ones issued from
+ * the Stripe dashboard. Refunds already recorded are skipped.
+ */
+export async function syncChargeRefunds(charge: Stripe.Charge): Promise<PaymentRefund[]> {
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    logger.warn('Refunded charge has no Payment Intent', { chargeId: charge.id });
+    return [];
+  }
+
+  const payment = await getPaymentByStripePaymentIntentId(paymentIntentId);
+
+  if (!payment) {
+    logger.warn('Payment not found for refunded charge', { chargeId: charge.id, paymentIntentId });
+    return [];
+  }
+
+  const refunds = (await listRefunds(paymentIntentId))
+    .filter((refund) => refund.status === 'succeeded' || refund.status === 'pending')
+    .sort((a, b) => a.created - b.created);
+
+  const recorded: PaymentRefund[] = [];
+  for (const refund of refunds) {
+    const { refund: row } = await recordAndPublish(
+      payment,
+      {
+        source: 'refund',
+        amountCents: refund.amount,
+        reason: refund.reason || undefined,
+        stripeRefundId: refund.id,
+      },
+      'stripe_webhook',
+      'system'
+    );
+    if (row) {
+      recorded.push(row);
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Record the reversals on a transfer to a vendor, i.e. money pulled back from
+ * their Connect account. Reversals already recorded are skipped. A reversal
+ * only returns the vendor's share, so the refund recorded for one made in the
+ * dashboard is the payment amount that share comes from, as issueRefund would
+ * have reversed it. Payout batch transfers carry no payment, so a reversal of
+ * one is split across the batch's payments in statement order.
+ */
+export async function syncTransferReversals(transfer: Stripe.Transfer): Promise<PaymentRefund[]> {
+  const { paymentId, batchId } = transfer.metadata;
+  const reversals = [...(transfer.reversals?.data || [])].sort((a, b) => a.created - b.created);
+
+  if (batchId && !paymentId) {
+    return syncBatchTransferReversals(transfer.id, batchId, reversals);
+  }
+
+  if (!paymentId) {
+    logger.warn('Reversed transfer missing paymentId and batchId in metadata', {
+      transferId: transfer.id,
+    });
+    return [];
+  }
+
+  const paymentData = await getPaymentById(paymentId);
+
+  if (!paymentData) {
+    logger.warn('Payment not found for reversed transfer', { paymentId, transferId: transfer.id });
+    return [];
+  }
+
+  const { payment } = paymentData;
+  let refundedCents = (await getPaymentRefunds(paymentId)).reduce(
+    (sum, refund) => sum + refund.amountCents,
+    0
+  );
+
+  const recorded: PaymentRefund[] = [];
+  for (const reversal of reversals) {
+    const amountCents = Math.min(
+      getAmountForVendorShareCents(payment, reversal.amount),
+      payment.amountCents - refundedCents
+    );
+    const { refund: row } = await recordAndPublish(
+      payment,
+      {
+        source: 'transfer_reversal',
+        amountCents,
+        stripeTransferReversalId: reversal.id,
+        vendorRecoveredCents: reversal.amount,
+      },
+      'stripe_webhook',
+      'system'
+    );
+    if (row) {
+      recorded.push(row);
+      refundedCents += row.amountCents;
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Split each new reversal of a payout batch transfer across the batch's
+ * payments, each taking at most what it still has transferred to the vendor.
+ * A reversal recorded against any of them, by issueRefund or an earlier
+ * webhook, is skipped as a whole.
+ */
+async function syncBatchTransferReversals(
+  transferId: string,
+  batchId: string,
+  reversals: Stripe.TransferReversal[]
+): Promise<PaymentRefund[]> {
+  const batch = await getPayoutBatch(batchId);
+
+  if (!batch) {
+    logger.warn('Payout batch not found for reversed transfer', { batchId, transferId });
+    return [];
+  }
+
+  const jobs: Array<{ payment: Payment; transferredCents: number; refundedCents: number }> = [];
+  const recordedReversalIds = new Set<string>();
+
+  for (const job of batch.statement.jobs) {
+    const paymentData = await getPaymentById(job.paymentId);
+    if (!paymentData) {
+      logger.warn('Payment not found for reversed batch transfer', {
+        paymentId: job.paymentId,
+        batchId,
+      });
+      continue;
+    }
+
+    const refunds = await getPaymentRefunds(job.paymentId);
+    refunds.forEach(
+      (refund) =>
+        refund.stripeTransferReversalId && recordedReversalIds.add(refund.stripeTransferReversalId)
+    );
+    jobs.push({
+      payment: paymentData.payment,
+      transferredCents: job.netCents,
+      refundedCents: refunds.reduce((sum, refund) => sum + refund.amountCents, 0),
+    });
+  }
+
+  const recorded: PaymentRefund[] = [];
+  for (const reversal of reversals.filter((r) => !recordedReversalIds.has(r.id))) {
+    let unassignedCents = reversal.amount;
+
+    for (const job of jobs) {
+      const { payment } = job;
+      // The vendor's share of what is not refunded yet, never more than the batch paid them
+      const vendorCents = Math.min(
+        unassignedCents,
+        job.transferredCents,
+        getVendorShareCents(payment, payment.amountCents - job.refundedCents)
+      );
+      if (vendorCents <= 0) {
+        continue;
+      }
+
+      const { refund: row } = await recordAndPublish(
+        payment,
+        {
+          source: 'transfer_reversal',
+          amountCents: Math.min(
+            getAmountForVendorShareCents(payment, vendorCents),
+            payment.amountCents - job.refundedCents
+          ),
+          stripeTransferReversalId: reversal.id,
+          vendorRecoveredCents: vendorCents,
+        },
+        'stripe_webhook',
+        'system'
+      );
+      if (row) {
+        recorded.push(row);
+        job.refundedCents += row.amountCents;
+      }
+      unassignedCents -= vendorCents;
+      if (unassignedCents === 0) {
+        break;
+      }
+    }
+
+    if (unassignedCents > 0) {
+      logger.warn('Batch transfer reversal exceeds what its payments can return', {
+        batchId,
+        transferId,
+        reversalId: reversal.id,
+        unassignedCents,
+      });
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Record a refund and publish PaymentRefunded the first time it is seen
+ */
+export async function recordAndPublish(
+  payment: Payment,
+  input: RecordRefundInput,
+  actorId: string,
+  actorType: ActorType
+): Promise<{ payment: Payment; refund: PaymentRefund | null }> {
+  const result = await recordRefund(payment.paymentId, input, actorId, actorType);
+
+  if (result.refund) {
+    await publishPaymentRefunded({
+      paymentId: payment.paymentId,
+      incidentId: payment.incidentId,
+      vendorId: payment.vendorId,
+      refundId: result.refund.refundId,
+      source: result.refund.source,
+      amountCents: result.refund.amountCents,
+      fullyRefunded: result.payment.status === 'refunded',
+      ...(result.refund.reason && { reason: result.refund.reason }),
+    });
+  }
+
+  return result;
+}
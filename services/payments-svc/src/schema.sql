@@ -1,6 +1,68 @@
 -- Payments Service Database Schema
 -- Aurora Postgres Database
 
+-- ========================================================================
+-- Invoices Table
+-- ========================================================================
+-- Monthly invoices billing fleet companies for their drivers' back_office
+-- payments. Each payment and refund is billed on one invoice only.
+CREATE TABLE IF NOT EXISTS invoices (
+  invoice_id UUID PRIMARY KEY,
+  invoice_number VARCHAR(30) NOT NULL UNIQUE,
+  company_id VARCHAR(255) NOT NULL,
+  company_name VARCHAR(255),
+  period VARCHAR(7) NOT NULL, -- Billing month, YYYY-MM
+  status VARCHAR(20) NOT NULL CHECK (status IN ('draft', 'sent', 'paid', 'overdue')),
+  currency VARCHAR(3) DEFAULT 'USD',
+  subtotal_cents INTEGER NOT NULL,
+  tax_cents INTEGER NOT NULL DEFAULT 0,
+  total_cents INTEGER NOT NULL,
+  taxes JSONB NOT NULL DEFAULT '[]', -- [{ name, ratePercent, amountCents }]
+  due_date DATE,
+  sent_at TIMESTAMP,
+  paid_at TIMESTAMP,
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (company_id, period)
+);
+
+-- ========================================================================
+-- Payout Tables
+-- ========================================================================
+-- How often each vendor is paid. Vendors without a row are not paid out.
+CREATE TABLE IF NOT EXISTS vendor_payout_settings (
+  vendor_id UUID PRIMARY KEY,
+  stripe_account_id VARCHAR(255) NOT NULL, -- Vendor's Stripe Connect account
+  schedule VARCHAR(20) NOT NULL DEFAULT 'daily' CHECK (schedule IN ('instant', 'daily', 'weekly')),
+  weekly_anchor SMALLINT NOT NULL DEFAULT 1 CHECK (weekly_anchor BETWEEN 0 AND 6), -- UTC weekday, 0 = Sunday
+  updated_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One transfer and one payout per batch. The statement is a snapshot of the
+-- jobs, line items, fees and adjustments the batch paid.
+CREATE TABLE IF NOT EXISTS payout_batches (
+  batch_id UUID PRIMARY KEY,
+  vendor_id UUID NOT NULL,
+  schedule VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'in_transit', 'paid', 'failed')),
+  currency VARCHAR(3) DEFAULT 'USD',
+  gross_cents INTEGER NOT NULL,
+  fee_cents INTEGER NOT NULL,
+  adjustment_cents INTEGER NOT NULL DEFAULT 0, -- Negative when refunds are withheld
+  net_cents INTEGER NOT NULL CHECK (net_cents >= 0),
+  statement JSONB NOT NULL,
+  stripe_transfer_id VARCHAR(255) UNIQUE,
+  stripe_payout_id VARCHAR(255) UNIQUE,
+  failure_code VARCHAR(100),
+  failure_message TEXT,
+  paid_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- ========================================================================
 -- Payments Table
 -- ========================================================================
@@ -12,8 +74,13 @@ CREATE TABLE IF NOT EXISTS payments (
   payer_id UUID,
   amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
   currency VARCHAR(3) DEFAULT 'USD',
-  status VARCHAR(20) NOT NULL CHECK (status IN ('pending_approval', 'approved', 'processing', 'completed', 'failed', 'cancelled')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('pending_approval', 'approved', 'processing', 'completed', 'failed', 'cancelled', 'refunded')),
   stripe_payment_intent_id VARCHAR(255),
+  stripe_transfer_id VARCHAR(255),
+  platform_fee_cents INTEGER NOT NULL DEFAULT 0 CHECK (platform_fee_cents >= 0),
+  stripe_fee_cents INTEGER CHECK (stripe_fee_cents >= 0),
+  invoice_id UUID REFERENCES invoices(invoice_id), -- Fleet company invoice that billed a back_office payment
+  payout_batch_id UUID REFERENCES payout_batches(batch_id), -- Vendor payout that paid the vendor's share
   fraud_score DECIMAL(3,2),
   fraud_status VARCHAR(20) CHECK (fraud_status IN ('low_risk', 'medium_risk', 'high_risk', 'flagged')),
   approved_by UUID,
@@ -21,6 +88,7 @@ CREATE TABLE IF NOT EXISTS payments (
   processed_at TIMESTAMP,
   failed_reason TEXT,
   metadata JSONB,
+  stripe_event_at TIMESTAMP, -- Created time of the last Stripe event applied to the status
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -31,6 +99,7 @@ CREATE INDEX IF NOT EXISTS idx_payments_incident ON payments(incident_id);
 CREATE INDEX IF NOT EXISTS idx_payments_vendor ON payments(vendor_id);
 CREATE INDEX IF NOT EXISTS idx_payments_created_at ON payments(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_payments_payer ON payments(payer_id) WHERE payer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payments_stripe_payment_intent ON payments(stripe_payment_intent_id) WHERE stripe_payment_intent_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_payments_fraud_status ON payments(fraud_status) WHERE fraud_status IN ('high_risk', 'flagged');
 
 -- ========================================================================
@@ -69,6 +138,170 @@ CREATE INDEX IF NOT EXISTS idx_audit_log_payment ON payment_audit_log(payment_id
 CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON payment_audit_log(timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON payment_audit_log(actor_id);
 
+-- ========================================================================
+-- Payment Refunds Table
+-- ========================================================================
+-- One row per refund, transfer reversal or lost dispute. The Stripe IDs are
+-- unique so webhooks and API calls reporting the same refund record it once.
+-- A reversal of a payout batch transfer is split across the batch's payments,
+-- so a reversal ID is unique per payment.
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  refund_id UUID PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES payments(payment_id) ON DELETE CASCADE,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('refund', 'transfer_reversal', 'dispute')),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  reason TEXT,
+  stripe_refund_id VARCHAR(255) UNIQUE,
+  stripe_transfer_reversal_id VARCHAR(255),
+  stripe_dispute_id VARCHAR(255) UNIQUE,
+  created_by VARCHAR(255) NOT NULL,
+  invoice_id UUID REFERENCES invoices(invoice_id), -- Invoice the refund was credited on
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (stripe_transfer_reversal_id, payment_id)
+);
+
+-- Index for refunds
+CREATE INDEX IF NOT EXISTS idx_refunds_payment ON payment_refunds(payment_id);
+
+-- ========================================================================
+-- Payment Disputes Table
+-- ========================================================================
+CREATE TABLE IF NOT EXISTS payment_disputes (
+  dispute_id UUID PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES payments(payment_id) ON DELETE CASCADE,
+  stripe_dispute_id VARCHAR(255) NOT NULL UNIQUE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  reason VARCHAR(50),
+  status VARCHAR(30) NOT NULL CHECK (status IN (
+    'warning_needs_response', 'warning_under_review', 'warning_closed',
+    'needs_response', 'under_review', 'won', 'lost'
+  )),
+  evidence JSONB,
+  evidence_due_by TIMESTAMP,
+  evidence_submitted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for disputes
+CREATE INDEX IF NOT EXISTS idx_disputes_payment ON payment_disputes(payment_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_open ON payment_disputes(evidence_due_by)
+  WHERE status IN ('warning_needs_response', 'needs_response');
+
+-- ========================================================================
+-- Stripe Events Table
+-- ========================================================================
+-- Webhook events received from Stripe, keyed by event ID so that retried
+-- deliveries are applied once
+CREATE TABLE IF NOT EXISTS stripe_events (
+  event_id VARCHAR(255) PRIMARY KEY,
+  event_type VARCHAR(100) NOT NULL,
+  object_id VARCHAR(255),
+  payment_id VARCHAR(255),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  event_created_at TIMESTAMP NOT NULL,
+  received_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for Stripe events
+CREATE INDEX IF NOT EXISTS idx_stripe_events_payment ON stripe_events(payment_id, event_created_at)
+  WHERE payment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stripe_events_failed ON stripe_events(updated_at) WHERE status = 'failed';
+
+-- ========================================================================
+-- Ledger Tables
+-- ========================================================================
+-- Double-entry ledger. Each journal entry is a set of lines that sum to zero:
+-- debits are positive, credits negative. Vendor payable and company
+-- receivable lines carry the vendor or payer as party_id.
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  entry_id UUID PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES payments(payment_id) ON DELETE CASCADE,
+  entry_type VARCHAR(30) NOT NULL CHECK (entry_type IN (
+    'payment_created', 'payment_approved', 'payment_collected', 'invoice_collected',
+    'vendor_transfer', 'refund', 'payment_voided'
+  )),
+  reference VARCHAR(255) NOT NULL, -- Stripe ID or payment ID the entry was posted for
+  description TEXT,
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (payment_id, entry_type, reference)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_lines (
+  line_id UUID PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES ledger_entries(entry_id) ON DELETE CASCADE,
+  account VARCHAR(30) NOT NULL CHECK (account IN (
+    'company_receivable', 'vendor_payable', 'platform_revenue', 'stripe_fees',
+    'refunds', 'stripe_balance'
+  )),
+  party_id VARCHAR(255),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents <> 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for ledger
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_payment ON ledger_entries(payment_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry ON ledger_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account ON ledger_lines(account, party_id);
+
+-- Reject any transaction that leaves a journal entry unbalanced
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    imbalance BIGINT;
+BEGIN
+    SELECT COALESCE(SUM(amount_cents), 0) INTO imbalance
+    FROM ledger_lines WHERE entry_id = NEW.entry_id;
+
+    IF imbalance <> 0 THEN
+        RAISE EXCEPTION 'Ledger entry % is unbalanced by % cents', NEW.entry_id, imbalance;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE CONSTRAINT TRIGGER ledger_lines_balanced AFTER INSERT OR UPDATE ON ledger_lines
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION check_ledger_entry_balanced();
+
+-- ========================================================================
+-- Invoice Lines Table
+-- ========================================================================
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  invoice_line_id UUID PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES invoices(invoice_id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES payments(payment_id),
+  incident_id UUID NOT NULL,
+  driver_id VARCHAR(255),
+  driver_name VARCHAR(255),
+  service_date DATE,
+  description VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  unit_price_cents INTEGER NOT NULL, -- Negative on refund credits
+  total_cents INTEGER NOT NULL,
+  sla_tier VARCHAR(50),
+  sla_multiplier DECIMAL(4,2),
+  refund_id UUID REFERENCES payment_refunds(refund_id),
+  position INTEGER NOT NULL
+);
+
+-- Indexes for invoices
+CREATE INDEX IF NOT EXISTS idx_invoices_company ON invoices(company_id, period DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_due ON invoices(due_date) WHERE status = 'sent';
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice ON invoice_lines(invoice_id, position);
+CREATE INDEX IF NOT EXISTS idx_payments_uninvoiced ON payments(incident_id)
+  WHERE payer_type = 'back_office' AND invoice_id IS NULL;
+
+-- Indexes for payouts
+CREATE INDEX IF NOT EXISTS idx_payout_batches_vendor ON payout_batches(vendor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_unpaid_vendor ON payments(vendor_id)
+  WHERE payout_batch_id IS NULL AND stripe_transfer_id IS NULL;
+
 -- ========================================================================
 -- Triggers for updated_at timestamp
 -- ========================================================================
@@ -83,6 +316,18 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_payment_disputes_updated_at BEFORE UPDATE ON payment_disputes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_vendor_payout_settings_updated_at BEFORE UPDATE ON vendor_payout_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payout_batches_updated_at BEFORE UPDATE ON payout_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- ========================================================================
 -- Views for common queries
 -- ========================================================================
@@ -103,6 +348,18 @@ WHERE p.status = 'pending_approval'
 GROUP BY p.payment_id, p.incident_id, p.vendor_id, p.amount_cents, p.created_at, p.metadata
 ORDER BY p.created_at ASC;
 
+-- Trial balance view: every account's net balance, which sum to zero
+CREATE OR REPLACE VIEW trial_balance AS
+SELECT
+  account,
+  currency,
+  SUM(CASE WHEN amount_cents > 0 THEN amount_cents ELSE 0 END) as debit_cents,
+  -SUM(CASE WHEN amount_cents < 0 THEN amount_cents ELSE 0 END) as credit_cents,
+  SUM(amount_cents) as balance_cents
+FROM ledger_lines
+GROUP BY account, currency
+ORDER BY account, currency;
+
 -- Payment summary view
 CREATE OR REPLACE VIEW payment_summary AS
 SELECT 
@@ -130,7 +387,20 @@ GROUP BY p.payment_id, p.incident_id, p.vendor_id, p.status, p.amount_cents,
 COMMENT ON TABLE payments IS 'Stores payment records for vendor services';
 COMMENT ON TABLE payment_line_items IS 'Itemized breakdown of payment charges';
 COMMENT ON TABLE payment_audit_log IS 'Audit trail of all payment actions';
+COMMENT ON TABLE payment_refunds IS 'Refunds, vendor transfer reversals and lost disputes against a payment';
+COMMENT ON TABLE payment_disputes IS 'Card disputes and the evidence bundle gathered for each';
+COMMENT ON TABLE invoices IS 'Monthly invoices billing fleet companies for back_office payments';
+COMMENT ON TABLE invoice_lines IS 'Invoice lines copied from payment line items, plus refund credits';
+COMMENT ON TABLE vendor_payout_settings IS 'Payout schedule and Stripe Connect account for each vendor';
+COMMENT ON TABLE payout_batches IS 'Vendor payouts batching approved transfers, with their statements';
+COMMENT ON TABLE stripe_events IS 'Stripe webhook events received, so each event ID is applied once';
+COMMENT ON TABLE ledger_entries IS 'Double-entry journal entries posted for payment lifecycle events';
+COMMENT ON TABLE ledger_lines IS 'Journal entry lines: debits positive, credits negative';
 
 COMMENT ON COLUMN payments.payer_type IS 'Type of payer: back_office (company pays) or driver_ic (independent contractor pays directly)';
 COMMENT ON COLUMN payments.fraud_score IS 'Fraud detection score from 0.00 to 1.00';
 COMMENT ON COLUMN payments.metadata IS 'Additional payment metadata in JSON format';
+COMMENT ON COLUMN payments.platform_fee_cents IS 'Platform margin kept from the amount; the vendor is paid the rest';
+COMMENT ON COLUMN payments.stripe_fee_cents IS 'Stripe processing fee on the charge for driver_ic payments';
+COMMENT ON COLUMN payments.stripe_transfer_id IS 'Stripe Connect transfer that paid the vendor on back_office payments';
+COMMENT ON COLUMN payments.stripe_event_at IS 'Created time of the last Stripe event applied; older events are ignored';
@@ -2,6 +2,7 @@ import Stripe from 'stripe';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import { logger, ValidationError, stripeCircuitBreaker } from '@roadcall/utils';
 import { Payment } from './payment-service';
+import { getVendorShareCents } from './ledger-service';
 
 // ========================================================================
 // Types
@@ -11,6 +12,7 @@ export interface StripeConfig {
   apiKey: string;
   webhookSecret: string;
   connectEnabled: boolean;
+  apiBaseUrl?: string; // Points the client at a local Stripe mock instead of api.stripe.com
 }
 
 export interface CreatePaymentIntentInput {
@@ -31,6 +33,19 @@ export interface CreateConnectTransferInput {
   metadata?: Record<string, string>;
 }
 
+export interface CreatePayoutBatchTransferInput {
+  amountCents: number;
+  currency: string;
+  batchId: string;
+  vendorStripeAccountId: string;
+  metadata?: Record<string, string>;
+}
+
+export interface CreatePayoutOptions {
+  idempotencyKey?: string;
+  method?: 'standard' | 'instant';
+}
+
 export interface ProcessPaymentResult {
   success: boolean;
   paymentIntentId?: string;
@@ -66,11 +81,18 @@ async function getStripeClient(): Promise<Stripe> {
     stripeConfig = await loadStripeConfig();
   }
 
+  const apiBaseUrl = stripeConfig.apiBaseUrl ? new URL(stripeConfig.apiBaseUrl) : undefined;
+
   stripeClient = new Stripe(stripeConfig.apiKey, {
     apiVersion: '2023-10-16',
     typescript: true,
     maxNetworkRetries: 3,
     timeout: 30000,
+    ...(apiBaseUrl && {
+      host: apiBaseUrl.hostname,
+      port: apiBaseUrl.port,
+      protocol: apiBaseUrl.protocol.replace(':', '') as 'http' | 'https',
+    }),
   });
 
   logger.info('Stripe client initialized');
@@ -78,9 +100,19 @@ async function getStripeClient(): Promise<Stripe> {
 }
 
 /**
- * Load Stripe configuration from Secrets Manager
+ * Load Stripe configuration from Secrets Manager. Local runs against a Stripe
+ * mock set STRIPE_API_KEY, STRIPE_WEBHOOK_SECRET and STRIPE_API_BASE_URL instead.
  */
 async function loadStripeConfig(): Promise<StripeConfig> {
+  if (process.env.STRIPE_API_KEY) {
+    return {
+      apiKey: process.env.STRIPE_API_KEY,
+      webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+      connectEnabled: process.env.STRIPE_CONNECT_ENABLED !== 'false',
+      apiBaseUrl: process.env.STRIPE_API_BASE_URL,
+    };
+  }
+
   const secretName = process.env.STRIPE_SECRET_NAME || 'roadcall/stripe/api-keys';
 
   try {
@@ -212,6 +244,38 @@ export async function getPaymentIntent(
   }
 }
 
+/**
+ * Stripe's processing fee on a Payment Intent's charge, from the charge's
+ * balance transaction. Zero until the charge has one.
+ */
+export async function getPaymentIntentFee(paymentIntent: Stripe.PaymentIntent): Promise<number> {
+  const chargeId =
+    typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+
+  if (!chargeId) {
+    return 0;
+  }
+
+  const stripe = await getStripeClient();
+
+  try {
+    const charge = await stripe.charges.retrieve(chargeId, {
+      expand: ['balance_transaction'],
+    });
+    const balanceTransaction = charge.balance_transaction as Stripe.BalanceTransaction | null;
+
+    return balanceTransaction?.fee || 0;
+  } catch (error: any) {
+    logger.error('Failed to retrieve charge fee', error as Error, {
+      paymentIntentId: paymentIntent.id,
+      chargeId,
+    });
+    throw new Error(`Failed to retrieve charge fee: ${error.message}`);
+  }
+}
+
 /**
  * Cancel a Payment Intent
  */
@@ -287,6 +351,77 @@ export async function createConnectTransfer(
   });
 }
 
+/**
+ * Create one transfer to a vendor's Stripe Connect account for a payout batch
+ * Protected by circuit breaker
+ */
+export async function createPayoutBatchTransfer(
+  input: CreatePayoutBatchTransferInput
+): Promise<Stripe.Transfer> {
+  return stripeCircuitBreaker.execute(async () => {
+    const stripe = await getStripeClient();
+
+    if (!stripeConfig?.connectEnabled) {
+      throw new Error('Stripe Connect is not enabled');
+    }
+
+    try {
+      const transfer = await stripe.transfers.create(
+        {
+          amount: input.amountCents,
+          currency: input.currency.toLowerCase(),
+          destination: input.vendorStripeAccountId,
+          transfer_group: input.batchId,
+          metadata: {
+            batchId: input.batchId,
+            ...input.metadata,
+          },
+        },
+        {
+          // Idempotency key so a retried batch is only transferred once
+          idempotencyKey: `payout_batch_${input.batchId}`,
+        }
+      );
+
+      logger.info('Stripe Connect payout batch transfer created', {
+        transferId: transfer.id,
+        batchId: input.batchId,
+        amountCents: input.amountCents,
+        destination: input.vendorStripeAccountId,
+      });
+
+      return transfer;
+    } catch (error: any) {
+      logger.error('Failed to create payout batch transfer', error as Error, {
+        batchId: input.batchId,
+        vendorStripeAccountId: input.vendorStripeAccountId,
+      });
+      // Rethrown as is so the caller can tell a rejection from an unknown outcome
+      throw error;
+    }
+  });
+}
+
+/**
+ * Find the transfer already made for a payout batch, by its transfer group
+ */
+export async function findPayoutBatchTransfer(batchId: string): Promise<Stripe.Transfer | null> {
+  return stripeCircuitBreaker.execute(async () => {
+    const stripe = await getStripeClient();
+    const transfers = await stripe.transfers.list({ transfer_group: batchId, limit: 1 });
+    return transfers.data[0] || null;
+  });
+}
+
+/**
+ * Whether Stripe definitively refused a request, so it cannot have gone
+ * through. Timeouts, API and connection errors and an open circuit may have.
+ */
+export function isStripeRejection(error: unknown): boolean {
+  const type = (error as { type?: string } | undefined)?.type;
+  return type === 'StripeInvalidRequestError' || type === 'StripeCardError';
+}
+
 /**
  * Retrieve a transfer
  */
@@ -301,6 +436,48 @@ export async function getTransfer(transferId: string): Promise<Stripe.Transfer>
   }
 }
 
+/**
+ * Reverse a transfer, pulling the amount back from the vendor's Connect account.
+ * Omitting the amount reverses whatever is left of the transfer.
+ */
+export async function reverseConnectTransfer(
+  transferId: string,
+  amountCents?: number,
+  metadata?: Record<string, string>,
+  idempotencyKey?: string
+): Promise<Stripe.TransferReversal> {
+  return stripeCircuitBreaker.execute(async () => {
+    const stripe = await getStripeClient();
+
+    try {
+      const reversal = await withRetry(async () => {
+        return await stripe.transfers.createReversal(
+          transferId,
+          {
+            amount: amountCents,
+            metadata,
+          },
+          idempotencyKey ? { idempotencyKey } : undefined
+        );
+      });
+
+      logger.info('Stripe Connect transfer reversed', {
+        reversalId: reversal.id,
+        transferId,
+        amountCents: reversal.amount,
+      });
+
+      return reversal;
+    } catch (error: any) {
+      logger.error('Failed to reverse Stripe Connect transfer', error as Error, {
+        transferId,
+        amountCents,
+      });
+      throw new Error(`Stripe Connect transfer reversal failed: ${error.message}`);
+    }
+  });
+}
+
 /**
  * Create a payout to vendor's bank account
  */
@@ -308,7 +485,8 @@ export async function createPayout(
   amountCents: number,
   currency: string,
   vendorStripeAccountId: string,
-  metadata?: Record<string, string>
+  metadata?: Record<string, string>,
+  options: CreatePayoutOptions = {}
 ): Promise<Stripe.Payout> {
   const stripe = await getStripeClient();
 
@@ -318,9 +496,11 @@ export async function createPayout(
         amount: amountCents,
         currency: currency.toLowerCase(),
         metadata,
+        ...(options.method && { method: options.method }),
       },
       {
         stripeAccount: vendorStripeAccountId,
+        ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
       }
     );
 
@@ -392,6 +572,48 @@ export async function processWebhookEvent(event: Stripe.Event): Promise<WebhookE
   };
 }
 
+/**
+ * List the events Stripe sent for a payment's Payment Intent, transfer and
+ * their charges, refunds and disputes. Stripe keeps events for 30 days, so
+ * older events are not returned.
+ */
+export async function listPaymentEvents(payment: Payment): Promise<Stripe.Event[]> {
+  const stripe = await getStripeClient();
+  const objectIds = [payment.stripePaymentIntentId, payment.stripeTransferId].filter(Boolean);
+  const events: Stripe.Event[] = [];
+
+  try {
+    let startingAfter: string | undefined;
+    do {
+      const page = await stripe.events.list({
+        created: { gte: Math.floor(new Date(payment.createdAt).getTime() / 1000) },
+        limit: 100,
+        ...(startingAfter && { starting_after: startingAfter }),
+      });
+
+      for (const event of page.data) {
+        const object = event.data.object as any;
+        if (
+          object.metadata?.paymentId === payment.paymentId ||
+          objectIds.includes(object.id) ||
+          objectIds.includes(object.payment_intent)
+        ) {
+          events.push(event);
+        }
+      }
+
+      startingAfter = page.has_more ? page.data[page.data.length - 1]?.id : undefined;
+    } while (startingAfter);
+
+    return events;
+  } catch (error: any) {
+    logger.error('Failed to list payment events', error as Error, {
+      paymentId: payment.paymentId,
+    });
+    throw new Error(`Failed to list payment events: ${error.message}`);
+  }
+}
+
 // ========================================================================
 // Retry Logic with Exponential Backoff
 // ========================================================================
@@ -505,8 +727,9 @@ export async function processPayment(
       }
 
       return await withRetry(async () => {
+        // The platform keeps its margin; the vendor gets the rest
         const transfer = await createConnectTransfer({
-          amountCents: payment.amountCents,
+          amountCents: getVendorShareCents(payment),
           currency: payment.currency,
           paymentId: payment.paymentId,
           vendorStripeAccountId,
@@ -543,17 +766,23 @@ export async function processPayment(
 export async function refundPayment(
   paymentIntentId: string,
   amountCents?: number,
-  reason?: string
+  reason?: string,
+  metadata?: Record<string, string>,
+  idempotencyKey?: string
 ): Promise<Stripe.Refund> {
   const stripe = await getStripeClient();
 
   try {
     const refund = await withRetry(async () => {
-      return await stripe.refunds.create({
-        payment_intent: paymentIntentId,
-        amount: amountCents,
-        reason: reason as Stripe.RefundCreateParams.Reason,
-      });
+      return await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: amountCents,
+          reason: reason as Stripe.RefundCreateParams.Reason,
+          metadata,
+        },
+        idempotencyKey ? { idempotencyKey } : undefined
+      );
     });
 
     logger.info('Refund created', {
@@ -570,3 +799,79 @@ export async function refundPayment(
     throw new Error(`Refund creation failed: ${error.message}`);
   }
 }
+
+/**
+ * List the refunds made against a Payment Intent, including ones issued from
+ * the Stripe dashboard
+ */
+export async function listRefunds(paymentIntentId: string): Promise<Stripe.Refund[]> {
+  const stripe = await getStripeClient();
+
+  try {
+    const refunds = await stripe.refunds.list({
+      payment_intent: paymentIntentId,
+      limit: 100,
+    });
+
+    return refunds.data;
+  } catch (error: any) {
+    logger.error('Failed to list refunds', error as Error, { paymentIntentId });
+    throw new Error(`Failed to list refunds: ${error.message}`);
+  }
+}
+
+// ========================================================================
+// Disputes
+// ========================================================================
+
+/**
+ * Upload a file, such as a job photo, for use as dispute evidence
+ */
+export async function uploadDisputeFile(
+  data: Buffer,
+  name: string,
+  type: string
+): Promise<Stripe.File> {
+  const stripe = await getStripeClient();
+
+  try {
+    const file = await stripe.files.create({
+      purpose: 'dispute_evidence',
+      file: { data, name, type },
+    });
+
+    logger.info('Dispute evidence file uploaded', { fileId: file.id, name });
+
+    return file;
+  } catch (error: any) {
+    logger.error('Failed to upload dispute evidence file', error as Error, { name });
+    throw new Error(`Dispute evidence upload failed: ${error.message}`);
+  }
+}
+
+/**
+ * Attach evidence to a dispute. Evidence is staged until `submit` is set;
+ * once submitted it goes to the card issuer and can no longer be changed.
+ */
+export async function updateDisputeEvidence(
+  disputeId: string,
+  evidence: Stripe.DisputeUpdateParams.Evidence,
+  submit: boolean
+): Promise<Stripe.Dispute> {
+  const stripe = await getStripeClient();
+
+  try {
+    const dispute = await stripe.disputes.update(disputeId, { evidence, submit });
+
+    logger.info('Dispute evidence updated', {
+      disputeId,
+      submitted: submit,
+      status: dispute.status,
+    });
+
+    return dispute;
+  } catch (error: any) {
+    logger.error('Failed to update dispute evidence', error as Error, { disputeId });
+    throw new Error(`Dispute evidence update failed: ${error.message}`);
+  }
+}
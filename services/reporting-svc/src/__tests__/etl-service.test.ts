@@ -97,9 +97,14 @@ describe('ETL Service', () => {
         timeline: [
           {
             from: 'created',
-            to: 'vendor_assigned',
+            to: 'escalated',
             timestamp: '2024-11-11T10:02:00.000Z',
-            reason: 'Escalated to dispatcher after no vendor found',
+            reason: 'Escalated: No vendor found after maximum attempts after 3 attempts',
+          },
+          {
+            from: 'escalated',
+            to: 'vendor_assigned',
+            timestamp: '2024-11-11T10:05:00.000Z',
           },
         ],
       };
@@ -2,7 +2,7 @@ import { DynamoDBStreamEvent, DynamoDBRecord } from 'aws-lambda';
 import { unmarshall } from '@aws-sdk/util-dynamodb';
 import { AttributeValue } from '@aws-sdk/client-dynamodb';
 import { query } from './db-connection';
-import { logger } from '@roadcall/utils';
+import { determineRegion, logger } from '@roadcall/utils';
 
 // ========================================================================
 // Types
@@ -11,7 +11,9 @@ import { logger } from '@roadcall/utils';
 interface IncidentRecord {
   incidentId: string;
   driverId: string;
+  companyId?: string;
   vendorId?: string;
+  assignedVendorId?: string;
   type: string;
   status: string;
   location?: {
@@ -21,11 +23,27 @@ interface IncidentRecord {
   };
   createdAt: string;
   assignedAt?: string;
+  parentIncidentId?: string;
+  legNumber?: number;
+  slaTier?: string;
+  sla?: {
+    responseDeadline: string;
+    arrivalDeadline: string;
+    breached?: Array<'response' | 'arrival'>;
+  };
+  etaPrediction?: {
+    routedSeconds: number;
+    p50Seconds: number;
+    p90Seconds?: number;
+    predictedAt: string;
+    weather?: string;
+  };
   timeline?: Array<{
     from: string;
     to: string;
     timestamp: string;
     reason?: string;
+    leg?: number;
   }>;
 }
 
@@ -49,6 +67,11 @@ interface VendorRecord {
     completionRate: number;
     avgResponseTime: number;
     totalJobs: number;
+    offerOutcomes?: {
+      accepted: number;
+      declined: number;
+      expired: number;
+    };
   };
   createdAt: string;
   updatedAt: string;
@@ -156,6 +179,10 @@ export async function upsertIncidentFact(incident: IncidentRecord): Promise<void
       time_to_assign_seconds, time_to_arrival_seconds, total_duration_seconds,
       driver_lat, driver_lon, distance_miles, region,
       escalated, date_key, hour_key,
+      parent_incident_id, leg_number,
+      company_id, sla_tier, sla_response_deadline, sla_arrival_deadline,
+      sla_response_breached, sla_arrival_breached,
+      eta_routed_seconds, eta_p50_seconds, eta_p90_seconds, eta_predicted_at, weather_condition,
       updated_in_warehouse_at
     ) VALUES (
       $1, $2, $3, $4, $5,
@@ -163,6 +190,10 @@ export async function upsertIncidentFact(incident: IncidentRecord): Promise<void
       $11, $12, $13,
       $14, $15, $16, $17,
       $18, $19, $20,
+      $21, $22,
+      $23, $24, $25, $26,
+      $27, $28,
+      $29, $30, $31, $32, $33,
       NOW()
     )
     ON CONFLICT (incident_id) DO UPDATE SET
@@ -176,11 +207,21 @@ export async function upsertIncidentFact(incident: IncidentRecord): Promise<void
       time_to_arrival_seconds = EXCLUDED.time_to_arrival_seconds,
       total_duration_seconds = EXCLUDED.total_duration_seconds,
       escalated = EXCLUDED.escalated,
+      sla_tier = EXCLUDED.sla_tier,
+      sla_response_deadline = EXCLUDED.sla_response_deadline,
+      sla_arrival_deadline = EXCLUDED.sla_arrival_deadline,
+      sla_response_breached = EXCLUDED.sla_response_breached,
+      sla_arrival_breached = EXCLUDED.sla_arrival_breached,
+      eta_routed_seconds = EXCLUDED.eta_routed_seconds,
+      eta_p50_seconds = EXCLUDED.eta_p50_seconds,
+      eta_p90_seconds = EXCLUDED.eta_p90_seconds,
+      eta_predicted_at = EXCLUDED.eta_predicted_at,
+      weather_condition = EXCLUDED.weather_condition,
       updated_in_warehouse_at = NOW()`,
     [
       incident.incidentId,
       incident.driverId,
-      incident.vendorId || null,
+      incident.vendorId || incident.assignedVendorId || null,
       incident.type,
       incident.status,
       incident.createdAt,
@@ -198,6 +239,19 @@ export async function upsertIncidentFact(incident: IncidentRecord): Promise<void
       metrics.escalated,
       dateKey,
       hourKey,
+      incident.parentIncidentId || null,
+      incident.legNumber || 1,
+      incident.companyId || null,
+      incident.slaTier || null,
+      incident.sla?.responseDeadline || null,
+      incident.sla?.arrivalDeadline || null,
+      incident.sla?.breached?.includes('response') || false,
+      incident.sla?.breached?.includes('arrival') || false,
+      incident.etaPrediction?.routedSeconds ?? null,
+      incident.etaPrediction?.p50Seconds ?? null,
+      incident.etaPrediction?.p90Seconds ?? null,
+      incident.etaPrediction?.predictedAt || null,
+      incident.etaPrediction?.weather || null,
     ]
   );
 
@@ -223,12 +277,14 @@ export async function upsertVendorDimension(vendor: VendorRecord): Promise<void>
       vendor_id, business_name, contact_name, phone, email,
       capabilities, region, coverage_radius_miles,
       avg_rating, total_jobs, acceptance_rate, completion_rate, avg_response_time_seconds,
-      active, verified_at, created_at, updated_at, synced_at
+      active, verified_at, created_at, updated_at,
+      offers_accepted, offers_declined, offers_expired, synced_at
     ) VALUES (
       $1, $2, $3, $4, $5,
       $6, $7, $8,
       $9, $10, $11, $12, $13,
-      $14, $15, $16, $17, NOW()
+      $14, $15, $16, $17,
+      $18, $19, $20, NOW()
     )
     ON CONFLICT (vendor_id) DO UPDATE SET
       business_name = EXCLUDED.business_name,
@@ -245,6 +301,9 @@ export async function upsertVendorDimension(vendor: VendorRecord): Promise<void>
       avg_response_time_seconds = EXCLUDED.avg_response_time_seconds,
       active = EXCLUDED.active,
       updated_at = EXCLUDED.updated_at,
+      offers_accepted = EXCLUDED.offers_accepted,
+      offers_declined = EXCLUDED.offers_declined,
+      offers_expired = EXCLUDED.offers_expired,
       synced_at = NOW()`,
     [
       vendor.vendorId,
@@ -264,6 +323,9 @@ export async function upsertVendorDimension(vendor: VendorRecord): Promise<void>
       null, // verified_at
       vendor.createdAt,
       vendor.updatedAt,
+      vendor.metrics?.offerOutcomes?.accepted || 0,
+      vendor.metrics?.offerOutcomes?.declined || 0,
+      vendor.metrics?.offerOutcomes?.expired || 0,
     ]
   );
 
@@ -369,8 +431,12 @@ function calculateIncidentMetrics(incident: IncidentRecord): {
   let closedAt: Date | null = null;
   let escalated = false;
 
-  // Parse timeline for key events
+  // Parse timeline for key events, skipping entries mirrored from follow-up legs
   for (const transition of timeline) {
+    if (transition.leg) {
+      continue;
+    }
+
     const timestamp = new Date(transition.timestamp);
 
     if (transition.to === 'vendor_assigned' && !assignedAt) {
@@ -383,8 +449,8 @@ function calculateIncidentMetrics(incident: IncidentRecord): {
       closedAt = timestamp;
     }
 
-    // Check for escalation indicators
-    if (transition.reason?.includes('escalat')) {
+    // Any spell in the dispatcher escalation queue counts
+    if (transition.to === 'escalated') {
       escalated = true;
     }
   }
@@ -426,19 +492,6 @@ function getDateKey(date: Date): number {
   return parseInt(`${year}${month}${day}`);
 }
 
-/**
- * Determine region from coordinates (simplified)
- * In production, use proper geocoding service
- */
-function determineRegion(lat: number, lon: number): string {
-  // Simplified US region determination
-  if (lat > 40 && lon < -95) return 'Northwest';
-  if (lat > 40 && lon >= -95) return 'Northeast';
-  if (lat <= 40 && lon < -95) return 'Southwest';
-  if (lat <= 40 && lon >= -95) return 'Southeast';
-  return 'Unknown';
-}
-
 /**
  * Refresh materialized views
  */
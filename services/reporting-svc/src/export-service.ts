@@ -10,7 +10,7 @@ import { KPIFilters } from './kpi-service';
 export type ExportFormat = 'csv' | 'parquet' | 'json';
 
 export interface ExportRequest {
-  type: 'incidents' | 'vendors' | 'drivers' | 'kpis';
+  type: 'incidents' | 'vendors' | 'drivers' | 'kpis' | 'eta_training';
   format: ExportFormat;
   filters?: KPIFilters;
   s3Bucket: string;
@@ -101,6 +101,8 @@ async function fetchDataForExport(
       return fetchDrivers(whereClause);
     case 'kpis':
       return fetchKPIs(whereClause);
+    case 'eta_training':
+      return fetchEtaTraining(whereClause);
     default:
       throw new Error(`Unknown export type: ${type}`);
   }
@@ -234,6 +236,32 @@ async function fetchKPIs(whereClause: string): Promise<Record<string, any>[]> {
   return result.rows;
 }
 
+/**
+ * Fetch arrived incidents with their first tracking ETA, the training set of
+ * the tracking service's ETA model (`pnpm train:eta-model` in tracking-svc)
+ */
+async function fetchEtaTraining(whereClause: string): Promise<Record<string, any>[]> {
+  const etaConditions = 'eta_routed_seconds IS NOT NULL AND arrived_at > eta_predicted_at';
+  const result = await query(
+    `SELECT
+      incident_id,
+      vendor_id,
+      region,
+      weather_condition,
+      EXTRACT(HOUR FROM eta_predicted_at)::int as hour_of_day,
+      eta_predicted_at,
+      eta_routed_seconds,
+      eta_p50_seconds,
+      eta_p90_seconds,
+      EXTRACT(EPOCH FROM (arrived_at - eta_predicted_at))::int as actual_arrival_seconds
+    FROM fact_incidents
+    ${whereClause ? `${whereClause} AND ${etaConditions}` : `WHERE ${etaConditions}`}
+    ORDER BY eta_predicted_at`
+  );
+
+  return result.rows;
+}
+
 /**
  * Convert data to requested format
  */
@@ -19,7 +19,10 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
     const body = JSON.parse(event.body || '{}');
 
     // Validate request
-    if (!body.type || !['incidents', 'vendors', 'drivers', 'kpis'].includes(body.type)) {
+    if (
+      !body.type ||
+      !['incidents', 'vendors', 'drivers', 'kpis', 'eta_training'].includes(body.type)
+    ) {
       return {
         statusCode: 400,
         headers: {
@@ -29,7 +32,8 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
         body: JSON.stringify({
           error: {
             type: 'VALIDATION_ERROR',
-            message: 'Invalid export type. Must be one of: incidents, vendors, drivers, kpis',
+            message:
+              'Invalid export type. Must be one of: incidents, vendors, drivers, kpis, eta_training',
             requestId,
             timestamp: new Date().toISOString(),
           },
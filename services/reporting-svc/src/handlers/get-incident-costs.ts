@@ -0,0 +1,68 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { getIncidentLegCosts } from '../kpi-service';
+import { logger } from '@roadcall/utils';
+
+/**
+ * GET /reports/incidents/{id}/costs
+ * Get the cost of each leg of an incident, including follow-up jobs
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const incidentId = event.pathParameters?.id;
+
+    logger.info('Get incident costs request', { requestId, incidentId });
+
+    const costs = incidentId ? await getIncidentLegCosts(incidentId) : null;
+
+    if (!costs || costs.legs.length === 0) {
+      return {
+        statusCode: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+        body: JSON.stringify({
+          error: {
+            type: 'NOT_FOUND',
+            message: `Incident not found: ${incidentId}`,
+            requestId,
+            timestamp: new Date().toISOString(),
+          },
+        }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        data: costs,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Failed to get incident costs', error as Error, { requestId });
+
+    return {
+      statusCode: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          type: 'INTERNAL_ERROR',
+          message: 'Failed to get incident costs',
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
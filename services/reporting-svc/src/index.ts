@@ -1,6 +1,7 @@
 // Export all handlers
 export { handler as getKPIsHandler } from './handlers/get-kpis';
 export { handler as getIncidentsHandler } from './handlers/get-incidents';
+export { handler as getIncidentCostsHandler } from './handlers/get-incident-costs';
 export { handler as getVendorPerformanceHandler } from './handlers/get-vendor-performance';
 export { handler as exportDataHandler } from './handlers/export-data';
 export { handler as etlProcessorHandler } from './handlers/etl-processor';
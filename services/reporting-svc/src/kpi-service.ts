@@ -22,6 +22,7 @@ export interface KPIs {
   driverSatisfaction: number;
   vendorRating: number;
   incidentResolutionRate: number;
+  slaComplianceByTier: Record<string, SlaTierCompliance>;
 
   // System
   apiLatencyP95: number;
@@ -29,6 +30,13 @@ export interface KPIs {
   errorRate: number;
 }
 
+export interface SlaTierCompliance {
+  incidents: number; // Incidents with SLA deadlines, excluding cancelled ones
+  responseBreaches: number;
+  arrivalBreaches: number;
+  complianceRate: number; // Share of incidents that breached neither deadline
+}
+
 export interface KPIFilters {
   startDate?: string;
   endDate?: string;
@@ -62,6 +70,21 @@ export interface VendorPerformance {
   acceptanceRate: number;
 }
 
+export interface IncidentLegCost {
+  incidentId: string;
+  legNumber: number;
+  incidentType: string;
+  vendorId: string | null;
+  status: string;
+  paymentAmountCents: number | null;
+}
+
+export interface IncidentCostBreakdown {
+  incidentId: string;
+  legs: IncidentLegCost[];
+  totalCostCents: number;
+}
+
 // ========================================================================
 // KPI Calculation Functions
 // ========================================================================
@@ -86,17 +109,34 @@ export async function calculateKPIs(filters: KPIFilters = {}): Promise<KPIs> {
     AND status IN ('closed', 'work_completed')`
   );
 
-  // Vendor acceptance rate (requires offers data - simplified here)
-  const vendorAcceptanceRate = 0.75; // Placeholder - would query offers table
+  // Vendor acceptance rate over each vendor's rolling window of offers
+  const acceptanceResult = await query(
+    `SELECT
+      SUM(offers_accepted)::DECIMAL /
+        NULLIF(SUM(offers_accepted + offers_declined + offers_expired), 0) as vendor_acceptance_rate
+    FROM dim_vendors
+    ${buildWhereClause({ region: filters.region })}`
+  );
 
-  // Financial metrics
+  // Financial metrics; cost per incident includes the follow-up legs (e.g. a tow)
   const financialResult = await query(
-    `SELECT
-      AVG(payment_amount_cents) / 100.0 as avg_cost_per_incident,
+    `WITH leg_costs AS (
+      SELECT
+        COALESCE(parent_incident_id, incident_id) as root_incident_id,
+        vendor_id,
+        payment_amount_cents
+      FROM fact_incidents
+      ${whereClause}
+      AND payment_amount_cents IS NOT NULL
+    )
+    SELECT
+      (SELECT AVG(incident_cost_cents) FROM (
+        SELECT SUM(payment_amount_cents) as incident_cost_cents
+        FROM leg_costs
+        GROUP BY root_incident_id
+      ) incident_costs) / 100.0 as avg_cost_per_incident,
       SUM(payment_amount_cents) / NULLIF(COUNT(DISTINCT vendor_id), 0) / 100.0 as revenue_per_vendor
-    FROM fact_incidents
-    ${whereClause}
-    AND payment_amount_cents IS NOT NULL`
+    FROM leg_costs`
   );
 
   // Payment approval time (would query payments table)
@@ -113,6 +153,8 @@ export async function calculateKPIs(filters: KPIFilters = {}): Promise<KPIs> {
     ${whereClause}`
   );
 
+  const slaComplianceByTier = await getSlaComplianceByTier(filters);
+
   // System metrics (would come from CloudWatch)
   const systemMetrics = {
     apiLatencyP95: 250, // ms
@@ -123,22 +165,61 @@ export async function calculateKPIs(filters: KPIFilters = {}): Promise<KPIs> {
   const operational = operationalResult.rows[0];
   const financial = financialResult.rows[0];
   const quality = qualityResult.rows[0];
+  const acceptance = acceptanceResult.rows[0];
 
   return {
     timeToAssignSeconds: parseFloat(operational.avg_time_to_assign) || 0,
     timeToArrivalSeconds: parseFloat(operational.avg_time_to_arrival) || 0,
     firstAttemptResolutionRate: parseFloat(operational.first_attempt_resolution_rate) || 0,
-    vendorAcceptanceRate,
+    vendorAcceptanceRate: parseFloat(acceptance.vendor_acceptance_rate) || 0,
     costPerIncident: parseFloat(financial.avg_cost_per_incident) || 0,
     revenuePerVendor: parseFloat(financial.revenue_per_vendor) || 0,
     paymentApprovalTimeSeconds,
     driverSatisfaction: parseFloat(quality.avg_driver_satisfaction) || 0,
     vendorRating: parseFloat(quality.avg_vendor_rating) || 0,
     incidentResolutionRate: parseFloat(quality.incident_resolution_rate) || 0,
+    slaComplianceByTier,
     ...systemMetrics,
   };
 }
 
+/**
+ * SLA compliance per tier: the share of incidents that met both their
+ * response and arrival deadlines
+ */
+export async function getSlaComplianceByTier(
+  filters: KPIFilters = {}
+): Promise<Record<string, SlaTierCompliance>> {
+  const whereClause = buildWhereClause(filters);
+
+  const result = await query(
+    `SELECT
+      sla_tier,
+      COUNT(*) as incidents,
+      COUNT(CASE WHEN sla_response_breached THEN 1 END) as response_breaches,
+      COUNT(CASE WHEN sla_arrival_breached THEN 1 END) as arrival_breaches,
+      COUNT(CASE WHEN NOT sla_response_breached AND NOT sla_arrival_breached THEN 1 END)::DECIMAL /
+        NULLIF(COUNT(*), 0) as compliance_rate
+    FROM fact_incidents
+    ${whereClause ? `${whereClause} AND` : 'WHERE'} sla_response_deadline IS NOT NULL
+    AND status <> 'cancelled'
+    GROUP BY sla_tier`
+  );
+
+  return result.rows.reduce(
+    (acc, row) => ({
+      ...acc,
+      [row.sla_tier]: {
+        incidents: parseInt(row.incidents),
+        responseBreaches: parseInt(row.response_breaches),
+        arrivalBreaches: parseInt(row.arrival_breaches),
+        complianceRate: parseFloat(row.compliance_rate) || 0,
+      },
+    }),
+    {}
+  );
+}
+
 /**
  * Get incident analytics
  */
@@ -269,6 +350,48 @@ export async function getVendorPerformance(
   }));
 }
 
+/**
+ * Get the cost of each leg of an incident: the original job and any follow-ups.
+ * Accepts the ID of the original incident or of any of its legs.
+ */
+export async function getIncidentLegCosts(incidentId: string): Promise<IncidentCostBreakdown> {
+  logger.info('Getting incident leg costs', { incidentId });
+
+  const result = await query(
+    `SELECT
+      f.incident_id,
+      COALESCE(f.leg_number, 1) as leg_number,
+      f.incident_type,
+      f.vendor_id,
+      f.status,
+      f.payment_amount_cents
+    FROM fact_incidents f
+    WHERE COALESCE(f.parent_incident_id, f.incident_id) = (
+      SELECT COALESCE(parent_incident_id, incident_id)
+      FROM fact_incidents
+      WHERE incident_id = $1
+    )
+    ORDER BY leg_number`,
+    [incidentId]
+  );
+
+  const legs: IncidentLegCost[] = result.rows.map((row) => ({
+    incidentId: row.incident_id,
+    legNumber: parseInt(row.leg_number),
+    incidentType: row.incident_type,
+    vendorId: row.vendor_id,
+    status: row.status,
+    paymentAmountCents:
+      row.payment_amount_cents !== null ? parseInt(row.payment_amount_cents) : null,
+  }));
+
+  return {
+    incidentId: legs[0]?.incidentId || incidentId,
+    legs,
+    totalCostCents: legs.reduce((sum, leg) => sum + (leg.paymentAmountCents || 0), 0),
+  };
+}
+
 /**
  * Get daily KPI trends
  */
@@ -374,6 +497,13 @@ export async function publishKPIsToCloudWatch(kpis: KPIs, namespace: string = 'R
       Unit: 'Percent' as const,
       Timestamp: timestamp,
     },
+    ...Object.entries(kpis.slaComplianceByTier).map(([tier, compliance]) => ({
+      MetricName: 'SlaCompliance',
+      Dimensions: [{ Name: 'SlaTier', Value: tier }],
+      Value: compliance.complianceRate * 100,
+      Unit: 'Percent' as const,
+      Timestamp: timestamp,
+    })),
   ];
 
   try {
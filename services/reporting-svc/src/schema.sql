@@ -62,6 +62,28 @@ CREATE INDEX IF NOT EXISTS idx_fact_incidents_date ON fact_incidents(date_key);
 CREATE INDEX IF NOT EXISTS idx_fact_incidents_created ON fact_incidents(created_at);
 CREATE INDEX IF NOT EXISTS idx_fact_incidents_region ON fact_incidents(region);
 
+-- Follow-up leg columns (a tow after a failed roadside repair is its own incident)
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS parent_incident_id UUID;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS leg_number INTEGER DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_fact_incidents_parent ON fact_incidents(parent_incident_id);
+
+-- SLA tier columns; breaches are the ones incident-svc published SlaBreached for
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS sla_tier VARCHAR(50);
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS sla_response_deadline TIMESTAMP;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS sla_arrival_deadline TIMESTAMP;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS sla_response_breached BOOLEAN DEFAULT FALSE;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS sla_arrival_breached BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_fact_incidents_sla_tier ON fact_incidents(sla_tier);
+
+-- First tracking ETA of the incident; with arrived_at these train the tracking ETA model
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS eta_routed_seconds INTEGER;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS eta_p50_seconds INTEGER;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS eta_p90_seconds INTEGER;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS eta_predicted_at TIMESTAMP;
+ALTER TABLE fact_incidents ADD COLUMN IF NOT EXISTS weather_condition VARCHAR(50);
+
 -- ============================================================================
 -- Dimension Table: Vendors
 -- ============================================================================
@@ -86,6 +108,11 @@ CREATE TABLE IF NOT EXISTS dim_vendors (
   acceptance_rate DECIMAL(5, 2),
   completion_rate DECIMAL(5, 2),
   avg_response_time_seconds INTEGER,
+
+  -- Offer outcomes over the vendor's rolling acceptance window
+  offers_accepted INTEGER DEFAULT 0,
+  offers_declined INTEGER DEFAULT 0,
+  offers_expired INTEGER DEFAULT 0,
   
   -- Status
   active BOOLEAN DEFAULT TRUE,
@@ -97,6 +124,11 @@ CREATE TABLE IF NOT EXISTS dim_vendors (
   synced_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Offer outcome columns for warehouses created before they were added
+ALTER TABLE dim_vendors ADD COLUMN IF NOT EXISTS offers_accepted INTEGER DEFAULT 0;
+ALTER TABLE dim_vendors ADD COLUMN IF NOT EXISTS offers_declined INTEGER DEFAULT 0;
+ALTER TABLE dim_vendors ADD COLUMN IF NOT EXISTS offers_expired INTEGER DEFAULT 0;
+
 -- Indexes for dim_vendors
 CREATE INDEX IF NOT EXISTS idx_dim_vendors_region ON dim_vendors(region);
 CREATE INDEX IF NOT EXISTS idx_dim_vendors_active ON dim_vendors(active);
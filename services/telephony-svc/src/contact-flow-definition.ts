@@ -22,9 +22,8 @@
  *    - Create user account (invoke auth-svc)
  * 
  * 4. Main Menu (IVR)
- *    - Press 1 for Tire Issue
- *    - Press 2 for Engine Issue
- *    - Press 3 for Towing Needed
+ *    - One option per active incident type with an IVR digit in the
+ *      admin-config catalogue (1 Tire Issue, 2 Engine Problem, 3 Towing Needed, ...)
  *    - Press 0 for Operator
  * 
  * 5. Location Collection
@@ -52,6 +51,9 @@
  *    - Generate summary (future: Q in Connect)
  */
 
+import { IncidentTypeDefinition } from '@roadcall/types';
+import { DEFAULT_INCIDENT_TYPES } from '@roadcall/aws-clients';
+
 export interface ContactFlowConfig {
   name: string;
   description: string;
@@ -60,252 +62,252 @@ export interface ContactFlowConfig {
 }
 
 /**
- * Main inbound contact flow configuration
- * This would be imported into Amazon Connect via AWS CLI or Console
+ * Incident types offered in the IVR main menu, in digit order
  */
-export const mainInboundFlow: ContactFlowConfig = {
-  name: 'RoadcallAssistance-MainInbound',
-  description: 'Main inbound flow for roadside assistance calls',
-  type: 'CONTACT_FLOW',
-  content: JSON.stringify({
-    Version: '2019-10-30',
-    StartAction: 'GetCustomerInput',
-    Actions: [
-      {
-        Identifier: 'GetCustomerInput',
-        Type: 'GetParticipantInput',
-        Parameters: {
-          Text: 'Welcome to Roadcall Assistance. Please hold while we look up your information.',
-        },
-        Transitions: {
-          NextAction: 'InvokeDriverLookup',
-        },
-      },
-      {
-        Identifier: 'InvokeDriverLookup',
-        Type: 'InvokeLambdaFunction',
-        Parameters: {
-          LambdaFunctionARN: '${DRIVER_LOOKUP_LAMBDA_ARN}',
-          InvocationTimeLimitSeconds: '8',
-        },
-        Transitions: {
-          NextAction: 'CheckDriverFound',
-          Errors: [
-            {
-              ErrorType: 'NoMatchingError',
-              NextAction: 'NewUserFlow',
-            },
-          ],
-        },
-      },
-      {
-        Identifier: 'CheckDriverFound',
-        Type: 'Compare',
-        Parameters: {
-          ComparisonValue: '$.External.found',
+export function getMenuIncidentTypes(incidentTypes: IncidentTypeDefinition[]): IncidentTypeDefinition[] {
+  return incidentTypes
+    .filter((type) => type.active && type.ivrDigit)
+    .sort((a, b) => Number(a.ivrDigit) - Number(b.ivrDigit));
+}
+
+/**
+ * Build the main menu prompt from the incident-type catalogue
+ */
+export function buildMainMenuPrompt(incidentTypes: IncidentTypeDefinition[]): string {
+  const options = getMenuIncidentTypes(incidentTypes).map(
+    (type) => `Press ${type.ivrDigit} for ${type.label.toLowerCase()}`
+  );
+  options.push('or Press 0 to speak with an operator.');
+
+  return `Please select the type of assistance you need. ${options.join(', ')}`;
+}
+
+/**
+ * Contact flow identifier of the action that sets an incident type
+ */
+function setIncidentTypeActionId(type: IncidentTypeDefinition): string {
+  return `SetIncidentType_${type.key}`;
+}
+
+/**
+ * Build the main inbound contact flow from the incident-type catalogue.
+ * Imported into Amazon Connect via AWS CLI or Console, and re-published by
+ * the sync-contact-flow handler whenever the catalogue changes.
+ */
+export function buildMainInboundFlow(incidentTypes: IncidentTypeDefinition[]): ContactFlowConfig {
+  const menuTypes = getMenuIncidentTypes(incidentTypes);
+
+  return {
+    name: 'RoadcallAssistance-MainInbound',
+    description: 'Main inbound flow for roadside assistance calls',
+    type: 'CONTACT_FLOW',
+    content: JSON.stringify({
+      Version: '2019-10-30',
+      StartAction: 'GetCustomerInput',
+      Actions: [
+        {
+          Identifier: 'GetCustomerInput',
+          Type: 'GetParticipantInput',
+          Parameters: {
+            Text: 'Welcome to Roadcall Assistance. Please hold while we look up your information.',
+          },
+          Transitions: {
+            NextAction: 'InvokeDriverLookup',
+          },
         },
-        Transitions: {
-          NextAction: 'WelcomeBackMessage',
-          Conditions: [
-            {
-              Condition: {
-                Operator: 'Equals',
-                Operands: ['true'],
+        {
+          Identifier: 'InvokeDriverLookup',
+          Type: 'InvokeLambdaFunction',
+          Parameters: {
+            LambdaFunctionARN: '${DRIVER_LOOKUP_LAMBDA_ARN}',
+            InvocationTimeLimitSeconds: '8',
+          },
+          Transitions: {
+            NextAction: 'CheckDriverFound',
+            Errors: [
+              {
+                ErrorType: 'NoMatchingError',
+                NextAction: 'NewUserFlow',
               },
-              NextAction: 'WelcomeBackMessage',
-            },
-          ],
-          DefaultAction: 'NewUserFlow',
-        },
-      },
-      {
-        Identifier: 'WelcomeBackMessage',
-        Type: 'MessageParticipant',
-        Parameters: {
-          Text: 'Welcome back, $.External.name. How can we help you today?',
-        },
-        Transitions: {
-          NextAction: 'MainMenu',
+            ],
+          },
         },
-      },
-      {
-        Identifier: 'NewUserFlow',
-        Type: 'MessageParticipant',
-        Parameters: {
-          Text: 'Welcome to Roadcall Assistance. It looks like this is your first time calling. We will need to collect some information.',
+        {
+          Identifier: 'CheckDriverFound',
+          Type: 'Compare',
+          Parameters: {
+            ComparisonValue: '$.External.found',
+          },
+          Transitions: {
+            NextAction: 'WelcomeBackMessage',
+            Conditions: [
+              {
+                Condition: {
+                  Operator: 'Equals',
+                  Operands: ['true'],
+                },
+                NextAction: 'WelcomeBackMessage',
+              },
+            ],
+            DefaultAction: 'NewUserFlow',
+          },
         },
-        Transitions: {
-          NextAction: 'MainMenu', // Simplified - in production would collect registration info
+        {
+          Identifier: 'WelcomeBackMessage',
+          Type: 'MessageParticipant',
+          Parameters: {
+            Text: 'Welcome back, $.External.name. How can we help you today?',
+          },
+          Transitions: {
+            NextAction: 'MainMenu',
+          },
         },
-      },
-      {
-        Identifier: 'MainMenu',
-        Type: 'GetParticipantInput',
-        Parameters: {
-          Text: 'Please select the type of assistance you need. Press 1 for tire issues, Press 2 for engine problems, Press 3 for towing, or Press 0 to speak with an operator.',
-          DTMF: {
-            MaxDigits: '1',
-            TerminatorDigits: '#',
-            TimeoutSeconds: '5',
+        {
+          Identifier: 'NewUserFlow',
+          Type: 'MessageParticipant',
+          Parameters: {
+            Text: 'Welcome to Roadcall Assistance. It looks like this is your first time calling. We will need to collect some information.',
+          },
+          Transitions: {
+            NextAction: 'MainMenu', // Simplified - in production would collect registration info
           },
         },
-        Transitions: {
-          NextAction: 'ProcessMenuSelection',
-          Errors: [
-            {
-              ErrorType: 'NoMatchingError',
-              NextAction: 'MainMenu',
+        {
+          Identifier: 'MainMenu',
+          Type: 'GetParticipantInput',
+          Parameters: {
+            Text: buildMainMenuPrompt(incidentTypes),
+            DTMF: {
+              MaxDigits: '1',
+              TerminatorDigits: '#',
+              TimeoutSeconds: '5',
             },
-          ],
-        },
-      },
-      {
-        Identifier: 'ProcessMenuSelection',
-        Type: 'Compare',
-        Parameters: {
-          ComparisonValue: '$.StoredCustomerInput',
-        },
-        Transitions: {
-          Conditions: [
-            {
-              Condition: {
-                Operator: 'Equals',
-                Operands: ['1'],
-              },
-              NextAction: 'SetIncidentTypeTire',
-            },
-            {
-              Condition: {
-                Operator: 'Equals',
-                Operands: ['2'],
-              },
-              NextAction: 'SetIncidentTypeEngine',
-            },
-            {
-              Condition: {
-                Operator: 'Equals',
-                Operands: ['3'],
-              },
-              NextAction: 'SetIncidentTypeTow',
-            },
-            {
-              Condition: {
-                Operator: 'Equals',
-                Operands: ['0'],
+          },
+          Transitions: {
+            NextAction: 'ProcessMenuSelection',
+            Errors: [
+              {
+                ErrorType: 'NoMatchingError',
+                NextAction: 'MainMenu',
               },
-              NextAction: 'TransferToOperator',
-            },
-          ],
-          DefaultAction: 'MainMenu',
-        },
-      },
-      {
-        Identifier: 'SetIncidentTypeTire',
-        Type: 'UpdateContactAttributes',
-        Parameters: {
-          Attributes: {
-            incidentType: 'tire',
+            ],
           },
         },
-        Transitions: {
-          NextAction: 'CollectLocation',
-        },
-      },
-      {
-        Identifier: 'SetIncidentTypeEngine',
-        Type: 'UpdateContactAttributes',
-        Parameters: {
-          Attributes: {
-            incidentType: 'engine',
+        {
+          Identifier: 'ProcessMenuSelection',
+          Type: 'Compare',
+          Parameters: {
+            ComparisonValue: '$.StoredCustomerInput',
           },
-        },
-        Transitions: {
-          NextAction: 'CollectLocation',
-        },
-      },
-      {
-        Identifier: 'SetIncidentTypeTow',
-        Type: 'UpdateContactAttributes',
-        Parameters: {
-          Attributes: {
-            incidentType: 'tow',
+          Transitions: {
+            Conditions: [
+              ...menuTypes.map((type) => ({
+                Condition: {
+                  Operator: 'Equals',
+                  Operands: [type.ivrDigit],
+                },
+                NextAction: setIncidentTypeActionId(type),
+              })),
+              {
+                Condition: {
+                  Operator: 'Equals',
+                  Operands: ['0'],
+                },
+                NextAction: 'TransferToOperator',
+              },
+            ],
+            DefaultAction: 'MainMenu',
           },
         },
-        Transitions: {
-          NextAction: 'CollectLocation',
-        },
-      },
-      {
-        Identifier: 'CollectLocation',
-        Type: 'MessageParticipant',
-        Parameters: {
-          Text: 'Thank you. We are collecting your location information.',
-        },
-        Transitions: {
-          NextAction: 'CreateIncident',
-        },
-      },
-      {
-        Identifier: 'CreateIncident',
-        Type: 'InvokeLambdaFunction',
-        Parameters: {
-          LambdaFunctionARN: '${CREATE_INCIDENT_LAMBDA_ARN}',
-          InvocationTimeLimitSeconds: '8',
-          LambdaInvocationAttributes: {
-            driverId: '$.External.driverId',
-            incidentType: '$.Attributes.incidentType',
-            latitude: '$.Attributes.latitude',
-            longitude: '$.Attributes.longitude',
+        ...menuTypes.map((type) => ({
+          Identifier: setIncidentTypeActionId(type),
+          Type: 'UpdateContactAttributes',
+          Parameters: {
+            Attributes: {
+              incidentType: type.key,
+            },
+          },
+          Transitions: {
+            NextAction: 'CollectLocation',
+          },
+        })),
+        {
+          Identifier: 'CollectLocation',
+          Type: 'MessageParticipant',
+          Parameters: {
+            Text: 'Thank you. We are collecting your location information.',
+          },
+          Transitions: {
+            NextAction: 'CreateIncident',
           },
         },
-        Transitions: {
-          NextAction: 'ConfirmIncidentCreated',
-          Errors: [
-            {
-              ErrorType: 'NoMatchingError',
-              NextAction: 'IncidentCreationFailed',
+        {
+          Identifier: 'CreateIncident',
+          Type: 'InvokeLambdaFunction',
+          Parameters: {
+            LambdaFunctionARN: '${CREATE_INCIDENT_LAMBDA_ARN}',
+            InvocationTimeLimitSeconds: '8',
+            LambdaInvocationAttributes: {
+              driverId: '$.External.driverId',
+              incidentType: '$.Attributes.incidentType',
+              latitude: '$.Attributes.latitude',
+              longitude: '$.Attributes.longitude',
             },
-          ],
-        },
-      },
-      {
-        Identifier: 'ConfirmIncidentCreated',
-        Type: 'MessageParticipant',
-        Parameters: {
-          Text: 'Your assistance request has been received. We are now finding the nearest service provider. You will receive a text message when a vendor is assigned. Your incident number is $.External.incidentId. Thank you for calling Roadcall Assistance.',
-        },
-        Transitions: {
-          NextAction: 'EndFlow',
+          },
+          Transitions: {
+            NextAction: 'ConfirmIncidentCreated',
+            Errors: [
+              {
+                ErrorType: 'NoMatchingError',
+                NextAction: 'IncidentCreationFailed',
+              },
+            ],
+          },
         },
-      },
-      {
-        Identifier: 'IncidentCreationFailed',
-        Type: 'MessageParticipant',
-        Parameters: {
-          Text: 'We apologize, but we encountered an error creating your assistance request. Please try again or press 0 to speak with an operator.',
+        {
+          Identifier: 'ConfirmIncidentCreated',
+          Type: 'MessageParticipant',
+          Parameters: {
+            Text: 'Your assistance request has been received. We are now finding the nearest service provider. You will receive a text message when a vendor is assigned. Your incident number is $.External.incidentId. Thank you for calling Roadcall Assistance.',
+          },
+          Transitions: {
+            NextAction: 'EndFlow',
+          },
         },
-        Transitions: {
-          NextAction: 'MainMenu',
+        {
+          Identifier: 'IncidentCreationFailed',
+          Type: 'MessageParticipant',
+          Parameters: {
+            Text: 'We apologize, but we encountered an error creating your assistance request. Please try again or press 0 to speak with an operator.',
+          },
+          Transitions: {
+            NextAction: 'MainMenu',
+          },
         },
-      },
-      {
-        Identifier: 'TransferToOperator',
-        Type: 'MessageParticipant',
-        Parameters: {
-          Text: 'Please hold while we connect you to an operator.',
+        {
+          Identifier: 'TransferToOperator',
+          Type: 'MessageParticipant',
+          Parameters: {
+            Text: 'Please hold while we connect you to an operator.',
+          },
+          Transitions: {
+            NextAction: 'EndFlow', // Would transfer to queue in production
+          },
         },
-        Transitions: {
-          NextAction: 'EndFlow', // Would transfer to queue in production
+        {
+          Identifier: 'EndFlow',
+          Type: 'DisconnectParticipant',
+          Parameters: {},
         },
-      },
-      {
-        Identifier: 'EndFlow',
-        Type: 'DisconnectParticipant',
-        Parameters: {},
-      },
-    ],
-  }),
-};
+      ],
+    }),
+  };
+}
+
+/**
+ * Main inbound contact flow for the built-in incident-type catalogue
+ */
+export const mainInboundFlow: ContactFlowConfig = buildMainInboundFlow(DEFAULT_INCIDENT_TYPES);
 
 /**
  * Prompts and messages used in contact flows
@@ -314,8 +316,7 @@ export const contactFlowPrompts = {
   welcome: 'Welcome to Roadcall Assistance. Please hold while we look up your information.',
   welcomeBack: 'Welcome back, {name}. How can we help you today?',
   newUser: 'Welcome to Roadcall Assistance. It looks like this is your first time calling.',
-  mainMenu:
-    'Please select the type of assistance you need. Press 1 for tire issues, Press 2 for engine problems, Press 3 for towing, or Press 0 to speak with an operator.',
+  mainMenu: buildMainMenuPrompt(DEFAULT_INCIDENT_TYPES),
   collectingLocation: 'Thank you. We are collecting your location information.',
   incidentConfirmation:
     'Your assistance request has been received. We are now finding the nearest service provider. You will receive a text message when a vendor is assigned. Your incident number is {incidentId}. Thank you for calling Roadcall Assistance.',
@@ -14,6 +14,7 @@ import {
   InvokeModelCommand,
 } from '@aws-sdk/client-bedrock-runtime';
 import { logger } from '@roadcall/utils';
+import { IncidentType } from '@roadcall/types';
 
 const kendra = new KendraClient({});
 const bedrock = new BedrockRuntimeClient({});
@@ -29,7 +30,7 @@ const AGENT_ASSIST_TIMEOUT_MS = 2000;
 interface AgentAssistEvent {
   query: string;
   contactId: string;
-  incidentType?: 'tire' | 'engine' | 'tow';
+  incidentType?: IncidentType;
   context?: {
     driverLocation?: string;
     weatherCondition?: string;
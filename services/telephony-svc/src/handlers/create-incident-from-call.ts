@@ -9,6 +9,8 @@ import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge
 import { marshall } from '@aws-sdk/util-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@roadcall/utils';
+import { configStore } from '@roadcall/aws-clients';
+import { IncidentType } from '@roadcall/types';
 import { ContactFlowEvent, IncidentCreationResult } from '../types';
 
 const dynamodb = new DynamoDBClient({});
@@ -21,7 +23,7 @@ interface IncidentCreationEvent extends ContactFlowEvent {
   Details: ContactFlowEvent['Details'] & {
     Parameters: {
       driverId: string;
-      incidentType: 'tire' | 'engine' | 'tow';
+      incidentType: IncidentType;
       latitude?: string;
       longitude?: string;
       description?: string;
@@ -58,8 +60,9 @@ export const handler: Handler<IncidentCreationEvent, IncidentCreationResult> = a
       };
     }
 
-    // Validate incident type
-    if (!['tire', 'engine', 'tow'].includes(incidentType)) {
+    // Validate incident type against the admin-config catalogue
+    const incidentTypeDefinition = await configStore.getIncidentType(incidentType);
+    if (!incidentTypeDefinition?.active) {
       logger.error('Invalid incident type', undefined, { contactId, incidentType });
       return {
         success: false,
@@ -97,6 +100,7 @@ export const handler: Handler<IncidentCreationEvent, IncidentCreationResult> = a
       incidentId,
       driverId,
       type: incidentType,
+      slaTier: incidentTypeDefinition.defaultSlaTier,
       status: 'created',
       location: location
         ? {
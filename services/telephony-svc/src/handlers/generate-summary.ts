@@ -18,6 +18,8 @@ import {
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@roadcall/utils';
+import { configStore } from '@roadcall/aws-clients';
+import { IncidentType, IncidentTypeDefinition } from '@roadcall/types';
 import { CallSummary, Transcript } from '../types';
 
 const bedrock = new BedrockRuntimeClient({});
@@ -42,7 +44,7 @@ interface SummaryGenerationEvent {
 
 interface StructuredSummary {
   summary: string;
-  incidentType?: 'tire' | 'engine' | 'tow';
+  incidentType?: IncidentType;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   actionItems: string[];
   sentiment: 'positive' | 'neutral' | 'negative';
@@ -180,8 +182,9 @@ async function generateStructuredSummary(
   transcriptText: string,
   callId: string
 ): Promise<StructuredSummary> {
-  // Build prompt for structured extraction
-  const prompt = buildSummaryPrompt(transcriptText);
+  // Build prompt for structured extraction, limited to incident types drivers can report
+  const incidentTypes = (await configStore.getIncidentTypes()).filter((type) => type.active);
+  const prompt = buildSummaryPrompt(transcriptText, incidentTypes);
 
   // Invoke Bedrock with guardrails
   const requestBody = {
@@ -229,7 +232,7 @@ async function generateStructuredSummary(
   }
 
   // Parse structured JSON response
-  const structuredSummary = parseStructuredSummary(content);
+  const structuredSummary = parseStructuredSummary(content, incidentTypes);
 
   return structuredSummary;
 }
@@ -237,13 +240,21 @@ async function generateStructuredSummary(
 /**
  * Build prompt for structured summary extraction
  */
-function buildSummaryPrompt(transcriptText: string): string {
+function buildSummaryPrompt(
+  transcriptText: string,
+  incidentTypes: IncidentTypeDefinition[]
+): string {
+  const typeKeys = incidentTypes.map((type) => `"${type.key}"`);
+  const typeDescriptions = incidentTypes
+    .map((type) => `- ${type.key}: ${type.label}${type.description ? ` (${type.description})` : ''}`)
+    .join('\n');
+
   return `You are an AI assistant analyzing roadside assistance call transcripts. Your task is to extract structured information from the call.
 
 Analyze this roadside assistance call transcript and provide a structured JSON response with the following fields:
 
 1. summary: A brief 2-3 sentence summary of the call
-2. incidentType: The type of incident (must be one of: "tire", "engine", "tow", or null if unclear)
+2. incidentType: The type of incident (must be one of: ${typeKeys.join(', ')}, or null if unclear)
 3. urgency: The urgency level (must be one of: "low", "medium", "high", "critical")
 4. actionItems: An array of specific action items for the dispatcher (2-5 items)
 5. sentiment: The driver's sentiment (must be one of: "positive", "neutral", "negative")
@@ -259,13 +270,16 @@ Guidelines:
 - Urgency should be based on: safety risk, location (highway vs parking lot), weather conditions, time of day
 - Incident type should only be set if clearly stated; use null if ambiguous
 
+Incident types:
+${typeDescriptions}
+
 Transcript:
 ${transcriptText}
 
 Respond ONLY with valid JSON in this exact format:
 {
   "summary": "string",
-  "incidentType": "tire" | "engine" | "tow" | null,
+  "incidentType": ${typeKeys.join(' | ')} | null,
   "urgency": "low" | "medium" | "high" | "critical",
   "actionItems": ["string"],
   "sentiment": "positive" | "neutral" | "negative",
@@ -278,7 +292,10 @@ Respond ONLY with valid JSON in this exact format:
 /**
  * Parse structured summary from LLM response
  */
-function parseStructuredSummary(content: string): StructuredSummary {
+function parseStructuredSummary(
+  content: string,
+  incidentTypes: IncidentTypeDefinition[]
+): StructuredSummary {
   try {
     // Extract JSON from response (handle cases where LLM adds extra text)
     const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -291,7 +308,7 @@ function parseStructuredSummary(content: string): StructuredSummary {
     // Validate and normalize the response
     return {
       summary: String(parsed.summary || 'No summary available'),
-      incidentType: validateIncidentType(parsed.incidentType),
+      incidentType: validateIncidentType(parsed.incidentType, incidentTypes),
       urgency: validateUrgency(parsed.urgency),
       actionItems: Array.isArray(parsed.actionItems)
         ? parsed.actionItems.map(String).slice(0, 10)
@@ -324,13 +341,13 @@ function parseStructuredSummary(content: string): StructuredSummary {
 }
 
 /**
- * Validate incident type
+ * Validate incident type against the catalogue
  */
 function validateIncidentType(
-  value: any
-): 'tire' | 'engine' | 'tow' | undefined {
-  const validTypes = ['tire', 'engine', 'tow'];
-  return validTypes.includes(value) ? value : undefined;
+  value: any,
+  incidentTypes: IncidentTypeDefinition[]
+): IncidentType | undefined {
+  return incidentTypes.some((type) => type.key === value) ? value : undefined;
 }
 
 /**
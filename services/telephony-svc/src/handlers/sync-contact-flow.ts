@@ -0,0 +1,66 @@
+/**
+ * Sync Contact Flow Handler
+ * Lambda function that re-publishes the main inbound contact flow to Amazon Connect
+ * when the incident-type catalogue changes in admin-config-svc
+ */
+
+import { EventBridgeEvent } from 'aws-lambda';
+import { ConnectClient, UpdateContactFlowContentCommand } from '@aws-sdk/client-connect';
+import { logger } from '@roadcall/utils';
+import { configStore, ConfigKeys } from '@roadcall/aws-clients';
+import { buildMainInboundFlow, getMenuIncidentTypes } from '../contact-flow-definition';
+
+const connect = new ConnectClient({});
+
+const CONNECT_INSTANCE_ID = process.env.CONNECT_INSTANCE_ID || '';
+const MAIN_INBOUND_FLOW_ID = process.env.MAIN_INBOUND_FLOW_ID || '';
+const DRIVER_LOOKUP_LAMBDA_ARN = process.env.DRIVER_LOOKUP_LAMBDA_ARN || '';
+const CREATE_INCIDENT_LAMBDA_ARN = process.env.CREATE_INCIDENT_LAMBDA_ARN || '';
+
+interface ConfigurationChangedDetail {
+  configKey: string;
+  version: number;
+  updatedBy: string;
+  updatedAt: string;
+  changeType: 'created' | 'updated';
+}
+
+/**
+ * Rebuild the IVR menu from the latest catalogue and update the flow in place
+ */
+export const handler = async (
+  event: EventBridgeEvent<'ConfigurationChanged', ConfigurationChangedDetail>
+): Promise<void> => {
+  const { configKey, version } = event.detail;
+
+  if (configKey !== ConfigKeys.INCIDENT_TYPES) {
+    return;
+  }
+
+  if (!CONNECT_INSTANCE_ID || !MAIN_INBOUND_FLOW_ID) {
+    logger.warn('Contact flow sync not configured, skipping', { version });
+    return;
+  }
+
+  // Read the version that triggered the event rather than a cached one
+  configStore.invalidate(ConfigKeys.INCIDENT_TYPES);
+  const incidentTypes = await configStore.getIncidentTypes();
+
+  const flow = buildMainInboundFlow(incidentTypes);
+  const content = flow.content
+    .replace('${DRIVER_LOOKUP_LAMBDA_ARN}', DRIVER_LOOKUP_LAMBDA_ARN)
+    .replace('${CREATE_INCIDENT_LAMBDA_ARN}', CREATE_INCIDENT_LAMBDA_ARN);
+
+  await connect.send(
+    new UpdateContactFlowContentCommand({
+      InstanceId: CONNECT_INSTANCE_ID,
+      ContactFlowId: MAIN_INBOUND_FLOW_ID,
+      Content: content,
+    })
+  );
+
+  logger.info('Main inbound contact flow updated', {
+    version,
+    menuTypes: getMenuIncidentTypes(incidentTypes).map((type) => type.key),
+  });
+};
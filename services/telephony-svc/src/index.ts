@@ -13,3 +13,4 @@ export { handler as postCallProcessorHandler } from './handlers/post-call-proces
 export { handler as accessPIIHandler } from './handlers/access-pii';
 export { handler as generateSummaryHandler } from './handlers/generate-summary';
 export { handler as agentAssistHandler } from './handlers/agent-assist';
+export { handler as syncContactFlowHandler } from './handlers/sync-contact-flow';
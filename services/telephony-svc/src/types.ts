@@ -3,6 +3,8 @@
  * Data models for call records, transcripts, and summaries
  */
 
+import { IncidentType } from '@roadcall/types';
+
 export interface CallRecord {
   callId: string; // Amazon Connect ContactId
   incidentId?: string;
@@ -43,7 +45,7 @@ export interface CallSummary {
   callId: string;
   incidentId?: string;
   summary: string;
-  incidentType?: 'tire' | 'engine' | 'tow';
+  incidentType?: IncidentType;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   actionItems: string[];
   sentiment: 'positive' | 'neutral' | 'negative';
@@ -87,7 +89,7 @@ export interface DriverLookupResult {
 
 export interface IncidentCreationRequest {
   driverId: string;
-  type: 'tire' | 'engine' | 'tow';
+  type: IncidentType;
   location?: {
     lat: number;
     lon: number;
@@ -19,6 +19,18 @@ const client = new AWSAppSyncClient({
   disableOffline: true,
 });
 
+// Location updates come from the vendor's or driver's device and are
+// authorized with their auth-svc JWT
+const deviceClient = new AWSAppSyncClient({
+  url: process.env.APPSYNC_API_URL!,
+  region: process.env.AWS_REGION || 'us-east-1',
+  auth: {
+    type: 'AWS_LAMBDA',
+    token: () => `Bearer ${process.env.ROADCALL_ACCESS_TOKEN}`,
+  },
+  disableOffline: true,
+});
+
 // ============================================================================
 // Mutations
 // ============================================================================
@@ -96,7 +108,7 @@ async function updateVendorLocation(
     }
   `;
 
-  const result = await client.mutate({
+  const result = await deviceClient.mutate({
     mutation,
     variables: {
       sessionId,
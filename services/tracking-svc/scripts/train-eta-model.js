@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+/**
+ * Trains the ETA model from a reporting-svc `eta_training` export (JSON
+ * format) and writes it to src/eta-model.json, which the tracking service
+ * deploys with. The latest 20% of arrivals are scored first against a model
+ * trained on the rest, so the report shows how it does on unseen incidents.
+ *
+ * Usage:
+ *   pnpm train:eta-model path/to/eta_training.json
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { etaSampleFromExportRow, evaluateEtaModel, trainEtaModel } = require('@roadcall/utils');
+
+const HOLDOUT_SHARE = 0.2;
+
+const exportPath = process.argv[2];
+if (!exportPath) {
+  console.error('Usage: pnpm train:eta-model <eta_training export .json>');
+  process.exit(1);
+}
+
+const rows = JSON.parse(fs.readFileSync(exportPath, 'utf-8')).sort(
+  (a, b) => new Date(a.eta_predicted_at).getTime() - new Date(b.eta_predicted_at).getTime()
+);
+const samples = rows.map((row) => etaSampleFromExportRow(row)).filter(Boolean);
+
+const trainedAt = new Date().toISOString();
+const version = `eta-${trainedAt.slice(0, 10)}`;
+const holdoutStart = Math.floor(samples.length * (1 - HOLDOUT_SHARE));
+
+const evaluation = evaluateEtaModel(
+  trainEtaModel(samples.slice(0, holdoutStart), { version, trainedAt }),
+  samples.slice(holdoutStart)
+);
+
+console.log(`Read ${samples.length} arrivals from ${rows.length} rows`);
+console.log(`Held-out evaluation on the latest ${evaluation.sampleCount} arrivals:`);
+console.log(`  predicted:             ${evaluation.predictedCount}`);
+console.log(`  p50 mean abs error:    ${Math.round(evaluation.p50MeanAbsErrorSeconds)}s`);
+console.log(`  routed mean abs error: ${Math.round(evaluation.routedMeanAbsErrorSeconds)}s`);
+console.log(`  p90 coverage:          ${(evaluation.p90Coverage * 100).toFixed(1)}%`);
+console.log(
+  `  confidence:            ${(evaluation.meanConfidence * 100).toFixed(1)}% predicted, ` +
+    `${(evaluation.withinToleranceRate * 100).toFixed(1)}% observed`
+);
+
+const model = trainEtaModel(samples, { version, trainedAt });
+const outputPath = path.join(__dirname, '../src/eta-model.json');
+
+fs.writeFileSync(outputPath, `${JSON.stringify(model, null, 2)}\n`);
+
+console.log(
+  `Wrote ${path.relative(process.cwd(), outputPath)} (${Object.keys(model.buckets).length} buckets)`
+);
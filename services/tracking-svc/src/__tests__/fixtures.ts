@@ -0,0 +1,22 @@
+import type { Location } from '@roadcall/types';
+import { calculateDistance } from '@roadcall/utils';
+
+// Positions and timestamps shared by the tracking tests: fixes around
+// 40°N 75°W, timed in seconds from 12:00 UTC on 2026-10-19
+
+const KM_PER_MILE = 1.609344;
+
+// Distance in km, the unit the tracking service measures in
+export const distance = (a: Location, b: Location): number =>
+  calculateDistance(a.lat, a.lon, b.lat, b.lon) * KM_PER_MILE;
+
+export const at = (seconds: number): string =>
+  new Date(Date.UTC(2026, 9, 19, 12, 0, seconds)).toISOString();
+
+// A degree of latitude is about 111.32 km
+export const northOf = (meters: number, seconds: number, accuracy?: number): Location => ({
+  lat: 40.0 + meters / 111320,
+  lon: -75.0,
+  timestamp: at(seconds),
+  ...(accuracy && { accuracy }),
+});
@@ -0,0 +1,66 @@
+process.env.INCIDENTS_TABLE_NAME = 'incidents-test';
+
+import type { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { markIncidentArrived } from '../incident-arrival';
+
+const now = '2026-10-19T12:00:00.000Z';
+
+const conditionFailed = () =>
+  Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+
+describe('markIncidentArrived', () => {
+  const send = jest.fn();
+  const docClient = { send } as unknown as DynamoDBDocumentClient;
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  it('moves an en route incident to vendor_arrived and bumps its version', async () => {
+    send.mockResolvedValue({});
+
+    await expect(
+      markIncidentArrived(docClient, 'incident-123', 'Geofence arrival detection', now)
+    ).resolves.toBe(true);
+
+    const { input } = send.mock.calls[0][0] as UpdateCommand;
+    expect(input).toMatchObject({
+      TableName: 'incidents-test',
+      Key: { incidentId: 'incident-123' },
+      ConditionExpression: '#status = :enRoute',
+      ExpressionAttributeNames: { '#status': 'status', '#version': 'version' },
+    });
+    expect(input.UpdateExpression).toContain('#version = if_not_exists(#version, :zero) + :one');
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':status': 'vendor_arrived',
+      ':enRoute': 'vendor_en_route',
+      ':transition': [
+        {
+          from: 'vendor_en_route',
+          to: 'vendor_arrived',
+          timestamp: now,
+          actor: 'system',
+          reason: 'Geofence arrival detection',
+        },
+      ],
+    });
+  });
+
+  it('skips an incident that is no longer en route', async () => {
+    send.mockRejectedValue(conditionFailed());
+
+    await expect(
+      markIncidentArrived(docClient, 'incident-123', 'Geofence arrival detection', now)
+    ).resolves.toBe(false);
+  });
+
+  it('passes other errors on', async () => {
+    send.mockRejectedValue(new Error('Throughput exceeded'));
+
+    await expect(
+      markIncidentArrived(docClient, 'incident-123', 'Geofence arrival detection', now)
+    ).rejects.toThrow('Throughput exceeded');
+  });
+});
@@ -0,0 +1,107 @@
+import type { Location, VendorLocationFilter } from '@roadcall/types';
+import { filterVendorFix, isArrivalConfirmed, recordArrivalSample } from '../location-filter';
+import { at, distance, northOf } from './fixtures';
+
+const estimate: Location = { lat: 40.0, lon: -75.0, timestamp: at(0) };
+
+const filter = (overrides: Partial<VendorLocationFilter> = {}): VendorLocationFilter => ({
+  varianceMeters2: 625,
+  rejectedFixes: 0,
+  arrivalSamples: 0,
+  ...overrides,
+});
+
+describe('filterVendorFix', () => {
+  it('rejects fixes that are too inaccurate', () => {
+    const result = filterVendorFix(estimate, filter(), northOf(50, 10, 150), distance);
+
+    expect(result.location).toBeUndefined();
+    expect(result.rejectedReason).toBe('inaccurate');
+    expect(result.filter).toEqual(filter());
+  });
+
+  it('rejects fixes older than the estimate', () => {
+    const result = filterVendorFix(
+      { ...estimate, timestamp: at(20) },
+      filter(),
+      northOf(50, 10),
+      distance
+    );
+
+    expect(result.rejectedReason).toBe('out_of_order');
+  });
+
+  it('accepts the fix as is when the estimate has no time', () => {
+    const fix = northOf(5000, 10, 10);
+    const result = filterVendorFix({ lat: 40.0, lon: -75.0 }, undefined, fix, distance);
+
+    expect(result.location).toEqual(fix);
+    expect(result.filter).toEqual(filter({ varianceMeters2: 100 }));
+  });
+
+  it('smooths a fix towards the estimate', () => {
+    const fix = northOf(50, 10);
+    const result = filterVendorFix(estimate, undefined, fix, distance);
+
+    expect(result.location?.lat).toBeGreaterThan(estimate.lat);
+    expect(result.location?.lat).toBeLessThan(fix.lat);
+    expect(result.location?.timestamp).toBe(fix.timestamp);
+    expect(result.filter.varianceMeters2).toBeLessThan(625 + 10 * 100);
+  });
+
+  it('rejects a jump no vehicle could make', () => {
+    const result = filterVendorFix(estimate, filter(), northOf(10000, 10), distance);
+
+    expect(result.location).toBeUndefined();
+    expect(result.rejectedReason).toBe('impossible_speed');
+    expect(result.filter.rejectedFixes).toBe(1);
+  });
+
+  it('starts over from the fixes once enough jumps agree with each other', () => {
+    const fix = northOf(10000, 10, 10);
+    const result = filterVendorFix(estimate, filter({ rejectedFixes: 2 }), fix, distance);
+
+    expect(result.location).toEqual(fix);
+    expect(result.filter).toEqual(filter({ varianceMeters2: 100 }));
+  });
+});
+
+describe('arrival', () => {
+  it('counts consecutive fixes inside the radius from the first of them', () => {
+    let state = recordArrivalSample(filter(), northOf(50, 10), 0.05);
+    state = recordArrivalSample(state, northOf(40, 15), 0.04);
+
+    expect(state).toMatchObject({ arrivalSamples: 2, arrivalSince: at(10) });
+  });
+
+  it('starts the count again on a fix outside the radius', () => {
+    const state = recordArrivalSample(
+      filter({ arrivalSamples: 2, arrivalSince: at(10) }),
+      northOf(500, 20),
+      0.5
+    );
+
+    expect(state.arrivalSamples).toBe(0);
+    expect(state.arrivalSince).toBeUndefined();
+  });
+
+  it('is not confirmed by a single fix inside the radius', () => {
+    expect(isArrivalConfirmed(undefined, at(10))).toBe(false);
+    expect(isArrivalConfirmed(filter({ arrivalSamples: 1, arrivalSince: at(0) }), at(60))).toBe(
+      false
+    );
+  });
+
+  it('is confirmed by three fixes inside the radius', () => {
+    expect(isArrivalConfirmed(filter({ arrivalSamples: 3, arrivalSince: at(0) }), at(2))).toBe(
+      true
+    );
+  });
+
+  it('is confirmed by two fixes inside the radius at least 30 seconds apart', () => {
+    const state = filter({ arrivalSamples: 2, arrivalSince: at(0) });
+
+    expect(isArrivalConfirmed(state, at(10))).toBe(false);
+    expect(isArrivalConfirmed(state, at(30))).toBe(true);
+  });
+});
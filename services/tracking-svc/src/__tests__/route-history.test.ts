@@ -0,0 +1,90 @@
+import type { Location } from '@roadcall/types';
+import {
+  appendRoutePoint,
+  decodeRouteHistory,
+  findDwellStops,
+  startRouteHistory,
+} from '../route-history';
+import { at, distance, northOf } from './fixtures';
+
+describe('route history', () => {
+  it('decodes the points it was built from', () => {
+    const fixes: Location[] = [
+      { lat: 40.12345, lon: -75.54321, timestamp: at(0) },
+      { lat: 40.12401, lon: -75.54298, timestamp: at(5) },
+      { lat: 40.1235, lon: -75.5441, timestamp: at(12) }, // South and west again
+      { lat: 40.20002, lon: -75.6, timestamp: at(40) },
+    ];
+
+    let history = startRouteHistory(fixes[0], at(0));
+    for (const fix of fixes.slice(1)) {
+      history = appendRoutePoint(history, fix, 0.1);
+    }
+
+    expect(history.pointCount).toBe(4);
+    expect(history.distanceKm).toBeCloseTo(0.3);
+    expect(history.lastPoint).toEqual([4020002, -7560000, 40]);
+    expect(decodeRouteHistory(history)).toEqual(fixes);
+  });
+
+  it('starts with the first fix alone', () => {
+    const history = startRouteHistory({ lat: 38.5, lon: -120.2 }, at(0));
+
+    // The polyline format's own example: 38.5, -120.2
+    expect(history.encodedPath).toBe('_p~iF~ps|U?');
+    expect(decodeRouteHistory(history)).toEqual([{ lat: 38.5, lon: -120.2, timestamp: at(0) }]);
+  });
+
+  it('keeps an out-of-order fix at the previous time', () => {
+    let history = startRouteHistory(northOf(0, 0), at(0));
+    history = appendRoutePoint(history, northOf(10, 30), 0.01);
+    history = appendRoutePoint(history, northOf(20, 20), 0.01);
+
+    expect(decodeRouteHistory(history).map((point) => point.timestamp)).toEqual([
+      at(0),
+      at(30),
+      at(30),
+    ]);
+  });
+});
+
+describe('findDwellStops', () => {
+  it('finds a stop of two minutes or more within 50 meters', () => {
+    const points = [
+      northOf(0, 0),
+      northOf(500, 30),
+      northOf(510, 60),
+      northOf(530, 120),
+      northOf(520, 190),
+      northOf(1500, 220),
+    ];
+
+    expect(findDwellStops(points, distance)).toEqual([
+      {
+        lat: points[1].lat,
+        lon: points[1].lon,
+        startedAt: at(30),
+        endedAt: at(190),
+        durationSeconds: 160,
+      },
+    ]);
+  });
+
+  it('ignores shorter stops', () => {
+    const points = [northOf(0, 0), northOf(10, 60), northOf(20, 110), northOf(500, 130)];
+
+    expect(findDwellStops(points, distance)).toEqual([]);
+  });
+
+  it('counts a stop that lasts until the last fix', () => {
+    const points = [northOf(0, 0), northOf(1000, 60), northOf(1020, 300)];
+
+    expect(findDwellStops(points, distance)).toMatchObject([
+      { startedAt: at(60), endedAt: at(300), durationSeconds: 240 },
+    ]);
+  });
+
+  it('returns no stops for an empty route', () => {
+    expect(findDwellStops([], distance)).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+process.env.TABLE_NAME = 'tracking-sessions';
+process.env.VENDOR_ROUTES_TABLE_NAME = 'vendor-routes';
+
+import type { Location, TrackingSession, TrackingWatchdogConfig } from '@roadcall/types';
+
+const send = jest.fn();
+const publish = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: () => ({ send }) },
+  };
+});
+jest.mock('@aws-sdk/client-eventbridge', () => ({
+  ...jest.requireActual('@aws-sdk/client-eventbridge'),
+  EventBridgeClient: jest.fn(() => ({ send: publish })),
+}));
+jest.mock('@roadcall/aws-clients', () => ({
+  configStore: { getTrackingWatchdogConfig: jest.fn(async () => config) },
+}));
+
+import { GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { detectTrackingAnomalies } from '../watchdog';
+import { TrackingService } from '../tracking-service';
+import { at, distance, northOf } from './fixtures';
+
+const now = new Date(at(30 * 60));
+
+const config: TrackingWatchdogConfig = {
+  staleGpsMinutes: 5,
+  stalledMinutes: 10,
+  stalledRadiusMeters: 200,
+  stalledMinDistanceMiles: 1,
+  movingAwayMinutes: 10,
+  movingAwayMinIncreaseMiles: 1,
+};
+
+// The driver waits at 40.0, -75.0
+const northOfDriver = (km: number, minutes: number): Location => northOf(km * 1000, minutes * 60);
+
+const session = (vendorLocation: Location): TrackingSession =>
+  ({
+    sessionId: 'session-123',
+    incidentId: 'incident-123',
+    driverId: 'driver-123',
+    vendorId: 'vendor-123',
+    status: 'active',
+    driverLocation: { lat: 40.0, lon: -75.0 },
+    vendorLocation,
+    vendorPath: [],
+    createdAt: at(0),
+    updatedAt: vendorLocation.timestamp,
+  }) as unknown as TrackingSession;
+
+describe('detectTrackingAnomalies', () => {
+  it('reports a vendor without recent fixes as stale only', () => {
+    const points = [northOfDriver(10, 15), northOfDriver(10, 20)];
+
+    expect(detectTrackingAnomalies(session(points[1]), points, now, config, distance)).toEqual([
+      'stale_gps',
+    ]);
+  });
+
+  it('reports a vendor who has not moved far from the incident as stalled', () => {
+    const points = [northOfDriver(10, 15), northOfDriver(10.05, 22), northOfDriver(10.1, 29)];
+
+    expect(detectTrackingAnomalies(session(points[2]), points, now, config, distance)).toEqual([
+      'stalled',
+    ]);
+  });
+
+  it('does not report a vendor stopped near the incident', () => {
+    const points = [northOfDriver(0.5, 15), northOfDriver(0.5, 29)];
+
+    expect(detectTrackingAnomalies(session(points[1]), points, now, config, distance)).toEqual([]);
+  });
+
+  it('reports a vendor getting further from the incident as moving away', () => {
+    const points = [northOfDriver(5, 15), northOfDriver(6, 22), northOfDriver(7, 29)];
+
+    expect(detectTrackingAnomalies(session(points[2]), points, now, config, distance)).toEqual([
+      'moving_away',
+    ]);
+  });
+
+  it('does not judge a session younger than the window', () => {
+    const points = [northOfDriver(5, 25), northOfDriver(5, 29)];
+
+    expect(detectTrackingAnomalies(session(points[1]), points, now, config, distance)).toEqual([]);
+  });
+});
+
+describe('checkActiveSessions', () => {
+  const stale = session(northOfDriver(10, 20));
+
+  const respond = (onUpdate: () => Promise<unknown>) =>
+    send.mockImplementation(async (command: unknown) => {
+      if (command instanceof QueryCommand) return { Items: [stale] };
+      if (command instanceof GetCommand) return {};
+      if (command instanceof UpdateCommand) return onUpdate();
+      throw new Error('Unexpected command');
+    });
+
+  beforeEach(() => {
+    send.mockReset();
+    publish.mockReset();
+    publish.mockResolvedValue({});
+  });
+
+  it('records and publishes a new anomaly only if the session is unchanged', async () => {
+    respond(async () => ({}));
+
+    await expect(new TrackingService().checkActiveSessions(now)).resolves.toBe(1);
+
+    const [update] = send.mock.calls
+      .map(([command]) => command)
+      .filter((command) => command instanceof UpdateCommand) as UpdateCommand[];
+    expect(update.input).toMatchObject({
+      Key: { sessionId: 'session-123' },
+      UpdateExpression: 'SET anomalies = :anomalies',
+      ConditionExpression: '#status = :active AND updatedAt = :seenUpdatedAt',
+      ExpressionAttributeValues: {
+        ':anomalies': [{ type: 'stale_gps', detectedAt: now.toISOString() }],
+        ':seenUpdatedAt': stale.updatedAt,
+      },
+    });
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a session the vendor updated since the query to the next run', async () => {
+    respond(async () => {
+      throw Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      });
+    });
+
+    await expect(new TrackingService().checkActiveSessions(now)).resolves.toBe(0);
+    expect(publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,22 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { TrackingService } from '../tracking-service';
+
+const logger = new Logger({ serviceName: 'check-tracking-sessions-handler' });
+
+const trackingService = new TrackingService();
+
+/**
+ * Lambda handler run every minute by an EventBridge schedule.
+ * Publishes TrackingAnomalyDetected for stale, stalled and moving-away vendors.
+ */
+export async function handler(event: ScheduledEvent): Promise<void> {
+  try {
+    const published = await trackingService.checkActiveSessions(new Date(event.time));
+
+    logger.info('Tracking session check completed', { anomaliesPublished: published });
+  } catch (error) {
+    logger.error('Tracking session check failed', { error });
+    throw error;
+  }
+}
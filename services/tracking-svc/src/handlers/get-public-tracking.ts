@@ -0,0 +1,100 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import type { Incident } from '@roadcall/types';
+import { AuthenticationError, SecretValue, verifyTrackingToken } from '@roadcall/utils';
+import { secretsManager } from '@roadcall/aws-clients';
+import { TrackingService } from '../tracking-service';
+import { CLOSED_INCIDENT_STATUSES, toPublicTrackingView } from '../public-tracking';
+
+const logger = new Logger({ serviceName: 'get-public-tracking-handler' });
+const tracer = new Tracer({ serviceName: 'get-public-tracking-handler' });
+
+const dynamoClient = tracer.captureAWSv3Client(new DynamoDBClient({}));
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const trackingService = new TrackingService();
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE_NAME!;
+const TRACKING_LINK_SECRET_NAME =
+  process.env.TRACKING_LINK_SECRET_NAME ||
+  `roadcall/tracking/${process.env.STAGE || 'dev'}/link-secret`;
+
+interface TrackingLinkSecrets {
+  secret: SecretValue;
+}
+
+/**
+ * API Gateway handler behind public tracking links: the vendor's position,
+ * ETA and status for the one incident the token is signed for, without login.
+ * Links stop working when they expire or the incident is closed.
+ * GET /tracking/public/{token}
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const { secret } =
+      await secretsManager.getSecretJSON<TrackingLinkSecrets>(TRACKING_LINK_SECRET_NAME);
+    const claims = verifyTrackingToken(event.pathParameters?.token || '', secret.getValue());
+    if (!claims) {
+      throw new AuthenticationError('Tracking link is invalid or has expired');
+    }
+
+    const incidentResult = await docClient.send(
+      new GetCommand({
+        TableName: INCIDENTS_TABLE,
+        Key: { incidentId: claims.incidentId },
+      })
+    );
+    const incident = incidentResult.Item as Incident | undefined;
+
+    // Closing the incident revokes every link to it
+    if (!incident || CLOSED_INCIDENT_STATUSES.includes(incident.status)) {
+      throw new AuthenticationError('Tracking link is invalid or has expired');
+    }
+
+    const session = await trackingService.getLatestSessionByIncident(incident.incidentId);
+    const tracking = toPublicTrackingView(incident, session);
+
+    logger.info('Public tracking retrieved', {
+      incidentId: incident.incidentId,
+      trackingStatus: tracking.trackingStatus,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'no-store',
+      },
+      body: JSON.stringify({
+        tracking,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Failed to get public tracking', { error, requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { AuthorizationError } from '@roadcall/utils';
+import { TrackingService } from '../tracking-service';
+
+const logger = new Logger({ serviceName: 'get-tracking-anomalies-handler' });
+
+const trackingService = new TrackingService();
+
+/**
+ * API Gateway handler listing active tracking sessions the watchdog flagged,
+ * for the dispatcher dashboard
+ * GET /tracking/anomalies
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const role = event.requestContext.authorizer?.role;
+    if (role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers and admins can view tracking anomalies');
+    }
+
+    const sessions = await trackingService.getSessionsWithAnomalies();
+
+    logger.info('Tracking anomalies retrieved', { sessions: sessions.length });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        sessions,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Failed to get tracking anomalies', { error, requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
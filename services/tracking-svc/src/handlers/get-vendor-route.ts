@@ -0,0 +1,70 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { AuthorizationError, NotFoundError } from '@roadcall/utils';
+import { TrackingService } from '../tracking-service';
+
+const logger = new Logger({ serviceName: 'get-vendor-route-handler' });
+
+const trackingService = new TrackingService();
+
+/**
+ * API Gateway handler returning the full vendor routes of an incident for
+ * playback, for disputes and fraud review
+ * GET /tracking/incidents/{id}/route
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const incidentId = event.pathParameters?.id;
+    if (!incidentId) {
+      throw new NotFoundError('Incident', 'undefined');
+    }
+
+    const role = event.requestContext.authorizer?.role;
+    if (role !== 'dispatcher' && role !== 'admin') {
+      throw new AuthorizationError('Only dispatchers and admins can replay vendor routes');
+    }
+
+    const routes = await trackingService.getVendorRoutes(incidentId);
+
+    logger.info('Vendor routes retrieved', {
+      incidentId,
+      sessions: routes.length,
+      points: routes.reduce((total, route) => total + route.points.length, 0),
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        routes,
+        requestId,
+        timestamp: new Date().toISOString(),
+      }),
+    };
+  } catch (error) {
+    logger.error('Failed to get vendor route', { error, requestId });
+
+    const statusCode = (error as any).statusCode || 500;
+    const message = (error as Error).message || 'Internal server error';
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({
+        error: {
+          message,
+          requestId,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    };
+  }
+}
@@ -4,6 +4,9 @@ import { Tracer } from '@aws-lambda-powertools/tracer';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import type { TrackingSession } from '@roadcall/types';
+import { isArrivalConfirmed } from '../location-filter';
+import { markIncidentArrived } from '../incident-arrival';
 
 const logger = new Logger({ serviceName: 'geofence-event-handler' });
 const tracer = new Tracer({ serviceName: 'geofence-event-handler' });
@@ -13,7 +16,6 @@ const docClient = DynamoDBDocumentClient.from(dynamoClient);
 const eventBridgeClient = tracer.captureAWSv3Client(new EventBridgeClient({}));
 
 const TABLE_NAME = process.env.TABLE_NAME!;
-const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE_NAME!;
 const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
 
 interface GeofenceEventDetail {
@@ -26,7 +28,9 @@ interface GeofenceEventDetail {
 
 /**
  * Handle AWS Location Service geofence events
- * Triggered when vendor enters incident geofence (100m radius)
+ * Triggered when vendor enters incident geofence (100m radius). The tracker
+ * only sees filtered fixes, and arrival is recorded only once the same rule
+ * updateVendorLocation uses confirms it, so the two cannot disagree.
  */
 export const handler = async (
   event: EventBridgeEvent<'Location Geofence Event', GeofenceEventDetail>
@@ -70,66 +74,67 @@ export const handler = async (
       return;
     }
 
-    const session = sessionResult.Items[0];
+    const session = sessionResult.Items[0] as TrackingSession;
     const sessionId = session.sessionId;
 
-    // Update tracking session status to 'arrived'
+    // A single fix inside the geofence is not an arrival; the vendor's later
+    // fixes confirm it through updateVendorLocation, which then moves the incident
+    if (!isArrivalConfirmed(session.locationFilter, session.vendorLocation.timestamp)) {
+      logger.info('Geofence entry not yet confirmed', {
+        sessionId,
+        arrivalSamples: session.locationFilter?.arrivalSamples || 0,
+      });
+      return;
+    }
+
+    // Update tracking session status to 'arrived', unless updateVendorLocation
+    // recorded the arrival first
     const now = new Date().toISOString();
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: { sessionId },
-        UpdateExpression:
-          'SET #status = :status, vendorLocation = :location, eta = :eta, updatedAt = :updatedAt',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': 'arrived',
-          ':location': {
-            lat: Position[1],
-            lon: Position[0],
-            timestamp: SampleTime,
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { sessionId },
+          UpdateExpression:
+            'SET #status = :status, vendorLocation = :location, eta = :eta, updatedAt = :updatedAt',
+          ConditionExpression: '#status = :active',
+          ExpressionAttributeNames: {
+            '#status': 'status',
           },
-          ':eta': {
-            minutes: 0,
-            distanceMiles: 0,
-            arrivalTime: now,
-            confidence: 1.0,
-            calculatedAt: now,
+          ExpressionAttributeValues: {
+            ':status': 'arrived',
+            ':active': 'active',
+            ':location': {
+              lat: Position[1],
+              lon: Position[0],
+              timestamp: SampleTime,
+            },
+            ':eta': {
+              minutes: 0,
+              distanceMiles: 0,
+              arrivalTime: now,
+              confidence: 1.0,
+              calculatedAt: now,
+            },
+            ':updatedAt': now,
           },
-          ':updatedAt': now,
-        },
-      })
-    );
+        })
+      );
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        logger.info('Arrival already recorded for session', { sessionId });
+        return;
+      }
+      throw error;
+    }
 
     logger.info('Tracking session updated to arrived', { sessionId });
 
-    // Update incident status to 'vendor_arrived'
-    await docClient.send(
-      new UpdateCommand({
-        TableName: INCIDENTS_TABLE,
-        Key: { incidentId },
-        UpdateExpression:
-          'SET #status = :status, updatedAt = :updatedAt, timeline = list_append(timeline, :transition)',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': 'vendor_arrived',
-          ':updatedAt': now,
-          ':transition': [
-            {
-              from: 'vendor_en_route',
-              to: 'vendor_arrived',
-              timestamp: now,
-              actor: 'system',
-              reason: 'Geofence arrival detection',
-            },
-          ],
-        },
-      })
-    );
+    // Update incident status to 'vendor_arrived', unless it is no longer en route
+    if (!(await markIncidentArrived(docClient, incidentId, 'Geofence arrival detection', now))) {
+      logger.info('Incident no longer en route, skipping arrival', { incidentId });
+      return;
+    }
 
     logger.info('Incident status updated to vendor_arrived', { incidentId });
 
@@ -2,9 +2,9 @@ import { AppSyncResolverEvent } from 'aws-lambda';
 import { Logger } from '@aws-lambda-powertools/logger';
 import { Tracer } from '@aws-lambda-powertools/tracer';
 import { TrackingService } from '../tracking-service';
-import type { TrackingSession, Location } from '@roadcall/types';
+import type { TrackingSession, Location, IncidentEtaPrediction } from '@roadcall/types';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 
 const logger = new Logger({ serviceName: 'start-tracking-handler' });
 const tracer = new Tracer({ serviceName: 'start-tracking-handler' });
@@ -70,9 +70,33 @@ export const handler = async (
       incident.driverId,
       incident.assignedVendorId,
       driverLocation,
-      vendorLocation
+      vendorLocation,
+      incident.weather?.condition
     );
 
+    // Keep the first routed ETA on the incident; with the arrival time it is
+    // a training sample for the ETA model once the incident reaches reporting
+    if (session.eta.routedSeconds !== undefined) {
+      const etaPrediction: IncidentEtaPrediction = {
+        routedSeconds: session.eta.routedSeconds,
+        p50Seconds: session.eta.minutes * 60,
+        predictedAt: session.eta.calculatedAt,
+        ...(session.eta.p90Minutes && { p90Seconds: session.eta.p90Minutes * 60 }),
+        ...(session.weather && { weather: session.weather }),
+      };
+
+      await docClient.send(
+        new UpdateCommand({
+          TableName: INCIDENTS_TABLE,
+          Key: { incidentId },
+          UpdateExpression: 'SET etaPrediction = :etaPrediction',
+          ExpressionAttributeValues: {
+            ':etaPrediction': etaPrediction,
+          },
+        })
+      );
+    }
+
     logger.info('Tracking session started', { sessionId: session.sessionId });
     return session;
   } catch (error) {
@@ -0,0 +1,58 @@
+import { AppSyncIdentityLambda, AppSyncResolverEvent } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { TrackingService } from '../tracking-service';
+import type { TrackingSession, Location } from '@roadcall/types';
+
+const logger = new Logger({ serviceName: 'update-driver-location-handler' });
+
+const trackingService = new TrackingService();
+
+interface UpdateDriverLocationArgs {
+  sessionId: string;
+  location: Location;
+}
+
+/**
+ * AppSync resolver for updateDriverLocation mutation
+ */
+export const handler = async (
+  event: AppSyncResolverEvent<UpdateDriverLocationArgs>
+): Promise<TrackingSession> => {
+  logger.info('Update driver location mutation', { arguments: event.arguments });
+
+  const { sessionId, location } = event.arguments;
+  // Set by the JWT Lambda authorizer the location mutations require
+  const callerId = (event.identity as AppSyncIdentityLambda | null)?.resolverContext?.userId;
+
+  try {
+    if (!callerId) {
+      throw new Error('Unauthorized');
+    }
+
+    // Validate location data
+    if (typeof location.lat !== 'number' || typeof location.lon !== 'number') {
+      throw new Error('Invalid location: lat and lon are required');
+    }
+
+    if (location.lat < -90 || location.lat > 90) {
+      throw new Error('Invalid latitude: must be between -90 and 90');
+    }
+
+    if (location.lon < -180 || location.lon > 180) {
+      throw new Error('Invalid longitude: must be between -180 and 180');
+    }
+
+    const session = await trackingService.updateDriverLocation(sessionId, location, callerId);
+
+    logger.info('Driver location updated', {
+      sessionId,
+      destinationUpdatedAt: session.destinationUpdatedAt,
+      eta: session.eta.minutes,
+    });
+
+    return session;
+  } catch (error) {
+    logger.error('Failed to update driver location', { error, sessionId });
+    throw error;
+  }
+};
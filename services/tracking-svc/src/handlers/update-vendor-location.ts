@@ -1,4 +1,4 @@
-import { AppSyncResolverEvent } from 'aws-lambda';
+import { AppSyncIdentityLambda, AppSyncResolverEvent } from 'aws-lambda';
 import { Logger } from '@aws-lambda-powertools/logger';
 import { TrackingService } from '../tracking-service';
 import type { TrackingSession, Location } from '@roadcall/types';
@@ -21,8 +21,14 @@ export const handler = async (
   logger.info('Update vendor location mutation', { arguments: event.arguments });
 
   const { sessionId, location } = event.arguments;
+  // Set by the JWT Lambda authorizer the location mutations require
+  const callerId = (event.identity as AppSyncIdentityLambda | null)?.resolverContext?.userId;
 
   try {
+    if (!callerId) {
+      throw new Error('Unauthorized');
+    }
+
     // Validate location data
     if (!location.lat || !location.lon) {
       throw new Error('Invalid location: lat and lon are required');
@@ -37,7 +43,7 @@ export const handler = async (
     }
 
     // Update vendor location
-    const session = await trackingService.updateVendorLocation(sessionId, location);
+    const session = await trackingService.updateVendorLocation(sessionId, location, callerId);
 
     logger.info('Vendor location updated', {
       sessionId,
@@ -0,0 +1,56 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE_NAME!;
+
+/**
+ * Move the incident to vendor_arrived once the arrival is confirmed. Both
+ * updateVendorLocation and the geofence handler call this, whichever confirms
+ * first. Conditional on the incident still being en route, so a manual
+ * arrival or cancellation that landed first is not overwritten; the version
+ * bump fails their stale writes instead. Returns false when the incident was
+ * no longer en route.
+ */
+export async function markIncidentArrived(
+  docClient: DynamoDBDocumentClient,
+  incidentId: string,
+  reason: string,
+  now: string = new Date().toISOString()
+): Promise<boolean> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: INCIDENTS_TABLE,
+        Key: { incidentId },
+        UpdateExpression:
+          'SET #status = :status, updatedAt = :updatedAt, timeline = list_append(timeline, :transition), #version = if_not_exists(#version, :zero) + :one',
+        ConditionExpression: '#status = :enRoute',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+          '#version': 'version',
+        },
+        ExpressionAttributeValues: {
+          ':status': 'vendor_arrived',
+          ':enRoute': 'vendor_en_route',
+          ':updatedAt': now,
+          ':zero': 0,
+          ':one': 1,
+          ':transition': [
+            {
+              from: 'vendor_en_route',
+              to: 'vendor_arrived',
+              timestamp: now,
+              actor: 'system',
+              reason,
+            },
+          ],
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
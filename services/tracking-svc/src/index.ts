@@ -1,9 +1,18 @@
 // Export all handlers for Lambda functions
 export { handler as startTracking } from './handlers/start-tracking';
 export { handler as updateVendorLocation } from './handlers/update-vendor-location';
+export { handler as updateDriverLocation } from './handlers/update-driver-location';
 export { handler as stopTracking } from './handlers/stop-tracking';
 export { handler as getTrackingSession } from './handlers/get-tracking-session';
 export { handler as getActiveSessionByIncident } from './handlers/get-active-session-by-incident';
+export { handler as getVendorRoute } from './handlers/get-vendor-route';
+export { handler as getTrackingAnomalies } from './handlers/get-tracking-anomalies';
+export { handler as checkTrackingSessions } from './handlers/check-tracking-sessions';
+export { handler as getPublicTracking } from './handlers/get-public-tracking';
 
 // Export service for testing
 export { TrackingService } from './tracking-service';
+export * from './route-history';
+export * from './watchdog';
+export * from './location-filter';
+export * from './public-tracking';
@@ -0,0 +1,136 @@
+import type { Location, VendorLocationFilter } from '@roadcall/types';
+
+const DEFAULT_ACCURACY_METERS = 25; // Assumed when the device does not report accuracy
+const MAX_ACCURACY_METERS = 100; // Coarser fixes come from cell towers or Wi-Fi, not GPS
+const MAX_SPEED_MPS = 70; // About 155 mph; anything faster is a GPS jump
+const PROCESS_NOISE_MPS = 10; // How quickly the vendor can drift from the estimate
+const MAX_REJECTED_FIXES = 3; // After this many jumps in a row the estimate is the outlier
+export const ARRIVAL_RADIUS_KM = 0.1; // 100 meters, the geofence radius
+const ARRIVAL_MIN_SAMPLES = 3; // Consecutive fixes inside the radius confirm arrival...
+const ARRIVAL_MIN_DWELL_SECONDS = 30; // ...as do two fixes at least this far apart
+
+export type RejectedFixReason = 'inaccurate' | 'out_of_order' | 'impossible_speed';
+
+export interface FilteredFix {
+  location?: Location; // The smoothed fix, absent when the fix was rejected
+  rejectedReason?: RejectedFixReason;
+  filter: VendorLocationFilter;
+}
+
+/**
+ * Run a vendor fix through the filter against the current estimate
+ * (`vendorLocation`). Fixes that are too inaccurate, older than the estimate
+ * or would need an impossible speed to reach are rejected; the rest are
+ * smoothed with a Kalman filter weighted by their reported accuracy.
+ */
+export function filterVendorFix(
+  estimate: Location,
+  filter: VendorLocationFilter | undefined,
+  fix: Location,
+  distance: (a: Location, b: Location) => number
+): FilteredFix {
+  const state = filter || {
+    varianceMeters2: accuracyOf(estimate) ** 2,
+    rejectedFixes: 0,
+    arrivalSamples: 0,
+  };
+  const accuracy = accuracyOf(fix);
+
+  if (accuracy > MAX_ACCURACY_METERS) {
+    return { rejectedReason: 'inaccurate', filter: state };
+  }
+
+  // Without a time for the estimate there is nothing to check the fix against
+  if (!estimate.timestamp || !fix.timestamp) {
+    return { location: fix, filter: resetFilter(accuracy) };
+  }
+
+  const seconds =
+    (new Date(fix.timestamp).getTime() - new Date(estimate.timestamp).getTime()) / 1000;
+  if (seconds < 0) {
+    return { rejectedReason: 'out_of_order', filter: state };
+  }
+
+  // Either position may be off by its accuracy, so only the excess is movement
+  const meters = distance(estimate, fix) * 1000;
+  const speed =
+    Math.max(0, meters - accuracy - Math.sqrt(state.varianceMeters2)) / Math.max(seconds, 1);
+
+  if (speed > MAX_SPEED_MPS) {
+    if (state.rejectedFixes + 1 < MAX_REJECTED_FIXES) {
+      return {
+        rejectedReason: 'impossible_speed',
+        filter: { ...state, rejectedFixes: state.rejectedFixes + 1 },
+      };
+    }
+
+    // The fixes agree with each other, not with the estimate: start over from them
+    return { location: fix, filter: resetFilter(accuracy) };
+  }
+
+  const variance = state.varianceMeters2 + seconds * PROCESS_NOISE_MPS ** 2;
+  const gain = variance / (variance + accuracy ** 2);
+
+  return {
+    location: {
+      ...fix,
+      lat: estimate.lat + gain * (fix.lat - estimate.lat),
+      lon: estimate.lon + gain * (fix.lon - estimate.lon),
+    },
+    filter: { ...state, varianceMeters2: (1 - gain) * variance, rejectedFixes: 0 },
+  };
+}
+
+/**
+ * Count an accepted fix towards arrival. Any fix outside the radius starts
+ * the count again.
+ */
+export function recordArrivalSample(
+  filter: VendorLocationFilter,
+  location: Location,
+  distanceToIncidentKm: number
+): VendorLocationFilter {
+  const { arrivalSince, ...rest } = filter;
+
+  if (distanceToIncidentKm > ARRIVAL_RADIUS_KM) {
+    return { ...rest, arrivalSamples: 0 };
+  }
+
+  return {
+    ...rest,
+    arrivalSamples: filter.arrivalSamples + 1,
+    arrivalSince: arrivalSince || location.timestamp || new Date().toISOString(),
+  };
+}
+
+/**
+ * The one arrival decision: the vendor has stayed inside the radius for
+ * enough consecutive fixes, or for long enough. `lastFixAt` is the time of the
+ * latest accepted fix.
+ */
+export function isArrivalConfirmed(
+  filter: VendorLocationFilter | undefined,
+  lastFixAt: string | undefined
+): boolean {
+  if (!filter || filter.arrivalSamples === 0) {
+    return false;
+  }
+
+  if (filter.arrivalSamples >= ARRIVAL_MIN_SAMPLES) {
+    return true;
+  }
+
+  const dwellSeconds =
+    filter.arrivalSince && lastFixAt
+      ? (new Date(lastFixAt).getTime() - new Date(filter.arrivalSince).getTime()) / 1000
+      : 0;
+  return filter.arrivalSamples >= 2 && dwellSeconds >= ARRIVAL_MIN_DWELL_SECONDS;
+}
+
+function accuracyOf(location: Location): number {
+  return location.accuracy || DEFAULT_ACCURACY_METERS;
+}
+
+function resetFilter(accuracy: number): VendorLocationFilter {
+  return { varianceMeters2: accuracy ** 2, rejectedFixes: 0, arrivalSamples: 0 };
+}
@@ -0,0 +1,63 @@
+import type {
+  Incident,
+  IncidentStatus,
+  PublicTrackingView,
+  TrackingSession,
+} from '@roadcall/types';
+import { calculateDistance } from '@roadcall/utils';
+
+const EXACT_LOCATION_MILES = 1; // Closer vendors are shown where they are
+const BLUR_GRID_DEGREES = 0.01; // About 1 km; farther vendors are snapped to this grid
+
+// Tracking links stop working once the incident reaches one of these
+export const CLOSED_INCIDENT_STATUSES: IncidentStatus[] = ['closed', 'cancelled'];
+
+/**
+ * Build the read-only view behind a public tracking link. The vendor's
+ * position is snapped to a coarse grid until they are close to the incident,
+ * so the link does not give away where they are on other jobs or at home.
+ */
+export function toPublicTrackingView(
+  incident: Pick<Incident, 'incidentId' | 'status' | 'location' | 'updatedAt'>,
+  session: TrackingSession | null
+): PublicTrackingView {
+  const view: PublicTrackingView = {
+    incidentId: incident.incidentId,
+    incidentStatus: incident.status,
+    incidentLocation: { lat: incident.location.lat, lon: incident.location.lon },
+    updatedAt: session?.updatedAt || incident.updatedAt,
+  };
+
+  if (!session) {
+    return view;
+  }
+
+  const { vendorLocation, driverLocation, eta } = session;
+  const approximate =
+    calculateDistance(
+      vendorLocation.lat,
+      vendorLocation.lon,
+      driverLocation.lat,
+      driverLocation.lon
+    ) > EXACT_LOCATION_MILES;
+
+  return {
+    ...view,
+    trackingStatus: session.status,
+    vendorLocation: {
+      lat: approximate ? snapToGrid(vendorLocation.lat) : vendorLocation.lat,
+      lon: approximate ? snapToGrid(vendorLocation.lon) : vendorLocation.lon,
+      approximate,
+      ...(vendorLocation.timestamp && { updatedAt: vendorLocation.timestamp }),
+    },
+    eta: {
+      minutes: eta.minutes,
+      arrivalTime: eta.arrivalTime,
+      ...(eta.p90Minutes !== undefined && { p90Minutes: eta.p90Minutes }),
+    },
+  };
+}
+
+function snapToGrid(degrees: number): number {
+  return Number((Math.round(degrees / BLUR_GRID_DEGREES) * BLUR_GRID_DEGREES).toFixed(2));
+}
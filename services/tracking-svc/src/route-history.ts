@@ -0,0 +1,158 @@
+import type { DwellStop, Location, VendorRouteHistory } from '@roadcall/types';
+
+const COORDINATE_PRECISION = 1e5; // ~1 meter, as in Google's encoded polyline format
+const DWELL_RADIUS_KM = 0.05; // Fixes within 50 meters count as staying put
+const DWELL_MIN_SECONDS = 120; // Stops shorter than 2 minutes are traffic, not dwell
+
+/**
+ * Start a route history at the vendor's first fix
+ */
+export function startRouteHistory(location: Location, startedAt: string): VendorRouteHistory {
+  const point = toEncodedPoint(location, startedAt);
+
+  return {
+    encodedPath: encodeValues(point),
+    startedAt,
+    pointCount: 1,
+    distanceKm: 0,
+    lastPoint: point,
+  };
+}
+
+/**
+ * Append a vendor fix. Points are delta-encoded against the last one, so the
+ * whole path never has to be decoded on the write path.
+ */
+export function appendRoutePoint(
+  history: VendorRouteHistory,
+  location: Location,
+  distanceKm: number
+): VendorRouteHistory {
+  const point = toEncodedPoint(location, location.timestamp || new Date().toISOString(), history);
+  const [lat, lon, seconds] = history.lastPoint;
+
+  return {
+    ...history,
+    encodedPath:
+      history.encodedPath + encodeValues([point[0] - lat, point[1] - lon, point[2] - seconds]),
+    pointCount: history.pointCount + 1,
+    distanceKm: history.distanceKm + distanceKm,
+    lastPoint: point,
+  };
+}
+
+/**
+ * Decode a route history back into timestamped locations
+ */
+export function decodeRouteHistory(history: VendorRouteHistory): Location[] {
+  const start = new Date(history.startedAt).getTime();
+  const values = decodeValues(history.encodedPath);
+  const points: Location[] = [];
+  let [lat, lon, seconds] = [0, 0, 0];
+
+  for (let i = 0; i + 2 < values.length; i += 3) {
+    lat += values[i];
+    lon += values[i + 1];
+    seconds += values[i + 2];
+    points.push({
+      lat: lat / COORDINATE_PRECISION,
+      lon: lon / COORDINATE_PRECISION,
+      timestamp: new Date(start + seconds * 1000).toISOString(),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Find the places the vendor stayed within 50 meters of for 2 minutes or more
+ */
+export function findDwellStops(
+  points: Location[],
+  distance: (a: Location, b: Location) => number
+): DwellStop[] {
+  const stops: DwellStop[] = [];
+  let anchor = 0;
+
+  for (let i = 1; i <= points.length; i++) {
+    if (i < points.length && distance(points[anchor], points[i]) <= DWELL_RADIUS_KM) {
+      continue;
+    }
+
+    const startedAt = points[anchor].timestamp as string;
+    const endedAt = points[i - 1].timestamp as string;
+    const durationSeconds = (new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000;
+
+    if (durationSeconds >= DWELL_MIN_SECONDS) {
+      stops.push({
+        lat: points[anchor].lat,
+        lon: points[anchor].lon,
+        startedAt,
+        endedAt,
+        durationSeconds,
+      });
+    }
+    anchor = i;
+  }
+
+  return stops;
+}
+
+function toEncodedPoint(
+  location: Location,
+  timestamp: string,
+  history?: VendorRouteHistory
+): [number, number, number] {
+  const start = history ? new Date(history.startedAt).getTime() : new Date(timestamp).getTime();
+  // Out-of-order fixes are kept at the previous point's time
+  const seconds = Math.max(
+    Math.round((new Date(timestamp).getTime() - start) / 1000),
+    history ? history.lastPoint[2] : 0
+  );
+
+  return [
+    Math.round(location.lat * COORDINATE_PRECISION),
+    Math.round(location.lon * COORDINATE_PRECISION),
+    seconds,
+  ];
+}
+
+/**
+ * Polyline algorithm: zig-zag each signed value, then write it 5 bits per character
+ */
+function encodeValues(values: number[]): string {
+  return values
+    .map((value) => {
+      let remaining = value < 0 ? ~(value << 1) : value << 1;
+      let encoded = '';
+
+      while (remaining >= 0x20) {
+        encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+        remaining >>= 5;
+      }
+
+      return encoded + String.fromCharCode(remaining + 63);
+    })
+    .join('');
+}
+
+function decodeValues(encoded: string): number[] {
+  const values: number[] = [];
+  let index = 0;
+
+  while (index < encoded.length) {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    values.push(result & 1 ? ~(result >> 1) : result >> 1);
+  }
+
+  return values;
+}
@@ -16,12 +16,29 @@ import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge
 import { Logger } from '@aws-lambda-powertools/logger';
 import { Tracer } from '@aws-lambda-powertools/tracer';
 import { v4 as uuidv4 } from 'uuid';
+import { determineRegion, predictEta, EtaModel } from '@roadcall/utils';
+import { configStore } from '@roadcall/aws-clients';
 import type {
   TrackingSession,
   Location,
   ETACalculation,
+  TrackingAnomaly,
+  TrackingAnomalyType,
   TrackingStatus,
+  TrackingWatchdogConfig,
+  VendorRoute,
+  VendorRouteRecord,
 } from '@roadcall/types';
+import {
+  appendRoutePoint,
+  decodeRouteHistory,
+  findDwellStops,
+  startRouteHistory,
+} from './route-history';
+import trainedEtaModel from './eta-model.json';
+import { detectTrackingAnomalies } from './watchdog';
+import { filterVendorFix, isArrivalConfirmed, recordArrivalSample } from './location-filter';
+import { markIncidentArrived } from './incident-arrival';
 
 const logger = new Logger({ serviceName: 'tracking-service' });
 const tracer = new Tracer({ serviceName: 'tracking-service' });
@@ -32,12 +49,18 @@ const locationClient = tracer.captureAWSv3Client(new LocationClient({}));
 const eventBridgeClient = tracer.captureAWSv3Client(new EventBridgeClient({}));
 
 const TABLE_NAME = process.env.TABLE_NAME!;
+const VENDOR_ROUTES_TABLE = process.env.VENDOR_ROUTES_TABLE_NAME!;
 const LOCATION_CALCULATOR_NAME = process.env.LOCATION_CALCULATOR_NAME || 'roadcall-route-calculator';
 const LOCATION_TRACKER_NAME = process.env.LOCATION_TRACKER_NAME || 'roadcall-vendor-tracker';
 const GEOFENCE_COLLECTION_NAME = process.env.GEOFENCE_COLLECTION_NAME || 'roadcall-geofences';
 const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME || 'default';
 const MAX_VENDOR_PATH_POINTS = 50;
+const ROUTE_APPEND_MAX_ATTEMPTS = 5; // Concurrent fixes for one session are rare
 const GEOFENCE_RADIUS_METERS = 100; // 100-meter radius for arrival detection
+// How far the driver must move before the arrival geofence follows them
+const DRIVER_MOVE_THRESHOLD_KM = parseFloat(process.env.DRIVER_MOVE_THRESHOLD_KM || '0.1');
+// Trained offline with `pnpm train:eta-model`; without buckets ETAs are the routed duration
+const ETA_MODEL = trainedEtaModel as EtaModel;
 
 export class TrackingService {
   /**
@@ -48,7 +71,8 @@ export class TrackingService {
     driverId: string,
     vendorId: string,
     driverLocation: Location,
-    vendorLocation: Location
+    vendorLocation: Location,
+    weather?: string
   ): Promise<TrackingSession> {
     logger.info('Starting tracking session', { incidentId, driverId, vendorId });
 
@@ -56,7 +80,7 @@ export class TrackingService {
     const now = new Date().toISOString();
 
     // Calculate initial ETA
-    const eta = await this.calculateETA(vendorLocation, driverLocation);
+    const eta = await this.calculateETA(vendorLocation, driverLocation, { vendorId, weather });
 
     // Create geofence ID (100-meter radius around incident)
     const geofenceId = `incident-${incidentId}-arrival`;
@@ -67,6 +91,11 @@ export class TrackingService {
     // Register vendor device in tracker
     await this.updateTrackerPosition(vendorId, vendorLocation);
 
+    const vendorStart: Location = {
+      ...vendorLocation,
+      timestamp: vendorLocation.timestamp || now,
+    };
+
     const session: TrackingSession = {
       sessionId,
       incidentId,
@@ -77,19 +106,12 @@ export class TrackingService {
         ...driverLocation,
         timestamp: driverLocation.timestamp || now,
       },
-      vendorLocation: {
-        ...vendorLocation,
-        timestamp: vendorLocation.timestamp || now,
-      },
-      vendorPath: [
-        {
-          ...vendorLocation,
-          timestamp: vendorLocation.timestamp || now,
-        },
-      ],
+      vendorLocation: vendorStart,
+      vendorPath: [vendorStart],
       route: [],
       eta,
       geofenceId,
+      ...(weather && { weather }),
       createdAt: now,
       updatedAt: now,
     };
@@ -101,14 +123,33 @@ export class TrackingService {
       })
     );
 
+    // The full trail is kept in its own table for route replay
+    const route: VendorRouteRecord = {
+      sessionId,
+      incidentId,
+      vendorId,
+      ...startRouteHistory(vendorStart, vendorStart.timestamp as string),
+    };
+    await docClient.send(
+      new PutCommand({
+        TableName: VENDOR_ROUTES_TABLE,
+        Item: route,
+      })
+    );
+
     logger.info('Tracking session created', { sessionId });
     return session;
   }
 
   /**
-   * Update vendor location and recalculate ETA
+   * Update vendor location and recalculate ETA. Only the session's vendor
+   * (`callerId`) may move it.
    */
-  async updateVendorLocation(sessionId: string, location: Location): Promise<TrackingSession> {
+  async updateVendorLocation(
+    sessionId: string,
+    location: Location,
+    callerId: string
+  ): Promise<TrackingSession> {
     logger.info('Updating vendor location', { sessionId });
 
     // Get current session
@@ -117,16 +158,37 @@ export class TrackingService {
       throw new Error(`Tracking session not found: ${sessionId}`);
     }
 
+    if (session.vendorId !== callerId) {
+      throw new Error(`Not authorized to update tracking session: ${sessionId}`);
+    }
+
     if (session.status !== 'active') {
       throw new Error(`Cannot update location for session with status: ${session.status}`);
     }
 
     const now = new Date().toISOString();
-    const locationWithTimestamp: Location = {
+    const fix: Location = {
       ...location,
       timestamp: location.timestamp || now,
     };
 
+    // Drop GPS jumps and smooth jitter before the fix moves the vendor
+    const filtered = filterVendorFix(session.vendorLocation, session.locationFilter, fix, (a, b) =>
+      this.calculateDistance(a, b)
+    );
+    if (!filtered.location) {
+      logger.warn('Vendor location rejected', {
+        sessionId,
+        reason: filtered.rejectedReason,
+        accuracy: fix.accuracy,
+      });
+      return this.saveLocationFilter(session, filtered.filter);
+    }
+    const locationWithTimestamp = filtered.location;
+
+    const lastLocation = session.vendorPath[session.vendorPath.length - 1];
+    const distanceMoved = this.calculateDistance(locationWithTimestamp, lastLocation);
+
     // Update vendor path (circular buffer, max 50 points)
     const updatedPath = [...session.vendorPath, locationWithTimestamp];
     if (updatedPath.length > MAX_VENDOR_PATH_POINTS) {
@@ -137,9 +199,17 @@ export class TrackingService {
     // This enables automatic geofence arrival detection
     await this.updateTrackerPosition(session.vendorId, locationWithTimestamp);
 
-    // Check if vendor has arrived (within 100 meters)
-    const distanceToIncident = this.calculateDistance(location, session.driverLocation);
-    const hasArrived = distanceToIncident <= 0.1; // 0.1 km = 100 meters
+    // Arrival has to hold across fixes, so one bad fix near the incident is not enough
+    const distanceToIncident = this.calculateDistance(
+      locationWithTimestamp,
+      session.driverLocation
+    );
+    const locationFilter = recordArrivalSample(
+      filtered.filter,
+      locationWithTimestamp,
+      distanceToIncident
+    );
+    const hasArrived = isArrivalConfirmed(locationFilter, locationWithTimestamp.timestamp);
 
     // Recalculate ETA if not arrived
     let eta = session.eta;
@@ -154,44 +224,165 @@ export class TrackingService {
         confidence: 1.0,
         calculatedAt: now,
       };
-
-      // Publish VendorArrived event
-      await this.publishVendorArrivedEvent(session, locationWithTimestamp);
     } else {
       // Only recalculate if significant movement (>0.1 miles) or 30 seconds elapsed
-      const lastLocation = session.vendorPath[session.vendorPath.length - 1];
-      const distanceMoved = this.calculateDistance(location, lastLocation);
       const timeSinceLastCalc = new Date().getTime() - new Date(session.eta.calculatedAt).getTime();
 
       if (distanceMoved > 0.1 || timeSinceLastCalc > 30000) {
-        eta = await this.calculateETA(locationWithTimestamp, session.driverLocation);
+        eta = await this.calculateETA(locationWithTimestamp, session.driverLocation, session);
       }
     }
 
-    // Update session
-    const result = await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: { sessionId },
-        UpdateExpression:
-          'SET vendorLocation = :vendorLocation, vendorPath = :vendorPath, eta = :eta, #status = :status, updatedAt = :updatedAt',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':vendorLocation': locationWithTimestamp,
-          ':vendorPath': updatedPath,
-          ':eta': eta,
-          ':status': status,
-          ':updatedAt': now,
-        },
-        ReturnValues: 'ALL_NEW',
-      })
-    );
+    // Conditional on the session still being active so the geofence handler
+    // and this update cannot both record the arrival
+    let result;
+    try {
+      result = await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { sessionId },
+          UpdateExpression:
+            'SET vendorLocation = :vendorLocation, vendorPath = :vendorPath, locationFilter = :locationFilter, eta = :eta, #status = :status, updatedAt = :updatedAt',
+          ConditionExpression: '#status = :active',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':vendorLocation': locationWithTimestamp,
+            ':vendorPath': updatedPath,
+            ':locationFilter': locationFilter,
+            ':eta': eta,
+            ':status': status,
+            ':active': 'active',
+            ':updatedAt': now,
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        throw new Error(`Tracking session is no longer active: ${sessionId}`);
+      }
+      throw error;
+    }
 
     const updatedSession = result.Attributes as TrackingSession;
     logger.info('Vendor location updated', { sessionId, hasArrived, status });
 
+    // The full trail is kept in its own table for route replay
+    try {
+      await this.appendVendorRoute(session, locationWithTimestamp, distanceMoved);
+    } catch (error) {
+      // The live position is saved; only the replay misses this point
+      logger.error('Failed to append vendor route point', { sessionId, error });
+    }
+
+    // The geofence ENTER event came with the first fix inside the radius,
+    // before arrival was confirmed, so the incident moves here
+    if (hasArrived) {
+      const transitioned = await markIncidentArrived(
+        docClient,
+        session.incidentId,
+        'Arrival confirmed by vendor location',
+        now
+      );
+      if (transitioned) {
+        await this.publishVendorArrivedEvent(session, locationWithTimestamp);
+      } else {
+        logger.info('Incident no longer en route, skipping arrival', {
+          incidentId: session.incidentId,
+        });
+      }
+    }
+
+    return updatedSession;
+  }
+
+  /**
+   * Update driver location. Drivers often coast to a safer spot after calling,
+   * so once they move past the threshold the arrival geofence is re-centred on
+   * them, the ETA is recalculated and the vendor is told about the new destination.
+   * Smaller moves (GPS drift) leave the session unchanged. Only the session's
+   * driver (`callerId`) may move it.
+   */
+  async updateDriverLocation(
+    sessionId: string,
+    location: Location,
+    callerId: string
+  ): Promise<TrackingSession> {
+    logger.info('Updating driver location', { sessionId });
+
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Tracking session not found: ${sessionId}`);
+    }
+
+    if (session.driverId !== callerId) {
+      throw new Error(`Not authorized to update tracking session: ${sessionId}`);
+    }
+
+    if (session.status !== 'active') {
+      throw new Error(`Cannot update location for session with status: ${session.status}`);
+    }
+
+    const distanceMoved = this.calculateDistance(location, session.driverLocation);
+    if (distanceMoved <= DRIVER_MOVE_THRESHOLD_KM) {
+      logger.debug('Driver movement below threshold', { sessionId, distanceMoved });
+      return session;
+    }
+
+    const now = new Date().toISOString();
+    const locationWithTimestamp: Location = {
+      ...location,
+      timestamp: location.timestamp || now,
+    };
+
+    const eta = await this.calculateETA(session.vendorLocation, locationWithTimestamp, session);
+
+    // Conditional on the session still being active so a late driver update
+    // cannot reopen a session the vendor has arrived at or that was stopped
+    let result;
+    try {
+      result = await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { sessionId },
+          UpdateExpression:
+            'SET driverLocation = :driverLocation, eta = :eta, destinationUpdatedAt = :updatedAt, updatedAt = :updatedAt',
+          ConditionExpression: '#status = :active',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':driverLocation': locationWithTimestamp,
+            ':eta': eta,
+            ':updatedAt': now,
+            ':active': 'active',
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        throw new Error(`Tracking session is no longer active: ${sessionId}`);
+      }
+      throw error;
+    }
+
+    // Only once the session has taken the new destination, so a session that
+    // ended meanwhile keeps its geofence. Same geofence ID, so BatchPutGeofence
+    // replaces the old circle
+    await this.createGeofence(session.geofenceId, locationWithTimestamp);
+
+    const updatedSession = result.Attributes as TrackingSession;
+    await this.publishDriverLocationUpdatedEvent(updatedSession, distanceMoved);
+
+    logger.info('Driver location updated', {
+      sessionId,
+      distanceMovedMeters: Math.round(distanceMoved * 1000),
+      eta: eta.minutes,
+    });
+
     return updatedSession;
   }
 
@@ -266,11 +457,321 @@ export class TrackingService {
     return result.Items && result.Items.length > 0 ? (result.Items[0] as TrackingSession) : null;
   }
 
+  /**
+   * Get the newest tracking session of an incident, whatever its status
+   */
+  async getLatestSessionByIncident(incidentId: string): Promise<TrackingSession | null> {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'incident-index',
+        KeyConditionExpression: 'incidentId = :incidentId',
+        ExpressionAttributeValues: {
+          ':incidentId': incidentId,
+        },
+      })
+    );
+
+    const sessions = (result.Items as TrackingSession[]) || [];
+    return sessions.reduce<TrackingSession | null>(
+      (latest, session) => (!latest || session.createdAt > latest.createdAt ? session : latest),
+      null
+    );
+  }
+
+  /**
+   * Get the full vendor routes of an incident for playback, one per tracking
+   * session (a reassigned incident has several), oldest first. Sessions past
+   * the retention period have no route left.
+   */
+  async getVendorRoutes(incidentId: string): Promise<VendorRoute[]> {
+    const byIncident = (tableName: string) =>
+      docClient.send(
+        new QueryCommand({
+          TableName: tableName,
+          IndexName: 'incident-index',
+          KeyConditionExpression: 'incidentId = :incidentId',
+          ExpressionAttributeValues: {
+            ':incidentId': incidentId,
+          },
+        })
+      );
+    const [sessionsResult, routesResult] = await Promise.all([
+      byIncident(TABLE_NAME),
+      byIncident(VENDOR_ROUTES_TABLE),
+    ]);
+
+    const sessions = ((sessionsResult.Items as TrackingSession[]) || []).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+    const routes = (routesResult.Items as VendorRouteRecord[]) || [];
+
+    return sessions.map((session) => {
+      const route = routes.find((candidate) => candidate.sessionId === session.sessionId);
+      // Sessions started before routes were kept only have the last 50 points
+      const points = route ? decodeRouteHistory(route) : session.vendorPath || [];
+      const distanceKm = route?.distanceKm ?? 0;
+
+      return {
+        sessionId: session.sessionId,
+        incidentId: session.incidentId,
+        vendorId: session.vendorId,
+        status: session.status,
+        startedAt: session.createdAt,
+        endedAt: points[points.length - 1]?.timestamp || session.updatedAt,
+        points,
+        distanceMiles: distanceKm * 0.621371,
+        dwellStops: findDwellStops(points, (a, b) => this.calculateDistance(a, b)),
+      };
+    });
+  }
+
+  /**
+   * Get the full vendor route of a tracking session
+   */
+  private async getVendorRoute(sessionId: string): Promise<VendorRouteRecord | null> {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: VENDOR_ROUTES_TABLE,
+        Key: { sessionId },
+      })
+    );
+
+    return (result.Item as VendorRouteRecord) || null;
+  }
+
+  /**
+   * Append a vendor fix to the session's route. Points are delta-encoded
+   * against the last one, so the write is conditional on the point count the
+   * fix was encoded against and retried when another fix got in first.
+   * Sessions started before routes were kept get one from this fix.
+   */
+  private async appendVendorRoute(
+    session: TrackingSession,
+    location: Location,
+    distanceKm: number
+  ): Promise<void> {
+    const { sessionId } = session;
+
+    for (let attempt = 1; attempt <= ROUTE_APPEND_MAX_ATTEMPTS; attempt++) {
+      const route = await this.getVendorRoute(sessionId);
+
+      try {
+        if (!route) {
+          const started: VendorRouteRecord = {
+            sessionId,
+            incidentId: session.incidentId,
+            vendorId: session.vendorId,
+            ...startRouteHistory(location, location.timestamp as string),
+          };
+          await docClient.send(
+            new PutCommand({
+              TableName: VENDOR_ROUTES_TABLE,
+              Item: started,
+              ConditionExpression: 'attribute_not_exists(sessionId)',
+            })
+          );
+          return;
+        }
+
+        const appended = appendRoutePoint(route, location, distanceKm);
+        await docClient.send(
+          new UpdateCommand({
+            TableName: VENDOR_ROUTES_TABLE,
+            Key: { sessionId },
+            UpdateExpression:
+              'SET encodedPath = :encodedPath, pointCount = :pointCount, distanceKm = :distanceKm, lastPoint = :lastPoint',
+            ConditionExpression: 'pointCount = :expectedPointCount',
+            ExpressionAttributeValues: {
+              ':encodedPath': appended.encodedPath,
+              ':pointCount': appended.pointCount,
+              ':distanceKm': appended.distanceKm,
+              ':lastPoint': appended.lastPoint,
+              ':expectedPointCount': route.pointCount,
+            },
+          })
+        );
+        return;
+      } catch (error) {
+        if ((error as Error).name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(
+      `Vendor route changed on every one of ${ROUTE_APPEND_MAX_ATTEMPTS} attempts: ${sessionId}`
+    );
+  }
+
+  /**
+   * Check every active session for stale GPS, stalled vendors and vendors
+   * moving away from the incident, with thresholds from admin-config. New
+   * anomalies are recorded on the session and published; cleared ones are
+   * removed. Returns how many anomalies were published.
+   */
+  async checkActiveSessions(now: Date): Promise<number> {
+    const config = await configStore.getTrackingWatchdogConfig();
+    const sessions = await this.queryActiveSessions();
+    let published = 0;
+
+    for (const session of sessions) {
+      try {
+        published += await this.checkSession(session, now, config);
+      } catch (error) {
+        // One bad session must not stop the others from being checked
+        logger.error('Failed to check tracking session', { error, sessionId: session.sessionId });
+      }
+    }
+
+    return published;
+  }
+
+  /**
+   * Get active sessions with open anomalies, longest-running first
+   */
+  async getSessionsWithAnomalies(): Promise<TrackingSession[]> {
+    const since = (session: TrackingSession) =>
+      (session.anomalies || []).map((anomaly) => anomaly.detectedAt).sort()[0];
+
+    return (await this.queryActiveSessions())
+      .filter((session) => session.anomalies && session.anomalies.length > 0)
+      .sort((a, b) => since(a).localeCompare(since(b)));
+  }
+
+  private async queryActiveSessions(): Promise<TrackingSession[]> {
+    const sessions: TrackingSession[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: TABLE_NAME,
+          IndexName: 'status-index',
+          KeyConditionExpression: '#status = :status',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':status': 'active',
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      sessions.push(...((result.Items as TrackingSession[]) || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return sessions;
+  }
+
+  private async checkSession(
+    session: TrackingSession,
+    now: Date,
+    config: TrackingWatchdogConfig
+  ): Promise<number> {
+    const route = await this.getVendorRoute(session.sessionId);
+    const points = route ? decodeRouteHistory(route) : session.vendorPath || [];
+    const found = detectTrackingAnomalies(session, points, now, config, (a, b) =>
+      this.calculateDistance(a, b)
+    );
+
+    const open = session.anomalies || [];
+    const opened = found.filter((type) => !open.some((anomaly) => anomaly.type === type));
+    const anomalies: TrackingAnomaly[] = [
+      ...open.filter((anomaly) => found.includes(anomaly.type)),
+      ...opened.map((type) => ({ type, detectedAt: now.toISOString() })),
+    ];
+
+    if (opened.length === 0 && anomalies.length === open.length) {
+      return 0;
+    }
+
+    // Stalled and moving-away vendors are still reporting, so the driver can
+    // be given a fresh ETA; a stale location would only give a wrong one
+    const eta = opened.some((type) => type !== 'stale_gps')
+      ? await this.calculateETA(session.vendorLocation, session.driverLocation, session)
+      : undefined;
+
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { sessionId: session.sessionId },
+          UpdateExpression: eta
+            ? 'SET anomalies = :anomalies, eta = :eta'
+            : 'SET anomalies = :anomalies',
+          // A location update since the query wrote a newer ETA and fixes
+          // the anomalies were not found from
+          ConditionExpression: '#status = :active AND updatedAt = :seenUpdatedAt',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':anomalies': anomalies,
+            ':active': 'active',
+            ':seenUpdatedAt': session.updatedAt,
+            ...(eta && { ':eta': eta }),
+          },
+        })
+      );
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        // The vendor moved, arrived or tracking stopped since the query; the
+        // next run checks the session again
+        return 0;
+      }
+      throw error;
+    }
+
+    for (const type of opened) {
+      await this.publishTrackingAnomalyDetectedEvent(session, type, eta);
+    }
+
+    logger.info('Tracking anomalies updated', {
+      sessionId: session.sessionId,
+      opened,
+      open: anomalies.map((anomaly) => anomaly.type),
+    });
+
+    return opened.length;
+  }
+
+  /**
+   * Keep the filter state of a rejected fix (its count of consecutive jumps)
+   * without moving the vendor
+   */
+  private async saveLocationFilter(
+    session: TrackingSession,
+    locationFilter: TrackingSession['locationFilter']
+  ): Promise<TrackingSession> {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { sessionId: session.sessionId },
+        UpdateExpression: 'SET locationFilter = :locationFilter',
+        ExpressionAttributeValues: {
+          ':locationFilter': locationFilter,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+
+    return result.Attributes as TrackingSession;
+  }
+
   /**
    * Calculate ETA using AWS Location Service with real-time traffic data
-   * Uses HERE Technologies data source which includes live traffic conditions
+   * Uses HERE Technologies data source which includes live traffic conditions.
+   * The routed duration is then adjusted by the ETA model, trained on how long
+   * arrivals in the same region, hour, weather and vendor actually took.
    */
-  private async calculateETA(from: Location, to: Location): Promise<ETACalculation> {
+  private async calculateETA(
+    from: Location,
+    to: Location,
+    features: Pick<TrackingSession, 'vendorId' | 'weather'>
+  ): Promise<ETACalculation> {
     try {
       const command = new CalculateRouteCommand({
         CalculatorName: LOCATION_CALCULATOR_NAME,
@@ -292,19 +793,29 @@ export class TrackingService {
       const distanceKm = response.Summary.Distance || 0;
       const distanceMiles = distanceKm * 0.621371;
       const durationSeconds = response.Summary.DurationSeconds || 0;
-      const minutes = Math.ceil(durationSeconds / 60);
 
       const now = new Date();
-      const arrivalTime = new Date(now.getTime() + durationSeconds * 1000).toISOString();
+      const prediction = predictEta(ETA_MODEL, durationSeconds, {
+        region: determineRegion(to.lat, to.lon),
+        hourOfDay: now.getUTCHours(),
+        weather: features.weather,
+        vendorId: features.vendorId,
+      });
+
+      const p50Seconds = prediction ? prediction.p50Seconds : durationSeconds;
+      const minutes = Math.ceil(p50Seconds / 60);
+      const arrivalTime = new Date(now.getTime() + p50Seconds * 1000).toISOString();
 
-      // Calculate confidence based on route quality
+      // Until the model has a bucket for these features, confidence is based on route quality
       // Higher confidence when using real-time traffic data
-      const confidence = response.Summary.DurationSeconds ? 0.9 : 0.75;
+      const routeConfidence = response.Summary.DurationSeconds ? 0.9 : 0.75;
+      const confidence = prediction ? prediction.confidence : routeConfidence;
 
       logger.debug('ETA calculated with traffic data', {
         distanceMiles,
         minutes,
         confidence,
+        modelBucket: prediction?.bucket,
       });
 
       return {
@@ -313,6 +824,12 @@ export class TrackingService {
         arrivalTime,
         confidence,
         calculatedAt: now.toISOString(),
+        routedSeconds: durationSeconds,
+        ...(prediction && {
+          p90Minutes: Math.ceil(prediction.p90Seconds / 60),
+          p90ArrivalTime: new Date(now.getTime() + prediction.p90Seconds * 1000).toISOString(),
+          modelBucket: prediction.bucket,
+        }),
       };
     } catch (error) {
       logger.error('Failed to calculate ETA with traffic data', { error });
@@ -428,6 +945,104 @@ export class TrackingService {
     }
   }
 
+  /**
+   * Publish DriverLocationUpdated event to EventBridge so the vendor is sent
+   * the new destination
+   */
+  private async publishDriverLocationUpdatedEvent(
+    session: TrackingSession,
+    distanceMovedKm: number
+  ): Promise<void> {
+    try {
+      await eventBridgeClient.send(
+        new PutEventsCommand({
+          Entries: [
+            {
+              Source: 'roadcall.tracking',
+              DetailType: 'DriverLocationUpdated',
+              Detail: JSON.stringify({
+                sessionId: session.sessionId,
+                incidentId: session.incidentId,
+                driverId: session.driverId,
+                vendorId: session.vendorId,
+                location: {
+                  lat: session.driverLocation.lat,
+                  lon: session.driverLocation.lon,
+                },
+                distanceMovedMeters: Math.round(distanceMovedKm * 1000),
+                eta: {
+                  minutes: session.eta.minutes,
+                  distance: session.eta.distanceMiles,
+                },
+              }),
+              EventBusName: EVENT_BUS_NAME,
+            },
+          ],
+        })
+      );
+
+      logger.info('DriverLocationUpdated event published', {
+        incidentId: session.incidentId,
+        sessionId: session.sessionId,
+      });
+    } catch (error) {
+      logger.error('Failed to publish DriverLocationUpdated event', { error });
+      // Don't throw - event publishing failure shouldn't break tracking
+    }
+  }
+
+  /**
+   * Publish TrackingAnomalyDetected event to EventBridge
+   */
+  private async publishTrackingAnomalyDetectedEvent(
+    session: TrackingSession,
+    anomaly: TrackingAnomalyType,
+    eta?: ETACalculation
+  ): Promise<void> {
+    try {
+      const distanceToIncidentKm = this.calculateDistance(
+        session.vendorLocation,
+        session.driverLocation
+      );
+
+      await eventBridgeClient.send(
+        new PutEventsCommand({
+          Entries: [
+            {
+              Source: 'roadcall.tracking',
+              DetailType: 'TrackingAnomalyDetected',
+              Detail: JSON.stringify({
+                sessionId: session.sessionId,
+                incidentId: session.incidentId,
+                driverId: session.driverId,
+                vendorId: session.vendorId,
+                anomaly,
+                lastFixAt: session.vendorLocation.timestamp || session.updatedAt,
+                distanceToIncidentMiles: Math.round(distanceToIncidentKm * 0.621371 * 10) / 10,
+                ...(eta && {
+                  eta: {
+                    minutes: eta.minutes,
+                    arrivalTime: eta.arrivalTime,
+                  },
+                }),
+              }),
+              EventBusName: EVENT_BUS_NAME,
+            },
+          ],
+        })
+      );
+
+      logger.info('TrackingAnomalyDetected event published', {
+        incidentId: session.incidentId,
+        sessionId: session.sessionId,
+        anomaly,
+      });
+    } catch (error) {
+      logger.error('Failed to publish TrackingAnomalyDetected event', { error });
+      // Don't throw - event publishing failure shouldn't break tracking
+    }
+  }
+
   /**
    * Publish VendorArrived event to EventBridge
    */
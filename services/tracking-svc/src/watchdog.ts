@@ -0,0 +1,65 @@
+import type {
+  Location,
+  TrackingAnomalyType,
+  TrackingSession,
+  TrackingWatchdogConfig,
+} from '@roadcall/types';
+
+const KM_PER_MILE = 1.609344;
+
+/**
+ * Find the anomalies an active session has at `now` from its vendor fixes
+ * (oldest first). A stale session is only reported as stale: its last fixes
+ * say nothing about where the vendor is now.
+ */
+export function detectTrackingAnomalies(
+  session: TrackingSession,
+  points: Location[],
+  now: Date,
+  config: TrackingWatchdogConfig,
+  distance: (a: Location, b: Location) => number
+): TrackingAnomalyType[] {
+  const fixes = points.length > 0 ? points : [session.vendorLocation];
+  const lastFix = fixes[fixes.length - 1];
+  const fixTime = (fix: Location) => new Date(fix.timestamp || session.createdAt).getTime();
+
+  if (now.getTime() - fixTime(lastFix) >= config.staleGpsMinutes * 60 * 1000) {
+    return ['stale_gps'];
+  }
+
+  // The fixes since the last one at or before the window start, or none when
+  // the session is younger than the window
+  const windowFixes = (minutes: number) => {
+    const windowStart = now.getTime() - minutes * 60 * 1000;
+    let first = -1;
+    fixes.forEach((fix, index) => {
+      if (fixTime(fix) <= windowStart) {
+        first = index;
+      }
+    });
+    return first === -1 ? [] : fixes.slice(first);
+  };
+
+  const anomalies: TrackingAnomalyType[] = [];
+  const distanceToIncidentKm = (fix: Location) => distance(fix, session.driverLocation);
+
+  const stalledFixes = windowFixes(config.stalledMinutes);
+  if (
+    stalledFixes.length > 0 &&
+    distanceToIncidentKm(lastFix) >= config.stalledMinDistanceMiles * KM_PER_MILE &&
+    stalledFixes.every((fix) => distance(fix, lastFix) * 1000 <= config.stalledRadiusMeters)
+  ) {
+    anomalies.push('stalled');
+  }
+
+  const movingAwayFixes = windowFixes(config.movingAwayMinutes);
+  if (
+    movingAwayFixes.length > 0 &&
+    distanceToIncidentKm(lastFix) - distanceToIncidentKm(movingAwayFixes[0]) >=
+      config.movingAwayMinIncreaseMiles * KM_PER_MILE
+  ) {
+    anomalies.push('moving_away');
+  }
+
+  return anomalies;
+}
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+/**
+ * Vendor geo index backfill script
+ * Writes every vendor's coverage center to the geo indexes: the `geoCell`
+ * attribute behind geocell-availability-index and, when Redis is configured,
+ * the Redis GEO set. Vendors created before the geo index have neither and
+ * are missing from radius search until this has run. Safe to re-run.
+ *
+ * Usage:
+ *   VENDORS_TABLE=<table> [REDIS_HOST=<host>] ts-node scripts/backfill-geo-index.ts
+ */
+
+import { Vendor } from '@roadcall/types';
+import { dynamodb } from '@roadcall/aws-clients';
+import { syncVendorGeoIndex } from '../src/geo-index';
+
+const VENDORS_TABLE = process.env.VENDORS_TABLE || '';
+
+async function backfillGeoIndex() {
+  console.log(`Backfilling vendor geo index from ${VENDORS_TABLE}...`);
+
+  const vendors = await dynamodb.scanAll<Vendor>(VENDORS_TABLE);
+  let skipped = 0;
+
+  for (const vendor of vendors) {
+    if (!vendor.coverageArea?.center) {
+      console.warn(`  ${vendor.vendorId}: no coverage area, skipped`);
+      skipped++;
+      continue;
+    }
+
+    await syncVendorGeoIndex(
+      vendor.vendorId,
+      vendor.coverageArea.center,
+      vendor.availability.status
+    );
+  }
+
+  console.log(`✓ ${vendors.length - skipped} vendors indexed, ${skipped} skipped`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  if (!VENDORS_TABLE) {
+    console.error('VENDORS_TABLE is required');
+    process.exit(1);
+  }
+
+  backfillGeoIndex()
+    .then(() => {
+      console.log('\nGeo index backfill complete!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\nGeo index backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillGeoIndex };
@@ -0,0 +1,151 @@
+import { VendorMetrics } from '@roadcall/types';
+
+jest.mock('@roadcall/aws-clients', () => ({
+  ...jest.requireActual('@roadcall/aws-clients'),
+  dynamodb: {
+    get: jest.fn(),
+    updateItem: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+jest.mock('../redis-client', () => ({
+  getRedisClient: jest.fn().mockResolvedValue({ del: jest.fn().mockResolvedValue(1) }),
+}));
+
+import { dynamodb } from '@roadcall/aws-clients';
+import { applyOfferOutcome } from '../offer-metrics';
+import { recordOfferOutcome } from '../vendor-service';
+
+describe('applyOfferOutcome', () => {
+  const metrics: VendorMetrics = {
+    acceptanceRate: 0.9,
+    avgResponseTime: 300,
+    completionRate: 0.95,
+    totalJobs: 40,
+  };
+
+  it('should derive the acceptance rate from the first outcome', () => {
+    const updated = applyOfferOutcome(metrics, 'offer-1', 'declined');
+
+    expect(updated.acceptanceRate).toBe(0);
+    expect(updated.offerOutcomes).toEqual({
+      accepted: 0,
+      declined: 1,
+      expired: 0,
+      recent: ['declined'],
+      offerIds: ['offer-1'],
+    });
+  });
+
+  it('should count accepted, declined and expired offers separately', () => {
+    let updated = metrics;
+    for (const [i, outcome] of (
+      ['accepted', 'expired', 'accepted', 'declined'] as const
+    ).entries()) {
+      updated = applyOfferOutcome(updated, `offer-${i}`, outcome);
+    }
+
+    expect(updated.acceptanceRate).toBe(0.5);
+    expect(updated.offerOutcomes).toMatchObject({ accepted: 2, declined: 1, expired: 1 });
+  });
+
+  it('should drop the oldest outcome once the window is full', () => {
+    let updated = metrics;
+    for (const [i, outcome] of (['expired', 'accepted', 'accepted'] as const).entries()) {
+      updated = applyOfferOutcome(updated, `offer-${i}`, outcome, 2);
+    }
+
+    expect(updated.offerOutcomes?.recent).toEqual(['accepted', 'accepted']);
+    expect(updated.offerOutcomes?.offerIds).toEqual(['offer-1', 'offer-2']);
+    expect(updated.offerOutcomes?.expired).toBe(0);
+    expect(updated.acceptanceRate).toBe(1);
+  });
+
+  it('should keep the other metrics', () => {
+    const updated = applyOfferOutcome(metrics, 'offer-1', 'accepted');
+
+    expect(updated).toMatchObject({ avgResponseTime: 300, completionRate: 0.95, totalJobs: 40 });
+  });
+});
+
+describe('recordOfferOutcome', () => {
+  const metrics: VendorMetrics = {
+    acceptanceRate: 1,
+    avgResponseTime: 300,
+    completionRate: 0.95,
+    totalJobs: 40,
+    offerOutcomes: {
+      accepted: 1,
+      declined: 0,
+      expired: 0,
+      recent: ['accepted'],
+      offerIds: ['offer-1'],
+    },
+  };
+
+  const conditionFailed = Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write the window conditionally on the version read', async () => {
+    (dynamodb.get as jest.Mock).mockResolvedValueOnce({
+      vendorId: 'vendor-123',
+      metrics,
+      offerOutcomesVersion: 3,
+    });
+
+    await recordOfferOutcome('vendor-123', 'offer-2', 'declined');
+
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.any(String),
+      { vendorId: 'vendor-123' },
+      {
+        set: {
+          metrics: expect.objectContaining({
+            acceptanceRate: 0.5,
+            offerOutcomes: expect.objectContaining({ offerIds: ['offer-1', 'offer-2'] }),
+          }),
+        },
+        increment: { offerOutcomesVersion: 1 },
+        expect: { offerOutcomesVersion: 3 },
+      }
+    );
+  });
+
+  it('should skip an offer already in the window', async () => {
+    (dynamodb.get as jest.Mock).mockResolvedValueOnce({ vendorId: 'vendor-123', metrics });
+
+    await recordOfferOutcome('vendor-123', 'offer-1', 'accepted');
+
+    expect(dynamodb.updateItem).not.toHaveBeenCalled();
+  });
+
+  it('should re-read and retry when another outcome was written first', async () => {
+    (dynamodb.get as jest.Mock)
+      .mockResolvedValueOnce({
+        vendorId: 'vendor-123',
+        metrics: { ...metrics, offerOutcomes: undefined },
+      })
+      .mockResolvedValueOnce({ vendorId: 'vendor-123', metrics, offerOutcomesVersion: 1 });
+    (dynamodb.updateItem as jest.Mock).mockRejectedValueOnce(conditionFailed);
+
+    await recordOfferOutcome('vendor-123', 'offer-2', 'expired');
+
+    expect(dynamodb.updateItem).toHaveBeenCalledTimes(2);
+    expect(dynamodb.updateItem).toHaveBeenLastCalledWith(
+      expect.any(String),
+      { vendorId: 'vendor-123' },
+      expect.objectContaining({
+        set: {
+          metrics: expect.objectContaining({
+            offerOutcomes: expect.objectContaining({ recent: ['accepted', 'expired'] }),
+          }),
+        },
+        expect: { offerOutcomesVersion: 1 },
+      })
+    );
+  });
+});
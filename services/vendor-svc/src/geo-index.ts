@@ -0,0 +1,69 @@
+import { VendorAvailabilityStatus } from '@roadcall/types';
+import { dynamodb } from '@roadcall/aws-clients';
+import {
+  logger,
+  DynamoDBVendorGeoIndex,
+  RedisVendorGeoIndex,
+  VendorGeoIndex,
+} from '@roadcall/utils';
+import { getRedisClient } from './cache-service';
+
+const VENDORS_TABLE = process.env.VENDORS_TABLE || '';
+
+const dynamoGeoIndex = new DynamoDBVendorGeoIndex(dynamodb, VENDORS_TABLE);
+
+/**
+ * Get the Redis geo index if Redis is configured and reachable
+ */
+async function getRedisGeoIndex(): Promise<VendorGeoIndex | null> {
+  if (!process.env.REDIS_HOST) {
+    return null;
+  }
+
+  try {
+    const redis = await getRedisClient();
+    return new RedisVendorGeoIndex(redis);
+  } catch (error) {
+    logger.warn('Redis geo index unavailable', { error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Get the geo index to search: Redis when available, otherwise the
+ * geohash-cell index on the vendors table
+ */
+export async function getVendorGeoIndex(): Promise<VendorGeoIndex> {
+  return (await getRedisGeoIndex()) ?? dynamoGeoIndex;
+}
+
+/**
+ * Write a vendor's coverage center and availability to every geo index.
+ * DynamoDB is the source of truth; Redis failures are logged and tolerated.
+ */
+export async function syncVendorGeoIndex(
+  vendorId: string,
+  center: { lat: number; lon: number },
+  availabilityStatus: VendorAvailabilityStatus
+): Promise<void> {
+  const entry = {
+    vendorId,
+    lat: center.lat,
+    lon: center.lon,
+    availabilityStatus,
+  };
+
+  await dynamoGeoIndex.upsert(entry);
+
+  const redisGeoIndex = await getRedisGeoIndex();
+  if (redisGeoIndex) {
+    try {
+      await redisGeoIndex.upsert(entry);
+    } catch (error) {
+      logger.warn('Failed to update vendor in Redis geo index', {
+        vendorId,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { logger, ValidationError, AuthorizationError } from '@roadcall/utils';
+import { logger, ValidationError, AuthorizationError, isValidTimezone } from '@roadcall/utils';
 import { createVendor } from '../vendor-service';
 import { ServiceCapability, VendorCoverageArea, Vendor } from '@roadcall/types';
 
@@ -11,6 +11,7 @@ interface CreateVendorRequest {
   capabilities: ServiceCapability[];
   coverageArea: VendorCoverageArea;
   operatingHours: Vendor['operatingHours'];
+  timezone: string;
   pricing: Vendor['pricing'];
   certifications?: string[];
   insuranceExpiry: string;
@@ -45,12 +46,17 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       !body.capabilities ||
       !body.coverageArea ||
       !body.operatingHours ||
+      !body.timezone ||
       !body.pricing ||
       !body.insuranceExpiry
     ) {
       throw new ValidationError('Missing required fields');
     }
 
+    if (!isValidTimezone(body.timezone)) {
+      throw new ValidationError('Invalid timezone', { timezone: body.timezone });
+    }
+
     logger.info('Creating vendor', { businessName: body.businessName });
 
     const vendor = await createVendor(
@@ -63,7 +69,8 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       body.operatingHours,
       body.pricing,
       body.certifications || [],
-      body.insuranceExpiry
+      body.insuranceExpiry,
+      body.timezone
     );
 
     return {
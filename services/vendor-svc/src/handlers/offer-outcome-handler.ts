@@ -0,0 +1,38 @@
+import { EventBridgeEvent } from 'aws-lambda';
+import { OfferOutcome } from '@roadcall/types';
+import { logger } from '@roadcall/utils';
+import { recordOfferOutcome } from '../vendor-service';
+
+type OfferOutcomeEventType = 'OfferAccepted' | 'OfferDeclined' | 'OfferExpired';
+
+interface OfferOutcomeDetail {
+  offerId: string;
+  incidentId: string;
+  vendorId: string;
+}
+
+const OUTCOMES: Record<OfferOutcomeEventType, OfferOutcome> = {
+  OfferAccepted: 'accepted',
+  OfferDeclined: 'declined',
+  OfferExpired: 'expired',
+};
+
+/**
+ * Lambda handler for OfferAccepted, OfferDeclined and OfferExpired
+ * EventBridge events. Keeps each vendor's rolling acceptance rate current.
+ */
+export async function handler(
+  event: EventBridgeEvent<OfferOutcomeEventType, OfferOutcomeDetail>
+): Promise<void> {
+  const { offerId, vendorId } = event.detail;
+  const outcome = OUTCOMES[event['detail-type']];
+
+  logger.info('Offer outcome event received', { offerId, vendorId, outcome, eventId: event.id });
+
+  try {
+    await recordOfferOutcome(vendorId, offerId, outcome);
+  } catch (error) {
+    logger.error('Error recording offer outcome', error as Error, { offerId, vendorId });
+    throw error;
+  }
+}
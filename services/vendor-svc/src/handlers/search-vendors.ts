@@ -1,8 +1,9 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { logger, ValidationError } from '@roadcall/utils';
-import { searchVendors } from '../vendor-service';
-import { getVendorCache, isRedisAvailable } from '../cache-service';
+import { searchVendorsByLocation } from '../vendor-service';
+import { getRedisClient, isRedisAvailable } from '../cache-service';
 import { VendorCache } from '@roadcall/utils';
+import { ServiceCapability, Vendor } from '@roadcall/types';
 
 /**
  * Lambda handler for searching vendors with geospatial caching
@@ -46,116 +47,66 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       limit,
     });
 
-    let vendors = null;
+    let vendors: Vendor[] | null = null;
     let cacheHit = false;
 
+    const searchKey = `search:${VendorCache.generateSearchKey(
+      latitude,
+      longitude,
+      radiusMiles,
+      capability ? [capability] : undefined
+    )}`;
+
     // Try to get from cache first
     if (isRedisAvailable()) {
       try {
-        const cache = await getVendorCache();
-        const searchKey = VendorCache.generateSearchKey(
-          latitude,
-          longitude,
-          radiusMiles,
-          capability ? [capability] : undefined
-        );
-        
-        vendors = await cache.getCachedSearchResults(searchKey);
-        
+        const redis = await getRedisClient();
+        vendors = await redis.get<Vendor[]>(searchKey);
+
         if (vendors) {
           cacheHit = true;
           logger.info('Vendor search results retrieved from cache', { searchKey });
-          
+
           // Apply availability filter if needed
           if (availableOnly) {
             vendors = vendors.filter(v => v.availability.status === 'available');
           }
-          
+
           // Apply limit
           vendors = vendors.slice(0, limit);
         }
       } catch (cacheError) {
-        logger.warn('Cache retrieval failed, falling back to database', cacheError as Error);
+        logger.warn('Cache retrieval failed, falling back to geo index', cacheError as Error);
       }
     }
 
-    // If not in cache, search using geospatial index or database
+    // If not in cache, search the vendor geo index
     if (!vendors) {
-      // Try Redis geospatial search first
-      if (isRedisAvailable()) {
+      const results = await searchVendorsByLocation(
+        latitude,
+        longitude,
+        radiusMiles,
+        capability ? [capability as ServiceCapability] : undefined
+      );
+
+      // Cache the unfiltered results so availableOnly can be applied on read
+      if (isRedisAvailable() && results.length > 0) {
         try {
-          const cache = await getVendorCache();
-          vendors = await cache.searchVendorsNearby(
-            latitude,
-            longitude,
-            radiusMiles,
-            {
-              capabilities: capability ? [capability] : undefined,
-              availableOnly,
-              limit,
-            }
-          );
-          
-          if (vendors.length > 0) {
-            logger.info('Vendors found using Redis geospatial search', {
-              count: vendors.length,
-            });
-            
-            // Cache the search results
-            const searchKey = VendorCache.generateSearchKey(
-              latitude,
-              longitude,
-              radiusMiles,
-              capability ? [capability] : undefined
-            );
-            await cache.cacheSearchResults(searchKey, vendors, 60); // 1 minute TTL
-          }
-        } catch (geoError) {
-          logger.warn('Redis geospatial search failed, falling back to database', geoError as Error);
-          vendors = null;
+          const redis = await getRedisClient();
+          await redis.set(searchKey, results, { ttl: 60 }); // 1 minute TTL
+          logger.info('Vendor search results cached', { count: results.length });
+        } catch (cacheError) {
+          logger.warn('Failed to cache vendor search results', cacheError as Error);
         }
       }
 
-      // Fallback to database search
-      if (!vendors) {
-        vendors = await searchVendors({
-          latitude,
-          longitude,
-          radiusMiles,
-          capability,
-          availableOnly,
-          limit,
-        });
-
-        logger.info('Vendors found using database search', {
-          count: vendors.length,
-        });
-
-        // Cache the results and update geospatial index
-        if (isRedisAvailable() && vendors.length > 0) {
-          try {
-            const cache = await getVendorCache();
-            
-            // Cache individual vendor profiles
-            await Promise.all(
-              vendors.map(vendor => cache.cacheVendor(vendor))
-            );
-            
-            // Cache search results
-            const searchKey = VendorCache.generateSearchKey(
-              latitude,
-              longitude,
-              radiusMiles,
-              capability ? [capability] : undefined
-            );
-            await cache.cacheSearchResults(searchKey, vendors, 60);
-            
-            logger.info('Vendor search results cached', { count: vendors.length });
-          } catch (cacheError) {
-            logger.warn('Failed to cache vendor search results', cacheError as Error);
-          }
-        }
-      }
+      vendors = (
+        availableOnly ? results.filter(v => v.availability.status === 'available') : results
+      ).slice(0, limit);
+
+      logger.info('Vendors found using geo index search', {
+        count: vendors.length,
+      });
     }
 
     return {
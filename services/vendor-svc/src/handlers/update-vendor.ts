@@ -1,5 +1,11 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { logger, NotFoundError, ValidationError, AuthorizationError } from '@roadcall/utils';
+import {
+  logger,
+  NotFoundError,
+  ValidationError,
+  AuthorizationError,
+  isValidTimezone,
+} from '@roadcall/utils';
 import { updateVendor } from '../vendor-service';
 import { Vendor } from '@roadcall/types';
 
@@ -37,6 +43,11 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
     delete (updates as any).rating;
     delete (updates as any).metrics;
 
+    // A timezone can be changed but not removed
+    if ('timezone' in updates && !isValidTimezone(updates.timezone || '')) {
+      throw new ValidationError('Invalid timezone', { timezone: updates.timezone });
+    }
+
     logger.info('Updating vendor profile', { vendorId });
 
     const vendor = await updateVendor(vendorId, updates);
@@ -4,7 +4,9 @@ export { handler as getVendorHandler } from './handlers/get-vendor';
 export { handler as updateVendorHandler } from './handlers/update-vendor';
 export { handler as updateAvailabilityHandler } from './handlers/update-availability';
 export { handler as searchVendorsHandler } from './handlers/search-vendors';
+export { handler as offerOutcomeHandler } from './handlers/offer-outcome-handler';
 
 // Export services
 export * from './vendor-service';
+export * from './offer-metrics';
 export * from './redis-client';
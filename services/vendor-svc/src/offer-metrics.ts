@@ -0,0 +1,38 @@
+import { OfferOutcome, VendorMetrics, VendorOfferOutcomes } from '@roadcall/types';
+
+export const OFFER_OUTCOME_WINDOW = 50; // Offers counted towards the acceptance rate
+
+/**
+ * Add an offer outcome to a vendor's rolling window and recompute the
+ * acceptance rate from it. The oldest outcome drops out once the window is full.
+ */
+export function applyOfferOutcome(
+  metrics: VendorMetrics,
+  offerId: string,
+  outcome: OfferOutcome,
+  windowSize: number = OFFER_OUTCOME_WINDOW
+): VendorMetrics {
+  const recent = [...(metrics.offerOutcomes?.recent || []), outcome].slice(-windowSize);
+  const offerIds = [...(metrics.offerOutcomes?.offerIds || []), offerId].slice(-windowSize);
+
+  const offerOutcomes: VendorOfferOutcomes = {
+    accepted: recent.filter((o) => o === 'accepted').length,
+    declined: recent.filter((o) => o === 'declined').length,
+    expired: recent.filter((o) => o === 'expired').length,
+    recent,
+    offerIds,
+  };
+
+  return {
+    ...metrics,
+    acceptanceRate: offerOutcomes.accepted / recent.length,
+    offerOutcomes,
+  };
+}
+
+/**
+ * Whether an offer's outcome is already in the rolling window
+ */
+export function hasOfferOutcome(metrics: VendorMetrics, offerId: string): boolean {
+  return (metrics.offerOutcomes?.offerIds || []).includes(offerId);
+}
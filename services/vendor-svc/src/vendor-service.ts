@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import {
   Vendor,
+  OfferOutcome,
   ServiceCapability,
   VendorAvailabilityStatus,
   VendorCoverageArea,
@@ -8,16 +9,20 @@ import {
 import { dynamodb } from '@roadcall/aws-clients';
 import {
   logger,
+  ConflictError,
   NotFoundError,
   ValidationError,
-  generateGeohash,
-  calculateDistance,
 } from '@roadcall/utils';
 import { getRedisClient } from './redis-client';
+import { getVendorGeoIndex, syncVendorGeoIndex } from './geo-index';
+import { applyOfferOutcome, hasOfferOutcome } from './offer-metrics';
 
 const VENDORS_TABLE = process.env.VENDORS_TABLE || '';
 const VENDOR_CACHE_TTL = 300; // 5 minutes
-const REDIS_GEO_KEY = 'vendors:geo';
+const OFFER_OUTCOME_MAX_ATTEMPTS = 5;
+
+// Bumped on every offer outcome write so concurrent outcomes don't overwrite each other
+type VersionedVendor = Vendor & { offerOutcomesVersion?: number };
 
 /**
  * Get vendor by ID
@@ -64,7 +69,8 @@ export async function createVendor(
   operatingHours: Vendor['operatingHours'],
   pricing: Vendor['pricing'],
   certifications: string[] = [],
-  insuranceExpiry: string
+  insuranceExpiry: string,
+  timezone: string
 ): Promise<Vendor> {
   const vendor: Vendor = {
     vendorId: uuidv4(),
@@ -79,6 +85,7 @@ export async function createVendor(
       lastUpdated: new Date().toISOString(),
     },
     operatingHours,
+    timezone,
     rating: {
       average: 0,
       count: 0,
@@ -96,35 +103,14 @@ export async function createVendor(
     createdAt: new Date().toISOString(),
   };
 
-  // Generate geohash for coverage area center
-  const geohash = generateGeohash(
-    coverageArea.center.lat,
-    coverageArea.center.lon,
-    6
-  );
-
-  // Store in DynamoDB with geohash
   await dynamodb.put(VENDORS_TABLE, {
     ...vendor,
-    geohash,
     availabilityStatus: vendor.availability.status,
     avgRating: vendor.rating.average,
   });
 
-  // Add to Redis geospatial index
-  try {
-    const redis = await getRedisClient();
-    await redis.geoAdd(REDIS_GEO_KEY, {
-      longitude: coverageArea.center.lon,
-      latitude: coverageArea.center.lat,
-      member: vendor.vendorId,
-    });
-  } catch (error) {
-    logger.warn('Failed to add vendor to Redis geo index', {
-      vendorId: vendor.vendorId,
-      error: (error as Error).message,
-    });
-  }
+  // Add to geospatial indexes
+  await syncVendorGeoIndex(vendor.vendorId, coverageArea.center, vendor.availability.status);
 
   logger.info('Vendor created', { vendorId: vendor.vendorId });
 
@@ -143,33 +129,13 @@ export async function updateVendor(
     throw new NotFoundError('Vendor', vendorId);
   }
 
-  // If coverage area changed, update geohash
+  await dynamodb.update(VENDORS_TABLE, { vendorId }, updates);
+
+  // If coverage area changed, move the vendor in the geospatial indexes
   if (updates.coverageArea) {
-    const geohash = generateGeohash(
-      updates.coverageArea.center.lat,
-      updates.coverageArea.center.lon,
-      6
-    );
-    (updates as any).geohash = geohash;
-
-    // Update Redis geo index
-    try {
-      const redis = await getRedisClient();
-      await redis.geoAdd(REDIS_GEO_KEY, {
-        longitude: updates.coverageArea.center.lon,
-        latitude: updates.coverageArea.center.lat,
-        member: vendorId,
-      });
-    } catch (error) {
-      logger.warn('Failed to update vendor in Redis geo index', {
-        vendorId,
-        error: (error as Error).message,
-      });
-    }
+    await syncVendorGeoIndex(vendorId, updates.coverageArea.center, vendor.availability.status);
   }
 
-  await dynamodb.update(VENDORS_TABLE, { vendorId }, updates);
-
   // Invalidate cache
   try {
     const redis = await getRedisClient();
@@ -215,6 +181,8 @@ export async function updateVendorAvailability(
     availabilityStatus: status,
   });
 
+  await syncVendorGeoIndex(vendorId, vendor.coverageArea.center, status);
+
   // Invalidate cache
   try {
     const redis = await getRedisClient();
@@ -230,7 +198,7 @@ export async function updateVendorAvailability(
 }
 
 /**
- * Search vendors by location and radius using Redis geospatial
+ * Search vendors by location and radius using the vendor geo index
  */
 export async function searchVendorsByLocation(
   lat: number,
@@ -239,62 +207,25 @@ export async function searchVendorsByLocation(
   capabilities?: ServiceCapability[],
   availabilityStatus?: VendorAvailabilityStatus
 ): Promise<Vendor[]> {
-  // For now, use DynamoDB fallback
-  // Redis geospatial will be optimized in production
-  return searchVendorsByLocationFallback(lat, lon, radiusMiles, capabilities, availabilityStatus);
-}
+  const geoIndex = await getVendorGeoIndex();
+  const matches = await geoIndex.search({ lat, lon, radiusMiles, availabilityStatus });
 
-/**
- * Fallback search using DynamoDB (less efficient)
- */
-async function searchVendorsByLocationFallback(
-  lat: number,
-  lon: number,
-  radiusMiles: number,
-  capabilities?: ServiceCapability[],
-  availabilityStatus?: VendorAvailabilityStatus
-): Promise<Vendor[]> {
-  // Generate geohash prefix for approximate area
-  const geohash = generateGeohash(lat, lon, 4); // Lower precision for wider search
-
-  // Query by geohash prefix
-  const vendors = await dynamodb.query<Vendor>(
-    VENDORS_TABLE,
-    'begins_with(geohash, :geohash)',
-    { ':geohash': geohash },
-    'geohash-availability-index'
-  );
-
-  // Filter by distance, capabilities, and availability
-  const filtered = vendors.filter((vendor) => {
-    // Check distance
-    const distance = calculateDistance(
-      lat,
-      lon,
-      vendor.coverageArea.center.lat,
-      vendor.coverageArea.center.lon
-    );
-    if (distance > radiusMiles) {
+  // Matches are sorted by distance; keep that order
+  const vendors = await Promise.all(matches.map((match) => getVendorById(match.vendorId)));
+
+  const filtered = vendors.filter((vendor): vendor is Vendor => {
+    if (!vendor) {
       return false;
     }
 
-    // Check capabilities
     if (capabilities && capabilities.length > 0) {
-      const hasAllCapabilities = capabilities.every((cap) => vendor.capabilities.includes(cap));
-      if (!hasAllCapabilities) {
-        return false;
-      }
-    }
-
-    // Check availability
-    if (availabilityStatus && vendor.availability.status !== availabilityStatus) {
-      return false;
+      return capabilities.every((cap) => vendor.capabilities.includes(cap));
     }
 
     return true;
   });
 
-  logger.info('Vendors searched by location (fallback)', {
+  logger.info('Vendors searched by location', {
     lat,
     lon,
     radiusMiles,
@@ -377,3 +308,68 @@ export async function updateVendorMetrics(
 
   logger.info('Vendor metrics updated', { vendorId });
 }
+
+/**
+ * Record an offer outcome in the vendor's rolling acceptance metrics.
+ * Reads the vendor from DynamoDB rather than the cache and writes the window
+ * conditionally, retrying when another outcome lands first. Outcomes for an
+ * offer already in the window are skipped.
+ */
+export async function recordOfferOutcome(
+  vendorId: string,
+  offerId: string,
+  outcome: OfferOutcome
+): Promise<void> {
+  for (let attempt = 1; attempt <= OFFER_OUTCOME_MAX_ATTEMPTS; attempt++) {
+    const vendor = await dynamodb.get<VersionedVendor>(VENDORS_TABLE, { vendorId });
+    if (!vendor) {
+      throw new NotFoundError('Vendor', vendorId);
+    }
+
+    if (hasOfferOutcome(vendor.metrics, offerId)) {
+      logger.info('Vendor offer outcome already recorded', { vendorId, offerId, outcome });
+      return;
+    }
+
+    const metrics = applyOfferOutcome(vendor.metrics, offerId, outcome);
+
+    try {
+      await dynamodb.updateItem(
+        VENDORS_TABLE,
+        { vendorId },
+        {
+          set: { metrics },
+          increment: { offerOutcomesVersion: 1 },
+          expect: { offerOutcomesVersion: vendor.offerOutcomesVersion },
+        }
+      );
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        logger.info('Vendor offer outcomes changed, retrying', { vendorId, offerId, attempt });
+        continue;
+      }
+      throw error;
+    }
+
+    // Invalidate cache
+    try {
+      const redis = await getRedisClient();
+      await redis.del(`vendor:${vendorId}`);
+    } catch (error) {
+      logger.warn('Failed to invalidate vendor cache', {
+        vendorId,
+        error: (error as Error).message,
+      });
+    }
+
+    logger.info('Vendor offer outcome recorded', {
+      vendorId,
+      offerId,
+      outcome,
+      acceptanceRate: metrics.acceptanceRate,
+    });
+    return;
+  }
+
+  throw new ConflictError(`Offer ${offerId} outcome for vendor ${vendorId} kept conflicting`);
+}